@@ -0,0 +1,94 @@
+/**
+ * Run a task's prompt over the test fixture corpus with the fake LLM client and
+ * report, per fixture, the prompt size and whether the output matches what the
+ * prompt declares. Save a report before editing a prompt and pass it as the
+ * baseline afterwards to see what changed.
+ *
+ *   npm run eval:prompt -- executiveSummary --out before.json
+ *   npm run eval:prompt -- executiveSummary --baseline before.json
+ *   npm run eval:prompt -- executiveSummary --response recorded-output.json
+ */
+import fs from 'node:fs';
+
+import {
+  GLOSSARY_HEAVY,
+  HIERARCHICAL_DOCUMENT,
+  MALFORMED_DOCUMENT,
+  PROCESS_DOCUMENT,
+  QUANTITATIVE_REPORT,
+  SMALL_BUSINESS_REPORT,
+  TECHNICAL_SPEC,
+} from '../../test/fixtures/documents.js';
+import { createFakeLLMClient } from '../../test/mocks/fakeLLMClient.js';
+import { MODEL_CONFIGS } from '../src/config/modelConfig.js';
+import {
+  comparePromptReports,
+  evaluatePrompt,
+} from '../src/services/llm/promptEvaluation.js';
+
+import type { TaskType } from '../../shared/src/types.js';
+import type { PromptEvaluationReport, PromptFixture } from '../src/services/llm/promptEvaluation.js';
+
+const CORPUS: PromptFixture[] = [
+  { name: 'small-business-report', input: SMALL_BUSINESS_REPORT },
+  { name: 'process-document', input: PROCESS_DOCUMENT },
+  { name: 'technical-spec', input: TECHNICAL_SPEC },
+  { name: 'quantitative-report', input: QUANTITATIVE_REPORT },
+  { name: 'glossary-heavy', input: GLOSSARY_HEAVY },
+  { name: 'hierarchical-document', input: HIERARCHICAL_DOCUMENT },
+  { name: 'malformed-document', input: MALFORMED_DOCUMENT },
+];
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const task = args[0] as TaskType | undefined;
+
+  if (!task || !(task in MODEL_CONFIGS)) {
+    console.error('Usage: npm run eval:prompt -- <task> [--response <file>] [--out <report.json>] [--baseline <report.json>]');
+    console.error(`Tasks: ${Object.keys(MODEL_CONFIGS).join(', ')}`);
+    process.exit(1);
+  }
+
+  // A recorded model output replaces the fake client's canned response for the task
+  const responseFile = option(args, '--response');
+  const { client } = createFakeLLMClient(
+    responseFile ? { responses: { [task]: fs.readFileSync(responseFile, 'utf8') } } : {},
+  );
+
+  const report = await evaluatePrompt(task, client, CORPUS);
+
+  console.log(`\n${report.task}: ${report.prompt} (${report.promptHash})`);
+  for (const result of report.results) {
+    const repairs = result.repairAttempts > 0 ? ` after ${result.repairAttempts} repair(s)` : '';
+    const status = result.problems.length === 0 ? `ok${repairs}` : `FAIL ${result.problems.join('; ')}`;
+    console.log(`  ${result.fixture.padEnd(24)} ${String(result.inputTokens).padStart(6)} input tokens  ${status}`);
+  }
+
+  const baselineFile = option(args, '--baseline');
+  if (baselineFile) {
+    const baseline = JSON.parse(fs.readFileSync(baselineFile, 'utf8')) as PromptEvaluationReport;
+    const changes = comparePromptReports(baseline, report);
+    console.log(`\nAgainst ${baselineFile}:`);
+    console.log(changes.length > 0 ? changes.map((change) => `  ${change}`).join('\n') : '  no changes');
+  }
+
+  const outFile = option(args, '--out');
+  if (outFile) {
+    fs.writeFileSync(outFile, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\nReport written to ${outFile}`);
+  }
+
+  if (report.results.some((result) => result.problems.length > 0)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -138,6 +138,42 @@ const TABLES = [
     ],
     billingMode: 'PAY_PER_REQUEST',
   },
+  {
+    name: process.env.DYNAMODB_GANTT_TABLE || 'vaisu-gantt',
+    keySchema: [
+      { AttributeName: 'documentId', KeyType: 'HASH' },
+      { AttributeName: 'SK', KeyType: 'RANGE' },
+    ],
+    attributeDefinitions: [
+      { AttributeName: 'documentId', AttributeType: 'S' },
+      { AttributeName: 'SK', AttributeType: 'S' },
+    ],
+    billingMode: 'PAY_PER_REQUEST',
+  },
+  {
+    name: process.env.DYNAMODB_RACI_MATRIX_TABLE || 'vaisu-raci-matrix',
+    keySchema: [
+      { AttributeName: 'documentId', KeyType: 'HASH' },
+      { AttributeName: 'SK', KeyType: 'RANGE' },
+    ],
+    attributeDefinitions: [
+      { AttributeName: 'documentId', AttributeType: 'S' },
+      { AttributeName: 'SK', AttributeType: 'S' },
+    ],
+    billingMode: 'PAY_PER_REQUEST',
+  },
+  {
+    name: process.env.DYNAMODB_PRIORITY_MATRIX_TABLE || 'vaisu-priority-matrix',
+    keySchema: [
+      { AttributeName: 'documentId', KeyType: 'HASH' },
+      { AttributeName: 'SK', KeyType: 'RANGE' },
+    ],
+    attributeDefinitions: [
+      { AttributeName: 'documentId', AttributeType: 'S' },
+      { AttributeName: 'SK', AttributeType: 'S' },
+    ],
+    billingMode: 'PAY_PER_REQUEST',
+  },
   {
     name: process.env.DYNAMODB_KNOWLEDGE_GRAPH_TABLE || 'vaisu-knowledge-graph',
     keySchema: [
@@ -81,6 +81,8 @@ export interface KPI {
   trend?: 'up' | 'down' | 'stable';
   trendValue?: number;
   confidence: number;
+  sourceQuote?: string; // Sentence the value was taken from
+  grounding?: SourceGrounding;
 }
 
 export type EntityType =
@@ -100,6 +102,7 @@ export interface Entity {
   mentions: TextSpan[];
   importance: number;
   context?: string;
+  grounding?: SourceGrounding;
 }
 
 export interface TextSpan {
@@ -108,6 +111,13 @@ export interface TextSpan {
   text: string;
 }
 
+// Whether the quotes an extracted item was taken from occur in the document
+export interface SourceGrounding {
+  verified: boolean;
+  confidence: number; // 0-1, how closely the best quote matched the text
+  spans: TextSpan[]; // Where the matched quotes are, document offsets
+}
+
 export type RelationType =
   | 'causes'
   | 'requires'
@@ -124,6 +134,7 @@ export interface Relationship {
   type: RelationType;
   strength: number;
   evidence: TextSpan[];
+  grounding?: SourceGrounding;
 }
 
 export interface Metric {
@@ -268,6 +279,7 @@ export interface GraphNode {
     sourceQuote?: string;
     sourceSpan?: TextSpan;
   };
+  grounding?: SourceGrounding;
 }
 
 export interface EnhancedGraphNode extends GraphNode {
@@ -294,6 +306,7 @@ export interface GraphEdge {
   strength: number;
   label?: string;
   evidence?: TextSpan[];
+  grounding?: SourceGrounding;
 }
 
 export interface Cluster {
@@ -327,14 +340,19 @@ export interface TimelineData {
   scale: 'day' | 'week' | 'month' | 'year';
 }
 
+export type DatePrecision = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
 export interface TimelineEvent {
   id: string;
   title: string;
   description: string;
-  date: Date;
-  endDate?: Date;
+  date: string; // ISO 8601
+  endDate?: string;
   category: string;
   color: string;
+  dateText?: string; // Expression as written, e.g. "Q3 2024" or "two weeks after launch"
+  precision?: DatePrecision;
+  source?: TextSpan;
 }
 
 export interface TermsDefinitionsData {
@@ -356,6 +374,124 @@ export interface GlossaryTerm {
   context?: string;
 }
 
+// Gantt Chart Types
+
+export type GanttTaskStatus = 'not-started' | 'in-progress' | 'completed' | 'blocked';
+
+export interface GanttTask {
+  id: string;
+  name: string;
+  description?: string;
+  start: string; // ISO 8601
+  end: string; // ISO 8601
+  startText?: string; // Dates as written, e.g. "Q3 2024" or "two weeks after launch"
+  endText?: string;
+  // Dates were derived from a duration, a dependency or the project start rather than written
+  estimated: boolean;
+  milestone: boolean;
+  progress: number; // 0-1
+  status?: GanttTaskStatus;
+  owner?: string;
+  phaseId?: string;
+  dependencies: string[]; // Ids of tasks that must finish first
+  source?: TextSpan;
+}
+
+export interface GanttPhase {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface GanttData {
+  tasks: GanttTask[];
+  phases: GanttPhase[];
+  start: string;
+  end: string;
+  // Ids of the tasks on the longest chain of dependencies
+  criticalPath: string[];
+}
+
+// RACI Matrix Types
+
+export type RaciResponsibility = 'R' | 'A' | 'C' | 'I';
+
+export interface RaciRole {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export interface RaciActivity {
+  id: string;
+  name: string;
+  description?: string;
+  phase?: string;
+  source?: TextSpan;
+}
+
+export interface RaciAssignment {
+  id: string; // `${activityId}:${roleId}`
+  activityId: string;
+  roleId: string;
+  responsibilities: RaciResponsibility[];
+}
+
+export interface RaciMatrixData {
+  roles: RaciRole[];
+  activities: RaciActivity[];
+  assignments: RaciAssignment[];
+}
+
+// Priority Matrix Types
+
+export type PriorityMatrixMode = 'impact-effort' | 'urgency-importance';
+
+export type PriorityQuadrant =
+  | 'quick-win'
+  | 'major-project'
+  | 'fill-in'
+  | 'thankless-task'
+  | 'do-first'
+  | 'schedule'
+  | 'delegate'
+  | 'eliminate';
+
+export interface PriorityAxis {
+  label: string;
+  lowLabel: string;
+  highLabel: string;
+}
+
+export interface PriorityQuadrantInfo {
+  id: PriorityQuadrant;
+  label: string;
+  description: string;
+  // Which half of each axis the quadrant covers
+  highX: boolean;
+  highY: boolean;
+  color: string;
+}
+
+export interface PriorityItem {
+  id: string;
+  label: string;
+  description?: string;
+  x: number; // 0-1 along xAxis
+  y: number; // 0-1 along yAxis
+  quadrant: PriorityQuadrant;
+  rationale?: string;
+  source?: TextSpan;
+}
+
+export interface PriorityMatrixData {
+  mode: PriorityMatrixMode;
+  xAxis: PriorityAxis;
+  yAxis: PriorityAxis;
+  quadrants: PriorityQuadrantInfo[];
+  items: PriorityItem[];
+}
+
 // Argument Map Types
 export interface ArgumentMapData {
   nodes: ArgumentNode[];
@@ -398,6 +534,8 @@ export interface ArgumentNode {
     };
   };
   source?: string;
+  sourceQuote?: string; // Passage of the document the node restates
+  grounding?: SourceGrounding;
   parentId?: string; // For hierarchy if needed, mostly handled by edges
   isCollapsed?: boolean;
 }
@@ -559,6 +697,117 @@ export interface DiagramMetadata {
   generatedAt: string;
 }
 
+// UML Sequence Diagram Types
+
+export type SequenceParticipantKind =
+  | 'actor'
+  | 'participant'
+  | 'boundary'
+  | 'control'
+  | 'entity'
+  | 'database'
+  | 'queue';
+
+export interface SequenceParticipant {
+  id: string;
+  name: string;
+  kind: SequenceParticipantKind;
+  description?: string;
+  sourceQuote: string;
+  sourceSpan: TextSpan | null;
+}
+
+export type SequenceMessageKind = 'sync' | 'async' | 'return' | 'create';
+
+export interface SequenceMessage {
+  id: string;
+  from: string; // Participant ID
+  to: string; // Participant ID
+  label: string;
+  kind: SequenceMessageKind;
+  order: number; // Position in time, 0-based
+  // Innermost fragment operand the message belongs to
+  fragmentId?: string;
+  operandIndex?: number;
+  sourceQuote: string;
+  sourceSpan: TextSpan | null;
+}
+
+// Span of time a participant is busy handling a call, between two message orders
+export interface SequenceActivation {
+  id: string;
+  participantId: string;
+  startOrder: number;
+  endOrder: number;
+  depth: number; // Nesting level, for self-calls and callbacks
+}
+
+export type SequenceFragmentKind = 'alt' | 'opt' | 'loop' | 'par' | 'break' | 'critical';
+
+export interface SequenceFragmentOperand {
+  guard?: string; // e.g. "[payment accepted]"
+}
+
+export interface SequenceFragment {
+  id: string;
+  kind: SequenceFragmentKind;
+  operands: SequenceFragmentOperand[]; // alt and par have several; the rest have one
+  // Number of messages sent before the fragment opens
+  order: number;
+  // Enclosing fragment operand, when nested
+  parentId?: string;
+  parentOperandIndex?: number;
+  sourceQuote: string;
+  sourceSpan: TextSpan | null;
+}
+
+export interface UMLSequenceData {
+  participants: SequenceParticipant[];
+  messages: SequenceMessage[];
+  activations: SequenceActivation[];
+  fragments: SequenceFragment[];
+}
+
+// UML Activity Diagram Types
+
+export type ActivityNodeKind =
+  | 'initial'
+  | 'action'
+  | 'decision'
+  | 'merge'
+  | 'fork'
+  | 'join'
+  | 'final';
+
+export interface ActivityNode {
+  id: string;
+  kind: ActivityNodeKind;
+  label: string;
+  description?: string;
+  swimlaneId?: string;
+  sourceQuote: string;
+  sourceSpan: TextSpan | null;
+}
+
+export interface ActivityFlow {
+  id: string;
+  source: string; // Node ID
+  target: string; // Node ID
+  guard?: string; // Condition on a decision branch
+}
+
+export interface ActivitySwimlane {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface UMLActivityData {
+  nodes: ActivityNode[];
+  flows: ActivityFlow[];
+  swimlanes: ActivitySwimlane[];
+}
+
 export interface Position {
   x: number;
   y: number;
@@ -593,7 +842,7 @@ export interface DocumentListItem {
   title: string;
   fileType: string;
   uploadDate: Date;
-  tldr?: string;
+  tldr?: TLDRSummary | string;
   summaryHeadline?: string;
   wordCount: number;
 }
@@ -609,6 +858,112 @@ export interface SearchDocumentsResponse {
   documents: DocumentListItem[];
   total: number;
   query: string;
+  /** Ranked matches, in the same order as `documents` */
+  results?: SearchResult[];
+  /** Whether embedding similarity contributed to the ranking */
+  semantic?: boolean;
+}
+
+export type SearchField = 'title' | 'section' | 'content' | 'summary' | 'entity' | 'glossary';
+
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  /** Character ranges within `text` that matched the query */
+  highlights: Array<{ start: number; end: number }>;
+  /** Anchor of the section the snippet comes from */
+  sectionId?: string;
+  sectionTitle?: string;
+  entityType?: EntityType;
+}
+
+export interface SearchResult {
+  documentId: string;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+// Document comparison
+
+export type ComparisonChange = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface ComparedDocument {
+  documentId: string;
+  title: string;
+}
+
+export interface SectionComparison {
+  change: ComparisonChange;
+  leftSectionId?: string;
+  rightSectionId?: string;
+  leftTitle?: string;
+  rightTitle?: string;
+  level: number;
+  /** Word overlap of the two versions of the section, 0-1 */
+  similarity: number;
+  summary?: string;
+}
+
+export interface EntityComparison {
+  change: ComparisonChange;
+  text: string;
+  type: EntityType;
+  leftImportance?: number;
+  rightImportance?: number;
+}
+
+export interface RelationshipComparison {
+  change: ComparisonChange;
+  /** Entity texts; relationship endpoints are matched by name, not id */
+  source: string;
+  target: string;
+  type: RelationType;
+  leftStrength?: number;
+  rightStrength?: number;
+}
+
+export interface KPIComparison {
+  change: ComparisonChange;
+  label: string;
+  left?: KPI;
+  right?: KPI;
+  /** Right value minus left value, when both are present in the same unit */
+  delta?: number;
+}
+
+export type ComparisonCategory = 'section' | 'entity' | 'relationship' | 'kpi';
+
+export interface ComparisonMatrixRow {
+  id: string;
+  category: ComparisonCategory;
+  label: string;
+  change: ComparisonChange;
+  left?: string;
+  right?: string;
+  summary?: string;
+}
+
+export interface ComparisonMatrixData {
+  left: ComparedDocument;
+  right: ComparedDocument;
+  rows: ComparisonMatrixRow[];
+  counts: Record<ComparisonChange, number>;
+}
+
+export interface CompareDocumentsRequest {
+  leftDocumentId: string;
+  rightDocumentId: string;
+}
+
+export interface DocumentComparison {
+  left: ComparedDocument;
+  right: ComparedDocument;
+  sections: SectionComparison[];
+  entities: EntityComparison[];
+  relationships: RelationshipComparison[];
+  kpis: KPIComparison[];
+  matrix: ComparisonMatrixData;
+  generatedAt: string;
 }
 
 export interface GetDocumentFullResponse {
@@ -647,10 +1002,146 @@ export interface GenerateVisualizationResponse {
   data: any;
 }
 
-export interface ExportRequest {
+// Visualization edits, stored as a JSON-Patch-style overlay on the generated data
+
+export type VisualizationPatchOp = 'add' | 'remove' | 'replace';
+
+export interface VisualizationPatchOperation {
+  op: VisualizationPatchOp;
+  path: string; // JSON Pointer; array elements can be addressed by index or by `id`
+  value?: any;
+}
+
+export interface PatchVisualizationResponse {
+  type: VisualizationType;
+  data: any;
+  overrides: VisualizationPatchOperation[];
+  version: number; // Version the edit was saved as
+}
+
+// Visualization version history: every generation, edit, rollback and import is kept
+export type VisualizationVersionSource = 'generation' | 'edit' | 'rollback' | 'import';
+
+export interface VisualizationVersionSummary {
+  version: number;
+  source: VisualizationVersionSource;
+  restoredFrom?: number; // Version a rollback restored
+  llmMetadata: {
+    model: string;
+    tokensUsed: number;
+    processingTime: number;
+    timestamp: string;
+    promptVersion?: string;
+    validationFailures?: LLMValidationFailure[];
+  };
+  createdAt: string;
+}
+
+export interface VisualizationVersion extends VisualizationVersionSummary {
+  type: VisualizationType;
+  data: any;
+  overrides?: VisualizationPatchOperation[];
+}
+
+export interface ListVisualizationVersionsResponse {
+  type: VisualizationType;
+  versions: VisualizationVersionSummary[]; // Newest first
+}
+
+export interface RollbackVisualizationResponse extends PatchVisualizationResponse {
+  restoredFrom: number;
+}
+
+// Cross-document knowledge base: knowledge graphs merged across a user's library
+
+export interface KnowledgeBaseDocument {
   documentId: string;
-  visualizationType: VisualizationType;
-  format: 'pdf' | 'png' | 'svg' | 'pptx' | 'html' | 'json' | 'csv';
+  title: string;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+export interface KnowledgeBaseNode extends GraphNode {
+  documentIds: string[]; // Documents that mention the entity
+  aliases: string[]; // Other labels merged into this entity
+}
+
+export interface KnowledgeBaseEvidence {
+  documentId: string;
+  evidence: Array<TextSpan | string>;
+}
+
+export interface KnowledgeBaseEdge extends GraphEdge {
+  documentIds: string[];
+  documentEvidence: KnowledgeBaseEvidence[];
+}
+
+export interface KnowledgeBaseGraph {
+  nodes: KnowledgeBaseNode[];
+  edges: KnowledgeBaseEdge[];
+  documents: KnowledgeBaseDocument[]; // Documents whose graphs were merged
+  missingDocumentIds: string[]; // Requested documents without a knowledge graph yet
+  resolution: 'name' | 'embedding'; // How entities were matched across documents
+}
+
+// Document Q&A
+
+export interface QACitation {
+  sectionId: string;
+  sectionTitle: string;
+  span: TextSpan;
+}
+
+export interface QAMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: QACitation[];
+  createdAt: string;
+}
+
+export interface AskQuestionRequest {
+  question: string;
+}
+
+export interface AskQuestionResponse {
+  documentId: string;
+  answer: QAMessage;
+  history: QAMessage[];
+}
+
+export interface ExportRequest {
+  format:
+    | 'pdf'
+    | 'png'
+    | 'svg'
+    | 'pptx'
+    | 'html'
+    | 'json'
+    | 'csv'
+    | 'plantuml'
+    | 'mermaid'
+    | 'graphml'
+    | 'dot';
+  // Required for every format except pptx
+  visualizationType?: VisualizationType;
+  // pptx only: visualizations appended to the summary deck as image slides
+  visualizationTypes?: VisualizationType[];
+}
+
+// Diagrams-as-code import: Mermaid or PlantUML source stored as a visualization
+export type DiagramTextFormat = 'mermaid' | 'plantuml';
+
+export interface ImportVisualizationRequest {
+  format?: DiagramTextFormat; // Detected from the source when omitted
+  source: string;
+}
+
+export interface ImportVisualizationResponse {
+  type: VisualizationType;
+  data: any;
+  version: number;
+  warnings: string[];
 }
 
 // LLM Types
@@ -671,13 +1162,26 @@ export type TaskType =
   | 'uml-extraction'
   | 'knowledge-graph-generation'
   | 'depthAnalysis'
-  | 'entityGraphGeneration';
+  | 'entityGraphGeneration'
+  | 'flowchartGeneration'
+  | 'comparisonSummary'
+  | 'ganttGeneration'
+  | 'raciGeneration'
+  | 'priorityMatrixGeneration'
+  | 'umlSequenceGeneration'
+  | 'umlActivityGeneration';
+
+// Backends an LLM call can be dispatched to; see services/llm/providers
+export type LLMProviderName = 'openrouter' | 'openai-compatible' | 'anthropic';
 
 export interface LLMCallConfig {
   model: string;
   messages: LLMMessage[];
   maxTokens?: number;
   temperature: number;
+  // Defaults to LLM_PROVIDER when omitted
+  provider?: LLMProviderName;
+  task?: TaskType;
 }
 
 export interface LLMMessage {
@@ -691,9 +1195,101 @@ export interface LLMResponse {
   model: string;
 }
 
+// Output that failed its task's schema, kept with the record it fed into
+export interface LLMValidationFailure {
+  task: TaskType;
+  model: string;
+  errors: string[]; // `path: message` for the last invalid output
+  repairAttempts: number;
+  repaired: boolean; // A repair attempt produced valid output
+}
+
+// One metered request to an LLM provider
+export interface LLMUsageRecord {
+  callId: string;
+  userId: string;
+  documentId?: string;
+  task?: TaskType; // Unset for embeddings
+  model: string;
+  provider: LLMProviderName;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD, 0 when the provider publishes no pricing
+  timestamp: string;
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface LLMUsageBudget {
+  limit: number | null; // USD per month, null when uncapped
+  spent: number;
+  remaining: number | null;
+  resetAt: string;
+}
+
+// Response of GET /api/usage
+export interface LLMUsageSummary {
+  period: string; // YYYY-MM
+  totals: LLMUsageTotals;
+  budget: LLMUsageBudget;
+  byDocument: Array<LLMUsageTotals & { documentId: string }>;
+  byTask: Array<LLMUsageTotals & { task: TaskType | 'embedding' }>;
+  byModel: Array<LLMUsageTotals & { model: string }>;
+  recentCalls: LLMUsageRecord[]; // Newest first
+}
+
+// Subscription plans
+
+export type PlanId = 'free' | 'pro' | 'team' | 'enterprise';
+
+// What a plan allows; null means unlimited
+export interface PlanLimits {
+  dailyAnalyses: number | null;
+  maxDocuments: number | null;
+  maxStorageBytes: number | null;
+  maxDocumentBytes: number | null;
+  visualizationTypes: VisualizationType[] | null; // null allows every type
+}
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  priceMonthlyUsd: number | null; // null when priced by sales
+  limits: PlanLimits;
+}
+
+export type PlanLimitCode =
+  | 'DAILY_LIMIT_EXCEEDED'
+  | 'STORAGE_LIMIT_EXCEEDED'
+  | 'DOCUMENT_TOO_LARGE'
+  | 'VISUALIZATION_NOT_IN_PLAN';
+
+// Body of the 402 (plan limit) and 429 (daily limit) responses
+export interface PlanLimitError {
+  error: string;
+  code: PlanLimitCode;
+  plan: PlanId;
+  // Cheapest plan that allows the request, null when none does
+  upgrade: Plan | null;
+  details: {
+    current?: number;
+    limit?: number | null;
+    resetAt?: string;
+    visualizationType?: VisualizationType;
+  };
+}
+
 export interface ModelConfig {
   primary: string;
   fallback: string;
+  provider?: LLMProviderName;
+  // Provider for the fallback model; defaults to `provider`
+  fallbackProvider?: LLMProviderName;
   maxTokens?: number;
   temperature: number;
   systemPrompt: string;
@@ -55,6 +55,12 @@ export const DYNAMODB_EXECUTIVE_DASHBOARD_TABLE
   = process.env.DYNAMODB_EXECUTIVE_DASHBOARD_TABLE || 'vaisu-executive-dashboard';
 export const DYNAMODB_TIMELINE_TABLE
   = process.env.DYNAMODB_TIMELINE_TABLE || 'vaisu-timeline';
+export const DYNAMODB_GANTT_TABLE
+  = process.env.DYNAMODB_GANTT_TABLE || 'vaisu-gantt';
+export const DYNAMODB_RACI_MATRIX_TABLE
+  = process.env.DYNAMODB_RACI_MATRIX_TABLE || 'vaisu-raci-matrix';
+export const DYNAMODB_PRIORITY_MATRIX_TABLE
+  = process.env.DYNAMODB_PRIORITY_MATRIX_TABLE || 'vaisu-priority-matrix';
 export const DYNAMODB_TERMS_DEFINITIONS_TABLE
   = process.env.DYNAMODB_TERMS_DEFINITIONS_TABLE || 'vaisu-terms-definitions';
 export const DYNAMODB_KNOWLEDGE_GRAPH_TABLE
@@ -63,6 +69,12 @@ export const DYNAMODB_ENTITY_GRAPH_TABLE
   = process.env.DYNAMODB_ENTITY_GRAPH_TABLE || 'vaisu-entity-graph';
 export const DYNAMODB_STRUCTURED_VIEW_TABLE
   = process.env.DYNAMODB_STRUCTURED_VIEW_TABLE || 'vaisu-structured-views';
+export const DYNAMODB_VISUALIZATION_VERSIONS_TABLE
+  = process.env.DYNAMODB_VISUALIZATION_VERSIONS_TABLE || 'vaisu-visualization-versions';
+export const DYNAMODB_LLM_USAGE_TABLE
+  = process.env.DYNAMODB_LLM_USAGE_TABLE || 'vaisu-llm-usage';
+export const DYNAMODB_WEBHOOK_EVENTS_TABLE
+  = process.env.DYNAMODB_WEBHOOK_EVENTS_TABLE || 'vaisu-webhook-events';
 
 // User Management tables
 export const DYNAMODB_USERS_TABLE
@@ -110,10 +122,14 @@ export function validateAWSConfig(): void {
     DYNAMODB_FLOWCHART_TABLE,
     DYNAMODB_EXECUTIVE_DASHBOARD_TABLE,
     DYNAMODB_TIMELINE_TABLE,
+    DYNAMODB_GANTT_TABLE,
+    DYNAMODB_RACI_MATRIX_TABLE,
+    DYNAMODB_PRIORITY_MATRIX_TABLE,
     DYNAMODB_TERMS_DEFINITIONS_TABLE,
     DYNAMODB_KNOWLEDGE_GRAPH_TABLE,
     DYNAMODB_ENTITY_GRAPH_TABLE,
     DYNAMODB_STRUCTURED_VIEW_TABLE,
+    DYNAMODB_VISUALIZATION_VERSIONS_TABLE,
   ];
 
   const invalidTables = allVisualizationTables.filter((table) => !table);
@@ -136,10 +152,14 @@ export function validateAWSConfig(): void {
       flowchart: DYNAMODB_FLOWCHART_TABLE,
       executiveDashboard: DYNAMODB_EXECUTIVE_DASHBOARD_TABLE,
       timeline: DYNAMODB_TIMELINE_TABLE,
+      gantt: DYNAMODB_GANTT_TABLE,
+      raciMatrix: DYNAMODB_RACI_MATRIX_TABLE,
+      priorityMatrix: DYNAMODB_PRIORITY_MATRIX_TABLE,
       termsDefinitions: DYNAMODB_TERMS_DEFINITIONS_TABLE,
       knowledgeGraph: DYNAMODB_KNOWLEDGE_GRAPH_TABLE,
       entityGraph: DYNAMODB_ENTITY_GRAPH_TABLE,
       structuredView: DYNAMODB_STRUCTURED_VIEW_TABLE,
+      versions: DYNAMODB_VISUALIZATION_VERSIONS_TABLE,
     },
     userManagementTables: {
       users: DYNAMODB_USERS_TABLE,
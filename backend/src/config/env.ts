@@ -71,4 +71,8 @@ export const env = {
   STRIPE_SECRET_KEY: getRequiredEnv('STRIPE_SECRET_KEY'),
   STRIPE_WEBHOOK_SECRET: getRequiredEnv('STRIPE_WEBHOOK_SECRET'),
   STRIPE_PRICE_ID_PRO: getRequiredEnv('STRIPE_PRICE_ID_PRO'),
+  // Optional; Team checkout is refused without it
+  STRIPE_PRICE_ID_TEAM: process.env.STRIPE_PRICE_ID_TEAM || '',
+  // Optional; points the Stripe client at a local Stripe API such as stripe-mock
+  STRIPE_API_URL: process.env.STRIPE_API_URL || '',
 };
@@ -1,5 +1,5 @@
-import { loadPrompt } from '../services/llm/promptLoader.js';
-import type { TaskType, ModelConfig } from '../../shared/src/types.js';
+import { loadPrompt } from '../services/llm/promptRegistry.js';
+import type { TaskType, ModelConfig, LLMProviderName } from '../../shared/src/types.js';
 
 // LLM Model Constants - single source of truth for model identifiers
 export const LLM_MODELS = {
@@ -17,8 +17,23 @@ export const LLM_MODELS = {
 } as const;
 
 // LLM Selection Constants - easily switch between different model configurations
-export const LLM_PRIMARY = LLM_MODELS.NEMOTRON_30B;
-export const LLM_FALLBACK = LLM_MODELS.QWEN_CODER;
+export const LLM_PRIMARY: string = process.env.LLM_PRIMARY_MODEL || LLM_MODELS.NEMOTRON_30B;
+export const LLM_FALLBACK: string = process.env.LLM_FALLBACK_MODEL || LLM_MODELS.QWEN_CODER;
+
+// Provider for every task below. Set LLM_PROVIDER=openai-compatible with local model
+// names in LLM_PRIMARY_MODEL/LLM_FALLBACK_MODEL to keep documents on-prem; a task can
+// override `provider`/`fallbackProvider` individually
+export const LLM_PROVIDER = (process.env.LLM_PROVIDER || 'openrouter') as LLMProviderName;
+
+// Optional embedding model on LLM_PROVIDER (e.g. openai/text-embedding-3-small, or
+// nomic-embed-text on Ollama). When unset, features that can use embeddings fall back
+// to text matching
+export const EMBEDDING_MODEL: string | undefined = process.env.EMBEDDING_MODEL || undefined;
+
+// Monthly LLM spend cap per user in USD. Every call is metered; when unset, none is refused
+export const LLM_MONTHLY_BUDGET_USD: number | undefined = process.env.LLM_MONTHLY_BUDGET_USD
+  ? Number(process.env.LLM_MONTHLY_BUDGET_USD)
+  : undefined;
 
 // Temperature Constants
 export const TEMP_PRECISION = 0.1; // For high-fidelity extraction
@@ -29,99 +44,164 @@ export const MODEL_CONFIGS: Record<TaskType, ModelConfig> = {
   tldr: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('tldr'),
   },
   executiveSummary: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('executiveSummary'),
   },
   entityExtraction: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('entityExtraction'),
   },
   relationshipDetection: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('relationshipDetection'),
   },
   sectionSummary: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('sectionSummary'),
   },
   signalAnalysis: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('signalAnalysis'),
   },
   vizRecommendation: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('vizRecommendation'),
   },
   kpiExtraction: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('kpiExtraction'),
   },
   glossary: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('glossary'),
   },
   qa: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('qa'),
   },
   mindMapGeneration: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('mindMapGeneration'),
   },
   argumentMapGeneration: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('argumentMapGeneration'),
   },
   'uml-extraction': {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('uml-extraction'),
   },
   'knowledge-graph-generation': {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('knowledge-graph-generation'),
   },
   depthAnalysis: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('depthAnalysis'),
   },
   entityGraphGeneration: {
     primary: LLM_PRIMARY,
     fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
     temperature: TEMP_PRECISION,
     systemPrompt: loadPrompt('entityGraph'),
   } as ModelConfig,
+  flowchartGeneration: {
+    primary: LLM_PRIMARY,
+    fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
+    temperature: TEMP_PRECISION,
+    systemPrompt: loadPrompt('flowchartGeneration'),
+  },
+  comparisonSummary: {
+    primary: LLM_PRIMARY,
+    fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
+    temperature: TEMP_PRECISION,
+    systemPrompt: loadPrompt('comparisonSummary'),
+  },
+  ganttGeneration: {
+    primary: LLM_PRIMARY,
+    fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
+    temperature: TEMP_PRECISION,
+    systemPrompt: loadPrompt('ganttGeneration'),
+  },
+  raciGeneration: {
+    primary: LLM_PRIMARY,
+    fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
+    temperature: TEMP_PRECISION,
+    systemPrompt: loadPrompt('raciGeneration'),
+  },
+  priorityMatrixGeneration: {
+    primary: LLM_PRIMARY,
+    fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
+    temperature: TEMP_PRECISION,
+    systemPrompt: loadPrompt('priorityMatrixGeneration'),
+  },
+  umlSequenceGeneration: {
+    primary: LLM_PRIMARY,
+    fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
+    temperature: TEMP_PRECISION,
+    systemPrompt: loadPrompt('umlSequenceGeneration'),
+  },
+  umlActivityGeneration: {
+    primary: LLM_PRIMARY,
+    fallback: LLM_FALLBACK,
+    provider: LLM_PROVIDER,
+    temperature: TEMP_PRECISION,
+    systemPrompt: loadPrompt('umlActivityGeneration'),
+  },
 };
 
 export function getModelForTask(task: TaskType): ModelConfig {
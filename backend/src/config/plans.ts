@@ -0,0 +1,99 @@
+import type { Plan, PlanId, PlanLimits } from '../../shared/src/types.js';
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+// Every plan a user can be on, cheapest first. Usage enforcement and the
+// upgrade offers in its responses are driven from here.
+export const PLANS: Record<PlanId, Plan> = {
+  free: {
+    id: 'free',
+    name: 'Free',
+    priceMonthlyUsd: 0,
+    limits: {
+      dailyAnalyses: 5,
+      maxDocuments: 10,
+      maxStorageBytes: 100 * MB,
+      maxDocumentBytes: 10 * MB,
+      visualizationTypes: [
+        'structured-view',
+        'mind-map',
+        'flowchart',
+        'timeline',
+        'terms-definitions',
+      ],
+    },
+  },
+  pro: {
+    id: 'pro',
+    name: 'Pro',
+    priceMonthlyUsd: 29,
+    limits: {
+      dailyAnalyses: 100,
+      maxDocuments: 1000,
+      maxStorageBytes: 10 * GB,
+      maxDocumentBytes: 100 * MB,
+      visualizationTypes: null,
+    },
+  },
+  team: {
+    id: 'team',
+    name: 'Team',
+    priceMonthlyUsd: 99,
+    limits: {
+      dailyAnalyses: 500,
+      maxDocuments: 10000,
+      maxStorageBytes: 100 * GB,
+      maxDocumentBytes: 500 * MB,
+      visualizationTypes: null,
+    },
+  },
+  enterprise: {
+    id: 'enterprise',
+    name: 'Enterprise',
+    priceMonthlyUsd: null,
+    limits: {
+      dailyAnalyses: null,
+      maxDocuments: null,
+      maxStorageBytes: null,
+      maxDocumentBytes: null,
+      visualizationTypes: null,
+    },
+  },
+};
+
+const PLAN_ORDER: PlanId[] = ['free', 'pro', 'team', 'enterprise'];
+
+// Subscription states that keep a paid plan. A past-due subscription keeps it
+// while Stripe retries the payment; it turns unpaid or canceled once retries run out.
+const PAID_STATUSES = ['active', 'trialing', 'past_due'];
+
+/**
+ * The plan a user record is on. Admins get everything; a paid subscription
+ * gets its plan (Pro when none was recorded); the legacy `pro` role stays Pro.
+ */
+export function resolvePlanId(user: {
+  role?: string;
+  plan?: PlanId;
+  subscriptionStatus?: string;
+}): PlanId {
+  if (user.role === 'admin') {
+    return 'enterprise';
+  }
+  if (user.subscriptionStatus && PAID_STATUSES.includes(user.subscriptionStatus)) {
+    return user.plan && user.plan !== 'free' ? user.plan : 'pro';
+  }
+  return user.role === 'pro' ? 'pro' : 'free';
+}
+
+/**
+ * The cheapest plan above `planId` whose limits pass `allows`, null when none does
+ */
+export function findUpgrade(
+  planId: PlanId,
+  allows: (limits: PlanLimits) => boolean,
+): Plan | null {
+  const higher = PLAN_ORDER.slice(PLAN_ORDER.indexOf(planId) + 1);
+  const upgrade = higher.find((id) => allows(PLANS[id].limits));
+  return upgrade ? PLANS[upgrade] : null;
+}
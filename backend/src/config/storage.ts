@@ -0,0 +1,34 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Loads .env before the variables below are read
+import './env.js';
+
+export type StorageBackend = 'dynamodb' | 'sqlite';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+// backend/src/config -> backend/data
+const DEFAULT_DATA_DIR = path.resolve(__dirname, '../../data');
+
+function resolveStorageBackend(): StorageBackend {
+  const backend = process.env.STORAGE_BACKEND || 'dynamodb';
+  if (backend !== 'dynamodb' && backend !== 'sqlite') {
+    throw new Error(`Unsupported STORAGE_BACKEND: ${backend}`);
+  }
+  return backend;
+}
+
+// STORAGE_BACKEND=sqlite keeps records in an embedded database and document
+// files on the local filesystem, so the backend runs without AWS
+export const STORAGE_BACKEND: StorageBackend = resolveStorageBackend();
+
+export const SQLITE_PATH
+  = process.env.SQLITE_PATH || path.join(DEFAULT_DATA_DIR, 'vaisu.db');
+
+export const LOCAL_STORAGE_DIR
+  = process.env.LOCAL_STORAGE_DIR || path.join(DEFAULT_DATA_DIR, 'documents');
+
+export function isSqliteStorage(): boolean {
+  return STORAGE_BACKEND === 'sqlite';
+}
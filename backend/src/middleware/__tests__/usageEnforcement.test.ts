@@ -1,5 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { checkAnalysisLimit, checkStorageLimit } from "../usageEnforcement.js";
+import {
+  checkAnalysisLimit,
+  checkDocumentSize,
+  checkStorageLimit,
+  checkVisualizationType,
+  MAX_UPLOAD_BYTES,
+  maxUploadBytes,
+} from "../usageEnforcement.js";
+import { resolvePlanId } from "../../config/plans.js";
 import { usageLimitsRepository } from "../../repositories/usageLimitsRepository.js";
 import * as documentRepository from "../../repositories/documentRepository.js";
 import { Request, Response } from "express";
@@ -12,9 +20,12 @@ vi.mock("../../repositories/usageLimitsRepository.js", () => ({
 }));
 
 vi.mock("../../repositories/documentRepository.js", () => ({
-  countByUserId: vi.fn(),
+  findAllByUserId: vi.fn(),
 }));
 
+const documentsOf = (count: number, fileSize = 1024) =>
+  Array.from({ length: count }, (_, i) => ({ documentId: `doc-${i}`, fileSize }));
+
 describe("Usage Enforcement Middleware", () => {
   let mockReq: any;
   let mockRes: Partial<Response>;
@@ -24,12 +35,15 @@ describe("Usage Enforcement Middleware", () => {
     mockReq = {
       user: {
         userId: "test-user",
-        subscriptionStatus: "inactive", // Default to FREE
+        plan: "free",
       } as any,
+      params: {},
+      body: {},
     };
     mockRes = {
       status: vi.fn().mockReturnThis(),
       json: vi.fn(),
+      set: vi.fn(),
     };
     next = vi.fn();
     vi.clearAllMocks();
@@ -48,7 +62,7 @@ describe("Usage Enforcement Middleware", () => {
       expect(mockRes.status).not.toHaveBeenCalled();
     });
 
-    it("returns 403 if limit exceeded (Free tier)", async () => {
+    it("returns 429 with an upgrade offer if limit exceeded (Free tier)", async () => {
       // Mock daily usage >= 5
       (usageLimitsRepository.getDailyUsage as any).mockResolvedValue({
         analysisCount: 5,
@@ -57,10 +71,15 @@ describe("Usage Enforcement Middleware", () => {
       await checkAnalysisLimit(mockReq as Request, mockRes as Response, next);
 
       expect(next).not.toHaveBeenCalled();
-      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.status).toHaveBeenCalledWith(429);
+      expect(mockRes.set).toHaveBeenCalledWith("Retry-After", expect.any(String));
       expect(mockRes.json).toHaveBeenCalledWith(
         expect.objectContaining({
           error: "Daily analysis limit exceeded",
+          code: "DAILY_LIMIT_EXCEEDED",
+          plan: "free",
+          upgrade: expect.objectContaining({ id: "pro", priceMonthlyUsd: 29 }),
+          details: expect.objectContaining({ current: 5, limit: 5 }),
         }),
       );
     });
@@ -68,7 +87,7 @@ describe("Usage Enforcement Middleware", () => {
     it("allows higher limit for PRO users", async () => {
       mockReq.user = {
         userId: "pro-user",
-        subscriptionStatus: "active",
+        plan: "pro",
       } as any;
 
       // Mock daily usage > 5 but < 100
@@ -81,6 +100,17 @@ describe("Usage Enforcement Middleware", () => {
       expect(next).toHaveBeenCalled();
     });
 
+    it("never limits Enterprise users", async () => {
+      mockReq.user = { userId: "big-user", plan: "enterprise" } as any;
+      (usageLimitsRepository.getDailyUsage as any).mockResolvedValue({
+        analysisCount: 100000,
+      });
+
+      await checkAnalysisLimit(mockReq as Request, mockRes as Response, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
     it("returns 401 if no user", async () => {
       mockReq.user = undefined;
       await checkAnalysisLimit(mockReq as Request, mockRes as Response, next);
@@ -91,24 +121,43 @@ describe("Usage Enforcement Middleware", () => {
   describe("checkStorageLimit", () => {
     it("calls next() if under limit (Free tier)", async () => {
       // Mock total docs < 10
-      (documentRepository.countByUserId as any).mockResolvedValue(9);
+      (documentRepository.findAllByUserId as any).mockResolvedValue(documentsOf(9));
 
       await checkStorageLimit(mockReq as Request, mockRes as Response, next);
 
       expect(next).toHaveBeenCalled();
     });
 
-    it("returns 403 if limit exceeded (Free tier)", async () => {
+    it("returns 402 if limit exceeded (Free tier)", async () => {
       // Mock total docs >= 10
-      (documentRepository.countByUserId as any).mockResolvedValue(10);
+      (documentRepository.findAllByUserId as any).mockResolvedValue(documentsOf(10));
 
       await checkStorageLimit(mockReq as Request, mockRes as Response, next);
 
       expect(next).not.toHaveBeenCalled();
-      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.status).toHaveBeenCalledWith(402);
       expect(mockRes.json).toHaveBeenCalledWith(
         expect.objectContaining({
           error: "Storage limit exceeded (maximum documents reached)",
+          code: "STORAGE_LIMIT_EXCEEDED",
+          upgrade: expect.objectContaining({ id: "pro" }),
+        }),
+      );
+    });
+
+    it("returns 402 once the stored bytes reach the plan's storage", async () => {
+      // Two documents of 60MB against the Free plan's 100MB
+      (documentRepository.findAllByUserId as any).mockResolvedValue(
+        documentsOf(2, 60 * 1024 * 1024),
+      );
+
+      await checkStorageLimit(mockReq as Request, mockRes as Response, next);
+
+      expect(mockRes.status).toHaveBeenCalledWith(402);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          error: "Storage limit exceeded (maximum storage reached)",
+          details: { current: 120 * 1024 * 1024, limit: 100 * 1024 * 1024 },
         }),
       );
     });
@@ -116,15 +165,97 @@ describe("Usage Enforcement Middleware", () => {
     it("allows higher limit for PRO users", async () => {
       mockReq.user = {
         userId: "pro-user",
-        subscriptionStatus: "active",
+        plan: "pro",
       } as any;
 
       // Mock total docs > 10 but < 1000
-      (documentRepository.countByUserId as any).mockResolvedValue(500);
+      (documentRepository.findAllByUserId as any).mockResolvedValue(documentsOf(500));
 
       await checkStorageLimit(mockReq as Request, mockRes as Response, next);
 
       expect(next).toHaveBeenCalled();
     });
   });
+
+  describe("checkDocumentSize", () => {
+    it("returns 402 for an upload over the plan's document size", () => {
+      mockReq.file = { size: 20 * 1024 * 1024 };
+
+      checkDocumentSize(mockReq as Request, mockRes as Response, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(402);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "DOCUMENT_TOO_LARGE", upgrade: expect.objectContaining({ id: "pro" }) }),
+      );
+    });
+
+    it("measures pasted text when there is no file", () => {
+      mockReq.body = { text: "short text" };
+
+      checkDocumentSize(mockReq as Request, mockRes as Response, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("offers Team when Pro's document size is not enough either", () => {
+      mockReq.user.plan = "pro";
+      mockReq.file = { size: 200 * 1024 * 1024 };
+
+      checkDocumentSize(mockReq as Request, mockRes as Response, next);
+
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ plan: "pro", upgrade: expect.objectContaining({ id: "team" }) }),
+      );
+    });
+  });
+
+  describe("maxUploadBytes", () => {
+    it("caps uploads at the plan's document size", () => {
+      expect(maxUploadBytes(mockReq)).toBe(10 * 1024 * 1024);
+    });
+
+    it("falls back to the server-wide cap for plans without one", () => {
+      mockReq.user.plan = "enterprise";
+
+      expect(maxUploadBytes(mockReq)).toBe(MAX_UPLOAD_BYTES);
+    });
+  });
+
+  describe("checkVisualizationType", () => {
+    it("allows the visualizations included in the Free plan", () => {
+      mockReq.params = { type: "mind-map" };
+
+      checkVisualizationType(mockReq as Request, mockRes as Response, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("returns 402 for a visualization outside the Free plan", () => {
+      mockReq.params = { type: "knowledge-graph" };
+
+      checkVisualizationType(mockReq as Request, mockRes as Response, next);
+
+      expect(mockRes.status).toHaveBeenCalledWith(402);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: "VISUALIZATION_NOT_IN_PLAN",
+          details: { visualizationType: "knowledge-graph" },
+        }),
+      );
+    });
+  });
+});
+
+describe("resolvePlanId", () => {
+  it("resolves the plan from the user record", () => {
+    expect(resolvePlanId({ role: "free" })).toBe("free");
+    expect(resolvePlanId({ role: "free", subscriptionStatus: "active" })).toBe("pro");
+    expect(resolvePlanId({ role: "free", subscriptionStatus: "trialing", plan: "team" })).toBe("team");
+    expect(resolvePlanId({ role: "free", subscriptionStatus: "canceled", plan: "team" })).toBe("free");
+    expect(resolvePlanId({ role: "free", subscriptionStatus: "past_due", plan: "team" })).toBe("team");
+    expect(resolvePlanId({ role: "free", subscriptionStatus: "unpaid", plan: "team" })).toBe("free");
+    expect(resolvePlanId({ role: "pro" })).toBe("pro");
+    expect(resolvePlanId({ role: "admin" })).toBe("enterprise");
+  });
 });
@@ -1,13 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
 
+import { resolvePlanId } from '../config/plans.js';
 import { sessionRepository } from '../repositories/sessionRepository.js';
 import { userRepository } from '../repositories/userRepository.js';
 import { authUtils } from '../utils/auth.js';
 
+import type { PlanId } from '../../shared/src/types.js';
+
 export interface AuthenticatedRequest extends Request {
   user?: {
     userId: string;
     email: string;
+    // Resolved from the user record on every request
+    plan: PlanId;
   };
   session?: {
     sessionId: string;
@@ -68,6 +73,7 @@ export async function authenticate(req: AuthenticatedRequest, res: Response, nex
     req.user = {
       userId: user.userId,
       email: user.email,
+      plan: resolvePlanId(user),
     };
 
     next();
@@ -104,6 +110,7 @@ export async function optionalAuthenticate(req: AuthenticatedRequest, res: Respo
     req.user = {
       userId: user.userId,
       email: user.email,
+      plan: resolvePlanId(user),
     };
 
     next();
@@ -1,39 +1,48 @@
-import { Request, Response, NextFunction } from 'express';
+import { Response, NextFunction } from 'express';
 
-import { countByUserId } from '../repositories/documentRepository.js';
+import { findUpgrade, PLANS } from '../config/plans.js';
+import { findAllByUserId } from '../repositories/documentRepository.js';
 import { usageLimitsRepository } from '../repositories/usageLimitsRepository.js';
+import { exceededBudget } from '../services/llm/usageMeter.js';
 
-// Extend Request to include user
-interface AuthenticatedRequest extends Request {
-  user?: {
-    userId: string;
-    role?: string;
-    subscriptionStatus?: string;
-  };
-}
+import type { AuthenticatedRequest } from './auth.js';
+import type {
+  Plan,
+  PlanLimitError,
+  PlanLimits,
+  VisualizationType,
+} from '../../shared/src/types.js';
 
-// Limits configuration
-const LIMITS = {
-  FREE: {
-    dailyAnalysis: 5,
-    totalDocuments: 10,
-  },
-  PRO: {
-    dailyAnalysis: 100,
-    totalDocuments: 1000,
-  },
-};
+const getPlan = (req: AuthenticatedRequest): Plan => PLANS[req.user?.plan || 'free'];
 
-const getLimits = (req: AuthenticatedRequest) => {
-  const user = req.user;
-  const isPro
-    = user?.subscriptionStatus === 'active'
-    || user?.role === 'pro'
-    || user?.role === 'admin';
+// Room for one more under a limit; a null limit is unlimited
+const hasRoom = (current: number, limit: number | null) => limit === null || current < limit;
 
-  return isPro ? LIMITS.PRO : LIMITS.FREE;
+// Daily usage is bucketed by UTC date, so it resets at the next UTC midnight
+const nextUtcMidnight = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
 };
 
+/**
+ * Refuse a request over a plan limit, offering the cheapest plan whose limits
+ * `allows` it. 429 for limits that reset by themselves, 402 for the rest.
+ */
+function refuse(
+  res: Response,
+  status: 402 | 429,
+  plan: Plan,
+  allows: (limits: PlanLimits) => boolean,
+  body: Pick<PlanLimitError, 'error' | 'code' | 'details'>,
+): void {
+  const response: PlanLimitError = {
+    ...body,
+    plan: plan.id,
+    upgrade: findUpgrade(plan.id, allows),
+  };
+  res.status(status).json(response);
+}
+
 export const checkAnalysisLimit = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -47,18 +56,20 @@ export const checkAnalysisLimit = async (
       return;
     }
 
-    const limits = getLimits(req);
+    const plan = getPlan(req);
     const dailyUsage = await usageLimitsRepository.getDailyUsage(userId);
     const currentCount = dailyUsage?.analysisCount || 0;
 
-    if (currentCount >= limits.dailyAnalysis) {
-      res.status(429).json({
+    if (!hasRoom(currentCount, plan.limits.dailyAnalyses)) {
+      const resetAt = nextUtcMidnight();
+      res.set('Retry-After', String(Math.ceil((resetAt.getTime() - Date.now()) / 1000)));
+      refuse(res, 429, plan, (limits) => hasRoom(currentCount, limits.dailyAnalyses), {
         error: 'Daily analysis limit exceeded',
         code: 'DAILY_LIMIT_EXCEEDED',
         details: {
           current: currentCount,
-          limit: limits.dailyAnalysis,
-          resetAt: 'tomorrow',
+          limit: plan.limits.dailyAnalyses,
+          resetAt: resetAt.toISOString(),
         },
       });
       return;
@@ -71,6 +82,41 @@ export const checkAnalysisLimit = async (
   }
 };
 
+export const checkLLMBudget = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const budget = await exceededBudget(userId);
+
+    if (budget) {
+      res.status(402).json({
+        error: 'Monthly LLM budget exceeded',
+        code: 'BUDGET_EXCEEDED',
+        details: {
+          spent: budget.spent,
+          limit: budget.limit,
+          resetAt: budget.resetAt,
+        },
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('Error checking LLM budget:', error);
+    res.status(500).json({ error: 'Internal server error checking limits' });
+  }
+};
+
 export const checkStorageLimit = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -84,16 +130,29 @@ export const checkStorageLimit = async (
       return;
     }
 
-    const limits = getLimits(req);
-    const totalDocs = await countByUserId(userId);
+    const plan = getPlan(req);
+    const documents = await findAllByUserId(userId);
+    const storageUsed = documents.reduce((total, doc) => total + (doc.fileSize || 0), 0);
 
-    if (totalDocs >= limits.totalDocuments) {
-      res.status(403).json({
+    if (!hasRoom(documents.length, plan.limits.maxDocuments)) {
+      refuse(res, 402, plan, (limits) => hasRoom(documents.length, limits.maxDocuments), {
         error: 'Storage limit exceeded (maximum documents reached)',
         code: 'STORAGE_LIMIT_EXCEEDED',
         details: {
-          current: totalDocs,
-          limit: limits.totalDocuments,
+          current: documents.length,
+          limit: plan.limits.maxDocuments,
+        },
+      });
+      return;
+    }
+
+    if (!hasRoom(storageUsed, plan.limits.maxStorageBytes)) {
+      refuse(res, 402, plan, (limits) => hasRoom(storageUsed, limits.maxStorageBytes), {
+        error: 'Storage limit exceeded (maximum storage reached)',
+        code: 'STORAGE_LIMIT_EXCEEDED',
+        details: {
+          current: storageUsed,
+          limit: plan.limits.maxStorageBytes,
         },
       });
       return;
@@ -105,3 +164,84 @@ export const checkStorageLimit = async (
     res.status(500).json({ error: 'Internal server error checking limits' });
   }
 };
+
+// Uploads are capped at this size for every plan, including unlimited ones
+export const MAX_UPLOAD_BYTES = 1024 * 1024 * 1024;
+
+const fitsDocument = (size: number, limits: PlanLimits) =>
+  limits.maxDocumentBytes === null || size <= limits.maxDocumentBytes;
+
+/**
+ * The largest upload to accept from the user, so that an upload over the
+ * plan's document size is cut off while it is received, not after buffering
+ */
+export const maxUploadBytes = (req: AuthenticatedRequest): number => {
+  const limit = getPlan(req).limits.maxDocumentBytes;
+  return limit === null ? MAX_UPLOAD_BYTES : Math.min(limit, MAX_UPLOAD_BYTES);
+};
+
+/**
+ * Refuse a document over the plan's size. Without `size` the upload was cut
+ * off at the plan's limit, so it is known only to be larger than that.
+ */
+export function refuseDocumentSize(
+  req: AuthenticatedRequest,
+  res: Response,
+  size?: number,
+): void {
+  const plan = getPlan(req);
+  const atLeast = size ?? (plan.limits.maxDocumentBytes ?? MAX_UPLOAD_BYTES) + 1;
+  refuse(res, 402, plan, (limits) => fitsDocument(atLeast, limits), {
+    error: 'Document exceeds the maximum size for your plan',
+    code: 'DOCUMENT_TOO_LARGE',
+    details: {
+      current: size,
+      limit: plan.limits.maxDocumentBytes,
+    },
+  });
+}
+
+/**
+ * Refuse an uploaded file or pasted text larger than the plan allows. Uploads
+ * are also cut off at `maxUploadBytes` while they are received.
+ */
+export const checkDocumentSize = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const size = req.file?.size
+    ?? (typeof req.body?.text === 'string' ? Buffer.byteLength(req.body.text, 'utf-8') : 0);
+
+  if (!fitsDocument(size, getPlan(req).limits)) {
+    refuseDocumentSize(req, res, size);
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Refuse generating a visualization type the plan does not include
+ */
+export const checkVisualizationType = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const plan = getPlan(req);
+  const type = req.params.type as VisualizationType;
+  const includes = (limits: PlanLimits) =>
+    limits.visualizationTypes === null || limits.visualizationTypes.includes(type);
+
+  if (!includes(plan.limits)) {
+    refuse(res, 402, plan, includes, {
+      error: `${type} visualizations are not included in your plan`,
+      code: 'VISUALIZATION_NOT_IN_PLAN',
+      details: { visualizationType: type },
+    });
+    return;
+  }
+
+  next();
+};
@@ -84,6 +84,30 @@ describe("documentRepository", () => {
     });
   });
 
+  describe("findByContentHash", () => {
+    it("should query every record sharing the content hash", async () => {
+      dynamoMock.on(QueryCommand).resolves({
+        Items: [{ documentId: "a" }, { documentId: "b" }],
+      });
+
+      const records = await documentRepository.findByContentHash("abc123");
+
+      expect(records.map((record) => record.documentId)).toEqual(["a", "b"]);
+      const call = dynamoMock.call(0);
+      expect(call.args[0].input).toMatchObject({
+        IndexName: "GSI1",
+        KeyConditionExpression: "contentHash = :hash",
+        ExpressionAttributeValues: { ":hash": "abc123" },
+      });
+    });
+
+    it("should return an empty list when nothing matches", async () => {
+      dynamoMock.on(QueryCommand).resolves({});
+
+      expect(await documentRepository.findByContentHash("none")).toEqual([]);
+    });
+  });
+
   describe("create", () => {
     it("should create new document record", async () => {
       dynamoMock.on(PutCommand).resolves({});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { dynamoDBClient } from '../../config/aws.js';
+import { dynamoVisualizationStore } from '../dynamodb/visualizationStore.js';
+
+import type { VisualizationRecord } from '../types.js';
+
+vi.mock('../../config/aws.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../config/aws.js')>()),
+  dynamoDBClient: { send: vi.fn() },
+}));
+
+// Rows by table, partition and sort key, enough for the get/put/delete calls the store makes
+const tables = new Map<string, Map<string, any>>();
+const rowKey = (key: { documentId: string; SK?: string }) => `${key.documentId}|${key.SK ?? ''}`;
+
+const diagram = (visualizationType: string, title: string): VisualizationRecord => ({
+  documentId: 'doc-1',
+  visualizationType,
+  visualizationData: { title },
+  llmMetadata: {
+    model: 'test',
+    tokensUsed: 10,
+    processingTime: 100,
+    timestamp: new Date().toISOString(),
+  },
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+});
+
+describe('dynamoVisualizationStore', () => {
+  beforeEach(() => {
+    tables.clear();
+    vi.mocked(dynamoDBClient.send).mockImplementation(async (command: any) => {
+      const { TableName, Item, Key } = command.input;
+      const table = tables.get(TableName) || new Map();
+      tables.set(TableName, table);
+
+      switch (command.constructor.name) {
+        case 'PutCommand':
+          table.set(rowKey(Item), Item);
+          return {};
+        case 'GetCommand':
+          return { Item: table.get(rowKey(Key)) };
+        case 'DeleteCommand':
+          table.delete(rowKey(Key));
+          return {};
+        default:
+          throw new Error(`Unexpected command ${command.constructor.name}`);
+      }
+    });
+  });
+
+  it('stores each UML diagram type of a document in its own row', async () => {
+    await dynamoVisualizationStore.create(diagram('uml-class-diagram', 'Classes'));
+    await dynamoVisualizationStore.create(diagram('uml-sequence', 'Sequence'));
+
+    const classDiagram = await dynamoVisualizationStore.findByDocumentIdAndType('doc-1', 'uml-class-diagram');
+    const sequence = await dynamoVisualizationStore.findByDocumentIdAndType('doc-1', 'uml-sequence');
+
+    expect(classDiagram?.visualizationData).toEqual({ title: 'Classes' });
+    expect(sequence?.visualizationData).toEqual({ title: 'Sequence' });
+    expect(await dynamoVisualizationStore.findByDocumentIdAndType('doc-1', 'uml-activity')).toBeNull();
+  });
+
+  it('deletes one UML diagram type without touching the others', async () => {
+    await dynamoVisualizationStore.create(diagram('uml-class-diagram', 'Classes'));
+    await dynamoVisualizationStore.create(diagram('uml-activity', 'Activity'));
+
+    await dynamoVisualizationStore.delete('doc-1', 'uml-activity');
+
+    expect(await dynamoVisualizationStore.findByDocumentIdAndType('doc-1', 'uml-activity')).toBeNull();
+    expect(await dynamoVisualizationStore.findByDocumentIdAndType('doc-1', 'uml-class-diagram')).not.toBeNull();
+  });
+
+  it('deletes every UML diagram type with the document', async () => {
+    for (const type of ['uml-class-diagram', 'uml-sequence', 'uml-activity']) {
+      await dynamoVisualizationStore.create(diagram(type, type));
+    }
+
+    await dynamoVisualizationStore.deleteAllForDocument('doc-1');
+
+    for (const type of ['uml-class-diagram', 'uml-sequence', 'uml-activity']) {
+      expect(await dynamoVisualizationStore.findByDocumentIdAndType('doc-1', type)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,310 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { AuditLogsRepository } from '../auditLogsRepository.js';
+import { SessionRepository } from '../sessionRepository.js';
+import { SqliteAnalysisStore } from '../sqlite/analysisStore.js';
+import { SqliteAuditLogStore } from '../sqlite/auditLogStore.js';
+import { openSqliteDatabase } from '../sqlite/database.js';
+import { SqliteDocumentStore } from '../sqlite/documentStore.js';
+import { SqliteSessionStore } from '../sqlite/sessionStore.js';
+import { SqliteUsageLimitsStore } from '../sqlite/usageLimitsStore.js';
+import { SqliteUserStore } from '../sqlite/userStore.js';
+import { SqliteVisualizationStore } from '../sqlite/visualizationStore.js';
+import { SqliteVisualizationVersionStore } from '../sqlite/visualizationVersionStore.js';
+import { SqliteWebhookEventStore } from '../sqlite/webhookEventStore.js';
+import { UsageLimitsRepository } from '../usageLimitsRepository.js';
+import { UserRepository } from '../userRepository.js';
+import { VisualizationService } from '../visualizationService.js';
+import { WebhookEventRepository } from '../webhookEventRepository.js';
+
+import type { SqliteDatabase } from '../sqlite/database.js';
+import type { DocumentRecord } from '../types.js';
+
+function documentRecord(overrides: Partial<DocumentRecord> = {}): DocumentRecord {
+  return {
+    documentId: 'doc-1',
+    userId: 'user-1',
+    contentHash: 'hash-1',
+    filename: 'report.txt',
+    s3Path: 'file:///data/documents/hash-1/report.txt',
+    s3Bucket: 'local',
+    s3Key: 'documents/hash-1/report.txt',
+    contentType: 'text/plain',
+    fileSize: 120,
+    wordCount: 20,
+    uploadedAt: '2026-01-01T00:00:00.000Z',
+    lastAccessedAt: '2026-01-01T00:00:00.000Z',
+    accessCount: 0,
+    ...overrides,
+  };
+}
+
+describe('SQLite storage backend', () => {
+  let db: SqliteDatabase;
+
+  beforeEach(() => {
+    db = openSqliteDatabase(':memory:');
+  });
+
+  describe('SqliteDocumentStore', () => {
+    it('finds documents by id, hash and owner, newest first', async () => {
+      const store = new SqliteDocumentStore(db);
+      await store.create(documentRecord());
+      await store.create(documentRecord({
+        documentId: 'doc-2',
+        filename: 'copy.txt',
+        uploadedAt: '2026-02-01T00:00:00.000Z',
+      }));
+      await store.create(documentRecord({ documentId: 'doc-3', userId: 'user-2' }));
+
+      expect((await store.findById('doc-1'))?.filename).toBe('report.txt');
+      expect((await store.findByHashAndFilename('hash-1', 'copy.txt'))?.documentId).toBe('doc-2');
+      expect(await store.findByContentHash('hash-1')).toHaveLength(3);
+      expect(await store.countByUserId('user-1')).toBe(2);
+      expect(await store.findAll()).toHaveLength(3);
+
+      const page = await store.listByUserId('user-1', 1, 0);
+      expect(page.total).toBe(2);
+      expect(page.documents.map((d) => d.documentId)).toEqual(['doc-2']);
+    });
+
+    it('updates access metadata and deletes records', async () => {
+      const store = new SqliteDocumentStore(db);
+      await store.create(documentRecord());
+
+      await store.updateAccessMetadata('doc-1');
+      await store.updateAccessMetadata('doc-1');
+      expect((await store.findById('doc-1'))?.accessCount).toBe(2);
+
+      await store.deleteDocument('doc-1');
+      expect(await store.findById('doc-1')).toBeNull();
+    });
+  });
+
+  describe('SqliteAnalysisStore', () => {
+    it('merges partial updates into the stored analysis', async () => {
+      const store = new SqliteAnalysisStore(db);
+      await store.create({
+        documentId: 'doc-1',
+        analysisVersion: 'v1',
+        analysis: {} as any,
+        llmMetadata: { model: 'm', tokensUsed: 1, processingTime: 1, timestamp: 't' },
+        createdAt: 't',
+      });
+
+      await store.update('doc-1', { analysisVersion: 'v2' });
+
+      const analysis = await store.findByDocumentId('doc-1');
+      expect(analysis?.analysisVersion).toBe('v2');
+      expect(analysis?.llmMetadata.model).toBe('m');
+    });
+  });
+
+  describe('VisualizationService on SQLite', () => {
+    it('stores, updates and deletes visualizations per type', async () => {
+      const service = new VisualizationService(
+        new SqliteVisualizationStore(db),
+        new SqliteVisualizationVersionStore(db),
+      );
+      const record = {
+        documentId: 'doc-1',
+        visualizationData: { nodes: [] },
+        llmMetadata: { model: 'm', tokensUsed: 1, processingTime: 1, timestamp: 't' },
+        createdAt: 't',
+        updatedAt: 't',
+      };
+      await service.create({ ...record, visualizationType: 'mind-map' });
+      await service.create({ ...record, visualizationType: 'gantt' });
+
+      await service.update('doc-1', 'mind-map', { visualizationData: { nodes: ['a'] } });
+
+      expect((await service.findByDocumentIdAndType('doc-1', 'mind-map'))?.visualizationData)
+        .toEqual({ nodes: ['a'] });
+      expect(await service.findByDocumentId('doc-1')).toHaveLength(2);
+
+      await service.deleteAllForDocument('doc-1');
+      expect(await service.findByDocumentId('doc-1')).toHaveLength(0);
+    });
+
+    it('keeps every saved version and rolls back as a new version', async () => {
+      const service = new VisualizationService(
+        new SqliteVisualizationStore(db),
+        new SqliteVisualizationVersionStore(db),
+      );
+      const record = {
+        documentId: 'doc-1',
+        visualizationType: 'mind-map',
+        llmMetadata: { model: 'm', tokensUsed: 1, processingTime: 1, timestamp: 't' },
+        createdAt: 't',
+        updatedAt: 't',
+      };
+      expect(await service.save({ ...record, visualizationData: { v: 1 } }, 'generation')).toBe(1);
+      expect(await service.save({ ...record, visualizationData: { v: 2 } }, 'edit')).toBe(2);
+
+      const restored = await service.rollback('doc-1', 'mind-map', 1);
+      expect(restored?.version).toBe(3);
+      expect((await service.findByDocumentIdAndType('doc-1', 'mind-map'))?.visualizationData)
+        .toEqual({ v: 1 });
+
+      const versions = await service.listVersions('doc-1', 'mind-map');
+      expect(versions.map((v) => [v.version, v.source, v.restoredFrom])).toEqual([
+        [3, 'rollback', 1],
+        [2, 'edit', undefined],
+        [1, 'generation', undefined],
+      ]);
+      expect((await service.findVersion('doc-1', 'mind-map', 2))?.visualizationData)
+        .toEqual({ v: 2 });
+      expect(await service.rollback('doc-1', 'mind-map', 9)).toBeNull();
+
+      await service.deleteAllForDocument('doc-1');
+      expect(await service.listVersions('doc-1', 'mind-map')).toHaveLength(0);
+    });
+
+    it('gives concurrent saves of one visualization distinct versions', async () => {
+      const service = new VisualizationService(
+        new SqliteVisualizationStore(db),
+        new SqliteVisualizationVersionStore(db),
+      );
+      const record = {
+        documentId: 'doc-1',
+        visualizationType: 'mind-map',
+        llmMetadata: { model: 'm', tokensUsed: 1, processingTime: 1, timestamp: 't' },
+        createdAt: 't',
+        updatedAt: 't',
+      };
+
+      const saved = await Promise.all([
+        service.save({ ...record, visualizationData: { v: 1 } }, 'edit'),
+        service.save({ ...record, visualizationData: { v: 2 } }, 'edit'),
+        service.save({ ...record, visualizationData: { v: 3 } }, 'edit'),
+      ]);
+
+      expect([...saved].sort()).toEqual([1, 2, 3]);
+      expect(await service.listVersions('doc-1', 'mind-map')).toHaveLength(3);
+    });
+
+    it('makes the newest version current when storing it failed', async () => {
+      const store = new SqliteVisualizationStore(db);
+      const service = new VisualizationService(store, new SqliteVisualizationVersionStore(db));
+      const record = {
+        documentId: 'doc-1',
+        visualizationType: 'mind-map',
+        llmMetadata: { model: 'm', tokensUsed: 1, processingTime: 1, timestamp: 't' },
+        createdAt: 't',
+        updatedAt: 't',
+      };
+      await service.save({ ...record, visualizationData: { v: 1 } }, 'generation');
+
+      const create = store.create.bind(store);
+      store.create = async () => {
+        throw new Error('write failed');
+      };
+      await expect(service.save({ ...record, visualizationData: { v: 2 } }, 'edit'))
+        .rejects.toThrow('write failed');
+      store.create = create;
+
+      const current = await service.findByDocumentIdAndType('doc-1', 'mind-map');
+      expect(current?.version).toBe(2);
+      expect(current?.visualizationData).toEqual({ v: 2 });
+      expect((await store.findByDocumentIdAndType('doc-1', 'mind-map'))?.version).toBe(2);
+    });
+  });
+
+  describe('UserRepository on SQLite', () => {
+    it('creates users, looks them up by email and locks after failed attempts', async () => {
+      const repository = new UserRepository(new SqliteUserStore(db));
+      const user = await repository.createUser({
+        email: 'Ada@Example.com',
+        firstName: 'Ada',
+        lastName: 'Lovelace',
+        passwordHash: 'hash',
+      });
+
+      expect((await repository.getUserByEmail('ada@example.com'))?.userId).toBe(user.userId);
+
+      for (let i = 0; i < 5; i++) {
+        await repository.incrementFailedAttempts(user.userId);
+      }
+      expect(await repository.isAccountLocked(user.userId)).toBe(true);
+
+      expect(await repository.verifyEmail(user.userId, user.verificationToken!)).toBe(true);
+      const { users } = await repository.getActiveUsers();
+      expect(users.map((u) => u.userId)).toEqual([user.userId]);
+    });
+  });
+
+  describe('SessionRepository on SQLite', () => {
+    it('revokes sessions and sweeps expired ones', async () => {
+      const repository = new SessionRepository(new SqliteSessionStore(db));
+      const session = await repository.createSession({ userId: 'user-1', refreshToken: 'r1' });
+      const expired = await repository.createSession({ userId: 'user-1', refreshToken: 'r2' });
+      db.prepare(
+        `UPDATE sessions SET data = json_set(data, '$.expiresAt', '2000-01-01T00:00:00.000Z')
+         WHERE session_id = ?`,
+      ).run(expired.sessionId);
+
+      expect(await repository.isSessionValid(session.sessionId)).toBe(true);
+      expect(await repository.revokeExpiredSessions()).toBe(1);
+
+      await repository.revokeAllUserSessions('user-1');
+      expect(await repository.isSessionValid(session.sessionId)).toBe(false);
+    });
+  });
+
+  describe('UsageLimitsRepository on SQLite', () => {
+    it('creates the period record, then increments it', async () => {
+      const repository = new UsageLimitsRepository(new SqliteUsageLimitsStore(db));
+
+      await repository.incrementDocumentCount('user-1');
+      await repository.incrementDocumentCount('user-1', 2);
+      const usage = await repository.incrementApiCalls('user-1');
+
+      expect(usage.documentCount).toBe(3);
+      expect(usage.apiCalls).toBe(1);
+    });
+
+    it('counts every LLM call when the first calls of a month race', async () => {
+      const repository = new UsageLimitsRepository(new SqliteUsageLimitsStore(db));
+
+      await Promise.all([
+        repository.incrementLLMUsage('user-1', 100, 0.01),
+        repository.incrementLLMUsage('user-1', 200, 0.02),
+        repository.incrementLLMUsage('user-1', 300, 0.03),
+      ]);
+      const usage = await repository.getCurrentUsage('user-1');
+
+      expect(usage?.apiCalls).toBe(3);
+      expect(usage?.llmTokens).toBe(600);
+      expect(usage?.llmCost).toBeCloseTo(0.06);
+    });
+  });
+
+  describe('AuditLogsRepository on SQLite', () => {
+    it('pages logs newest first and filters by resource', async () => {
+      const repository = new AuditLogsRepository(new SqliteAuditLogStore(db));
+      await repository.logDocumentUpload('user-1', 'doc-1', 'a.txt');
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await repository.logDocumentDeletion('user-1', 'doc-1', 'a.txt');
+      await repository.logUserLogin('user-2');
+
+      const first = await repository.getLogsByUserId('user-1', 1);
+      expect(first.logs[0].action).toBe('DOCUMENT_DELETION');
+      const second = await repository.getLogsByUserId('user-1', 1, first.lastKey);
+      expect(second.logs[0].action).toBe('DOCUMENT_UPLOAD');
+      expect(second.lastKey).toBeUndefined();
+
+      expect(await repository.getLogsByResource('document', 'doc-1')).toHaveLength(2);
+    });
+  });
+
+  describe('WebhookEventRepository on SQLite', () => {
+    it('remembers processed event ids', async () => {
+      const repository = new WebhookEventRepository(new SqliteWebhookEventStore(db));
+
+      expect(await repository.isProcessed('evt_1')).toBe(false);
+      await repository.markProcessed('evt_1', 'invoice.payment_failed');
+      expect(await repository.isProcessed('evt_1')).toBe(true);
+      expect(await repository.isProcessed('evt_2')).toBe(false);
+    });
+  });
+});
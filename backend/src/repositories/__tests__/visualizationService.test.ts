@@ -54,6 +54,27 @@ vi.mock('../timelineRepository.js', () => ({
   deleteTimeline: vi.fn(),
 }));
 
+vi.mock('../ganttRepository.js', () => ({
+  create: vi.fn(),
+  findByDocumentId: vi.fn(),
+  update: vi.fn(),
+  deleteGantt: vi.fn(),
+}));
+
+vi.mock('../raciMatrixRepository.js', () => ({
+  create: vi.fn(),
+  findByDocumentId: vi.fn(),
+  update: vi.fn(),
+  deleteRaciMatrix: vi.fn(),
+}));
+
+vi.mock('../priorityMatrixRepository.js', () => ({
+  create: vi.fn(),
+  findByDocumentId: vi.fn(),
+  update: vi.fn(),
+  deletePriorityMatrix: vi.fn(),
+}));
+
 vi.mock('../termsDefinitionsRepository.js', () => ({
   create: vi.fn(),
   findByDocumentId: vi.fn(),
@@ -61,6 +82,27 @@ vi.mock('../termsDefinitionsRepository.js', () => ({
   deleteTermsDefinitions: vi.fn(),
 }));
 
+vi.mock('../structuredViewRepository.js', () => ({
+  create: vi.fn(),
+  findByDocumentId: vi.fn(),
+  update: vi.fn(),
+  deleteVisualization: vi.fn(),
+}));
+
+vi.mock('../entityGraphRepository.js', () => ({
+  create: vi.fn(),
+  findByDocumentId: vi.fn(),
+  update: vi.fn(),
+  deleteEntityGraph: vi.fn(),
+}));
+
+vi.mock('../knowledgeGraphRepository.js', () => ({
+  create: vi.fn(),
+  findByDocumentId: vi.fn(),
+  update: vi.fn(),
+  deleteKnowledgeGraph: vi.fn(),
+}));
+
 vi.mock('../analysisRepository.js', () => ({
   create: vi.fn(),
   findByDocumentId: vi.fn(),
@@ -73,6 +115,16 @@ vi.mock('../analysisRepository.js', () => ({
   deleteRaciMatrix: vi.fn(),
 }));
 
+vi.mock('../dynamodb/visualizationVersionStore.js', () => ({
+  dynamoVisualizationVersionStore: {
+    append: vi.fn(),
+    list: vi.fn(),
+    find: vi.fn(),
+    latestVersion: vi.fn(),
+    deleteAllForDocument: vi.fn(),
+  },
+}));
+
 describe('visualizationService', () => {
   beforeEach(() => {
     // Reset all mocked functions
@@ -379,4 +431,37 @@ describe('visualizationService', () => {
       expect(mockDelete).toHaveBeenCalledWith('test-doc-id');
     });
   });
+
+  describe('deleteAllForDocument', () => {
+    it('should delete the document from every visualization table', async () => {
+      const mindMap = await import('../mindMapRepository.js');
+      const knowledgeGraph = await import('../knowledgeGraphRepository.js');
+      const structuredView = await import('../structuredViewRepository.js');
+      const umlClass = await import('../umlClassRepository.js');
+      const gantt = await import('../ganttRepository.js');
+      const analysis = await import('../analysisRepository.js');
+
+      await visualizationService.deleteAllForDocument('test-doc-id');
+
+      expect(mindMap.deleteMindMap).toHaveBeenCalledWith('test-doc-id');
+      expect(knowledgeGraph.deleteKnowledgeGraph).toHaveBeenCalledWith('test-doc-id');
+      expect(structuredView.deleteVisualization).toHaveBeenCalledWith('test-doc-id');
+      for (const type of ['uml-class', 'uml-class-diagram', 'uml-sequence', 'uml-activity']) {
+        expect(umlClass.deleteUmlClass).toHaveBeenCalledWith('test-doc-id', type);
+      }
+      expect(gantt.deleteGantt).toHaveBeenCalledWith('test-doc-id');
+      expect(analysis.deleteAnalysis).not.toHaveBeenCalled();
+    });
+
+    it('should delete the version history too', async () => {
+      const { dynamoVisualizationVersionStore } = await import(
+        '../dynamodb/visualizationVersionStore.js'
+      );
+
+      await visualizationService.deleteAllForDocument('test-doc-id');
+
+      expect(dynamoVisualizationVersionStore.deleteAllForDocument)
+        .toHaveBeenCalledWith('test-doc-id');
+    });
+  });
 });
@@ -1,93 +1,40 @@
-import { PutCommand, GetCommand, UpdateCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import { isSqliteStorage } from '../config/storage.js';
 
-import { dynamoDBClient, DYNAMODB_ANALYSES_TABLE } from '../config/aws.js';
+import { dynamoAnalysisStore } from './dynamodb/analysisStore.js';
+import { SqliteAnalysisStore } from './sqlite/analysisStore.js';
+import { getSqliteDatabase } from './sqlite/database.js';
 
+import type { AnalysisStore } from './interfaces.js';
 import type { AnalysisRecord } from './types.js';
 
+const store: AnalysisStore = isSqliteStorage()
+  ? new SqliteAnalysisStore(getSqliteDatabase())
+  : dynamoAnalysisStore;
+
 /**
  * Create new analysis record
  */
 export async function create(analysis: AnalysisRecord): Promise<void> {
-  const command = new PutCommand({
-    TableName: DYNAMODB_ANALYSES_TABLE,
-    Item: {
-      ...analysis,
-      SK: 'ANALYSIS',
-    },
-  });
-
-  await dynamoDBClient.send(command);
+  await store.create(analysis);
 }
 
 /**
  * Find analysis by document ID
  */
 export async function findByDocumentId(documentId: string): Promise<AnalysisRecord | null> {
-  const command = new GetCommand({
-    TableName: DYNAMODB_ANALYSES_TABLE,
-    Key: {
-      documentId,
-      SK: 'ANALYSIS',
-    },
-  });
-
-  const response = await dynamoDBClient.send(command);
-
-  if (!response.Item) {
-    return null;
-  }
-
-  return response.Item as AnalysisRecord;
+  return store.findByDocumentId(documentId);
 }
 
 /**
  * Update analysis record (partial update)
  */
 export async function update(documentId: string, updates: Partial<AnalysisRecord>): Promise<void> {
-  // Build update expression dynamically
-  const updateExpressions: string[] = [];
-  const expressionAttributeNames: Record<string, string> = {};
-  const expressionAttributeValues: Record<string, any> = {};
-
-  Object.entries(updates).forEach(([key, value], index) => {
-    if (key !== 'documentId' && key !== 'SK') {
-      const attrName = `#attr${index}`;
-      const attrValue = `:val${index}`;
-      updateExpressions.push(`${attrName} = ${attrValue}`);
-      expressionAttributeNames[attrName] = key;
-      expressionAttributeValues[attrValue] = value;
-    }
-  });
-
-  if (updateExpressions.length === 0) {
-    return;
-  }
-
-  const command = new UpdateCommand({
-    TableName: DYNAMODB_ANALYSES_TABLE,
-    Key: {
-      documentId,
-      SK: 'ANALYSIS',
-    },
-    UpdateExpression: `SET ${updateExpressions.join(', ')}`,
-    ExpressionAttributeNames: expressionAttributeNames,
-    ExpressionAttributeValues: expressionAttributeValues,
-  });
-
-  await dynamoDBClient.send(command);
+  await store.update(documentId, updates);
 }
 
 /**
  * Delete analysis record
  */
 export async function deleteAnalysis(documentId: string): Promise<void> {
-  const command = new DeleteCommand({
-    TableName: DYNAMODB_ANALYSES_TABLE,
-    Key: {
-      documentId,
-      SK: 'ANALYSIS',
-    },
-  });
-
-  await dynamoDBClient.send(command);
+  await store.deleteAnalysis(documentId);
 }
@@ -1,11 +1,12 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import {
-  PutCommand,
-  QueryCommand,
-} from '@aws-sdk/lib-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
 
-import { env } from '../config/env.js';
+import { isSqliteStorage } from '../config/storage.js';
+
+import { dynamoAuditLogStore } from './dynamodb/auditLogStore.js';
+import { SqliteAuditLogStore } from './sqlite/auditLogStore.js';
+import { getSqliteDatabase } from './sqlite/database.js';
+
+import type { AuditLogStore } from './interfaces.js';
 
 export interface AuditLog {
   logId: string;
@@ -29,18 +30,9 @@ export interface CreateAuditLogInput {
   userAgent?: string;
 }
 
-const config = {
-  region: env.AWS_REGION || 'us-east-1',
-  credentials: {
-    accessKeyId: env.AWS_ACCESS_KEY_ID || '',
-    secretAccessKey: env.AWS_SECRET_ACCESS_KEY || '',
-  },
-};
-
-const dynamodb = new DynamoDBClient(config);
-const TABLE_NAME = 'vaisu-audit-logs';
-
 export class AuditLogsRepository {
+  constructor(private store: AuditLogStore) {}
+
   async createLog(input: CreateAuditLogInput): Promise<AuditLog> {
     const logId = uuidv4();
     const timestamp = new Date().toISOString();
@@ -57,67 +49,24 @@ export class AuditLogsRepository {
       timestamp,
     };
 
-    const command = new PutCommand({
-      TableName: TABLE_NAME,
-      Item: log,
-    });
-
-    await dynamodb.send(command);
+    await this.store.put(log);
     return log;
   }
 
   async getLogsByUserId(userId: string, limit: number = 100, startKey?: string): Promise<{ logs: AuditLog[]; lastKey?: string }> {
-    const command = new QueryCommand({
-      TableName: TABLE_NAME,
-      IndexName: 'GSI1',
-      KeyConditionExpression: 'userId = :userId',
-      ExpressionAttributeValues: {
-        ':userId': userId,
-      },
-      Limit: limit,
-      ScanIndexForward: false, // Most recent first
-      ExclusiveStartKey: startKey ? { logId: startKey } : undefined,
-    });
-
-    const result = await dynamodb.send(command);
-    return {
-      logs: (result.Items as AuditLog[]) || [],
-      lastKey: result.LastEvaluatedKey?.logId as string,
-    };
+    return this.store.findByUserId(userId, limit, startKey);
   }
 
   async getLogsByAction(action: string, limit: number = 100, startKey?: string): Promise<{ logs: AuditLog[]; lastKey?: string }> {
-    const command = new QueryCommand({
-      TableName: TABLE_NAME,
-      IndexName: 'GSI2',
-      KeyConditionExpression: 'action = :action',
-      ExpressionAttributeValues: {
-        ':action': action,
-      },
-      Limit: limit,
-      ScanIndexForward: false, // Most recent first
-      ExclusiveStartKey: startKey ? { logId: startKey } : undefined,
-    });
-
-    const result = await dynamodb.send(command);
-    return {
-      logs: (result.Items as AuditLog[]) || [],
-      lastKey: result.LastEvaluatedKey?.logId as string,
-    };
+    return this.store.findByAction(action, limit, startKey);
   }
 
   async getLogsByResource(resourceType: string, resourceId: string, limit: number = 100): Promise<AuditLog[]> {
-    // This would require a scan with filter, which is not efficient in DynamoDB
-    // For production, you'd want to add a GSI for resourceType/resourceId
-    // For now, we'll return an empty array
-    return [];
+    return this.store.findByResource(resourceType, resourceId, limit);
   }
 
   async getLogsByDateRange(startDate: string, endDate: string, limit: number = 100): Promise<AuditLog[]> {
-    // This would require a scan with filter, which is not efficient in DynamoDB
-    // For production, you'd want to add a GSI for timestamp
-    // For now, we'll return an empty array
-    return [];
+    return this.store.findByDateRange(startDate, endDate, limit);
   }
 
   // Common audit log actions
@@ -192,6 +141,18 @@ export class AuditLogsRepository {
     });
   }
 
+  async logDocumentDeletion(userId: string, documentId: string, fileName: string, ipAddress?: string, userAgent?: string): Promise<AuditLog> {
+    return this.createLog({
+      userId,
+      action: 'DOCUMENT_DELETION',
+      resourceId: documentId,
+      resourceType: 'document',
+      details: { fileName },
+      ipAddress,
+      userAgent,
+    });
+  }
+
   async logAccountDeletion(userId: string, ipAddress?: string, userAgent?: string): Promise<AuditLog> {
     return this.createLog({
       userId,
@@ -231,4 +192,6 @@ export class AuditLogsRepository {
   }
 }
 
-export const auditLogsRepository = new AuditLogsRepository();
+export const auditLogsRepository = new AuditLogsRepository(
+  isSqliteStorage() ? new SqliteAuditLogStore(getSqliteDatabase()) : dynamoAuditLogStore,
+);
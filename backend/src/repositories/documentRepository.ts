@@ -1,17 +1,17 @@
-import {
-  PutCommand,
-  GetCommand,
-  QueryCommand,
-  UpdateCommand,
-  DeleteCommand,
-} from '@aws-sdk/lib-dynamodb';
-
-import { dynamoDBClient, DYNAMODB_DOCUMENTS_TABLE } from '../config/aws.js';
+import { isSqliteStorage } from '../config/storage.js';
 
+import { dynamoDocumentStore } from './dynamodb/documentStore.js';
+import { getSqliteDatabase } from './sqlite/database.js';
+import { SqliteDocumentStore } from './sqlite/documentStore.js';
 import { usageLimitsRepository } from './usageLimitsRepository.js';
 
+import type { DocumentStore } from './interfaces.js';
 import type { DocumentRecord } from './types.js';
 
+const store: DocumentStore = isSqliteStorage()
+  ? new SqliteDocumentStore(getSqliteDatabase())
+  : dynamoDocumentStore;
+
 /**
  * Find document by content hash and filename (deduplication check)
  */
@@ -19,39 +19,21 @@ export async function findByHashAndFilename(
   hash: string,
   filename: string,
 ): Promise<DocumentRecord | null> {
-  const command = new QueryCommand({
-    TableName: DYNAMODB_DOCUMENTS_TABLE,
-    IndexName: 'GSI1',
-    KeyConditionExpression: 'contentHash = :hash AND filename = :filename',
-    ExpressionAttributeValues: {
-      ':hash': hash,
-      ':filename': filename,
-    },
-    Limit: 1,
-  });
-
-  const response = await dynamoDBClient.send(command);
-
-  if (!response.Items || response.Items.length === 0) {
-    return null;
-  }
-
-  return response.Items[0] as DocumentRecord;
+  return store.findByHashAndFilename(hash, filename);
+}
+
+/**
+ * Find every document record with the given content hash (records share S3 objects by hash)
+ */
+export async function findByContentHash(hash: string): Promise<DocumentRecord[]> {
+  return store.findByContentHash(hash);
 }
 
 /**
  * Create new document record
  */
 export async function create(document: DocumentRecord): Promise<void> {
-  const command = new PutCommand({
-    TableName: DYNAMODB_DOCUMENTS_TABLE,
-    Item: {
-      ...document,
-      SK: 'METADATA',
-    },
-  });
-
-  await dynamoDBClient.send(command);
+  await store.create(document);
 }
 
 /**
@@ -60,64 +42,25 @@ export async function create(document: DocumentRecord): Promise<void> {
 export async function findById(
   documentId: string,
 ): Promise<DocumentRecord | null> {
-  const command = new GetCommand({
-    TableName: DYNAMODB_DOCUMENTS_TABLE,
-    Key: {
-      documentId,
-      SK: 'METADATA',
-    },
-  });
-
-  const response = await dynamoDBClient.send(command);
-
-  if (!response.Item) {
-    return null;
-  }
-
-  return response.Item as DocumentRecord;
+  return store.findById(documentId);
 }
 
 /**
  * Update access metadata (lastAccessedAt, accessCount)
  */
 export async function updateAccessMetadata(documentId: string): Promise<void> {
-  const command = new UpdateCommand({
-    TableName: DYNAMODB_DOCUMENTS_TABLE,
-    Key: {
-      documentId,
-      SK: 'METADATA',
-    },
-    UpdateExpression:
-      'SET lastAccessedAt = :now, accessCount = if_not_exists(accessCount, :zero) + :one',
-    ExpressionAttributeValues: {
-      ':now': new Date().toISOString(),
-      ':zero': 0,
-      ':one': 1,
-    },
-  });
-
-  await dynamoDBClient.send(command);
+  await store.updateAccessMetadata(documentId);
 }
 
 /**
  * Delete document record
  */
 export async function deleteDocument(documentId: string): Promise<void> {
-  const command = new DeleteCommand({
-    TableName: DYNAMODB_DOCUMENTS_TABLE,
-    Key: {
-      documentId,
-      SK: 'METADATA',
-    },
-  });
-
-  await dynamoDBClient.send(command);
+  await store.deleteDocument(documentId);
 }
 
 /**
- * List all documents for a user (with pagination)
- * Note: Uses Scan operation since GSI2 (userId index) is not yet created.
- * For production, add GSI2 with userId as partition key for better performance.
+ * List all documents for a user (with pagination), newest first
  */
 export async function listByUserId(
   userId: string,
@@ -127,56 +70,28 @@ export async function listByUserId(
   documents: DocumentRecord[];
   total: number;
 }> {
-  const { ScanCommand } = await import('@aws-sdk/lib-dynamodb');
-
-  // Scan without Limit to find all user documents
-  // Note: This scans up to 1MB of data. For production with large datasets,
-  // we MUST add a GSI on userId and use QueryCommand.
-  const command = new ScanCommand({
-    TableName: DYNAMODB_DOCUMENTS_TABLE,
-    FilterExpression: 'userId = :userId AND SK = :sk',
-    ExpressionAttributeValues: {
-      ':userId': userId,
-      ':sk': 'METADATA',
-    },
-  });
-
-  const response = await dynamoDBClient.send(command);
-  const allDocs = response.Items || [];
-
-  // Sort by uploadedAt (newest first)
-  const sortedDocuments = allDocs.sort((a: any, b: any) => {
-    const dateA = new Date(a.uploadedAt).getTime();
-    const dateB = new Date(b.uploadedAt).getTime();
-    return dateB - dateA;
-  });
-
-  const total = sortedDocuments.length;
-  const paginatedDocs = sortedDocuments.slice(offset, offset + limit);
+  return store.listByUserId(userId, limit, offset);
+}
 
-  return {
-    documents: paginatedDocs as DocumentRecord[],
-    total,
-  };
+/**
+ * Every document a user owns
+ */
+export async function findAllByUserId(userId: string): Promise<DocumentRecord[]> {
+  return store.findAllByUserId(userId);
+}
+
+/**
+ * Find every document record across all users
+ */
+export async function findAll(): Promise<DocumentRecord[]> {
+  return store.findAll();
 }
 
 /**
  * Count active documents for a user
  */
 export async function countByUserId(userId: string): Promise<number> {
-  const { ScanCommand } = await import('@aws-sdk/lib-dynamodb');
-  const command = new ScanCommand({
-    TableName: DYNAMODB_DOCUMENTS_TABLE,
-    FilterExpression: 'userId = :userId AND SK = :sk',
-    ExpressionAttributeValues: {
-      ':userId': userId,
-      ':sk': 'METADATA',
-    },
-    Select: 'COUNT',
-  });
-
-  const response = await dynamoDBClient.send(command);
-  return response.Count || 0;
+  return store.countByUserId(userId);
 }
 
 /**
@@ -190,19 +105,7 @@ export async function getStatsByUserId(userId: string): Promise<{
   dailyAnalysisUsage: number;
   storageUsed: number;
 }> {
-  const { ScanCommand } = await import('@aws-sdk/lib-dynamodb');
-
-  const command = new ScanCommand({
-    TableName: DYNAMODB_DOCUMENTS_TABLE,
-    FilterExpression: 'userId = :userId AND SK = :sk',
-    ExpressionAttributeValues: {
-      ':userId': userId,
-      ':sk': 'METADATA',
-    },
-  });
-
-  const response = await dynamoDBClient.send(command);
-  const docs = response.Items || [];
+  const docs = await store.findAllByUserId(userId);
 
   const totalDocuments = docs.length;
   const totalWords = docs.reduce(
@@ -0,0 +1,84 @@
+import { PutCommand, GetCommand, UpdateCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+
+import { dynamoDBClient, DYNAMODB_ANALYSES_TABLE } from '../../config/aws.js';
+
+import type { AnalysisStore } from '../interfaces.js';
+import type { AnalysisRecord } from '../types.js';
+
+export const dynamoAnalysisStore: AnalysisStore = {
+  async create(analysis) {
+    const command = new PutCommand({
+      TableName: DYNAMODB_ANALYSES_TABLE,
+      Item: {
+        ...analysis,
+        SK: 'ANALYSIS',
+      },
+    });
+
+    await dynamoDBClient.send(command);
+  },
+
+  async findByDocumentId(documentId) {
+    const command = new GetCommand({
+      TableName: DYNAMODB_ANALYSES_TABLE,
+      Key: {
+        documentId,
+        SK: 'ANALYSIS',
+      },
+    });
+
+    const response = await dynamoDBClient.send(command);
+
+    if (!response.Item) {
+      return null;
+    }
+
+    return response.Item as AnalysisRecord;
+  },
+
+  async update(documentId, updates) {
+    // Build update expression dynamically
+    const updateExpressions: string[] = [];
+    const expressionAttributeNames: Record<string, string> = {};
+    const expressionAttributeValues: Record<string, any> = {};
+
+    Object.entries(updates).forEach(([key, value], index) => {
+      if (key !== 'documentId' && key !== 'SK') {
+        const attrName = `#attr${index}`;
+        const attrValue = `:val${index}`;
+        updateExpressions.push(`${attrName} = ${attrValue}`);
+        expressionAttributeNames[attrName] = key;
+        expressionAttributeValues[attrValue] = value;
+      }
+    });
+
+    if (updateExpressions.length === 0) {
+      return;
+    }
+
+    const command = new UpdateCommand({
+      TableName: DYNAMODB_ANALYSES_TABLE,
+      Key: {
+        documentId,
+        SK: 'ANALYSIS',
+      },
+      UpdateExpression: `SET ${updateExpressions.join(', ')}`,
+      ExpressionAttributeNames: expressionAttributeNames,
+      ExpressionAttributeValues: expressionAttributeValues,
+    });
+
+    await dynamoDBClient.send(command);
+  },
+
+  async deleteAnalysis(documentId) {
+    const command = new DeleteCommand({
+      TableName: DYNAMODB_ANALYSES_TABLE,
+      Key: {
+        documentId,
+        SK: 'ANALYSIS',
+      },
+    });
+
+    await dynamoDBClient.send(command);
+  },
+};
@@ -0,0 +1,86 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  PutCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+
+import { env } from '../../config/env.js';
+
+import type { AuditLog } from '../auditLogsRepository.js';
+import type { AuditLogStore } from '../interfaces.js';
+
+const config = {
+  region: env.AWS_REGION || 'us-east-1',
+  credentials: {
+    accessKeyId: env.AWS_ACCESS_KEY_ID || '',
+    secretAccessKey: env.AWS_SECRET_ACCESS_KEY || '',
+  },
+};
+
+const dynamodb = new DynamoDBClient(config);
+const TABLE_NAME = 'vaisu-audit-logs';
+
+export const dynamoAuditLogStore: AuditLogStore = {
+  async put(log) {
+    const command = new PutCommand({
+      TableName: TABLE_NAME,
+      Item: log,
+    });
+
+    await dynamodb.send(command);
+  },
+
+  async findByUserId(userId, limit, startKey) {
+    const command = new QueryCommand({
+      TableName: TABLE_NAME,
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'userId = :userId',
+      ExpressionAttributeValues: {
+        ':userId': userId,
+      },
+      Limit: limit,
+      ScanIndexForward: false, // Most recent first
+      ExclusiveStartKey: startKey ? { logId: startKey } : undefined,
+    });
+
+    const result = await dynamodb.send(command);
+    return {
+      logs: (result.Items as AuditLog[]) || [],
+      lastKey: result.LastEvaluatedKey?.logId as string,
+    };
+  },
+
+  async findByAction(action, limit, startKey) {
+    const command = new QueryCommand({
+      TableName: TABLE_NAME,
+      IndexName: 'GSI2',
+      KeyConditionExpression: 'action = :action',
+      ExpressionAttributeValues: {
+        ':action': action,
+      },
+      Limit: limit,
+      ScanIndexForward: false, // Most recent first
+      ExclusiveStartKey: startKey ? { logId: startKey } : undefined,
+    });
+
+    const result = await dynamodb.send(command);
+    return {
+      logs: (result.Items as AuditLog[]) || [],
+      lastKey: result.LastEvaluatedKey?.logId as string,
+    };
+  },
+
+  async findByResource() {
+    // This would require a scan with filter, which is not efficient in DynamoDB
+    // For production, you'd want to add a GSI for resourceType/resourceId
+    // For now, we'll return an empty array
+    return [];
+  },
+
+  async findByDateRange() {
+    // This would require a scan with filter, which is not efficient in DynamoDB
+    // For production, you'd want to add a GSI for timestamp
+    // For now, we'll return an empty array
+    return [];
+  },
+};
@@ -0,0 +1,179 @@
+import {
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+  DeleteCommand,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
+
+import { dynamoDBClient, DYNAMODB_DOCUMENTS_TABLE } from '../../config/aws.js';
+
+import type { DocumentStore } from '../interfaces.js';
+import type { DocumentRecord } from '../types.js';
+
+export const dynamoDocumentStore: DocumentStore = {
+  async findByHashAndFilename(hash, filename) {
+    const command = new QueryCommand({
+      TableName: DYNAMODB_DOCUMENTS_TABLE,
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'contentHash = :hash AND filename = :filename',
+      ExpressionAttributeValues: {
+        ':hash': hash,
+        ':filename': filename,
+      },
+      Limit: 1,
+    });
+
+    const response = await dynamoDBClient.send(command);
+
+    if (!response.Items || response.Items.length === 0) {
+      return null;
+    }
+
+    return response.Items[0] as DocumentRecord;
+  },
+
+  async findByContentHash(hash) {
+    const command = new QueryCommand({
+      TableName: DYNAMODB_DOCUMENTS_TABLE,
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'contentHash = :hash',
+      ExpressionAttributeValues: {
+        ':hash': hash,
+      },
+    });
+
+    const response = await dynamoDBClient.send(command);
+    return (response.Items || []) as DocumentRecord[];
+  },
+
+  async create(document) {
+    const command = new PutCommand({
+      TableName: DYNAMODB_DOCUMENTS_TABLE,
+      Item: {
+        ...document,
+        SK: 'METADATA',
+      },
+    });
+
+    await dynamoDBClient.send(command);
+  },
+
+  async findById(documentId) {
+    const command = new GetCommand({
+      TableName: DYNAMODB_DOCUMENTS_TABLE,
+      Key: {
+        documentId,
+        SK: 'METADATA',
+      },
+    });
+
+    const response = await dynamoDBClient.send(command);
+
+    if (!response.Item) {
+      return null;
+    }
+
+    return response.Item as DocumentRecord;
+  },
+
+  async updateAccessMetadata(documentId) {
+    const command = new UpdateCommand({
+      TableName: DYNAMODB_DOCUMENTS_TABLE,
+      Key: {
+        documentId,
+        SK: 'METADATA',
+      },
+      UpdateExpression:
+        'SET lastAccessedAt = :now, accessCount = if_not_exists(accessCount, :zero) + :one',
+      ExpressionAttributeValues: {
+        ':now': new Date().toISOString(),
+        ':zero': 0,
+        ':one': 1,
+      },
+    });
+
+    await dynamoDBClient.send(command);
+  },
+
+  async deleteDocument(documentId) {
+    const command = new DeleteCommand({
+      TableName: DYNAMODB_DOCUMENTS_TABLE,
+      Key: {
+        documentId,
+        SK: 'METADATA',
+      },
+    });
+
+    await dynamoDBClient.send(command);
+  },
+
+  async listByUserId(userId, limit, offset) {
+    const allDocs = await this.findAllByUserId(userId);
+
+    // Sort by uploadedAt (newest first)
+    const sortedDocuments = allDocs.sort((a, b) => {
+      const dateA = new Date(a.uploadedAt).getTime();
+      const dateB = new Date(b.uploadedAt).getTime();
+      return dateB - dateA;
+    });
+
+    return {
+      documents: sortedDocuments.slice(offset, offset + limit),
+      total: sortedDocuments.length,
+    };
+  },
+
+  /**
+   * Note: Uses Scan operation since GSI2 (userId index) is not yet created.
+   * For production, add GSI2 with userId as partition key for better performance.
+   */
+  async findAllByUserId(userId) {
+    // Scan without Limit to find all user documents
+    // Note: This scans up to 1MB of data. For production with large datasets,
+    // we MUST add a GSI on userId and use QueryCommand.
+    const command = new ScanCommand({
+      TableName: DYNAMODB_DOCUMENTS_TABLE,
+      FilterExpression: 'userId = :userId AND SK = :sk',
+      ExpressionAttributeValues: {
+        ':userId': userId,
+        ':sk': 'METADATA',
+      },
+    });
+
+    const response = await dynamoDBClient.send(command);
+    return (response.Items || []) as DocumentRecord[];
+  },
+
+  async findAll() {
+    const records: DocumentRecord[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+    do {
+      const response = await dynamoDBClient.send(new ScanCommand({
+        TableName: DYNAMODB_DOCUMENTS_TABLE,
+        FilterExpression: 'SK = :sk',
+        ExpressionAttributeValues: { ':sk': 'METADATA' },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      records.push(...((response.Items || []) as DocumentRecord[]));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return records;
+  },
+
+  async countByUserId(userId) {
+    const command = new ScanCommand({
+      TableName: DYNAMODB_DOCUMENTS_TABLE,
+      FilterExpression: 'userId = :userId AND SK = :sk',
+      ExpressionAttributeValues: {
+        ':userId': userId,
+        ':sk': 'METADATA',
+      },
+      Select: 'COUNT',
+    });
+
+    const response = await dynamoDBClient.send(command);
+    return response.Count || 0;
+  },
+};
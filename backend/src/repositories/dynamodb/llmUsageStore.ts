@@ -0,0 +1,50 @@
+import { PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+
+import { dynamoDBClient, DYNAMODB_LLM_USAGE_TABLE } from '../../config/aws.js';
+
+import type { LLMUsageRecord } from '../../../shared/src/types.js';
+import type { LLMUsageStore } from '../interfaces.js';
+
+/**
+ * All calls live in one table: userId partition, `timestamp#callId` sort key
+ */
+export const dynamoLLMUsageStore: LLMUsageStore = {
+  async put(record) {
+    const command = new PutCommand({
+      TableName: DYNAMODB_LLM_USAGE_TABLE,
+      Item: {
+        ...record,
+        SK: `${record.timestamp}#${record.callId}`,
+      },
+    });
+
+    await dynamoDBClient.send(command);
+  },
+
+  async findByUserId(userId, from, to) {
+    const items: LLMUsageRecord[] = [];
+    let startKey: Record<string, any> | undefined;
+
+    do {
+      const response = await dynamoDBClient.send(
+        new QueryCommand({
+          TableName: DYNAMODB_LLM_USAGE_TABLE,
+          // Keys of calls made exactly at `to` extend it and so sort after it
+          KeyConditionExpression: 'userId = :userId AND SK BETWEEN :from AND :to',
+          ExpressionAttributeValues: {
+            ':userId': userId,
+            ':from': from,
+            ':to': to,
+          },
+          ScanIndexForward: false,
+          ExclusiveStartKey: startKey,
+        }),
+      );
+      items.push(...((response.Items || []) as LLMUsageRecord[]));
+      startKey = response.LastEvaluatedKey;
+    } while (startKey);
+
+    // Drop the sort key
+    return items.map(({ SK: _sk, ...record }: any) => record as LLMUsageRecord);
+  },
+};
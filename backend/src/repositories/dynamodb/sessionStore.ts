@@ -0,0 +1,89 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+  DeleteCommand,
+} from '@aws-sdk/lib-dynamodb';
+
+import { env } from '../../config/env.js';
+
+import type { SessionStore } from '../interfaces.js';
+import type { Session } from '../sessionRepository.js';
+
+const config = {
+  region: env.AWS_REGION || 'us-east-1',
+  credentials: {
+    accessKeyId: env.AWS_ACCESS_KEY_ID || '',
+    secretAccessKey: env.AWS_SECRET_ACCESS_KEY || '',
+  },
+};
+
+const dynamodb = new DynamoDBClient(config);
+const TABLE_NAME = 'vaisu-sessions';
+
+export const dynamoSessionStore: SessionStore = {
+  async put(session) {
+    const command = new PutCommand({
+      TableName: TABLE_NAME,
+      Item: session,
+    });
+
+    await dynamodb.send(command);
+  },
+
+  async findById(sessionId) {
+    const command = new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { sessionId },
+    });
+
+    const result = await dynamodb.send(command);
+    return (result.Item as Session) || null;
+  },
+
+  async findByUserId(userId, limit) {
+    const command = new QueryCommand({
+      TableName: TABLE_NAME,
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'userId = :userId',
+      ExpressionAttributeValues: {
+        ':userId': userId,
+      },
+      Limit: limit,
+      ScanIndexForward: false, // Most recent first
+    });
+
+    const result = await dynamodb.send(command);
+    return (result.Items as Session[]) || [];
+  },
+
+  async revoke(sessionId) {
+    const command = new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: { sessionId },
+      UpdateExpression: 'SET revoked = :revoked',
+      ExpressionAttributeValues: {
+        ':revoked': true,
+      },
+    });
+
+    await dynamodb.send(command);
+  },
+
+  async delete(sessionId) {
+    const command = new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: { sessionId },
+    });
+
+    await dynamodb.send(command);
+  },
+
+  async revokeExpired() {
+    // DynamoDB has no index on expiresAt; expired sessions are rejected by
+    // isSessionValid and should be swept by a scheduled scan or table TTL
+    return 0;
+  },
+};
@@ -0,0 +1,80 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  PutCommand,
+  GetCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+
+import { env } from '../../config/env.js';
+
+import type { UsageLimitsStore } from '../interfaces.js';
+import type { UsageLimits } from '../usageLimitsRepository.js';
+
+const config = {
+  region: env.AWS_REGION || 'us-east-1',
+  credentials: {
+    accessKeyId: env.AWS_ACCESS_KEY_ID || '',
+    secretAccessKey: env.AWS_SECRET_ACCESS_KEY || '',
+  },
+};
+
+const dynamodb = new DynamoDBClient(config);
+const TABLE_NAME = 'vaisu-usage-limits';
+
+export const dynamoUsageLimitsStore: UsageLimitsStore = {
+  async get(userId, period) {
+    const command = new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { userId, period },
+    });
+
+    const result = await dynamodb.send(command);
+    return (result.Item as UsageLimits) || null;
+  },
+
+  async put(usage) {
+    const command = new PutCommand({
+      TableName: TABLE_NAME,
+      Item: usage,
+    });
+
+    await dynamodb.send(command);
+  },
+
+  async create(usage) {
+    const command = new PutCommand({
+      TableName: TABLE_NAME,
+      Item: usage,
+      ConditionExpression: 'attribute_not_exists(userId)',
+    });
+
+    try {
+      await dynamodb.send(command);
+      return true;
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw error;
+    }
+  },
+
+  async increment(userId, period, counter, amount, updatedAt) {
+    const command = new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: { userId, period },
+      // Counters added later (llmTokens, llmCost) are missing on older records
+      UpdateExpression:
+        `SET ${counter} = if_not_exists(${counter}, :zero) + :amount, updatedAt = :updatedAt`,
+      ExpressionAttributeValues: {
+        ':zero': 0,
+        ':amount': amount,
+        ':updatedAt': updatedAt,
+      },
+      ReturnValues: 'ALL_NEW',
+    });
+
+    const result = await dynamodb.send(command);
+    return result.Attributes as UsageLimits;
+  },
+};
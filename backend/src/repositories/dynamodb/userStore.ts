@@ -0,0 +1,116 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  UpdateCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+
+import { env } from '../../config/env.js';
+
+import type { UserStore } from '../interfaces.js';
+import type { User } from '../userRepository.js';
+
+const config = {
+  region: env.AWS_REGION || 'us-east-1',
+  credentials: {
+    accessKeyId: env.AWS_ACCESS_KEY_ID || '',
+    secretAccessKey: env.AWS_SECRET_ACCESS_KEY || '',
+  },
+};
+
+export const dynamodb = DynamoDBDocumentClient.from(
+  new DynamoDBClient(config),
+  {
+    marshallOptions: {
+      removeUndefinedValues: true,
+      convertClassInstanceToMap: true,
+    },
+  },
+);
+const TABLE_NAME = 'vaisu-users';
+
+export const dynamoUserStore: UserStore = {
+  async put(user) {
+    const command = new PutCommand({
+      TableName: TABLE_NAME,
+      Item: user,
+    });
+
+    await dynamodb.send(command);
+  },
+
+  async findById(userId) {
+    const command = new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { userId },
+    });
+
+    const result = await dynamodb.send(command);
+    return (result.Item as User) || null;
+  },
+
+  async findByEmail(email) {
+    const command = new QueryCommand({
+      TableName: TABLE_NAME,
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'email = :email',
+      ExpressionAttributeValues: {
+        ':email': email,
+      },
+    });
+
+    const result = await dynamodb.send(command);
+    return (result.Items?.[0] as User) || null;
+  },
+
+  async update(userId, updates) {
+    const updateFields: string[] = [];
+    const expressionValues: Record<string, any> = {};
+    const expressionAttributeNames: Record<string, string> = {};
+
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined) {
+        const attrName = `#${key}`;
+        updateFields.push(`${attrName} = :${key}`);
+        expressionValues[`:${key}`] = value;
+        expressionAttributeNames[attrName] = key;
+      }
+    });
+
+    const command = new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: { userId },
+      UpdateExpression: `SET ${updateFields.join(', ')}`,
+      ExpressionAttributeValues: expressionValues,
+      ExpressionAttributeNames: expressionAttributeNames,
+      ReturnValues: 'ALL_NEW',
+    });
+
+    const result = await dynamodb.send(command);
+    return result.Attributes as User;
+  },
+
+  async listByStatus(status, limit, startKey) {
+    const command = new QueryCommand({
+      TableName: TABLE_NAME,
+      IndexName: 'GSI2',
+      KeyConditionExpression: '#status = :status',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+      },
+      ExpressionAttributeValues: {
+        ':status': status,
+      },
+      Limit: limit,
+      ExclusiveStartKey: startKey ? { userId: startKey } : undefined,
+    });
+
+    const result = await dynamodb.send(command);
+    return {
+      users: (result.Items as User[]) || [],
+      lastKey: result.LastEvaluatedKey?.userId as string,
+    };
+  },
+};
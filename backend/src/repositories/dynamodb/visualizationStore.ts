@@ -0,0 +1,168 @@
+import * as analysisRepository from '../analysisRepository.js';
+import * as argumentMapRepository from '../argumentMapRepository.js';
+import * as depthGraphRepository from '../depthGraphRepository.js';
+import * as entityGraphRepository from '../entityGraphRepository.js';
+import * as executiveDashboardRepository from '../executiveDashboardRepository.js';
+import * as flowchartRepository from '../flowchartRepository.js';
+import * as ganttRepository from '../ganttRepository.js';
+import * as knowledgeGraphRepository from '../knowledgeGraphRepository.js';
+import * as mindMapRepository from '../mindMapRepository.js';
+import * as priorityMatrixRepository from '../priorityMatrixRepository.js';
+import * as raciMatrixRepository from '../raciMatrixRepository.js';
+import * as structuredViewRepository from '../structuredViewRepository.js';
+import * as termsDefinitionsRepository from '../termsDefinitionsRepository.js';
+import * as timelineRepository from '../timelineRepository.js';
+import * as umlClassRepository from '../umlClassRepository.js';
+
+import type { VisualizationStore } from '../interfaces.js';
+
+// Every UML diagram type shares the UML repository, which keys its rows by type
+const UML_TYPES = new Set(['uml-class', 'uml-class-diagram', 'uml-sequence', 'uml-activity']);
+
+/**
+ * One DynamoDB table per visualization type
+ */
+export const dynamoVisualizationStore: VisualizationStore = {
+  async create(visualization) {
+    const repository = getRepositoryForType(visualization.visualizationType);
+    await repository.create(visualization);
+  },
+
+  async findByDocumentIdAndType(documentId, visualizationType) {
+    if (UML_TYPES.has(visualizationType)) {
+      return await umlClassRepository.findByDocumentId(documentId, visualizationType);
+    }
+    const repository = getRepositoryForType(visualizationType);
+    return await repository.findByDocumentId(documentId);
+  },
+
+  async update(documentId, visualizationType, updates) {
+    if (UML_TYPES.has(visualizationType)) {
+      await umlClassRepository.update(documentId, updates, visualizationType);
+      return;
+    }
+    const repository = getRepositoryForType(visualizationType);
+    await repository.update(documentId, updates);
+  },
+
+  async delete(documentId, visualizationType) {
+    const repository = getRepositoryForType(visualizationType);
+    switch (visualizationType) {
+      case 'structured-view':
+        await repository.deleteVisualization(documentId);
+        break;
+      case 'argument-map':
+        await repository.deleteArgumentMap(documentId);
+        break;
+      case 'depth-graph':
+        await repository.deleteDepthGraph(documentId);
+        break;
+      case 'entity-graph':
+        await repository.deleteEntityGraph(documentId);
+        break;
+      case 'uml-class':
+      case 'uml-class-diagram':
+      case 'uml-sequence':
+      case 'uml-activity':
+        await repository.deleteUmlClass(documentId, visualizationType);
+        break;
+      case 'mind-map':
+        await repository.deleteMindMap(documentId);
+        break;
+      case 'flowchart':
+        await repository.deleteFlowchart(documentId);
+        break;
+      case 'executive-dashboard':
+        await repository.deleteExecutiveDashboard(documentId);
+        break;
+      case 'timeline':
+        await repository.deleteTimeline(documentId);
+        break;
+      case 'knowledge-graph':
+        await repository.deleteKnowledgeGraph(documentId);
+        break;
+      case 'terms-definitions':
+        await repository.deleteTermsDefinitions(documentId);
+        break;
+      case 'gantt':
+        await repository.deleteGantt(documentId);
+        break;
+      case 'comparison-matrix':
+        await repository.deleteComparisonMatrix(documentId);
+        break;
+      case 'priority-matrix':
+        await repository.deletePriorityMatrix(documentId);
+        break;
+      case 'raci-matrix':
+        await repository.deleteRaciMatrix(documentId);
+        break;
+      default:
+        throw new Error(`Unknown visualization type: ${visualizationType}`);
+    }
+  },
+
+  async deleteAllForDocument(documentId) {
+    // The comparison matrix is stored on the analysis record, which is deleted separately
+    const types = [
+      'structured-view',
+      'argument-map',
+      'depth-graph',
+      'entity-graph',
+      ...UML_TYPES,
+      'mind-map',
+      'flowchart',
+      'knowledge-graph',
+      'executive-dashboard',
+      'timeline',
+      'terms-definitions',
+      'gantt',
+      'priority-matrix',
+      'raci-matrix',
+    ];
+
+    await Promise.all(types.map((type) => this.delete(documentId, type)));
+  },
+};
+
+/**
+ * Get the appropriate repository for a visualization type
+ */
+function getRepositoryForType(type: string): any {
+  switch (type) {
+    case 'structured-view':
+      return structuredViewRepository; // Use dedicated repository
+    case 'argument-map':
+      return argumentMapRepository;
+    case 'depth-graph':
+      return depthGraphRepository;
+    case 'entity-graph':
+      return entityGraphRepository;
+    case 'uml-class':
+    case 'uml-class-diagram':
+    case 'uml-sequence':
+    case 'uml-activity':
+      return umlClassRepository; // One table for every UML diagram, keyed by type
+    case 'mind-map':
+      return mindMapRepository;
+    case 'flowchart':
+      return flowchartRepository;
+    case 'knowledge-graph':
+      return knowledgeGraphRepository; // Use knowledge graph repository for knowledge-graph
+    case 'executive-dashboard':
+      return executiveDashboardRepository;
+    case 'timeline':
+      return timelineRepository;
+    case 'terms-definitions':
+      return termsDefinitionsRepository;
+    case 'gantt':
+      return ganttRepository;
+    case 'comparison-matrix':
+      return analysisRepository; // Use analysis repository for comparison-matrix
+    case 'priority-matrix':
+      return priorityMatrixRepository;
+    case 'raci-matrix':
+      return raciMatrixRepository;
+    default:
+      throw new Error(`Unknown visualization type: ${type}`);
+  }
+}
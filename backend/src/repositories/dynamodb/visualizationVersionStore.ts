@@ -0,0 +1,123 @@
+import {
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+
+import {
+  dynamoDBClient,
+  DYNAMODB_VISUALIZATION_VERSIONS_TABLE,
+} from '../../config/aws.js';
+
+import type { VisualizationVersionStore } from '../interfaces.js';
+import type { VisualizationVersionRecord } from '../types.js';
+
+// Zero-padded so the sort key orders versions numerically
+const versionKey = (visualizationType: string, version: number) =>
+  `${visualizationType}#${String(version).padStart(8, '0')}`;
+
+/**
+ * All versions live in one table: documentId partition, `type#version` sort key
+ */
+export const dynamoVisualizationVersionStore: VisualizationVersionStore = {
+  async append(version) {
+    const command = new PutCommand({
+      TableName: DYNAMODB_VISUALIZATION_VERSIONS_TABLE,
+      Item: {
+        ...version,
+        SK: versionKey(version.visualizationType, version.version),
+      },
+      ConditionExpression: 'attribute_not_exists(SK)',
+    });
+
+    try {
+      await dynamoDBClient.send(command);
+      return true;
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw error;
+    }
+  },
+
+  async list(documentId, visualizationType) {
+    const items: VisualizationVersionRecord[] = [];
+    let startKey: Record<string, any> | undefined;
+
+    do {
+      const response = await dynamoDBClient.send(
+        new QueryCommand({
+          TableName: DYNAMODB_VISUALIZATION_VERSIONS_TABLE,
+          KeyConditionExpression: 'documentId = :documentId AND begins_with(SK, :type)',
+          ExpressionAttributeValues: {
+            ':documentId': documentId,
+            ':type': `${visualizationType}#`,
+          },
+          ScanIndexForward: false,
+          ExclusiveStartKey: startKey,
+        }),
+      );
+      items.push(...((response.Items || []) as VisualizationVersionRecord[]));
+      startKey = response.LastEvaluatedKey;
+    } while (startKey);
+
+    return items;
+  },
+
+  async find(documentId, visualizationType, version) {
+    const response = await dynamoDBClient.send(
+      new GetCommand({
+        TableName: DYNAMODB_VISUALIZATION_VERSIONS_TABLE,
+        Key: { documentId, SK: versionKey(visualizationType, version) },
+      }),
+    );
+
+    return (response.Item as VisualizationVersionRecord) || null;
+  },
+
+  async latestVersion(documentId, visualizationType) {
+    const response = await dynamoDBClient.send(
+      new QueryCommand({
+        TableName: DYNAMODB_VISUALIZATION_VERSIONS_TABLE,
+        KeyConditionExpression: 'documentId = :documentId AND begins_with(SK, :type)',
+        ExpressionAttributeValues: {
+          ':documentId': documentId,
+          ':type': `${visualizationType}#`,
+        },
+        ProjectionExpression: 'version',
+        ScanIndexForward: false,
+        Limit: 1,
+      }),
+    );
+
+    return (response.Items?.[0]?.version as number) || 0;
+  },
+
+  async deleteAllForDocument(documentId) {
+    let startKey: Record<string, any> | undefined;
+
+    do {
+      const response = await dynamoDBClient.send(
+        new QueryCommand({
+          TableName: DYNAMODB_VISUALIZATION_VERSIONS_TABLE,
+          KeyConditionExpression: 'documentId = :documentId',
+          ExpressionAttributeValues: { ':documentId': documentId },
+          ProjectionExpression: 'documentId, SK',
+          ExclusiveStartKey: startKey,
+        }),
+      );
+
+      for (const item of response.Items || []) {
+        await dynamoDBClient.send(
+          new DeleteCommand({
+            TableName: DYNAMODB_VISUALIZATION_VERSIONS_TABLE,
+            Key: { documentId, SK: item.SK },
+          }),
+        );
+      }
+      startKey = response.LastEvaluatedKey;
+    } while (startKey);
+  },
+};
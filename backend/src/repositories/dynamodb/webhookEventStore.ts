@@ -0,0 +1,27 @@
+import { GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+
+import { dynamoDBClient, DYNAMODB_WEBHOOK_EVENTS_TABLE } from '../../config/aws.js';
+
+import type { WebhookEventStore } from '../interfaces.js';
+import type { WebhookEvent } from '../webhookEventRepository.js';
+
+export const dynamoWebhookEventStore: WebhookEventStore = {
+  async findById(eventId) {
+    const result = await dynamoDBClient.send(
+      new GetCommand({
+        TableName: DYNAMODB_WEBHOOK_EVENTS_TABLE,
+        Key: { eventId },
+      }),
+    );
+    return (result.Item as WebhookEvent) || null;
+  },
+
+  async put(event) {
+    await dynamoDBClient.send(
+      new PutCommand({
+        TableName: DYNAMODB_WEBHOOK_EVENTS_TABLE,
+        Item: event,
+      }),
+    );
+  },
+};
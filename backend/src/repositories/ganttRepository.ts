@@ -0,0 +1,76 @@
+import { PutCommand, GetCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+
+import { dynamoDBClient, DYNAMODB_GANTT_TABLE } from '../config/aws.js';
+
+import type { VisualizationRecord } from './types.js';
+
+/**
+ * Create new gantt chart record
+ */
+export async function create(gantt: VisualizationRecord): Promise<void> {
+  const command = new PutCommand({
+    TableName: DYNAMODB_GANTT_TABLE,
+    Item: {
+      ...gantt,
+      SK: 'GANTT',
+    },
+  });
+
+  await dynamoDBClient.send(command);
+}
+
+/**
+ * Find gantt chart by document ID
+ */
+export async function findByDocumentId(documentId: string): Promise<VisualizationRecord | null> {
+  const command = new GetCommand({
+    TableName: DYNAMODB_GANTT_TABLE,
+    Key: {
+      documentId,
+      SK: 'GANTT',
+    },
+  });
+
+  const response = await dynamoDBClient.send(command);
+
+  if (!response.Item) {
+    return null;
+  }
+
+  return response.Item as VisualizationRecord;
+}
+
+/**
+ * Update gantt chart record (for regeneration)
+ */
+export async function update(
+  documentId: string,
+  updates: Partial<VisualizationRecord>,
+): Promise<void> {
+  const command = new PutCommand({
+    TableName: DYNAMODB_GANTT_TABLE,
+    Item: {
+      documentId,
+      SK: 'GANTT',
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    },
+  });
+
+  await dynamoDBClient.send(command);
+}
+
+/**
+ * Delete gantt chart record
+ */
+export async function deleteGantt(documentId: string): Promise<void> {
+  const command = new DeleteCommand({
+    TableName: DYNAMODB_GANTT_TABLE,
+    Key: {
+      documentId,
+      SK: 'GANTT',
+    },
+  });
+
+  await dynamoDBClient.send(command);
+}
@@ -0,0 +1,149 @@
+import type { AuditLog } from './auditLogsRepository.js';
+import type { Session } from './sessionRepository.js';
+import type {
+  AnalysisRecord,
+  DocumentRecord,
+  VisualizationRecord,
+  VisualizationVersionRecord,
+} from './types.js';
+import type { UsageLimits } from './usageLimitsRepository.js';
+import type { User, UpdateUserInput } from './userRepository.js';
+import type { WebhookEvent } from './webhookEventRepository.js';
+import type { LLMUsageRecord } from '../../shared/src/types.js';
+
+/**
+ * Storage-agnostic persistence contracts. Each repository module delegates to
+ * the implementation selected by STORAGE_BACKEND: DynamoDB (`./dynamodb`) or
+ * the embedded SQLite database (`./sqlite`).
+ */
+
+export interface DocumentStore {
+  findByHashAndFilename(hash: string, filename: string): Promise<DocumentRecord | null>;
+  findByContentHash(hash: string): Promise<DocumentRecord[]>;
+  create(document: DocumentRecord): Promise<void>;
+  findById(documentId: string): Promise<DocumentRecord | null>;
+  updateAccessMetadata(documentId: string): Promise<void>;
+  deleteDocument(documentId: string): Promise<void>;
+  /** Newest first */
+  listByUserId(
+    userId: string,
+    limit: number,
+    offset: number,
+  ): Promise<{ documents: DocumentRecord[]; total: number }>;
+  findAllByUserId(userId: string): Promise<DocumentRecord[]>;
+  /** Every document of every user, e.g. to rebuild derived indexes */
+  findAll(): Promise<DocumentRecord[]>;
+  countByUserId(userId: string): Promise<number>;
+}
+
+export interface AnalysisStore {
+  create(analysis: AnalysisRecord): Promise<void>;
+  findByDocumentId(documentId: string): Promise<AnalysisRecord | null>;
+  update(documentId: string, updates: Partial<AnalysisRecord>): Promise<void>;
+  deleteAnalysis(documentId: string): Promise<void>;
+}
+
+export interface VisualizationStore {
+  create(visualization: VisualizationRecord): Promise<void>;
+  findByDocumentIdAndType(
+    documentId: string,
+    visualizationType: string,
+  ): Promise<VisualizationRecord | null>;
+  update(
+    documentId: string,
+    visualizationType: string,
+    updates: Partial<VisualizationRecord>,
+  ): Promise<void>;
+  delete(documentId: string, visualizationType: string): Promise<void>;
+  deleteAllForDocument(documentId: string): Promise<void>;
+}
+
+export interface VisualizationVersionStore {
+  /** Versions are immutable; false when the version number is already taken */
+  append(version: VisualizationVersionRecord): Promise<boolean>;
+  /** Newest first */
+  list(documentId: string, visualizationType: string): Promise<VisualizationVersionRecord[]>;
+  find(
+    documentId: string,
+    visualizationType: string,
+    version: number,
+  ): Promise<VisualizationVersionRecord | null>;
+  /** Highest version number so far, 0 when there is none */
+  latestVersion(documentId: string, visualizationType: string): Promise<number>;
+  deleteAllForDocument(documentId: string): Promise<void>;
+}
+
+export interface UserStore {
+  put(user: User): Promise<void>;
+  findById(userId: string): Promise<User | null>;
+  findByEmail(email: string): Promise<User | null>;
+  /** Sets every defined field in `updates` and returns the updated user */
+  update(userId: string, updates: UpdateUserInput & { updatedAt: string }): Promise<User>;
+  listByStatus(
+    status: User['status'],
+    limit: number,
+    startKey?: string,
+  ): Promise<{ users: User[]; lastKey?: string }>;
+}
+
+export interface SessionStore {
+  put(session: Session): Promise<void>;
+  findById(sessionId: string): Promise<Session | null>;
+  /** Most recent first */
+  findByUserId(userId: string, limit: number): Promise<Session[]>;
+  revoke(sessionId: string): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  /** Revokes sessions past their expiry; returns how many were revoked */
+  revokeExpired(now: string): Promise<number>;
+}
+
+export type UsageCounter =
+  | 'documentCount'
+  | 'analysisCount'
+  | 'apiCalls'
+  | 'llmTokens'
+  | 'llmCost';
+
+export interface UsageLimitsStore {
+  get(userId: string, period: string): Promise<UsageLimits | null>;
+  put(usage: UsageLimits): Promise<void>;
+  /** Writes a new record unless one exists for its user and period; false if one did */
+  create(usage: UsageLimits): Promise<boolean>;
+  /** Adds `amount` to the counter of an existing record and returns it */
+  increment(
+    userId: string,
+    period: string,
+    counter: UsageCounter,
+    amount: number,
+    updatedAt: string,
+  ): Promise<UsageLimits>;
+}
+
+export interface LLMUsageStore {
+  put(record: LLMUsageRecord): Promise<void>;
+  /** Calls of a user with `from <= timestamp < to`, most recent first */
+  findByUserId(userId: string, from: string, to: string): Promise<LLMUsageRecord[]>;
+}
+
+export interface AuditLogStore {
+  put(log: AuditLog): Promise<void>;
+  /** Most recent first */
+  findByUserId(
+    userId: string,
+    limit: number,
+    startKey?: string,
+  ): Promise<{ logs: AuditLog[]; lastKey?: string }>;
+  /** Most recent first */
+  findByAction(
+    action: string,
+    limit: number,
+    startKey?: string,
+  ): Promise<{ logs: AuditLog[]; lastKey?: string }>;
+  findByResource(resourceType: string, resourceId: string, limit: number): Promise<AuditLog[]>;
+  findByDateRange(startDate: string, endDate: string, limit: number): Promise<AuditLog[]>;
+}
+
+export interface WebhookEventStore {
+  findById(eventId: string): Promise<WebhookEvent | null>;
+  put(event: WebhookEvent): Promise<void>;
+}
@@ -0,0 +1,43 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { isSqliteStorage } from '../config/storage.js';
+
+import { dynamoLLMUsageStore } from './dynamodb/llmUsageStore.js';
+import { getSqliteDatabase } from './sqlite/database.js';
+import { SqliteLLMUsageStore } from './sqlite/llmUsageStore.js';
+
+import type { LLMUsageStore } from './interfaces.js';
+import type { LLMUsageRecord } from '../../shared/src/types.js';
+
+export type LLMUsageInput = Omit<LLMUsageRecord, 'callId' | 'timestamp'>;
+
+export class LLMUsageRepository {
+  constructor(private store: LLMUsageStore) {}
+
+  async record(input: LLMUsageInput): Promise<LLMUsageRecord> {
+    const record: LLMUsageRecord = {
+      ...input,
+      callId: uuidv4(),
+      timestamp: new Date().toISOString(),
+    };
+
+    await this.store.put(record);
+    return record;
+  }
+
+  /**
+   * Calls of a user in a monthly period (`YYYY-MM`, as in usage limits), most recent first
+   */
+  async getByPeriod(userId: string, period: string): Promise<LLMUsageRecord[]> {
+    const [year, month] = period.split('-').map(Number);
+    const from = new Date(year, month - 1, 1).toISOString();
+    const to = new Date(year, month, 1).toISOString();
+    return this.store.findByUserId(userId, from, to);
+  }
+}
+
+export const llmUsageRepository = new LLMUsageRepository(
+  isSqliteStorage()
+    ? new SqliteLLMUsageStore(getSqliteDatabase())
+    : dynamoLLMUsageStore,
+);
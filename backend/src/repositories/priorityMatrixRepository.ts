@@ -0,0 +1,76 @@
+import { PutCommand, GetCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+
+import { dynamoDBClient, DYNAMODB_PRIORITY_MATRIX_TABLE } from '../config/aws.js';
+
+import type { VisualizationRecord } from './types.js';
+
+/**
+ * Create new priority matrix record
+ */
+export async function create(priorityMatrix: VisualizationRecord): Promise<void> {
+  const command = new PutCommand({
+    TableName: DYNAMODB_PRIORITY_MATRIX_TABLE,
+    Item: {
+      ...priorityMatrix,
+      SK: 'PRIORITY_MATRIX',
+    },
+  });
+
+  await dynamoDBClient.send(command);
+}
+
+/**
+ * Find priority matrix by document ID
+ */
+export async function findByDocumentId(documentId: string): Promise<VisualizationRecord | null> {
+  const command = new GetCommand({
+    TableName: DYNAMODB_PRIORITY_MATRIX_TABLE,
+    Key: {
+      documentId,
+      SK: 'PRIORITY_MATRIX',
+    },
+  });
+
+  const response = await dynamoDBClient.send(command);
+
+  if (!response.Item) {
+    return null;
+  }
+
+  return response.Item as VisualizationRecord;
+}
+
+/**
+ * Update priority matrix record (for regeneration)
+ */
+export async function update(
+  documentId: string,
+  updates: Partial<VisualizationRecord>,
+): Promise<void> {
+  const command = new PutCommand({
+    TableName: DYNAMODB_PRIORITY_MATRIX_TABLE,
+    Item: {
+      documentId,
+      SK: 'PRIORITY_MATRIX',
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    },
+  });
+
+  await dynamoDBClient.send(command);
+}
+
+/**
+ * Delete priority matrix record
+ */
+export async function deletePriorityMatrix(documentId: string): Promise<void> {
+  const command = new DeleteCommand({
+    TableName: DYNAMODB_PRIORITY_MATRIX_TABLE,
+    Key: {
+      documentId,
+      SK: 'PRIORITY_MATRIX',
+    },
+  });
+
+  await dynamoDBClient.send(command);
+}
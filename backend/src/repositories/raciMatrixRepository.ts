@@ -0,0 +1,76 @@
+import { PutCommand, GetCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+
+import { dynamoDBClient, DYNAMODB_RACI_MATRIX_TABLE } from '../config/aws.js';
+
+import type { VisualizationRecord } from './types.js';
+
+/**
+ * Create new RACI matrix record
+ */
+export async function create(raciMatrix: VisualizationRecord): Promise<void> {
+  const command = new PutCommand({
+    TableName: DYNAMODB_RACI_MATRIX_TABLE,
+    Item: {
+      ...raciMatrix,
+      SK: 'RACI_MATRIX',
+    },
+  });
+
+  await dynamoDBClient.send(command);
+}
+
+/**
+ * Find RACI matrix by document ID
+ */
+export async function findByDocumentId(documentId: string): Promise<VisualizationRecord | null> {
+  const command = new GetCommand({
+    TableName: DYNAMODB_RACI_MATRIX_TABLE,
+    Key: {
+      documentId,
+      SK: 'RACI_MATRIX',
+    },
+  });
+
+  const response = await dynamoDBClient.send(command);
+
+  if (!response.Item) {
+    return null;
+  }
+
+  return response.Item as VisualizationRecord;
+}
+
+/**
+ * Update RACI matrix record (for regeneration)
+ */
+export async function update(
+  documentId: string,
+  updates: Partial<VisualizationRecord>,
+): Promise<void> {
+  const command = new PutCommand({
+    TableName: DYNAMODB_RACI_MATRIX_TABLE,
+    Item: {
+      documentId,
+      SK: 'RACI_MATRIX',
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    },
+  });
+
+  await dynamoDBClient.send(command);
+}
+
+/**
+ * Delete RACI matrix record
+ */
+export async function deleteRaciMatrix(documentId: string): Promise<void> {
+  const command = new DeleteCommand({
+    TableName: DYNAMODB_RACI_MATRIX_TABLE,
+    Key: {
+      documentId,
+      SK: 'RACI_MATRIX',
+    },
+  });
+
+  await dynamoDBClient.send(command);
+}
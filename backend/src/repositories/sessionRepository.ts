@@ -1,14 +1,12 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import {
-  PutCommand,
-  GetCommand,
-  QueryCommand,
-  UpdateCommand,
-  DeleteCommand,
-} from '@aws-sdk/lib-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
 
-import { env } from '../config/env.js';
+import { isSqliteStorage } from '../config/storage.js';
+
+import { dynamoSessionStore } from './dynamodb/sessionStore.js';
+import { getSqliteDatabase } from './sqlite/database.js';
+import { SqliteSessionStore } from './sqlite/sessionStore.js';
+
+import type { SessionStore } from './interfaces.js';
 
 export interface Session {
   sessionId: string;
@@ -28,18 +26,9 @@ export interface CreateSessionInput {
   userAgent?: string;
 }
 
-const config = {
-  region: env.AWS_REGION || 'us-east-1',
-  credentials: {
-    accessKeyId: env.AWS_ACCESS_KEY_ID || '',
-    secretAccessKey: env.AWS_SECRET_ACCESS_KEY || '',
-  },
-};
-
-const dynamodb = new DynamoDBClient(config);
-const TABLE_NAME = 'vaisu-sessions';
-
 export class SessionRepository {
+  constructor(private store: SessionStore) {}
+
   async createSession(input: CreateSessionInput): Promise<Session> {
     const sessionId = uuidv4();
     const now = new Date();
@@ -57,52 +46,20 @@ export class SessionRepository {
       revoked: false,
     };
 
-    const command = new PutCommand({
-      TableName: TABLE_NAME,
-      Item: session,
-    });
-
-    await dynamodb.send(command);
+    await this.store.put(session);
     return session;
   }
 
   async getSessionById(sessionId: string): Promise<Session | null> {
-    const command = new GetCommand({
-      TableName: TABLE_NAME,
-      Key: { sessionId },
-    });
-
-    const result = await dynamodb.send(command);
-    return (result.Item as Session) || null;
+    return this.store.findById(sessionId);
   }
 
   async getSessionsByUserId(userId: string, limit: number = 50): Promise<Session[]> {
-    const command = new QueryCommand({
-      TableName: TABLE_NAME,
-      IndexName: 'GSI1',
-      KeyConditionExpression: 'userId = :userId',
-      ExpressionAttributeValues: {
-        ':userId': userId,
-      },
-      Limit: limit,
-      ScanIndexForward: false, // Most recent first
-    });
-
-    const result = await dynamodb.send(command);
-    return (result.Items as Session[]) || [];
+    return this.store.findByUserId(userId, limit);
   }
 
   async revokeSession(sessionId: string): Promise<void> {
-    const command = new UpdateCommand({
-      TableName: TABLE_NAME,
-      Key: { sessionId },
-      UpdateExpression: 'SET revoked = :revoked',
-      ExpressionAttributeValues: {
-        ':revoked': true,
-      },
-    });
-
-    await dynamodb.send(command);
+    await this.store.revoke(sessionId);
   }
 
   async revokeAllUserSessions(userId: string): Promise<void> {
@@ -115,19 +72,7 @@ export class SessionRepository {
   }
 
   async revokeExpiredSessions(): Promise<number> {
-    const now = new Date().toISOString();
-    const command = new QueryCommand({
-      TableName: TABLE_NAME,
-      IndexName: 'GSI1',
-      KeyConditionExpression: 'userId = :userId',
-      ExpressionAttributeValues: {
-        ':userId': 'dummy', // We need to scan all, but DynamoDB doesn't support full table scan with Query
-      },
-    });
-
-    // For production, you'd want to use a scan with filter or a scheduled job
-    // This is a simplified version
-    return 0;
+    return this.store.revokeExpired(new Date().toISOString());
   }
 
   async isSessionValid(sessionId: string): Promise<boolean> {
@@ -140,12 +85,7 @@ export class SessionRepository {
   }
 
   async deleteSession(sessionId: string): Promise<void> {
-    const command = new DeleteCommand({
-      TableName: TABLE_NAME,
-      Key: { sessionId },
-    });
-
-    await dynamodb.send(command);
+    await this.store.delete(sessionId);
   }
 
   async cleanupExpiredSessions(): Promise<number> {
@@ -155,4 +95,6 @@ export class SessionRepository {
   }
 }
 
-export const sessionRepository = new SessionRepository();
+export const sessionRepository = new SessionRepository(
+  isSqliteStorage() ? new SqliteSessionStore(getSqliteDatabase()) : dynamoSessionStore,
+);
@@ -0,0 +1,45 @@
+import { parseRow } from './database.js';
+
+import type { SqliteDatabase } from './database.js';
+import type { AnalysisStore } from '../interfaces.js';
+import type { AnalysisRecord } from '../types.js';
+
+export class SqliteAnalysisStore implements AnalysisStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async create(analysis: AnalysisRecord): Promise<void> {
+    this.db
+      .prepare('INSERT OR REPLACE INTO analyses (document_id, data) VALUES (?, ?)')
+      .run(analysis.documentId, JSON.stringify(analysis));
+  }
+
+  async findByDocumentId(documentId: string): Promise<AnalysisRecord | null> {
+    const row = this.db
+      .prepare('SELECT data FROM analyses WHERE document_id = ?')
+      .get(documentId);
+    return parseRow<AnalysisRecord>(row);
+  }
+
+  async update(
+    documentId: string,
+    updates: Partial<AnalysisRecord>,
+  ): Promise<void> {
+    const apply = this.db.transaction(() => {
+      const existing = parseRow<AnalysisRecord>(
+        this.db
+          .prepare('SELECT data FROM analyses WHERE document_id = ?')
+          .get(documentId),
+      );
+
+      this.db
+        .prepare('INSERT OR REPLACE INTO analyses (document_id, data) VALUES (?, ?)')
+        .run(documentId, JSON.stringify({ ...existing, ...updates, documentId }));
+    });
+
+    apply();
+  }
+
+  async deleteAnalysis(documentId: string): Promise<void> {
+    this.db.prepare('DELETE FROM analyses WHERE document_id = ?').run(documentId);
+  }
+}
@@ -0,0 +1,111 @@
+import { parseRows } from './database.js';
+
+import type { SqliteDatabase } from './database.js';
+import type { AuditLog } from '../auditLogsRepository.js';
+import type { AuditLogStore } from '../interfaces.js';
+
+export class SqliteAuditLogStore implements AuditLogStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async put(log: AuditLog): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO audit_logs
+           (log_id, user_id, action, resource_type, resource_id, timestamp, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        log.logId,
+        log.userId,
+        log.action,
+        log.resourceType ?? null,
+        log.resourceId ?? null,
+        log.timestamp,
+        JSON.stringify(log),
+      );
+  }
+
+  async findByUserId(
+    userId: string,
+    limit: number,
+    startKey?: string,
+  ): Promise<{ logs: AuditLog[]; lastKey?: string }> {
+    return this.page('user_id', userId, limit, startKey);
+  }
+
+  async findByAction(
+    action: string,
+    limit: number,
+    startKey?: string,
+  ): Promise<{ logs: AuditLog[]; lastKey?: string }> {
+    return this.page('action', action, limit, startKey);
+  }
+
+  async findByResource(
+    resourceType: string,
+    resourceId: string,
+    limit: number,
+  ): Promise<AuditLog[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM audit_logs
+         WHERE resource_type = ? AND resource_id = ?
+         ORDER BY timestamp DESC LIMIT ?`,
+      )
+      .all(resourceType, resourceId, limit);
+    return parseRows<AuditLog>(rows);
+  }
+
+  async findByDateRange(
+    startDate: string,
+    endDate: string,
+    limit: number,
+  ): Promise<AuditLog[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM audit_logs
+         WHERE timestamp >= ? AND timestamp <= ?
+         ORDER BY timestamp DESC LIMIT ?`,
+      )
+      .all(startDate, endDate, limit);
+    return parseRows<AuditLog>(rows);
+  }
+
+  /**
+   * Newest-first page; `startKey` is the logId of the last entry of the previous page
+   */
+  private page(
+    column: 'user_id' | 'action',
+    value: string,
+    limit: number,
+    startKey?: string,
+  ): { logs: AuditLog[]; lastKey?: string } {
+    const cursor = startKey
+      ? (this.db
+        .prepare('SELECT timestamp, log_id FROM audit_logs WHERE log_id = ?')
+        .get(startKey) as { timestamp: string; log_id: string } | undefined)
+      : undefined;
+
+    const rows = (cursor
+      ? this.db
+        .prepare(
+          `SELECT log_id, data FROM audit_logs
+           WHERE ${column} = ? AND (timestamp, log_id) < (?, ?)
+           ORDER BY timestamp DESC, log_id DESC LIMIT ?`,
+        )
+        .all(value, cursor.timestamp, cursor.log_id, limit + 1)
+      : this.db
+        .prepare(
+          `SELECT log_id, data FROM audit_logs
+           WHERE ${column} = ?
+           ORDER BY timestamp DESC, log_id DESC LIMIT ?`,
+        )
+        .all(value, limit + 1)) as { log_id: string }[];
+
+    const logs = rows.slice(0, limit);
+    return {
+      logs: parseRows<AuditLog>(logs),
+      lastKey: rows.length > limit ? logs[logs.length - 1].log_id : undefined,
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+
+import Database from 'better-sqlite3';
+
+import { SQLITE_PATH } from '../../config/storage.js';
+
+export type SqliteDatabase = Database.Database;
+
+/**
+ * Records are stored whole in a JSON `data` column; the other columns copy
+ * the fields each store filters or sorts on.
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS documents (
+    document_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    uploaded_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS documents_user ON documents (user_id, uploaded_at);
+  CREATE INDEX IF NOT EXISTS documents_hash ON documents (content_hash, filename);
+
+  CREATE TABLE IF NOT EXISTS analyses (
+    document_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS visualizations (
+    document_id TEXT NOT NULL,
+    visualization_type TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (document_id, visualization_type)
+  );
+
+  CREATE TABLE IF NOT EXISTS visualization_versions (
+    document_id TEXT NOT NULL,
+    visualization_type TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (document_id, visualization_type, version)
+  );
+
+  CREATE TABLE IF NOT EXISTS users (
+    user_id TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS users_email ON users (email);
+  CREATE INDEX IF NOT EXISTS users_status ON users (status, user_id);
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    session_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS sessions_user ON sessions (user_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS usage_limits (
+    user_id TEXT NOT NULL,
+    period TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (user_id, period)
+  );
+
+  CREATE TABLE IF NOT EXISTS llm_usage (
+    call_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    document_id TEXT,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS llm_usage_user ON llm_usage (user_id, timestamp);
+
+  CREATE TABLE IF NOT EXISTS webhook_events (
+    event_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS audit_logs (
+    log_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    resource_type TEXT,
+    resource_id TEXT,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS audit_logs_user ON audit_logs (user_id, timestamp);
+  CREATE INDEX IF NOT EXISTS audit_logs_action ON audit_logs (action, timestamp);
+  CREATE INDEX IF NOT EXISTS audit_logs_resource ON audit_logs (resource_type, resource_id);
+  CREATE INDEX IF NOT EXISTS audit_logs_timestamp ON audit_logs (timestamp);
+`;
+
+/**
+ * Open a database and create any missing tables. Pass ':memory:' for a
+ * throwaway database.
+ */
+export function openSqliteDatabase(filename: string): SqliteDatabase {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  return db;
+}
+
+let _database: SqliteDatabase | null = null;
+
+/**
+ * Shared database at SQLITE_PATH, opened on first use
+ */
+export function getSqliteDatabase(): SqliteDatabase {
+  if (!_database) {
+    _database = openSqliteDatabase(SQLITE_PATH);
+    console.log(`🗄️  SQLite storage: ${SQLITE_PATH}`);
+  }
+  return _database;
+}
+
+/**
+ * Parse the JSON `data` column of a row, or null when there is no row
+ */
+export function parseRow<T>(row: unknown): T | null {
+  if (!row) {
+    return null;
+  }
+  return JSON.parse((row as { data: string }).data) as T;
+}
+
+/**
+ * Parse the JSON `data` column of every row
+ */
+export function parseRows<T>(rows: unknown[]): T[] {
+  return rows.map((row) => JSON.parse((row as { data: string }).data) as T);
+}
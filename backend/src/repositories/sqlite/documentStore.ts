@@ -0,0 +1,106 @@
+import { parseRow, parseRows } from './database.js';
+
+import type { SqliteDatabase } from './database.js';
+import type { DocumentStore } from '../interfaces.js';
+import type { DocumentRecord } from '../types.js';
+
+export class SqliteDocumentStore implements DocumentStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async findByHashAndFilename(
+    hash: string,
+    filename: string,
+  ): Promise<DocumentRecord | null> {
+    const row = this.db
+      .prepare(
+        'SELECT data FROM documents WHERE content_hash = ? AND filename = ? LIMIT 1',
+      )
+      .get(hash, filename);
+    return parseRow<DocumentRecord>(row);
+  }
+
+  async findByContentHash(hash: string): Promise<DocumentRecord[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM documents WHERE content_hash = ?')
+      .all(hash);
+    return parseRows<DocumentRecord>(rows);
+  }
+
+  async create(document: DocumentRecord): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO documents
+           (document_id, user_id, content_hash, filename, uploaded_at, data)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        document.documentId,
+        document.userId,
+        document.contentHash,
+        document.filename,
+        document.uploadedAt,
+        JSON.stringify(document),
+      );
+  }
+
+  async findById(documentId: string): Promise<DocumentRecord | null> {
+    const row = this.db
+      .prepare('SELECT data FROM documents WHERE document_id = ?')
+      .get(documentId);
+    return parseRow<DocumentRecord>(row);
+  }
+
+  async updateAccessMetadata(documentId: string): Promise<void> {
+    this.db
+      .prepare(
+        `UPDATE documents SET data = json_set(
+           data,
+           '$.lastAccessedAt', ?,
+           '$.accessCount', coalesce(json_extract(data, '$.accessCount'), 0) + 1
+         )
+         WHERE document_id = ?`,
+      )
+      .run(new Date().toISOString(), documentId);
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    this.db.prepare('DELETE FROM documents WHERE document_id = ?').run(documentId);
+  }
+
+  async listByUserId(
+    userId: string,
+    limit: number,
+    offset: number,
+  ): Promise<{ documents: DocumentRecord[]; total: number }> {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM documents WHERE user_id = ?
+         ORDER BY uploaded_at DESC LIMIT ? OFFSET ?`,
+      )
+      .all(userId, limit, offset);
+
+    return {
+      documents: parseRows<DocumentRecord>(rows),
+      total: await this.countByUserId(userId),
+    };
+  }
+
+  async findAllByUserId(userId: string): Promise<DocumentRecord[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM documents WHERE user_id = ?')
+      .all(userId);
+    return parseRows<DocumentRecord>(rows);
+  }
+
+  async findAll(): Promise<DocumentRecord[]> {
+    const rows = this.db.prepare('SELECT data FROM documents').all();
+    return parseRows<DocumentRecord>(rows);
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS count FROM documents WHERE user_id = ?')
+      .get(userId) as { count: number };
+    return row.count;
+  }
+}
@@ -0,0 +1,35 @@
+import { parseRows } from './database.js';
+
+import type { SqliteDatabase } from './database.js';
+import type { LLMUsageRecord } from '../../../shared/src/types.js';
+import type { LLMUsageStore } from '../interfaces.js';
+
+export class SqliteLLMUsageStore implements LLMUsageStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async put(record: LLMUsageRecord): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO llm_usage (call_id, user_id, document_id, timestamp, data)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(
+        record.callId,
+        record.userId,
+        record.documentId ?? null,
+        record.timestamp,
+        JSON.stringify(record),
+      );
+  }
+
+  async findByUserId(userId: string, from: string, to: string): Promise<LLMUsageRecord[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM llm_usage
+         WHERE user_id = ? AND timestamp >= ? AND timestamp < ?
+         ORDER BY timestamp DESC, call_id DESC`,
+      )
+      .all(userId, from, to);
+    return parseRows<LLMUsageRecord>(rows);
+  }
+}
@@ -0,0 +1,59 @@
+import { parseRow, parseRows } from './database.js';
+
+import type { SqliteDatabase } from './database.js';
+import type { SessionStore } from '../interfaces.js';
+import type { Session } from '../sessionRepository.js';
+
+export class SqliteSessionStore implements SessionStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async put(session: Session): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO sessions (session_id, user_id, created_at, data)
+         VALUES (?, ?, ?, ?)`,
+      )
+      .run(session.sessionId, session.userId, session.createdAt, JSON.stringify(session));
+  }
+
+  async findById(sessionId: string): Promise<Session | null> {
+    const row = this.db
+      .prepare('SELECT data FROM sessions WHERE session_id = ?')
+      .get(sessionId);
+    return parseRow<Session>(row);
+  }
+
+  async findByUserId(userId: string, limit: number): Promise<Session[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM sessions WHERE user_id = ?
+         ORDER BY created_at DESC LIMIT ?`,
+      )
+      .all(userId, limit);
+    return parseRows<Session>(rows);
+  }
+
+  async revoke(sessionId: string): Promise<void> {
+    this.db
+      .prepare(
+        `UPDATE sessions SET data = json_set(data, '$.revoked', json('true'))
+         WHERE session_id = ?`,
+      )
+      .run(sessionId);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.db.prepare('DELETE FROM sessions WHERE session_id = ?').run(sessionId);
+  }
+
+  async revokeExpired(now: string): Promise<number> {
+    const result = this.db
+      .prepare(
+        `UPDATE sessions SET data = json_set(data, '$.revoked', json('true'))
+         WHERE json_extract(data, '$.expiresAt') < ?
+           AND json_extract(data, '$.revoked') = 0`,
+      )
+      .run(now);
+    return result.changes;
+  }
+}
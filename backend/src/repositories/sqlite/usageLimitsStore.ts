@@ -0,0 +1,78 @@
+import { parseRow } from './database.js';
+
+import type { SqliteDatabase } from './database.js';
+import type { UsageCounter, UsageLimitsStore } from '../interfaces.js';
+import type { UsageLimits } from '../usageLimitsRepository.js';
+
+export class SqliteUsageLimitsStore implements UsageLimitsStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async get(userId: string, period: string): Promise<UsageLimits | null> {
+    const row = this.db
+      .prepare('SELECT data FROM usage_limits WHERE user_id = ? AND period = ?')
+      .get(userId, period);
+    return parseRow<UsageLimits>(row);
+  }
+
+  async put(usage: UsageLimits): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO usage_limits (user_id, period, data)
+         VALUES (?, ?, ?)`,
+      )
+      .run(usage.userId, usage.period, JSON.stringify(usage));
+  }
+
+  async create(usage: UsageLimits): Promise<boolean> {
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO usage_limits (user_id, period, data)
+         VALUES (?, ?, ?)`,
+      )
+      .run(usage.userId, usage.period, JSON.stringify(usage));
+    return result.changes > 0;
+  }
+
+  async increment(
+    userId: string,
+    period: string,
+    counter: UsageCounter,
+    amount: number,
+    updatedAt: string,
+  ): Promise<UsageLimits> {
+    return this.write(userId, period, (usage) => ({
+      ...usage,
+      [counter]: (usage[counter] || 0) + amount,
+      updatedAt,
+    }));
+  }
+
+  /**
+   * Read-modify-write inside a transaction so concurrent requests in this
+   * process cannot lose counts
+   */
+  private write(
+    userId: string,
+    period: string,
+    change: (usage: UsageLimits) => UsageLimits,
+  ): UsageLimits {
+    const apply = this.db.transaction(() => {
+      const existing = parseRow<UsageLimits>(
+        this.db
+          .prepare('SELECT data FROM usage_limits WHERE user_id = ? AND period = ?')
+          .get(userId, period),
+      );
+      const updated = change(existing || ({ userId, period } as UsageLimits));
+
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO usage_limits (user_id, period, data)
+           VALUES (?, ?, ?)`,
+        )
+        .run(userId, period, JSON.stringify(updated));
+      return updated;
+    });
+
+    return apply();
+  }
+}
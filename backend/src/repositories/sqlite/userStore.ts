@@ -0,0 +1,82 @@
+import { parseRow, parseRows } from './database.js';
+
+import type { SqliteDatabase } from './database.js';
+import type { UserStore } from '../interfaces.js';
+import type { UpdateUserInput, User } from '../userRepository.js';
+
+export class SqliteUserStore implements UserStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async put(user: User): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO users (user_id, email, status, data)
+         VALUES (?, ?, ?, ?)`,
+      )
+      .run(user.userId, user.email, user.status, JSON.stringify(user));
+  }
+
+  async findById(userId: string): Promise<User | null> {
+    const row = this.db
+      .prepare('SELECT data FROM users WHERE user_id = ?')
+      .get(userId);
+    return parseRow<User>(row);
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const row = this.db
+      .prepare('SELECT data FROM users WHERE email = ? LIMIT 1')
+      .get(email);
+    return parseRow<User>(row);
+  }
+
+  async update(
+    userId: string,
+    updates: UpdateUserInput & { updatedAt: string },
+  ): Promise<User> {
+    const apply = this.db.transaction(() => {
+      const existing = parseRow<User>(
+        this.db.prepare('SELECT data FROM users WHERE user_id = ?').get(userId),
+      );
+
+      // Like a DynamoDB update, a missing user is created from the given fields
+      const user = { ...(existing || { userId }) } as User;
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value !== undefined) {
+          (user as any)[key] = value;
+        }
+      });
+
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO users (user_id, email, status, data)
+           VALUES (?, ?, ?, ?)`,
+        )
+        .run(userId, user.email || '', user.status || '', JSON.stringify(user));
+      return user;
+    });
+
+    return apply();
+  }
+
+  async listByStatus(
+    status: User['status'],
+    limit: number,
+    startKey?: string,
+  ): Promise<{ users: User[]; lastKey?: string }> {
+    const rows = this.db
+      .prepare(
+        `SELECT user_id, data FROM users
+         WHERE status = ? AND user_id > ?
+         ORDER BY user_id
+         LIMIT ?`,
+      )
+      .all(status, startKey || '', limit + 1) as { user_id: string }[];
+
+    const page = rows.slice(0, limit);
+    return {
+      users: parseRows<User>(page),
+      lastKey: rows.length > limit ? page[page.length - 1].user_id : undefined,
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { parseRow } from './database.js';
+
+import type { SqliteDatabase } from './database.js';
+import type { VisualizationStore } from '../interfaces.js';
+import type { VisualizationRecord } from '../types.js';
+
+/**
+ * All visualization types share one table keyed by document and type
+ */
+export class SqliteVisualizationStore implements VisualizationStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async create(visualization: VisualizationRecord): Promise<void> {
+    this.put(visualization.documentId, visualization.visualizationType, visualization);
+  }
+
+  async findByDocumentIdAndType(
+    documentId: string,
+    visualizationType: string,
+  ): Promise<VisualizationRecord | null> {
+    const row = this.db
+      .prepare(
+        'SELECT data FROM visualizations WHERE document_id = ? AND visualization_type = ?',
+      )
+      .get(documentId, visualizationType);
+    return parseRow<VisualizationRecord>(row);
+  }
+
+  async update(
+    documentId: string,
+    visualizationType: string,
+    updates: Partial<VisualizationRecord>,
+  ): Promise<void> {
+    const apply = this.db.transaction(() => {
+      const existing = parseRow<VisualizationRecord>(
+        this.db
+          .prepare(
+            'SELECT data FROM visualizations WHERE document_id = ? AND visualization_type = ?',
+          )
+          .get(documentId, visualizationType),
+      );
+
+      this.put(documentId, visualizationType, {
+        ...existing,
+        visualizationType,
+        ...updates,
+        documentId,
+        updatedAt: new Date().toISOString(),
+      });
+    });
+
+    apply();
+  }
+
+  async delete(documentId: string, visualizationType: string): Promise<void> {
+    this.db
+      .prepare(
+        'DELETE FROM visualizations WHERE document_id = ? AND visualization_type = ?',
+      )
+      .run(documentId, visualizationType);
+  }
+
+  async deleteAllForDocument(documentId: string): Promise<void> {
+    this.db
+      .prepare('DELETE FROM visualizations WHERE document_id = ?')
+      .run(documentId);
+  }
+
+  private put(
+    documentId: string,
+    visualizationType: string,
+    record: Partial<VisualizationRecord>,
+  ): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO visualizations (document_id, visualization_type, data)
+         VALUES (?, ?, ?)`,
+      )
+      .run(documentId, visualizationType, JSON.stringify(record));
+  }
+}
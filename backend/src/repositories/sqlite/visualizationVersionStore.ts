@@ -0,0 +1,69 @@
+import { parseRow, parseRows } from './database.js';
+
+import type { SqliteDatabase } from './database.js';
+import type { VisualizationVersionStore } from '../interfaces.js';
+import type { VisualizationVersionRecord } from '../types.js';
+
+export class SqliteVisualizationVersionStore implements VisualizationVersionStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async append(version: VisualizationVersionRecord): Promise<boolean> {
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO visualization_versions
+           (document_id, visualization_type, version, data)
+         VALUES (?, ?, ?, ?)`,
+      )
+      .run(
+        version.documentId,
+        version.visualizationType,
+        version.version,
+        JSON.stringify(version),
+      );
+    return result.changes > 0;
+  }
+
+  async list(
+    documentId: string,
+    visualizationType: string,
+  ): Promise<VisualizationVersionRecord[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM visualization_versions
+         WHERE document_id = ? AND visualization_type = ?
+         ORDER BY version DESC`,
+      )
+      .all(documentId, visualizationType);
+    return parseRows<VisualizationVersionRecord>(rows);
+  }
+
+  async find(
+    documentId: string,
+    visualizationType: string,
+    version: number,
+  ): Promise<VisualizationVersionRecord | null> {
+    const row = this.db
+      .prepare(
+        `SELECT data FROM visualization_versions
+         WHERE document_id = ? AND visualization_type = ? AND version = ?`,
+      )
+      .get(documentId, visualizationType, version);
+    return parseRow<VisualizationVersionRecord>(row);
+  }
+
+  async latestVersion(documentId: string, visualizationType: string): Promise<number> {
+    const row = this.db
+      .prepare(
+        `SELECT MAX(version) AS version FROM visualization_versions
+         WHERE document_id = ? AND visualization_type = ?`,
+      )
+      .get(documentId, visualizationType) as { version: number | null };
+    return row.version ?? 0;
+  }
+
+  async deleteAllForDocument(documentId: string): Promise<void> {
+    this.db
+      .prepare('DELETE FROM visualization_versions WHERE document_id = ?')
+      .run(documentId);
+  }
+}
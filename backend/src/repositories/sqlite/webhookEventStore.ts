@@ -0,0 +1,22 @@
+import { parseRow } from './database.js';
+
+import type { SqliteDatabase } from './database.js';
+import type { WebhookEventStore } from '../interfaces.js';
+import type { WebhookEvent } from '../webhookEventRepository.js';
+
+export class SqliteWebhookEventStore implements WebhookEventStore {
+  constructor(private db: SqliteDatabase) {}
+
+  async findById(eventId: string): Promise<WebhookEvent | null> {
+    const row = this.db
+      .prepare('SELECT data FROM webhook_events WHERE event_id = ?')
+      .get(eventId);
+    return parseRow<WebhookEvent>(row);
+  }
+
+  async put(event: WebhookEvent): Promise<void> {
+    this.db
+      .prepare('INSERT OR REPLACE INTO webhook_events (event_id, data) VALUES (?, ?)')
+      .run(event.eventId, JSON.stringify(event));
+  }
+}
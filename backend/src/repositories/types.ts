@@ -1,4 +1,9 @@
-import type { DocumentAnalysis } from '../../shared/src/types.js';
+import type {
+  DocumentAnalysis,
+  LLMValidationFailure,
+  VisualizationPatchOperation,
+  VisualizationVersionSource,
+} from '../../shared/src/types.js';
 
 /**
  * Document metadata stored in DynamoDB
@@ -33,6 +38,8 @@ export interface AnalysisRecord {
     tokensUsed: number;
     processingTime: number;
     timestamp: string;
+    promptVersion?: string;
+    validationFailures?: LLMValidationFailure[];
   };
   createdAt: string;
 }
@@ -49,11 +56,27 @@ export interface VisualizationRecord {
     tokensUsed: number;
     processingTime: number;
     timestamp: string;
+    promptVersion?: string;
+    validationFailures?: LLMValidationFailure[];
   };
+  version?: number; // Latest entry in the version history
+  // Set once a user edits the visualization: visualizationData then holds the
+  // edited result, generatedData the LLM output the overrides apply to
+  generatedData?: any;
+  overrides?: VisualizationPatchOperation[];
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Immutable snapshot of a visualization, appended on every generation, edit and rollback
+ */
+export interface VisualizationVersionRecord extends VisualizationRecord {
+  version: number;
+  source: VisualizationVersionSource;
+  restoredFrom?: number;
+}
+
 /**
  * S3 upload result
  */
@@ -4,6 +4,11 @@ import { dynamoDBClient, DYNAMODB_UML_CLASS_TABLE } from '../config/aws.js';
 
 import type { VisualizationRecord } from './types.js';
 
+// The class, sequence and activity diagrams share this table, one row per
+// type. Class diagrams keep the sort key they were stored under before.
+const sortKey = (visualizationType: string) =>
+  (visualizationType === 'uml-class-diagram' ? 'UML_CLASS' : visualizationType);
+
 /**
  * Create new UML class diagram visualization record
  */
@@ -12,7 +17,7 @@ export async function create(umlClass: VisualizationRecord): Promise<void> {
     TableName: DYNAMODB_UML_CLASS_TABLE,
     Item: {
       ...umlClass,
-      SK: 'UML_CLASS',
+      SK: sortKey(umlClass.visualizationType),
     },
   });
 
@@ -20,14 +25,17 @@ export async function create(umlClass: VisualizationRecord): Promise<void> {
 }
 
 /**
- * Find UML class diagram by document ID
+ * Find a UML diagram of the given type by document ID
  */
-export async function findByDocumentId(documentId: string): Promise<VisualizationRecord | null> {
+export async function findByDocumentId(
+  documentId: string,
+  visualizationType: string,
+): Promise<VisualizationRecord | null> {
   const command = new GetCommand({
     TableName: DYNAMODB_UML_CLASS_TABLE,
     Key: {
       documentId,
-      SK: 'UML_CLASS',
+      SK: sortKey(visualizationType),
     },
   });
 
@@ -46,12 +54,14 @@ export async function findByDocumentId(documentId: string): Promise<Visualizatio
 export async function update(
   documentId: string,
   updates: Partial<VisualizationRecord>,
+  visualizationType: string,
 ): Promise<void> {
   const command = new PutCommand({
     TableName: DYNAMODB_UML_CLASS_TABLE,
     Item: {
       documentId,
-      SK: 'UML_CLASS',
+      visualizationType,
+      SK: sortKey(visualizationType),
       ...updates,
       updatedAt: new Date().toISOString(),
     },
@@ -61,14 +71,17 @@ export async function update(
 }
 
 /**
- * Delete UML class diagram record
+ * Delete the UML diagram record of the given type
  */
-export async function deleteUmlClass(documentId: string): Promise<void> {
+export async function deleteUmlClass(
+  documentId: string,
+  visualizationType: string,
+): Promise<void> {
   const command = new DeleteCommand({
     TableName: DYNAMODB_UML_CLASS_TABLE,
     Key: {
       documentId,
-      SK: 'UML_CLASS',
+      SK: sortKey(visualizationType),
     },
   });
 
@@ -1,12 +1,10 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import {
-  PutCommand,
-  GetCommand,
-  UpdateCommand,
-  QueryCommand,
-} from '@aws-sdk/lib-dynamodb';
+import { isSqliteStorage } from '../config/storage.js';
 
-import { env } from '../config/env.js';
+import { dynamoUsageLimitsStore } from './dynamodb/usageLimitsStore.js';
+import { getSqliteDatabase } from './sqlite/database.js';
+import { SqliteUsageLimitsStore } from './sqlite/usageLimitsStore.js';
+
+import type { UsageLimitsStore } from './interfaces.js';
 
 export interface UsageLimits {
   userId: string;
@@ -14,7 +12,9 @@ export interface UsageLimits {
   documentCount: number;
   analysisCount: number;
   apiCalls: number;
-  storageUsed: number; // in bytes
+  // LLM tokens and cost in USD; absent on records from before metering
+  llmTokens?: number;
+  llmCost?: number;
   resetDate: string;
   createdAt: string;
   updatedAt: string;
@@ -26,53 +26,20 @@ export interface UsageLimitsInput {
   documentCount?: number;
   analysisCount?: number;
   apiCalls?: number;
-  storageUsed?: number;
-}
-
-export interface UsageLimitConfig {
-  maxDocuments: number;
-  maxAnalyses: number;
-  maxApiCalls: number;
-  maxStorage: number; // in bytes
+  llmTokens?: number;
+  llmCost?: number;
 }
 
-const config = {
-  region: env.AWS_REGION || 'us-east-1',
-  credentials: {
-    accessKeyId: env.AWS_ACCESS_KEY_ID || '',
-    secretAccessKey: env.AWS_SECRET_ACCESS_KEY || '',
-  },
-};
-
-const dynamodb = new DynamoDBClient(config);
-const TABLE_NAME = 'vaisu-usage-limits';
-
-// Default usage limits
-const DEFAULT_LIMITS: UsageLimitConfig = {
-  maxDocuments: 100, // 100 documents per month
-  maxAnalyses: 500, // 500 analyses per month
-  maxApiCalls: 10000, // 10,000 API calls per month
-  maxStorage: 1024 * 1024 * 1024, // 1GB storage
-};
-
+// Counts usage only; what each plan allows is in config/plans and enforced by
+// middleware/usageEnforcement
 export class UsageLimitsRepository {
-  private defaultLimits: UsageLimitConfig;
-
-  constructor(limits?: UsageLimitConfig) {
-    this.defaultLimits = limits || DEFAULT_LIMITS;
-  }
+  constructor(private store: UsageLimitsStore) {}
 
   async getUsageLimits(
     userId: string,
     period: string,
   ): Promise<UsageLimits | null> {
-    const command = new GetCommand({
-      TableName: TABLE_NAME,
-      Key: { userId, period },
-    });
-
-    const result = await dynamodb.send(command);
-    return (result.Item as UsageLimits) || null;
+    return this.store.get(userId, period);
   }
 
   async getCurrentUsage(userId: string): Promise<UsageLimits | null> {
@@ -88,6 +55,12 @@ export class UsageLimitsRepository {
   }
 
   async createUsageLimits(input: UsageLimitsInput): Promise<UsageLimits> {
+    const usageLimits = this.buildUsageLimits(input);
+    await this.store.put(usageLimits);
+    return usageLimits;
+  }
+
+  private buildUsageLimits(input: UsageLimitsInput): UsageLimits {
     const now = new Date();
     const resetDate = new Date(now);
 
@@ -101,25 +74,18 @@ export class UsageLimitsRepository {
       resetDate.setDate(1);
     }
 
-    const usageLimits: UsageLimits = {
+    return {
       userId: input.userId,
       period: input.period,
       documentCount: input.documentCount || 0,
       analysisCount: input.analysisCount || 0,
       apiCalls: input.apiCalls || 0,
-      storageUsed: input.storageUsed || 0,
+      llmTokens: input.llmTokens || 0,
+      llmCost: input.llmCost || 0,
       resetDate: resetDate.toISOString(),
       createdAt: now.toISOString(),
       updatedAt: now.toISOString(),
     };
-
-    const command = new PutCommand({
-      TableName: TABLE_NAME,
-      Item: usageLimits,
-    });
-
-    await dynamodb.send(command);
-    return usageLimits;
   }
 
   async incrementDocumentCount(
@@ -134,20 +100,13 @@ export class UsageLimitsRepository {
       return this.createUsageLimits({ userId, period, documentCount: amount });
     }
 
-    const command = new UpdateCommand({
-      TableName: TABLE_NAME,
-      Key: { userId, period },
-      UpdateExpression:
-        'SET documentCount = documentCount + :amount, updatedAt = :updatedAt',
-      ExpressionAttributeValues: {
-        ':amount': amount,
-        ':updatedAt': now.toISOString(),
-      },
-      ReturnValues: 'ALL_NEW',
-    });
-
-    const result = await dynamodb.send(command);
-    return result.Attributes as UsageLimits;
+    return this.store.increment(
+      userId,
+      period,
+      'documentCount',
+      amount,
+      now.toISOString(),
+    );
   }
 
   async incrementAnalysisCount(
@@ -163,20 +122,13 @@ export class UsageLimitsRepository {
       return this.createUsageLimits({ userId, period, analysisCount: amount });
     }
 
-    const command = new UpdateCommand({
-      TableName: TABLE_NAME,
-      Key: { userId, period },
-      UpdateExpression:
-        'SET analysisCount = analysisCount + :amount, updatedAt = :updatedAt',
-      ExpressionAttributeValues: {
-        ':amount': amount,
-        ':updatedAt': now.toISOString(),
-      },
-      ReturnValues: 'ALL_NEW',
-    });
-
-    const result = await dynamodb.send(command);
-    return result.Attributes as UsageLimits;
+    return this.store.increment(
+      userId,
+      period,
+      'analysisCount',
+      amount,
+      now.toISOString(),
+    );
   }
 
   async incrementApiCalls(
@@ -191,78 +143,45 @@ export class UsageLimitsRepository {
       return this.createUsageLimits({ userId, period, apiCalls: amount });
     }
 
-    const command = new UpdateCommand({
-      TableName: TABLE_NAME,
-      Key: { userId, period },
-      UpdateExpression:
-        'SET apiCalls = apiCalls + :amount, updatedAt = :updatedAt',
-      ExpressionAttributeValues: {
-        ':amount': amount,
-        ':updatedAt': now.toISOString(),
-      },
-      ReturnValues: 'ALL_NEW',
-    });
-
-    const result = await dynamodb.send(command);
-    return result.Attributes as UsageLimits;
+    return this.store.increment(
+      userId,
+      period,
+      'apiCalls',
+      amount,
+      now.toISOString(),
+    );
   }
 
-  async incrementStorageUsed(
+  /**
+   * Count one metered LLM call with its tokens and cost against the current month
+   */
+  async incrementLLMUsage(
     userId: string,
-    bytes: number,
+    tokens: number,
+    cost: number,
   ): Promise<UsageLimits> {
     const now = new Date();
     const period = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
 
     const existing = await this.getUsageLimits(userId, period);
     if (!existing) {
-      return this.createUsageLimits({ userId, period, storageUsed: bytes });
-    }
-
-    const command = new UpdateCommand({
-      TableName: TABLE_NAME,
-      Key: { userId, period },
-      UpdateExpression:
-        'SET storageUsed = storageUsed + :bytes, updatedAt = :updatedAt',
-      ExpressionAttributeValues: {
-        ':bytes': bytes,
-        ':updatedAt': now.toISOString(),
-      },
-      ReturnValues: 'ALL_NEW',
-    });
-
-    const result = await dynamodb.send(command);
-    return result.Attributes as UsageLimits;
-  }
-
-  async checkLimits(
-    userId: string,
-    limits: UsageLimitConfig = this.defaultLimits,
-  ): Promise<{ allowed: boolean; exceeded: string[] }> {
-    const current = await this.getCurrentUsage(userId);
-    if (!current) {
-      return { allowed: true, exceeded: [] };
-    }
-
-    const exceeded: string[] = [];
-
-    if (current.documentCount >= limits.maxDocuments) {
-      exceeded.push('documents');
-    }
-    if (current.analysisCount >= limits.maxAnalyses) {
-      exceeded.push('analyses');
-    }
-    if (current.apiCalls >= limits.maxApiCalls) {
-      exceeded.push('api_calls');
-    }
-    if (current.storageUsed >= limits.maxStorage) {
-      exceeded.push('storage');
+      // Concurrent calls can all miss the record; only one creates it, the rest increment
+      const usage = this.buildUsageLimits({
+        userId,
+        period,
+        apiCalls: 1,
+        llmTokens: tokens,
+        llmCost: cost,
+      });
+      if (await this.store.create(usage)) {
+        return usage;
+      }
     }
 
-    return {
-      allowed: exceeded.length === 0,
-      exceeded,
-    };
+    const updatedAt = now.toISOString();
+    await this.store.increment(userId, period, 'apiCalls', 1, updatedAt);
+    await this.store.increment(userId, period, 'llmTokens', tokens, updatedAt);
+    return this.store.increment(userId, period, 'llmCost', cost, updatedAt);
   }
 
   async resetPeriodicUsage(): Promise<void> {
@@ -299,4 +218,8 @@ export class UsageLimitsRepository {
   }
 }
 
-export const usageLimitsRepository = new UsageLimitsRepository();
+export const usageLimitsRepository = new UsageLimitsRepository(
+  isSqliteStorage()
+    ? new SqliteUsageLimitsStore(getSqliteDatabase())
+    : dynamoUsageLimitsStore,
+);
@@ -1,16 +1,26 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import {
-  DynamoDBDocumentClient,
-  PutCommand,
-  GetCommand,
-  UpdateCommand,
-  QueryCommand,
-  DeleteCommand,
-} from '@aws-sdk/lib-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
 
-import { env } from '../config/env.js';
-import { calculateContentHash } from '../utils/hash.js';
+import { isSqliteStorage } from '../config/storage.js';
+
+import { dynamoUserStore } from './dynamodb/userStore.js';
+import { getSqliteDatabase } from './sqlite/database.js';
+import { SqliteUserStore } from './sqlite/userStore.js';
+
+import type { UserStore } from './interfaces.js';
+import type { PlanId } from '../../shared/src/types.js';
+
+export { dynamodb } from './dynamodb/userStore.js';
+
+// Subscription states as the billing provider (Stripe) reports them
+export type SubscriptionStatus =
+  | 'active'
+  | 'canceled'
+  | 'past_due'
+  | 'incomplete'
+  | 'incomplete_expired'
+  | 'trialing'
+  | 'unpaid'
+  | 'paused';
 
 export interface User {
   userId: string;
@@ -33,13 +43,15 @@ export interface User {
   deletedAt?: string;
   subscriptionProvider?: string;
   subscriptionId?: string;
-  subscriptionStatus?:
-    | 'active'
-    | 'canceled'
-    | 'past_due'
-    | 'incomplete'
-    | 'trialing';
+  subscriptionStatus?: SubscriptionStatus;
+  // Billing provider's customer, for its self-service portal
+  subscriptionCustomerId?: string;
   currentPeriodEnd?: string;
+  // The subscription ends at currentPeriodEnd instead of renewing
+  cancelAtPeriodEnd?: boolean;
+  trialEnd?: string;
+  // Paid plan the subscription is for; see config/plans
+  plan?: PlanId;
 }
 
 export interface CreateUserInput {
@@ -66,35 +78,20 @@ export interface UpdateUserInput {
   deletedAt?: string;
   subscriptionProvider?: string;
   subscriptionId?: string;
-  subscriptionStatus?:
-    | 'active'
-    | 'canceled'
-    | 'past_due'
-    | 'incomplete'
-    | 'trialing';
+  subscriptionStatus?: SubscriptionStatus;
+  // Billing provider's customer, for its self-service portal
+  subscriptionCustomerId?: string;
   currentPeriodEnd?: string;
+  // The subscription ends at currentPeriodEnd instead of renewing
+  cancelAtPeriodEnd?: boolean;
+  trialEnd?: string;
+  // Paid plan the subscription is for; see config/plans
+  plan?: PlanId;
 }
 
-const config = {
-  region: env.AWS_REGION || 'us-east-1',
-  credentials: {
-    accessKeyId: env.AWS_ACCESS_KEY_ID || '',
-    secretAccessKey: env.AWS_SECRET_ACCESS_KEY || '',
-  },
-};
-
-export const dynamodb = DynamoDBDocumentClient.from(
-  new DynamoDBClient(config),
-  {
-    marshallOptions: {
-      removeUndefinedValues: true,
-      convertClassInstanceToMap: true,
-    },
-  },
-);
-const TABLE_NAME = 'vaisu-users';
-
 export class UserRepository {
+  constructor(private store: UserStore) {}
+
   async createUser(input: CreateUserInput): Promise<User> {
     const userId = uuidv4();
     const now = new Date().toISOString();
@@ -114,26 +111,15 @@ export class UserRepository {
       updatedAt: now,
     };
 
-    const command = new PutCommand({
-      TableName: TABLE_NAME,
-      Item: user,
-    });
-
-    await dynamodb.send(command);
+    await this.store.put(user);
     return user;
   }
 
   async getUserById(userId: string): Promise<User | null> {
-    const command = new GetCommand({
-      TableName: TABLE_NAME,
-      Key: { userId },
-    });
-
-    const result = await dynamodb.send(command);
-    if (!result.Item) return null;
+    const user = (await this.store.findById(userId)) as any;
+    if (!user) return null;
 
     // Handle missing failedLoginAttempts for old records
-    const user = result.Item as any;
     if (typeof user.failedLoginAttempts === 'undefined') {
       user.failedLoginAttempts = 0;
     }
@@ -142,19 +128,9 @@ export class UserRepository {
   }
 
   async getUserByEmail(email: string): Promise<User | null> {
-    const command = new QueryCommand({
-      TableName: TABLE_NAME,
-      IndexName: 'GSI1',
-      KeyConditionExpression: 'email = :email',
-      ExpressionAttributeValues: {
-        ':email': email.toLowerCase(),
-      },
-    });
-
-    const result = await dynamodb.send(command);
-    if (result.Items && result.Items.length > 0) {
+    const user = (await this.store.findByEmail(email.toLowerCase())) as any;
+    if (user) {
       // Handle missing failedLoginAttempts for old records
-      const user = result.Items[0] as any;
       if (typeof user.failedLoginAttempts === 'undefined') {
         user.failedLoginAttempts = 0;
       }
@@ -164,39 +140,10 @@ export class UserRepository {
   }
 
   async updateUser(userId: string, updates: UpdateUserInput): Promise<User> {
-    const now = new Date().toISOString();
-    const updateFields: string[] = ['#updatedAt = :updatedAt'];
-    const expressionValues: Record<string, any> = {
-      ':updatedAt': now,
-    };
-    const expressionAttributeNames: Record<string, string> = {
-      '#updatedAt': 'updatedAt',
-    };
-
-    Object.entries(updates).forEach(([key, value]) => {
-      if (value !== undefined) {
-        const attrName = `#${key}`;
-        updateFields.push(`${attrName} = :${key}`);
-        expressionValues[`:${key}`] = value;
-        expressionAttributeNames[attrName] = key;
-      }
+    return this.store.update(userId, {
+      updatedAt: new Date().toISOString(),
+      ...updates,
     });
-
-    if (updateFields.length === 0) {
-      throw new Error('No fields to update');
-    }
-
-    const command = new UpdateCommand({
-      TableName: TABLE_NAME,
-      Key: { userId },
-      UpdateExpression: `SET ${updateFields.join(', ')}`,
-      ExpressionAttributeValues: expressionValues,
-      ExpressionAttributeNames: expressionAttributeNames,
-      ReturnValues: 'ALL_NEW',
-    });
-
-    const result = await dynamodb.send(command);
-    return result.Attributes as User;
   }
 
   async deleteUser(userId: string): Promise<void> {
@@ -208,25 +155,7 @@ export class UserRepository {
     limit: number = 100,
     startKey?: string,
   ): Promise<{ users: User[]; lastKey?: string }> {
-    const command = new QueryCommand({
-      TableName: TABLE_NAME,
-      IndexName: 'GSI2',
-      KeyConditionExpression: '#status = :status',
-      ExpressionAttributeNames: {
-        '#status': 'status',
-      },
-      ExpressionAttributeValues: {
-        ':status': 'active',
-      },
-      Limit: limit,
-      ExclusiveStartKey: startKey ? { userId: startKey } : undefined,
-    });
-
-    const result = await dynamodb.send(command);
-    return {
-      users: (result.Items as User[]) || [],
-      lastKey: result.LastEvaluatedKey?.userId as string,
-    };
+    return this.store.listByStatus('active', limit, startKey);
   }
 
   async verifyEmail(userId: string, token: string): Promise<boolean> {
@@ -302,4 +231,6 @@ export class UserRepository {
   }
 }
 
-export const userRepository = new UserRepository();
+export const userRepository = new UserRepository(
+  isSqliteStorage() ? new SqliteUserStore(getSqliteDatabase()) : dynamoUserStore,
+);
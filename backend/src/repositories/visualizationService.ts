@@ -1,41 +1,144 @@
-import * as analysisRepository from './analysisRepository.js';
-import * as argumentMapRepository from './argumentMapRepository.js';
-import * as depthGraphRepository from './depthGraphRepository.js';
-import * as entityGraphRepository from './entityGraphRepository.js';
-import * as executiveDashboardRepository from './executiveDashboardRepository.js';
-import * as flowchartRepository from './flowchartRepository.js';
-import * as knowledgeGraphRepository from './knowledgeGraphRepository.js';
-import * as mindMapRepository from './mindMapRepository.js';
-import * as structuredViewRepository from './structuredViewRepository.js';
-import * as termsDefinitionsRepository from './termsDefinitionsRepository.js';
-import * as timelineRepository from './timelineRepository.js';
-import * as umlClassRepository from './umlClassRepository.js';
-
-import type { VisualizationRecord } from './types.js';
+import { isSqliteStorage } from '../config/storage.js';
+
+import { dynamoVisualizationStore } from './dynamodb/visualizationStore.js';
+import { dynamoVisualizationVersionStore } from './dynamodb/visualizationVersionStore.js';
+import { getSqliteDatabase } from './sqlite/database.js';
+import { SqliteVisualizationStore } from './sqlite/visualizationStore.js';
+import { SqliteVisualizationVersionStore } from './sqlite/visualizationVersionStore.js';
+
+import type { VisualizationStore, VisualizationVersionStore } from './interfaces.js';
+import type { VisualizationRecord, VisualizationVersionRecord } from './types.js';
+import type { VisualizationVersionSource } from '../../shared/src/types.js';
+
+// Concurrent saves of one visualization race for the next version number
+const MAX_SAVE_ATTEMPTS = 5;
+
+// The current record a version snapshot stands for
+const fromSnapshot = (snapshot: VisualizationVersionRecord): VisualizationRecord => ({
+  documentId: snapshot.documentId,
+  visualizationType: snapshot.visualizationType,
+  visualizationData: snapshot.visualizationData,
+  generatedData: snapshot.generatedData,
+  overrides: snapshot.overrides,
+  llmMetadata: snapshot.llmMetadata,
+  version: snapshot.version,
+  createdAt: snapshot.createdAt,
+  updatedAt: snapshot.updatedAt,
+});
 
 /**
  * Visualization service that coordinates between individual repository types
  */
 export class VisualizationService {
+  constructor(
+    private store: VisualizationStore,
+    private versions: VisualizationVersionStore,
+  ) {}
+
   /**
    * Create visualization based on type
    */
   async create(visualization: VisualizationRecord): Promise<void> {
-    const repository = this.getRepositoryForType(
-      visualization.visualizationType,
+    await this.store.create(visualization);
+  }
+
+  /**
+   * Append the visualization to the version history, then store it as the
+   * current one. Returns the new version number. If storing the current record
+   * fails, the next read makes the newest version current.
+   */
+  async save(
+    visualization: VisualizationRecord,
+    source: VisualizationVersionSource,
+    restoredFrom?: number,
+  ): Promise<number> {
+    const { documentId, visualizationType } = visualization;
+
+    for (let attempt = 1; attempt <= MAX_SAVE_ATTEMPTS; attempt++) {
+      const version = (await this.versions.latestVersion(documentId, visualizationType)) + 1;
+      const record = { ...visualization, version };
+
+      const appended = await this.versions.append({
+        ...record,
+        source,
+        ...(restoredFrom !== undefined && { restoredFrom }),
+      });
+      if (appended) {
+        await this.store.create(record);
+        return version;
+      }
+    }
+
+    throw new Error(
+      `Could not save ${visualizationType} for ${documentId}: version taken ${MAX_SAVE_ATTEMPTS} times`,
     );
-    await repository.create(visualization);
   }
 
   /**
-   * Find visualization by document ID and type
+   * Version history for one visualization, newest first
+   */
+  async listVersions(
+    documentId: string,
+    visualizationType: string,
+  ): Promise<VisualizationVersionRecord[]> {
+    return await this.versions.list(documentId, visualizationType);
+  }
+
+  async findVersion(
+    documentId: string,
+    visualizationType: string,
+    version: number,
+  ): Promise<VisualizationVersionRecord | null> {
+    return await this.versions.find(documentId, visualizationType, version);
+  }
+
+  /**
+   * Make an earlier version current again. The rollback is itself appended
+   * as a new version, so no history is lost.
+   */
+  async rollback(
+    documentId: string,
+    visualizationType: string,
+    version: number,
+  ): Promise<VisualizationRecord | null> {
+    const snapshot = await this.versions.find(documentId, visualizationType, version);
+    if (!snapshot) {
+      return null;
+    }
+
+    const record: VisualizationRecord = {
+      ...fromSnapshot(snapshot),
+      updatedAt: new Date().toISOString(),
+    };
+    record.version = await this.save(record, 'rollback', version);
+    return record;
+  }
+
+  /**
+   * Find visualization by document ID and type. A version newer than the
+   * current record, left by a save that failed half-way, is made current.
    */
   async findByDocumentIdAndType(
     documentId: string,
     visualizationType: string,
   ): Promise<VisualizationRecord | null> {
-    const repository = this.getRepositoryForType(visualizationType);
-    return await repository.findByDocumentId(documentId);
+    const current = await this.store.findByDocumentIdAndType(documentId, visualizationType);
+    const latest = await this.versions.latestVersion(documentId, visualizationType);
+    if (!latest || latest <= (current?.version ?? 0)) {
+      return current;
+    }
+
+    const snapshot = await this.versions.find(documentId, visualizationType, latest);
+    if (!snapshot) {
+      return current;
+    }
+    const record = fromSnapshot(snapshot);
+    try {
+      await this.store.create(record);
+    } catch (error) {
+      console.warn(`Failed to restore ${visualizationType} version ${latest} as current:`, error);
+    }
+    return record;
   }
 
   /**
@@ -66,8 +169,10 @@ export class VisualizationService {
 
     for (const type of types) {
       try {
-        const repository = this.getRepositoryForType(type);
-        const visualization = await repository.findByDocumentId(documentId);
+        const visualization = await this.store.findByDocumentIdAndType(
+          documentId,
+          type,
+        );
         if (visualization) {
           results.push(visualization);
         }
@@ -88,8 +193,7 @@ export class VisualizationService {
     visualizationType: string,
     updates: Partial<VisualizationRecord>,
   ): Promise<void> {
-    const repository = this.getRepositoryForType(visualizationType);
-    await repository.update(documentId, updates);
+    await this.store.update(documentId, visualizationType, updates);
   }
 
   /**
@@ -99,113 +203,22 @@ export class VisualizationService {
     documentId: string,
     visualizationType: string,
   ): Promise<void> {
-    const repository = this.getRepositoryForType(visualizationType);
-    switch (visualizationType) {
-      case 'structured-view':
-        await repository.deleteVisualization(documentId);
-        break;
-      case 'argument-map':
-        await repository.deleteArgumentMap(documentId);
-        break;
-      case 'depth-graph':
-        await repository.deleteDepthGraph(documentId);
-        break;
-      case 'entity-graph':
-        await repository.deleteEntityGraph(documentId);
-        break;
-      case 'uml-class':
-        await repository.deleteUmlClass(documentId);
-        break;
-      case 'uml-class-diagram':
-        await repository.deleteUmlClass(documentId);
-        break;
-      case 'uml-sequence':
-        await repository.deleteUmlClass(documentId);
-        break;
-      case 'uml-activity':
-        await repository.deleteUmlClass(documentId);
-        break;
-      case 'mind-map':
-        await repository.deleteMindMap(documentId);
-        break;
-      case 'flowchart':
-        await repository.deleteFlowchart(documentId);
-        break;
-      case 'executive-dashboard':
-        await repository.deleteExecutiveDashboard(documentId);
-        break;
-      case 'timeline':
-        await repository.deleteTimeline(documentId);
-        break;
-      case 'knowledge-graph':
-        await repository.deleteKnowledgeGraph(documentId);
-        break;
-      case 'terms-definitions':
-        await repository.deleteTermsDefinitions(documentId);
-        break;
-      case 'gantt':
-        await repository.deleteGantt(documentId);
-        break;
-      case 'comparison-matrix':
-        await repository.deleteComparisonMatrix(documentId);
-        break;
-      case 'priority-matrix':
-        await repository.deletePriorityMatrix(documentId);
-        break;
-      case 'raci-matrix':
-        await repository.deleteRaciMatrix(documentId);
-        break;
-      default:
-        throw new Error(`Unknown visualization type: ${visualizationType}`);
-    }
+    await this.store.delete(documentId, visualizationType);
   }
 
   /**
-   * Get the appropriate repository for a visualization type
+   * Delete every visualization stored for a document
    */
-  private getRepositoryForType(type: string): any {
-    switch (type) {
-      case 'structured-view':
-        return structuredViewRepository; // Use dedicated repository
-      case 'argument-map':
-        return argumentMapRepository;
-      case 'depth-graph':
-        return depthGraphRepository;
-      case 'entity-graph':
-        return entityGraphRepository;
-      case 'uml-class':
-        return umlClassRepository;
-      case 'uml-class-diagram':
-        return umlClassRepository; // Maps to same repository as uml-class
-      case 'uml-sequence':
-        return umlClassRepository; // Maps to same repository as uml-class
-      case 'uml-activity':
-        return umlClassRepository; // Maps to same repository as uml-class
-      case 'mind-map':
-        return mindMapRepository;
-      case 'flowchart':
-        return flowchartRepository;
-      case 'knowledge-graph':
-        return knowledgeGraphRepository; // Use knowledge graph repository for knowledge-graph
-      case 'executive-dashboard':
-        return executiveDashboardRepository;
-      case 'timeline':
-        return timelineRepository;
-      case 'terms-definitions':
-        return termsDefinitionsRepository;
-      case 'gantt':
-        return analysisRepository; // Use analysis repository for gantt
-      case 'comparison-matrix':
-        return analysisRepository; // Use analysis repository for comparison-matrix
-      case 'priority-matrix':
-        return analysisRepository; // Use analysis repository for priority-matrix
-      case 'raci-matrix':
-        return analysisRepository; // Use analysis repository for raci-matrix
-      default:
-        throw new Error(`Unknown visualization type: ${type}`);
-    }
+  async deleteAllForDocument(documentId: string): Promise<void> {
+    await this.store.deleteAllForDocument(documentId);
+    await this.versions.deleteAllForDocument(documentId);
   }
 }
 
 // Export singleton instance
-export const visualizationService = new VisualizationService();
+export const visualizationService = isSqliteStorage()
+  ? new VisualizationService(
+    new SqliteVisualizationStore(getSqliteDatabase()),
+    new SqliteVisualizationVersionStore(getSqliteDatabase()),
+  )
+  : new VisualizationService(dynamoVisualizationStore, dynamoVisualizationVersionStore);
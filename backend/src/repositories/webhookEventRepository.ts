@@ -0,0 +1,42 @@
+import { isSqliteStorage } from '../config/storage.js';
+
+import { dynamoWebhookEventStore } from './dynamodb/webhookEventStore.js';
+import { getSqliteDatabase } from './sqlite/database.js';
+import { SqliteWebhookEventStore } from './sqlite/webhookEventStore.js';
+
+import type { WebhookEventStore } from './interfaces.js';
+
+/**
+ * A billing webhook event that was handled. Providers deliver events at least
+ * once, so handlers skip the ids recorded here.
+ */
+export interface WebhookEvent {
+  eventId: string;
+  type: string;
+  processedAt: string;
+}
+
+export class WebhookEventRepository {
+  constructor(private store: WebhookEventStore) {}
+
+  async isProcessed(eventId: string): Promise<boolean> {
+    return (await this.store.findById(eventId)) !== null;
+  }
+
+  async markProcessed(eventId: string, type: string): Promise<WebhookEvent> {
+    const event: WebhookEvent = {
+      eventId,
+      type,
+      processedAt: new Date().toISOString(),
+    };
+
+    await this.store.put(event);
+    return event;
+  }
+}
+
+export const webhookEventRepository = new WebhookEventRepository(
+  isSqliteStorage()
+    ? new SqliteWebhookEventStore(getSqliteDatabase())
+    : dynamoWebhookEventStore,
+);
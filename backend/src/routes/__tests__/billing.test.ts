@@ -0,0 +1,105 @@
+import express from "express";
+import request from "supertest";
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from "vitest";
+
+import billingRouter from "../billing";
+import { userRepository } from "../../repositories/userRepository.js";
+import { generateTestToken } from "../../../../test/utils/auth";
+
+// Local fake of the Stripe API; vi.hoisted starts it before the Stripe client is created
+const fakeStripe = await vi.hoisted(async () => {
+  const { startFakeStripe } = await import("../../../../test/mocks/fakeStripeServer");
+  const fake = await startFakeStripe();
+  process.env.STRIPE_API_URL = fake.url;
+  return fake;
+});
+
+vi.mock("../../repositories/userRepository.js");
+
+describe("Billing Routes", () => {
+  let app: express.Application;
+  const token = generateTestToken("user-1", "user-1@example.com");
+
+  const mockUser = (overrides: Record<string, any> = {}) => {
+    vi.mocked(userRepository.getUserById).mockResolvedValue({
+      userId: "user-1",
+      email: "user-1@example.com",
+      status: "active",
+      ...overrides,
+    } as any);
+  };
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/api/billing", billingRouter);
+  });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    fakeStripe.reset();
+  });
+
+  afterAll(async () => {
+    await fakeStripe.close();
+  });
+
+  describe("POST /api/billing/checkout-session", () => {
+    it("returns the checkout URL", async () => {
+      mockUser();
+
+      const response = await request(app)
+        .post("/api/billing/checkout-session")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ plan: "pro" })
+        .expect(200);
+
+      expect(response.body.url).toMatch(/^https:\/\/checkout\.stripe\.test\//);
+    });
+
+    it("rejects plans that are not sold through checkout", async () => {
+      mockUser();
+
+      await request(app)
+        .post("/api/billing/checkout-session")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ plan: "enterprise" })
+        .expect(400);
+    });
+  });
+
+  describe("POST /api/billing/portal-session", () => {
+    it("opens the customer portal for the user's Stripe customer", async () => {
+      mockUser({ subscriptionProvider: "stripe", subscriptionCustomerId: "cus_1" });
+
+      const response = await request(app)
+        .post("/api/billing/portal-session")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.url).toMatch(/^https:\/\/billing\.stripe\.test\//);
+      expect(fakeStripe.requests).toEqual([
+        expect.objectContaining({
+          path: "/v1/billing_portal/sessions",
+          params: expect.objectContaining({ customer: "cus_1" }),
+        }),
+      ]);
+    });
+
+    it("returns 400 for users who never subscribed", async () => {
+      mockUser();
+
+      const response = await request(app)
+        .post("/api/billing/portal-session")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(400);
+
+      expect(response.body).toEqual({ error: "No billing account to manage" });
+      expect(fakeStripe.requests).toHaveLength(0);
+    });
+
+    it("requires authentication", async () => {
+      await request(app).post("/api/billing/portal-session").expect(401);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { documentsRouter, documents, documentOwners, analyses } from '../documents.js';
+import { generateTestToken } from '../../../../test/utils/auth.js';
+import { userRepository } from '../../repositories/userRepository.js';
+import { documentComparisonService } from '../../services/comparison/documentComparison.js';
+import { documentParser } from '../../services/documentParser.js';
+
+vi.mock('../../repositories/documentRepository.js', () => ({
+  findById: vi.fn().mockResolvedValue(null),
+  updateAccessMetadata: vi.fn().mockResolvedValue({}),
+}));
+
+vi.mock('../../repositories/analysisRepository.js', () => ({
+  findByDocumentId: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock('../../repositories/userRepository.js');
+
+vi.mock('../../repositories/usageLimitsRepository.js', () => ({
+  usageLimitsRepository: {
+    incrementAnalysisCount: vi.fn().mockResolvedValue({}),
+    getDailyUsage: vi.fn().mockResolvedValue({ analysisCount: 0 }),
+    checkStorageLimit: vi.fn().mockResolvedValue(true),
+  },
+}));
+
+const VERSION_1 = '# Plan\n\n## Budget\n\nThe project has a total budget of 2.5 million USD.';
+const VERSION_2 = '# Plan\n\n## Budget\n\nThe project has a total budget of 3 million USD.';
+
+describe('Documents API - Compare', () => {
+  let app: express.Application;
+  const token = generateTestToken('compare-user');
+  const otherToken = generateTestToken('someone-else');
+
+  beforeEach(async () => {
+    documents.clear();
+    documentOwners.clear();
+    analyses.clear();
+
+    for (const [id, content] of [['doc-v1', VERSION_1], ['doc-v2', VERSION_2]]) {
+      const document = await documentParser.parseText(content, id);
+      document.id = id;
+      documents.set(id, document);
+      documentOwners.set(id, 'compare-user');
+    }
+    analyses.set('doc-v2', {
+      entities: [{ id: 'e1', text: 'Budget', type: 'concept', mentions: [], importance: 0.8 }],
+      relationships: [],
+    } as any);
+
+    (documentComparisonService as any)._llmClient = {
+      callWithFallback: vi.fn().mockResolvedValue({
+        content: JSON.stringify({
+          summaries: [{ id: 1, summary: 'The budget rises to 3 million USD.' }],
+        }),
+        tokensUsed: 50,
+        model: 'test-model',
+      }),
+      parseJSONResponse: vi.fn((response: any) => JSON.parse(response.content)),
+    };
+
+    vi.mocked(userRepository.getUserById).mockImplementation(async (userId: string) => ({
+      userId,
+      email: `${userId}@example.com`,
+      status: 'active',
+    }) as any);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/documents', documentsRouter);
+  });
+
+  it('compares two documents', async () => {
+    const response = await request(app)
+      .post('/api/documents/compare')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ leftDocumentId: 'doc-v1', rightDocumentId: 'doc-v2' })
+      .expect(200);
+
+    expect(response.body.left.documentId).toBe('doc-v1');
+    expect(response.body.right.documentId).toBe('doc-v2');
+
+    const budget = response.body.sections.find((s: any) => s.rightTitle === 'Budget');
+    expect(budget).toMatchObject({ change: 'modified', summary: 'The budget rises to 3 million USD.' });
+    expect(response.body.entities).toMatchObject([{ change: 'added', text: 'Budget' }]);
+    expect(response.body.matrix.rows.length).toBeGreaterThan(0);
+  });
+
+  it('requires two different document ids', async () => {
+    await request(app)
+      .post('/api/documents/compare')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ leftDocumentId: 'doc-v1' })
+      .expect(400);
+
+    await request(app)
+      .post('/api/documents/compare')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ leftDocumentId: 'doc-v1', rightDocumentId: 'doc-v1' })
+      .expect(400);
+  });
+
+  it('does not compare documents owned by another user', async () => {
+    await request(app)
+      .post('/api/documents/compare')
+      .set('Authorization', `Bearer ${otherToken}`)
+      .send({ leftDocumentId: 'doc-v1', rightDocumentId: 'doc-v2' })
+      .expect(404);
+  });
+});
@@ -0,0 +1,205 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { documentsRouter, documents, documentOwners, analyses } from '../documents.js';
+import { generateTestToken } from '../../../../test/utils/auth.js';
+import * as analysisRepository from '../../repositories/analysisRepository.js';
+import { auditLogsRepository } from '../../repositories/auditLogsRepository.js';
+import * as documentRepository from '../../repositories/documentRepository.js';
+import { userRepository } from '../../repositories/userRepository.js';
+import { visualizationService } from '../../repositories/visualizationService.js';
+import { documentParser } from '../../services/documentParser.js';
+import * as s3Storage from '../../services/storage/s3Storage.js';
+
+import type { DocumentRecord } from '../../repositories/types.js';
+
+vi.mock('../../repositories/documentRepository.js', () => ({
+  findById: vi.fn(),
+  findByContentHash: vi.fn(),
+  deleteDocument: vi.fn(),
+}));
+
+vi.mock('../../repositories/analysisRepository.js', () => ({
+  deleteAnalysis: vi.fn(),
+}));
+
+vi.mock('../../repositories/visualizationService.js', () => ({
+  visualizationService: {
+    deleteAllForDocument: vi.fn(),
+  },
+}));
+
+vi.mock('../../repositories/auditLogsRepository.js', () => ({
+  auditLogsRepository: {
+    logDocumentDeletion: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/storage/s3Storage.js', () => ({
+  deleteDocument: vi.fn(),
+}));
+
+vi.mock('../../repositories/userRepository.js');
+
+vi.mock('../../repositories/usageLimitsRepository.js', () => ({
+  usageLimitsRepository: {
+    getDailyUsage: vi.fn().mockResolvedValue({ analysisCount: 0 }),
+  },
+}));
+
+const record = (documentId: string, userId: string): DocumentRecord => ({
+  documentId,
+  userId,
+  contentHash: `hash-${documentId}`,
+  filename: `${documentId}.txt`,
+  s3Path: `s3://bucket/documents/hash-${documentId}/${documentId}.txt`,
+  s3Bucket: 'bucket',
+  s3Key: `documents/hash-${documentId}/${documentId}.txt`,
+  contentType: 'txt',
+  fileSize: 2048,
+  wordCount: 300,
+  uploadedAt: '2026-01-01T00:00:00.000Z',
+  lastAccessedAt: '2026-01-01T00:00:00.000Z',
+  accessCount: 1,
+});
+
+describe('Documents API - Delete', () => {
+  let app: express.Application;
+  const token = generateTestToken('delete-user');
+  const otherToken = generateTestToken('someone-else');
+  let stored: Map<string, DocumentRecord>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    documents.clear();
+    documentOwners.clear();
+    analyses.clear();
+
+    stored = new Map([
+      ['doc-a', record('doc-a', 'delete-user')],
+      ['doc-b', record('doc-b', 'delete-user')],
+    ]);
+    vi.mocked(documentRepository.findById).mockImplementation(
+      async (id: string) => stored.get(id) || null,
+    );
+    vi.mocked(documentRepository.findByContentHash).mockImplementation(async (hash: string) =>
+      Array.from(stored.values()).filter((doc) => doc.contentHash === hash));
+
+    const document = await documentParser.parseText('# Plan\n\nConfidential.', 'Plan');
+    document.id = 'doc-a';
+    documents.set('doc-a', document);
+    documentOwners.set('doc-a', 'delete-user');
+    analyses.set('doc-a', { tldr: { text: 'Plan' } } as any);
+
+    vi.mocked(userRepository.getUserById).mockImplementation(async (userId: string) => ({
+      userId,
+      email: `${userId}@example.com`,
+      status: 'active',
+    }) as any);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/documents', documentsRouter);
+  });
+
+  it('deletes the document, its derived records and the S3 object', async () => {
+    await request(app)
+      .delete('/api/documents/doc-a')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(204);
+
+    expect(visualizationService.deleteAllForDocument).toHaveBeenCalledWith('doc-a');
+    expect(analysisRepository.deleteAnalysis).toHaveBeenCalledWith('doc-a');
+    expect(s3Storage.deleteDocument).toHaveBeenCalledWith('documents/hash-doc-a/doc-a.txt');
+    expect(documentRepository.deleteDocument).toHaveBeenCalledWith('doc-a');
+    expect(auditLogsRepository.logDocumentDeletion).toHaveBeenCalledWith(
+      'delete-user',
+      'doc-a',
+      'doc-a.txt',
+      expect.anything(),
+      undefined,
+    );
+    expect(documents.has('doc-a')).toBe(false);
+    expect(documentOwners.has('doc-a')).toBe(false);
+    expect(analyses.has('doc-a')).toBe(false);
+  });
+
+  it('keeps the S3 object while another record points at the same key', async () => {
+    stored.set('doc-copy', {
+      ...record('doc-copy', 'someone-else'),
+      contentHash: 'hash-doc-a',
+      s3Key: 'documents/hash-doc-a/doc-a.txt',
+    });
+
+    await request(app)
+      .delete('/api/documents/doc-a')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(204);
+
+    expect(s3Storage.deleteDocument).not.toHaveBeenCalled();
+    expect(documentRepository.deleteDocument).toHaveBeenCalledWith('doc-a');
+  });
+
+  it('deletes the S3 object when a record with the same hash uses another filename', async () => {
+    stored.set('doc-copy', {
+      ...record('doc-copy', 'someone-else'),
+      contentHash: 'hash-doc-a',
+      s3Key: 'documents/hash-doc-a/doc-copy.txt',
+    });
+
+    await request(app)
+      .delete('/api/documents/doc-a')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(204);
+
+    expect(s3Storage.deleteDocument).toHaveBeenCalledWith('documents/hash-doc-a/doc-a.txt');
+  });
+
+  it("returns 404 for another user's document", async () => {
+    const response = await request(app)
+      .delete('/api/documents/doc-a')
+      .set('Authorization', `Bearer ${otherToken}`)
+      .expect(404);
+
+    expect(response.body.error).toBe('Document not found');
+    expect(documentRepository.deleteDocument).not.toHaveBeenCalled();
+    expect(documents.has('doc-a')).toBe(true);
+  });
+
+  it('succeeds when only the audit log write fails', async () => {
+    vi.mocked(auditLogsRepository.logDocumentDeletion).mockRejectedValueOnce(new Error('no table'));
+
+    await request(app)
+      .delete('/api/documents/doc-a')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(204);
+
+    expect(documentRepository.deleteDocument).toHaveBeenCalledWith('doc-a');
+  });
+
+  it('bulk deletes owned documents and reports the rest as not found', async () => {
+    stored.set('doc-other', record('doc-other', 'someone-else'));
+
+    const response = await request(app)
+      .post('/api/documents/bulk-delete')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ documentIds: ['doc-a', 'doc-b', 'doc-other', 'missing', 'doc-a'] })
+      .expect(200);
+
+    expect(response.body).toEqual({
+      deleted: ['doc-a', 'doc-b'],
+      notFound: ['doc-other', 'missing'],
+      failed: [],
+    });
+    expect(documentRepository.deleteDocument).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a bulk delete without document ids', async () => {
+    await request(app)
+      .post('/api/documents/bulk-delete')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ documentIds: [] })
+      .expect(400);
+  });
+});
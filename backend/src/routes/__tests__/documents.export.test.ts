@@ -0,0 +1,167 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { documentsRouter, documents, documentOwners } from '../documents.js';
+import { generateTestToken } from '../../../../test/utils/auth.js';
+import { userRepository } from '../../repositories/userRepository.js';
+import { visualizationService } from '../../repositories/visualizationService.js';
+import { documentParser } from '../../services/documentParser.js';
+
+vi.mock('../../repositories/documentRepository.js', () => ({
+  findById: vi.fn().mockResolvedValue(null),
+  updateAccessMetadata: vi.fn().mockResolvedValue({}),
+}));
+
+vi.mock('../../repositories/analysisRepository.js', () => ({
+  findByDocumentId: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock('../../repositories/visualizationService.js', () => ({
+  visualizationService: {
+    findByDocumentIdAndType: vi.fn(),
+  },
+}));
+
+vi.mock('../../repositories/userRepository.js');
+
+vi.mock('../../repositories/usageLimitsRepository.js', () => ({
+  usageLimitsRepository: {
+    incrementAnalysisCount: vi.fn().mockResolvedValue({}),
+    getDailyUsage: vi.fn().mockResolvedValue({ analysisCount: 0 }),
+    checkStorageLimit: vi.fn().mockResolvedValue(true),
+  },
+}));
+
+const MIND_MAP = {
+  documentId: 'doc-export',
+  visualizationType: 'mind-map',
+  visualizationData: {
+    root: { id: 'root', label: 'Plan', children: [{ id: 'c1', label: 'Budget', children: [] }] },
+  },
+  llmMetadata: { model: 'test-model', tokensUsed: 10, processingTime: 5, timestamp: '' },
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('Documents API - Export', () => {
+  let app: express.Application;
+  const token = generateTestToken('export-user');
+  const otherToken = generateTestToken('someone-else');
+
+  beforeEach(async () => {
+    documents.clear();
+    documentOwners.clear();
+
+    const document = await documentParser.parseText('# Plan\n\n## Budget\n\nTwo million.', 'Plan');
+    document.id = 'doc-export';
+    document.title = 'Plan';
+    documents.set('doc-export', document);
+    documentOwners.set('doc-export', 'export-user');
+
+    vi.mocked(visualizationService.findByDocumentIdAndType).mockImplementation(
+      async (_id: string, type: string) => (type === 'mind-map' ? MIND_MAP : null) as any,
+    );
+
+    vi.mocked(userRepository.getUserById).mockImplementation(async (userId: string) => ({
+      userId,
+      email: `${userId}@example.com`,
+      status: 'active',
+    }) as any);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/documents', documentsRouter);
+  });
+
+  it('downloads a stored visualization as an SVG attachment', async () => {
+    const response = await request(app)
+      .post('/api/documents/doc-export/export')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ format: 'svg', visualizationType: 'mind-map' })
+      .expect(200);
+
+    expect(response.headers['content-type']).toContain('image/svg+xml');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="plan-mind-map.svg"');
+    expect(response.body.toString()).toContain('Budget');
+  });
+
+  it('builds a pptx deck from the selected visualizations', async () => {
+    const response = await request(app)
+      .post('/api/documents/doc-export/export')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ format: 'pptx', visualizationTypes: ['mind-map'] })
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      })
+      .expect(200);
+
+    expect(response.headers['content-disposition']).toContain('plan-deck.pptx');
+    expect((response.body as Buffer).subarray(0, 2).toString('ascii')).toBe('PK');
+  });
+
+  it('validates the format and visualization type', async () => {
+    await request(app)
+      .post('/api/documents/doc-export/export')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ format: 'docx', visualizationType: 'mind-map' })
+      .expect(400);
+
+    await request(app)
+      .post('/api/documents/doc-export/export')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ format: 'png' })
+      .expect(400);
+  });
+
+  it('only offers diagram-as-code formats for diagrams', async () => {
+    const response = await request(app)
+      .post('/api/documents/doc-export/export')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ format: 'plantuml', visualizationType: 'gantt' })
+      .expect(400);
+
+    expect(response.body.error).toBe(
+      'Visualization type must be one of: uml-sequence, uml-activity, flowchart, uml-class-diagram, knowledge-graph, mind-map, argument-map',
+    );
+  });
+
+  it('downloads a mind map as GraphML', async () => {
+    const response = await request(app)
+      .post('/api/documents/doc-export/export')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ format: 'graphml', visualizationType: 'mind-map' })
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks).toString('utf-8')));
+      })
+      .expect(200);
+
+    expect(response.headers['content-type']).toContain('application/graphml+xml');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="plan-mind-map.graphml"');
+    expect(response.body).toContain('<edge id="edge-0" source="root" target="c1">');
+  });
+
+  it('returns 404 for visualizations that were never generated', async () => {
+    const response = await request(app)
+      .post('/api/documents/doc-export/export')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ format: 'csv', visualizationType: 'flowchart' })
+      .expect(404);
+
+    expect(response.body.error).toContain('flowchart');
+  });
+
+  it('does not export documents owned by another user', async () => {
+    await request(app)
+      .post('/api/documents/doc-export/export')
+      .set('Authorization', `Bearer ${otherToken}`)
+      .send({ format: 'json', visualizationType: 'mind-map' })
+      .expect(404);
+  });
+});
@@ -0,0 +1,113 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { documentsRouter } from '../documents.js';
+import { generateTestToken } from '../../../../test/utils/auth.js';
+import * as documentRepository from '../../repositories/documentRepository.js';
+import { userRepository } from '../../repositories/userRepository.js';
+import { visualizationService } from '../../repositories/visualizationService.js';
+
+vi.mock('../../repositories/documentRepository.js', () => ({
+  findById: vi.fn(),
+}));
+
+vi.mock('../../repositories/visualizationService.js', () => ({
+  visualizationService: {
+    save: vi.fn(),
+  },
+}));
+
+vi.mock('../../repositories/userRepository.js');
+
+describe('Documents API - Visualization import', () => {
+  let app: express.Application;
+  const token = generateTestToken('import-user');
+  const otherToken = generateTestToken('someone-else');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(documentRepository.findById).mockImplementation(async (id: string) =>
+      (id === 'doc-a' ? { documentId: 'doc-a', userId: 'import-user' } as any : null));
+    vi.mocked(visualizationService.save).mockResolvedValue(3);
+    vi.mocked(userRepository.getUserById).mockImplementation(async (userId: string) => ({
+      userId,
+      email: `${userId}@example.com`,
+      status: 'active',
+    }) as any);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/documents', documentsRouter);
+  });
+
+  it('stores a Mermaid flowchart as a new version', async () => {
+    const response = await request(app)
+      .post('/api/documents/doc-a/visualizations/import')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ source: 'flowchart LR\n  A([Start]) --> B[Review] --> C([Done])' })
+      .expect(200);
+
+    expect(response.body).toMatchObject({ type: 'flowchart', version: 3, warnings: [] });
+    expect(response.body.data.nodes.map((node: any) => node.type)).toEqual(['start', 'process', 'end']);
+
+    const [record, source] = vi.mocked(visualizationService.save).mock.calls[0];
+    expect(source).toBe('import');
+    expect(record).toMatchObject({
+      documentId: 'doc-a',
+      visualizationType: 'flowchart',
+      overrides: [],
+      llmMetadata: { model: 'import', tokensUsed: 0 },
+    });
+    expect(record.generatedData).toBe(record.visualizationData);
+  });
+
+  it('honours an explicit PlantUML format', async () => {
+    const response = await request(app)
+      .post('/api/documents/doc-a/visualizations/import')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ format: 'plantuml', source: '@startmindmap\n* Plan\n** Budget\n@endmindmap' })
+      .expect(200);
+
+    expect(response.body.type).toBe('mind-map');
+    expect(response.body.data.root.children[0].label).toBe('Budget');
+  });
+
+  it('validates the request body', async () => {
+    await request(app)
+      .post('/api/documents/doc-a/visualizations/import')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ source: '   ' })
+      .expect(400);
+
+    const response = await request(app)
+      .post('/api/documents/doc-a/visualizations/import')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ format: 'dot', source: 'digraph { a -> b }' })
+      .expect(400);
+
+    expect(response.body.error).toBe('Format must be one of: mermaid, plantuml');
+  });
+
+  it('reports sources it cannot read as 422', async () => {
+    const response = await request(app)
+      .post('/api/documents/doc-a/visualizations/import')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ source: 'pie title Pets\n  "Dogs" : 3' })
+      .expect(422);
+
+    expect(response.body.error).toContain('Unsupported Mermaid diagram "pie"');
+    expect(visualizationService.save).not.toHaveBeenCalled();
+  });
+
+  it('does not import into documents owned by another user', async () => {
+    await request(app)
+      .post('/api/documents/doc-a/visualizations/import')
+      .set('Authorization', `Bearer ${otherToken}`)
+      .send({ source: 'flowchart TD\n  A --> B' })
+      .expect(404);
+
+    expect(visualizationService.save).not.toHaveBeenCalled();
+  });
+});
@@ -20,7 +20,7 @@ vi.mock('../../repositories/usageLimitsRepository.js', () => ({
 
 // Mock documentRepository for checkStorageLimit
 vi.mock('../../repositories/documentRepository.js', () => ({
-  countByUserId: vi.fn().mockResolvedValue(0),
+  findAllByUserId: vi.fn().mockResolvedValue([]),
   // Add other exports that might be needed
   findByHashAndFilename: vi.fn().mockResolvedValue(null),
   create: vi.fn().mockResolvedValue({}),
@@ -147,17 +147,18 @@ describe('Documents API Integration Tests', () => {
       expect(response.body).toHaveProperty('error');
     });
 
-    it('should reject oversized files', async () => {
-      const largeBuffer = Buffer.alloc(1100 * 1024 * 1024); // 1.1GB (exceeds 1GB limit)
+    it('should reject files over the plan size while they are received', async () => {
+      const largeBuffer = Buffer.alloc(11 * 1024 * 1024); // 11MB (exceeds the free plan's 10MB)
 
       const response = await request(app)
         .post('/api/documents/upload')
         .set('Authorization', `Bearer ${token}`)
         .attach('file', largeBuffer, 'large.txt')
-        .expect(413);
+        .expect(402);
 
-      expect(response.body).toHaveProperty('error');
-      expect(response.body.error).toContain('1GB');
+      expect(response.body.code).toBe('DOCUMENT_TOO_LARGE');
+      expect(response.body.details).toEqual({ limit: 10 * 1024 * 1024 });
+      expect(response.body.upgrade.id).toBe('pro');
     });
   });
 
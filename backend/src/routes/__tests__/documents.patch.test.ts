@@ -0,0 +1,151 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { documentsRouter } from '../documents.js';
+import { generateTestToken } from '../../../../test/utils/auth.js';
+import * as documentRepository from '../../repositories/documentRepository.js';
+import { userRepository } from '../../repositories/userRepository.js';
+import { visualizationService } from '../../repositories/visualizationService.js';
+
+import type { VisualizationRecord } from '../../repositories/types.js';
+
+vi.mock('../../repositories/documentRepository.js', () => ({
+  findById: vi.fn(),
+}));
+
+vi.mock('../../repositories/visualizationService.js', () => ({
+  visualizationService: {
+    findByDocumentIdAndType: vi.fn(),
+    save: vi.fn(),
+  },
+}));
+
+vi.mock('../../repositories/userRepository.js');
+
+const mindMap = () => ({
+  root: {
+    id: 'root',
+    label: 'Plan',
+    children: [
+      { id: 'goals', label: 'Goals', children: [] },
+      { id: 'risks', label: 'Risks', children: [] },
+    ],
+  },
+});
+
+describe('Documents API - Edit visualization', () => {
+  let app: express.Application;
+  const token = generateTestToken('edit-user');
+  let stored: VisualizationRecord;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    stored = {
+      documentId: 'doc-a',
+      visualizationType: 'mind-map',
+      visualizationData: mindMap(),
+      llmMetadata: { model: 'm', tokensUsed: 1, processingTime: 1, timestamp: 't' },
+      createdAt: 't',
+      updatedAt: 't',
+    };
+
+    vi.mocked(documentRepository.findById).mockImplementation(async (id: string) =>
+      (id === 'doc-a' ? { documentId: 'doc-a', userId: 'edit-user' } as any : null));
+    vi.mocked(visualizationService.findByDocumentIdAndType).mockImplementation(
+      async () => stored,
+    );
+    vi.mocked(visualizationService.save).mockImplementation(async (record, source) => {
+      expect(source).toBe('edit');
+      stored = record;
+      return 2;
+    });
+    vi.mocked(userRepository.getUserById).mockImplementation(async (userId: string) => ({
+      userId,
+      email: `${userId}@example.com`,
+      status: 'active',
+    }) as any);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/documents', documentsRouter);
+  });
+
+  it('applies edits on top of the generated data and keeps the overlay', async () => {
+    await request(app)
+      .patch('/api/documents/doc-a/visualizations/mind-map')
+      .set('Authorization', `Bearer ${token}`)
+      .send([{ op: 'replace', path: '/root/children/goals/label', value: 'Objectives' }])
+      .expect(200);
+
+    const response = await request(app)
+      .patch('/api/documents/doc-a/visualizations/mind-map')
+      .set('Authorization', `Bearer ${token}`)
+      .send([{ op: 'remove', path: '/root/children/risks' }])
+      .expect(200);
+
+    expect(response.body.data.root.children).toEqual([
+      { id: 'goals', label: 'Objectives', children: [] },
+    ]);
+    expect(response.body.overrides).toHaveLength(2);
+    expect(response.body.version).toBe(2);
+    expect(stored.generatedData).toEqual(mindMap());
+    expect(stored.visualizationData).toEqual(response.body.data);
+  });
+
+  it('rejects edits that break the visualization type', async () => {
+    const response = await request(app)
+      .patch('/api/documents/doc-a/visualizations/mind-map')
+      .set('Authorization', `Bearer ${token}`)
+      .send([{ op: 'replace', path: '/root/children/goals/label', value: '' }])
+      .expect(422);
+
+    expect(response.body.details).toEqual(['Mind map node goals needs a label']);
+    expect(visualizationService.save).not.toHaveBeenCalled();
+  });
+
+  it('tolerates problems already present in the generated data', async () => {
+    stored.visualizationData.root.children.push({ id: 'untitled', label: '', children: [] });
+
+    await request(app)
+      .patch('/api/documents/doc-a/visualizations/mind-map')
+      .set('Authorization', `Bearer ${token}`)
+      .send([{ op: 'replace', path: '/root/label', value: 'Roadmap' }])
+      .expect(200);
+  });
+
+  it('rejects operations whose target does not exist', async () => {
+    const response = await request(app)
+      .patch('/api/documents/doc-a/visualizations/mind-map')
+      .set('Authorization', `Bearer ${token}`)
+      .send([{ op: 'remove', path: '/root/children/missing' }])
+      .expect(422);
+
+    expect(response.body.details).toEqual([
+      'remove /root/children/missing: Path not found: /root/children/missing',
+    ]);
+  });
+
+  it('rejects malformed bodies and read-only visualization types', async () => {
+    await request(app)
+      .patch('/api/documents/doc-a/visualizations/mind-map')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ op: 'remove', path: '/root' })
+      .expect(400);
+
+    await request(app)
+      .patch('/api/documents/doc-a/visualizations/timeline')
+      .set('Authorization', `Bearer ${token}`)
+      .send([{ op: 'remove', path: '/events/0' }])
+      .expect(400);
+  });
+
+  it('hides visualizations of documents owned by someone else', async () => {
+    await request(app)
+      .patch('/api/documents/doc-a/visualizations/mind-map')
+      .set('Authorization', `Bearer ${generateTestToken('someone-else')}`)
+      .send([{ op: 'remove', path: '/root/children/risks' }])
+      .expect(404);
+  });
+});
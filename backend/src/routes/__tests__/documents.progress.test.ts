@@ -0,0 +1,116 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { documentsRouter, documents, documentOwners } from '../documents.js';
+import { generateTestToken } from '../../../../test/utils/auth.js';
+import { userRepository } from '../../repositories/userRepository.js';
+import { progressBroker } from '../../services/analysis/progressBroker.js';
+import { documentParser } from '../../services/documentParser.js';
+
+vi.mock('../../repositories/documentRepository.js', () => ({
+  findById: vi.fn().mockResolvedValue(null),
+  updateAccessMetadata: vi.fn().mockResolvedValue({}),
+}));
+
+vi.mock('../../repositories/userRepository.js');
+
+vi.mock('../../repositories/usageLimitsRepository.js', () => ({
+  usageLimitsRepository: {
+    incrementAnalysisCount: vi.fn().mockResolvedValue({}),
+    getDailyUsage: vi.fn().mockResolvedValue({ analysisCount: 0 }),
+    checkStorageLimit: vi.fn().mockResolvedValue(true),
+  },
+}));
+
+const parseEvents = (body: string) =>
+  body
+    .split('\n\n')
+    .filter((block) => block.startsWith('id:'))
+    .map((block) => {
+      const [idLine, , dataLine] = block.split('\n');
+      return { id: Number(idLine.slice(4)), data: JSON.parse(dataLine.slice(6)) };
+    });
+
+describe('Documents API - Progress stream', () => {
+  let app: express.Application;
+  let documentId: string;
+  const token = generateTestToken('stream-user');
+  const otherToken = generateTestToken('someone-else');
+
+  beforeEach(async () => {
+    documents.clear();
+    documentOwners.clear();
+
+    const document = await documentParser.parseText('# Plan\n\nSome text.', 'Plan');
+    documentId = document.id;
+    documents.set(documentId, document);
+    documentOwners.set(documentId, 'stream-user');
+
+    vi.mocked(userRepository.getUserById).mockImplementation(async (userId: string) => ({
+      userId,
+      email: `${userId}@example.com`,
+      status: 'active',
+    }) as any);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/documents', documentsRouter);
+  });
+
+  it('replays the whole run, including partial results, and closes on completion', async () => {
+    progressBroker.publish(documentId, { step: 'initialization', progress: 5, message: 'Starting' });
+    progressBroker.publish(documentId, {
+      step: 'early-results',
+      progress: 40,
+      message: 'TLDR ready',
+      partialAnalysis: { tldr: { text: 'In short' } },
+    });
+    progressBroker.publish(documentId, { step: 'complete', progress: 100, message: 'Done' });
+
+    const response = await request(app)
+      .get(`/api/documents/${documentId}/progress/stream`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    const events = parseEvents(response.text);
+    expect(events.map((e) => e.data.step)).toEqual(['initialization', 'early-results', 'complete']);
+    expect(events[1].data.partialAnalysis.tldr.text).toBe('In short');
+  });
+
+  it('resumes after the Last-Event-ID', async () => {
+    const first = progressBroker.publish(documentId, { step: 'initialization', progress: 5, message: 'Starting' });
+    progressBroker.publish(documentId, { step: 'sections', progress: 65, message: 'Sections' });
+    progressBroker.publish(documentId, { step: 'complete', progress: 100, message: 'Done' });
+
+    const response = await request(app)
+      .get(`/api/documents/${documentId}/progress/stream`)
+      .set('Authorization', `Bearer ${token}`)
+      .set('Last-Event-ID', String(first.id))
+      .expect(200);
+
+    expect(parseEvents(response.text).map((e) => e.data.step)).toEqual(['sections', 'complete']);
+  });
+
+  it('pushes events published while the client is connected', async () => {
+    setTimeout(() => {
+      progressBroker.publish(documentId, { step: 'sections', progress: 65, message: 'Sections' });
+      progressBroker.publish(documentId, { step: 'error', progress: 0, message: 'LLM unavailable' });
+    }, 50);
+
+    const response = await request(app)
+      .get(`/api/documents/${documentId}/progress/stream`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(parseEvents(response.text).map((e) => e.data.step)).toEqual(['sections', 'error']);
+  });
+
+  it('does not stream progress for documents owned by another user', async () => {
+    await request(app)
+      .get(`/api/documents/${documentId}/progress/stream`)
+      .set('Authorization', `Bearer ${otherToken}`)
+      .expect(404);
+  });
+});
@@ -0,0 +1,120 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { documentsRouter, documents, documentOwners } from '../documents.js';
+import { generateTestToken } from '../../../../test/utils/auth.js';
+import { userRepository } from '../../repositories/userRepository.js';
+import { documentQA } from '../../services/analysis/documentQA.js';
+import { documentParser } from '../../services/documentParser.js';
+
+vi.mock('../../repositories/documentRepository.js', () => ({
+  findById: vi.fn().mockResolvedValue(null),
+  updateAccessMetadata: vi.fn().mockResolvedValue({}),
+}));
+
+vi.mock('../../repositories/userRepository.js');
+
+vi.mock('../../repositories/usageLimitsRepository.js', () => ({
+  usageLimitsRepository: {
+    incrementAnalysisCount: vi.fn().mockResolvedValue({}),
+    getDailyUsage: vi.fn().mockResolvedValue({ analysisCount: 0 }),
+    checkStorageLimit: vi.fn().mockResolvedValue(true),
+  },
+}));
+
+const CONTENT = '# Plan\n\n## Budget\n\nThe project has a total budget of 2.5 million USD.';
+
+describe('Documents API - Q&A', () => {
+  let app: express.Application;
+  const token = generateTestToken('qa-user');
+  const otherToken = generateTestToken('someone-else');
+
+  beforeEach(async () => {
+    documents.clear();
+    documentOwners.clear();
+    documentQA.clearHistory('doc-qa');
+
+    const document = await documentParser.parseText(CONTENT, 'Plan');
+    document.id = 'doc-qa';
+    documents.set('doc-qa', document);
+    documentOwners.set('doc-qa', 'qa-user');
+
+    (documentQA as any)._llmClient = {
+      callWithFallback: vi.fn().mockResolvedValue({
+        content: JSON.stringify({
+          answer: 'The budget is 2.5 million USD.',
+          citations: [{ excerpt: 1, quote: 'total budget of 2.5 million USD' }],
+        }),
+        tokensUsed: 50,
+        model: 'test-model',
+      }),
+      parseJSONResponse: vi.fn((response: any) => JSON.parse(response.content)),
+    };
+
+    vi.mocked(userRepository.getUserById).mockImplementation(async (userId: string) => ({
+      userId,
+      email: `${userId}@example.com`,
+      status: 'active',
+    }) as any);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/documents', documentsRouter);
+  });
+
+  it('answers with citations and returns the conversation', async () => {
+    const response = await request(app)
+      .post('/api/documents/doc-qa/ask')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ question: 'What is the budget?' })
+      .expect(200);
+
+    expect(response.body.documentId).toBe('doc-qa');
+    expect(response.body.answer.content).toBe('The budget is 2.5 million USD.');
+    expect(response.body.answer.citations[0].span.text).toBe('total budget of 2.5 million USD');
+    expect(response.body.history).toHaveLength(2);
+
+    const conversation = await request(app)
+      .get('/api/documents/doc-qa/conversation')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(conversation.body.history).toHaveLength(2);
+  });
+
+  it('rejects empty questions', async () => {
+    await request(app)
+      .post('/api/documents/doc-qa/ask')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ question: '   ' })
+      .expect(400);
+  });
+
+  it('does not answer questions about documents owned by another user', async () => {
+    await request(app)
+      .post('/api/documents/doc-qa/ask')
+      .set('Authorization', `Bearer ${otherToken}`)
+      .send({ question: 'What is the budget?' })
+      .expect(404);
+
+    await request(app)
+      .get('/api/documents/doc-qa/conversation')
+      .set('Authorization', `Bearer ${otherToken}`)
+      .expect(404);
+  });
+
+  it('clears the conversation', async () => {
+    await request(app)
+      .post('/api/documents/doc-qa/ask')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ question: 'What is the budget?' })
+      .expect(200);
+
+    await request(app)
+      .delete('/api/documents/doc-qa/conversation')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(204);
+
+    expect(documentQA.getHistory('doc-qa')).toEqual([]);
+  });
+});
@@ -252,6 +252,34 @@ describe('Documents API - Search and List', () => {
       }
     });
 
+    it('should return ranked results with highlighted snippets', async () => {
+      await request(app)
+        .post('/api/documents/analyze')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ text: 'Reinforcement learning agents explore environments' });
+
+      const response = await request(app)
+        .get('/api/documents/search')
+        .set('Authorization', `Bearer ${token}`)
+        .query({ q: '"reinforcement learning"' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.results).toHaveLength(response.body.documents.length);
+      const [snippet] = response.body.results[0].snippets;
+      const { start, end } = snippet.highlights[0];
+      expect(snippet.text.slice(start, end)).toBe('Reinforcement');
+      expect(response.body.semantic).toBe(false);
+    });
+
+    it('should reject invalid date filters', async () => {
+      const response = await request(app)
+        .get('/api/documents/search')
+        .set('Authorization', `Bearer ${token}`)
+        .query({ q: 'test', from: 'yesterday-ish' });
+
+      expect(response.status).toBe(400);
+    });
+
     it('should handle search errors gracefully', async () => {
       // This test ensures the error handling works
       const response = await request(app)
@@ -19,7 +19,7 @@ vi.mock("../../repositories/usageLimitsRepository", () => ({
 }));
 
 vi.mock("../../repositories/documentRepository", () => ({
-  countByUserId: vi.fn(),
+  findAllByUserId: vi.fn(),
   findById: vi.fn(),
   findByHashAndFilename: vi.fn(),
   create: vi.fn(),
@@ -68,10 +68,31 @@ vi.mock("../../services/documentParser", () => ({
   },
 }));
 
+// Records the usage context around the code under test
+const usage = vi.hoisted(() => ({ active: undefined as unknown }));
+
+vi.mock("../../services/llm/usageMeter", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../services/llm/usageMeter")>()),
+  withUsageContext: async (context: unknown, fn: () => Promise<unknown>) => {
+    usage.active = context;
+    try {
+      return await fn();
+    } finally {
+      usage.active = undefined;
+    }
+  },
+}));
+
 // Import the router AFTER mocks
 import { documentsRouter } from "../documents";
 import { usageLimitsRepository } from "../../repositories/usageLimitsRepository";
-import { countByUserId } from "../../repositories/documentRepository";
+import { findAllByUserId } from "../../repositories/documentRepository";
+import { searchService } from "../../services/search/searchService";
+import { progressBroker } from "../../services/analysis/progressBroker";
+import { jobQueue } from "../../services/jobs/jobQueue";
+
+const documentsOf = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ documentId: `doc-${i}`, fileSize: 1024 })) as any;
 
 describe("Document Usage Limits", () => {
   let app: express.Application;
@@ -121,12 +142,30 @@ describe("Document Usage Limits", () => {
         usageLimitsRepository.incrementAnalysisCount,
       ).not.toHaveBeenCalled();
     });
+
+    it("should close the progress stream when the job cannot be queued", async () => {
+      vi.mocked(usageLimitsRepository.getDailyUsage).mockResolvedValue({
+        analysisCount: 0,
+      } as any);
+      const submit = vi
+        .spyOn(jobQueue, "submit")
+        .mockRejectedValueOnce(new Error("Queue unavailable"));
+
+      const response = await request(app)
+        .post("/api/documents/analyze")
+        .send({ text: "some text" });
+
+      expect(response.status).toBe(500);
+      expect(progressBroker.isFinished("doc-123")).toBe(true);
+      expect(progressBroker.latest("doc-123")?.message).toBe("Analysis could not be queued");
+      submit.mockRestore();
+    });
   });
 
   describe("POST /upload - Storage Limit", () => {
     it("should allow upload when under limit", async () => {
       // Mock doc count under limit (limit is 10 for free tier)
-      vi.mocked(countByUserId).mockResolvedValue(5);
+      vi.mocked(findAllByUserId).mockResolvedValue(documentsOf(5));
 
       const response = await request(app)
         .post("/api/documents/upload")
@@ -137,14 +176,46 @@ describe("Document Usage Limits", () => {
 
     it("should reject upload when over limit", async () => {
       // Mock doc count over limit
-      vi.mocked(countByUserId).mockResolvedValue(10);
+      vi.mocked(findAllByUserId).mockResolvedValue(documentsOf(10));
 
       const response = await request(app)
         .post("/api/documents/upload")
         .attach("file", Buffer.from("content"), "test.txt");
 
-      expect(response.status).toBe(403);
+      expect(response.status).toBe(402);
       expect(response.body.error).toMatch(/limit exceeded/i);
+      expect(response.body.upgrade.id).toBe("pro");
+    });
+  });
+
+  describe("POST /upload - LLM metering", () => {
+    it("should meter the search embedding against the uploader", async () => {
+      vi.mocked(findAllByUserId).mockResolvedValue(documentsOf(0));
+      let meteredAs: unknown;
+      const indexDocument = vi
+        .spyOn(searchService, "indexDocument")
+        .mockImplementation(async () => {
+          meteredAs = usage.active;
+        });
+
+      const response = await request(app)
+        .post("/api/documents/upload")
+        .attach("file", Buffer.from("content"), "test.txt");
+
+      expect(response.status).toBe(200);
+      expect(meteredAs).toEqual({ userId: "test-user", documentId: "doc-123" });
+      indexDocument.mockRestore();
+    });
+  });
+
+  describe("POST /:id/visualizations/:type - Plan", () => {
+    it("should reject visualization types outside the user's plan", async () => {
+      const response = await request(app)
+        .post("/api/documents/doc-123/visualizations/knowledge-graph");
+
+      expect(response.status).toBe(402);
+      expect(response.body.code).toBe("VISUALIZATION_NOT_IN_PLAN");
+      expect(response.body.plan).toBe("free");
     });
   });
 });
@@ -0,0 +1,148 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { documentsRouter } from '../documents.js';
+import { generateTestToken } from '../../../../test/utils/auth.js';
+import * as documentRepository from '../../repositories/documentRepository.js';
+import { userRepository } from '../../repositories/userRepository.js';
+import { visualizationService } from '../../repositories/visualizationService.js';
+
+import type { VisualizationVersionRecord } from '../../repositories/types.js';
+
+vi.mock('../../repositories/documentRepository.js', () => ({
+  findById: vi.fn(),
+}));
+
+vi.mock('../../repositories/visualizationService.js', () => ({
+  visualizationService: {
+    listVersions: vi.fn(),
+    findVersion: vi.fn(),
+    rollback: vi.fn(),
+  },
+}));
+
+vi.mock('../../repositories/userRepository.js');
+
+const versionRecord = (
+  version: number,
+  source: VisualizationVersionRecord['source'],
+): VisualizationVersionRecord => ({
+  documentId: 'doc-a',
+  visualizationType: 'mind-map',
+  visualizationData: { root: { id: 'root', label: `Plan v${version}`, children: [] } },
+  llmMetadata: {
+    model: 'test-model',
+    tokensUsed: 100,
+    processingTime: 5,
+    timestamp: 't',
+    promptVersion: 'mindMapGeneration@1.2.0',
+  },
+  createdAt: 't0',
+  updatedAt: `t${version}`,
+  version,
+  source,
+});
+
+describe('Documents API - Visualization versions', () => {
+  let app: express.Application;
+  const token = generateTestToken('version-user');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(documentRepository.findById).mockImplementation(async (id: string) =>
+      (id === 'doc-a' ? { documentId: 'doc-a', userId: 'version-user' } as any : null));
+    vi.mocked(visualizationService.listVersions).mockResolvedValue([
+      versionRecord(2, 'edit'),
+      versionRecord(1, 'generation'),
+    ]);
+    vi.mocked(visualizationService.findVersion).mockImplementation(
+      async (_id, _type, version) => (version <= 2 ? versionRecord(version, 'generation') : null),
+    );
+    vi.mocked(userRepository.getUserById).mockImplementation(async (userId: string) => ({
+      userId,
+      email: `${userId}@example.com`,
+      status: 'active',
+    }) as any);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/documents', documentsRouter);
+  });
+
+  it('lists version summaries without their data', async () => {
+    const response = await request(app)
+      .get('/api/documents/doc-a/visualizations/mind-map/versions')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(response.body.versions).toEqual([
+      expect.objectContaining({ version: 2, source: 'edit', createdAt: 't2' }),
+      expect.objectContaining({ version: 1, source: 'generation', createdAt: 't1' }),
+    ]);
+    expect(response.body.versions[0].llmMetadata.promptVersion).toBe('mindMapGeneration@1.2.0');
+    expect(response.body.versions[0].data).toBeUndefined();
+  });
+
+  it('returns a single version with its data', async () => {
+    const response = await request(app)
+      .get('/api/documents/doc-a/visualizations/mind-map/versions/1')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      version: 1,
+      type: 'mind-map',
+      data: { root: { label: 'Plan v1' } },
+    });
+
+    await request(app)
+      .get('/api/documents/doc-a/visualizations/mind-map/versions/9')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(404);
+    await request(app)
+      .get('/api/documents/doc-a/visualizations/mind-map/versions/latest')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(400);
+  });
+
+  it('rolls back by saving the old version as a new one', async () => {
+    vi.mocked(visualizationService.rollback).mockResolvedValue({
+      ...versionRecord(1, 'generation'),
+      version: 3,
+    });
+
+    const response = await request(app)
+      .post('/api/documents/doc-a/visualizations/mind-map/versions/1/rollback')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(visualizationService.rollback).toHaveBeenCalledWith('doc-a', 'mind-map', 1);
+    expect(response.body).toMatchObject({ version: 3, restoredFrom: 1, overrides: [] });
+    expect(response.body.data.root.label).toBe('Plan v1');
+  });
+
+  it('returns 404 when rolling back to a missing version', async () => {
+    vi.mocked(visualizationService.rollback).mockResolvedValue(null);
+
+    await request(app)
+      .post('/api/documents/doc-a/visualizations/mind-map/versions/7/rollback')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(404);
+  });
+
+  it('hides the history of documents owned by someone else', async () => {
+    await request(app)
+      .get('/api/documents/doc-b/visualizations/mind-map/versions')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(404);
+    await request(app)
+      .post('/api/documents/doc-b/visualizations/mind-map/versions/1/rollback')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(404);
+
+    expect(visualizationService.listVersions).not.toHaveBeenCalled();
+    expect(visualizationService.rollback).not.toHaveBeenCalled();
+  });
+});
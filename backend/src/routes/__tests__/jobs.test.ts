@@ -0,0 +1,96 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { jobsRouter } from '../jobs.js';
+import { generateTestToken } from '../../../../test/utils/auth.js';
+import { userRepository } from '../../repositories/userRepository.js';
+import { jobQueue } from '../../services/jobs/jobQueue.js';
+
+vi.mock('../../repositories/userRepository.js');
+
+describe('Jobs API', () => {
+  let app: express.Application;
+  let release: () => void;
+  const token = generateTestToken('job-owner');
+  const otherToken = generateTestToken('someone-else');
+
+  beforeEach(() => {
+    jobQueue.registerHandler('visualization', () =>
+      new Promise((resolve) => {
+        release = () => resolve({ nodes: [] });
+      }),
+    );
+
+    vi.mocked(userRepository.getUserById).mockImplementation(async (userId: string) => ({
+      userId,
+      email: `${userId}@example.com`,
+      status: 'active',
+    }) as any);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/jobs', jobsRouter);
+  });
+
+  const submit = (lockKey: string) =>
+    jobQueue.submit({
+      type: 'visualization',
+      lockKey,
+      ownerId: 'job-owner',
+      documentId: 'doc-1',
+      payload: { documentId: 'doc-1' },
+    });
+
+  it('reports status and the result once the job succeeds', async () => {
+    const job = await submit('status-test');
+
+    const running = await request(app)
+      .get(`/api/jobs/${job.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(running.body.status).toBe('running');
+    expect(running.body.result).toBeUndefined();
+    expect(running.body.payload).toBeUndefined();
+
+    release();
+    await jobQueue.waitFor(job.id);
+
+    const done = await request(app)
+      .get(`/api/jobs/${job.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(done.body.status).toBe('succeeded');
+    expect(done.body.result).toEqual({ nodes: [] });
+  });
+
+  it('cancels a running job', async () => {
+    const job = await submit('cancel-test');
+
+    const response = await request(app)
+      .delete(`/api/jobs/${job.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    // Recorded once the handler stops
+    expect(response.body.status).toBe('running');
+    release();
+    expect((await jobQueue.waitFor(job.id)).status).toBe('cancelled');
+  });
+
+  it('hides jobs from other users', async () => {
+    const job = await submit('owner-test');
+
+    await request(app)
+      .get(`/api/jobs/${job.id}`)
+      .set('Authorization', `Bearer ${otherToken}`)
+      .expect(404);
+    await request(app)
+      .delete(`/api/jobs/${job.id}`)
+      .set('Authorization', `Bearer ${otherToken}`)
+      .expect(404);
+
+    await jobQueue.cancel(job.id);
+    release();
+  });
+});
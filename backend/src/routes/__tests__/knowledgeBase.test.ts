@@ -0,0 +1,119 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { knowledgeBaseRouter } from '../knowledgeBase.js';
+import { generateTestToken } from '../../../../test/utils/auth.js';
+import * as documentRepository from '../../repositories/documentRepository.js';
+import { userRepository } from '../../repositories/userRepository.js';
+import { visualizationService } from '../../repositories/visualizationService.js';
+import { getOpenRouterClient } from '../../services/llm/openRouterClient.js';
+
+vi.mock('../../repositories/documentRepository.js', () => ({
+  findAllByUserId: vi.fn(),
+}));
+
+vi.mock('../../repositories/visualizationService.js', () => ({
+  visualizationService: {
+    findByDocumentIdAndType: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/llm/openRouterClient.js', () => {
+  const client = { embed: vi.fn() };
+  return { getOpenRouterClient: () => client, OpenRouterClient: vi.fn() };
+});
+
+vi.mock('../../repositories/userRepository.js');
+
+const graphFor = (documentId: string) => ({
+  nodes: [
+    { id: `${documentId}-1`, label: 'Carbon tax', type: 'concept', size: 40, color: '#000', metadata: {} },
+    { id: `${documentId}-2`, label: 'Emissions', type: 'metric', size: 40, color: '#000', metadata: {} },
+  ],
+  edges: [
+    {
+      id: 'e',
+      source: `${documentId}-1`,
+      target: `${documentId}-2`,
+      type: 'causes',
+      strength: 0.7,
+      evidence: [`${documentId} evidence`],
+    },
+  ],
+  clusters: [],
+});
+
+describe('Knowledge base API', () => {
+  let app: express.Application;
+  const token = generateTestToken('kb-user');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(documentRepository.findAllByUserId).mockResolvedValue([
+      { documentId: 'doc-a', filename: 'a.pdf' },
+      { documentId: 'doc-b', filename: 'b.pdf' },
+      { documentId: 'doc-c', filename: 'c.pdf' },
+    ] as any);
+    vi.mocked(visualizationService.findByDocumentIdAndType).mockImplementation(
+      async (documentId) =>
+        (documentId === 'doc-c' ? null : { visualizationData: graphFor(documentId) } as any),
+    );
+    vi.mocked(getOpenRouterClient().embed).mockResolvedValue(null);
+    vi.mocked(userRepository.getUserById).mockImplementation(async (userId: string) => ({
+      userId,
+      email: `${userId}@example.com`,
+      status: 'active',
+    }) as any);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/knowledge-base', knowledgeBaseRouter);
+  });
+
+  it('merges the knowledge graphs of the whole library', async () => {
+    const response = await request(app)
+      .get('/api/knowledge-base/graph')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(documentRepository.findAllByUserId).toHaveBeenCalledWith('kb-user');
+    expect(response.body.nodes).toHaveLength(2);
+    expect(response.body.edges).toHaveLength(1);
+    expect(response.body.edges[0].documentEvidence).toEqual([
+      { documentId: 'doc-a', evidence: ['doc-a evidence'] },
+      { documentId: 'doc-b', evidence: ['doc-b evidence'] },
+    ]);
+    expect(response.body.documents.map((d: any) => d.title)).toEqual(['a.pdf', 'b.pdf']);
+    expect(response.body.missingDocumentIds).toEqual(['doc-c']);
+    expect(response.body.resolution).toBe('name');
+  });
+
+  it('filters by source document', async () => {
+    const response = await request(app)
+      .get('/api/knowledge-base/graph?documentIds=doc-b,not-mine')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(response.body.documents.map((d: any) => d.documentId)).toEqual(['doc-b']);
+    expect(response.body.nodes[0].documentIds).toEqual(['doc-b']);
+    expect(visualizationService.findByDocumentIdAndType).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to name matching when embeddings fail', async () => {
+    vi.mocked(getOpenRouterClient().embed).mockRejectedValue(new Error('no embeddings'));
+
+    const response = await request(app)
+      .get('/api/knowledge-base/graph')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(response.body.resolution).toBe('name');
+    expect(response.body.nodes).toHaveLength(2);
+  });
+
+  it('requires authentication', async () => {
+    await request(app).get('/api/knowledge-base/graph').expect(401);
+  });
+});
@@ -0,0 +1,60 @@
+import express from 'express';
+import request from 'supertest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { getUsageSummary } from '../../services/llm/usageMeter';
+import { usageRouter } from '../usage';
+
+vi.mock('../../middleware/auth', () => ({
+  authenticate: (req: any, _res: any, next: any) => {
+    req.user = { userId: 'usage-user', email: 'usage@example.com', role: 'user' };
+    next();
+  },
+  AuthenticatedRequest: {},
+}));
+
+vi.mock('../../services/llm/usageMeter', () => ({
+  getUsageSummary: vi.fn(),
+}));
+
+describe('Usage API', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getUsageSummary).mockResolvedValue({
+      period: '2026-10',
+      totals: { calls: 1, promptTokens: 100, completionTokens: 50, cost: 0.01 },
+      budget: { limit: 5, spent: 0.01, remaining: 4.99, resetAt: '2026-11-01T00:00:00.000Z' },
+      byDocument: [],
+      byTask: [],
+      byModel: [],
+      recentCalls: [],
+    });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/usage', usageRouter);
+  });
+
+  it("returns the user's usage for the current month by default", async () => {
+    const response = await request(app).get('/api/usage').expect(200);
+
+    expect(getUsageSummary).toHaveBeenCalledWith('usage-user', undefined, undefined);
+    expect(response.body.totals.cost).toBe(0.01);
+    expect(response.body.budget.remaining).toBe(4.99);
+  });
+
+  it('passes the requested period and document through', async () => {
+    await request(app).get('/api/usage?period=2026-09&documentId=doc-1').expect(200);
+
+    expect(getUsageSummary).toHaveBeenCalledWith('usage-user', '2026-09', 'doc-1');
+  });
+
+  it('rejects a malformed period', async () => {
+    const response = await request(app).get('/api/usage?period=2026-13').expect(400);
+
+    expect(response.body.error).toMatch(/YYYY-MM/);
+    expect(getUsageSummary).not.toHaveBeenCalled();
+  });
+});
@@ -2,7 +2,7 @@ import express from "express";
 import request from "supertest";
 import { describe, it, expect, beforeAll, beforeEach, vi } from "vitest";
 
-import { documentsRouter } from "../documents";
+import { analyses, documents, documentsRouter } from "../documents";
 import { visualizationGenerator } from "../../services/visualization/visualizationGenerator";
 import { visualizationService } from "../../repositories/visualizationService";
 import * as documentRepository from "../../repositories/documentRepository";
@@ -10,6 +10,7 @@ import * as analysisRepository from "../../repositories/analysisRepository";
 import * as s3Storage from "../../services/storage/s3Storage.js";
 import { userRepository } from "../../repositories/userRepository.js";
 import { generateTestToken } from "../../../../test/utils/auth";
+import { jobQueue } from "../../services/jobs/jobQueue.js";
 
 // Mock repositories and services
 vi.mock("../../repositories/documentRepository.js");
@@ -26,6 +27,8 @@ vi.mock("../../services/visualization/visualizationGenerator.js", () => ({
   visualizationGenerator: {
     generateVisualization: vi.fn(),
   },
+  visualizationLockKey: (documentId: string, type: string) =>
+    `visualization-lock:${documentId}:${type}`,
 }));
 vi.mock("../../services/storage/s3Storage.js");
 vi.mock("../../repositories/userRepository.js");
@@ -50,11 +53,12 @@ describe("Visualizations API Integration Tests", () => {
   };
 
   // Helper function to mock authenticated user
-  const mockAuthenticatedUser = (userId: string) => {
+  const mockAuthenticatedUser = (userId: string, subscriptionStatus?: string) => {
     vi.mocked(userRepository.getUserById).mockResolvedValue({
       userId: userId,
       email: `${userId}@example.com`,
       status: "active",
+      subscriptionStatus,
     } as any);
   };
 
@@ -100,10 +104,52 @@ describe("Visualizations API Integration Tests", () => {
       );
     });
 
+    it("should run concurrent requests for the same visualization as one job", async () => {
+      const userId = "test-user-jobs";
+      const token = generateTestToken(userId);
+      mockAuthenticatedUser(userId);
+
+      vi.mocked(documentRepository.findById).mockResolvedValue({
+        documentId: mockDocId,
+        filename: "test.txt",
+        s3Key: "key",
+        userId: userId,
+      } as any);
+      vi.mocked(analysisRepository.findByDocumentId).mockResolvedValue({
+        analysis: mockAnalysis,
+      } as any);
+      const { downloadDocument } = await import("../../services/storage/s3Storage.js");
+      vi.mocked(downloadDocument).mockResolvedValue(Buffer.from("test content"));
+
+      let finish!: (value: unknown) => void;
+      vi.mocked(visualizationGenerator.generateVisualization).mockReturnValue(
+        new Promise((resolve) => (finish = resolve)),
+      );
+
+      const submitted = await request(app)
+        .post(`/api/documents/${mockDocId}/visualizations/mind-map?async=true`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(202);
+      expect(submitted.body.jobId).toEqual(expect.any(String));
+
+      const waiting = request(app)
+        .post(`/api/documents/${mockDocId}/visualizations/mind-map`)
+        .set("Authorization", `Bearer ${token}`)
+        .then((response) => response);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      finish({ root: { id: "root" } });
+
+      const response = await waiting;
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ root: { id: "root" } });
+      expect(visualizationGenerator.generateVisualization).toHaveBeenCalledTimes(1);
+    });
+
     it("should generate entity graph visualization successfully", async () => {
       const userId = "test-user-2";
       const token = generateTestToken(userId);
-      mockAuthenticatedUser(userId);
+      // Entity graphs are not in the Free plan
+      mockAuthenticatedUser(userId, "active");
 
       vi.mocked(documentRepository.findById).mockResolvedValue({
         documentId: mockDocId,
@@ -313,4 +359,68 @@ describe("Visualizations API Integration Tests", () => {
       expect(response.body).toHaveProperty("error", "Visualizations not found");
     });
   });
+
+  describe("visualization jobs", () => {
+    const jobDocId = "job-doc-id";
+
+    beforeEach(() => {
+      documents.set(jobDocId, { id: jobDocId, title: "Job doc" } as any);
+      analyses.delete(jobDocId);
+    });
+
+    const submit = (lockKey: string) =>
+      jobQueue.submit({
+        type: "visualization",
+        lockKey,
+        ownerId: "job-user",
+        documentId: jobDocId,
+        payload: { documentId: jobDocId, visualizationType: "mind-map", force: false },
+        maxAttempts: 1,
+      });
+
+    it("loads the analysis from the repository when it is not in memory", async () => {
+      vi.mocked(analysisRepository.findByDocumentId).mockResolvedValue({
+        analysis: mockAnalysis,
+      } as any);
+      vi.mocked(visualizationGenerator.generateVisualization).mockResolvedValue({ root: {} });
+
+      const job = await submit("viz-job-reload");
+      const finished = await jobQueue.waitFor(job.id);
+
+      expect(finished.status).toBe("succeeded");
+      expect(visualizationGenerator.generateVisualization).toHaveBeenCalledWith(
+        "mind-map",
+        expect.objectContaining({ id: jobDocId }),
+        mockAnalysis,
+        false,
+      );
+    });
+
+    it("fails with a clear error when no analysis is stored", async () => {
+      vi.mocked(analysisRepository.findByDocumentId).mockResolvedValue(null);
+
+      const job = await submit("viz-job-missing");
+      const finished = await jobQueue.waitFor(job.id);
+
+      expect(finished.status).toBe("failed");
+      expect(finished.error).toBe(`Document ${jobDocId} has no analysis to visualize`);
+      expect(visualizationGenerator.generateVisualization).not.toHaveBeenCalled();
+    });
+
+    it("stops before generating when cancelled while loading the analysis", async () => {
+      let load!: (value: any) => void;
+      vi.mocked(analysisRepository.findByDocumentId).mockReturnValue(
+        new Promise((resolve) => (load = resolve)),
+      );
+
+      const job = await submit("viz-job-cancel");
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await jobQueue.cancel(job.id);
+      load({ analysis: mockAnalysis });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect((await jobQueue.get(job.id))?.status).toBe("cancelled");
+      expect(visualizationGenerator.generateVisualization).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,9 +1,18 @@
 import request from "supertest";
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import Stripe from "stripe";
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
 import app from "../../server.js";
-import { stripeService } from "../../services/billing/stripeService.js";
+import { env } from "../../config/env.js";
 import { userRepository } from "../../repositories/userRepository.js";
 
+// Local fake of the Stripe API; vi.hoisted starts it before the app creates its Stripe client
+const fakeStripe = await vi.hoisted(async () => {
+  const { startFakeStripe } = await import("../../../../test/mocks/fakeStripeServer");
+  const fake = await startFakeStripe();
+  process.env.STRIPE_API_URL = fake.url;
+  return fake;
+});
+
 // Mock AWS Config first to avoid validation error during app import
 vi.mock("../../config/aws.js", async (importOriginal) => {
   return {
@@ -14,64 +23,276 @@ vi.mock("../../config/aws.js", async (importOriginal) => {
   };
 });
 
-// Mock stripeService
-vi.mock("../../services/billing/stripeService.js", () => ({
-  stripeService: {
-    verifyWebhookSignature: vi.fn(),
-  },
-}));
-
 // Mock userRepository
 vi.mock("../../repositories/userRepository.js", () => ({
   userRepository: {
+    getUserById: vi.fn(),
     updateUser: vi.fn(),
   },
 }));
 
+// Processed events are kept in an in-memory SQLite database
+vi.mock("../../repositories/webhookEventRepository.js", async (importOriginal) => {
+  const { WebhookEventRepository } = await importOriginal<any>();
+  const { openSqliteDatabase } = await import("../../repositories/sqlite/database.js");
+  const { SqliteWebhookEventStore } = await import("../../repositories/sqlite/webhookEventStore.js");
+  return {
+    WebhookEventRepository,
+    webhookEventRepository: new WebhookEventRepository(
+      new SqliteWebhookEventStore(openSqliteDatabase(":memory:")),
+    ),
+  };
+});
+
+const PERIOD_END = 1798761600; // 2027-01-01
+
+// Posts an event signed with the configured webhook secret
+const deliver = (event: any) => {
+  const payload = JSON.stringify(event);
+  return request(app)
+    .post("/webhooks/stripe")
+    .set("Content-Type", "application/json")
+    .set(
+      "stripe-signature",
+      Stripe.webhooks.generateTestHeaderString({ payload, secret: env.STRIPE_WEBHOOK_SECRET }),
+    )
+    .send(payload);
+};
+
 describe("Webhook Routes", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    fakeStripe.reset();
+    (userRepository.getUserById as any).mockResolvedValue({ userId: "user123" });
+    (userRepository.updateUser as any).mockResolvedValue({});
+  });
+
+  afterAll(async () => {
+    await fakeStripe.close();
   });
 
   describe("POST /webhooks/stripe", () => {
     it("should update user on checkout.session.completed", async () => {
-      const mockEvent = {
-        type: "checkout.session.completed",
-        data: {
-          object: {
-            client_reference_id: "user123",
-            subscription: "sub_123",
-          },
-        },
-      };
-
-      (stripeService.verifyWebhookSignature as any).mockResolvedValue(
-        mockEvent,
-      );
-      (userRepository.updateUser as any).mockResolvedValue({});
+      fakeStripe.addSubscription({
+        id: "sub_123",
+        customer: "cus_123",
+        priceId: env.STRIPE_PRICE_ID_PRO,
+        currentPeriodEnd: PERIOD_END,
+      });
 
-      await request(app)
-        .post("/webhooks/stripe")
-        .set("stripe-signature", "valid_sig")
-        .send({ some: "data" })
-        .expect(200);
+      await deliver(
+        fakeStripe.createEvent("checkout.session.completed", {
+          client_reference_id: "user123",
+          subscription: "sub_123",
+        }),
+      ).expect(200);
 
-      expect(stripeService.verifyWebhookSignature).toHaveBeenCalled();
       expect(userRepository.updateUser).toHaveBeenCalledWith(
         "user123",
         expect.objectContaining({
           subscriptionStatus: "active",
           subscriptionId: "sub_123",
           subscriptionProvider: "stripe",
+          subscriptionCustomerId: "cus_123",
+          currentPeriodEnd: "2027-01-01T00:00:00.000Z",
+          cancelAtPeriodEnd: false,
+          plan: "pro",
         }),
       );
     });
 
-    it("should return 400 on signature verification failure", async () => {
-      (stripeService.verifyWebhookSignature as any).mockRejectedValue(
-        new Error("Invalid signature"),
+    it("should record the plan sold by checkout", async () => {
+      fakeStripe.addSubscription({
+        id: "sub_456",
+        priceId: "price_not_configured",
+        metadata: { userId: "user123", plan: "team" },
+      });
+
+      await deliver(
+        fakeStripe.createEvent("checkout.session.completed", {
+          client_reference_id: "user123",
+          subscription: "sub_456",
+          metadata: { userId: "user123", plan: "team" },
+        }),
+      ).expect(200);
+
+      expect(userRepository.updateUser).toHaveBeenCalledWith(
+        "user123",
+        expect.objectContaining({ subscriptionStatus: "active", plan: "team" }),
       );
+    });
+
+    it("should record a scheduled cancellation on customer.subscription.updated", async () => {
+      const subscription = fakeStripe.addSubscription({
+        id: "sub_1",
+        metadata: { userId: "user123" },
+        cancelAtPeriodEnd: true,
+        currentPeriodEnd: PERIOD_END,
+      });
+
+      await deliver(fakeStripe.createEvent("customer.subscription.updated", subscription))
+        .expect(200);
+
+      expect(userRepository.updateUser).toHaveBeenCalledWith(
+        "user123",
+        expect.objectContaining({
+          subscriptionStatus: "active",
+          cancelAtPeriodEnd: true,
+          currentPeriodEnd: "2027-01-01T00:00:00.000Z",
+        }),
+      );
+    });
 
+    it("should use the subscription's current state, not the event's", async () => {
+      // The event says active, but the subscription has been canceled since
+      const stale = fakeStripe.addSubscription({ id: "sub_1", metadata: { userId: "user123" } });
+      fakeStripe.addSubscription({ id: "sub_1", status: "canceled", metadata: { userId: "user123" } });
+
+      await deliver(fakeStripe.createEvent("customer.subscription.updated", stale)).expect(200);
+
+      expect(userRepository.updateUser).toHaveBeenCalledWith(
+        "user123",
+        expect.objectContaining({ subscriptionStatus: "canceled" }),
+      );
+    });
+
+    it("should end the subscription on customer.subscription.deleted", async () => {
+      (userRepository.getUserById as any).mockResolvedValue({
+        userId: "user123",
+        subscriptionId: "sub_1",
+      });
+      const subscription = fakeStripe.addSubscription({
+        id: "sub_1",
+        status: "canceled",
+        metadata: { userId: "user123" },
+      });
+
+      await deliver(fakeStripe.createEvent("customer.subscription.deleted", subscription))
+        .expect(200);
+
+      expect(userRepository.updateUser).toHaveBeenCalledWith(
+        "user123",
+        expect.objectContaining({ subscriptionId: "sub_1", subscriptionStatus: "canceled" }),
+      );
+    });
+
+    it("should not let an old subscription's cancellation overwrite the current one", async () => {
+      (userRepository.getUserById as any).mockResolvedValue({
+        userId: "user123",
+        subscriptionId: "sub_new",
+      });
+      const old = fakeStripe.addSubscription({
+        id: "sub_old",
+        status: "canceled",
+        metadata: { userId: "user123" },
+      });
+
+      await deliver(fakeStripe.createEvent("customer.subscription.deleted", old)).expect(200);
+
+      expect(userRepository.updateUser).not.toHaveBeenCalled();
+    });
+
+    it("should record the trial on customer.subscription.trial_will_end", async () => {
+      const subscription = fakeStripe.addSubscription({
+        id: "sub_1",
+        status: "trialing",
+        trialEnd: PERIOD_END,
+        metadata: { userId: "user123" },
+      });
+
+      await deliver(fakeStripe.createEvent("customer.subscription.trial_will_end", subscription))
+        .expect(200);
+
+      expect(userRepository.updateUser).toHaveBeenCalledWith(
+        "user123",
+        expect.objectContaining({
+          subscriptionStatus: "trialing",
+          trialEnd: "2027-01-01T00:00:00.000Z",
+        }),
+      );
+    });
+
+    it("should mark the subscription past due on invoice.payment_failed", async () => {
+      fakeStripe.addSubscription({
+        id: "sub_1",
+        status: "past_due",
+        metadata: { userId: "user123" },
+      });
+
+      await deliver(
+        fakeStripe.createEvent("invoice.payment_failed", {
+          id: "in_1",
+          object: "invoice",
+          subscription: "sub_1",
+        }),
+      ).expect(200);
+
+      expect(userRepository.updateUser).toHaveBeenCalledWith(
+        "user123",
+        expect.objectContaining({ subscriptionStatus: "past_due" }),
+      );
+    });
+
+    it("should move the period on when a renewal is paid", async () => {
+      fakeStripe.addSubscription({
+        id: "sub_1",
+        currentPeriodEnd: PERIOD_END,
+        metadata: { userId: "user123" },
+      });
+
+      // Newer API versions name the subscription under the invoice's parent
+      await deliver(
+        fakeStripe.createEvent("invoice.payment_succeeded", {
+          id: "in_2",
+          object: "invoice",
+          parent: { type: "subscription_details", subscription_details: { subscription: "sub_1" } },
+        }),
+      ).expect(200);
+
+      expect(userRepository.updateUser).toHaveBeenCalledWith(
+        "user123",
+        expect.objectContaining({
+          subscriptionStatus: "active",
+          currentPeriodEnd: "2027-01-01T00:00:00.000Z",
+        }),
+      );
+    });
+
+    it("should process each event only once", async () => {
+      const subscription = fakeStripe.addSubscription({
+        id: "sub_1",
+        metadata: { userId: "user123" },
+      });
+      const event = fakeStripe.createEvent("customer.subscription.updated", subscription);
+
+      await deliver(event).expect(200);
+      const repeat = await deliver(event).expect(200);
+
+      expect(repeat.body).toEqual({ received: true, duplicate: true });
+      expect(userRepository.updateUser).toHaveBeenCalledTimes(1);
+    });
+
+    it("should return 500 and process the event again when handling fails", async () => {
+      const event = fakeStripe.createEvent("invoice.payment_failed", {
+        id: "in_3",
+        object: "invoice",
+        subscription: "sub_unknown",
+      });
+
+      // Stripe does not know the subscription (yet)
+      await deliver(event).expect(500);
+      expect(userRepository.updateUser).not.toHaveBeenCalled();
+
+      fakeStripe.addSubscription({
+        id: "sub_unknown",
+        status: "past_due",
+        metadata: { userId: "user123" },
+      });
+      await deliver(event).expect(200);
+      expect(userRepository.updateUser).toHaveBeenCalledTimes(1);
+    });
+
+    it("should return 400 on signature verification failure", async () => {
       await request(app)
         .post("/webhooks/stripe")
         .set("stripe-signature", "bad_sig")
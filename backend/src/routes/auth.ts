@@ -404,6 +404,12 @@ router.get('/me', authenticate, async (req: any, res: Response) => {
         lastName: user.lastName,
         profilePictureUrl: user.profilePictureUrl,
         role: user.role,
+        plan: req.user!.plan,
+        subscriptionProvider: user.subscriptionProvider,
+        subscriptionStatus: user.subscriptionStatus,
+        currentPeriodEnd: user.currentPeriodEnd,
+        cancelAtPeriodEnd: user.cancelAtPeriodEnd,
+        trialEnd: user.trialEnd,
       },
     });
   } catch (error) {
@@ -1,18 +1,27 @@
 import { Router, Request, Response } from 'express';
 
 import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
-import { stripeService } from '../services/billing/stripeService.js';
+import { userRepository } from '../repositories/userRepository.js';
+import { CHECKOUT_PLANS, stripeService } from '../services/billing/stripeService.js';
 
 const router = Router();
 
 // Apply authentication middleware to all routes
 router.use(authenticate);
 
-// POST /api/billing/checkout-session
+// POST /api/billing/checkout-session - Stripe Checkout for a paid plan
+// (`{ plan }`, Pro when omitted)
 router.post('/checkout-session', async (req: Request, res: Response) => {
   try {
     const authReq = req as AuthenticatedRequest;
     const { userId, email } = authReq.user!;
+    const plan = req.body?.plan ?? 'pro';
+
+    if (!CHECKOUT_PLANS.includes(plan)) {
+      return res
+        .status(400)
+        .json({ error: `plan must be one of: ${CHECKOUT_PLANS.join(', ')}` });
+    }
 
     if (!email) {
       return res
@@ -20,7 +29,7 @@ router.post('/checkout-session', async (req: Request, res: Response) => {
         .json({ error: 'User email is required for checkout' });
     }
 
-    const url = await stripeService.createCheckoutSession(userId, email);
+    const url = await stripeService.createCheckoutSession(userId, email, plan);
     res.json({ url });
   } catch (error: any) {
     console.error('Create checkout session error:', error);
@@ -30,4 +39,27 @@ router.post('/checkout-session', async (req: Request, res: Response) => {
   }
 });
 
+// POST /api/billing/portal-session - Stripe customer portal for the user's
+// subscription (payment method, plan changes, cancellation)
+router.post('/portal-session', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const user = await userRepository.getUserById(authReq.user!.userId);
+
+    if (!user?.subscriptionCustomerId) {
+      return res
+        .status(400)
+        .json({ error: 'No billing account to manage' });
+    }
+
+    const url = await stripeService.createPortalSession(user.subscriptionCustomerId);
+    res.json({ url });
+  } catch (error: any) {
+    console.error('Create portal session error:', error);
+    res
+      .status(500)
+      .json({ error: error.message || 'Failed to create portal session' });
+  }
+});
+
 export default router;
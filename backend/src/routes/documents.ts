@@ -9,27 +9,87 @@ import { v4 as uuidv4 } from 'uuid';
 import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
 import {
   checkAnalysisLimit,
+  checkDocumentSize,
+  checkLLMBudget,
   checkStorageLimit,
+  checkVisualizationType,
+  MAX_UPLOAD_BYTES,
+  maxUploadBytes,
+  refuseDocumentSize,
 } from '../middleware/usageEnforcement.js';
 import * as analysisRepository from '../repositories/analysisRepository.js';
+import { auditLogsRepository } from '../repositories/auditLogsRepository.js';
 import * as documentRepository from '../repositories/documentRepository.js';
 import { usageLimitsRepository } from '../repositories/usageLimitsRepository.js';
 import { visualizationService } from '../repositories/visualizationService.js';
+import { documentQA } from '../services/analysis/documentQA.js';
+import {
+  isTerminalProgress,
+  progressBroker,
+} from '../services/analysis/progressBroker.js';
 import { textAnalyzer } from '../services/analysis/textAnalyzer.js';
+import { documentComparisonService } from '../services/comparison/documentComparison.js';
 import { documentParser } from '../services/documentParser.js';
-import * as s3Storage from '../services/storage/s3Storage.js';
-import { visualizationGenerator } from '../services/visualization/visualizationGenerator.js';
+import {
+  DIAGRAM_FORMAT_TYPES,
+  EXPORT_FORMATS,
+  exportService,
+} from '../services/export/exportService.js';
+import { SVG_EXPORT_TYPES } from '../services/export/svgRenderer.js';
+import { jobQueue } from '../services/jobs/jobQueue.js';
+import { isBudgetExceeded, withUsageContext } from '../services/llm/usageMeter.js';
+import { searchService } from '../services/search/searchService.js';
+import * as documentStorage from '../services/storage/documentStorage.js';
+import {
+  DIAGRAM_TEXT_IMPORT_FORMATS,
+  detectDiagramTextFormat,
+  parseDiagramText,
+} from '../services/visualization/diagramTextImport.js';
+import {
+  visualizationGenerator,
+  visualizationLockKey,
+} from '../services/visualization/visualizationGenerator.js';
+import {
+  EDITABLE_VISUALIZATION_TYPES,
+  applyOverlay,
+  validatePatchOperations,
+  validateVisualizationData,
+} from '../services/visualization/visualizationOverlay.js';
 import { calculateContentHash } from '../utils/hash.js';
 
-import type { Document, DocumentAnalysis } from '../../shared/src/types.js';
-import type { DocumentRecord, AnalysisRecord } from '../repositories/types.js';
+import type {
+  AskQuestionRequest,
+  CompareDocumentsRequest,
+  Document,
+  DocumentAnalysis,
+  EntityType,
+  ExportRequest,
+  ImportVisualizationRequest,
+  ImportVisualizationResponse,
+  ListVisualizationVersionsResponse,
+  PatchVisualizationResponse,
+  RollbackVisualizationResponse,
+  VisualizationPatchOperation,
+  VisualizationType,
+  VisualizationVersion,
+  VisualizationVersionSummary,
+} from '../../shared/src/types.js';
+import type {
+  DocumentRecord,
+  AnalysisRecord,
+  VisualizationRecord,
+  VisualizationVersionRecord,
+} from '../repositories/types.js';
+import type { ProgressEvent } from '../services/analysis/progressBroker.js';
+import type { Job, JobContext, JobHandler } from '../services/jobs/types.js';
+import type { ImportedDiagram } from '../services/visualization/diagramTextImport.js';
 
 const router = Router();
 
 // CORS middleware
 router.use((req: Request, res: Response, next: NextFunction) => {
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
   res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') {
@@ -42,43 +102,45 @@ router.use((req: Request, res: Response, next: NextFunction) => {
 // Apply authentication middleware to all routes
 router.use(authenticate);
 
-// Store for progress tracking with partial results
-interface ProgressInfo {
-  step: string;
-  progress: number;
-  message: string;
-  partialAnalysis?: Partial<DocumentAnalysis>;
-}
-const progressStore = new Map<string, ProgressInfo>();
+// Keep-alive comment interval for progress streams, below common proxy idle timeouts
+const SSE_HEARTBEAT_MS = 15000;
 
-// Configure multer for file uploads
-const upload = multer({
+// Configure multer for file uploads; the size limit is set per request from the user's plan
+const uploadOptions: multer.Options = {
   storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 1024 * 1024 * 1024, // 1GB
-  },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ['text/plain', 'application/pdf', 'text/markdown'];
+    const allowedTypes = [
+      'text/plain',
+      'application/pdf',
+      'text/markdown',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'text/html',
+      'application/xhtml+xml',
+      'application/epub+zip',
+    ];
     if (
       allowedTypes.includes(file.mimetype)
-      || file.originalname.match(/\.(txt|pdf|md)$/)
+      || file.originalname.match(/\.(txt|pdf|md|docx|html?|xhtml|epub)$/i)
     ) {
       cb(null, true);
     } else {
       cb(
         new Error(
-          'Invalid file type. Only .txt, .pdf, and .md files are allowed.',
+          'Invalid file type. Only .txt, .md, .pdf, .docx, .html, and .epub files are allowed.',
         ),
       );
     }
   },
-});
+};
 
 // In-memory storage (replace with database in production)
 export const documents = new Map<string, Document>();
 export const analyses = new Map<string, DocumentAnalysis>();
 export const documentOwners = new Map<string, string>(); // documentId -> userId
 
+// Longest question accepted by POST /:id/ask
+const MAX_QUESTION_LENGTH = 2000;
+
 
 // Helper to log graph JSON to /tmp
 async function logGraphJson(
@@ -99,6 +161,42 @@ async function logGraphJson(
   }
 }
 
+// Helper to check ownership without loading the document content
+async function isDocumentOwner(id: string, userId: string): Promise<boolean> {
+  if (documents.has(id)) {
+    return documentOwners.get(id) === userId;
+  }
+  const docRecord = await documentRepository.findById(id);
+  return !!docRecord && docRecord.userId === userId;
+}
+
+// Helper to load a document the user owns, from memory or DynamoDB/S3
+async function loadOwnedDocument(
+  id: string,
+  userId: string,
+): Promise<Document | null> {
+  const docInMemory = documents.get(id);
+  if (docInMemory) {
+    return documentOwners.get(id) === userId ? docInMemory : null;
+  }
+
+  const docRecord = await documentRepository.findById(id);
+  if (!docRecord || docRecord.userId !== userId) {
+    return null;
+  }
+
+  const contentBuffer = await documentStorage.downloadDocument(docRecord.s3Key);
+  const document = await documentParser.parseDocument(
+    contentBuffer,
+    docRecord.filename,
+    docRecord.documentId,
+  );
+
+  documents.set(id, document);
+  documentOwners.set(id, userId);
+  return document;
+}
+
 // Helper to create document list item
 function toDocumentListItem(doc: Document): any {
   const analysis = analyses.get(doc.id);
@@ -113,14 +211,307 @@ function toDocumentListItem(doc: Document): any {
   };
 }
 
+// Most documents accepted by POST /bulk-delete in one request
+const MAX_BULK_DELETE = 100;
+
+/**
+ * Delete a document the user owns together with everything derived from it:
+ * analysis, visualizations, the S3 object (unless another record points at the
+ * same key) and the in-memory session state. Returns false when the user does
+ * not own the document.
+ */
+async function deleteOwnedDocument(
+  id: string,
+  userId: string,
+  req: Request,
+): Promise<boolean> {
+  const docRecord = await documentRepository.findById(id);
+  if (docRecord ? docRecord.userId !== userId : documentOwners.get(id) !== userId) {
+    return false;
+  }
+
+  if (docRecord) {
+    await visualizationService.deleteAllForDocument(id);
+    await analysisRepository.deleteAnalysis(id);
+
+    // Keys are documents/{hash}/{filename}, so only records with the same hash can share one
+    const sharing = await documentRepository.findByContentHash(docRecord.contentHash);
+    if (sharing.some((record) => record.documentId !== id && record.s3Key === docRecord.s3Key)) {
+      console.log(`📎 Keeping S3 object ${docRecord.s3Key}, still referenced by other documents`);
+    } else {
+      await documentStorage.deleteDocument(docRecord.s3Key);
+    }
+
+    await documentRepository.deleteDocument(id);
+  }
+
+  documents.delete(id);
+  documentOwners.delete(id);
+  analyses.delete(id);
+  documentQA.clearHistory(id);
+  searchService.removeDocument(id);
+
+  // The document is gone at this point; audit failures are logged, not returned
+  try {
+    await auditLogsRepository.logDocumentDeletion(
+      userId,
+      id,
+      docRecord?.filename || id,
+      req.ip,
+      req.headers['user-agent'],
+    );
+  } catch (error) {
+    console.error(`Failed to record deletion of ${id}:`, error);
+  }
+
+  console.log(`🗑️ Deleted document ${id}`);
+  return true;
+}
+
+interface AnalysisJobPayload {
+  documentId: string;
+  userId: string;
+  filename: string;
+  // Set for direct text analysis; stored as-is instead of the parsed content
+  text?: string;
+}
+
+interface VisualizationJobPayload {
+  documentId: string;
+  visualizationType: VisualizationType;
+  force: boolean;
+}
+
+const analysisLockKey = (documentId: string) => `analysis-lock:${documentId}`;
+
+// `?async=true` (or `async: true` in the body) returns 202 with the job id instead of waiting
+const wantsAsync = (req: Request) =>
+  req.query.async === 'true' || req.body?.async === true;
+
+// 402 when the job was refused because its owner's LLM budget is used up
+const failedJobStatus = (job: Job) => {
+  if (job.status === 'cancelled') return 409;
+  return isBudgetExceeded(job.error) ? 402 : 500;
+};
+
+// LLM calls made by a job are metered against its owner and document
+function metered<TPayload, TResult>(
+  handler: JobHandler<TPayload, TResult>,
+): JobHandler<TPayload, TResult> {
+  return (payload, context) => withUsageContext(
+    { userId: context.ownerId, documentId: context.documentId },
+    () => handler(payload, context),
+  );
+}
+
+// Runs the full analysis pipeline for a queued job and returns the response body
+async function runAnalysisJob(payload: AnalysisJobPayload, context: JobContext) {
+  const document = documents.get(payload.documentId);
+  if (!document) {
+    throw new Error(`Document ${payload.documentId} is no longer loaded`);
+  }
+  const { filename } = payload;
+  const buffer = Buffer.from(payload.text ?? document.content, 'utf-8');
+  const startTime = Date.now();
+
+  // A cancelled job must not leave an open progress stream behind
+  const onCancel = () =>
+    progressBroker.publish(document.id, {
+      step: 'error',
+      progress: 0,
+      message: 'Analysis cancelled',
+    });
+  context.signal.addEventListener('abort', onCancel);
+
+  try {
+    // Progress callback to send updates with partial results
+    const onProgress = (
+      step: string,
+      progress: number,
+      message: string,
+      partialAnalysis?: Partial<DocumentAnalysis>,
+    ) => {
+      console.log(`[${document.id}] ${progress}% - ${message}`);
+      // The final 'complete' event is published once the analysis is stored in memory
+      if (step === 'complete' || context.signal.aborted) return;
+      progressBroker.publish(document.id, {
+        step,
+        progress,
+        message,
+        partialAnalysis,
+      });
+    };
+
+    let analysisResult;
+    try {
+      analysisResult = await textAnalyzer.analyzeDocument(document, onProgress);
+    } catch (analysisError: any) {
+      if (!context.signal.aborted) {
+        const retrying = context.attempt < context.maxAttempts;
+        progressBroker.publish(document.id, {
+          step: retrying ? 'retrying' : 'error',
+          progress: 0,
+          message: retrying
+            ? `Analysis failed, retrying (attempt ${context.attempt + 1} of ${context.maxAttempts})...`
+            : analysisError.message || 'Analysis failed',
+        });
+      }
+      throw analysisError;
+    }
+
+    if (context.signal.aborted) {
+      throw new Error('Analysis cancelled');
+    }
+
+    // Increment analysis usage count
+    await usageLimitsRepository.incrementAnalysisCount(payload.userId);
+
+    const { metadata: analysisMetadata, ...analysis } = analysisResult;
+    const processingTime = Date.now() - startTime;
+
+    // Store analysis and close the progress stream
+    analyses.set(document.id, analysis);
+    document.analysis = analysis;
+    progressBroker.publish(document.id, {
+      step: 'complete',
+      progress: 100,
+      message: 'Analysis complete!',
+    });
+
+    // Store in DynamoDB + S3
+    try {
+      const contentHash = calculateContentHash(buffer.toString('utf-8'));
+
+      console.log('💾 Storing document in S3 and DynamoDB...');
+
+      // Upload to S3
+      const s3Result = await documentStorage.uploadDocument(
+        contentHash,
+        filename,
+        buffer,
+      );
+
+      // Store document metadata using the document's own ID
+      const documentRecord: DocumentRecord = {
+        documentId: document.id,
+        userId: payload.userId,
+        contentHash,
+        filename,
+        s3Path: s3Result.path,
+        s3Bucket: s3Result.bucket,
+        s3Key: s3Result.key,
+        contentType: document.metadata.fileType,
+        fileSize: buffer.length,
+        wordCount: document.metadata.wordCount || 0,
+        hasAnalysis: true,
+        uploadedAt: new Date().toISOString(),
+        lastAccessedAt: new Date().toISOString(),
+        accessCount: 1,
+      };
+
+      await documentRepository.create(documentRecord);
+
+      // Store analysis using the document's own ID
+      const analysisRecord: AnalysisRecord = {
+        documentId: document.id,
+        analysisVersion: 'v1.0',
+        analysis,
+        llmMetadata: {
+          model: analysisMetadata?.models.join(', ') || 'unknown',
+          tokensUsed: analysisMetadata?.tokensUsed || 0,
+          processingTime,
+          timestamp: new Date().toISOString(),
+          ...(analysisMetadata?.promptVersion && { promptVersion: analysisMetadata.promptVersion }),
+          ...(analysisMetadata?.validationFailures && {
+            validationFailures: analysisMetadata.validationFailures,
+          }),
+        },
+        createdAt: new Date().toISOString(),
+      };
+
+      await analysisRepository.create(analysisRecord);
+
+      console.log(`✅ Document stored with ID: ${document.id}`);
+    } catch (storageError) {
+      console.error('❌ Storage error:', storageError);
+      if (storageError instanceof Error) {
+        console.error('Stack:', storageError.stack);
+      }
+      // Return analysis even if storage fails
+    }
+
+    await searchService.indexDocument(payload.userId, document, analysis);
+
+    return {
+      documentId: document.id,
+      document,
+      analysis,
+      processingTime,
+      cached: false,
+    };
+  } finally {
+    context.signal.removeEventListener('abort', onCancel);
+  }
+}
+
+// Generates one visualization for a queued job; the route loads the document first
+async function runVisualizationJob(payload: VisualizationJobPayload, context: JobContext) {
+  const { documentId, visualizationType, force } = payload;
+  // Cancelling only aborts the signal, so every stage checks it before going on
+  const throwIfCancelled = () => {
+    if (context.signal.aborted) {
+      throw new Error('Visualization cancelled');
+    }
+  };
+
+  const document = documents.get(documentId);
+  if (!document) {
+    throw new Error(`Document ${documentId} is no longer loaded`);
+  }
+
+  // The in-memory copy is gone after a restart or eviction
+  const analysis = analyses.get(documentId)
+    || (await analysisRepository.findByDocumentId(documentId))?.analysis;
+  if (!analysis && visualizationType !== 'structured-view') {
+    throw new Error(`Document ${documentId} has no analysis to visualize`);
+  }
+  throwIfCancelled();
+
+  const data = await visualizationGenerator.generateVisualization(
+    visualizationType,
+    document,
+    // Only the structured view is generated without an analysis
+    analysis as DocumentAnalysis,
+    force,
+  );
+  throwIfCancelled();
+
+  if (visualizationType === 'terms-definitions') {
+    await searchService.indexGlossary(documentId, data?.terms || []);
+    throwIfCancelled();
+  }
+
+  // Log the graph JSON
+  await logGraphJson(documentId, visualizationType, data);
+  return data;
+}
+
+jobQueue.registerHandler('analysis', metered(runAnalysisJob));
+jobQueue.registerHandler('visualization', metered(runVisualizationJob));
+
 // POST /api/documents/upload
 router.post(
   '/upload',
   checkStorageLimit,
   (req: Request, res: Response, next: NextFunction) => {
+    const maxBytes = maxUploadBytes(req as AuthenticatedRequest);
+    const upload = multer({ ...uploadOptions, limits: { fileSize: maxBytes } });
     upload.single('file')(req, res, (err: any) => {
       if (err instanceof multer.MulterError) {
         if (err.code === 'LIMIT_FILE_SIZE') {
+          if (maxBytes < MAX_UPLOAD_BYTES) {
+            return refuseDocumentSize(req as AuthenticatedRequest, res);
+          }
           return res
             .status(413)
             .json({ error: 'File too large. Maximum size is 1GB.' });
@@ -132,6 +523,7 @@ router.post(
       next();
     });
   },
+  checkDocumentSize,
   async (req: Request, res: Response) => {
     try {
       const authReq = req as AuthenticatedRequest;
@@ -168,7 +560,7 @@ router.post(
           console.log('💾 Storing document in S3 and DynamoDB...');
 
           // Upload to S3
-          const s3Result = await s3Storage.uploadDocument(
+          const s3Result = await documentStorage.uploadDocument(
             contentHash,
             filename,
             buffer,
@@ -204,6 +596,12 @@ router.post(
         }
       }
 
+      // Embedding the passages calls the LLM provider, so it is metered like analysis
+      await withUsageContext(
+        { userId: authReq.user!.userId, documentId: document.id },
+        () => searchService.indexDocument(authReq.user!.userId, document),
+      );
+
       res.json({
         documentId: document.id,
         message: 'Document uploaded successfully',
@@ -222,6 +620,8 @@ router.post(
 router.post(
   '/analyze',
   checkAnalysisLimit,
+  checkDocumentSize,
+  checkLLMBudget,
   async (req: Request, res: Response) => {
     try {
       const authReq = req as AuthenticatedRequest;
@@ -296,6 +696,11 @@ router.post(
                 documents.set(cachedDoc.documentId, document);
                 documentOwners.set(cachedDoc.documentId, authReq.user!.userId);
                 analyses.set(cachedDoc.documentId, cachedAnalysis.analysis);
+                progressBroker.publish(document.id, {
+                  step: 'complete',
+                  progress: 100,
+                  message: 'Loaded cached analysis',
+                });
 
                 return res.json({
                   documentId: cachedDoc.documentId,
@@ -325,113 +730,46 @@ router.post(
         }
       }
 
-      // Progress callback to send updates with partial results
-      const onProgress = (
-        step: string,
-        progress: number,
-        message: string,
-        partialAnalysis?: Partial<DocumentAnalysis>,
-      ) => {
-        console.log(`[${document.id}] ${progress}% - ${message}`);
-        progressStore.set(document.id, {
-          step,
-          progress,
-          message,
-          partialAnalysis,
-        });
-      };
-
-      const analysisResult = await textAnalyzer.analyzeDocument(
-        document,
-        onProgress,
-      );
-
-      // Increment analysis usage count
-      await usageLimitsRepository.incrementAnalysisCount(authReq.user!.userId);
-
-      const { metadata: analysisMetadata, ...analysis } = analysisResult;
-      const processingTime = Date.now() - startTime;
-
-      // Clear progress and store analysis
-      progressStore.delete(document.id);
-      analyses.set(document.id, analysis);
-      document.analysis = analysis;
-
-      // Store in DynamoDB + S3
-      if (buffer) {
-        try {
-          const contentHash = calculateContentHash(buffer.toString('utf-8'));
-
-          console.log('💾 Storing document in S3 and DynamoDB...');
-
-          // Upload to S3
-          const s3Result = await s3Storage.uploadDocument(
-            contentHash,
-            filename,
-            buffer,
-          );
-
-          // Store document metadata using the document's own ID
-          const documentRecord: DocumentRecord = {
+      // Clients connecting before the job publishes must not replay the previous run
+      progressBroker.start(document.id);
+      let job;
+      try {
+        job = await jobQueue.submit<AnalysisJobPayload>({
+          type: 'analysis',
+          lockKey: analysisLockKey(document.id),
+          ownerId: authReq.user!.userId,
+          documentId: document.id,
+          payload: {
             documentId: document.id,
             userId: authReq.user!.userId,
-            contentHash,
             filename,
-            s3Path: s3Result.path,
-            s3Bucket: s3Result.bucket,
-            s3Key: s3Result.key,
-            contentType: document.metadata.fileType,
-            fileSize: buffer.length,
-            wordCount: document.metadata.wordCount || 0,
-            hasAnalysis: true,
-            uploadedAt: new Date().toISOString(),
-            lastAccessedAt: new Date().toISOString(),
-            accessCount: 1,
-          };
-
-          await documentRepository.create(documentRecord);
-
-          // Store analysis using the document's own ID
-          const analysisRecord: AnalysisRecord = {
-            documentId: document.id,
-            analysisVersion: 'v1.0',
-            analysis,
-            llmMetadata: {
-              model: analysisMetadata?.models.join(', ') || 'unknown',
-              tokensUsed: analysisMetadata?.tokensUsed || 0,
-              processingTime,
-              timestamp: new Date().toISOString(),
-            },
-            createdAt: new Date().toISOString(),
-          };
-
-          await analysisRepository.create(analysisRecord);
+            text: documentId ? undefined : text,
+          },
+        });
+      } catch (submitError) {
+        // No job will ever publish to the stream started above, so close it here
+        progressBroker.publish(document.id, {
+          step: 'error',
+          progress: 0,
+          message: 'Analysis could not be queued',
+        });
+        throw submitError;
+      }
 
-          console.log(`✅ Document stored with ID: ${document.id}`);
+      if (wantsAsync(req)) {
+        return res.status(202).json({ jobId: job.id, status: job.status, documentId: document.id });
+      }
 
-          return res.json({
-            documentId: document.id,
-            document,
-            analysis,
-            processingTime,
-            cached: false,
-          });
-        } catch (storageError) {
-          console.error('❌ Storage error:', storageError);
-          if (storageError instanceof Error) {
-            console.error('Stack:', storageError.stack);
-          }
-          // Return analysis even if storage fails
-        }
+      // Waiting only ties the response to the job; the work continues if the client disconnects
+      const finished = await jobQueue.waitFor(job.id);
+      if (finished.status !== 'succeeded') {
+        return res.status(failedJobStatus(finished)).json({
+          error: finished.error || 'Failed to analyze document',
+          jobId: finished.id,
+        });
       }
 
-      res.json({
-        documentId: document.id,
-        document,
-        analysis,
-        processingTime,
-        cached: false,
-      });
+      res.json(finished.result);
     } catch (error: any) {
       console.error('Analysis error:', error);
       res
@@ -441,47 +779,58 @@ router.post(
   },
 );
 
-// GET /api/documents/search - Search documents (must be before /:id route)
-router.get('/search', (req: Request, res: Response) => {
+// Default and largest page size of GET /search
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 50;
+
+// Comma-separated query parameter as a list
+const listParam = (value: unknown): string[] | undefined =>
+  (typeof value === 'string' && value.trim()
+    ? value.split(',').map((item) => item.trim()).filter(Boolean)
+    : undefined);
+
+// Date query parameter; null when present but invalid
+const dateParam = (value: unknown): Date | undefined | null => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// GET /api/documents/search - Full-text search over content, sections, summaries,
+// entities and glossary terms (must be before /:id route)
+router.get('/search', async (req: Request, res: Response) => {
   try {
     const authReq = req as AuthenticatedRequest;
-    const query = ((req.query.q as string) || '').toLowerCase().trim();
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
 
     if (!query) {
       return res.json({ documents: [], total: 0, query: '' });
     }
 
-    // Search in filename, tldr, and summary - ONLY for user's documents
-    const matchingDocs = Array.from(documents.values())
-      .filter((doc) => {
-        // Check ownership
-        if (documentOwners.get(doc.id) !== authReq.user!.userId) {
-          return false;
-        }
-
-        const analysis = analyses.get(doc.id);
-        const titleMatch = doc.title.toLowerCase().includes(query);
-        // TLDR is now an object with a text field
-        const tldrMatch = analysis?.tldr?.text?.toLowerCase().includes(query);
-        const summaryMatch = analysis?.executiveSummary?.headline
-          ?.toLowerCase()
-          .includes(query);
-
-        return titleMatch || tldrMatch || summaryMatch;
-      })
-      .sort(
-        (a, b) =>
-          new Date(b.metadata.uploadDate).getTime()
-          - new Date(a.metadata.uploadDate).getTime(),
-      );
+    const from = dateParam(req.query.from);
+    const to = dateParam(req.query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'from and to must be valid dates' });
+    }
 
-    const documentList = matchingDocs.map(toDocumentListItem);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string) || DEFAULT_SEARCH_LIMIT, 1),
+      MAX_SEARCH_LIMIT,
+    );
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    const response = await withUsageContext({ userId: authReq.user!.userId }, () =>
+      searchService.search(authReq.user!.userId, query, {
+        fileTypes: listParam(req.query.fileType),
+        entityTypes: listParam(req.query.entityType) as EntityType[] | undefined,
+        from,
+        to,
+        limit,
+        offset,
+        semantic: req.query.semantic === 'true',
+      }));
 
-    res.json({
-      documents: documentList,
-      total: matchingDocs.length,
-      query,
-    });
+    res.json(response);
   } catch (error: any) {
     console.error('Search documents error:', error);
     res
@@ -505,6 +854,92 @@ router.get('/stats', async (req: Request, res: Response) => {
   }
 });
 
+// POST /api/documents/bulk-delete - Delete several documents (must be before /:id routes)
+router.post('/bulk-delete', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { documentIds } = req.body || {};
+
+    if (
+      !Array.isArray(documentIds)
+      || documentIds.length === 0
+      || !documentIds.every((id) => typeof id === 'string' && id)
+    ) {
+      return res.status(400).json({ error: 'documentIds must be a non-empty array of ids' });
+    }
+    if (documentIds.length > MAX_BULK_DELETE) {
+      return res.status(400).json({
+        error: `At most ${MAX_BULK_DELETE} documents can be deleted at once`,
+      });
+    }
+
+    const deleted: string[] = [];
+    const notFound: string[] = [];
+    const failed: string[] = [];
+    for (const id of new Set<string>(documentIds)) {
+      try {
+        const removed = await deleteOwnedDocument(id, authReq.user!.userId, req);
+        (removed ? deleted : notFound).push(id);
+      } catch (error) {
+        console.error(`Bulk delete failed for ${id}:`, error);
+        failed.push(id);
+      }
+    }
+
+    res.status(failed.length > 0 ? 500 : 200).json({ deleted, notFound, failed });
+  } catch (error: any) {
+    console.error('Bulk delete error:', error);
+    res
+      .status(500)
+      .json({ error: error.message || 'Failed to delete documents' });
+  }
+});
+
+// POST /api/documents/compare - Diff two documents, or two versions of one (must be before /:id routes)
+router.post('/compare', checkLLMBudget, async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { leftDocumentId, rightDocumentId } = (req.body || {}) as CompareDocumentsRequest;
+
+    if (
+      !leftDocumentId
+      || !rightDocumentId
+      || typeof leftDocumentId !== 'string'
+      || typeof rightDocumentId !== 'string'
+    ) {
+      return res.status(400).json({ error: 'leftDocumentId and rightDocumentId are required' });
+    }
+    if (leftDocumentId === rightDocumentId) {
+      return res.status(400).json({ error: 'Choose two different documents to compare' });
+    }
+
+    const left = await loadOwnedDocument(leftDocumentId, authReq.user!.userId);
+    const right = await loadOwnedDocument(rightDocumentId, authReq.user!.userId);
+    if (!left || !right) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    const loadAnalysis = async (id: string) => analyses.get(id)
+      || (await analysisRepository.findByDocumentId(id))?.analysis;
+
+    // Billed to the newer document, whose changes are summarised
+    const comparison = await withUsageContext(
+      { userId: authReq.user!.userId, documentId: rightDocumentId },
+      async () => documentComparisonService.compare(
+        { document: left, analysis: await loadAnalysis(leftDocumentId) },
+        { document: right, analysis: await loadAnalysis(rightDocumentId) },
+      ),
+    );
+
+    res.json(comparison);
+  } catch (error: any) {
+    console.error('Compare error:', error);
+    res
+      .status(isBudgetExceeded(error) ? 402 : 500)
+      .json({ error: error.message || 'Failed to compare documents' });
+  }
+});
+
 // GET /api/documents/:id
 router.get('/:id', async (req: Request, res: Response) => {
   const authReq = req as AuthenticatedRequest;
@@ -569,9 +1004,97 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+// DELETE /api/documents/:id - Delete a document and everything derived from it
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!(await deleteOwnedDocument(id, authReq.user!.userId, req))) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Delete document error:', error);
+    res
+      .status(500)
+      .json({ error: error.message || 'Failed to delete document' });
+  }
+});
+
+// POST /api/documents/:id/visualizations/import - Replace a visualization with a Mermaid/PlantUML diagram
+router.post('/:id/visualizations/import', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+    const { source, format } = (req.body || {}) as Partial<ImportVisualizationRequest>;
+
+    if (typeof source !== 'string' || !source.trim()) {
+      return res.status(400).json({ error: 'Diagram source is required' });
+    }
+    if (format !== undefined && !DIAGRAM_TEXT_IMPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        error: `Format must be one of: ${DIAGRAM_TEXT_IMPORT_FORMATS.join(', ')}`,
+      });
+    }
+
+    const docRecord = await documentRepository.findById(id);
+    if (!docRecord || docRecord.userId !== authReq.user!.userId) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    let imported: ImportedDiagram;
+    try {
+      imported = parseDiagramText(source, format);
+    } catch (parseError: any) {
+      return res.status(422).json({ error: parseError.message || 'Diagram could not be parsed' });
+    }
+
+    // An import replaces the diagram outright, edits on the previous one included
+    const now = new Date().toISOString();
+    const version = await visualizationService.save(
+      {
+        documentId: id,
+        visualizationType: imported.type,
+        visualizationData: imported.data,
+        generatedData: imported.data,
+        overrides: [],
+        llmMetadata: {
+          model: 'import',
+          tokensUsed: 0,
+          processingTime: 0,
+          timestamp: now,
+        },
+        createdAt: now,
+        updatedAt: now,
+      },
+      'import',
+    );
+
+    console.log(
+      `📥 Imported ${imported.type} for document ${id} from ${format || detectDiagramTextFormat(source)} (v${version})`,
+    );
+
+    const response: ImportVisualizationResponse = {
+      type: imported.type,
+      data: imported.data,
+      version,
+      warnings: imported.warnings,
+    };
+    res.json(response);
+  } catch (error: any) {
+    console.error('Import visualization error:', error);
+    res
+      .status(500)
+      .json({ error: error.message || 'Failed to import visualization' });
+  }
+});
+
 // POST /api/documents/:id/visualizations/:type
 router.post(
   '/:id/visualizations/:type',
+  checkVisualizationType,
   async (req: Request, res: Response) => {
     try {
       const authReq = req as AuthenticatedRequest;
@@ -609,7 +1132,7 @@ router.post(
             console.log(`✅ Found in DynamoDB: ${docRecord.filename}`);
 
             // Load content from S3 and reconstruct document with proper structure, preserving original ID
-            const contentBuffer = await s3Storage.downloadDocument(
+            const contentBuffer = await documentStorage.downloadDocument(
               docRecord.s3Key,
             );
             const content = contentBuffer.toString('utf-8');
@@ -668,21 +1191,33 @@ router.post(
         `📊 Sections count: ${document.structure?.sections?.length || 0}`,
       );
 
-      // Generate visualization (analysis may be undefined for structured-view)
-      const data = await visualizationGenerator.generateVisualization(
-        type as any,
-        document,
-        analysis as any,
-        force,
-      );
+      // Generate through the job queue (analysis may be undefined for structured-view);
+      // concurrent requests for the same document and type join one job
+      const job = await jobQueue.submit<VisualizationJobPayload>({
+        type: 'visualization',
+        lockKey: visualizationLockKey(id, type),
+        ownerId: authReq.user!.userId,
+        documentId: id,
+        payload: { documentId: id, visualizationType: type as VisualizationType, force },
+      });
+
+      if (wantsAsync(req)) {
+        return res.status(202).json({ jobId: job.id, status: job.status, type });
+      }
+
+      const finished = await jobQueue.waitFor(job.id);
+      if (finished.status !== 'succeeded') {
+        return res.status(failedJobStatus(finished)).json({
+          error: finished.error || 'Failed to generate visualization',
+          jobId: finished.id,
+        });
+      }
+      const data = finished.result;
 
       console.log(`✅ Visualization generation completed for ${type}`);
       console.log(`📤 Response data type: ${typeof data}`);
       console.log('📊 Data keys:', Object.keys(data || {}));
 
-      // Log the graph JSON
-      await logGraphJson(id, type, data);
-
       res.json({
         type,
         data,
@@ -722,6 +1257,9 @@ router.get('/:id/visualizations/:type', async (req: Request, res: Response) => {
         data: existingVisualization.visualizationData,
         cached: true,
         metadata: existingVisualization.llmMetadata,
+        ...(existingVisualization.overrides && {
+          overrides: existingVisualization.overrides,
+        }),
       });
     } else {
       res.status(404).json({
@@ -737,6 +1275,223 @@ router.get('/:id/visualizations/:type', async (req: Request, res: Response) => {
   }
 });
 
+// PATCH /api/documents/:id/visualizations/:type - Apply user edits as an overlay
+router.patch('/:id/visualizations/:type', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id, type } = req.params;
+
+    const docRecord = await documentRepository.findById(id);
+    if (!docRecord || docRecord.userId !== authReq.user!.userId) {
+      return res.status(404).json({ error: 'Visualization not found' });
+    }
+
+    if (!EDITABLE_VISUALIZATION_TYPES.includes(type as VisualizationType)) {
+      return res
+        .status(400)
+        .json({ error: `Visualization type ${type} is not editable` });
+    }
+
+    const operationErrors = validatePatchOperations(req.body);
+    if (operationErrors.length > 0) {
+      return res
+        .status(400)
+        .json({ error: 'Invalid patch operations', details: operationErrors });
+    }
+
+    const existing = await visualizationService.findByDocumentIdAndType(id, type);
+    if (!existing) {
+      return res.status(404).json({ error: 'Visualization not found' });
+    }
+
+    // Edits always replay on top of the original LLM output
+    const generatedData = existing.generatedData ?? existing.visualizationData;
+    const operations: VisualizationPatchOperation[] = [
+      ...(existing.overrides || []),
+      ...req.body,
+    ];
+    const result = applyOverlay(generatedData, operations);
+
+    if (result.rejected.length > 0) {
+      return res.status(422).json({
+        error: 'Patch could not be applied',
+        details: result.rejected.map(
+          ({ operation, reason }) => `${operation.op} ${operation.path}: ${reason}`,
+        ),
+      });
+    }
+
+    // Only reject problems the edits introduced; generated data is not always strictly typed
+    const baseErrors = new Set(validateVisualizationData(type, generatedData));
+    const dataErrors = validateVisualizationData(type, result.data).filter(
+      (dataError) => !baseErrors.has(dataError),
+    );
+    if (dataErrors.length > 0) {
+      return res.status(422).json({
+        error: `Edited data is not a valid ${type}`,
+        details: dataErrors,
+      });
+    }
+
+    // Per-type stores replace the whole item, so write the full record
+    const version = await visualizationService.save(
+      {
+        ...existing,
+        visualizationData: result.data,
+        generatedData,
+        overrides: operations,
+        updatedAt: new Date().toISOString(),
+      },
+      'edit',
+    );
+
+    console.log(
+      `✏️ Applied ${req.body.length} edit(s) to ${type} for document ${id} (v${version})`,
+    );
+
+    const response: PatchVisualizationResponse = {
+      type: type as VisualizationType,
+      data: result.data,
+      overrides: operations,
+      version,
+    };
+    res.json(response);
+  } catch (error: any) {
+    console.error('Patch visualization error:', error);
+    res
+      .status(500)
+      .json({ error: error.message || 'Failed to update visualization' });
+  }
+});
+
+function toVersionSummary(
+  record: VisualizationVersionRecord,
+): VisualizationVersionSummary {
+  return {
+    version: record.version,
+    source: record.source,
+    ...(record.restoredFrom !== undefined && { restoredFrom: record.restoredFrom }),
+    llmMetadata: record.llmMetadata,
+    createdAt: record.updatedAt,
+  };
+}
+
+function parseVersion(value: string): number | null {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+// GET /api/documents/:id/visualizations/:type/versions - List the version history
+router.get(
+  '/:id/visualizations/:type/versions',
+  async (req: Request, res: Response) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const { id, type } = req.params;
+
+      const docRecord = await documentRepository.findById(id);
+      if (!docRecord || docRecord.userId !== authReq.user!.userId) {
+        return res.status(404).json({ error: 'Visualization not found' });
+      }
+
+      const versions = await visualizationService.listVersions(id, type);
+      const response: ListVisualizationVersionsResponse = {
+        type: type as VisualizationType,
+        versions: versions.map(toVersionSummary),
+      };
+      res.json(response);
+    } catch (error: any) {
+      console.error('List visualization versions error:', error);
+      res
+        .status(500)
+        .json({ error: error.message || 'Failed to list visualization versions' });
+    }
+  },
+);
+
+// GET /api/documents/:id/visualizations/:type/versions/:version - Get one version
+router.get(
+  '/:id/visualizations/:type/versions/:version',
+  async (req: Request, res: Response) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const { id, type } = req.params;
+
+      const version = parseVersion(req.params.version);
+      if (version === null) {
+        return res.status(400).json({ error: 'Version must be a positive integer' });
+      }
+
+      const docRecord = await documentRepository.findById(id);
+      if (!docRecord || docRecord.userId !== authReq.user!.userId) {
+        return res.status(404).json({ error: 'Visualization not found' });
+      }
+
+      const record = await visualizationService.findVersion(id, type, version);
+      if (!record) {
+        return res.status(404).json({ error: `Version ${version} not found` });
+      }
+
+      const response: VisualizationVersion = {
+        ...toVersionSummary(record),
+        type: type as VisualizationType,
+        data: record.visualizationData,
+        ...(record.overrides && { overrides: record.overrides }),
+      };
+      res.json(response);
+    } catch (error: any) {
+      console.error('Get visualization version error:', error);
+      res
+        .status(500)
+        .json({ error: error.message || 'Failed to get visualization version' });
+    }
+  },
+);
+
+// POST /api/documents/:id/visualizations/:type/versions/:version/rollback - Restore a version
+router.post(
+  '/:id/visualizations/:type/versions/:version/rollback',
+  async (req: Request, res: Response) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const { id, type } = req.params;
+
+      const version = parseVersion(req.params.version);
+      if (version === null) {
+        return res.status(400).json({ error: 'Version must be a positive integer' });
+      }
+
+      const docRecord = await documentRepository.findById(id);
+      if (!docRecord || docRecord.userId !== authReq.user!.userId) {
+        return res.status(404).json({ error: 'Visualization not found' });
+      }
+
+      const restored = await visualizationService.rollback(id, type, version);
+      if (!restored) {
+        return res.status(404).json({ error: `Version ${version} not found` });
+      }
+
+      console.log(
+        `⏪ Rolled back ${type} for document ${id} to v${version} (now v${restored.version})`,
+      );
+
+      const response: RollbackVisualizationResponse = {
+        type: type as VisualizationType,
+        data: restored.visualizationData,
+        overrides: restored.overrides || [],
+        version: restored.version!,
+        restoredFrom: version,
+      };
+      res.json(response);
+    } catch (error: any) {
+      console.error('Rollback visualization error:', error);
+      res
+        .status(500)
+        .json({ error: error.message || 'Failed to roll back visualization' });
+    }
+  },
+);
+
 // GET /api/documents/:id/visualizations - Get all visualizations for a document
 router.get('/:id/visualizations', async (req: Request, res: Response) => {
   try {
@@ -780,7 +1535,7 @@ router.get('/:id/visualizations', async (req: Request, res: Response) => {
 // GET /api/documents/:id/progress - Get analysis progress
 router.get('/:id/progress', (req: Request, res: Response) => {
   const { id } = req.params;
-  const progress = progressStore.get(id);
+  const progress = progressBroker.latest(id);
 
   if (progress) {
     res.json(progress);
@@ -793,6 +1548,211 @@ router.get('/:id/progress', (req: Request, res: Response) => {
   }
 });
 
+// GET /api/documents/:id/progress/stream - Server-Sent Events for analysis progress
+router.get('/:id/progress/stream', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!(await isDocumentOwner(id, authReq.user!.userId))) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write('retry: 2000\n\n');
+
+    let closed = false;
+    let unsubscribe = () => {};
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+    const send = (event: ProgressEvent) => {
+      if (closed) return;
+      res.write(
+        `id: ${event.id}\nevent: progress\ndata: ${JSON.stringify(event.progress)}\n\n`,
+      );
+      if (isTerminalProgress(event.progress)) close();
+    };
+
+    // Resume after a dropped connection; EventSource sends the header itself
+    const lastEventId
+      = Number(req.headers['last-event-id'] ?? req.query.lastEventId) || 0;
+    const missed = progressBroker.replay(id, lastEventId);
+
+    req.on('close', close);
+    unsubscribe = progressBroker.subscribe(id, send);
+    missed.forEach(send);
+  } catch (error: any) {
+    console.error('Progress stream error:', error);
+    if (!res.headersSent) {
+      res
+        .status(500)
+        .json({ error: error.message || 'Failed to stream progress' });
+    }
+  }
+});
+
+// POST /api/documents/:id/ask - Ask a question about the document
+router.post('/:id/ask', checkLLMBudget, async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+    const { question } = (req.body || {}) as AskQuestionRequest;
+
+    if (typeof question !== 'string' || !question.trim()) {
+      return res.status(400).json({ error: 'Question is required' });
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return res.status(400).json({
+        error: `Question must be at most ${MAX_QUESTION_LENGTH} characters`,
+      });
+    }
+
+    const document = await loadOwnedDocument(id, authReq.user!.userId);
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    const answer = await withUsageContext(
+      { userId: authReq.user!.userId, documentId: id },
+      () => documentQA.ask(document, question.trim()),
+    );
+
+    res.json({
+      documentId: id,
+      answer,
+      history: documentQA.getHistory(id),
+    });
+  } catch (error: any) {
+    console.error('Question answering error:', error);
+    res
+      .status(isBudgetExceeded(error) ? 402 : 500)
+      .json({ error: error.message || 'Failed to answer question' });
+  }
+});
+
+// GET /api/documents/:id/conversation - Get the Q&A history for a document
+// (kept in memory for the server session; empty again after a restart)
+router.get('/:id/conversation', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!(await isDocumentOwner(id, authReq.user!.userId))) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.json({ documentId: id, history: documentQA.getHistory(id) });
+  } catch (error: any) {
+    console.error('Get conversation error:', error);
+    res
+      .status(500)
+      .json({ error: error.message || 'Failed to get conversation' });
+  }
+});
+
+// DELETE /api/documents/:id/conversation - Start a new conversation
+router.delete('/:id/conversation', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+
+    if (!(await isDocumentOwner(id, authReq.user!.userId))) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    documentQA.clearHistory(id);
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Clear conversation error:', error);
+    res
+      .status(500)
+      .json({ error: error.message || 'Failed to clear conversation' });
+  }
+});
+
+// POST /api/documents/:id/export - Download a stored visualization, or a pptx summary deck
+router.post('/:id/export', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { id } = req.params;
+    const { format, visualizationType, visualizationTypes = [] }
+      = (req.body || {}) as ExportRequest;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+      });
+    }
+
+    const requestedTypes
+      = format === 'pptx' && !visualizationType
+        ? visualizationTypes
+        : [visualizationType];
+    const exportableTypes = DIAGRAM_FORMAT_TYPES[format] || SVG_EXPORT_TYPES;
+    if (
+      (format !== 'pptx' && !visualizationType)
+      || !Array.isArray(requestedTypes)
+      || requestedTypes.some((type) => !type || !exportableTypes.includes(type))
+    ) {
+      return res.status(400).json({
+        error: `Visualization type must be one of: ${exportableTypes.join(', ')}`,
+      });
+    }
+
+    const document = await loadOwnedDocument(id, authReq.user!.userId);
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    const records: VisualizationRecord[] = [];
+    for (const type of requestedTypes) {
+      const record = await visualizationService.findByDocumentIdAndType(
+        id,
+        type as string,
+      );
+      if (!record) {
+        return res.status(404).json({
+          error: `Visualization ${type} has not been generated for this document`,
+        });
+      }
+      records.push(record);
+    }
+
+    let file;
+    if (format === 'pptx') {
+      const analysis
+        = analyses.get(id)
+        || (await analysisRepository.findByDocumentId(id))?.analysis;
+      file = await exportService.exportDeck(document, analysis, records);
+    } else {
+      file = await exportService.exportVisualization(document, records[0], format);
+    }
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.filename}"`,
+    );
+    res.send(file.content);
+  } catch (error: any) {
+    console.error('Export error:', error);
+    res
+      .status(500)
+      .json({ error: error.message || 'Failed to export visualization' });
+  }
+});
+
 // GET /api/documents/:id/full - Get document with all data
 router.get('/:id/full', async (req: Request, res: Response) => {
   try {
@@ -816,7 +1776,7 @@ router.get('/:id/full', async (req: Request, res: Response) => {
           await documentRepository.updateAccessMetadata(id);
 
           // Load content from S3 and reconstruct document with proper structure
-          const contentBuffer = await s3Storage.downloadDocument(
+          const contentBuffer = await documentStorage.downloadDocument(
             docRecord.s3Key,
           );
           const content = contentBuffer.toString('utf-8');
@@ -0,0 +1,70 @@
+import { Router, Request, Response } from 'express';
+
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
+import { jobQueue } from '../services/jobs/jobQueue.js';
+
+import type { Job } from '../services/jobs/types.js';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// Payloads stay server-side; the result is only included once the job succeeded
+function toJobResponse(job: Job) {
+  return {
+    jobId: job.id,
+    type: job.type,
+    documentId: job.documentId,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.error,
+    result: job.status === 'succeeded' ? job.result : undefined,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    nextAttemptAt: job.nextAttemptAt,
+  };
+}
+
+async function findOwnedJob(req: Request): Promise<Job | undefined> {
+  const authReq = req as AuthenticatedRequest;
+  const job = await jobQueue.get(req.params.jobId);
+  return job && job.ownerId === authReq.user!.userId ? job : undefined;
+}
+
+// GET /api/jobs/:jobId - Job status (and result once finished)
+router.get('/:jobId', async (req: Request, res: Response) => {
+  try {
+    const job = await findOwnedJob(req);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(toJobResponse(job));
+  } catch (error: any) {
+    console.error('Get job error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get job' });
+  }
+});
+
+// DELETE /api/jobs/:jobId - Cancel a queued or running job
+router.delete('/:jobId', async (req: Request, res: Response) => {
+  try {
+    const job = await findOwnedJob(req);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const cancelled = await jobQueue.cancel(job.id);
+    res.json(toJobResponse(cancelled || job));
+  } catch (error: any) {
+    console.error('Cancel job error:', error);
+    res.status(500).json({ error: error.message || 'Failed to cancel job' });
+  }
+});
+
+export default router;
+export { router as jobsRouter };
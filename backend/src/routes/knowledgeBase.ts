@@ -0,0 +1,42 @@
+import { Router, Request, Response } from 'express';
+
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
+import { knowledgeBaseService } from '../services/knowledgeBase/knowledgeBaseService.js';
+import { withUsageContext } from '../services/llm/usageMeter.js';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// GET /api/knowledge-base/graph - Knowledge graphs merged across the user's library
+// Optional ?documentIds=a,b limits the merge to those source documents
+router.get('/graph', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { documentIds } = req.query;
+
+    if (documentIds !== undefined && typeof documentIds !== 'string') {
+      return res
+        .status(400)
+        .json({ error: 'documentIds must be a comma-separated list' });
+    }
+
+    const ids = documentIds
+      ?.split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+
+    const userId = authReq.user!.userId;
+    const graph = await withUsageContext({ userId }, () => knowledgeBaseService.buildGraph(userId, ids));
+    res.json(graph);
+  } catch (error: any) {
+    console.error('Get knowledge base graph error:', error);
+    res
+      .status(500)
+      .json({ error: error.message || 'Failed to build knowledge base graph' });
+  }
+});
+
+export default router;
+export { router as knowledgeBaseRouter };
@@ -0,0 +1,39 @@
+import { Router, Request, Response } from 'express';
+
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.js';
+import { getUsageSummary } from '../services/llm/usageMeter.js';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+const PERIOD = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// GET /api/usage - The user's metered LLM calls this month (or ?period=YYYY-MM),
+// totalled per document, task and model, with the monthly budget.
+// Optional ?documentId= limits the totals to one document
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { period, documentId } = req.query;
+
+    if (period !== undefined && (typeof period !== 'string' || !PERIOD.test(period))) {
+      return res.status(400).json({ error: 'period must be a month in YYYY-MM format' });
+    }
+    if (documentId !== undefined && typeof documentId !== 'string') {
+      return res.status(400).json({ error: 'documentId must be a single id' });
+    }
+
+    const summary = await getUsageSummary(authReq.user!.userId, period, documentId);
+    res.json(summary);
+  } catch (error: any) {
+    console.error('Get usage error:', error);
+    res
+      .status(500)
+      .json({ error: error.message || 'Failed to get usage' });
+  }
+});
+
+export default router;
+export { router as usageRouter };
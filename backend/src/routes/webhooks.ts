@@ -1,10 +1,104 @@
 import express from 'express';
 
 import { userRepository } from '../repositories/userRepository.js';
+import { webhookEventRepository } from '../repositories/webhookEventRepository.js';
 import { stripeService } from '../services/billing/stripeService.js';
 
+import type Stripe from 'stripe';
+
 const router = express.Router();
 
+// Subscription states that still give the user a plan. An event about any other
+// subscription than the user's current one must not overwrite it.
+const LIVE_STATUSES = ['active', 'trialing', 'past_due'];
+
+const idOf = (value: string | { id: string }) =>
+  (typeof value === 'string' ? value : value.id);
+
+const toIso = (seconds: number | null | undefined) =>
+  (seconds ? new Date(seconds * 1000).toISOString() : undefined);
+
+/**
+ * Copy a subscription's current state from Stripe onto its user. Events can
+ * arrive late and out of order, so the state is fetched instead of read off
+ * the event.
+ */
+async function syncSubscription(subscriptionId: string, userId?: string | null) {
+  const subscription = await stripeService.getSubscription(subscriptionId);
+  // Checkout records the user on the subscription
+  const ownerId = userId || subscription.metadata?.userId;
+  if (!ownerId) {
+    console.warn(`Subscription ${subscriptionId} has no user; skipping.`);
+    return;
+  }
+
+  const user = await userRepository.getUserById(ownerId);
+  if (
+    user?.subscriptionId
+    && user.subscriptionId !== subscription.id
+    && !LIVE_STATUSES.includes(subscription.status)
+  ) {
+    console.log(`Ignoring ${subscription.status} subscription ${subscription.id} of user ${ownerId}.`);
+    return;
+  }
+
+  const item = subscription.items.data[0];
+  await userRepository.updateUser(ownerId, {
+    subscriptionProvider: 'stripe',
+    subscriptionId: subscription.id,
+    subscriptionCustomerId: idOf(subscription.customer),
+    subscriptionStatus: subscription.status,
+    // API versions before 2025-03-31 report the period on the subscription
+    currentPeriodEnd: toIso(item?.current_period_end ?? (subscription as any).current_period_end),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    trialEnd: toIso(subscription.trial_end),
+    // Plans switched in the customer portal only show in the price
+    plan: stripeService.planForPrice(item?.price?.id)
+      || (subscription.metadata?.plan === 'team' ? 'team' : 'pro'),
+  });
+  console.log(`User ${ownerId} subscription ${subscription.id} is ${subscription.status}.`);
+}
+
+// Where an invoice names its subscription depends on the API version
+function invoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  const subscription = invoice.parent?.subscription_details?.subscription
+    ?? (invoice as any).subscription;
+  return subscription ? idOf(subscription) : null;
+}
+
+async function handleEvent(event: Stripe.Event) {
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object;
+      if (session.client_reference_id && session.subscription) {
+        await syncSubscription(idOf(session.subscription), session.client_reference_id);
+      }
+      break;
+    }
+    // trial_will_end is sent three days before a trial ends
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+    case 'customer.subscription.paused':
+    case 'customer.subscription.resumed':
+    case 'customer.subscription.trial_will_end':
+      await syncSubscription(event.data.object.id);
+      break;
+    // A paid renewal moves the period on. A failed payment makes the
+    // subscription past due while Stripe retries it.
+    case 'invoice.payment_succeeded':
+    case 'invoice.payment_failed': {
+      const subscriptionId = invoiceSubscriptionId(event.data.object);
+      if (subscriptionId) {
+        await syncSubscription(subscriptionId);
+      }
+      break;
+    }
+    default:
+      break;
+  }
+}
+
 // Stripe requires raw body for signature verification.
 // We expect the router to be mounted such that this middleware handles the parsing.
 // Or we apply it here. Since this is specific to /stripe, we apply it here.
@@ -30,30 +124,18 @@ router.post(
       return res.status(400).send(`Webhook Error: ${err.message}`);
     }
 
-    // Handle the event
-    switch (event.type) {
-      case 'checkout.session.completed': {
-        const session = event.data.object as any;
-        const userId = session.client_reference_id;
-        const subscriptionId = session.subscription;
-
-        if (userId && subscriptionId) {
-          await userRepository.updateUser(userId, {
-            subscriptionStatus: 'active',
-            subscriptionId,
-            subscriptionProvider: 'stripe',
-            // currentPeriodEnd would be fetched from subscription object, but session doesn't have it directly usually.
-            // We might need to fetch subscription details.
-            // But for now, we just set active.
-          });
-          console.log(`User ${userId} subscription activated.`);
-        }
-        break;
+    try {
+      // Stripe delivers events at least once; repeats are acknowledged and skipped
+      if (await webhookEventRepository.isProcessed(event.id)) {
+        return res.json({ received: true, duplicate: true });
       }
-      // Add other cases like customer.subscription.updated
-      default:
-        // console.log(`Unhandled event type ${event.type}`);
-        break;
+
+      await handleEvent(event);
+      await webhookEventRepository.markProcessed(event.id, event.type);
+    } catch (err: any) {
+      // Any other response than 2xx makes Stripe send the event again later
+      console.error(`Webhook ${event.type} (${event.id}) failed: ${err.message}`);
+      return res.status(500).send(`Webhook Error: ${err.message}`);
     }
 
     res.json({ received: true });
@@ -20,9 +20,15 @@ import {
   DYNAMODB_FLOWCHART_TABLE,
   DYNAMODB_EXECUTIVE_DASHBOARD_TABLE,
   DYNAMODB_TIMELINE_TABLE,
+  DYNAMODB_GANTT_TABLE,
+  DYNAMODB_RACI_MATRIX_TABLE,
+  DYNAMODB_PRIORITY_MATRIX_TABLE,
   DYNAMODB_KNOWLEDGE_GRAPH_TABLE,
   DYNAMODB_TERMS_DEFINITIONS_TABLE,
   DYNAMODB_ENTITY_GRAPH_TABLE,
+  DYNAMODB_VISUALIZATION_VERSIONS_TABLE,
+  DYNAMODB_LLM_USAGE_TABLE,
+  DYNAMODB_WEBHOOK_EVENTS_TABLE,
   getAWSRegion,
   getAWSAccessKeyId,
   getAWSSecretAccessKey,
@@ -88,6 +94,24 @@ const tables: TableConfig[] = [
     sortKey: 'type',
     billingMode: 'PAY_PER_REQUEST',
   },
+  {
+    name: DYNAMODB_GANTT_TABLE,
+    primaryKey: 'documentId',
+    sortKey: 'type',
+    billingMode: 'PAY_PER_REQUEST',
+  },
+  {
+    name: DYNAMODB_RACI_MATRIX_TABLE,
+    primaryKey: 'documentId',
+    sortKey: 'type',
+    billingMode: 'PAY_PER_REQUEST',
+  },
+  {
+    name: DYNAMODB_PRIORITY_MATRIX_TABLE,
+    primaryKey: 'documentId',
+    sortKey: 'type',
+    billingMode: 'PAY_PER_REQUEST',
+  },
   {
     name: DYNAMODB_KNOWLEDGE_GRAPH_TABLE,
     primaryKey: 'documentId',
@@ -106,6 +130,23 @@ const tables: TableConfig[] = [
     sortKey: 'type',
     billingMode: 'PAY_PER_REQUEST',
   },
+  {
+    name: DYNAMODB_VISUALIZATION_VERSIONS_TABLE,
+    primaryKey: 'documentId',
+    sortKey: 'SK',
+    billingMode: 'PAY_PER_REQUEST',
+  },
+  {
+    name: DYNAMODB_LLM_USAGE_TABLE,
+    primaryKey: 'userId',
+    sortKey: 'SK',
+    billingMode: 'PAY_PER_REQUEST',
+  },
+  {
+    name: DYNAMODB_WEBHOOK_EVENTS_TABLE,
+    primaryKey: 'eventId',
+    billingMode: 'PAY_PER_REQUEST',
+  },
 ];
 
 async function ensureTable(client: DynamoDBClient, config: TableConfig) {
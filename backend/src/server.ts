@@ -7,10 +7,16 @@ import express from 'express';
 
 import { validateAWSConfig } from './config/aws.js';
 import { env } from './config/env.js';
+import { isSqliteStorage } from './config/storage.js';
 import authRouter from './routes/auth.js';
 import billingRouter from './routes/billing.js';
 import documentsRouter from './routes/documents.js';
+import jobsRouter from './routes/jobs.js';
+import knowledgeBaseRouter from './routes/knowledgeBase.js';
+import usageRouter from './routes/usage.js';
 import webhooksRouter from './routes/webhooks.js';
+import { validatePrompts } from './services/llm/promptRegistry.js';
+import { searchService } from './services/search/searchService.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -44,6 +50,9 @@ app.use((req, res, next) => {
 app.use('/api/documents', documentsRouter);
 app.use('/api/auth', authRouter);
 app.use('/api/billing', billingRouter);
+app.use('/api/jobs', jobsRouter);
+app.use('/api/knowledge-base', knowledgeBaseRouter);
+app.use('/api/usage', usageRouter);
 
 // Health check
 app.all('/api/health', (req: any, res: any) => {
@@ -134,14 +143,22 @@ app.use(
   },
 );
 
-// Validate AWS configuration on startup
-try {
-  validateAWSConfig();
-} catch (error) {
-  console.error(
-    '⚠️  AWS configuration error:',
-    error instanceof Error ? error.message : error,
-  );
+// A missing or malformed prompt stops the server instead of shipping an empty system prompt
+const prompts = validatePrompts();
+console.log(`📝 Loaded ${prompts.length} prompts`);
+
+// Validate AWS configuration on startup (not needed for self-hosted storage)
+if (isSqliteStorage()) {
+  console.log('🗄️  Storage backend: SQLite + local filesystem');
+} else {
+  try {
+    validateAWSConfig();
+  } catch (error) {
+    console.error(
+      '⚠️  AWS configuration error:',
+      error instanceof Error ? error.message : error,
+    );
+  }
 }
 
 // Start server
@@ -151,6 +168,11 @@ if (process.env.NODE_ENV !== 'test') {
     console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
     console.log(`🔗 API: http://localhost:${PORT}/api`);
   });
+
+  // Search runs on an in-memory index; restore it from what is already stored
+  searchService.rebuildFromStorage().catch((error) => {
+    console.error('❌ Failed to rebuild search index:', error);
+  });
 }
 
 export default app;
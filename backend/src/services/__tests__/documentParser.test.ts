@@ -1,3 +1,4 @@
+import JSZip from 'jszip';
 import { describe, it, expect, beforeEach } from 'vitest';
 
 import {
@@ -8,6 +9,54 @@ import {
 } from '../../../../test/fixtures/documents';
 import { DocumentParser } from '../documentParser';
 
+const wordParagraph = (text: string, style?: string) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+const wordHeadingStyle = (level: number) =>
+  `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/></w:style>`;
+
+async function buildDocx(body: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`);
+  zip.file('word/_rels/document.xml.rels', `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`);
+  zip.file('word/styles.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">${[1, 2, 3].map(wordHeadingStyle).join('')}</w:styles>`);
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+async function buildEpub(chapters: Record<string, string>, spine: string[]): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip');
+  zip.file('META-INF/container.xml', `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`);
+  const items = Object.keys(chapters)
+    .map((href, i) => `<item id="ch${i}" href="${href}" media-type="application/xhtml+xml"/>`)
+    .join('');
+  const refs = spine
+    .map((href) => `<itemref idref="ch${Object.keys(chapters).indexOf(href)}"/>`)
+    .join('');
+  zip.file('OEBPS/content.opf', `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0"><manifest>${items}</manifest><spine>${refs}</spine></package>`);
+  Object.entries(chapters).forEach(([href, html]) => zip.file(`OEBPS/${href}`, html));
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
 describe('DocumentParser', () => {
   let parser: DocumentParser;
 
@@ -171,4 +220,71 @@ describe('DocumentParser', () => {
       }
     });
   });
+
+  describe('rich formats', () => {
+    it('keeps Word heading levels from DOCX files', async () => {
+      const docx = await buildDocx([
+        wordParagraph('Onboarding Specification', 'Heading1'),
+        wordParagraph('THIS LINE IS NOT A HEADING AT ALL'),
+        wordParagraph('Accounts', 'Heading2'),
+        wordParagraph('1. Create the user record.'),
+        wordParagraph('Permissions', 'Heading3'),
+        wordParagraph('Roles are assigned by the team lead.'),
+      ].join(''));
+
+      const document = await parser.parseDocument(docx, 'spec.docx');
+
+      expect(document.metadata.fileType).toBe('docx');
+      expect(document.content).toContain('Roles are assigned by the team lead.');
+      const [root] = document.structure.sections;
+      expect(document.structure.sections).toHaveLength(1);
+      expect(root.title).toBe('Onboarding Specification');
+      expect(root.content).toContain('THIS LINE IS NOT A HEADING AT ALL');
+      expect(root.children.map((s) => s.title)).toEqual(['Accounts']);
+      expect(root.children[0].content).toBe('1. Create the user record.');
+      expect(root.children[0].children[0]).toMatchObject({ title: 'Permissions', level: 3 });
+    });
+
+    it('uses <h1>-<h6> from HTML pages', async () => {
+      const html = `<html><head><title>Runbook</title></head><body>
+        <nav>Home | Docs</nav>
+        <h1>Incident Runbook</h1><p>Follow these steps.</p>
+        <h2>Triage</h2><ol><li>Page the on-call engineer</li></ol>
+        <h2>Recovery</h2><p>Restore from the last snapshot.</p>
+      </body></html>`;
+
+      const document = await parser.parseDocument(Buffer.from(html), 'runbook.html');
+
+      expect(document.content).not.toContain('Home | Docs');
+      expect(document.title).toBe('Incident Runbook');
+      expect(document.structure.sections[0].children.map((s) => s.title)).toEqual([
+        'Triage',
+        'Recovery',
+      ]);
+      expect(document.structure.sections[0].children[0].content).toBe('- Page the on-call engineer');
+    });
+
+    it('reads EPUB chapters in spine order', async () => {
+      const epub = await buildEpub(
+        {
+          'intro.xhtml': '<html><body><h1>Introduction</h1><p>Why this book.</p></body></html>',
+          'ch1.xhtml': '<html><body><h1>Chapter One</h1><h2>Setup</h2><p>Install it.</p></body></html>',
+        },
+        ['intro.xhtml', 'ch1.xhtml'],
+      );
+
+      const document = await parser.parseDocument(epub, 'book.epub');
+
+      expect(document.structure.sections.map((s) => s.title)).toEqual(['Introduction', 'Chapter One']);
+      expect(document.structure.sections[1].children[0].title).toBe('Setup');
+    });
+
+    it('rejects EPUB files without a package document', async () => {
+      const zip = new JSZip();
+      zip.file('mimetype', 'application/epub+zip');
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      await expect(parser.parseDocument(buffer, 'broken.epub')).rejects.toThrow('Invalid EPUB');
+    });
+  });
 });
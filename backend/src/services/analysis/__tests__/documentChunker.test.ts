@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+
+import { documentParser } from '../../documentParser';
+import { mergeEntities, mergeKPIs } from '../chunkMerger';
+import { chunkDocument } from '../documentChunker';
+
+const buildLongDocument = (sectionCount: number, paragraphsPerSection: number) => {
+  const sections = Array.from({ length: sectionCount }, (_, i) => {
+    const paragraphs = Array.from(
+      { length: paragraphsPerSection },
+      (_, p) => `Paragraph ${p} of section ${i} mentions Acme Corp and the rollout plan in detail.`,
+    );
+    return `## Section ${i}\n\n${paragraphs.join('\n\n')}`;
+  });
+  return `# Long Report\n\n${sections.join('\n\n')}`;
+};
+
+describe('chunkDocument', () => {
+  it('returns no chunks for empty content', async () => {
+    const document = await documentParser.parseText('', 'Empty');
+    expect(chunkDocument(document)).toEqual([]);
+  });
+
+  it('packs small sections into a single chunk', async () => {
+    const document = await documentParser.parseText(buildLongDocument(3, 2), 'Short');
+    const chunks = chunkDocument(document, 8000);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[0].end).toBe(document.content.length);
+    expect(chunks[0].sectionIds.length).toBeGreaterThan(1);
+  });
+
+  it('splits on section boundaries and covers the whole document', async () => {
+    const document = await documentParser.parseText(buildLongDocument(12, 10), 'Long');
+    const chunks = chunkDocument(document, 2000);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(document.content.length);
+
+    chunks.forEach((chunk, i) => {
+      expect(chunk.text.length).toBeLessThanOrEqual(2000);
+      expect(chunk.text).toBe(document.content.substring(chunk.start, chunk.end));
+      if (i > 0) {
+        expect(chunk.start).toBe(chunks[i - 1].end);
+      }
+    });
+
+    // Section headings start their chunk rather than being cut mid-way
+    const sectionStarts = chunks.filter((c) => c.text.startsWith('## Section'));
+    expect(sectionStarts.length).toBeGreaterThan(0);
+  });
+
+  it('splits oversized sections on paragraph boundaries', async () => {
+    const document = await documentParser.parseText(buildLongDocument(1, 80), 'Huge section');
+    const chunks = chunkDocument(document, 1500);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    chunks.slice(0, -1).forEach((chunk) => {
+      expect(chunk.text.length).toBeLessThanOrEqual(1500);
+    });
+    expect(chunks.some((c) => c.title.includes('(cont.'))).toBe(true);
+  });
+});
+
+describe('mergeEntities', () => {
+  it('deduplicates entities across chunks and collects document-level mentions', async () => {
+    const document = await documentParser.parseText(buildLongDocument(6, 10), 'Long');
+    const chunks = chunkDocument(document, 2000);
+    expect(chunks.length).toBeGreaterThan(1);
+
+    const merged = mergeEntities(
+      chunks.map((chunk, i) => ({
+        chunk,
+        entities: [
+          {
+            id: 'entity-1',
+            text: i === 0 ? 'Acme Corp' : 'acme corp',
+            type: 'organization' as const,
+            mentions: [],
+            importance: 0.5 + i / 100,
+          },
+        ],
+      })),
+    );
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].id).toBe('entity-1');
+    expect(merged[0].importance).toBeCloseTo(0.5 + (chunks.length - 1) / 100);
+
+    const expectedMentions = document.content.split('Acme Corp').length - 1;
+    expect(merged[0].mentions).toHaveLength(expectedMentions);
+    merged[0].mentions.forEach((mention) => {
+      expect(document.content.substring(mention.start, mention.end)).toBe('Acme Corp');
+    });
+  });
+});
+
+describe('mergeKPIs', () => {
+  it('keeps the most confident reading of each metric and drops invalid values', () => {
+    const merged = mergeKPIs(
+      [{ id: 'a', label: 'Revenue', value: 2.5, unit: 'M USD', confidence: 0.6 }],
+      [
+        { id: 'b', label: 'revenue', value: 2.6, unit: 'M USD', confidence: 0.9 },
+        { id: 'c', label: 'Churn', value: NaN, unit: '%', confidence: 0.9 },
+        { id: 'd', label: 'Churn', value: 3, unit: '%', confidence: 0.8 },
+      ],
+    );
+
+    expect(merged).toHaveLength(2);
+    expect(merged.find((k) => k.label.toLowerCase() === 'revenue')?.value).toBe(2.6);
+    expect(merged.find((k) => k.label === 'Churn')?.value).toBe(3);
+    expect(merged.map((k) => k.id)).toEqual(['kpi-1', 'kpi-2']);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import { documentParser } from '../../documentParser';
+import { DocumentQA } from '../documentQA';
+
+const REPORT = [
+  '# Launch Plan',
+  '',
+  '## Timeline',
+  '',
+  'The rollout will begin in Q3 2024. EU customers are migrated in the first wave.',
+  '',
+  '## Budget',
+  '',
+  'The project has a total budget of 2.5 million USD, mostly spent on infrastructure.',
+  '',
+  '## Risks',
+  '',
+  'Vendor delays could push the migration into Q4.',
+].join('\n');
+
+const createClient = (payload: unknown) => ({
+  callWithFallback: vi.fn().mockResolvedValue({
+    content: typeof payload === 'string' ? payload : JSON.stringify(payload),
+    tokensUsed: 100,
+    model: 'test-model',
+  }),
+  parseJSONResponse: vi.fn((response: any) => JSON.parse(response.content)),
+});
+
+describe('DocumentQA', () => {
+  it('returns citations as document-level spans with their section', async () => {
+    const document = await documentParser.parseText(REPORT, 'Launch Plan');
+    const client = createClient({
+      answer: 'The budget is 2.5 million USD.',
+      citations: [{ excerpt: 1, quote: 'total budget of 2.5 million USD' }],
+    });
+    const qa = new DocumentQA(client as any);
+
+    const answer = await qa.ask(document, 'What is the budget?');
+
+    expect(answer.role).toBe('assistant');
+    expect(answer.content).toBe('The budget is 2.5 million USD.');
+    expect(answer.citations).toHaveLength(1);
+
+    const [citation] = answer.citations!;
+    expect(document.content.substring(citation.span.start, citation.span.end))
+      .toBe('total budget of 2.5 million USD');
+    expect(citation.span.text).toBe('total budget of 2.5 million USD');
+    expect(citation.sectionTitle).toBe('Budget');
+  });
+
+  it('matches quotes that differ in case and whitespace', async () => {
+    const document = await documentParser.parseText(REPORT, 'Launch Plan');
+    const client = createClient({
+      answer: 'Q3 2024.',
+      citations: [{ excerpt: 1, quote: 'the  rollout will BEGIN in q3 2024' }],
+    });
+    const qa = new DocumentQA(client as any);
+
+    const answer = await qa.ask(document, 'When does the rollout begin?');
+
+    expect(answer.citations![0].span.text).toBe('The rollout will begin in Q3 2024');
+  });
+
+  it('cites the whole excerpt when the quote cannot be found and ignores unknown excerpts', async () => {
+    const document = await documentParser.parseText(REPORT, 'Launch Plan');
+    const client = createClient({
+      answer: 'Vendor delays.',
+      citations: [
+        { excerpt: 1, quote: 'a sentence the document does not contain' },
+        { excerpt: 42, quote: 'Vendor delays' },
+      ],
+    });
+    const qa = new DocumentQA(client as any);
+
+    const answer = await qa.ask(document, 'What are the risks?');
+
+    expect(answer.citations).toHaveLength(1);
+    const { span } = answer.citations![0];
+    expect(span.start).toBe(0);
+    expect(span.end).toBe(document.content.length);
+  });
+
+  it('keeps conversation history per document and sends it with follow-ups', async () => {
+    const document = await documentParser.parseText(REPORT, 'Launch Plan');
+    const other = await documentParser.parseText(REPORT, 'Other');
+    const client = createClient({ answer: 'Q3 2024.', citations: [] });
+    const qa = new DocumentQA(client as any);
+
+    await qa.ask(document, 'When does the rollout begin?');
+    await qa.ask(document, 'And which customers go first?');
+
+    const followUpPrompt = client.callWithFallback.mock.calls[1][1] as string;
+    expect(client.callWithFallback.mock.calls[1][0]).toBe('qa');
+    expect(followUpPrompt).toContain('User: When does the rollout begin?');
+    expect(followUpPrompt).toContain('Assistant: Q3 2024.');
+    expect(followUpPrompt).toContain('Question: And which customers go first?');
+
+    expect(qa.getHistory(document.id).map((m) => m.role))
+      .toEqual(['user', 'assistant', 'user', 'assistant']);
+    expect(qa.getHistory(other.id)).toEqual([]);
+
+    qa.clearHistory(document.id);
+    expect(qa.getHistory(document.id)).toEqual([]);
+  });
+
+  it('caps the messages kept per document and the documents kept', async () => {
+    const document = await documentParser.parseText(REPORT, 'Launch Plan');
+    const qa = new DocumentQA(createClient({ answer: 'Q3 2024.', citations: [] }) as any);
+
+    for (let i = 0; i < 30; i++) {
+      await qa.ask(document, `Question ${i}?`);
+    }
+    const history = qa.getHistory(document.id);
+    expect(history).toHaveLength(50);
+    expect(history[0].content).toBe('Question 5?');
+
+    // 100 conversations are kept; asking about 100 more documents drops the oldest one
+    for (let i = 0; i < 100; i++) {
+      await qa.ask({ ...document, id: `doc-${i}` }, 'When?');
+    }
+    expect(qa.getHistory(document.id)).toEqual([]);
+    expect(qa.getHistory('doc-0')).toHaveLength(2);
+  });
+
+  it('falls back to the raw response when the model does not return JSON', async () => {
+    const document = await documentParser.parseText(REPORT, 'Launch Plan');
+    const client = createClient('It starts in Q3 2024.');
+    client.parseJSONResponse.mockImplementation(() => {
+      throw new Error('Invalid JSON');
+    });
+    const qa = new DocumentQA(client as any);
+
+    const answer = await qa.ask(document, 'When?');
+
+    expect(answer.content).toBe('It starts in Q3 2024.');
+    expect(answer.citations).toEqual([]);
+  });
+
+  it('selects the excerpts that match the question terms', async () => {
+    const sections = Array.from({ length: 10 }, (_, i) => [
+      `## Topic ${i}`,
+      '',
+      `${'General filler text about the company and its plans. '.repeat(25)}`,
+      i === 7 ? 'The warehouse expansion in Rotterdam is the main capital project.' : '',
+    ].join('\n'));
+    const document = await documentParser.parseText(`# Annual Report\n\n${sections.join('\n\n')}`, 'Report');
+    const qa = new DocumentQA(createClient({ answer: '', citations: [] }) as any);
+
+    const excerpts = qa.selectExcerpts(document, 'Tell me about the Rotterdam warehouse');
+
+    expect(excerpts.length).toBeGreaterThan(0);
+    expect(excerpts.some((e) => e.chunk.text.includes('Rotterdam'))).toBe(true);
+    expect(excerpts.every((e) => e.chunk.text.length <= 1500)).toBe(true);
+  });
+});
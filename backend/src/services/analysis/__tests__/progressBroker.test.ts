@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import { ProgressBroker } from '../progressBroker.js';
+
+describe('ProgressBroker', () => {
+  it('replays events after the last seen id', () => {
+    const broker = new ProgressBroker();
+    const first = broker.publish('doc', { step: 'initialization', progress: 5, message: 'Starting' });
+    broker.publish('doc', { step: 'sections', progress: 65, message: 'Sections' });
+
+    expect(broker.replay('doc').map((e) => e.progress.step)).toEqual(['initialization', 'sections']);
+    expect(broker.replay('doc', first.id).map((e) => e.progress.step)).toEqual(['sections']);
+    expect(broker.latest('doc')?.progress).toBe(65);
+  });
+
+  it('delivers events to listeners that subscribed before the analysis started', () => {
+    const broker = new ProgressBroker();
+    const listener = vi.fn();
+    broker.subscribe('doc', listener);
+
+    broker.publish('doc', {
+      step: 'early-results',
+      progress: 40,
+      message: 'TLDR ready',
+      partialAnalysis: { tldr: { text: 'Short version', confidence: 0.9 } },
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].progress.partialAnalysis.tldr).toEqual({ text: 'Short version', confidence: 0.9 });
+  });
+
+  it('marks the stream finished on completion and starts fresh on re-analysis', () => {
+    const broker = new ProgressBroker();
+    broker.publish('doc', { step: 'sections', progress: 65, message: 'Sections' });
+    const done = broker.publish('doc', { step: 'complete', progress: 100, message: 'Done' });
+
+    expect(broker.isFinished('doc')).toBe(true);
+
+    const restarted = broker.publish('doc', { step: 'initialization', progress: 5, message: 'Again' });
+    expect(restarted.id).toBeGreaterThan(done.id);
+    expect(broker.isFinished('doc')).toBe(false);
+    expect(broker.replay('doc')).toHaveLength(1);
+  });
+
+  it('drops a finished run when the next one starts', () => {
+    const broker = new ProgressBroker();
+    const listener = vi.fn();
+    broker.publish('doc', { step: 'complete', progress: 100, message: 'Done' });
+    broker.subscribe('doc', listener);
+
+    broker.start('doc');
+
+    expect(broker.replay('doc')).toEqual([]);
+    expect(broker.isFinished('doc')).toBe(false);
+    broker.publish('doc', { step: 'initialization', progress: 5, message: 'Again' });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a running stream when a run is started again', () => {
+    const broker = new ProgressBroker();
+    broker.publish('doc', { step: 'sections', progress: 65, message: 'Sections' });
+
+    broker.start('doc');
+
+    expect(broker.replay('doc')).toHaveLength(1);
+  });
+
+  it('keeps the partial results when the log is trimmed', () => {
+    const broker = new ProgressBroker();
+    broker.publish('doc', {
+      step: 'early-results',
+      progress: 40,
+      message: 'TLDR ready',
+      partialAnalysis: { metrics: [] },
+    });
+    for (let i = 0; i < 150; i++) {
+      broker.publish('doc', { step: 'chunk-analysis', progress: 20, message: `Chunk ${i}` });
+    }
+
+    const events = broker.replay('doc');
+    expect(events).toHaveLength(100);
+    expect(events[0].progress.step).toBe('early-results');
+  });
+
+  it('forgets streams nobody published to once the last listener leaves', () => {
+    const broker = new ProgressBroker();
+    const unsubscribe = broker.subscribe('doc', vi.fn());
+    unsubscribe();
+
+    expect(broker.latest('doc')).toBeUndefined();
+    expect((broker as any).streams.size).toBe(0);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+
+import { createGrounder, GROUNDING_THRESHOLD } from '../sourceGrounding';
+
+const CONTENT = 'Q4 Results\n\nRevenue grew 15% to $2.5M in the fourth quarter.\n'
+  + 'Customer acquisition cost   decreased by 20%, driven by referral programs.';
+
+describe('createGrounder', () => {
+  const ground = createGrounder(CONTENT);
+
+  it('locates verbatim quotes with full confidence', () => {
+    const grounding = ground(['Revenue grew 15% to $2.5M']);
+
+    expect(grounding).toEqual({
+      verified: true,
+      confidence: 1,
+      spans: [{ start: 12, end: 37, text: 'Revenue grew 15% to $2.5M' }],
+    });
+  });
+
+  it('ignores case, punctuation, spacing and quote marks', () => {
+    const grounding = ground(['"customer acquisition cost decreased by 20 percent..."', '...Customer Acquisition Cost decreased by 20']);
+
+    expect(grounding.verified).toBe(true);
+    expect(grounding.confidence).toBe(0.95);
+    expect(grounding.spans).toHaveLength(1);
+    expect(grounding.spans[0].text).toBe('Customer acquisition cost   decreased by 20');
+  });
+
+  it('fuzzy-matches paraphrased quotes with a lower confidence', () => {
+    const grounding = ground(['Revenue grew by 15% to $2.5M in the fourth quarter']);
+
+    expect(grounding.confidence).toBeGreaterThanOrEqual(GROUNDING_THRESHOLD);
+    expect(grounding.confidence).toBeLessThan(0.95);
+    expect(grounding.spans[0].start).toBe(12);
+    expect(grounding.spans[0].text).toMatch(/quarter$/);
+  });
+
+  it('leaves items with made-up or missing quotes unverified', () => {
+    expect(ground(['Headcount doubled after the merger with Initech'])).toEqual({
+      verified: false,
+      confidence: 0,
+      spans: [],
+    });
+    expect(ground([undefined, ''])).toEqual({ verified: false, confidence: 0, spans: [] });
+    // A few shared words are not enough
+    const partial = ground(['Revenue fell sharply as referral programs were cancelled']);
+    expect(partial.verified).toBe(false);
+    expect(partial.spans).toEqual([]);
+  });
+});
@@ -120,6 +120,30 @@ describe('TextAnalyzer', () => {
     });
   });
 
+  describe('detectRelationships', () => {
+    it('should map entity text to IDs and drop relationships to unknown entities', async () => {
+      const entities = [
+        { id: 'entity-1', text: 'Revenue', type: 'metric', importance: 0.9, mentions: [] },
+        { id: 'entity-2', text: 'Q4', type: 'date', importance: 0.8, mentions: [] },
+      ] as any;
+      mockLLMClient.callWithFallback.mockResolvedValue({
+        content: JSON.stringify({
+          relationships: [
+            { id: 'rel-1', source: 'entity-1', target: 'q4', type: 'relates-to', strength: 0.8, evidence: [] },
+            { id: 'rel-2', source: 'entity-1', target: 'Churn', type: 'causes', strength: 0.5, evidence: [] },
+          ],
+        }),
+        tokensUsed: 10,
+        model: 'test',
+      });
+
+      const relationships = await analyzer.detectRelationships(SMALL_BUSINESS_REPORT, entities);
+
+      expect(relationships).toHaveLength(1);
+      expect(relationships[0]).toMatchObject({ id: 'rel-1', source: 'entity-1', target: 'entity-2' });
+    });
+  });
+
   describe('generateSectionSummaries', () => {
     it('should recursively generate summaries and keywords for nested sections', async () => {
       const mockDocument = {
@@ -390,6 +414,117 @@ describe('TextAnalyzer', () => {
     });
   });
 
+  describe('analyzeDocument (long documents)', () => {
+    const buildLongDocument = async () => {
+      const { documentParser } = await import('../../documentParser');
+      const sections = Array.from({ length: 8 }, (_, i) => {
+        const body = Array.from(
+          { length: 15 },
+          () => `Initiative ${i} reduced costs for Globex while the team tracked delivery risk.`,
+        ).join('\n\n');
+        return `## Chapter ${i}\n\n${body}`;
+      });
+      return documentParser.parseText(`# Annual Review\n\n${sections.join('\n\n')}`, 'Annual Review');
+    };
+
+    it('analyzes every chunk and reports progress per chunk', async () => {
+      const document = await buildLongDocument();
+      const progressSteps: { step: string; message: string }[] = [];
+
+      await analyzer.analyzeDocument(document, (step, _progress, message) => {
+        progressSteps.push({ step, message });
+      });
+
+      const entityCalls = mockLLMClient.callWithFallback.mock.calls.filter(
+        ([task]: [string]) => task === 'entityExtraction',
+      );
+      const chunkProgress = progressSteps.filter((p) => p.step === 'chunk-analysis');
+
+      expect(entityCalls.length).toBeGreaterThan(1);
+      // One "Analyzing N chunks" message plus one per completed chunk
+      expect(chunkProgress).toHaveLength(entityCalls.length + 1);
+
+      // The last chapter reaches the LLM, not just the first few thousand characters
+      const lastChapterSeen = entityCalls.some(([, prompt]: [string, string]) =>
+        prompt.includes('Initiative 7'),
+      );
+      expect(lastChapterSeen).toBe(true);
+    });
+
+    it('merges entities across chunks with document-level mentions', async () => {
+      const document = await buildLongDocument();
+      mockLLMClient.callWithFallback.mockImplementation(async (task: string) => {
+        if (task === 'entityExtraction') {
+          return {
+            content: JSON.stringify({
+              entities: [{ id: 'entity-1', text: 'Globex', type: 'organization', importance: 0.8, mentions: [] }],
+            }),
+            tokensUsed: 10,
+            model: 'test',
+          };
+        }
+        if (task === 'kpiExtraction') {
+          return {
+            content: JSON.stringify([{ label: 'Cost reduction', value: 12, unit: '%', confidence: 0.7 }]),
+            tokensUsed: 10,
+            model: 'test',
+          };
+        }
+        if (task === 'executiveSummary') {
+          return {
+            content: JSON.stringify({ headline: 'Review', keyIdeas: ['Costs fell'], kpis: [], callToAction: 'Read on' }),
+            tokensUsed: 10,
+            model: 'test',
+          };
+        }
+        return { content: '{}', tokensUsed: 10, model: 'test' };
+      });
+
+      const analysis = await analyzer.analyzeDocument(document);
+
+      expect(analysis.entities).toHaveLength(1);
+      const mentions = analysis.entities[0].mentions;
+      expect(mentions).toHaveLength(document.content.split('Globex').length - 1);
+      expect(document.content.substring(mentions[mentions.length - 1].start, mentions[mentions.length - 1].end)).toBe('Globex');
+      expect(analysis.executiveSummary.kpis).toHaveLength(1);
+      expect(analysis.executiveSummary.kpis[0].label).toBe('Cost reduction');
+    });
+
+    it('merges the chunks that succeeded when one chunk fails', async () => {
+      const document = await buildLongDocument();
+      const progressMessages: string[] = [];
+      mockLLMClient.callWithFallback.mockImplementation(async (task: string, prompt: string) => {
+        if (task === 'entityExtraction') {
+          if (prompt.includes('Initiative 0')) {
+            throw new Error('Provider unavailable');
+          }
+          return {
+            content: JSON.stringify({
+              entities: [{ id: 'entity-1', text: 'Globex', type: 'organization', importance: 0.8, mentions: [] }],
+            }),
+            tokensUsed: 10,
+            model: 'test',
+          };
+        }
+        if (task === 'executiveSummary') {
+          return {
+            content: JSON.stringify({ headline: 'Review', keyIdeas: ['Costs fell'], kpis: [], callToAction: 'Read on' }),
+            tokensUsed: 10,
+            model: 'test',
+          };
+        }
+        return { content: '{}', tokensUsed: 10, model: 'test' };
+      });
+
+      const analysis = await analyzer.analyzeDocument(document, (_step, _progress, message) => {
+        progressMessages.push(message);
+      });
+
+      expect(analysis.entities).toHaveLength(1);
+      expect(progressMessages.some((message) => message.startsWith('Skipped chunk'))).toBe(true);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle LLM API failures gracefully', async () => {
       const failingClient = {
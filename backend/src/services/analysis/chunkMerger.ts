@@ -0,0 +1,117 @@
+import type { DocumentChunk } from './documentChunker.js';
+import type { Entity, KPI, TextSpan } from '../../../../shared/src/types.js';
+
+/**
+ * Normalize an entity or KPI label so that "AWS", "aws" and "A.W.S." collapse together.
+ */
+export function normalizeLabel(text: string): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find every occurrence of `needle` inside the chunk and return document-level spans.
+ */
+export function locateMentions(needle: string, chunk: DocumentChunk): TextSpan[] {
+  if (!needle) return [];
+
+  const haystack = chunk.text.toLowerCase();
+  const target = needle.toLowerCase();
+  const spans: TextSpan[] = [];
+
+  let index = haystack.indexOf(target);
+  while (index !== -1) {
+    spans.push({
+      start: chunk.start + index,
+      end: chunk.start + index + needle.length,
+      text: chunk.text.substring(index, index + needle.length),
+    });
+    index = haystack.indexOf(target, index + target.length);
+  }
+
+  return spans;
+}
+
+/**
+ * Merge per-chunk entity lists into one deduplicated list.
+ *
+ * Entities are keyed on their normalized text. Mentions are re-located in the chunk
+ * text (LLM-reported offsets are chunk-relative and often wrong) and collected across
+ * every chunk; importance is the maximum seen. IDs are reassigned so that
+ * relationship detection can reference them.
+ */
+export function mergeEntities(
+  perChunk: { chunk: DocumentChunk; entities: Entity[] }[],
+): Entity[] {
+  const merged = new Map<string, Entity>();
+
+  for (const { chunk, entities } of perChunk) {
+    for (const entity of entities) {
+      const key = normalizeLabel(entity.text);
+      if (!key) continue;
+
+      let mentions = locateMentions(entity.text, chunk);
+      if (mentions.length === 0) {
+        mentions = (entity.mentions || [])
+          .filter((m) => typeof m.start === 'number' && typeof m.end === 'number')
+          .map((m) => ({ ...m, start: m.start + chunk.start, end: m.end + chunk.start }));
+      }
+
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, {
+          ...entity,
+          mentions,
+          importance: entity.importance ?? 0.5,
+        });
+        continue;
+      }
+
+      const knownStarts = new Set(existing.mentions.map((m) => m.start));
+      existing.mentions.push(...mentions.filter((m) => !knownStarts.has(m.start)));
+      if ((entity.importance ?? 0) > existing.importance) {
+        existing.importance = entity.importance;
+        existing.type = entity.type || existing.type;
+      }
+      if (!existing.context && entity.context) {
+        existing.context = entity.context;
+      }
+    }
+  }
+
+  return Array.from(merged.values())
+    .map((entity) => ({
+      ...entity,
+      mentions: entity.mentions.sort((a, b) => a.start - b.start),
+    }))
+    .sort((a, b) => b.importance - a.importance)
+    .map((entity, index) => ({ ...entity, id: `entity-${index + 1}` }));
+}
+
+/**
+ * Combine KPIs from the executive summary with those extracted per chunk.
+ * KPIs sharing a label and unit are treated as the same metric; the most confident
+ * reading wins.
+ */
+export function mergeKPIs(...sources: KPI[][]): KPI[] {
+  const merged = new Map<string, KPI>();
+
+  for (const kpis of sources) {
+    for (const kpi of kpis) {
+      if (!kpi || typeof kpi.value !== 'number' || isNaN(kpi.value) || !kpi.label) {
+        continue;
+      }
+
+      const key = `${normalizeLabel(kpi.label)}|${normalizeLabel(kpi.unit || '')}`;
+      const existing = merged.get(key);
+      if (!existing || (kpi.confidence ?? 0) > (existing.confidence ?? 0)) {
+        merged.set(key, { ...kpi, unit: kpi.unit || '', confidence: kpi.confidence ?? 0.7 });
+      }
+    }
+  }
+
+  return Array.from(merged.values()).map((kpi, index) => ({ ...kpi, id: `kpi-${index + 1}` }));
+}
@@ -0,0 +1,174 @@
+import type { Document, Section } from '../../../../shared/src/types.js';
+
+/**
+ * Contiguous slice of a document's content used as the unit of map-reduce analysis.
+ * `start`/`end` are offsets into `document.content`, so spans found inside `text`
+ * can be shifted by `start` to become document-level offsets.
+ */
+export interface DocumentChunk {
+  index: number;
+  title: string;
+  sectionIds: string[];
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Roughly 2k tokens per chunk: small enough for the free-tier models, large enough
+// that a 200-page document stays in the low hundreds of calls.
+export const DEFAULT_CHUNK_SIZE = 8000;
+
+// How far before a section's recorded startIndex we search for its title. The parser
+// accumulates offsets over trimmed lines, so indices can drift behind the real text.
+const TITLE_SEARCH_SLACK = 200;
+
+interface Boundary {
+  start: number;
+  title: string;
+  sectionId: string;
+}
+
+/**
+ * Split a document into chunks along the section boundaries produced by
+ * `DocumentParser.detectStructure`. Consecutive small sections are packed into one
+ * chunk; sections longer than `maxChars` are split on paragraph boundaries.
+ */
+export function chunkDocument(
+  document: Document,
+  maxChars: number = DEFAULT_CHUNK_SIZE,
+): DocumentChunk[] {
+  const content = document.content || '';
+  if (content.trim().length === 0) {
+    return [];
+  }
+
+  const boundaries = collectBoundaries(document.structure?.sections || [], content);
+
+  // Text before the first heading (or the whole document when no headings were found)
+  if (boundaries.length === 0 || boundaries[0].start > 0) {
+    boundaries.unshift({ start: 0, title: document.title, sectionId: '' });
+  }
+
+  const chunks: DocumentChunk[] = [];
+  let pending: { start: number; end: number; title: string; sectionIds: string[] } | null = null;
+
+  const flush = () => {
+    if (pending && content.substring(pending.start, pending.end).trim().length > 0) {
+      chunks.push({
+        index: chunks.length,
+        title: pending.title,
+        sectionIds: pending.sectionIds,
+        start: pending.start,
+        end: pending.end,
+        text: content.substring(pending.start, pending.end),
+      });
+    }
+    pending = null;
+  };
+
+  boundaries.forEach((boundary, i) => {
+    const end = i + 1 < boundaries.length ? boundaries[i + 1].start : content.length;
+    const sectionIds = boundary.sectionId ? [boundary.sectionId] : [];
+
+    if (end - boundary.start > maxChars) {
+      flush();
+      splitOnParagraphs(content, boundary.start, end, maxChars).forEach((range, part) => {
+        pending = {
+          ...range,
+          title: part === 0 ? boundary.title : `${boundary.title} (cont. ${part + 1})`,
+          sectionIds,
+        };
+        flush();
+      });
+      return;
+    }
+
+    if (pending && end - pending.start <= maxChars) {
+      pending.end = end;
+      pending.sectionIds.push(...sectionIds);
+      return;
+    }
+
+    flush();
+    pending = { start: boundary.start, end, title: boundary.title, sectionIds };
+  });
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Flatten the section tree into sorted, de-duplicated start offsets.
+ */
+function collectBoundaries(sections: Section[], content: string): Boundary[] {
+  const flat: Section[] = [];
+  const walk = (list: Section[]) => {
+    for (const section of list) {
+      flat.push(section);
+      if (section.children?.length) {
+        walk(section.children);
+      }
+    }
+  };
+  walk(sections);
+
+  const seen = new Set<number>();
+  return flat
+    .map((section) => ({
+      start: alignSectionStart(section, content),
+      title: section.title,
+      sectionId: section.id,
+    }))
+    .sort((a, b) => a.start - b.start)
+    .filter((boundary) => {
+      if (seen.has(boundary.start)) return false;
+      seen.add(boundary.start);
+      return true;
+    });
+}
+
+function alignSectionStart(section: Section, content: string): number {
+  const recorded = Math.min(Math.max(section.startIndex || 0, 0), content.length);
+  if (!section.title) {
+    return recorded;
+  }
+
+  const found = content.indexOf(section.title, Math.max(0, recorded - TITLE_SEARCH_SLACK));
+  if (found === -1) {
+    return recorded;
+  }
+
+  // Include the heading marker line ("## Title") in the chunk
+  const lineStart = content.lastIndexOf('\n', found) + 1;
+  return lineStart;
+}
+
+/**
+ * Split [start, end) into ranges of at most maxChars, preferring blank lines, then
+ * single newlines, then sentence ends as cut points.
+ */
+function splitOnParagraphs(
+  content: string,
+  start: number,
+  end: number,
+  maxChars: number,
+): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  let cursor = start;
+
+  while (end - cursor > maxChars) {
+    const window = content.substring(cursor, cursor + maxChars);
+    const minCut = Math.floor(maxChars / 2);
+
+    let cut = window.lastIndexOf('\n\n');
+    if (cut < minCut) cut = window.lastIndexOf('\n');
+    if (cut < minCut) cut = window.lastIndexOf('. ') + 1;
+    if (cut < minCut) cut = maxChars;
+
+    ranges.push({ start: cursor, end: cursor + cut });
+    cursor += cut;
+  }
+
+  ranges.push({ start: cursor, end });
+  return ranges;
+}
@@ -0,0 +1,293 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { getOpenRouterClient, OpenRouterClient } from '../llm/openRouterClient.js';
+
+import { normalizeLabel } from './chunkMerger.js';
+import { chunkDocument, DocumentChunk } from './documentChunker.js';
+
+import type {
+  Document,
+  QACitation,
+  QAMessage,
+  Section,
+} from '../../../../shared/src/types.js';
+
+// Retrieval unit. Smaller than the analysis chunks so that excerpts (and the
+// fallback citation span) point at a focused passage rather than a whole chapter.
+const EXCERPT_SIZE = 1500;
+
+// Total excerpt text sent with each question
+const CONTEXT_BUDGET = 6000;
+
+// Previous messages included in the prompt so follow-up questions resolve
+const HISTORY_IN_PROMPT = 6;
+
+// Messages kept per document; older turns are dropped
+const MAX_HISTORY = 50;
+
+// Documents with a conversation kept; the least recently asked one is dropped
+const MAX_CONVERSATIONS = 100;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'what', 'which', 'who', 'whom', 'whose',
+  'when', 'where', 'why', 'how', 'does', 'did', 'this', 'that', 'these', 'those',
+  'with', 'from', 'about', 'into', 'there', 'their', 'they', 'them', 'has', 'have',
+  'had', 'can', 'could', 'should', 'would', 'will', 'not', 'any', 'all', 'its',
+  'document', 'tell', 'explain', 'describe', 'please',
+]);
+
+interface Excerpt {
+  number: number;
+  chunk: DocumentChunk;
+}
+
+interface QAResponse {
+  answer?: string;
+  citations?: { excerpt?: number; quote?: string }[];
+}
+
+export class DocumentQA {
+  private _llmClient: OpenRouterClient | null;
+  // Session-scoped: conversations live in this process only and are lost on restart
+  private conversations = new Map<string, QAMessage[]>();
+
+  constructor(llmClient?: OpenRouterClient) {
+    this._llmClient = llmClient || null;
+  }
+
+  private get llmClient(): OpenRouterClient {
+    return this._llmClient || getOpenRouterClient();
+  }
+
+  getHistory(documentId: string): QAMessage[] {
+    return this.conversations.get(documentId) || [];
+  }
+
+  clearHistory(documentId: string): void {
+    this.conversations.delete(documentId);
+  }
+
+  /**
+   * Answer a question about the document, grounded in the sections most relevant to
+   * the question (and the previous one, for follow-ups). The question and answer are
+   * appended to the document's conversation.
+   */
+  async ask(document: Document, question: string): Promise<QAMessage> {
+    const history = this.getHistory(document.id);
+    const previousQuestion = [...history].reverse().find((m) => m.role === 'user');
+
+    const excerpts = this.selectExcerpts(document, question, previousQuestion?.content);
+    const prompt = this.buildPrompt(excerpts, history, question);
+
+    console.log(`💬 Answering question for ${document.id} with ${excerpts.length} excerpts`);
+    const response = await this.llmClient.callWithFallback('qa', prompt);
+
+    let parsed: QAResponse;
+    try {
+      parsed = this.llmClient.parseJSONResponse<QAResponse>(response);
+    } catch (jsonError) {
+      console.warn('QA response was not JSON, using raw text without citations');
+      parsed = { answer: response.content.trim(), citations: [] };
+    }
+
+    const userMessage: QAMessage = {
+      id: uuidv4(),
+      role: 'user',
+      content: question,
+      createdAt: new Date().toISOString(),
+    };
+    const answer: QAMessage = {
+      id: uuidv4(),
+      role: 'assistant',
+      content: (parsed.answer || '').trim() || 'No answer could be generated.',
+      citations: this.resolveCitations(document, excerpts, parsed.citations || []),
+      createdAt: new Date().toISOString(),
+    };
+
+    // Re-inserting keeps the Map in least recently asked order
+    this.conversations.delete(document.id);
+    this.conversations.set(
+      document.id,
+      [...history, userMessage, answer].slice(-MAX_HISTORY),
+    );
+    if (this.conversations.size > MAX_CONVERSATIONS) {
+      this.conversations.delete(this.conversations.keys().next().value!);
+    }
+
+    return answer;
+  }
+
+  /**
+   * Rank excerpts by term overlap with the question, weighting rare terms higher, and
+   * keep the best ones that fit the context budget in document order. Questions with
+   * no usable terms ("what is this about?") get the start of the document.
+   */
+  selectExcerpts(document: Document, question: string, previousQuestion?: string): Excerpt[] {
+    const chunks = chunkDocument(document, EXCERPT_SIZE);
+    if (chunks.length === 0) return [];
+
+    const terms = tokenize(question);
+    // Follow-ups often only say "it" or "the second one"; borrow the previous terms
+    const previousTerms = previousQuestion ? tokenize(previousQuestion) : [];
+
+    const lowered = chunks.map((chunk) => chunk.text.toLowerCase());
+    const score = (termList: string[], index: number) => termList.reduce((total, term) => {
+      const df = lowered.filter((text) => text.includes(term)).length;
+      if (df === 0) return total;
+      const tf = countOccurrences(lowered[index], term);
+      const idf = Math.log(1 + chunks.length / df);
+      const titleBoost = chunks[index].title.toLowerCase().includes(term) ? 2 : 1;
+      return total + Math.log(1 + tf) * idf * titleBoost;
+    }, 0);
+
+    const ranked = chunks
+      .map((chunk, index) => ({
+        chunk,
+        score: score(terms, index) + 0.5 * score(previousTerms, index),
+      }))
+      .sort((a, b) => b.score - a.score || a.chunk.start - b.chunk.start);
+
+    const candidates = ranked[0].score > 0
+      ? ranked.filter((r) => r.score > 0)
+      : ranked.sort((a, b) => a.chunk.start - b.chunk.start);
+
+    const selected: DocumentChunk[] = [];
+    let used = 0;
+    for (const { chunk } of candidates) {
+      if (selected.length > 0 && used + chunk.text.length > CONTEXT_BUDGET) continue;
+      selected.push(chunk);
+      used += chunk.text.length;
+    }
+
+    return selected
+      .sort((a, b) => a.start - b.start)
+      .map((chunk, i) => ({ number: i + 1, chunk }));
+  }
+
+  private buildPrompt(excerpts: Excerpt[], history: QAMessage[], question: string): string {
+    const excerptText = excerpts
+      .map(({ number, chunk }) => `[E${number}] ${chunk.title}\n${chunk.text.trim()}`)
+      .join('\n\n');
+
+    const recent = history.slice(-HISTORY_IN_PROMPT);
+    const conversation = recent.length > 0
+      ? recent
+        .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+        .join('\n')
+      : '(none)';
+
+    return `Document excerpts:\n\n${excerptText || '(document is empty)'}\n\n`
+      + `Conversation so far:\n${conversation}\n\n`
+      + `Question: ${question}`;
+  }
+
+  /**
+   * Turn the model's excerpt/quote pairs into document-level spans. Quotes are
+   * located in the excerpt text tolerating case and whitespace differences; when a
+   * quote cannot be found the whole excerpt is cited instead so the answer still
+   * points at its source.
+   */
+  resolveCitations(
+    document: Document,
+    excerpts: Excerpt[],
+    raw: { excerpt?: number; quote?: string }[],
+  ): QACitation[] {
+    const sections = flattenSections(document.structure?.sections || []);
+    const citations: QACitation[] = [];
+    const seen = new Set<string>();
+
+    for (const item of raw) {
+      const excerpt = excerpts.find((e) => e.number === Number(item?.excerpt));
+      if (!excerpt) continue;
+
+      const { chunk } = excerpt;
+      const found = item.quote ? findQuote(chunk.text, item.quote) : null;
+      const relStart = found ? found.start : 0;
+      const relEnd = found ? found.end : chunk.text.length;
+
+      const key = `${chunk.start + relStart}-${chunk.start + relEnd}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const section = sectionForOffset(chunk, relStart, sections);
+      citations.push({
+        sectionId: section?.id || chunk.sectionIds[0] || '',
+        sectionTitle: section?.title || chunk.title,
+        span: {
+          start: chunk.start + relStart,
+          end: chunk.start + relEnd,
+          text: chunk.text.substring(relStart, relEnd),
+        },
+      });
+    }
+
+    return citations;
+  }
+}
+
+function tokenize(text: string): string[] {
+  return Array.from(new Set(
+    normalizeLabel(text)
+      .split(' ')
+      .filter((term) => term.length > 2 && !STOP_WORDS.has(term)),
+  ));
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  let index = text.indexOf(term);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(term, index + term.length);
+  }
+  return count;
+}
+
+function findQuote(text: string, quote: string): { start: number; end: number } | null {
+  const trimmed = quote.trim().replace(/^["'“]+|["'”]+$/g, '');
+  if (!trimmed) return null;
+
+  const exact = text.indexOf(trimmed);
+  if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+
+  const pattern = trimmed
+    .split(/\s+/)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s+');
+  const match = new RegExp(pattern, 'i').exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+function flattenSections(sections: Section[]): Map<string, Section> {
+  const flat = new Map<string, Section>();
+  const walk = (list: Section[]) => {
+    for (const section of list) {
+      flat.set(section.id, section);
+      if (section.children?.length) walk(section.children);
+    }
+  };
+  walk(sections);
+  return flat;
+}
+
+/**
+ * The last section of the chunk whose heading appears before the offset.
+ */
+function sectionForOffset(
+  chunk: DocumentChunk,
+  offset: number,
+  sections: Map<string, Section>,
+): Section | undefined {
+  let match: Section | undefined;
+  for (const id of chunk.sectionIds) {
+    const section = sections.get(id);
+    if (!section) continue;
+    const headingAt = chunk.text.indexOf(section.title);
+    if (!match || (headingAt !== -1 && headingAt <= offset)) {
+      match = section;
+    }
+  }
+  return match;
+}
+
+export const documentQA = new DocumentQA();
@@ -0,0 +1,121 @@
+import type { AnalysisProgress } from '../../../../shared/src/types.js';
+
+// Events kept per document for Last-Event-ID replay. The early-results event
+// carrying partialAnalysis is always among the first dozen, so this is ample.
+const MAX_EVENTS = 100;
+
+// How long a finished stream stays around so reconnecting clients and the
+// polling endpoint still see the final event
+const RETENTION_MS = 60_000;
+
+const TERMINAL_STEPS = new Set(['complete', 'error']);
+
+export interface ProgressEvent {
+  id: number;
+  progress: AnalysisProgress;
+}
+
+type Listener = (event: ProgressEvent) => void;
+
+interface ProgressStream {
+  events: ProgressEvent[];
+  listeners: Set<Listener>;
+  finished: boolean;
+  cleanup?: ReturnType<typeof setTimeout>;
+}
+
+export const isTerminalProgress = (progress: AnalysisProgress) =>
+  TERMINAL_STEPS.has(progress.step);
+
+/**
+ * Fan-out of analysis progress per document. Every event gets a monotonically
+ * increasing id so SSE clients can resume with Last-Event-ID after a dropped
+ * connection without missing the partial results.
+ */
+export class ProgressBroker {
+  private streams = new Map<string, ProgressStream>();
+  private nextId = 1;
+
+  /**
+   * Begin a new run for the document. A finished run's events are dropped so a
+   * client connecting before the new run publishes does not replay its end.
+   */
+  start(documentId: string): void {
+    const stream = this.streams.get(documentId);
+    if (stream && !stream.finished) return;
+
+    // A re-analysis starts a fresh log but keeps the listeners waiting for it
+    if (stream?.cleanup) clearTimeout(stream.cleanup);
+    this.streams.set(documentId, {
+      events: [],
+      listeners: stream?.listeners || new Set(),
+      finished: false,
+    });
+  }
+
+  publish(documentId: string, progress: AnalysisProgress): ProgressEvent {
+    this.start(documentId);
+    const stream = this.streams.get(documentId)!;
+
+    const event = { id: this.nextId++, progress };
+    stream.events.push(event);
+    if (stream.events.length > MAX_EVENTS) {
+      // Never drop the first event with partial results; clients joining late need it
+      const keep = stream.events.findIndex((e) => e.progress.partialAnalysis);
+      stream.events.splice(keep === 0 ? 1 : 0, 1);
+    }
+
+    if (isTerminalProgress(progress)) {
+      stream.finished = true;
+      stream.cleanup = setTimeout(() => {
+        if (this.streams.get(documentId) === stream) this.streams.delete(documentId);
+      }, RETENTION_MS);
+      stream.cleanup.unref?.();
+    }
+
+    stream.listeners.forEach((listener) => listener(event));
+    return event;
+  }
+
+  /** Latest progress, for the polling endpoint */
+  latest(documentId: string): AnalysisProgress | undefined {
+    const events = this.streams.get(documentId)?.events;
+    return events?.[events.length - 1]?.progress;
+  }
+
+  /** Events published after `lastEventId` (all of them for 0) */
+  replay(documentId: string, lastEventId = 0): ProgressEvent[] {
+    return (this.streams.get(documentId)?.events || []).filter((e) => e.id > lastEventId);
+  }
+
+  isFinished(documentId: string): boolean {
+    return this.streams.get(documentId)?.finished ?? false;
+  }
+
+  /**
+   * Listen for new events. Subscribing before the analysis starts is allowed;
+   * the listener receives the run's events once it publishes.
+   */
+  subscribe(documentId: string, listener: Listener): () => void {
+    let stream = this.streams.get(documentId);
+    if (!stream) {
+      stream = { events: [], listeners: new Set(), finished: false };
+      this.streams.set(documentId, stream);
+    }
+    stream.listeners.add(listener);
+
+    const subscribed = stream;
+    return () => {
+      subscribed.listeners.delete(listener);
+      if (
+        subscribed.listeners.size === 0
+        && subscribed.events.length === 0
+        && this.streams.get(documentId) === subscribed
+      ) {
+        this.streams.delete(documentId);
+      }
+    };
+  }
+}
+
+export const progressBroker = new ProgressBroker();
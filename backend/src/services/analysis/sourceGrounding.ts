@@ -0,0 +1,141 @@
+import type { SourceGrounding, TextSpan } from '../../../../shared/src/types.js';
+
+// Minimum match confidence for an item to count as traced back to the document
+export const GROUNDING_THRESHOLD = 0.8;
+
+// Confidence of a quote that only matches once case, punctuation and spacing are ignored
+const NORMALIZED_MATCH_CONFIDENCE = 0.95;
+// Fuzzy matches score below normalized ones even when every word is present,
+// since the words may be spread out or reordered
+const FUZZY_MATCH_WEIGHT = 0.9;
+// Share of a quote's words a window must contain to be reported as a match at all
+const MIN_FUZZY_OVERLAP = 0.5;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+const QUOTE_MARKS = /^[\s"'“”‘’«»]+|[\s"'“”‘’«»]+$/g;
+const ELLIPSIS = /^(\.\.\.|…)\s*|\s*(\.\.\.|…)$/g;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface QuoteMatch {
+  span: TextSpan;
+  confidence: number;
+}
+
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(WORD)].map((match) => ({
+    word: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+function cleanQuote(quote: string): string {
+  return quote.replace(QUOTE_MARKS, '').replace(ELLIPSIS, '').trim();
+}
+
+function spanOf(content: string, start: number, end: number): TextSpan {
+  return { start, end, text: content.substring(start, end) };
+}
+
+/**
+ * Find `quote` in `content`: verbatim, then ignoring case, punctuation and
+ * spacing, then as the stretch of text sharing the most words with it. The
+ * confidence reflects which of those matched and, for the last, how well.
+ */
+function locateQuote(content: string, tokens: Token[], quote: string): QuoteMatch | null {
+  const cleaned = cleanQuote(quote);
+  if (!cleaned) return null;
+
+  const exact = content.indexOf(cleaned);
+  if (exact !== -1) {
+    return { span: spanOf(content, exact, exact + cleaned.length), confidence: 1 };
+  }
+
+  const words = tokenize(cleaned).map((token) => token.word);
+  if (words.length === 0 || words.length > tokens.length) return null;
+
+  for (let i = 0; i + words.length <= tokens.length; i++) {
+    if (words.every((word, offset) => tokens[i + offset].word === word)) {
+      return {
+        span: spanOf(content, tokens[i].start, tokens[i + words.length - 1].end),
+        confidence: NORMALIZED_MATCH_CONFIDENCE,
+      };
+    }
+  }
+
+  // Short quotes (names, numbers) either match or they do not
+  if (words.length < 3) return null;
+
+  // Slide a window the length of the quote over the document, counting the
+  // quote's words inside it
+  const wanted = new Map<string, number>();
+  words.forEach((word) => wanted.set(word, (wanted.get(word) || 0) + 1));
+  const inWindow = new Map<string, number>();
+  let overlap = 0;
+  let best = { overlap: 0, start: 0 };
+
+  const add = (word: string) => {
+    const count = (inWindow.get(word) || 0) + 1;
+    inWindow.set(word, count);
+    if (count <= (wanted.get(word) || 0)) overlap++;
+  };
+  const remove = (word: string) => {
+    const count = inWindow.get(word) || 0;
+    inWindow.set(word, count - 1);
+    if (count <= (wanted.get(word) || 0)) overlap--;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    add(tokens[i].word);
+    if (i >= words.length) remove(tokens[i - words.length].word);
+    if (overlap > best.overlap) {
+      best = { overlap, start: Math.max(0, i - words.length + 1) };
+    }
+  }
+
+  const score = best.overlap / words.length;
+  if (score < MIN_FUZZY_OVERLAP) return null;
+
+  // Trim the window to the first and last word the quote shares with it
+  const window = tokens.slice(best.start, best.start + words.length).filter((token) => wanted.has(token.word));
+  return {
+    span: spanOf(content, window[0].start, window[window.length - 1].end),
+    confidence: Math.round(score * FUZZY_MATCH_WEIGHT * 100) / 100,
+  };
+}
+
+/**
+ * Grounder for one document: call it with the quotes, evidence or names an
+ * extracted item was taken from to get where they occur and whether the item
+ * is verified. Items without any quote are unverified.
+ */
+export function createGrounder(
+  content: string,
+): (quotes: Array<string | undefined>) => SourceGrounding {
+  const tokens = tokenize(content);
+
+  return (quotes) => {
+    const matches = quotes
+      .filter((quote): quote is string => typeof quote === 'string')
+      .map((quote) => locateQuote(content, tokens, quote))
+      .filter((match): match is QuoteMatch => match !== null);
+
+    const confidence = matches.reduce((max, match) => Math.max(max, match.confidence), 0);
+    const spans = matches
+      .filter((match) => match.confidence >= GROUNDING_THRESHOLD)
+      .map((match) => match.span)
+      .filter((span, index, all) => all.findIndex((other) => other.start === span.start) === index)
+      .sort((a, b) => a.start - b.start);
+
+    return {
+      verified: confidence >= GROUNDING_THRESHOLD,
+      confidence,
+      spans,
+    };
+  };
+}
@@ -1,5 +1,10 @@
+import { promptVersionsOf, trackLLMUsage } from '../llm/llmUsage.js';
 import { getOpenRouterClient, OpenRouterClient } from '../llm/openRouterClient.js';
 
+import { mergeEntities, mergeKPIs } from './chunkMerger.js';
+import { chunkDocument, DocumentChunk } from './documentChunker.js';
+import { createGrounder } from './sourceGrounding.js';
+
 import type {
   Document,
   DocumentAnalysis,
@@ -9,6 +14,7 @@ import type {
   SignalAnalysis,
   VisualizationRecommendation,
   KPI,
+  LLMValidationFailure,
   Metric,
 } from '../../../../shared/src/types.js';
 
@@ -19,6 +25,33 @@ export type ProgressCallback = (
   partialAnalysis?: Partial<DocumentAnalysis>
 ) => void;
 
+// Documents up to this size are analyzed in a single pass. TLDR, summary and entity
+// prompts cover the whole text; signal analysis reads only its first 3000 characters.
+const SINGLE_PASS_LIMIT = 4000;
+
+// Maximum size of the combined chunk summaries fed to the reduce step before they
+// are themselves summarized again.
+const REDUCE_BUDGET = 6000;
+
+// Chunks analyzed concurrently, to stay inside provider rate limits
+const CHUNK_CONCURRENCY = 3;
+
+export interface AnalysisMetadata {
+  tokensUsed: number;
+  models: string[];
+  // Registry ids of the prompts the analysis ran with
+  promptVersion?: string;
+  // Outputs that failed their schema and were sent back for repair
+  validationFailures?: LLMValidationFailure[];
+}
+
+interface ChunkResult {
+  chunk: DocumentChunk;
+  summary: string;
+  entities: Entity[];
+  kpis: KPI[];
+}
+
 export class TextAnalyzer {
   private _llmClient: OpenRouterClient | null;
   private totalTokensUsed: number = 0;
@@ -40,39 +73,97 @@ export class TextAnalyzer {
   async analyzeDocument(
     document: Document,
     onProgress?: ProgressCallback,
-  ): Promise<DocumentAnalysis & { metadata?: { tokensUsed: number; models: string[] } }> {
+  ): Promise<DocumentAnalysis & { metadata?: AnalysisMetadata }> {
+    const { result, calls, validationFailures } = await trackLLMUsage(() =>
+      this.runAnalysis(document, onProgress));
+    const promptVersion = promptVersionsOf(calls);
+    return {
+      ...result,
+      metadata: {
+        ...result.metadata,
+        ...(promptVersion && { promptVersion }),
+        ...(validationFailures.length > 0 && { validationFailures }),
+      },
+    };
+  }
+
+  private async runAnalysis(
+    document: Document,
+    onProgress?: ProgressCallback,
+  ): Promise<DocumentAnalysis & { metadata: AnalysisMetadata }> {
     console.log(`Analyzing document: ${document.id}`);
     this.totalTokensUsed = 0;
     this.modelsUsed.clear();
 
     onProgress?.('initialization', 5, 'Starting analysis...');
 
-    // Priority 1: Get TLDR and Executive Summary first (most important for user)
-    onProgress?.('priority-analysis', 10, 'Generating TLDR and executive summary...');
-
-    const [tldr, executiveSummary] = await Promise.all([
-      this.generateTLDR(document.content),
-      this.generateExecutiveSummary(document.content),
-    ]);
-
-    // Provide early results to user immediately
-    onProgress?.('early-results', 30, 'TLDR and summary ready! Continuing analysis...', {
-      tldr,
-      executiveSummary,
-    });
-
-    // Priority 2: Run remaining analyses in parallel
-    onProgress?.('detailed-analysis', 35, 'Extracting entities and analyzing signals...');
+    const chunks = document.content.length > SINGLE_PASS_LIMIT
+      ? chunkDocument(document)
+      : [];
+
+    let tldr: Awaited<ReturnType<TextAnalyzer['generateTLDR']>>;
+    let executiveSummary: ExecutiveSummary;
+    let entities: Entity[];
+    let signals: SignalAnalysis;
+    let relationshipText = document.content;
+
+    if (chunks.length > 0) {
+      // Map: summarize and extract from every chunk so nothing past page two is ignored
+      onProgress?.('chunk-analysis', 10, `Analyzing ${chunks.length} chunks...`);
+      const chunkResults = await this.analyzeChunks(chunks, onProgress);
+
+      // Reduce: the digest of chunk summaries stands in for the full text
+      onProgress?.('priority-analysis', 30, 'Generating TLDR and executive summary...');
+      const digest = await this.reduceSummaries(
+        chunkResults.map((r) => `## ${r.chunk.title}\n${r.summary}`),
+      );
+      relationshipText = digest;
+
+      const [digestTldr, digestSummary] = await Promise.all([
+        this.generateTLDR(digest),
+        this.generateExecutiveSummary(digest),
+      ]);
+      tldr = digestTldr;
+      executiveSummary = {
+        ...digestSummary,
+        kpis: mergeKPIs(digestSummary.kpis, ...chunkResults.map((r) => r.kpis)),
+      };
 
-    const [entities, signals] = await Promise.all([
-      this.extractEntities(document.content),
-      this.analyzeSignals(document.content),
-    ]);
+      onProgress?.('early-results', 40, 'TLDR and summary ready! Continuing analysis...', {
+        tldr,
+        executiveSummary,
+      });
+
+      entities = mergeEntities(chunkResults);
+      signals = await this.analyzeSignals(digest);
+    } else {
+      // Priority 1: Get TLDR and Executive Summary first (most important for user)
+      onProgress?.('priority-analysis', 10, 'Generating TLDR and executive summary...');
+
+      [tldr, executiveSummary] = await Promise.all([
+        this.generateTLDR(document.content),
+        this.generateExecutiveSummary(document.content),
+      ]);
+
+      // Provide early results to user immediately
+      onProgress?.('early-results', 30, 'TLDR and summary ready! Continuing analysis...', {
+        tldr,
+        executiveSummary,
+      });
+
+      // Priority 2: Run remaining analyses in parallel
+      onProgress?.('detailed-analysis', 35, 'Extracting entities and analyzing signals...');
+
+      [entities, signals] = await Promise.all([
+        this.extractEntities(document.content),
+        this.analyzeSignals(document.content),
+      ]);
+    }
 
     onProgress?.('relationships', 50, 'Detecting relationships between entities...');
 
     // Relationships depend on entities
-    const relationships = await this.detectRelationships(document.content, entities);
+    const relationships = await this.detectRelationships(relationshipText, entities);
 
     onProgress?.('sections', 65, 'Generating section summaries...');
 
@@ -89,13 +180,25 @@ export class TextAnalyzer {
       relationships.length,
     );
 
+    // Trace every extracted item back to the document text
+    const ground = createGrounder(document.content);
+
     onProgress?.('complete', 100, 'Analysis complete!');
 
     return {
       tldr,
-      executiveSummary,
-      entities,
-      relationships,
+      executiveSummary: {
+        ...executiveSummary,
+        kpis: executiveSummary.kpis.map((kpi) => ({ ...kpi, grounding: ground([kpi.sourceQuote]) })),
+      },
+      entities: entities.map((entity) => ({
+        ...entity,
+        grounding: ground([entity.text, ...(entity.mentions || []).map((mention) => mention.text)]),
+      })),
+      relationships: relationships.map((relationship) => ({
+        ...relationship,
+        grounding: ground((relationship.evidence || []).map((evidence) => evidence.text)),
+      })),
       metrics: [], // KPIs are in executiveSummary, metrics would need separate extraction
       signals,
       recommendations,
@@ -106,6 +209,115 @@ export class TextAnalyzer {
     };
   }
 
+  /**
+   * Map step of long-document analysis: summary, entities and KPIs for every chunk,
+   * a few chunks at a time. Progress is reported as each chunk completes. A chunk
+   * that fails is left out so the others can still be merged.
+   */
+  async analyzeChunks(
+    chunks: DocumentChunk[],
+    onProgress?: ProgressCallback,
+  ): Promise<ChunkResult[]> {
+    const results: ChunkResult[] = [];
+    let completed = 0;
+
+    for (let i = 0; i < chunks.length; i += CHUNK_CONCURRENCY) {
+      const batch = chunks.slice(i, i + CHUNK_CONCURRENCY);
+      const batchResults = await Promise.all(
+        batch.map(async (chunk) => {
+          let result: ChunkResult | undefined;
+          try {
+            const [summary, entities, kpis] = await Promise.all([
+              this.summarizeText(chunk.text),
+              this.extractEntities(chunk.text, chunk.text.length),
+              this.extractKPIs(chunk.text),
+            ]);
+            result = { chunk, summary, entities, kpis };
+          } catch (error) {
+            console.error(`Failed to analyze chunk "${chunk.title}", skipping it:`, error);
+          }
+
+          completed++;
+          onProgress?.(
+            'chunk-analysis',
+            10 + Math.round((completed / chunks.length) * 20),
+            `${result ? 'Analyzed' : 'Skipped'} chunk ${completed}/${chunks.length}: ${chunk.title}`,
+          );
+
+          return result;
+        }),
+      );
+      results.push(...batchResults.filter((result): result is ChunkResult => result !== undefined));
+    }
+
+    if (results.length === 0) {
+      throw new Error(`All ${chunks.length} chunks failed to analyze`);
+    }
+
+    return results;
+  }
+
+  /**
+   * Reduce step: collapse chunk summaries into a digest that fits a single prompt,
+   * summarizing groups of summaries again for very long documents.
+   */
+  async reduceSummaries(summaries: string[], maxRounds = 5): Promise<string> {
+    let current = summaries;
+
+    for (let round = 0; round < maxRounds; round++) {
+      if (current.length <= 1 || current.join('\n\n').length <= REDUCE_BUDGET) {
+        break;
+      }
+
+      const groups: string[][] = [[]];
+      for (const summary of current) {
+        const group = groups[groups.length - 1];
+        if (group.length > 0 && [...group, summary].join('\n\n').length > REDUCE_BUDGET) {
+          groups.push([summary]);
+        } else {
+          group.push(summary);
+        }
+      }
+
+      current = await Promise.all(groups.map((group) => this.summarizeText(group.join('\n\n'))));
+    }
+
+    return current.join('\n\n').substring(0, REDUCE_BUDGET);
+  }
+
+  /**
+   * Summarize an arbitrary block of text with the section summary prompt.
+   */
+  async summarizeText(text: string): Promise<string> {
+    try {
+      const response = await this.llmClient.callWithFallback('sectionSummary', text);
+      this.trackUsage(response);
+
+      try {
+        const parsed = this.llmClient.parseJSONResponse<{ summary: string }>(response);
+        return parsed.summary || response.content.trim();
+      } catch (jsonError) {
+        return response.content.trim();
+      }
+    } catch (error) {
+      console.error('Failed to summarize chunk, using excerpt', error);
+      return `${text.substring(0, 500)}...`;
+    }
+  }
+
+  async extractKPIs(text: string): Promise<KPI[]> {
+    try {
+      const response = await this.llmClient.callWithFallback('kpiExtraction', text);
+      this.trackUsage(response);
+
+      const parsed = this.llmClient.parseJSONResponse<KPI[] | { kpis: KPI[] }>(response);
+      return Array.isArray(parsed) ? parsed : parsed.kpis || [];
+    } catch (error) {
+      console.error('Failed to extract KPIs from chunk:', error);
+      return [];
+    }
+  }
+
   async generateTLDR(text: string, retries = 2): Promise<{ text: string; confidence?: number; generatedAt?: string; model?: string }> {
     const sample = text.substring(0, 4000); // Limit for speed
 
@@ -133,45 +345,16 @@ export class TextAnalyzer {
 
   async generateExecutiveSummary(text: string): Promise<ExecutiveSummary> {
     const sample = text.substring(0, 6000);
+    // The client has validated the output against the executive summary schema,
+    // so every field is present and KPI values are numeric
     const response = await this.llmClient.callWithFallback('executiveSummary', sample);
     this.trackUsage(response);
 
-    try {
-      const parsed = this.llmClient.parseJSONResponse<ExecutiveSummary>(response);
-
-      // Validate and filter KPIs to ensure they have valid numeric values
-      const validKpis = (parsed.kpis || []).filter(kpi =>
-        kpi
-        && typeof kpi.value === 'number'
-        && !isNaN(kpi.value)
-        && kpi.label
-        && kpi.unit,
-      );
-
-      // Ensure all required fields exist
-      return {
-        headline: parsed.headline || 'Document Summary',
-        keyIdeas: parsed.keyIdeas || [],
-        kpis: validKpis,
-        risks: parsed.risks || [],
-        opportunities: parsed.opportunities || [],
-        callToAction: parsed.callToAction || 'Review the document for details',
-      };
-    } catch (error) {
-      console.error('Failed to parse executive summary, using fallback');
-      return {
-        headline: 'Document Summary',
-        keyIdeas: [response.content.substring(0, 200)],
-        kpis: [],
-        risks: [],
-        opportunities: [],
-        callToAction: 'Review the document for details',
-      };
-    }
+    return this.llmClient.parseJSONResponse<ExecutiveSummary>(response);
   }
 
-  async extractEntities(text: string): Promise<Entity[]> {
-    const sample = text.substring(0, 5000);
+  async extractEntities(text: string, maxChars = 5000): Promise<Entity[]> {
+    const sample = text.substring(0, maxChars);
     const response = await this.llmClient.callWithFallback('entityExtraction', sample);
     this.trackUsage(response);
 
@@ -203,33 +386,27 @@ export class TextAnalyzer {
     try {
       const parsed = this.llmClient.parseJSONResponse<{ relationships: Relationship[] }>(response);
       const relationships = parsed.relationships || [];
-      console.log(`✅ Detected ${relationships.length} relationships`);
 
-
-      // Check for mismatches between relationship IDs and entity IDs
-      const entityIds = new Set(entities.map((e: Entity) => e.id));
-      const entityTexts = new Set(entities.map((e: Entity) => e.text));
-      const mismatches = relationships.filter((r: Relationship) =>
-        !entityIds.has(r.source) || !entityIds.has(r.target),
-      );
-
-      if (mismatches.length > 0) {
-        console.warn(`⚠️  Found ${mismatches.length} relationships with non-matching IDs`);
-        console.warn('Sample mismatch:', JSON.stringify(mismatches.slice(0, 2), null, 2));
-        console.warn('Checking if using text instead of ID...');
-
-        const usingText = mismatches.filter((r: Relationship) =>
-          entityTexts.has(r.source) || entityTexts.has(r.target),
+      // Endpoints must be extracted entities. The model sometimes names an entity
+      // by its text instead of its ID; anything else cannot be placed in a graph.
+      const entityIds = new Set(entities.map((e) => e.id));
+      const idsByText = new Map(entities.map((e) => [e.text.toLowerCase(), e.id]));
+      const resolve = (ref: string) => (entityIds.has(ref) ? ref : idsByText.get(ref.toLowerCase()));
+
+      const resolved = relationships.flatMap((r) => {
+        const source = resolve(r.source);
+        const target = resolve(r.target);
+        return source && target ? [{ ...r, source, target }] : [];
+      });
+
+      if (resolved.length < relationships.length) {
+        console.warn(
+          `⚠️  Dropped ${relationships.length - resolved.length} relationships referencing unknown entities`,
         );
-
-        if (usingText.length > 0) {
-          console.error('❌ LLM is using entity TEXT instead of entity ID in relationships!');
-          console.error('Example:', JSON.stringify(usingText[0], null, 2));
-          console.error('This will be auto-fixed in the visualization generator.');
-        }
       }
+      console.log(`✅ Detected ${resolved.length} relationships`);
 
-      return relationships;
+      return resolved;
     } catch (error) {
       console.error('Failed to parse relationships:', error);
       return [];
@@ -238,23 +415,11 @@ export class TextAnalyzer {
 
   async analyzeSignals(text: string): Promise<SignalAnalysis> {
     const sample = text.substring(0, 3000);
+    // Every score is checked by the client against the signal analysis schema
     const response = await this.llmClient.callWithFallback('signalAnalysis', sample);
     this.trackUsage(response);
 
-    try {
-      const parsed = this.llmClient.parseJSONResponse<SignalAnalysis>(response);
-      return parsed;
-    } catch (error) {
-      console.error('Failed to parse signals, using defaults');
-      return {
-        structural: 0.5,
-        process: 0.3,
-        quantitative: 0.3,
-        technical: 0.2,
-        argumentative: 0.3,
-        temporal: 0.2,
-      };
-    }
+    return this.llmClient.parseJSONResponse<SignalAnalysis>(response);
   }
 
   async generateSectionSummaries(document: Document): Promise<void> {
@@ -1,23 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
 import Stripe from "stripe";
 import { stripeService } from "./stripeService.js";
 
-// Mock Stripe
-vi.mock("stripe", () => {
-  const stripeInstance = {
-    checkout: {
-      sessions: {
-        create: vi.fn(),
-      },
-    },
-    webhooks: {
-      constructEvent: vi.fn(),
-    },
-  };
-
-  return {
-    default: vi.fn(() => stripeInstance),
-  };
+// Local fake of the Stripe API; the real SDK talks to it over HTTP
+const fakeStripe = await vi.hoisted(async () => {
+  const { startFakeStripe } = await import("../../../../test/mocks/fakeStripeServer");
+  return startFakeStripe();
 });
 
 // Mock env
@@ -25,68 +13,131 @@ vi.mock("../../config/env.js", () => ({
   env: {
     STRIPE_SECRET_KEY: "sk_test_123",
     STRIPE_PRICE_ID_PRO: "price_123",
+    STRIPE_PRICE_ID_TEAM: "price_team",
     STRIPE_WEBHOOK_SECRET: "whsec_123",
+    STRIPE_API_URL: fakeStripe.url,
     APP_URL: "http://localhost:3000",
   },
 }));
 
+const checkoutRequests = () =>
+  fakeStripe.requests.filter((r) => r.path === "/v1/checkout/sessions");
+
 describe("StripeService", () => {
-  let stripeInstance: any;
+  beforeEach(() => {
+    fakeStripe.reset();
+  });
 
-  beforeEach(async () => {
-    // Get the mocked instance
-    const StripeConstructor = (await import("stripe")).default;
-    stripeInstance = new StripeConstructor("key", {} as any);
-    vi.clearAllMocks();
+  afterAll(async () => {
+    await fakeStripe.close();
   });
 
   describe("createCheckoutSession", () => {
     it("should create a checkout session and return URL", async () => {
-      const mockSession = { url: "https://checkout.stripe.com/session/123" };
-      stripeInstance.checkout.sessions.create.mockResolvedValue(mockSession);
-
       const url = await stripeService.createCheckoutSession(
         "user1",
         "test@example.com",
       );
 
-      expect(url).toBe(mockSession.url);
-      expect(stripeInstance.checkout.sessions.create).toHaveBeenCalledWith(
+      expect(url).toMatch(/^https:\/\/checkout\.stripe\.test\//);
+      expect(checkoutRequests()).toHaveLength(1);
+      expect(checkoutRequests()[0].params).toEqual(
         expect.objectContaining({
           mode: "subscription",
           customer_email: "test@example.com",
           client_reference_id: "user1",
-          line_items: expect.arrayContaining([
-            expect.objectContaining({ price: "price_123" }),
-          ]),
+          "line_items[0][price]": "price_123",
+          "metadata[userId]": "user1",
+          "metadata[plan]": "pro",
+        }),
+      );
+    });
+
+    it("should record the user on the subscription", async () => {
+      await stripeService.createCheckoutSession("user1", "test@example.com");
+
+      expect(checkoutRequests()[0].params).toEqual(
+        expect.objectContaining({
+          "subscription_data[metadata][userId]": "user1",
+          "subscription_data[metadata][plan]": "pro",
         }),
       );
     });
+
+    it("should sell the Team plan at its own price", async () => {
+      await stripeService.createCheckoutSession("user1", "test@example.com", "team");
+
+      expect(checkoutRequests()[0].params).toEqual(
+        expect.objectContaining({
+          "line_items[0][price]": "price_team",
+          "metadata[plan]": "team",
+        }),
+      );
+    });
+
+    it("should refuse plans that are not sold through checkout", async () => {
+      await expect(
+        stripeService.createCheckoutSession("user1", "test@example.com", "enterprise"),
+      ).rejects.toThrow("not available through checkout");
+      expect(checkoutRequests()).toHaveLength(0);
+    });
   });
 
-  describe("verifyWebhookSignature", () => {
-    it("should verify signature and return event", async () => {
-      const mockEvent = { id: "evt_123", type: "checkout.session.completed" };
-      stripeInstance.webhooks.constructEvent.mockReturnValue(mockEvent);
+  describe("getSubscription", () => {
+    it("should fetch the subscription from Stripe", async () => {
+      fakeStripe.addSubscription({ id: "sub_1", status: "past_due" });
+
+      const subscription = await stripeService.getSubscription("sub_1");
 
-      const event = await stripeService.verifyWebhookSignature(
-        "payload",
-        "sig123",
+      expect(subscription.id).toBe("sub_1");
+      expect(subscription.status).toBe("past_due");
+    });
+
+    it("should reject unknown subscriptions", async () => {
+      await expect(stripeService.getSubscription("sub_missing")).rejects.toThrow(
+        "No such subscription",
       );
+    });
+  });
+
+  describe("createPortalSession", () => {
+    it("should open the customer portal and return to the profile page", async () => {
+      const url = await stripeService.createPortalSession("cus_42");
 
-      expect(event).toEqual(mockEvent);
-      expect(stripeInstance.webhooks.constructEvent).toHaveBeenCalledWith(
-        "payload",
-        "sig123",
-        "whsec_123",
+      expect(url).toMatch(/^https:\/\/billing\.stripe\.test\//);
+      const portalRequest = fakeStripe.requests.find(
+        (r) => r.path === "/v1/billing_portal/sessions",
       );
+      expect(portalRequest?.params).toEqual({
+        customer: "cus_42",
+        return_url: "http://localhost:3000/profile",
+      });
     });
+  });
 
-    it("should throw error on invalid signature", async () => {
-      stripeInstance.webhooks.constructEvent.mockImplementation(() => {
-        throw new Error("Invalid signature");
+  describe("planForPrice", () => {
+    it("should map configured prices to plans", () => {
+      expect(stripeService.planForPrice("price_123")).toBe("pro");
+      expect(stripeService.planForPrice("price_team")).toBe("team");
+      expect(stripeService.planForPrice("price_other")).toBeNull();
+      expect(stripeService.planForPrice(undefined)).toBeNull();
+    });
+  });
+
+  describe("verifyWebhookSignature", () => {
+    it("should verify signature and return event", async () => {
+      const payload = JSON.stringify({ id: "evt_123", type: "checkout.session.completed" });
+      const signature = Stripe.webhooks.generateTestHeaderString({
+        payload,
+        secret: "whsec_123",
       });
 
+      const event = await stripeService.verifyWebhookSignature(payload, signature);
+
+      expect(event).toEqual(expect.objectContaining({ id: "evt_123", type: "checkout.session.completed" }));
+    });
+
+    it("should throw error on invalid signature", async () => {
       await expect(
         stripeService.verifyWebhookSignature("payload", "bad_sig"),
       ).rejects.toThrow("Webhook signature verification failed");
@@ -2,18 +2,46 @@ import Stripe from 'stripe';
 
 import { env } from '../../config/env.js';
 
+import type { PlanId } from '../../../shared/src/types.js';
+
+// Plans sold through Checkout; Enterprise is arranged by sales
+export const CHECKOUT_PLANS: PlanId[] = ['pro', 'team'];
+
+const checkoutPrice = (plan: PlanId) =>
+  (plan === 'team' ? env.STRIPE_PRICE_ID_TEAM : env.STRIPE_PRICE_ID_PRO);
+
+// Host, port and protocol of a Stripe API served somewhere else than api.stripe.com
+function apiEndpoint(url: string): Partial<Stripe.StripeConfig> {
+  const { hostname, port, protocol } = new URL(url);
+  return {
+    host: hostname,
+    port,
+    protocol: protocol === 'http:' ? 'http' : 'https',
+  };
+}
+
 const stripe = new Stripe(env.STRIPE_SECRET_KEY, {
   apiVersion: '2024-12-18.acacia' as any,
+  ...(env.STRIPE_API_URL ? apiEndpoint(env.STRIPE_API_URL) : {}),
 });
 
 export class StripeService {
-  async createCheckoutSession(userId: string, email: string): Promise<string> {
+  async createCheckoutSession(
+    userId: string,
+    email: string,
+    plan: PlanId = 'pro',
+  ): Promise<string> {
+    const price = CHECKOUT_PLANS.includes(plan) ? checkoutPrice(plan) : '';
+    if (!price) {
+      throw new Error(`The ${plan} plan is not available through checkout`);
+    }
+
     const session = await stripe.checkout.sessions.create({
       mode: 'subscription',
       payment_method_types: ['card'],
       line_items: [
         {
-          price: env.STRIPE_PRICE_ID_PRO,
+          price,
           quantity: 1,
         },
       ],
@@ -23,6 +51,14 @@ export class StripeService {
       cancel_url: `${env.APP_URL}/pricing?checkout=cancel`,
       metadata: {
         userId,
+        plan,
+      },
+      // Lets subscription and invoice events find the user
+      subscription_data: {
+        metadata: {
+          userId,
+          plan,
+        },
       },
     });
 
@@ -33,6 +69,33 @@ export class StripeService {
     return session.url;
   }
 
+  async getSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    return stripe.subscriptions.retrieve(subscriptionId);
+  }
+
+  /**
+   * Stripe's customer portal, where users update payment methods, switch
+   * plans and cancel. Returns the session URL.
+   */
+  async createPortalSession(customerId: string): Promise<string> {
+    const session = await stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: `${env.APP_URL}/profile`,
+    });
+
+    return session.url;
+  }
+
+  /**
+   * The plan a Stripe price sells, null for prices not configured here
+   */
+  planForPrice(priceId: string | undefined): PlanId | null {
+    if (!priceId) {
+      return null;
+    }
+    return CHECKOUT_PLANS.find((plan) => checkoutPrice(plan) === priceId) || null;
+  }
+
   async verifyWebhookSignature(
     payload: string | Buffer,
     signature: string,
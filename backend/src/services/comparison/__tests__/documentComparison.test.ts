@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import { documentParser } from '../../documentParser';
+import { DocumentComparisonService } from '../documentComparison';
+
+const VERSION_1 = [
+  '# Launch Plan',
+  '',
+  '## Timeline',
+  '',
+  'The rollout will begin in Q3 2024. EU customers are migrated in the first wave.',
+  '',
+  '## Budget',
+  '',
+  'The project has a total budget of 2.5 million USD.',
+].join('\n');
+
+const VERSION_2 = [
+  '# Launch Plan',
+  '',
+  '## Timeline',
+  '',
+  'The rollout will begin in Q3 2024. EU customers are migrated in the first wave.',
+  '',
+  '## Budget',
+  '',
+  'The project has a total budget of 3 million USD.',
+  '',
+  '## Risks',
+  '',
+  'Vendor delays could push the migration into Q4.',
+].join('\n');
+
+const createClient = (payload: unknown) => ({
+  callWithFallback: vi.fn().mockResolvedValue({
+    content: typeof payload === 'string' ? payload : JSON.stringify(payload),
+    tokensUsed: 100,
+    model: 'test-model',
+  }),
+  parseJSONResponse: vi.fn((response: any) => JSON.parse(response.content)),
+});
+
+const loadVersions = async () => {
+  const left = await documentParser.parseText(VERSION_1, 'Launch Plan v1');
+  const right = await documentParser.parseText(VERSION_2, 'Launch Plan v2');
+  return { left, right };
+};
+
+describe('DocumentComparisonService', () => {
+  it('summarizes changed sections in one LLM call', async () => {
+    const { left, right } = await loadVersions();
+    const client = createClient({
+      summaries: [
+        { id: 1, summary: 'The budget rises from 2.5 to 3 million USD.' },
+        { id: 2, summary: 'New section on vendor delay risks.' },
+      ],
+    });
+    const service = new DocumentComparisonService(client as any);
+
+    const comparison = await service.compare({ document: left }, { document: right });
+
+    expect(client.callWithFallback).toHaveBeenCalledTimes(1);
+    expect(client.callWithFallback.mock.calls[0][0]).toBe('comparisonSummary');
+    const prompt = client.callWithFallback.mock.calls[0][1] as string;
+    expect(prompt).toContain('2.5 million USD');
+    expect(prompt).not.toContain('EU customers');
+
+    const budget = comparison.sections.find((s) => s.rightTitle === 'Budget')!;
+    expect(budget.change).toBe('modified');
+    expect(budget.summary).toBe('The budget rises from 2.5 to 3 million USD.');
+    const risks = comparison.sections.find((s) => s.rightTitle === 'Risks')!;
+    expect(risks.change).toBe('added');
+    expect(risks.summary).toBe('New section on vendor delay risks.');
+
+    expect(comparison.sections.find((s) => s.rightTitle === 'Timeline')?.change).toBe('unchanged');
+    expect(comparison.matrix.left).toEqual({ documentId: left.id, title: left.title });
+    expect(comparison.matrix.counts.added).toBe(1);
+  });
+
+  it('falls back to heuristic summaries when the LLM fails', async () => {
+    const { left, right } = await loadVersions();
+    const client = createClient('');
+    client.callWithFallback.mockRejectedValue(new Error('rate limited'));
+    const service = new DocumentComparisonService(client as any);
+
+    const comparison = await service.compare({ document: left }, { document: right });
+
+    const budget = comparison.sections.find((s) => s.rightTitle === 'Budget')!;
+    expect(budget.summary).toMatch(/^Rewritten: \d+% of the wording kept/);
+    const risks = comparison.sections.find((s) => s.rightTitle === 'Risks')!;
+    expect(risks.summary).toContain('New section "Risks"');
+  });
+
+  it('does not call the LLM when nothing changed', async () => {
+    const { left } = await loadVersions();
+    const copy = await documentParser.parseText(VERSION_1, 'Launch Plan copy');
+    const client = createClient({ summaries: [] });
+    const service = new DocumentComparisonService(client as any);
+
+    const comparison = await service.compare({ document: left }, { document: copy });
+
+    expect(client.callWithFallback).not.toHaveBeenCalled();
+    expect(comparison.sections.every((s) => s.change === 'unchanged')).toBe(true);
+  });
+
+  it('diffs the KPIs of the executive summaries', async () => {
+    const { left, right } = await loadVersions();
+    const service = new DocumentComparisonService(createClient({ summaries: [] }) as any);
+    const analysis = (value: number) => ({
+      executiveSummary: {
+        headline: '',
+        keyIdeas: [],
+        kpis: [{ id: 'k', label: 'Budget', value, unit: 'M USD', confidence: 0.9 }],
+        risks: [],
+        opportunities: [],
+        callToAction: '',
+      },
+      entities: [],
+      relationships: [],
+    }) as any;
+
+    const comparison = await service.compare(
+      { document: left, analysis: analysis(2.5) },
+      { document: right, analysis: analysis(3) },
+    );
+
+    expect(comparison.kpis).toMatchObject([{ change: 'modified', label: 'Budget', delta: 0.5 }]);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  alignSections,
+  buildComparisonMatrix,
+  compareSections,
+  diffEntities,
+  diffKPIs,
+  diffRelationships,
+  textSimilarity,
+} from '../documentDiff.js';
+
+import type { Entity, KPI, Relationship, Section } from '../../../../../shared/src/types.js';
+
+const section = (id: string, title: string, content: string, children: Section[] = []): Section => ({
+  id,
+  level: 2,
+  title,
+  content,
+  startIndex: 0,
+  endIndex: content.length,
+  summary: '',
+  keywords: [],
+  children,
+});
+
+const entity = (id: string, text: string, importance = 0.5, type: Entity['type'] = 'concept'): Entity => ({
+  id,
+  text,
+  type,
+  mentions: [],
+  importance,
+});
+
+const relationship = (source: string, target: string, strength = 0.5): Relationship => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  type: 'depends-on',
+  strength,
+  evidence: [],
+});
+
+const kpi = (label: string, value: number, unit = 'USD'): KPI => ({
+  id: label,
+  label,
+  value,
+  unit,
+  confidence: 0.9,
+});
+
+describe('textSimilarity', () => {
+  it('is the word overlap of two texts, ignoring case and punctuation', () => {
+    expect(textSimilarity('The budget is large.', 'the BUDGET is large')).toBe(1);
+    expect(textSimilarity('alpha beta', 'gamma delta')).toBe(0);
+    expect(textSimilarity('alpha beta gamma', 'alpha beta delta')).toBeCloseTo(0.5);
+  });
+});
+
+describe('alignSections', () => {
+  it('classifies added, removed, modified and unchanged sections', () => {
+    const left = [
+      section('l1', 'Introduction', 'We plan a migration to the cloud.'),
+      section('l2', 'Budget', 'The budget is 2 million USD.'),
+      section('l3', 'Legacy', 'The old system will be kept.'),
+    ];
+    const right = [
+      section('r1', 'Introduction', 'We plan a migration to the cloud.'),
+      section('r2', 'Budget', 'The budget is 3 million USD.'),
+      section('r3', 'Risks', 'Vendor delays could push the migration.'),
+    ];
+
+    const aligned = alignSections(left, right);
+
+    expect(aligned.map(({ change, left: l, right: r }) => [change, l?.id, r?.id])).toEqual([
+      ['unchanged', 'l1', 'r1'],
+      ['modified', 'l2', 'r2'],
+      ['removed', 'l3', undefined],
+      ['added', undefined, 'r3'],
+    ]);
+  });
+
+  it('matches renamed sections by content', () => {
+    const content = 'Vendor delays could push the migration into the fourth quarter of next year.';
+    const aligned = alignSections(
+      [section('l1', 'Risks', content)],
+      [section('r1', 'Risks and Mitigations', `${content} We keep a second vendor.`)],
+    );
+
+    expect(aligned).toHaveLength(1);
+    expect(aligned[0].change).toBe('modified');
+    expect(aligned[0].left?.id).toBe('l1');
+    expect(aligned[0].similarity).toBeGreaterThan(0.5);
+  });
+
+  it('places removed sections after the section that preceded them', () => {
+    const aligned = alignSections(
+      [section('l1', 'One', 'a'), section('l2', 'Two', 'b'), section('l3', 'Three', 'c')],
+      [section('r1', 'One', 'a'), section('r3', 'Three', 'c')],
+    );
+
+    expect(aligned.map(({ change }) => change)).toEqual(['unchanged', 'removed', 'unchanged']);
+    expect(aligned[1].left?.id).toBe('l2');
+  });
+
+  it('aligns nested sections', () => {
+    const aligned = alignSections(
+      [section('l1', 'Plan', 'x', [section('l2', 'Phase 1', 'first phase')])],
+      [section('r1', 'Plan', 'x', [section('r2', 'Phase 1', 'first phase'), section('r3', 'Phase 2', 'second')])],
+    );
+
+    expect(compareSections(aligned).map(({ change, rightSectionId }) => [change, rightSectionId])).toEqual([
+      ['unchanged', 'r1'],
+      ['unchanged', 'r2'],
+      ['added', 'r3'],
+    ]);
+  });
+});
+
+describe('diffEntities', () => {
+  it('matches entities by type and canonical name', () => {
+    const diff = diffEntities(
+      [entity('a', 'The Data Centers', 0.5), entity('b', 'Mainframe', 0.6)],
+      [entity('x', 'data center', 0.9), entity('y', 'Kubernetes', 0.7)],
+    );
+
+    expect(diff.map(({ change, text }) => [change, text])).toEqual([
+      ['modified', 'data center'],
+      ['added', 'Kubernetes'],
+      ['removed', 'Mainframe'],
+    ]);
+    expect(diff[0]).toMatchObject({ leftImportance: 0.5, rightImportance: 0.9 });
+  });
+
+  it('ignores small importance changes', () => {
+    const [diff] = diffEntities([entity('a', 'AWS', 0.5)], [entity('b', 'AWS', 0.6)]);
+    expect(diff.change).toBe('unchanged');
+  });
+});
+
+describe('diffRelationships', () => {
+  it('matches relationships by the names of their endpoints', () => {
+    const diff = diffRelationships(
+      {
+        entities: [entity('a', 'Migration'), entity('b', 'Vendor'), entity('c', 'Budget')],
+        relationships: [relationship('a', 'b'), relationship('a', 'c')],
+      },
+      {
+        entities: [entity('x', 'migration'), entity('y', 'Vendor'), entity('z', 'Team')],
+        relationships: [relationship('x', 'y'), relationship('x', 'z')],
+      },
+    );
+
+    expect(diff.map(({ change, source, target }) => [change, source, target])).toEqual([
+      ['unchanged', 'migration', 'Vendor'],
+      ['added', 'migration', 'Team'],
+      ['removed', 'Migration', 'Budget'],
+    ]);
+  });
+
+  it('drops relationships whose entities are missing', () => {
+    const diff = diffRelationships(
+      { entities: [], relationships: [relationship('a', 'b')] },
+      { entities: [], relationships: [] },
+    );
+    expect(diff).toEqual([]);
+  });
+});
+
+describe('diffKPIs', () => {
+  it('reports value changes with their delta', () => {
+    const diff = diffKPIs(
+      [kpi('Budget', 2), kpi('Headcount', 10, 'people')],
+      [kpi('budget', 3), kpi('Revenue', 5)],
+    );
+
+    expect(diff).toMatchObject([
+      { change: 'modified', label: 'budget', delta: 1 },
+      { change: 'added', label: 'Revenue' },
+      { change: 'removed', label: 'Headcount' },
+    ]);
+  });
+
+  it('has no delta when the unit changed', () => {
+    const [diff] = diffKPIs([kpi('Budget', 2, 'USD')], [kpi('Budget', 2, 'EUR')]);
+    expect(diff.change).toBe('modified');
+    expect(diff.delta).toBeUndefined();
+  });
+});
+
+describe('buildComparisonMatrix', () => {
+  it('flattens every category into rows and counts the changes', () => {
+    const matrix = buildComparisonMatrix(
+      { documentId: 'left', title: 'v1' },
+      { documentId: 'right', title: 'v2' },
+      {
+        sections: compareSections(alignSections(
+          [section('l1', 'Budget', 'The budget is 2 million USD.')],
+          [section('r1', 'Budget', 'The budget is 3 million USD.')],
+        )),
+        entities: diffEntities([], [entity('x', 'AWS', 0.8, 'organization')]),
+        relationships: [],
+        kpis: diffKPIs([kpi('Budget', 2)], [kpi('Budget', 3)]),
+      },
+    );
+
+    expect(matrix.rows).toMatchObject([
+      { id: 'section-1', category: 'section', label: 'Budget', change: 'modified' },
+      { id: 'entity-1', category: 'entity', label: 'AWS (organization)', change: 'added', right: 'Importance 80%' },
+      { id: 'kpi-1', category: 'kpi', left: '2 USD', right: '3 USD', summary: '+1 USD' },
+    ]);
+    expect(matrix.counts).toEqual({ added: 1, removed: 0, modified: 2, unchanged: 0 });
+  });
+});
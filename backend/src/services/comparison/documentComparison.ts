@@ -0,0 +1,176 @@
+import { getOpenRouterClient, OpenRouterClient } from '../llm/openRouterClient.js';
+
+import {
+  alignSections,
+  buildComparisonMatrix,
+  compareSections,
+  diffEntities,
+  diffKPIs,
+  diffRelationships,
+} from './documentDiff.js';
+
+import type { AlignedSection } from './documentDiff.js';
+import type {
+  ComparedDocument,
+  Document,
+  DocumentAnalysis,
+  DocumentComparison,
+} from '../../../../shared/src/types.js';
+
+export interface ComparisonInput {
+  document: Document;
+  analysis?: DocumentAnalysis;
+}
+
+// Changed sections summarized by the LLM in one call; the rest get a heuristic summary
+const MAX_SUMMARIZED_CHANGES = 20;
+
+// Characters of each section version included in the prompt
+const EXCERPT_LENGTH = 1200;
+
+interface SummaryResponse {
+  summaries?: { id?: number; summary?: string }[];
+}
+
+const excerpt = (text: string) => (
+  text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text
+);
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Summary used when the LLM is unavailable or skips a change
+ */
+export function describeChange({ change, left, right, similarity }: AlignedSection): string {
+  if (change === 'added') {
+    return right!.summary || `New section "${right!.title}" (${wordCount(right!.content)} words).`;
+  }
+  if (change === 'removed') {
+    return `Section "${left!.title}" was removed.`;
+  }
+
+  const renamed = left!.title !== right!.title ? ` Renamed from "${left!.title}".` : '';
+  const before = wordCount(left!.content);
+  const after = wordCount(right!.content);
+  const length = after === before
+    ? 'same length'
+    : `${after > before ? '+' : ''}${after - before} words`;
+  return `Rewritten: ${Math.round(similarity * 100)}% of the wording kept, ${length}.${renamed}`;
+}
+
+/**
+ * Compares two documents, or two versions of one: aligns their section
+ * trees, diffs the entities, relationships and KPIs of their analyses, and
+ * asks the LLM what each changed section now says differently.
+ */
+export class DocumentComparisonService {
+  private _llmClient: OpenRouterClient | null;
+
+  constructor(llmClient?: OpenRouterClient) {
+    this._llmClient = llmClient || null;
+  }
+
+  private get llmClient(): OpenRouterClient {
+    return this._llmClient || getOpenRouterClient();
+  }
+
+  async compare(left: ComparisonInput, right: ComparisonInput): Promise<DocumentComparison> {
+    const leftInfo: ComparedDocument = { documentId: left.document.id, title: left.document.title };
+    const rightInfo: ComparedDocument = { documentId: right.document.id, title: right.document.title };
+
+    const aligned = alignSections(
+      left.document.structure?.sections || [],
+      right.document.structure?.sections || [],
+    );
+    const summaries = await this.summarizeChanges(aligned, leftInfo, rightInfo);
+    const sections = compareSections(aligned).map((section, index) => ({
+      ...section,
+      summary: summaries.get(index),
+    }));
+
+    const entities = diffEntities(left.analysis?.entities || [], right.analysis?.entities || []);
+    const relationships = diffRelationships(
+      { entities: left.analysis?.entities || [], relationships: left.analysis?.relationships || [] },
+      { entities: right.analysis?.entities || [], relationships: right.analysis?.relationships || [] },
+    );
+    const kpis = diffKPIs(
+      left.analysis?.executiveSummary?.kpis || [],
+      right.analysis?.executiveSummary?.kpis || [],
+    );
+
+    console.log(
+      `🔀 Compared ${leftInfo.documentId} with ${rightInfo.documentId}: ${sections.filter((s) => s.change !== 'unchanged').length}/${sections.length} sections changed`,
+    );
+
+    return {
+      left: leftInfo,
+      right: rightInfo,
+      sections,
+      entities,
+      relationships,
+      kpis,
+      matrix: buildComparisonMatrix(leftInfo, rightInfo, { sections, entities, relationships, kpis }),
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * One summary per changed section, keyed by its index in `aligned`. The
+   * first changes go to the LLM in a single call; the rest, and any the LLM
+   * does not answer, are described heuristically.
+   */
+  private async summarizeChanges(
+    aligned: AlignedSection[],
+    left: ComparedDocument,
+    right: ComparedDocument,
+  ): Promise<Map<number, string>> {
+    const changed = aligned
+      .map((section, index) => ({ section, index }))
+      .filter(({ section }) => section.change !== 'unchanged');
+
+    const summaries = new Map<number, string>();
+    const batch = changed.slice(0, MAX_SUMMARIZED_CHANGES);
+
+    if (batch.length > 0) {
+      try {
+        const response = await this.llmClient.callWithFallback(
+          'comparisonSummary',
+          this.buildPrompt(batch.map(({ section }) => section), left, right),
+        );
+        const parsed = this.llmClient.parseJSONResponse<SummaryResponse>(response);
+        for (const { id, summary } of parsed.summaries || []) {
+          const entry = typeof id === 'number' ? batch[id - 1] : undefined;
+          if (entry && summary?.trim()) {
+            summaries.set(entry.index, summary.trim());
+          }
+        }
+      } catch (error) {
+        console.warn(
+          '⚠️ Change summaries failed, describing section changes heuristically:',
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+
+    for (const { section, index } of changed) {
+      if (!summaries.has(index)) {
+        summaries.set(index, describeChange(section));
+      }
+    }
+    return summaries;
+  }
+
+  private buildPrompt(changes: AlignedSection[], left: ComparedDocument, right: ComparedDocument): string {
+    const blocks = changes.map(({ change, left: before, right: after }, index) => {
+      const title = (after || before)!.title;
+      const lines = [`[${index + 1}] ${change.toUpperCase()} section "${title}"`];
+      if (before) lines.push(`Before:\n${excerpt(before.content)}`);
+      if (after) lines.push(`After:\n${excerpt(after.content)}`);
+      return lines.join('\n');
+    });
+
+    return `Comparing "${left.title}" (before) with "${right.title}" (after).\n\n${blocks.join('\n\n')}`;
+  }
+}
+
+export const documentComparisonService = new DocumentComparisonService();
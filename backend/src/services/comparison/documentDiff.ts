@@ -0,0 +1,351 @@
+import { normalizeLabel } from '../analysis/chunkMerger.js';
+import { canonicalName } from '../knowledgeBase/graphMerger.js';
+
+import type {
+  ComparedDocument,
+  ComparisonChange,
+  ComparisonMatrixData,
+  ComparisonMatrixRow,
+  Entity,
+  EntityComparison,
+  KPI,
+  KPIComparison,
+  Relationship,
+  RelationshipComparison,
+  Section,
+  SectionComparison,
+} from '../../../../shared/src/types.js';
+
+export interface AlignedSection {
+  change: ComparisonChange;
+  left?: Section;
+  right?: Section;
+  similarity: number;
+}
+
+export interface ComparisonParts {
+  sections: SectionComparison[];
+  entities: EntityComparison[];
+  relationships: RelationshipComparison[];
+  kpis: KPIComparison[];
+}
+
+// Sections with different titles are paired when their words overlap this much
+export const DEFAULT_MATCH_THRESHOLD = 0.5;
+
+// Importance or strength changes smaller than this are not reported
+const WEIGHT_CHANGE_THRESHOLD = 0.2;
+
+export function flattenSections(sections: Section[]): Section[] {
+  return sections.flatMap((section) => [section, ...flattenSections(section.children || [])]);
+}
+
+function words(text: string): Set<string> {
+  return new Set(normalizeLabel(text).split(' ').filter(Boolean));
+}
+
+/**
+ * Jaccard overlap of the word sets of two texts
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 && right.size === 0) return 1;
+
+  let shared = 0;
+  for (const word of left) {
+    if (right.has(word)) shared++;
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+const sameText = (a: string, b: string) => a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+
+/**
+ * Pair the sections of two versions of a document.
+ *
+ * Sections are matched on their title first (the most similar one when a
+ * title repeats), then the remaining ones on content overlap of at least
+ * `threshold`, so renamed sections are still recognised. The result follows
+ * the right document's order, with removed sections placed after the
+ * section that preceded them on the left.
+ */
+export function alignSections(
+  left: Section[],
+  right: Section[],
+  threshold = DEFAULT_MATCH_THRESHOLD,
+): AlignedSection[] {
+  const leftSections = flattenSections(left);
+  const rightSections = flattenSections(right);
+  const leftMatched = new Set<number>();
+  const rightToLeft = new Map<number, number>();
+
+  const leftByTitle = new Map<string, number[]>();
+  leftSections.forEach((section, index) => {
+    const key = normalizeLabel(section.title);
+    leftByTitle.set(key, [...(leftByTitle.get(key) || []), index]);
+  });
+
+  rightSections.forEach((section, rightIndex) => {
+    const candidates = (leftByTitle.get(normalizeLabel(section.title)) || [])
+      .filter((leftIndex) => !leftMatched.has(leftIndex));
+    if (candidates.length === 0) return;
+
+    const best = candidates.reduce((a, b) => (
+      textSimilarity(leftSections[b].content, section.content)
+        > textSimilarity(leftSections[a].content, section.content) ? b : a
+    ));
+    leftMatched.add(best);
+    rightToLeft.set(rightIndex, best);
+  });
+
+  const pairs: Array<{ leftIndex: number; rightIndex: number; similarity: number }> = [];
+  rightSections.forEach((section, rightIndex) => {
+    if (rightToLeft.has(rightIndex)) return;
+    leftSections.forEach((candidate, leftIndex) => {
+      if (leftMatched.has(leftIndex)) return;
+      const similarity = textSimilarity(candidate.content, section.content);
+      if (similarity >= threshold) pairs.push({ leftIndex, rightIndex, similarity });
+    });
+  });
+  pairs.sort((a, b) => b.similarity - a.similarity);
+  for (const { leftIndex, rightIndex } of pairs) {
+    if (leftMatched.has(leftIndex) || rightToLeft.has(rightIndex)) continue;
+    leftMatched.add(leftIndex);
+    rightToLeft.set(rightIndex, leftIndex);
+  }
+
+  const aligned: AlignedSection[] = [];
+  // Unmatched left sections from `start` up to the next matched one
+  const pushRemoved = (start: number) => {
+    for (let index = start; index < leftSections.length && !leftMatched.has(index); index++) {
+      aligned.push({ change: 'removed', left: leftSections[index], similarity: 0 });
+    }
+  };
+
+  pushRemoved(0);
+  rightSections.forEach((section, rightIndex) => {
+    const leftIndex = rightToLeft.get(rightIndex);
+    if (leftIndex === undefined) {
+      aligned.push({ change: 'added', right: section, similarity: 0 });
+      return;
+    }
+
+    const previous = leftSections[leftIndex];
+    const unchanged = normalizeLabel(previous.title) === normalizeLabel(section.title)
+      && sameText(previous.content, section.content);
+    aligned.push({
+      change: unchanged ? 'unchanged' : 'modified',
+      left: previous,
+      right: section,
+      similarity: unchanged ? 1 : textSimilarity(previous.content, section.content),
+    });
+    pushRemoved(leftIndex + 1);
+  });
+
+  return aligned;
+}
+
+function toSectionComparison({ change, left, right, similarity }: AlignedSection): SectionComparison {
+  return {
+    change,
+    leftSectionId: left?.id,
+    rightSectionId: right?.id,
+    leftTitle: left?.title,
+    rightTitle: right?.title,
+    level: (right || left)!.level,
+    similarity: Math.round(similarity * 100) / 100,
+  };
+}
+
+export function compareSections(aligned: AlignedSection[]): SectionComparison[] {
+  return aligned.map(toSectionComparison);
+}
+
+/**
+ * Merge two keyed collections, keeping the right document's order and
+ * appending what only the left one has
+ */
+function diffByKey<T, R>(
+  left: T[],
+  right: T[],
+  keyOf: (item: T) => string,
+  compare: (left: T | undefined, right: T | undefined) => R,
+): R[] {
+  const leftByKey = new Map<string, T>();
+  for (const item of left) {
+    const key = keyOf(item);
+    if (!leftByKey.has(key)) leftByKey.set(key, item);
+  }
+
+  const seen = new Set<string>();
+  const results: R[] = [];
+  for (const item of right) {
+    const key = keyOf(item);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    results.push(compare(leftByKey.get(key), item));
+  }
+  for (const [key, item] of leftByKey) {
+    if (!seen.has(key)) results.push(compare(item, undefined));
+  }
+  return results;
+}
+
+function weightedChange(left?: number, right?: number): ComparisonChange {
+  if (left === undefined) return 'added';
+  if (right === undefined) return 'removed';
+  return Math.abs(right - left) >= WEIGHT_CHANGE_THRESHOLD ? 'modified' : 'unchanged';
+}
+
+/**
+ * Entities are matched on type plus canonical name; a large enough change
+ * in importance counts as a modification
+ */
+export function diffEntities(left: Entity[], right: Entity[]): EntityComparison[] {
+  return diffByKey(
+    left,
+    right,
+    (entity) => `${entity.type}:${canonicalName(entity.text)}`,
+    (before, after) => ({
+      change: weightedChange(before?.importance, after?.importance),
+      text: (after || before)!.text,
+      type: (after || before)!.type,
+      leftImportance: before?.importance,
+      rightImportance: after?.importance,
+    }),
+  );
+}
+
+interface ResolvedRelationship {
+  source: string;
+  target: string;
+  type: Relationship['type'];
+  strength: number;
+}
+
+function resolveRelationships(entities: Entity[], relationships: Relationship[]): ResolvedRelationship[] {
+  const textById = new Map(entities.map((entity) => [entity.id, entity.text]));
+  return relationships.flatMap((relationship) => {
+    const source = textById.get(relationship.source);
+    const target = textById.get(relationship.target);
+    return source && target
+      ? [{ source, target, type: relationship.type, strength: relationship.strength }]
+      : [];
+  });
+}
+
+/**
+ * Relationships are matched on the names of their endpoints, since entity
+ * ids are not stable between analyses
+ */
+export function diffRelationships(
+  left: { entities: Entity[]; relationships: Relationship[] },
+  right: { entities: Entity[]; relationships: Relationship[] },
+): RelationshipComparison[] {
+  return diffByKey(
+    resolveRelationships(left.entities, left.relationships),
+    resolveRelationships(right.entities, right.relationships),
+    ({ source, target, type }) => `${canonicalName(source)}|${canonicalName(target)}|${type}`,
+    (before, after) => ({
+      change: weightedChange(before?.strength, after?.strength),
+      source: (after || before)!.source,
+      target: (after || before)!.target,
+      type: (after || before)!.type,
+      leftStrength: before?.strength,
+      rightStrength: after?.strength,
+    }),
+  );
+}
+
+/**
+ * KPIs are matched on their label; any change in value or unit is reported
+ */
+export function diffKPIs(left: KPI[], right: KPI[]): KPIComparison[] {
+  return diffByKey(
+    left,
+    right,
+    (kpi) => canonicalName(kpi.label),
+    (before, after) => {
+      const sameUnit = !!before && !!after && (before.unit || '') === (after.unit || '');
+      let change: ComparisonChange = 'unchanged';
+      if (!before) change = 'added';
+      else if (!after) change = 'removed';
+      else if (!sameUnit || before.value !== after.value) change = 'modified';
+
+      return {
+        change,
+        label: (after || before)!.label,
+        left: before,
+        right: after,
+        delta: sameUnit ? after!.value - before!.value : undefined,
+      };
+    },
+  );
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatKPI = (kpi: KPI) => `${kpi.value}${kpi.unit ? ` ${kpi.unit}` : ''}`;
+
+function formatDelta(delta: number, unit?: string): string {
+  const rounded = Math.round(delta * 100) / 100;
+  return `${rounded > 0 ? '+' : ''}${rounded}${unit ? ` ${unit}` : ''}`;
+}
+
+/**
+ * Flatten a comparison into the rows of the comparison-matrix visualization
+ */
+export function buildComparisonMatrix(
+  left: ComparedDocument,
+  right: ComparedDocument,
+  parts: ComparisonParts,
+): ComparisonMatrixData {
+  const rows: ComparisonMatrixRow[] = [
+    ...parts.sections.map((section, index) => ({
+      id: `section-${index + 1}`,
+      category: 'section' as const,
+      label: (section.rightTitle ?? section.leftTitle)!,
+      change: section.change,
+      left: section.leftTitle,
+      right: section.rightTitle,
+      summary: section.summary,
+    })),
+    ...parts.entities.map((entity, index) => ({
+      id: `entity-${index + 1}`,
+      category: 'entity' as const,
+      label: `${entity.text} (${entity.type})`,
+      change: entity.change,
+      left: entity.leftImportance !== undefined ? `Importance ${percent(entity.leftImportance)}` : undefined,
+      right: entity.rightImportance !== undefined ? `Importance ${percent(entity.rightImportance)}` : undefined,
+    })),
+    ...parts.relationships.map((relationship, index) => ({
+      id: `relationship-${index + 1}`,
+      category: 'relationship' as const,
+      label: `${relationship.source} → ${relationship.target}`,
+      change: relationship.change,
+      left: relationship.leftStrength !== undefined
+        ? `${relationship.type} (${percent(relationship.leftStrength)})`
+        : undefined,
+      right: relationship.rightStrength !== undefined
+        ? `${relationship.type} (${percent(relationship.rightStrength)})`
+        : undefined,
+    })),
+    ...parts.kpis.map((kpi, index) => ({
+      id: `kpi-${index + 1}`,
+      category: 'kpi' as const,
+      label: kpi.label,
+      change: kpi.change,
+      left: kpi.left ? formatKPI(kpi.left) : undefined,
+      right: kpi.right ? formatKPI(kpi.right) : undefined,
+      summary: kpi.delta ? formatDelta(kpi.delta, kpi.right?.unit) : undefined,
+    })),
+  ];
+
+  const counts: Record<ComparisonChange, number> = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  for (const row of rows) {
+    counts[row.change]++;
+  }
+
+  return { left, right, rows, counts };
+}
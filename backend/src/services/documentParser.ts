@@ -1,11 +1,25 @@
+import path from 'node:path';
+
+import JSZip from 'jszip';
 import mammoth from 'mammoth';
 import pdfParse from 'pdf-parse';
 import { v4 as uuidv4 } from 'uuid';
 
+import { htmlToText } from '../utils/htmlToText.js';
 import { detectLanguage } from '../utils/languageDetector.js';
 
 import type { Document, DocumentStructure, Section } from '../../../shared/src/types.js';
 
+/**
+ * Formats whose headings come from real markup (Word heading styles, <h1>-<h6>).
+ * For these, detectStructure trusts the extracted `#` headings only and skips the
+ * ALL-CAPS and numbered-line heuristics that plain text needs.
+ */
+const MARKUP_HEADING_TYPES = new Set(['docx', 'html', 'htm', 'xhtml', 'epub']);
+
+export interface StructureOptions {
+  explicitHeadings?: boolean;
+}
 
 export class DocumentParser {
   /**
@@ -14,7 +28,9 @@ export class DocumentParser {
   async parseDocument(buffer: Buffer, filename: string, documentId?: string): Promise<Document> {
     const fileType = this.getFileType(filename);
     const text = await this.extractText(buffer, fileType);
-    const structure = await this.detectStructure(text);
+    const structure = await this.detectStructure(text, {
+      explicitHeadings: MARKUP_HEADING_TYPES.has(fileType),
+    });
 
     const finalDocumentId = documentId || this.generateDocumentId(text);
 
@@ -69,13 +85,65 @@ export class DocumentParser {
         const pdfData = await pdfParse(buffer);
         return pdfData.text;
 
+      case 'docx': {
+        // mammoth maps Word's Heading 1-6 styles to <h1>-<h6>
+        const { value } = await mammoth.convertToHtml({ buffer });
+        return htmlToText(value);
+      }
+
+      case 'html':
+      case 'htm':
+      case 'xhtml':
+        return htmlToText(buffer.toString('utf-8'));
+
+      case 'epub':
+        return this.extractEpubText(buffer);
+
       default:
         throw new Error(`Unsupported file type: ${fileType}`);
     }
   }
 
-  async detectStructure(text: string): Promise<DocumentStructure> {
-    const flatSections = this.identifySections(text);
+  /**
+   * Read the chapters of an EPUB in reading order: container.xml points at the OPF
+   * package, whose spine lists the manifest items to read.
+   */
+  private async extractEpubText(buffer: Buffer): Promise<string> {
+    const zip = await JSZip.loadAsync(buffer);
+
+    const container = await zip.file('META-INF/container.xml')?.async('string');
+    const opfPath = container?.match(/<rootfile\b[^>]*full-path="([^"]+)"/i)?.[1];
+    const opf = opfPath ? await zip.file(opfPath)?.async('string') : undefined;
+    if (!opfPath || !opf) {
+      throw new Error('Invalid EPUB: missing package document');
+    }
+
+    const manifest = new Map<string, string>();
+    for (const [item] of opf.matchAll(/<item\b[^>]*>/gi)) {
+      const id = item.match(/\bid="([^"]+)"/i)?.[1];
+      const href = item.match(/\bhref="([^"]+)"/i)?.[1];
+      if (id && href) manifest.set(id, href);
+    }
+
+    const opfDir = path.posix.dirname(opfPath);
+    const chapters: string[] = [];
+    for (const [, idref] of opf.matchAll(/<itemref\b[^>]*idref="([^"]+)"/gi)) {
+      const href = manifest.get(idref);
+      if (!href) continue;
+
+      const chapterPath = path.posix.normalize(
+        path.posix.join(opfDir, decodeURIComponent(href.split('#')[0])),
+      );
+      const html = await zip.file(chapterPath)?.async('string');
+      const text = html ? htmlToText(html) : '';
+      if (text) chapters.push(text);
+    }
+
+    return chapters.join('\n\n');
+  }
+
+  async detectStructure(text: string, options: StructureOptions = {}): Promise<DocumentStructure> {
+    const flatSections = this.identifySections(text, options);
     const sections = this.buildSectionHierarchy(flatSections);
     const hierarchy = this.buildHierarchy(flatSections);
 
@@ -135,7 +203,7 @@ export class DocumentParser {
     return sanitized;
   }
 
-  private identifySections(text: string): Section[] {
+  private identifySections(text: string, options: StructureOptions = {}): Section[] {
     // Handle empty text
     if (!text || text.trim().length === 0) {
       return [];
@@ -153,7 +221,7 @@ export class DocumentParser {
       const line = rawLine.trim();
 
       // Detect headings
-      const headingMatch = this.detectHeading(rawLine);
+      const headingMatch = this.detectHeading(rawLine, options);
 
       if (headingMatch) {
         // Save previous section
@@ -206,7 +274,10 @@ export class DocumentParser {
     return sections;
   }
 
-  private detectHeading(line: string): { level: number; title: string } | null {
+  private detectHeading(
+    line: string,
+    options: StructureOptions = {},
+  ): { level: number; title: string } | null {
     const trimmed = line.trim();
 
     // Calculate indentation level (2 spaces or 1 tab = 1 extra level)
@@ -222,6 +293,10 @@ export class DocumentParser {
       };
     }
 
+    if (options.explicitHeadings) {
+      return null;
+    }
+
     // Numbered headings (1., 1.1., etc.)
     const numberedMatch = trimmed.match(/^(\d+(?:\.\d+)*)\.\s+(.+)$/);
     if (numberedMatch) {
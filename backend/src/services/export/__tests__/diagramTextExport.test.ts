@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+
+import { normalizeFlowchart } from '../../visualization/flowchartBuilder.js';
+import { normalizeActivityDiagram } from '../../visualization/umlActivityBuilder.js';
+import { normalizeSequenceDiagram } from '../../visualization/umlSequenceBuilder.js';
+import { toMermaid, toPlantUml } from '../diagramTextExport.js';
+
+const SEQUENCE = normalizeSequenceDiagram({
+  participants: [
+    { id: 'user', name: 'Customer', kind: 'actor' },
+    { id: 'api', name: 'Order "API"', kind: 'boundary' },
+  ],
+  steps: [
+    { from: 'user', to: 'api', label: 'submit order', kind: 'sync' },
+    {
+      fragment: 'alt',
+      operands: [
+        { guard: 'valid', steps: [{ from: 'api', to: 'user', label: 'created', kind: 'return' }] },
+        { guard: 'invalid', steps: [{ from: 'api', to: 'user', label: 'error; retry', kind: 'return' }] },
+      ],
+    },
+  ],
+});
+
+const ACTIVITY = normalizeActivityDiagram({
+  swimlanes: [{ id: 'clerk', name: 'Clerk' }],
+  nodes: [
+    { id: 'start', kind: 'initial' },
+    { id: 'check', kind: 'action', label: 'Validate invoice', swimlane: 'clerk' },
+    { id: 'big', kind: 'decision', label: 'Over 10k?' },
+    { id: 'approve', kind: 'action', label: 'Approve' },
+    { id: 'merge', kind: 'merge' },
+    { id: 'end', kind: 'final' },
+  ],
+  flows: [
+    { from: 'start', to: 'check' },
+    { from: 'check', to: 'big' },
+    { from: 'big', to: 'approve', guard: 'yes' },
+    { from: 'big', to: 'merge', guard: 'no' },
+    { from: 'approve', to: 'merge' },
+    { from: 'merge', to: 'end' },
+  ],
+});
+
+const FLOWCHART = normalizeFlowchart({
+  nodes: [
+    { id: 's', type: 'start', label: 'Start' },
+    { id: 'a', type: 'process', label: 'Fill "form"', swimlane: 'User' },
+    { id: 'd', type: 'decision', label: 'Valid?' },
+    { id: 'e', type: 'end', label: 'Done' },
+  ],
+  edges: [
+    { source: 's', target: 'a' },
+    { source: 'a', target: 'd' },
+    { source: 'd', target: 'e', label: 'yes' },
+    { source: 'd', target: 'a', label: 'no' },
+  ],
+});
+
+const CLASS_DIAGRAM = {
+  classes: [
+    {
+      id: 'shape',
+      name: 'Shape',
+      type: 'abstract',
+      attributes: [{ id: 'a1', name: 'name', type: 'String', visibility: 'protected', isStatic: false }],
+      methods: [{
+        id: 'm1', name: 'area', returnType: 'double', visibility: 'public', isStatic: false, isAbstract: true,
+        parameters: [{ name: 'scale', type: 'int' }],
+      }],
+    },
+    { id: 'circle', name: 'Circle', type: 'class', attributes: [], methods: [] },
+  ],
+  relationships: [{ id: 'r1', source: 'circle', target: 'shape', type: 'inheritance' }],
+  packages: [{ id: 'p1', name: 'Geometry', classes: ['shape'], color: '#fff' }],
+};
+
+const MIND_MAP = {
+  root: {
+    id: 'root',
+    label: 'Plan',
+    children: [{ id: 'b', label: 'Budget', children: [{ id: 'q', label: 'Q3 "cap"', children: [] }] }],
+  },
+};
+
+describe('diagramTextExport', () => {
+  it('writes a PlantUML sequence with fragments and activations', () => {
+    expect(toPlantUml('uml-sequence', SEQUENCE, 'Orders')).toBe([
+      '@startuml',
+      'title Orders',
+      '',
+      'actor "Customer" as P1',
+      'boundary "Order \'API\'" as P2',
+      '',
+      'P1 -> P2 : submit order',
+      'activate P2',
+      'alt valid',
+      '  P2 --> P1 : created',
+      '  deactivate P2',
+      'else invalid',
+      '  P2 --> P1 : error; retry',
+      'end',
+      '@enduml',
+    ].join('\n'));
+  });
+
+  it('writes a Mermaid sequence with escaped labels', () => {
+    const text = toMermaid('uml-sequence', SEQUENCE, 'Orders');
+
+    expect(text).toContain('sequenceDiagram\n\nactor P1 as Customer\nparticipant P2 as Order #quot;API#quot;');
+    expect(text).toContain('P1->>P2: submit order\nactivate P2\nalt valid\n  P2-->>P1: created\n  deactivate P2\nelse invalid');
+    expect(text).toContain('P2-->>P1: error#59; retry');
+  });
+
+  it('bypasses merge nodes in PlantUML activity diagrams', () => {
+    expect(toPlantUml('uml-activity', ACTIVITY, 'Invoices').split('\n').slice(3, -2)).toEqual([
+      '(*) --> "Validate invoice" as N2',
+      'N2 --> "Over 10k?" as N3',
+      'N3 --> [yes] "Approve" as N4',
+      'N3 --> [no] (*)',
+      'N4 --> (*)',
+    ]);
+  });
+
+  it('groups Mermaid activity nodes by swimlane', () => {
+    const text = toMermaid('uml-activity', ACTIVITY, 'Invoices');
+
+    expect(text).toContain('flowchart TD\n  subgraph L1["Clerk"]\n    N2("Validate invoice")\n  end');
+    expect(text).toContain('N3{"Over 10k?"}');
+    expect(text).toContain('N3 -->|"no"| N5');
+    expect(text).toContain('N6(((" "))):::pseudo');
+  });
+
+  it('writes flowcharts with shapes, swimlanes and dashed loop edges', () => {
+    expect(toMermaid('flowchart', FLOWCHART, 'Form')).toBe([
+      '---',
+      'title: "Form"',
+      '---',
+      'flowchart TB',
+      '  subgraph G1["User"]',
+      '    N2["Fill #quot;form#quot;"]',
+      '  end',
+      '  N1(["Start"])',
+      '  N3{"Valid?"}',
+      '  N4(["Done"])',
+      '  N1 --> N2',
+      '  N2 --> N3',
+      '  N3 -->|"yes"| N4',
+      '  N3 -.->|"no"| N2',
+    ].join('\n'));
+
+    expect(toPlantUml('flowchart', FLOWCHART, 'Form').split('\n').slice(3, -2)).toEqual([
+      'rectangle "User" {',
+      '  rectangle "Fill \'form\'" as N2 <<process>>',
+      '}',
+      'usecase "Start" as N1 <<start>>',
+      'hexagon "Valid?" as N3 <<decision>>',
+      'usecase "Done" as N4 <<end>>',
+      '',
+      'N1 --> N2',
+      'N2 --> N3',
+      'N3 --> N4 : yes',
+      'N3 ..> N2 : no',
+    ]);
+  });
+
+  it('writes class diagrams with members, packages and relationship arrows', () => {
+    const mermaid = toMermaid('uml-class-diagram', CLASS_DIAGRAM, 'Shapes');
+
+    expect(mermaid).toContain('namespace Geometry {\n    class C1["Shape"] {\n      <<abstract>>');
+    expect(mermaid).toContain('      #String name\n      +area(int scale)* double');
+    expect(mermaid).toContain('C2 --|> C1');
+
+    const plantUml = toPlantUml('uml-class-diagram', CLASS_DIAGRAM, 'Shapes');
+
+    expect(plantUml).toContain('package "Geometry" {\n  abstract class "Shape" as C1 {\n    #name : String\n    +{abstract} area(scale : int) : double\n  }');
+    expect(plantUml).toContain('C2 --|> C1');
+  });
+
+  it('writes mind maps as nested outlines', () => {
+    expect(toMermaid('mind-map', MIND_MAP, 'Plan')).toContain('mindmap\n  N1(("Plan"))\n    N2["Budget"]\n      N3["Q3 #quot;cap#quot;"]');
+    expect(toPlantUml('mind-map', MIND_MAP, 'Plan')).toBe([
+      '@startmindmap',
+      'title Plan',
+      '',
+      '* Plan',
+      '** Budget',
+      '*** Q3 "cap"',
+      '',
+      '@endmindmap',
+    ].join('\n'));
+  });
+
+  it('rejects other visualization types', () => {
+    expect(() => toPlantUml('gantt', {}, 'x')).toThrow('PlantUML export is not supported for gantt visualizations');
+    expect(() => toMermaid('timeline', {}, 'x')).toThrow('Mermaid export is not supported for timeline visualizations');
+  });
+});
@@ -0,0 +1,126 @@
+import JSZip from 'jszip';
+import { describe, it, expect } from 'vitest';
+
+import { documentParser } from '../../documentParser.js';
+import { exportService } from '../exportService.js';
+
+import type { VisualizationRecord } from '../../../repositories/types.js';
+
+const record = (visualizationType: string, visualizationData: any): VisualizationRecord => ({
+  documentId: 'doc-export',
+  visualizationType,
+  visualizationData,
+  llmMetadata: {
+    model: 'test-model',
+    tokensUsed: 120,
+    processingTime: 800,
+    timestamp: '2026-01-01T00:00:00.000Z',
+  },
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+} as VisualizationRecord);
+
+const GRAPH = record('knowledge-graph', {
+  nodes: [
+    { id: 'a', label: 'Acme Corp', type: 'organization' },
+    { id: 'b', label: 'Widget', type: 'product' },
+  ],
+  edges: [{ id: 'e1', source: 'a', target: 'b', label: 'makes' }],
+});
+
+describe('ExportService', async () => {
+  const document = await documentParser.parseText('# Quarterly Plan\n\nAcme makes widgets.', 'Quarterly Plan');
+
+  it('exports SVG with a download filename', async () => {
+    const file = await exportService.exportVisualization(document, GRAPH, 'svg');
+
+    expect(file.contentType).toBe('image/svg+xml');
+    expect(file.filename).toBe('quarterly-plan-knowledge-graph.svg');
+    expect(file.content.toString('utf-8')).toContain('Acme Corp');
+  });
+
+  it('rasterises PNG without a browser', async () => {
+    const file = await exportService.exportVisualization(document, GRAPH, 'png');
+
+    expect(file.content.subarray(1, 4).toString('ascii')).toBe('PNG');
+  });
+
+  it('caps the raster height of tall, narrow diagrams', () => {
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="100" height="20000">'
+      + '<rect width="100" height="20000" fill="#336699"/></svg>';
+    const png = exportService.svgToPng(svg);
+
+    // IHDR holds the pixel width and height right after the signature
+    expect(png.readUInt32BE(16)).toBe(20);
+    expect(png.readUInt32BE(20)).toBe(4000);
+  });
+
+  it('wraps the diagram in a PDF page', async () => {
+    const file = await exportService.exportVisualization(document, GRAPH, 'pdf');
+
+    expect(file.content.subarray(0, 4).toString('ascii')).toBe('%PDF');
+  });
+
+  it('exports the stored record as JSON and rows as CSV', async () => {
+    const json = JSON.parse(
+      (await exportService.exportVisualization(document, GRAPH, 'json')).content.toString('utf-8'),
+    );
+    expect(json.llmMetadata.model).toBe('test-model');
+    expect(json.data.nodes).toHaveLength(2);
+
+    const csv = (await exportService.exportVisualization(document, GRAPH, 'csv')).content.toString('utf-8');
+    expect(csv.split('\r\n')).toHaveLength(4);
+  });
+
+  it('exports UML diagrams as PlantUML and Mermaid source', async () => {
+    const sequence = record('uml-sequence', {
+      participants: [{ id: 'a', name: 'Client', kind: 'actor' }, { id: 'b', name: 'Server', kind: 'participant' }],
+      messages: [{ id: 'm0', from: 'a', to: 'b', label: 'GET /', kind: 'sync', order: 0 }],
+      activations: [],
+      fragments: [],
+    });
+
+    const plantUml = await exportService.exportVisualization(document, sequence, 'plantuml');
+    const mermaid = await exportService.exportVisualization(document, sequence, 'mermaid');
+
+    expect(plantUml.filename).toBe('quarterly-plan-uml-sequence.puml');
+    expect(plantUml.content.toString('utf-8')).toContain('title Quarterly Plan — UML Sequence Diagram');
+    expect(mermaid.filename).toBe('quarterly-plan-uml-sequence.mmd');
+    expect(mermaid.contentType).toBe('text/plain; charset=utf-8');
+    expect(mermaid.content.toString('utf-8')).toContain('P1->>P2: GET /');
+  });
+
+  it('exports graphs as GraphML and Graphviz DOT', async () => {
+    const graphMl = await exportService.exportVisualization(document, GRAPH, 'graphml');
+    const dot = await exportService.exportVisualization(document, GRAPH, 'dot');
+
+    expect(graphMl.filename).toBe('quarterly-plan-knowledge-graph.graphml');
+    expect(graphMl.contentType).toBe('application/graphml+xml');
+    expect(graphMl.content.toString('utf-8')).toContain('<edge id="e1" source="a" target="b">');
+    expect(dot.filename).toBe('quarterly-plan-knowledge-graph.dot');
+    expect(dot.content.toString('utf-8')).toContain('"a" -> "b" [label="makes"];');
+  });
+
+  it('builds a summary deck with one slide per section', async () => {
+    const analysis: any = {
+      tldr: { text: 'Acme will double widget output.' },
+      executiveSummary: {
+        headline: 'Production is scaling',
+        keyIdeas: ['New plant', 'Lower unit cost'],
+        kpis: [{ id: 'k1', label: 'Output', value: 2, unit: 'x', trend: 'up' }],
+        risks: ['Supply chain'],
+        opportunities: ['Export markets'],
+        callToAction: 'Approve the budget',
+      },
+    };
+
+    const file = await exportService.exportDeck(document, analysis, [GRAPH]);
+    const zip = await JSZip.loadAsync(file.content);
+    const slides = Object.keys(zip.files).filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name));
+
+    expect(file.filename).toBe('quarterly-plan-deck.pptx');
+    // cover, TL;DR, summary, risks & opportunities, KPIs, knowledge graph
+    expect(slides).toHaveLength(6);
+    expect(Object.keys(zip.files).some((name) => name.startsWith('ppt/media/'))).toBe(true);
+  });
+});
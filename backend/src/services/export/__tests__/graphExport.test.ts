@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+
+import { toDiagramGraph, toDot, toGraphML } from '../graphExport.js';
+
+const KNOWLEDGE_GRAPH = {
+  nodes: [
+    { id: 'acme', label: 'Acme & Co', type: 'organization', metadata: { description: 'Supplier' } },
+    { id: 'ann', label: 'Ann', type: 'person', metadata: {} },
+    { id: 'deal', label: 'Deal "A"', type: 'concept', metadata: {} },
+  ],
+  edges: [
+    { id: 'e1', source: 'ann', target: 'acme', type: 'works-for', label: 'works for' },
+    { id: 'e2', source: 'acme', target: 'deal', type: 'related-to' },
+  ],
+  clusters: [{ id: 'c1', label: 'Parties', nodeIds: ['acme', 'ann'] }],
+};
+
+const CLASS_DIAGRAM = {
+  classes: [
+    {
+      id: 'shape',
+      name: 'Shape',
+      type: 'abstract',
+      attributes: [{ id: 'a1', name: 'name', type: 'String', visibility: 'protected', isStatic: false }],
+      methods: [{
+        id: 'm1', name: 'area', returnType: 'double', visibility: 'public', isStatic: false, isAbstract: true,
+        parameters: [{ name: 'scale', type: 'int' }],
+      }],
+    },
+    { id: 'circle', name: 'Circle', type: 'class', attributes: [], methods: [] },
+  ],
+  relationships: [{ id: 'r1', source: 'circle', target: 'shape', type: 'inheritance' }],
+  packages: [{ id: 'p1', name: 'Geometry', classes: ['shape', 'circle'], color: '#fff' }],
+};
+
+const MIND_MAP = {
+  root: {
+    id: 'root',
+    label: 'Plan',
+    level: 0,
+    children: [
+      { id: 'n1', label: 'Budget', level: 1, children: [] },
+      { id: 'n1', label: 'Team', level: 1, children: [] },
+    ],
+  },
+};
+
+describe('graphExport', () => {
+  it('reduces every supported visualization to one node/edge graph', () => {
+    const mindMap = toDiagramGraph('mind-map', MIND_MAP);
+
+    expect(mindMap.nodes.map((n) => [n.id, n.kind])).toEqual([
+      ['root', 'root'],
+      ['n1', 'level-1'],
+      ['n1-2', 'level-1'],
+    ]);
+    expect(mindMap.edges.map((e) => [e.source, e.target])).toEqual([['root', 'n1'], ['root', 'n1-2']]);
+
+    const argumentMap = toDiagramGraph('argument-map', {
+      nodes: [{ id: 'c', type: 'claim', label: 'Ship it' }, { id: 'x', type: 'counterargument', label: 'Too early' }],
+      edges: [{ id: 'e', source: 'x', target: 'c', type: 'attacks' }],
+    });
+    expect(argumentMap.direction).toBe('BT');
+    expect(argumentMap.edges[0]).toMatchObject({ label: 'attacks', dashed: true });
+
+    expect(() => toDiagramGraph('gantt', {})).toThrow('Graph export is not supported for gantt visualizations');
+  });
+
+  it('writes GraphML with escaped labels, groups and edge kinds', () => {
+    const xml = toGraphML('knowledge-graph', KNOWLEDGE_GRAPH, 'Deals');
+
+    expect(xml).toContain('<key id="d0" for="node" attr.name="label" attr.type="string"/>');
+    expect(xml).toContain('<graph id="knowledge-graph" edgedefault="directed">\n    <data key="d7">Deals</data>');
+    expect(xml).toContain([
+      '    <node id="acme">',
+      '      <data key="d0">Acme &amp; Co</data>',
+      '      <data key="d1">organization</data>',
+      '      <data key="d2">Parties</data>',
+      '      <data key="d3">Supplier</data>',
+      '    </node>',
+    ].join('\n'));
+    expect(xml).toContain('<data key="d0">Deal &quot;A&quot;</data>');
+    expect(xml).toContain([
+      '    <edge id="e2" source="acme" target="deal">',
+      '      <data key="d5">related-to</data>',
+      '      <data key="d6">related-to</data>',
+      '    </edge>',
+    ].join('\n'));
+  });
+
+  it('writes DOT with clusters and quoted identifiers', () => {
+    const dot = toDot('knowledge-graph', KNOWLEDGE_GRAPH, 'Deals');
+
+    expect(dot).toContain('digraph "Deals" {\n  label="Deals";\n  labelloc=t;\n  rankdir=LR;');
+    expect(dot).toContain([
+      '  subgraph cluster_0 {',
+      '    label="Parties";',
+      '    "acme" [label="Acme & Co", shape=box, style=rounded];',
+      '    "ann" [label="Ann", shape=box, style=rounded];',
+      '  }',
+      '  "deal" [label="Deal \\"A\\"", shape=box, style=rounded];',
+    ].join('\n'));
+    expect(dot).toContain('"ann" -> "acme" [label="works for"];');
+  });
+
+  it('writes UML classes as DOT records with UML arrowheads', () => {
+    const dot = toDot('uml-class-diagram', CLASS_DIAGRAM, 'Shapes');
+
+    expect(dot).toContain(
+      '"shape" [shape=record, label="{«abstract» Shape|#name: String\\l|+area(scale: int): double\\l}"];',
+    );
+    expect(dot).toContain('"circle" [shape=record, label="{Circle||}"];');
+    expect(dot).toContain('"circle" -> "shape" [arrowhead=empty];');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+
+import { escapeXml, renderVisualizationSvg, safeColor, wrapText } from '../svgRenderer.js';
+
+const FLOWCHART = {
+  nodes: [
+    { id: 'start', type: 'start', label: 'Receive order' },
+    { id: 'check', type: 'decision', label: 'In stock?' },
+    { id: 'ship', type: 'process', label: 'Ship <fast> & track' },
+    { id: 'end', type: 'end', label: 'Done' },
+  ],
+  edges: [
+    { id: 'e1', source: 'start', target: 'check' },
+    { id: 'e2', source: 'check', target: 'ship', label: 'yes' },
+    { id: 'e3', source: 'check', target: 'start', label: 'no', type: 'dashed' },
+    { id: 'e4', source: 'ship', target: 'end' },
+  ],
+  layout: 'topToBottom',
+};
+
+describe('svgRenderer', () => {
+  it('escapes XML special characters', () => {
+    expect(escapeXml('a < b & "c" > \'d\'')).toBe('a &lt; b &amp; &quot;c&quot; &gt; &apos;d&apos;');
+  });
+
+  it('wraps text to the line budget with an ellipsis', () => {
+    const lines = wrapText('one two three four five six seven eight nine ten', 12, 2);
+
+    expect(lines).toHaveLength(2);
+    expect(lines[1].endsWith('…')).toBe(true);
+  });
+
+  it('renders a flowchart as a standalone SVG document', () => {
+    const svg = renderVisualizationSvg('flowchart', FLOWCHART, 'Orders');
+
+    expect(svg.startsWith('<svg')).toBe(true);
+    expect(svg).toContain('xmlns="http://www.w3.org/2000/svg"');
+    expect(svg).toContain('Ship &lt;fast&gt; &amp; track');
+    expect(svg).toContain('<polygon'); // decision diamond
+    expect(svg).toContain('stroke-dasharray'); // loop back-edge
+  });
+
+  it('renders a mind map tree', () => {
+    const svg = renderVisualizationSvg(
+      'mind-map',
+      {
+        root: {
+          id: 'root',
+          label: 'Strategy',
+          children: [
+            { id: 'a', label: 'Growth', children: [] },
+            { id: 'b', label: 'Cost', children: [] },
+          ],
+        },
+      },
+      'Strategy',
+    );
+
+    expect(svg).toContain('Growth');
+    expect(svg).toContain('Cost');
+  });
+
+  it('only lets hex and named colors through', () => {
+    expect(safeColor('#10b981', '#000')).toBe('#10b981');
+    expect(safeColor('Teal', '#000')).toBe('Teal');
+    expect(safeColor('red" onload="alert(1)', '#000')).toBe('#000');
+    expect(safeColor('url(#x)', '#000')).toBe('#000');
+    expect(safeColor(undefined, '#000')).toBe('#000');
+  });
+
+  it('does not let node and event colors inject markup', () => {
+    const payload = '#fff"/><script>alert(1)</script><rect fill="';
+    const svgs = [
+      renderVisualizationSvg('knowledge-graph', {
+        nodes: [{ id: 'a', label: 'A', type: 'concept', color: payload }],
+        edges: [],
+      }, 'Graph'),
+      renderVisualizationSvg('mind-map', {
+        root: { id: 'root', label: 'Root', color: payload, children: [] },
+      }, 'Map'),
+      renderVisualizationSvg('timeline', {
+        events: [{ id: 'e1', title: 'Launch', date: '2026-01-01', color: payload }],
+      }, 'Plan'),
+    ];
+
+    svgs.forEach((svg) => {
+      expect(svg).not.toContain('<script>');
+      expect(svg).not.toContain(payload);
+    });
+  });
+
+  it('rejects unsupported visualization types', () => {
+    expect(() => renderVisualizationSvg('gantt', {}, 'x')).toThrow(
+      'SVG export is not supported for gantt visualizations',
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+
+import { toCsv, toRows } from '../tabularExport.js';
+
+describe('tabularExport', () => {
+  it('flattens graphs into node and edge records', () => {
+    const rows = toRows('knowledge-graph', {
+      nodes: [{ id: 'n1', label: 'Acme', type: 'organization', description: 'Vendor' }],
+      edges: [{ id: 'e1', source: 'n1', target: 'n2', label: 'supplies' }],
+    });
+
+    expect(rows).toEqual([
+      ['record', 'id', 'label', 'type', 'source', 'target', 'detail'],
+      ['node', 'n1', 'Acme', 'organization', '', '', 'Vendor'],
+      ['edge', 'e1', 'supplies', undefined, 'n1', 'n2', ''],
+    ]);
+  });
+
+  it('keeps the hierarchy of a mind map in a parent column', () => {
+    const rows = toRows('mind-map', {
+      root: { id: 'r', label: 'Root', children: [{ id: 'c', label: 'Child', children: [] }] },
+    });
+
+    expect(rows.slice(1).map((row) => row.slice(0, 3))).toEqual([
+      ['r', '', 0],
+      ['c', 'r', 1],
+    ]);
+  });
+
+  it('quotes cells and neutralises spreadsheet formulas', () => {
+    const csv = toCsv([
+      ['label', 'value'],
+      ['Revenue, net', '=SUM(A1:A2)'],
+      ['He said "hi"', 42],
+    ]);
+
+    expect(csv).toBe('label,value\r\n"Revenue, net",\'=SUM(A1:A2)\r\n"He said ""hi""",42');
+  });
+
+  it('lays a RACI matrix out with one column per role', () => {
+    const rows = toRows('raci-matrix', {
+      roles: [{ id: 'pm', name: 'PM' }, { id: 'fin', name: 'Finance' }],
+      activities: [{ id: 'budget', name: 'Approve budget' }],
+      assignments: [{ id: 'budget:fin', activityId: 'budget', roleId: 'fin', responsibilities: ['R', 'A'] }],
+    });
+
+    expect(rows).toEqual([
+      ['activity', 'PM', 'Finance'],
+      ['Approve budget', '', 'RA'],
+    ]);
+  });
+
+  it('rejects unsupported visualization types', () => {
+    expect(() => toRows('comparison-matrix', {})).toThrow(
+      'CSV export is not supported for comparison-matrix visualizations',
+    );
+  });
+});
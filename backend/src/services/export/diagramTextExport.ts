@@ -0,0 +1,558 @@
+import { toDiagramGraph, visibilitySymbol } from './graphExport.js';
+
+import type { DiagramGraph, DiagramNodeShape } from './graphExport.js';
+import type {
+  ActivityNode,
+  ClassEntity,
+  MindMapData,
+  MindMapNode,
+  SequenceFragment,
+  SequenceFragmentKind,
+  SequenceMessage,
+  SequenceParticipant,
+  UMLActivityData,
+  UMLDiagramData,
+  UMLRelationship,
+  UMLSequenceData,
+  VisualizationType,
+} from '../../../../shared/src/types.js';
+
+/**
+ * Diagrams-as-code export: PlantUML and Mermaid source, so a diagram can be pasted into
+ * a docs repo and kept under version control. Element ids are replaced with short
+ * aliases (P1, N1, C1, ...) since neither syntax accepts arbitrary ids.
+ */
+
+export const DIAGRAM_TEXT_EXPORT_TYPES: VisualizationType[] = [
+  'uml-sequence',
+  'uml-activity',
+  'flowchart',
+  'uml-class-diagram',
+  'knowledge-graph',
+  'mind-map',
+  'argument-map',
+];
+
+export function toPlantUml(type: string, data: any, title: string): string {
+  switch (type) {
+    case 'uml-sequence':
+      return sequenceText(data as UMLSequenceData, title, PLANTUML_SEQUENCE);
+    case 'uml-activity':
+      return plantUmlActivity(data as UMLActivityData, title);
+    case 'uml-class-diagram':
+      return plantUmlClassDiagram(data as UMLDiagramData, title);
+    case 'mind-map':
+      return plantUmlMindMap(data as MindMapData, title);
+    case 'flowchart':
+    case 'knowledge-graph':
+    case 'argument-map':
+      return plantUmlGraph(toDiagramGraph(type, data), title);
+    default:
+      throw new Error(`PlantUML export is not supported for ${type} visualizations`);
+  }
+}
+
+export function toMermaid(type: string, data: any, title: string): string {
+  switch (type) {
+    case 'uml-sequence':
+      return sequenceText(data as UMLSequenceData, title, MERMAID_SEQUENCE);
+    case 'uml-activity':
+      return mermaidActivity(data as UMLActivityData, title);
+    case 'uml-class-diagram':
+      return mermaidClassDiagram(data as UMLDiagramData, title);
+    case 'mind-map':
+      return mermaidMindMap(data as MindMapData, title);
+    case 'flowchart':
+    case 'knowledge-graph':
+    case 'argument-map':
+      return mermaidFlowchart(toDiagramGraph(type, data), title);
+    default:
+      throw new Error(`Mermaid export is not supported for ${type} visualizations`);
+  }
+}
+
+// Labels are single-line in both syntaxes
+const oneLine = (text: string) => String(text ?? '').replace(/\s+/g, ' ').trim();
+
+const plantUmlQuoted = (text: string) => `"${oneLine(text).replace(/"/g, '\'')}"`;
+
+// Mermaid reads `;` as a statement break and `"` as the end of a quoted label
+const mermaidText = (text: string) => oneLine(text).replace(/;/g, '#59;').replace(/"/g, '#quot;');
+
+const mermaidFrontMatter = (title: string) => ['---', `title: ${JSON.stringify(oneLine(title))}`, '---'];
+
+// --- Sequence diagrams -----------------------------------------------------
+
+interface SequenceDialect {
+  header: (title: string) => string[];
+  footer: string[];
+  participant: (participant: SequenceParticipant, alias: string) => string;
+  message: (message: SequenceMessage, from: string, to: string) => string[];
+  activate: (alias: string) => string;
+  deactivate: (alias: string) => string;
+  open: (kind: SequenceFragmentKind, guard?: string) => string;
+  // Separator between the operands of an alt or par fragment
+  next: (kind: SequenceFragmentKind, guard?: string) => string;
+  close: string;
+}
+
+const withGuard = (keyword: string, guard?: string) => (guard ? `${keyword} ${oneLine(guard)}` : keyword);
+
+const PLANTUML_ARROWS: Record<SequenceMessage['kind'], string> = {
+  sync: '->',
+  async: '->>',
+  return: '-->',
+  create: '->',
+};
+
+const PLANTUML_SEQUENCE: SequenceDialect = {
+  header: (title) => ['@startuml', `title ${oneLine(title)}`],
+  footer: ['@enduml'],
+  // PlantUML has a keyword for every participant kind
+  participant: (participant, alias) => `${participant.kind} ${plantUmlQuoted(participant.name)} as ${alias}`,
+  message: (message, from, to) => [
+    ...(message.kind === 'create' ? [`create ${to}`] : []),
+    `${from} ${PLANTUML_ARROWS[message.kind]} ${to}${message.label ? ` : ${oneLine(message.label)}` : ''}`,
+  ],
+  activate: (alias) => `activate ${alias}`,
+  deactivate: (alias) => `deactivate ${alias}`,
+  open: (kind, guard) => withGuard(kind, guard),
+  next: (_kind, guard) => withGuard('else', guard),
+  close: 'end',
+};
+
+const MERMAID_ARROWS: Record<SequenceMessage['kind'], string> = {
+  sync: '->>',
+  async: '-)',
+  return: '-->>',
+  create: '->>',
+};
+
+const MERMAID_SEQUENCE: SequenceDialect = {
+  header: (title) => [...mermaidFrontMatter(title), 'sequenceDiagram'],
+  footer: [],
+  // Mermaid only draws actors and boxes
+  participant: (participant, alias) => (
+    `${participant.kind === 'actor' ? 'actor' : 'participant'} ${alias} as ${mermaidText(participant.name)}`
+  ),
+  message: (message, from, to) => [
+    `${from}${MERMAID_ARROWS[message.kind]}${to}: ${mermaidText(message.label)}`,
+  ],
+  activate: (alias) => `activate ${alias}`,
+  deactivate: (alias) => `deactivate ${alias}`,
+  open: (kind, guard) => withGuard(kind, guard && mermaidText(guard)),
+  next: (kind, guard) => withGuard(kind === 'par' ? 'and' : 'else', guard && mermaidText(guard)),
+  close: 'end',
+};
+
+/**
+ * Write messages and fragments back in time order. Fragments are rebuilt from the
+ * operand each message and nested fragment belongs to; activations open after the
+ * message that starts them and close after the one that ends them.
+ */
+function sequenceText(data: UMLSequenceData, title: string, dialect: SequenceDialect): string {
+  const aliases = new Map(data.participants.map((p, index) => [p.id, `P${index + 1}`]));
+  const alias = (id: string) => aliases.get(id) || id;
+
+  type Item = { order: number; message?: SequenceMessage; fragment?: SequenceFragment };
+  const containerKey = (fragmentId?: string, operandIndex?: number) => (fragmentId ? `${fragmentId}/${operandIndex ?? 0}` : '');
+  const children = new Map<string, Item[]>();
+  const add = (key: string, item: Item) => children.set(key, [...(children.get(key) || []), item]);
+  (data.fragments || []).forEach((fragment) => add(
+    containerKey(fragment.parentId, fragment.parentOperandIndex),
+    { order: fragment.order, fragment },
+  ));
+  data.messages.forEach((message) => add(containerKey(message.fragmentId, message.operandIndex), { order: message.order, message }));
+  // A fragment opens before the first message it holds, which shares its order
+  children.forEach((items) => items.sort((a, b) => a.order - b.order || Number(!!a.message) - Number(!!b.message)));
+
+  const activations = data.activations || [];
+  const lines: string[] = [...dialect.header(title), ''];
+  data.participants.forEach((participant) => lines.push(dialect.participant(participant, alias(participant.id))));
+  lines.push('');
+
+  const write = (key: string, indent: string) => {
+    (children.get(key) || []).forEach(({ message, fragment }) => {
+      if (message) {
+        dialect.message(message, alias(message.from), alias(message.to)).forEach((line) => lines.push(indent + line));
+        activations
+          .filter((a) => a.startOrder === message.order)
+          .sort((a, b) => a.depth - b.depth)
+          .forEach((a) => lines.push(indent + dialect.activate(alias(a.participantId))));
+        activations
+          .filter((a) => a.endOrder === message.order)
+          .sort((a, b) => b.depth - a.depth)
+          .forEach((a) => lines.push(indent + dialect.deactivate(alias(a.participantId))));
+        return;
+      }
+
+      fragment!.operands.forEach((operand, operandIndex) => {
+        lines.push(indent + (operandIndex === 0
+          ? dialect.open(fragment!.kind, operand.guard)
+          : dialect.next(fragment!.kind, operand.guard)));
+        write(containerKey(fragment!.id, operandIndex), `${indent}  `);
+      });
+      lines.push(indent + dialect.close);
+    });
+  };
+  write('', '');
+
+  return [...lines, ...dialect.footer].join('\n');
+}
+
+// --- Activity diagrams -----------------------------------------------------
+
+/**
+ * PlantUML's legacy activity syntax is the only one that accepts an arbitrary graph
+ * rather than structured if/while blocks. It has no merge node and no freestanding
+ * swimlanes, so merges are bypassed (their inputs flow straight to their outputs)
+ * and lanes are left out.
+ */
+function plantUmlActivity(data: UMLActivityData, title: string): string {
+  const nodeById = new Map(data.nodes.map((node) => [node.id, node]));
+  const aliases = new Map(data.nodes.map((node, index) => [node.id, `N${index + 1}`]));
+  const declared = new Set<string>();
+
+  const ref = (node: ActivityNode): string => {
+    switch (node.kind) {
+      case 'initial':
+      case 'final':
+        return '(*)';
+      case 'fork':
+      case 'join':
+        return `===${aliases.get(node.id)}===`;
+      default: {
+        const alias = aliases.get(node.id)!;
+        if (declared.has(node.id)) return alias;
+        declared.add(node.id);
+        return `${plantUmlQuoted(node.label || ' ')} as ${alias}`;
+      }
+    }
+  };
+
+  // Targets reached through chains of merge nodes
+  const resolveTargets = (targetId: string, seen: Set<string> = new Set()): string[] => {
+    const target = nodeById.get(targetId);
+    if (!target || target.kind !== 'merge') return [targetId];
+    if (seen.has(targetId)) return [];
+    seen.add(targetId);
+    return data.flows.filter((f) => f.source === targetId).flatMap((f) => resolveTargets(f.target, seen));
+  };
+
+  const lines = ['@startuml', `title ${oneLine(title)}`, ''];
+  data.flows
+    .filter((flow) => nodeById.get(flow.source)?.kind !== 'merge')
+    .forEach((flow) => {
+      resolveTargets(flow.target).forEach((targetId) => {
+        const guard = flow.guard ? ` [${oneLine(flow.guard)}]` : '';
+        lines.push(`${ref(nodeById.get(flow.source)!)} -->${guard} ${ref(nodeById.get(targetId)!)}`);
+      });
+    });
+  lines.push('', '@enduml');
+  return lines.join('\n');
+}
+
+function mermaidActivity(data: UMLActivityData, title: string): string {
+  const aliases = new Map(data.nodes.map((node, index) => [node.id, `N${index + 1}`]));
+
+  const declaration = (node: ActivityNode): string => {
+    const alias = aliases.get(node.id);
+    const label = mermaidText(node.label) || ' ';
+    switch (node.kind) {
+      case 'initial':
+        return `${alias}((" ")):::pseudo`;
+      case 'final':
+        return `${alias}(((" "))):::pseudo`;
+      case 'fork':
+      case 'join':
+        return `${alias}[" "]:::bar`;
+      case 'decision':
+      case 'merge':
+        return `${alias}{"${label}"}`;
+      default:
+        return `${alias}("${label}")`;
+    }
+  };
+
+  const lines = [...mermaidFrontMatter(title), 'flowchart TD'];
+  data.swimlanes.forEach((lane, index) => {
+    const members = data.nodes.filter((node) => node.swimlaneId === lane.id);
+    if (members.length === 0) return;
+    lines.push(`  subgraph L${index + 1}["${mermaidText(lane.name)}"]`);
+    members.forEach((node) => lines.push(`    ${declaration(node)}`));
+    lines.push('  end');
+  });
+  const laneIds = new Set(data.swimlanes.map((lane) => lane.id));
+  data.nodes
+    .filter((node) => !node.swimlaneId || !laneIds.has(node.swimlaneId))
+    .forEach((node) => lines.push(`  ${declaration(node)}`));
+
+  data.flows.forEach((flow) => {
+    const guard = flow.guard ? `|"${mermaidText(flow.guard)}"|` : '';
+    lines.push(`  ${aliases.get(flow.source)} -->${guard} ${aliases.get(flow.target)}`);
+  });
+
+  lines.push(
+    '  classDef pseudo fill:#111827,stroke:#111827',
+    '  classDef bar fill:#111827,stroke:#111827',
+  );
+  return lines.join('\n');
+}
+
+// --- Flowcharts, knowledge graphs and argument maps ------------------------
+
+const MERMAID_SHAPES: Record<DiagramNodeShape, (label: string) => string> = {
+  box: (label) => `["${label}"]`,
+  rounded: (label) => `("${label}")`,
+  stadium: (label) => `(["${label}"])`,
+  diamond: (label) => `{"${label}"}`,
+  circle: (label) => `(("${label}"))`,
+  input: (label) => `[/"${label}"/]`,
+  output: (label) => `[\\"${label}"\\]`,
+  hexagon: (label) => `{{"${label}"}}`,
+  bar: () => '[" "]',
+};
+
+function mermaidFlowchart(graph: DiagramGraph, title: string): string {
+  const aliases = new Map(graph.nodes.map((node, index) => [node.id, `N${index + 1}`]));
+  const declaration = (node: DiagramGraph['nodes'][number]) => (
+    `${aliases.get(node.id)}${MERMAID_SHAPES[node.shape](mermaidText(node.label) || ' ')}`
+  );
+
+  const lines = [...mermaidFrontMatter(title), `flowchart ${graph.direction}`];
+  graph.groups.forEach((group, index) => {
+    const members = graph.nodes.filter((node) => node.group === group.id);
+    if (members.length === 0) return;
+    lines.push(`  subgraph G${index + 1}["${mermaidText(group.label)}"]`);
+    members.forEach((node) => lines.push(`    ${declaration(node)}`));
+    lines.push('  end');
+  });
+  const groupIds = new Set(graph.groups.map((group) => group.id));
+  graph.nodes
+    .filter((node) => !node.group || !groupIds.has(node.group))
+    .forEach((node) => lines.push(`  ${declaration(node)}`));
+
+  graph.edges.forEach((edge) => {
+    const source = aliases.get(edge.source);
+    const target = aliases.get(edge.target);
+    if (!source || !target) return;
+    const label = edge.label ? `|"${mermaidText(edge.label)}"|` : '';
+    lines.push(`  ${source} ${edge.dashed ? '-.->' : '-->'}${label} ${target}`);
+  });
+  return lines.join('\n');
+}
+
+// PlantUML has no diamond or parallelogram element; the stereotype keeps the kind
+const PLANTUML_ELEMENTS: Record<DiagramNodeShape, string> = {
+  box: 'rectangle',
+  rounded: 'card',
+  stadium: 'usecase',
+  diamond: 'hexagon',
+  circle: 'circle',
+  input: 'card',
+  output: 'card',
+  hexagon: 'hexagon',
+  bar: 'rectangle',
+};
+
+/**
+ * Node/edge graphs as PlantUML elements joined by arrows. Groups become rectangles
+ * around their members; the source element kind is kept as a stereotype so the
+ * diagram can be imported again without losing node types.
+ */
+function plantUmlGraph(graph: DiagramGraph, title: string): string {
+  const aliases = new Map(graph.nodes.map((node, index) => [node.id, `N${index + 1}`]));
+  const declaration = (node: DiagramGraph['nodes'][number]) => (
+    `${PLANTUML_ELEMENTS[node.shape]} ${plantUmlQuoted(node.label || ' ')} as ${aliases.get(node.id)} <<${node.kind}>>`
+  );
+
+  const lines = ['@startuml', `title ${oneLine(title)}`];
+  if (graph.direction === 'LR') lines.push('left to right direction');
+  lines.push('');
+
+  graph.groups.forEach((group) => {
+    const members = graph.nodes.filter((node) => node.group === group.id);
+    if (members.length === 0) return;
+    lines.push(`rectangle ${plantUmlQuoted(group.label)} {`);
+    members.forEach((node) => lines.push(`  ${declaration(node)}`));
+    lines.push('}');
+  });
+  const groupIds = new Set(graph.groups.map((group) => group.id));
+  graph.nodes
+    .filter((node) => !node.group || !groupIds.has(node.group))
+    .forEach((node) => lines.push(declaration(node)));
+
+  lines.push('');
+  graph.edges.forEach((edge) => {
+    const source = aliases.get(edge.source);
+    const target = aliases.get(edge.target);
+    if (!source || !target) return;
+    lines.push(`${source} ${edge.dashed ? '..>' : '-->'} ${target}${edge.label ? ` : ${oneLine(edge.label)}` : ''}`);
+  });
+  lines.push('', '@enduml');
+  return lines.join('\n');
+}
+
+// --- Class diagrams --------------------------------------------------------
+
+// Both syntaxes read `source <arrow> target` left to right; diamonds sit on the whole
+const CLASS_ARROWS: Record<UMLRelationship['type'], string> = {
+  inheritance: '--|>',
+  realization: '..|>',
+  composition: '*--',
+  aggregation: 'o--',
+  association: '-->',
+  dependency: '..>',
+};
+
+const relationshipLine = (
+  rel: UMLRelationship,
+  source: string,
+  target: string,
+  text: (value: string) => string,
+) => [
+  source,
+  ...(rel.sourceMultiplicity ? [`"${text(rel.sourceMultiplicity)}"`] : []),
+  CLASS_ARROWS[rel.type] || '-->',
+  ...(rel.targetMultiplicity ? [`"${text(rel.targetMultiplicity)}"`] : []),
+  target,
+].join(' ') + (rel.label ? ` : ${text(rel.label)}` : '');
+
+// Mermaid writes generics as List~String~
+const mermaidType = (type?: string) => (type ? oneLine(type).replace(/[<>]/g, '~') : '');
+
+function mermaidClassDiagram(data: UMLDiagramData, title: string): string {
+  const aliases = new Map(data.classes.map((cls, index) => [cls.id, `C${index + 1}`]));
+  const annotation: Record<ClassEntity['type'], string | undefined> = {
+    class: undefined,
+    interface: 'interface',
+    abstract: 'abstract',
+    enum: 'enumeration',
+  };
+
+  const classLines = (cls: ClassEntity, indent: string) => {
+    const lines = [`${indent}class ${aliases.get(cls.id)}["${mermaidText(cls.name)}"] {`];
+    const stereotype = annotation[cls.type] || cls.stereotype;
+    if (stereotype) lines.push(`${indent}  <<${mermaidText(stereotype)}>>`);
+    (cls.attributes || []).forEach((attr) => lines.push(
+      `${indent}  ${visibilitySymbol(attr.visibility)}${attr.type ? `${mermaidType(attr.type)} ` : ''}${mermaidText(attr.name)}${attr.isStatic ? '$' : ''}`,
+    ));
+    (cls.methods || []).forEach((method) => {
+      const parameters = (method.parameters || [])
+        .map((p) => (p.type ? `${mermaidType(p.type)} ${mermaidText(p.name)}` : mermaidText(p.name)))
+        .join(', ');
+      const modifier = method.isAbstract ? '*' : method.isStatic ? '$' : '';
+      lines.push(
+        `${indent}  ${visibilitySymbol(method.visibility)}${mermaidText(method.name)}(${parameters})${modifier}${method.returnType ? ` ${mermaidType(method.returnType)}` : ''}`,
+      );
+    });
+    lines.push(`${indent}}`);
+    return lines;
+  };
+
+  const lines = [...mermaidFrontMatter(title), 'classDiagram'];
+  const packaged = new Set<string>();
+  (data.packages || []).forEach((pkg) => {
+    const members = data.classes.filter((cls) => pkg.classes.includes(cls.id) && !packaged.has(cls.id));
+    if (members.length === 0) return;
+    // Namespace names must be plain identifiers
+    lines.push(`  namespace ${pkg.name.replace(/\W+/g, '_') || pkg.id} {`);
+    members.forEach((cls) => {
+      packaged.add(cls.id);
+      lines.push(...classLines(cls, '    '));
+    });
+    lines.push('  }');
+  });
+  data.classes
+    .filter((cls) => !packaged.has(cls.id))
+    .forEach((cls) => lines.push(...classLines(cls, '  ')));
+
+  data.relationships.forEach((rel) => {
+    const source = aliases.get(rel.source);
+    const target = aliases.get(rel.target);
+    if (source && target) lines.push(`  ${relationshipLine(rel, source, target, mermaidText)}`);
+  });
+  return lines.join('\n');
+}
+
+const PLANTUML_CLASS_KEYWORDS: Record<ClassEntity['type'], string> = {
+  class: 'class',
+  interface: 'interface',
+  abstract: 'abstract class',
+  enum: 'enum',
+};
+
+function plantUmlClassDiagram(data: UMLDiagramData, title: string): string {
+  const aliases = new Map(data.classes.map((cls, index) => [cls.id, `C${index + 1}`]));
+
+  const classLines = (cls: ClassEntity, indent: string) => {
+    const stereotype = cls.stereotype ? ` <<${oneLine(cls.stereotype)}>>` : '';
+    const lines = [`${indent}${PLANTUML_CLASS_KEYWORDS[cls.type] || 'class'} ${plantUmlQuoted(cls.name)} as ${aliases.get(cls.id)}${stereotype} {`];
+    (cls.attributes || []).forEach((attr) => lines.push(
+      `${indent}  ${visibilitySymbol(attr.visibility)}${attr.isStatic ? '{static} ' : ''}${oneLine(attr.name)}${attr.type ? ` : ${oneLine(attr.type)}` : ''}`,
+    ));
+    (cls.methods || []).forEach((method) => {
+      const parameters = (method.parameters || [])
+        .map((p) => (p.type ? `${oneLine(p.name)} : ${oneLine(p.type)}` : oneLine(p.name)))
+        .join(', ');
+      const modifier = method.isAbstract ? '{abstract} ' : method.isStatic ? '{static} ' : '';
+      lines.push(
+        `${indent}  ${visibilitySymbol(method.visibility)}${modifier}${oneLine(method.name)}(${parameters})${method.returnType ? ` : ${oneLine(method.returnType)}` : ''}`,
+      );
+    });
+    lines.push(`${indent}}`);
+    return lines;
+  };
+
+  const lines = ['@startuml', `title ${oneLine(title)}`, ''];
+  const packaged = new Set<string>();
+  (data.packages || []).forEach((pkg) => {
+    const members = data.classes.filter((cls) => pkg.classes.includes(cls.id) && !packaged.has(cls.id));
+    if (members.length === 0) return;
+    lines.push(`package ${plantUmlQuoted(pkg.name)} {`);
+    members.forEach((cls) => {
+      packaged.add(cls.id);
+      lines.push(...classLines(cls, '  '));
+    });
+    lines.push('}');
+  });
+  data.classes
+    .filter((cls) => !packaged.has(cls.id))
+    .forEach((cls) => lines.push(...classLines(cls, '')));
+
+  lines.push('');
+  data.relationships.forEach((rel) => {
+    const source = aliases.get(rel.source);
+    const target = aliases.get(rel.target);
+    if (source && target) lines.push(relationshipLine(rel, source, target, oneLine));
+  });
+  lines.push('', '@enduml');
+  return lines.join('\n');
+}
+
+// --- Mind maps -------------------------------------------------------------
+
+function mermaidMindMap(data: MindMapData, title: string): string {
+  const lines = [...mermaidFrontMatter(title), 'mindmap'];
+  let count = 0;
+  const walk = (node: MindMapNode, depth: number) => {
+    count += 1;
+    const label = mermaidText(node.label) || ' ';
+    const indent = '  '.repeat(depth + 1);
+    lines.push(depth === 0 ? `${indent}N${count}(("${label}"))` : `${indent}N${count}["${label}"]`);
+    (node.children || []).forEach((child) => walk(child, depth + 1));
+  };
+  walk(data.root, 0);
+  return lines.join('\n');
+}
+
+function plantUmlMindMap(data: MindMapData, title: string): string {
+  const lines = ['@startmindmap', `title ${oneLine(title)}`, ''];
+  const walk = (node: MindMapNode, depth: number) => {
+    lines.push(`${'*'.repeat(depth + 1)} ${oneLine(node.label) || ' '}`);
+    (node.children || []).forEach((child) => walk(child, depth + 1));
+  };
+  walk(data.root, 0);
+  lines.push('', '@endmindmap');
+  return lines.join('\n');
+}
@@ -0,0 +1,317 @@
+import { Resvg } from '@resvg/resvg-js';
+import { PDFDocument } from 'pdf-lib';
+import PptxGenJS from 'pptxgenjs';
+
+import { DIAGRAM_TEXT_EXPORT_TYPES, toMermaid, toPlantUml } from './diagramTextExport.js';
+import { GRAPH_EXPORT_TYPES, toDot, toGraphML } from './graphExport.js';
+import { escapeXml, renderVisualizationSvg } from './svgRenderer.js';
+import { toCsv, toRows } from './tabularExport.js';
+
+import type {
+  Document,
+  DocumentAnalysis,
+  ExportRequest,
+  VisualizationType,
+} from '../../../../shared/src/types.js';
+import type { VisualizationRecord } from '../../repositories/types.js';
+
+export type ExportFileFormat = ExportRequest['format'];
+
+export interface ExportFile {
+  content: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+const CONTENT_TYPES: Record<ExportFileFormat, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  html: 'text/html; charset=utf-8',
+  json: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+  plantuml: 'text/plain; charset=utf-8',
+  mermaid: 'text/plain; charset=utf-8',
+  graphml: 'application/graphml+xml',
+  dot: 'text/vnd.graphviz; charset=utf-8',
+};
+
+// Diagrams-as-code and graph formats only exist for the diagram-like visualizations
+export const DIAGRAM_FORMAT_TYPES: Partial<Record<ExportFileFormat, VisualizationType[]>> = {
+  plantuml: DIAGRAM_TEXT_EXPORT_TYPES,
+  mermaid: DIAGRAM_TEXT_EXPORT_TYPES,
+  graphml: GRAPH_EXPORT_TYPES,
+  dot: GRAPH_EXPORT_TYPES,
+};
+
+export const EXPORT_FORMATS = Object.keys(CONTENT_TYPES) as ExportFileFormat[];
+
+// Rasterised size caps so very large graphs do not exhaust memory
+const MAX_PNG_WIDTH = 4000;
+const MAX_PNG_HEIGHT = 4000;
+
+const VISUALIZATION_TITLES: Record<string, string> = {
+  'structured-view': 'Document Structure',
+  'mind-map': 'Mind Map',
+  flowchart: 'Process Flow',
+  'knowledge-graph': 'Knowledge Graph',
+  'argument-map': 'Argument Map',
+  'entity-graph': 'Entity Flow',
+  'uml-class-diagram': 'UML Class Diagram',
+  'uml-sequence': 'UML Sequence Diagram',
+  'uml-activity': 'UML Activity Diagram',
+  timeline: 'Timeline',
+  'executive-dashboard': 'Executive Dashboard',
+  'terms-definitions': 'Terms & Definitions',
+  'depth-graph': 'Depth Graph',
+};
+
+const slug = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 60) || 'document';
+
+/**
+ * Renders stored visualizations to downloadable files. Every visual format is
+ * derived from the string SVG renderer, so no browser is needed on the server.
+ */
+export class ExportService {
+  /**
+   * Export one visualization record. `pptx` produces a single-visualization deck;
+   * use exportDeck for the full summary deck.
+   */
+  async exportVisualization(
+    document: Document,
+    record: VisualizationRecord,
+    format: ExportFileFormat,
+  ): Promise<ExportFile> {
+    const type = record.visualizationType;
+    const title = `${document.title} — ${VISUALIZATION_TITLES[type] || type}`;
+    const base = `${slug(document.title)}-${type}`;
+    const file = (content: Buffer | string, ext: string = format): ExportFile => ({
+      content: Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf-8'),
+      contentType: CONTENT_TYPES[format],
+      filename: `${base}.${ext}`,
+    });
+
+    switch (format) {
+      case 'json':
+        return file(JSON.stringify({
+          documentId: record.documentId,
+          visualizationType: type,
+          createdAt: record.createdAt,
+          updatedAt: record.updatedAt,
+          llmMetadata: record.llmMetadata,
+          data: record.visualizationData,
+        }, null, 2));
+
+      case 'csv':
+        return file(toCsv(toRows(type, record.visualizationData)));
+
+      case 'svg':
+        return file(renderVisualizationSvg(type, record.visualizationData, title));
+
+      case 'png':
+        return file(this.svgToPng(renderVisualizationSvg(type, record.visualizationData, title)));
+
+      case 'pdf':
+        return file(await this.svgToPdf(
+          renderVisualizationSvg(type, record.visualizationData, title),
+          title,
+        ));
+
+      case 'html':
+        return file(this.htmlPage(title, renderVisualizationSvg(type, record.visualizationData, title)));
+
+      case 'plantuml':
+        return file(toPlantUml(type, record.visualizationData, title), 'puml');
+
+      case 'mermaid':
+        return file(toMermaid(type, record.visualizationData, title), 'mmd');
+
+      case 'graphml':
+        return file(toGraphML(type, record.visualizationData, title));
+
+      case 'dot':
+        return file(toDot(type, record.visualizationData, title));
+
+      case 'pptx':
+        return file(await this.buildDeck(document, undefined, [record]));
+
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+  }
+
+  /**
+   * Multi-slide deck: title, TLDR, executive summary, KPIs, then one slide per
+   * selected visualization.
+   */
+  async exportDeck(
+    document: Document,
+    analysis: DocumentAnalysis | undefined,
+    records: VisualizationRecord[],
+  ): Promise<ExportFile> {
+    return {
+      content: await this.buildDeck(document, analysis, records),
+      contentType: CONTENT_TYPES.pptx,
+      filename: `${slug(document.title)}-deck.pptx`,
+    };
+  }
+
+  svgToPng(svg: string): Buffer {
+    const width = Number(svg.match(/<svg[^>]*\swidth="(\d+)"/)?.[1] || 1200);
+    const height = Number(svg.match(/<svg[^>]*\sheight="(\d+)"/)?.[1] || 0);
+    // 2x for crisp output, capped for very large diagrams
+    const targetWidth = Math.min(width * 2, MAX_PNG_WIDTH);
+    // Tall, narrow diagrams would pass the height cap at that width
+    const fitTo = height * (targetWidth / width) > MAX_PNG_HEIGHT
+      ? { mode: 'height' as const, value: MAX_PNG_HEIGHT }
+      : { mode: 'width' as const, value: targetWidth };
+    const resvg = new Resvg(svg, {
+      fitTo,
+      font: {
+        loadSystemFonts: true,
+        fontDirs: process.env.EXPORT_FONT_DIR ? [process.env.EXPORT_FONT_DIR] : [],
+        defaultFontFamily: 'DejaVu Sans',
+      },
+      background: '#FFFFFF',
+    });
+    return resvg.render().asPng();
+  }
+
+  private async svgToPdf(svg: string, title: string): Promise<Buffer> {
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(title);
+    pdf.setProducer('Vaisu');
+
+    const image = await pdf.embedPng(this.svgToPng(svg));
+    // One page sized to the diagram at 72dpi, scaled down to at most A3 landscape
+    const scale = Math.min(1, 1191 / image.width, 842 / image.height);
+    const page = pdf.addPage([image.width * scale, image.height * scale]);
+    page.drawImage(image, { x: 0, y: 0, width: image.width * scale, height: image.height * scale });
+
+    return Buffer.from(await pdf.save());
+  }
+
+  private htmlPage(title: string, svg: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<style>
+  body { margin: 0; padding: 24px; background: #F3F4F6; font-family: Inter, 'Helvetica Neue', Arial, sans-serif; }
+  main { max-width: 100%; overflow: auto; background: #FFFFFF; border-radius: 12px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); }
+  footer { margin-top: 12px; color: #6B7280; font-size: 12px; }
+  svg { display: block; max-width: 100%; height: auto; }
+</style>
+</head>
+<body>
+<main>${svg}</main>
+<footer>Exported from Vaisu on ${new Date().toISOString().substring(0, 10)}</footer>
+</body>
+</html>
+`;
+  }
+
+  private async buildDeck(
+    document: Document,
+    analysis: DocumentAnalysis | undefined,
+    records: VisualizationRecord[],
+  ): Promise<Buffer> {
+    const pptx = new PptxGenJS();
+    pptx.layout = 'LAYOUT_WIDE'; // 13.33 x 7.5 in
+    pptx.title = document.title;
+
+    const heading = { x: 0.6, y: 0.4, w: 12.1, h: 0.8, fontSize: 28, bold: true, color: '111827' };
+    const body = { x: 0.6, y: 1.4, w: 12.1, h: 5.6, fontSize: 18, color: '374151', valign: 'top' as const };
+
+    const cover = pptx.addSlide();
+    cover.background = { color: '4F46E5' };
+    cover.addText(document.title, { x: 0.8, y: 2.5, w: 11.7, h: 1.5, fontSize: 40, bold: true, color: 'FFFFFF' });
+    cover.addText(
+      `${document.metadata.wordCount.toLocaleString('en-US')} words · ${new Date().toISOString().substring(0, 10)}`,
+      { x: 0.8, y: 4.1, w: 11.7, h: 0.6, fontSize: 18, color: 'E0E7FF' },
+    );
+
+    const tldr = typeof analysis?.tldr === 'string' ? analysis.tldr : analysis?.tldr?.text;
+    if (tldr) {
+      const slide = pptx.addSlide();
+      slide.addText('TL;DR', heading);
+      slide.addText(tldr, { ...body, fontSize: 22 });
+    }
+
+    const summary = analysis?.executiveSummary;
+    if (summary) {
+      const slide = pptx.addSlide();
+      slide.addText('Executive Summary', heading);
+      slide.addText(
+        [
+          { text: summary.headline, options: { bold: true, breakLine: true, paraSpaceAfter: 12 } },
+          ...(summary.keyIdeas || []).map((idea) => ({ text: idea, options: { bullet: true, breakLine: true } })),
+          ...(summary.callToAction
+            ? [{ text: summary.callToAction, options: { italic: true, color: '4F46E5', paraSpaceBefore: 12 } }]
+            : []),
+        ],
+        body,
+      );
+
+      if (summary.risks?.length || summary.opportunities?.length) {
+        const risks = pptx.addSlide();
+        risks.addText('Risks & Opportunities', heading);
+        const column = (label: string, items: string[] = []) => [
+          { text: label, options: { bold: true, breakLine: true } },
+          ...items.map((item) => ({ text: item, options: { bullet: true, breakLine: true } })),
+        ];
+        risks.addText(column('Risks', summary.risks), { ...body, w: 5.9, fontSize: 16 });
+        risks.addText(column('Opportunities', summary.opportunities), { ...body, x: 6.8, w: 5.9, fontSize: 16 });
+      }
+    }
+
+    const kpis = summary?.kpis || [];
+    if (kpis.length > 0) {
+      const slide = pptx.addSlide();
+      slide.addText('Key Metrics', heading);
+      const header = ['Metric', 'Value', 'Trend'].map((text) => ({
+        text,
+        options: { bold: true, color: 'FFFFFF', fill: { color: '4F46E5' } },
+      }));
+      const trend = (t?: string) => (t === 'up' ? '▲ up' : t === 'down' ? '▼ down' : t === 'stable' ? '● stable' : '');
+      slide.addTable(
+        [
+          header,
+          ...kpis.slice(0, 12).map((kpi) => [
+            { text: kpi.label },
+            { text: `${kpi.value}${kpi.unit ? ` ${kpi.unit}` : ''}` },
+            { text: trend(kpi.trend) },
+          ]),
+        ],
+        { x: 0.6, y: 1.4, w: 12.1, colW: [7.1, 3, 2], fontSize: 14, border: { type: 'solid', pt: 0.5, color: 'D1D5DB' } },
+      );
+    }
+
+    for (const record of records) {
+      const type = record.visualizationType;
+      const slide = pptx.addSlide();
+      slide.addText(VISUALIZATION_TITLES[type] || type, heading);
+
+      const svg = renderVisualizationSvg(type, record.visualizationData, document.title);
+      const width = Number(svg.match(/\swidth="(\d+)"/)?.[1] || 1);
+      const height = Number(svg.match(/\sheight="(\d+)"/)?.[1] || 1);
+      // Fit inside the 12.1 x 5.8 in content area, keeping the aspect ratio
+      const scale = Math.min(12.1 / width, 5.8 / height);
+      slide.addImage({
+        data: `image/png;base64,${this.svgToPng(svg).toString('base64')}`,
+        x: 0.6 + (12.1 - width * scale) / 2,
+        y: 1.3,
+        w: width * scale,
+        h: height * scale,
+      });
+    }
+
+    return (await pptx.write({ outputType: 'nodebuffer' })) as Buffer;
+  }
+}
+
+export const exportService = new ExportService();
@@ -0,0 +1,396 @@
+import { escapeXml } from './svgRenderer.js';
+
+import type {
+  ArgumentMapData,
+  ArgumentNode,
+  FlowchartData,
+  FlowNode,
+  KnowledgeGraphData,
+  MindMapData,
+  MindMapNode,
+  UMLActivityData,
+  UMLDiagramData,
+  VisualizationType,
+} from '../../../../shared/src/types.js';
+
+/**
+ * Graph interchange export: GraphML (yEd, Gephi, Cytoscape) and Graphviz DOT. Every
+ * supported visualization is first reduced to one plain node/edge graph, which the
+ * Mermaid and PlantUML flowchart writers reuse as well.
+ */
+
+export const GRAPH_EXPORT_TYPES: VisualizationType[] = [
+  'flowchart',
+  'uml-class-diagram',
+  'knowledge-graph',
+  'mind-map',
+  'argument-map',
+  'uml-activity',
+];
+
+export type DiagramNodeShape =
+  | 'box'
+  | 'rounded'
+  | 'stadium'
+  | 'diamond'
+  | 'circle'
+  | 'input'
+  | 'output'
+  | 'hexagon'
+  | 'bar';
+
+export interface DiagramGraphNode {
+  id: string;
+  label: string;
+  kind: string; // Type of the source element, e.g. a flow node type or entity type
+  shape: DiagramNodeShape;
+  group?: string; // Swimlane, cluster or package id
+  description?: string;
+  compartments?: string[][]; // Class members, one list per compartment
+}
+
+export interface DiagramGraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+  kind?: string;
+  dashed?: boolean;
+}
+
+export interface DiagramGraph {
+  direction: 'TB' | 'LR' | 'BT';
+  nodes: DiagramGraphNode[];
+  edges: DiagramGraphEdge[];
+  groups: Array<{ id: string; label: string }>;
+}
+
+const FLOW_NODE_SHAPES: Record<FlowNode['type'], DiagramNodeShape> = {
+  start: 'stadium',
+  end: 'stadium',
+  process: 'box',
+  decision: 'diamond',
+  input: 'input',
+  output: 'output',
+};
+
+const ARGUMENT_NODE_SHAPES: Record<ArgumentNode['type'], DiagramNodeShape> = {
+  claim: 'hexagon',
+  argument: 'box',
+  evidence: 'input',
+  counterargument: 'rounded',
+  rebuttal: 'rounded',
+  alternative: 'stadium',
+};
+
+const ACTIVITY_NODE_SHAPES: Record<UMLActivityData['nodes'][number]['kind'], DiagramNodeShape> = {
+  initial: 'circle',
+  final: 'circle',
+  action: 'rounded',
+  decision: 'diamond',
+  merge: 'diamond',
+  fork: 'bar',
+  join: 'bar',
+};
+
+const VISIBILITY_SYMBOLS: Record<string, string> = {
+  public: '+',
+  private: '-',
+  protected: '#',
+  package: '~',
+};
+
+export const visibilitySymbol = (visibility?: string) => VISIBILITY_SYMBOLS[visibility || ''] ?? '';
+
+export function toDiagramGraph(type: string, data: any): DiagramGraph {
+  switch (type) {
+    case 'flowchart': {
+      const flowchart = data as FlowchartData;
+      return {
+        direction: flowchart.layout === 'leftToRight' ? 'LR' : 'TB',
+        nodes: flowchart.nodes.map((node) => ({
+          id: node.id,
+          label: node.label,
+          kind: node.type,
+          shape: FLOW_NODE_SHAPES[node.type] || 'box',
+          group: node.swimlane,
+          description: node.description || undefined,
+        })),
+        edges: flowchart.edges.map((edge) => ({
+          id: edge.id,
+          source: edge.source,
+          target: edge.target,
+          label: edge.label,
+          dashed: edge.type === 'dashed',
+        })),
+        groups: (flowchart.swimlanes || []).map((lane) => ({ id: lane.id, label: lane.label })),
+      };
+    }
+
+    case 'knowledge-graph': {
+      const graph = data as KnowledgeGraphData;
+      const clusterOf = new Map<string, string>();
+      (graph.clusters || []).forEach((cluster) => cluster.nodeIds.forEach((id) => {
+        if (!clusterOf.has(id)) clusterOf.set(id, cluster.id);
+      }));
+      return {
+        direction: 'LR',
+        nodes: graph.nodes.map((node) => ({
+          id: node.id,
+          label: node.label,
+          kind: node.type,
+          shape: 'rounded',
+          group: clusterOf.get(node.id),
+          description: node.metadata?.description,
+        })),
+        edges: graph.edges.map((edge) => ({
+          id: edge.id,
+          source: edge.source,
+          target: edge.target,
+          label: edge.label || edge.type,
+          kind: edge.type,
+        })),
+        groups: (graph.clusters || []).map((cluster) => ({ id: cluster.id, label: cluster.label })),
+      };
+    }
+
+    case 'mind-map': {
+      const nodes: DiagramGraphNode[] = [];
+      const edges: DiagramGraphEdge[] = [];
+      const ids = new Set<string>();
+      const walk = (node: MindMapNode, parentId?: string) => {
+        // Generated ids are not guaranteed to be unique across the tree
+        const id = ids.has(node.id) ? `${node.id}-${nodes.length}` : node.id;
+        ids.add(id);
+        nodes.push({
+          id,
+          label: node.label,
+          kind: parentId ? `level-${node.level}` : 'root',
+          shape: parentId ? 'rounded' : 'circle',
+          description: node.summary || undefined,
+        });
+        if (parentId) {
+          edges.push({ id: `edge-${edges.length}`, source: parentId, target: id });
+        }
+        (node.children || []).forEach((child) => walk(child, id));
+      };
+      walk((data as MindMapData).root);
+      return { direction: 'LR', nodes, edges, groups: [] };
+    }
+
+    case 'argument-map': {
+      const map = data as ArgumentMapData;
+      return {
+        // Evidence and arguments point up at the claims they bear on
+        direction: 'BT',
+        nodes: map.nodes.map((node) => ({
+          id: node.id,
+          label: node.label,
+          kind: node.type,
+          shape: ARGUMENT_NODE_SHAPES[node.type] || 'box',
+          description: node.summary || undefined,
+        })),
+        edges: map.edges.map((edge) => ({
+          id: edge.id,
+          source: edge.source,
+          target: edge.target,
+          label: edge.type,
+          kind: edge.type,
+          dashed: edge.type === 'attacks' || edge.type === 'rebuts',
+        })),
+        groups: [],
+      };
+    }
+
+    case 'uml-class-diagram': {
+      const uml = data as UMLDiagramData;
+      const packageOf = new Map<string, string>();
+      (uml.packages || []).forEach((pkg) => pkg.classes.forEach((id) => packageOf.set(id, pkg.id)));
+      return {
+        direction: 'TB',
+        nodes: uml.classes.map((cls) => ({
+          id: cls.id,
+          label: cls.name,
+          kind: cls.type,
+          shape: 'box',
+          group: packageOf.get(cls.id),
+          description: cls.description || undefined,
+          compartments: [
+            (cls.attributes || []).map((attr) => `${visibilitySymbol(attr.visibility)}${attr.name}${attr.type ? `: ${attr.type}` : ''}`),
+            (cls.methods || []).map((method) => (
+              `${visibilitySymbol(method.visibility)}${method.name}(${(method.parameters || []).map((p) => (p.type ? `${p.name}: ${p.type}` : p.name)).join(', ')})${method.returnType ? `: ${method.returnType}` : ''}`
+            )),
+          ],
+        })),
+        edges: uml.relationships.map((rel) => ({
+          id: rel.id,
+          source: rel.source,
+          target: rel.target,
+          label: rel.label,
+          kind: rel.type,
+          dashed: rel.type === 'realization' || rel.type === 'dependency',
+        })),
+        groups: (uml.packages || []).map((pkg) => ({ id: pkg.id, label: pkg.name })),
+      };
+    }
+
+    case 'uml-activity': {
+      const activity = data as UMLActivityData;
+      return {
+        direction: 'TB',
+        nodes: activity.nodes.map((node) => ({
+          id: node.id,
+          label: node.label,
+          kind: node.kind,
+          shape: ACTIVITY_NODE_SHAPES[node.kind] || 'rounded',
+          group: node.swimlaneId,
+          description: node.description,
+        })),
+        edges: activity.flows.map((flow) => ({
+          id: flow.id,
+          source: flow.source,
+          target: flow.target,
+          label: flow.guard,
+        })),
+        groups: activity.swimlanes.map((lane) => ({ id: lane.id, label: lane.name })),
+      };
+    }
+
+    default:
+      throw new Error(`Graph export is not supported for ${type} visualizations`);
+  }
+}
+
+// --- GraphML ---------------------------------------------------------------
+
+const GRAPHML_KEYS: Array<{ id: string; for: 'node' | 'edge' | 'graph'; name: string }> = [
+  { id: 'd0', for: 'node', name: 'label' },
+  { id: 'd1', for: 'node', name: 'kind' },
+  { id: 'd2', for: 'node', name: 'group' },
+  { id: 'd3', for: 'node', name: 'description' },
+  { id: 'd4', for: 'node', name: 'members' },
+  { id: 'd5', for: 'edge', name: 'label' },
+  { id: 'd6', for: 'edge', name: 'kind' },
+  { id: 'd7', for: 'graph', name: 'title' },
+];
+
+/**
+ * Plain GraphML with string attributes. yEd and Gephi both map the `label` attribute
+ * onto the displayed label, so no tool-specific extensions are written.
+ */
+export function toGraphML(type: string, data: any, title: string): string {
+  const graph = toDiagramGraph(type, data);
+  const groupLabels = new Map(graph.groups.map((group) => [group.id, group.label]));
+  const dataLine = (key: string, value?: string) => (
+    value ? [`      <data key="${key}">${escapeXml(value)}</data>`] : []
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+    '    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '    xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...GRAPHML_KEYS.map((key) => `  <key id="${key.id}" for="${key.for}" attr.name="${key.name}" attr.type="string"/>`),
+    `  <graph id="${escapeXml(type)}" edgedefault="directed">`,
+    `    <data key="d7">${escapeXml(title)}</data>`,
+    ...graph.nodes.flatMap((node) => [
+      `    <node id="${escapeXml(node.id)}">`,
+      ...dataLine('d0', node.label),
+      ...dataLine('d1', node.kind),
+      ...dataLine('d2', node.group && groupLabels.get(node.group)),
+      ...dataLine('d3', node.description),
+      ...dataLine('d4', node.compartments?.flat().join('\n')),
+      '    </node>',
+    ]),
+    ...graph.edges.flatMap((edge) => [
+      `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`,
+      ...dataLine('d5', edge.label),
+      ...dataLine('d6', edge.kind),
+      '    </edge>',
+    ]),
+    '  </graph>',
+    '</graphml>',
+    '',
+  ].join('\n');
+}
+
+// --- Graphviz DOT ----------------------------------------------------------
+
+const DOT_SHAPES: Record<DiagramNodeShape, string> = {
+  box: 'shape=box',
+  rounded: 'shape=box, style=rounded',
+  stadium: 'shape=box, style="rounded,bold"',
+  diamond: 'shape=diamond',
+  circle: 'shape=circle',
+  input: 'shape=parallelogram',
+  output: 'shape=parallelogram',
+  hexagon: 'shape=hexagon',
+  bar: 'shape=box, style=filled, fillcolor=black, height=0.08, width=1.2, label=""',
+};
+
+// UML arrowheads; composition and aggregation diamonds sit on the source (the whole)
+const UML_DOT_ARROWS: Record<string, string> = {
+  inheritance: 'arrowhead=empty',
+  realization: 'arrowhead=empty',
+  composition: 'dir=both, arrowtail=diamond, arrowhead=none',
+  aggregation: 'dir=both, arrowtail=odiamond, arrowhead=none',
+  association: 'arrowhead=vee',
+  dependency: 'arrowhead=vee',
+};
+
+const dotString = (text?: string) => `"${String(text ?? '').replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+
+// Record labels also reserve braces, pipes and angle brackets
+const dotRecordField = (text: string) => text.replace(/[\\{}|<>"]/g, (c) => `\\${c}`);
+
+export function toDot(type: string, data: any, title: string): string {
+  const graph = toDiagramGraph(type, data);
+
+  const nodeLine = (node: DiagramGraphNode) => {
+    if (node.compartments) {
+      // UML classes as three-compartment records; `\l` left-aligns each member
+      const fields = [
+        dotRecordField(node.kind === 'class' ? node.label : `«${node.kind}» ${node.label}`),
+        ...node.compartments.map((members) => members.map((m) => `${dotRecordField(m)}\\l`).join('')),
+      ];
+      return `${dotString(node.id)} [shape=record, label="{${fields.join('|')}}"];`;
+    }
+    const label = node.shape === 'bar' ? '' : `label=${dotString(node.label)}, `;
+    return `${dotString(node.id)} [${label}${DOT_SHAPES[node.shape]}];`;
+  };
+
+  const lines = [
+    `digraph ${dotString(title)} {`,
+    `  label=${dotString(title)};`,
+    '  labelloc=t;',
+    `  rankdir=${graph.direction};`,
+    '  node [fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+    '',
+  ];
+
+  graph.groups.forEach((group, index) => {
+    const members = graph.nodes.filter((node) => node.group === group.id);
+    if (members.length === 0) return;
+    lines.push(`  subgraph cluster_${index} {`, `    label=${dotString(group.label)};`);
+    members.forEach((node) => lines.push(`    ${nodeLine(node)}`));
+    lines.push('  }');
+  });
+  const groupIds = new Set(graph.groups.map((group) => group.id));
+  graph.nodes
+    .filter((node) => !node.group || !groupIds.has(node.group))
+    .forEach((node) => lines.push(`  ${nodeLine(node)}`));
+
+  lines.push('');
+  graph.edges.forEach((edge) => {
+    const attributes = [
+      ...(edge.label ? [`label=${dotString(edge.label)}`] : []),
+      ...(edge.dashed ? ['style=dashed'] : []),
+      ...(type === 'uml-class-diagram' && edge.kind ? [UML_DOT_ARROWS[edge.kind] || ''] : []),
+    ].filter(Boolean);
+    lines.push(`  ${dotString(edge.source)} -> ${dotString(edge.target)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+  });
+
+  lines.push('}', '');
+  return lines.join('\n');
+}
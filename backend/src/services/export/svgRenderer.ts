@@ -0,0 +1,611 @@
+import type {
+  ArgumentMapData,
+  DashboardData,
+  DepthGraphData,
+  EntityGraphData,
+  FlowchartData,
+  KnowledgeGraphData,
+  MindMapData,
+  MindMapNode,
+  Section,
+  TermsDefinitionsData,
+  TimelineData,
+  UMLDiagramData,
+  VisualizationType,
+} from '../../../../shared/src/types.js';
+
+/**
+ * Pure string SVG rendering of stored visualizations. No DOM, canvas or headless
+ * browser is involved, so exports work on any plain Linux host; PNG, PDF and PPTX
+ * are all rasterised from this output.
+ */
+
+const FONT = "Inter, 'Helvetica Neue', Arial, sans-serif";
+const CHAR_WIDTH = 7; // Average glyph width at 13px, used for wrapping
+const LINE_HEIGHT = 16;
+const PADDING = 32;
+const TITLE_HEIGHT = 56;
+
+const PALETTE = ['#4F46E5', '#0EA5E9', '#10B981', '#F59E0B', '#EF4444', '#EC4899', '#8B5CF6', '#64748B'];
+
+// Color names a node or event may carry besides hex values
+const NAMED_COLORS = [
+  'black', 'white', 'gray', 'grey', 'silver', 'red', 'maroon', 'orange', 'gold', 'yellow',
+  'olive', 'lime', 'green', 'teal', 'cyan', 'aqua', 'blue', 'navy', 'indigo', 'purple',
+  'violet', 'magenta', 'fuchsia', 'pink', 'brown',
+];
+
+const TEXT_PRIMARY = '#111827';
+const TEXT_SECONDARY = '#4B5563';
+const BORDER = '#D1D5DB';
+
+export const SVG_EXPORT_TYPES: VisualizationType[] = [
+  'structured-view',
+  'mind-map',
+  'flowchart',
+  'knowledge-graph',
+  'argument-map',
+  'entity-graph',
+  'uml-class-diagram',
+  'timeline',
+  'executive-dashboard',
+  'terms-definitions',
+  'depth-graph',
+];
+
+interface DiagramNode {
+  id: string;
+  label: string;
+  lines?: string[]; // Extra rows under the label (class members, summaries)
+  color?: string;
+  shape?: 'rect' | 'diamond' | 'pill';
+}
+
+interface DiagramEdge {
+  source: string;
+  target: string;
+  label?: string;
+  dashed?: boolean;
+}
+
+interface TreeNode {
+  label: string;
+  detail?: string;
+  color?: string;
+  children: TreeNode[];
+}
+
+export function escapeXml(text: string): string {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * `color` when it is a hex or known color name, `fallback` otherwise. Colors come
+ * from the LLM and from user edits and end up in attribute values.
+ */
+export function safeColor(color: string | undefined, fallback: string): string {
+  if (typeof color !== 'string') return fallback;
+  const value = color.trim();
+  if ((/^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i).test(value) || NAMED_COLORS.includes(value.toLowerCase())) {
+    return value;
+  }
+  return fallback;
+}
+
+/**
+ * Greedy word wrap to `width` pixels; the last line gets an ellipsis when the text
+ * does not fit in `maxLines`.
+ */
+export function wrapText(text: string, width: number, maxLines = 3): string[] {
+  const maxChars = Math.max(4, Math.floor(width / CHAR_WIDTH));
+  const words = String(text ?? '').split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = word.length > maxChars ? `${word.substring(0, maxChars - 1)}…` : word;
+    if (lines.length === maxLines) break;
+  }
+  if (current && lines.length < maxLines) lines.push(current);
+
+  if (lines.length === maxLines && lines.join(' ').length < words.join(' ').length) {
+    const last = lines[maxLines - 1];
+    lines[maxLines - 1] = `${last.substring(0, Math.max(0, maxChars - 1))}…`;
+  }
+  return lines;
+}
+
+function textBlock(
+  lines: string[],
+  x: number,
+  y: number,
+  options: { size?: number; weight?: number; color?: string; anchor?: 'start' | 'middle' | 'end' } = {},
+): string {
+  const { size = 13, weight = 400, color = TEXT_PRIMARY, anchor = 'start' } = options;
+  return lines
+    .map((line, i) => `<text x="${x}" y="${y + i * LINE_HEIGHT}" font-size="${size}" font-weight="${weight}" fill="${escapeXml(color)}" text-anchor="${anchor}">${escapeXml(line)}</text>`)
+    .join('');
+}
+
+function svgDocument(width: number, height: number, title: string, body: string): string {
+  const w = Math.ceil(width);
+  const h = Math.ceil(height);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}" font-family="${escapeXml(FONT)}">`,
+    '<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="#6B7280"/></marker></defs>',
+    `<rect width="${w}" height="${h}" fill="#FFFFFF"/>`,
+    textBlock([title], PADDING, PADDING + 8, { size: 20, weight: 600 }),
+    body,
+    '</svg>',
+  ].join('');
+}
+
+// --- Layered graph ---------------------------------------------------------
+
+const NODE_WIDTH = 200;
+const LAYER_GAP = 72;
+const NODE_GAP = 32;
+const MAX_NODES_PER_ROW = 8;
+
+const nodeHeight = (node: DiagramNode) =>
+  24 + wrapText(node.label, NODE_WIDTH - 20, 2).length * LINE_HEIGHT + (node.lines?.length || 0) * LINE_HEIGHT;
+
+/**
+ * Top-to-bottom layered layout: BFS depth from the entry nodes gives the layer,
+ * and each layer is ordered by the average position of its parents.
+ */
+export function renderGraph(title: string, nodes: DiagramNode[], edges: DiagramEdge[]): string {
+  const ids = new Set(nodes.map((n) => n.id));
+  const validEdges = edges.filter((e) => ids.has(e.source) && ids.has(e.target));
+  const incoming = new Set(validEdges.filter((e) => e.source !== e.target).map((e) => e.target));
+
+  const layerOf = new Map<string, number>();
+  const assignLayers = (roots: string[]) => {
+    const queue = roots.filter((id) => !layerOf.has(id));
+    queue.forEach((id) => layerOf.set(id, 0));
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      validEdges
+        .filter((e) => e.source === current && !layerOf.has(e.target))
+        .forEach((e) => {
+          layerOf.set(e.target, layerOf.get(current)! + 1);
+          queue.push(e.target);
+        });
+    }
+  };
+  assignLayers(nodes.filter((n) => !incoming.has(n.id)).map((n) => n.id));
+  // Cycles with no entry point: start from the first unplaced node of each
+  nodes.forEach((n) => {
+    if (!layerOf.has(n.id)) assignLayers([n.id]);
+  });
+
+  const layers: DiagramNode[][] = [];
+  nodes.forEach((n) => {
+    const layer = layerOf.get(n.id)!;
+    (layers[layer] ||= []).push(n);
+  });
+
+  const order = new Map<string, number>();
+  layers.forEach((layer, index) => {
+    if (index > 0) {
+      const barycenter = (node: DiagramNode) => {
+        const parents = validEdges.filter((e) => e.target === node.id && order.has(e.source));
+        return parents.length
+          ? parents.reduce((sum, e) => sum + order.get(e.source)!, 0) / parents.length
+          : Number.MAX_SAFE_INTEGER;
+      };
+      layer.sort((a, b) => barycenter(a) - barycenter(b));
+    }
+    layer.forEach((n, i) => order.set(n.id, i));
+  });
+
+  // Very wide layers (large knowledge graphs) wrap onto several rows
+  const rows = layers.flatMap((layer) => {
+    const chunks: DiagramNode[][] = [];
+    for (let i = 0; i < layer.length; i += MAX_NODES_PER_ROW) {
+      chunks.push(layer.slice(i, i + MAX_NODES_PER_ROW));
+    }
+    return chunks;
+  });
+
+  const widest = Math.max(...rows.map((l) => l.length), 1);
+  const contentWidth = widest * NODE_WIDTH + (widest - 1) * NODE_GAP;
+  const positions = new Map<string, { x: number; y: number; h: number }>();
+  let y = PADDING + TITLE_HEIGHT;
+  rows.forEach((layer) => {
+    const layerWidth = layer.length * NODE_WIDTH + (layer.length - 1) * NODE_GAP;
+    const offset = PADDING + (contentWidth - layerWidth) / 2;
+    const height = Math.max(...layer.map(nodeHeight));
+    layer.forEach((n, i) => {
+      positions.set(n.id, { x: offset + i * (NODE_WIDTH + NODE_GAP), y, h: nodeHeight(n) });
+    });
+    y += height + LAYER_GAP;
+  });
+
+  const edgeSvg = validEdges.map((edge) => {
+    const from = positions.get(edge.source)!;
+    const to = positions.get(edge.target)!;
+    const dash = edge.dashed ? ' stroke-dasharray="6 4"' : '';
+    let path: string;
+    let labelX: number;
+    let labelY: number;
+
+    if (layerOf.get(edge.target)! > layerOf.get(edge.source)!) {
+      const x1 = from.x + NODE_WIDTH / 2;
+      const y1 = from.y + from.h;
+      const x2 = to.x + NODE_WIDTH / 2;
+      const y2 = to.y;
+      const mid = (y1 + y2) / 2;
+      path = `M${x1},${y1} C${x1},${mid} ${x2},${mid} ${x2},${y2}`;
+      labelX = (x1 + x2) / 2;
+      labelY = mid;
+    } else {
+      // Back or sideways edge (loops): route around the right-hand side
+      const x1 = from.x + NODE_WIDTH;
+      const y1 = from.y + from.h / 2;
+      const x2 = to.x + NODE_WIDTH;
+      const y2 = to.y + to.h / 2;
+      const bulge = Math.max(x1, x2) + 48;
+      path = `M${x1},${y1} C${bulge},${y1} ${bulge},${y2} ${x2},${y2}`;
+      labelX = bulge - 12;
+      labelY = (y1 + y2) / 2;
+    }
+
+    const label = edge.label
+      ? `<rect x="${labelX - edge.label.length * 3.5 - 6}" y="${labelY - 10}" width="${edge.label.length * 7 + 12}" height="18" rx="9" fill="#FFFFFF" stroke="${BORDER}"/>${textBlock([edge.label], labelX, labelY + 3, { size: 11, color: TEXT_SECONDARY, anchor: 'middle' })}`
+      : '';
+    return `<path d="${path}" fill="none" stroke="#9CA3AF" stroke-width="1.5"${dash} marker-end="url(#arrow)"/>${label}`;
+  }).join('');
+
+  const nodeSvg = nodes.map((node) => {
+    const { x, y: top, h } = positions.get(node.id)!;
+    const color = safeColor(node.color, PALETTE[0]);
+    const labelLines = wrapText(node.label, NODE_WIDTH - 20, 2);
+    let shape: string;
+    if (node.shape === 'diamond') {
+      const cx = x + NODE_WIDTH / 2;
+      const cy = top + h / 2;
+      shape = `<polygon points="${cx},${top} ${x + NODE_WIDTH},${cy} ${cx},${top + h} ${x},${cy}" fill="${color}" fill-opacity="0.1" stroke="${color}" stroke-width="1.5"/>`;
+    } else {
+      const radius = node.shape === 'pill' ? h / 2 : 8;
+      shape = `<rect x="${x}" y="${top}" width="${NODE_WIDTH}" height="${h}" rx="${radius}" fill="#FFFFFF" stroke="${color}" stroke-width="1.5"/>${
+        node.shape === 'pill' ? '' : `<rect x="${x}" y="${top}" width="4" height="${h}" rx="2" fill="${color}"/>`}`;
+    }
+
+    const labelY = top + 20;
+    const extra = node.lines?.length
+      ? `<line x1="${x}" y1="${labelY + labelLines.length * LINE_HEIGHT - 8}" x2="${x + NODE_WIDTH}" y2="${labelY + labelLines.length * LINE_HEIGHT - 8}" stroke="${BORDER}"/>${
+        textBlock(node.lines, x + 12, labelY + labelLines.length * LINE_HEIGHT + 6, { size: 11, color: TEXT_SECONDARY })}`
+      : '';
+    return shape + textBlock(labelLines, x + NODE_WIDTH / 2, labelY, { weight: 600, anchor: 'middle' }) + extra;
+  }).join('');
+
+  return svgDocument(contentWidth + PADDING * 2 + 64, y - LAYER_GAP + PADDING, title, edgeSvg + nodeSvg);
+}
+
+// --- Tree ------------------------------------------------------------------
+
+const TREE_NODE_WIDTH = 220;
+const TREE_LEVEL_GAP = 56;
+const TREE_ROW_HEIGHT = 52;
+
+/**
+ * Left-to-right tree: depth gives the column, leaves take consecutive rows and
+ * every parent is centred on its children.
+ */
+export function renderTree(title: string, root: TreeNode): string {
+  const placed: Array<{ node: TreeNode; depth: number; row: number }> = [];
+  const links: Array<[number, number]> = [];
+  let nextRow = 0;
+  let maxDepth = 0;
+
+  const place = (node: TreeNode, depth: number): number => {
+    maxDepth = Math.max(maxDepth, depth);
+    const index = placed.length;
+    placed.push({ node, depth, row: 0 });
+    if (node.children.length === 0) {
+      placed[index].row = nextRow++;
+    } else {
+      const childIndexes = node.children.map((child) => {
+        const childIndex = place(child, depth + 1);
+        links.push([index, childIndex]);
+        return childIndex;
+      });
+      const rows = childIndexes.map((i) => placed[i].row);
+      placed[index].row = (Math.min(...rows) + Math.max(...rows)) / 2;
+    }
+    return index;
+  };
+  place(root, 0);
+
+  const top = PADDING + TITLE_HEIGHT;
+  const pos = (i: number) => ({
+    x: PADDING + placed[i].depth * (TREE_NODE_WIDTH + TREE_LEVEL_GAP),
+    y: top + placed[i].row * TREE_ROW_HEIGHT,
+  });
+
+  const linkSvg = links.map(([parent, child]) => {
+    const a = pos(parent);
+    const b = pos(child);
+    const x1 = a.x + TREE_NODE_WIDTH;
+    const y1 = a.y + 20;
+    const x2 = b.x;
+    const y2 = b.y + 20;
+    const mid = (x1 + x2) / 2;
+    return `<path d="M${x1},${y1} C${mid},${y1} ${mid},${y2} ${x2},${y2}" fill="none" stroke="#CBD5E1" stroke-width="1.5"/>`;
+  }).join('');
+
+  const nodeSvg = placed.map(({ node, depth }, i) => {
+    const { x, y } = pos(i);
+    const color = safeColor(node.color, PALETTE[depth % PALETTE.length]);
+    const [label] = wrapText(node.label, TREE_NODE_WIDTH - 24, 1);
+    const [detail] = node.detail ? wrapText(node.detail, TREE_NODE_WIDTH - 24, 1) : [];
+    return `<rect x="${x}" y="${y}" width="${TREE_NODE_WIDTH}" height="40" rx="8" fill="${depth === 0 ? color : '#FFFFFF'}" stroke="${color}" stroke-width="1.5"/>${
+      textBlock([label || ''], x + 12, y + (detail ? 17 : 25), { weight: 600, color: depth === 0 ? '#FFFFFF' : TEXT_PRIMARY })
+    }${detail ? textBlock([detail], x + 12, y + 32, { size: 10, color: depth === 0 ? '#E0E7FF' : TEXT_SECONDARY }) : ''}`;
+  }).join('');
+
+  const width = PADDING * 2 + (maxDepth + 1) * TREE_NODE_WIDTH + maxDepth * TREE_LEVEL_GAP;
+  const height = top + Math.max(nextRow, 1) * TREE_ROW_HEIGHT + PADDING;
+  return svgDocument(width, height, title, linkSvg + nodeSvg);
+}
+
+// --- Timeline --------------------------------------------------------------
+
+export function renderTimeline(title: string, data: TimelineData): string {
+  const events = [...(data.events || [])]
+    .filter((e) => !Number.isNaN(Date.parse(e.date)))
+    .sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+
+  const labelWidth = 160;
+  const width = Math.max(900, events.length * 110 + PADDING * 2);
+  const times = events.flatMap((e) => [Date.parse(e.date), Date.parse(e.endDate || e.date)]);
+  const min = Math.min(...times);
+  const span = Math.max(Math.max(...times) - min, 1);
+  const xOf = (time: number) => PADDING + ((time - min) / span) * (width - PADDING * 2 - labelWidth);
+
+  const axisY = PADDING + TITLE_HEIGHT + 24;
+  const laneEnds: number[] = [];
+  const body = events.map((event) => {
+    const x = xOf(Date.parse(event.date));
+    const end = event.endDate ? xOf(Date.parse(event.endDate)) : x;
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= x);
+    if (lane === -1) lane = laneEnds.push(0) - 1;
+    laneEnds[lane] = Math.max(end, x + labelWidth);
+
+    const y = axisY + 28 + lane * 56;
+    const color = safeColor(event.color, PALETTE[0]);
+    const mark = end > x
+      ? `<rect x="${x}" y="${y - 4}" width="${end - x}" height="8" rx="4" fill="${color}" opacity="0.8"/>`
+      : `<circle cx="${x}" cy="${y}" r="6" fill="${color}"/>`;
+    return `<line x1="${x}" y1="${axisY}" x2="${x}" y2="${y}" stroke="${color}" stroke-opacity="0.4"/>${
+      mark
+    }${textBlock(wrapText(event.title, labelWidth - 8, 1), x, y + 22, { size: 12, weight: 600 })
+    }${textBlock([event.dateText || event.date.substring(0, 10)], x, y + 38, { size: 11, color: TEXT_SECONDARY })}`;
+  }).join('');
+
+  const axis = `<line x1="${PADDING}" y1="${axisY}" x2="${width - PADDING}" y2="${axisY}" stroke="${BORDER}" stroke-width="2"/>`;
+  const height = axisY + 28 + Math.max(laneEnds.length, 1) * 56 + PADDING;
+  return svgDocument(width, height, title, axis + body);
+}
+
+// --- Cards, lists and charts -----------------------------------------------
+
+export function renderDashboard(title: string, data: DashboardData): string {
+  const width = 960;
+  const summary = data.executiveCard;
+  let y = PADDING + TITLE_HEIGHT;
+  const parts: string[] = [];
+
+  const headline = wrapText(summary?.headline || '', width - PADDING * 2, 3);
+  parts.push(textBlock(headline, PADDING, y, { size: 15, weight: 600 }));
+  y += headline.length * LINE_HEIGHT + 20;
+
+  const kpis = data.kpiTiles || [];
+  const cardWidth = (width - PADDING * 2 - 3 * 16) / 4;
+  kpis.forEach((kpi, i) => {
+    const x = PADDING + (i % 4) * (cardWidth + 16);
+    const top = y + Math.floor(i / 4) * 96;
+    const trend = kpi.trend === 'up' ? '▲' : kpi.trend === 'down' ? '▼' : '';
+    parts.push(
+      `<rect x="${x}" y="${top}" width="${cardWidth}" height="80" rx="10" fill="#F9FAFB" stroke="${BORDER}"/>${
+        textBlock([`${kpi.value}${kpi.unit ? ` ${kpi.unit}` : ''} ${trend}`.trim()], x + 14, top + 32, { size: 20, weight: 700, color: PALETTE[0] })
+      }${textBlock(wrapText(kpi.label, cardWidth - 28, 2), x + 14, top + 54, { size: 12, color: TEXT_SECONDARY })}`,
+    );
+  });
+  y += Math.ceil(kpis.length / 4) * 96 + (kpis.length ? 12 : 0);
+
+  const lists: Array<[string, string[] | undefined]> = [
+    ['Key ideas', summary?.keyIdeas],
+    ['Risks', summary?.risks],
+    ['Opportunities', summary?.opportunities],
+  ];
+  lists.forEach(([heading, items]) => {
+    if (!items?.length) return;
+    parts.push(textBlock([heading], PADDING, y, { size: 14, weight: 600 }));
+    y += 22;
+    items.forEach((item) => {
+      const lines = wrapText(item, width - PADDING * 2 - 16, 3);
+      parts.push(textBlock(['•'], PADDING, y) + textBlock(lines, PADDING + 16, y, { color: TEXT_SECONDARY }));
+      y += lines.length * LINE_HEIGHT + 6;
+    });
+    y += 12;
+  });
+
+  if (summary?.callToAction) {
+    const lines = wrapText(summary.callToAction, width - PADDING * 2 - 24, 3);
+    parts.push(
+      `<rect x="${PADDING}" y="${y - 4}" width="${width - PADDING * 2}" height="${lines.length * LINE_HEIGHT + 20}" rx="8" fill="#EEF2FF"/>${
+        textBlock(lines, PADDING + 12, y + 14, { weight: 600, color: PALETTE[0] })}`,
+    );
+    y += lines.length * LINE_HEIGHT + 28;
+  }
+
+  return svgDocument(width, y + PADDING, title, parts.join(''));
+}
+
+export function renderTerms(title: string, data: TermsDefinitionsData): string {
+  const width = 960;
+  const termWidth = 220;
+  let y = PADDING + TITLE_HEIGHT;
+  const rows = (data.terms || []).map((term, i) => {
+    const definition = wrapText(term.definition, width - PADDING * 2 - termWidth - 16, 4);
+    const termLines = wrapText(term.term, termWidth - 16, 2);
+    const height = Math.max(definition.length, termLines.length) * LINE_HEIGHT + 16;
+    const row = (i % 2 === 0 ? `<rect x="${PADDING}" y="${y - 14}" width="${width - PADDING * 2}" height="${height}" fill="#F9FAFB"/>` : '')
+      + textBlock(termLines, PADDING + 8, y, { weight: 600 })
+      + textBlock(definition, PADDING + termWidth, y, { color: TEXT_SECONDARY });
+    y += height;
+    return row;
+  });
+  return svgDocument(width, y + PADDING, title, rows.join(''));
+}
+
+export function renderDepthBars(title: string, data: DepthGraphData): string {
+  const units = data.logical_units || [];
+  const width = 960;
+  const labelWidth = 280;
+  const barMax = width - PADDING * 2 - labelWidth - 48;
+  const top = PADDING + TITLE_HEIGHT;
+  const bars = units.map((unit, i) => {
+    const y = top + i * 32;
+    const depth = Math.max(0, Math.min(10, Number(unit.true_depth) || 0));
+    return `${textBlock(wrapText(unit.topic, labelWidth - 12, 1), PADDING, y + 15, { size: 12 })
+    }<rect x="${PADDING + labelWidth}" y="${y + 2}" width="${(depth / 10) * barMax}" height="18" rx="4" fill="${PALETTE[i % PALETTE.length]}"/>${
+      textBlock([depth.toFixed(1)], PADDING + labelWidth + (depth / 10) * barMax + 8, y + 15, { size: 12, color: TEXT_SECONDARY })}`;
+  }).join('');
+  return svgDocument(width, top + units.length * 32 + PADDING, title, bars);
+}
+
+// --- Dispatch --------------------------------------------------------------
+
+const mindMapToTree = (node: MindMapNode): TreeNode => ({
+  label: node.label,
+  detail: node.subtitle || node.summary,
+  color: node.color,
+  children: (node.children || []).map(mindMapToTree),
+});
+
+const sectionToTree = (section: Section): TreeNode => ({
+  label: section.title,
+  detail: section.summary,
+  children: (section.children || []).map(sectionToTree),
+});
+
+const colorFor = (key: string, keys: string[]) => PALETTE[Math.max(0, keys.indexOf(key)) % PALETTE.length];
+
+/**
+ * Render a stored visualization as a standalone SVG document.
+ */
+export function renderVisualizationSvg(type: string, data: any, title: string): string {
+  switch (type) {
+    case 'mind-map':
+      return renderTree(title, mindMapToTree((data as MindMapData).root));
+
+    case 'structured-view':
+      return renderTree(title, {
+        label: title,
+        children: ((data.sections || []) as Section[]).map(sectionToTree),
+      });
+
+    case 'flowchart': {
+      const flow = data as FlowchartData;
+      const lanes = (flow.swimlanes || []).map((l) => l.id);
+      return renderGraph(
+        title,
+        flow.nodes.map((n) => ({
+          id: n.id,
+          label: n.label,
+          color: n.swimlane
+            ? flow.swimlanes?.find((l) => l.id === n.swimlane)?.color || colorFor(n.swimlane, lanes)
+            : undefined,
+          shape: n.type === 'decision' ? 'diamond' : n.type === 'start' || n.type === 'end' ? 'pill' : 'rect',
+        })),
+        flow.edges.map((e) => ({ ...e, dashed: e.type === 'dashed' })),
+      );
+    }
+
+    case 'knowledge-graph': {
+      const graph = data as KnowledgeGraphData;
+      const types = [...new Set(graph.nodes.map((n) => n.type))];
+      return renderGraph(
+        title,
+        graph.nodes.map((n) => ({ id: n.id, label: n.label, color: safeColor(n.color, colorFor(n.type, types)), lines: [n.type] })),
+        graph.edges.map((e) => ({ source: e.source, target: e.target, label: e.label || e.type })),
+      );
+    }
+
+    case 'argument-map': {
+      const map = data as ArgumentMapData;
+      const polarityColor: Record<string, string> = { support: '#10B981', attack: '#EF4444', neutral: '#64748B' };
+      return renderGraph(
+        title,
+        map.nodes.map((n) => ({ id: n.id, label: n.label, color: polarityColor[n.polarity], lines: [n.type] })),
+        map.edges.map((e) => ({ source: e.source, target: e.target, label: e.type })),
+      );
+    }
+
+    case 'entity-graph': {
+      const graph = data as EntityGraphData;
+      const types = [...new Set(graph.nodes.map((n) => n.type))];
+      return renderGraph(
+        title,
+        [...graph.nodes]
+          .sort((a, b) => a.sequenceIndex - b.sequenceIndex)
+          .map((n) => ({ id: n.id, label: n.label, color: colorFor(n.type, types), lines: [`${n.type} · depth ${n.depth}`] })),
+        graph.edges.map((e) => ({ source: e.source, target: e.target, label: e.label || e.type })),
+      );
+    }
+
+    case 'uml-class-diagram': {
+      const uml = data as UMLDiagramData;
+      const stereotype = (type: string) => (type === 'class' ? '' : `«${type}» `);
+      return renderGraph(
+        title,
+        uml.classes.map((c) => ({
+          id: c.id,
+          label: `${stereotype(c.type)}${c.name}`,
+          lines: [
+            ...(c.attributes || []).slice(0, 6).map((a) => `${a.name}${a.type ? `: ${a.type}` : ''}`),
+            ...(c.methods || []).slice(0, 6).map((m) => `${m.name}()${m.returnType ? `: ${m.returnType}` : ''}`),
+          ].map((line) => wrapText(line, NODE_WIDTH - 24, 1)[0] || ''),
+        })),
+        uml.relationships.map((r) => ({
+          source: r.source,
+          target: r.target,
+          label: r.label || r.type,
+          dashed: r.type === 'realization' || r.type === 'dependency',
+        })),
+      );
+    }
+
+    case 'timeline':
+      return renderTimeline(title, data as TimelineData);
+
+    case 'executive-dashboard':
+      return renderDashboard(title, data as DashboardData);
+
+    case 'terms-definitions':
+      return renderTerms(title, data as TermsDefinitionsData);
+
+    case 'depth-graph':
+      return renderDepthBars(title, data as DepthGraphData);
+
+    default:
+      throw new Error(`SVG export is not supported for ${type} visualizations`);
+  }
+}
@@ -0,0 +1,170 @@
+import type {
+  DashboardData,
+  DepthGraphData,
+  GanttData,
+  MindMapNode,
+  PriorityMatrixData,
+  RaciMatrixData,
+  Section,
+  TermsDefinitionsData,
+  TimelineData,
+  UMLActivityData,
+  UMLSequenceData,
+} from '../../../../shared/src/types.js';
+
+type Cell = string | number | boolean | undefined | null;
+
+const GRAPH_HEADER = ['record', 'id', 'label', 'type', 'source', 'target', 'detail'];
+
+interface GraphLike {
+  nodes?: Array<{ id: string; label?: string; type?: string; summary?: string; description?: string }>;
+  edges?: Array<{ id?: string; source: string; target: string; label?: string; type?: string }>;
+}
+
+const graphRows = (graph: GraphLike): Cell[][] => [
+  GRAPH_HEADER,
+  ...(graph.nodes || []).map((n) => ['node', n.id, n.label, n.type, '', '', n.summary || n.description]),
+  ...(graph.edges || []).map((e) => ['edge', e.id, e.label, e.type, e.source, e.target, '']),
+];
+
+/**
+ * Flatten a stored visualization into rows (first row is the header). Graphs share
+ * one layout with a `record` column distinguishing nodes from edges; hierarchies
+ * carry a `parent` column.
+ */
+export function toRows(type: string, data: any): Cell[][] {
+  switch (type) {
+    case 'mind-map': {
+      const rows: Cell[][] = [['id', 'parent', 'level', 'label', 'summary']];
+      const walk = (node: MindMapNode, parent: string, level: number) => {
+        rows.push([node.id, parent, level, node.label, node.summary]);
+        (node.children || []).forEach((child) => walk(child, node.id, level + 1));
+      };
+      walk(data.root, '', 0);
+      return rows;
+    }
+
+    case 'structured-view': {
+      const rows: Cell[][] = [['id', 'parent', 'level', 'title', 'summary']];
+      const walk = (section: Section, parent: string) => {
+        rows.push([section.id, parent, section.level, section.title, section.summary]);
+        (section.children || []).forEach((child) => walk(child, section.id));
+      };
+      ((data.sections || []) as Section[]).forEach((section) => walk(section, ''));
+      return rows;
+    }
+
+    case 'flowchart':
+    case 'knowledge-graph':
+    case 'argument-map':
+    case 'entity-graph':
+      return graphRows(data as GraphLike);
+
+    case 'uml-class-diagram':
+      return graphRows({
+        nodes: (data.classes || []).map((c: any) => ({ ...c, label: c.name })),
+        edges: data.relationships,
+      });
+
+    // One row per message, in time order
+    case 'uml-sequence': {
+      const names = new Map((data as UMLSequenceData).participants.map((p) => [p.id, p.name]));
+      return [
+        ['order', 'from', 'to', 'kind', 'label', 'fragment', 'quote'],
+        ...((data as UMLSequenceData).messages || []).map((m) => [
+          m.order, names.get(m.from), names.get(m.to), m.kind, m.label, m.fragmentId, m.sourceQuote,
+        ]),
+      ];
+    }
+
+    case 'uml-activity':
+      return graphRows({
+        nodes: ((data as UMLActivityData).nodes || []).map((n) => ({ ...n, type: n.kind })),
+        edges: ((data as UMLActivityData).flows || []).map((f) => ({ ...f, label: f.guard })),
+      });
+
+    case 'timeline':
+      return [
+        ['id', 'date', 'endDate', 'title', 'category', 'precision', 'dateText', 'description'],
+        ...((data as TimelineData).events || []).map((e) => [
+          e.id, e.date, e.endDate, e.title, e.category, e.precision, e.dateText, e.description,
+        ]),
+      ];
+
+    case 'executive-dashboard':
+      return [
+        ['id', 'label', 'value', 'unit', 'trend', 'trendValue', 'confidence'],
+        ...((data as DashboardData).kpiTiles || []).map((k) => [
+          k.id, k.label, k.value, k.unit, k.trend, k.trendValue, k.confidence,
+        ]),
+      ];
+
+    case 'terms-definitions':
+      return [
+        ['term', 'type', 'definition', 'confidence', 'mentions'],
+        ...((data as TermsDefinitionsData).terms || []).map((t) => [
+          t.term, t.type, t.definition, t.confidence, t.mentions,
+        ]),
+      ];
+
+    case 'depth-graph':
+      return [
+        ['id', 'topic', 'trueDepth', 'summary'],
+        ...((data as DepthGraphData).logical_units || []).map((u) => [
+          u.id, u.topic, u.true_depth, u.topic_summary,
+        ]),
+      ];
+
+    case 'gantt': {
+      const phaseNames = new Map((data as GanttData).phases.map((p) => [p.id, p.name]));
+      return [
+        ['id', 'name', 'phase', 'start', 'end', 'milestone', 'estimated', 'progress', 'owner', 'dependencies'],
+        ...((data as GanttData).tasks || []).map((t) => [
+          t.id, t.name, t.phaseId && phaseNames.get(t.phaseId), t.start, t.end,
+          t.milestone, t.estimated, t.progress, t.owner, t.dependencies.join(' '),
+        ]),
+      ];
+    }
+
+    // One row per activity and one column per role, cells holding the letters
+    case 'raci-matrix': {
+      const { roles, activities, assignments } = data as RaciMatrixData;
+      const cells = new Map(assignments.map((a) => [`${a.activityId}:${a.roleId}`, a.responsibilities.join('')]));
+      return [
+        ['activity', ...roles.map((r) => r.name)],
+        ...activities.map((activity) => [
+          activity.name,
+          ...roles.map((role) => cells.get(`${activity.id}:${role.id}`) || ''),
+        ]),
+      ];
+    }
+
+    case 'priority-matrix': {
+      const { xAxis, yAxis, items } = data as PriorityMatrixData;
+      return [
+        ['id', 'label', 'quadrant', xAxis.label.toLowerCase(), yAxis.label.toLowerCase(), 'rationale'],
+        ...items.map((i) => [i.id, i.label, i.quadrant, i.x, i.y, i.rationale]),
+      ];
+    }
+
+    default:
+      throw new Error(`CSV export is not supported for ${type} visualizations`);
+  }
+}
+
+/**
+ * RFC 4180 cell quoting. Text cells that a spreadsheet would evaluate as a formula
+ * are prefixed with a quote so exported LLM output cannot run as one.
+ */
+function csvCell(value: Cell): string {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && (/^[=+\-@\t\r]/).test(text)) {
+    text = `'${text}`;
+  }
+  return (/[",\r\n]/).test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Cell[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
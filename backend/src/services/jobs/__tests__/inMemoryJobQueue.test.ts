@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import { InMemoryJobQueue } from '../inMemoryJobQueue.js';
+
+const request = (lockKey = 'visualization-lock:doc-1:mind-map') => ({
+  type: 'visualization' as const,
+  lockKey,
+  ownerId: 'user-1',
+  documentId: 'doc-1',
+  payload: { value: 21 },
+});
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+};
+
+describe('InMemoryJobQueue', () => {
+  it('runs the handler and resolves waiters with the result', async () => {
+    const queue = new InMemoryJobQueue();
+    queue.registerHandler('visualization', async (payload: { value: number }) => payload.value * 2);
+
+    const job = await queue.submit(request());
+    const finished = await queue.waitFor(job.id);
+
+    expect(finished.status).toBe('succeeded');
+    expect(finished.result).toBe(42);
+    expect(finished.attempts).toBe(1);
+  });
+
+  it('joins duplicate submissions for the same lock key', async () => {
+    const queue = new InMemoryJobQueue();
+    const gate = deferred<string>();
+    const handler = vi.fn(() => gate.promise);
+    queue.registerHandler('visualization', handler);
+
+    const first = await queue.submit(request());
+    const second = await queue.submit(request());
+    const other = await queue.submit(request('visualization-lock:doc-1:flowchart'));
+
+    expect(second.id).toBe(first.id);
+    expect(other.id).not.toBe(first.id);
+
+    gate.resolve('done');
+    await queue.waitFor(first.id);
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    // Once finished, the same lock key starts a new job
+    const third = await queue.submit(request());
+    expect(third.id).not.toBe(first.id);
+  });
+
+  it('retries failures with exponential backoff', async () => {
+    vi.useFakeTimers();
+    try {
+      const queue = new InMemoryJobQueue({ maxAttempts: 3, retryDelayMs: 100 });
+      const handler = vi.fn()
+        .mockRejectedValueOnce(new Error('rate limited'))
+        .mockRejectedValueOnce(new Error('rate limited'))
+        .mockResolvedValueOnce('ok');
+      queue.registerHandler('visualization', handler);
+
+      const job = await queue.submit(request());
+      await vi.advanceTimersByTimeAsync(0);
+      expect((await queue.get(job.id))?.status).toBe('queued');
+      expect((await queue.get(job.id))?.error).toBe('rate limited');
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(handler).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(handler).toHaveBeenCalledTimes(2);
+
+      // Second retry waits twice as long
+      await vi.advanceTimersByTimeAsync(199);
+      expect(handler).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+
+      const finished = await queue.waitFor(job.id);
+      expect(finished.status).toBe('succeeded');
+      expect(finished.attempts).toBe(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('fails once the attempts are used up', async () => {
+    const queue = new InMemoryJobQueue({ maxAttempts: 2, retryDelayMs: 1 });
+    queue.registerHandler('visualization', async () => {
+      throw new Error('Invalid flowchart: no start node');
+    });
+
+    const finished = await queue.waitFor((await queue.submit(request())).id);
+
+    expect(finished.status).toBe('failed');
+    expect(finished.attempts).toBe(2);
+    expect(finished.error).toBe('Invalid flowchart: no start node');
+  });
+
+  it('cancels a running job and aborts its signal', async () => {
+    const queue = new InMemoryJobQueue();
+    const gate = deferred<string>();
+    let signal: AbortSignal | undefined;
+    queue.registerHandler('visualization', async (_payload, context) => {
+      signal = context.signal;
+      return gate.promise;
+    });
+
+    const job = await queue.submit(request());
+    const waiting = queue.waitFor(job.id);
+    await queue.cancel(job.id);
+    expect(signal?.aborted).toBe(true);
+
+    // A late result does not resurrect the job
+    gate.resolve('late');
+    expect((await waiting).status).toBe('cancelled');
+    expect((await queue.get(job.id))?.status).toBe('cancelled');
+  });
+
+  it('cancels a queued job right away', async () => {
+    const queue = new InMemoryJobQueue({ concurrency: 1 });
+    const gate = deferred<string>();
+    queue.registerHandler('visualization', () => gate.promise);
+
+    await queue.submit(request('a'));
+    const queued = await queue.submit(request('b'));
+
+    expect((await queue.cancel(queued.id))?.status).toBe('cancelled');
+    gate.resolve('done');
+  });
+
+  it('keeps the lock of a cancelled job until its handler stops', async () => {
+    const queue = new InMemoryJobQueue();
+    const gates = [deferred<string>(), deferred<string>()];
+    const handler = vi.fn((): Promise<string> => gates[handler.mock.calls.length - 1].promise);
+    queue.registerHandler('visualization', handler);
+
+    const first = await queue.submit(request());
+    await queue.cancel(first.id);
+    expect((await queue.get(first.id))?.status).toBe('running');
+
+    const second = await queue.submit(request());
+    expect(second.id).not.toBe(first.id);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    gates[0].resolve('first');
+    expect((await queue.waitFor(first.id)).status).toBe('cancelled');
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    gates[1].resolve('second');
+    expect((await queue.waitFor(second.id)).result).toBe('second');
+  });
+
+  it('limits how many jobs run at once', async () => {
+    const queue = new InMemoryJobQueue({ concurrency: 1 });
+    const gate = deferred<string>();
+    const handler = vi.fn(() => gate.promise);
+    queue.registerHandler('visualization', handler);
+
+    const first = await queue.submit(request('a'));
+    const second = await queue.submit(request('b'));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect((await queue.get(second.id))?.status).toBe('queued');
+
+    gate.resolve('done');
+    await queue.waitFor(first.id);
+    await queue.waitFor(second.id);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
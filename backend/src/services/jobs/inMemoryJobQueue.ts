@@ -0,0 +1,234 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { isFinishedJob } from './types.js';
+
+import type {
+  Job,
+  JobHandler,
+  JobQueue,
+  JobStatus,
+  JobType,
+  SubmitJobRequest,
+} from './types.js';
+
+export interface InMemoryJobQueueOptions {
+  // Jobs executing at once; the rest wait in FIFO order
+  concurrency?: number;
+  maxAttempts?: number;
+  // Delay before the first retry, doubled for each further attempt
+  retryDelayMs?: number;
+  // How long finished jobs remain queryable
+  retentionMs?: number;
+}
+
+/**
+ * Job queue that runs handlers inside this process. Work survives dropped HTTP
+ * connections but not a server restart.
+ */
+export class InMemoryJobQueue implements JobQueue {
+  private jobs = new Map<string, Job>();
+  private activeByLock = new Map<string, string>();
+  // Lock keys whose handler is executing; held until the handler settles, even once cancelled
+  private runningByLock = new Map<string, string>();
+  private handlers = new Map<JobType, JobHandler>();
+  private ready: string[] = [];
+  private controllers = new Map<string, AbortController>();
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private waiters = new Map<string, Array<(job: Job) => void>>();
+  private running = 0;
+
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly retentionMs: number;
+
+  constructor(options: InMemoryJobQueueOptions = {}) {
+    this.concurrency = options.concurrency ?? 2;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 2000;
+    this.retentionMs = options.retentionMs ?? 10 * 60 * 1000;
+  }
+
+  registerHandler<TPayload, TResult>(type: JobType, handler: JobHandler<TPayload, TResult>) {
+    this.handlers.set(type, handler);
+  }
+
+  async submit<TPayload>(request: SubmitJobRequest<TPayload>): Promise<Job<TPayload>> {
+    const activeId = this.activeByLock.get(request.lockKey);
+    const active = activeId ? this.jobs.get(activeId) : undefined;
+    // A cancelled job still winding down is not joined; the new job waits for its lock
+    if (active && !isFinishedJob(active) && !this.controllers.get(active.id)?.signal.aborted) {
+      console.log(`🔗 Joining ${active.type} job ${active.id} (${request.lockKey})`);
+      return { ...active } as Job<TPayload>;
+    }
+
+    const now = new Date().toISOString();
+    const job: Job<TPayload> = {
+      id: uuidv4(),
+      type: request.type,
+      lockKey: request.lockKey,
+      ownerId: request.ownerId,
+      documentId: request.documentId,
+      payload: request.payload,
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: request.maxAttempts ?? this.maxAttempts,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.set(job.id, job);
+    this.activeByLock.set(job.lockKey, job.id);
+    this.controllers.set(job.id, new AbortController());
+    this.ready.push(job.id);
+    console.log(`📥 Queued ${job.type} job ${job.id} (${job.lockKey})`);
+
+    this.drain();
+    return { ...job };
+  }
+
+  async get(jobId: string): Promise<Job | undefined> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : undefined;
+  }
+
+  async cancel(jobId: string): Promise<Job | undefined> {
+    const job = this.jobs.get(jobId);
+    if (!job) return undefined;
+
+    if (!isFinishedJob(job)) {
+      this.controllers.get(jobId)?.abort();
+      // A running handler keeps the lock until it settles; run() records the cancellation then
+      if (job.status !== 'running') {
+        this.finish(job, 'cancelled', { error: 'Job was cancelled' });
+      }
+      console.log(`🛑 Cancelled ${job.type} job ${job.id}`);
+    }
+    return { ...job };
+  }
+
+  async waitFor(jobId: string): Promise<Job> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+    if (isFinishedJob(job)) {
+      return { ...job };
+    }
+
+    return new Promise((resolve) => {
+      const waiting = this.waiters.get(jobId) || [];
+      waiting.push(resolve);
+      this.waiters.set(jobId, waiting);
+    });
+  }
+
+  private drain() {
+    let i = 0;
+    while (this.running < this.concurrency && i < this.ready.length) {
+      const job = this.jobs.get(this.ready[i]);
+      if (job && job.status === 'queued' && this.runningByLock.has(job.lockKey)) {
+        // Waits for a cancelled job with the same lock to stop
+        i++;
+        continue;
+      }
+
+      this.ready.splice(i, 1);
+      if (job && job.status === 'queued') {
+        void this.run(job);
+      }
+    }
+  }
+
+  private async run(job: Job) {
+    const handler = this.handlers.get(job.type);
+    const controller = this.controllers.get(job.id)!;
+    if (!handler) {
+      this.finish(job, 'failed', { error: `No handler registered for ${job.type} jobs` });
+      return;
+    }
+
+    this.running++;
+    this.runningByLock.set(job.lockKey, job.id);
+    job.status = 'running';
+    job.attempts++;
+    job.startedAt = job.startedAt || new Date().toISOString();
+    job.nextAttemptAt = undefined;
+    job.updatedAt = new Date().toISOString();
+
+    try {
+      const result = await handler(job.payload, {
+        jobId: job.id,
+        ownerId: job.ownerId,
+        documentId: job.documentId,
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts,
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) {
+        this.finish(job, 'cancelled', { error: 'Job was cancelled' });
+      } else {
+        this.finish(job, 'succeeded', { result, error: undefined });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.finish(job, 'cancelled', { error: 'Job was cancelled' });
+      } else {
+        this.handleFailure(job, error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      if (this.runningByLock.get(job.lockKey) === job.id) {
+        this.runningByLock.delete(job.lockKey);
+      }
+      this.running--;
+      this.drain();
+    }
+  }
+
+  private handleFailure(job: Job, message: string) {
+    if (job.attempts >= job.maxAttempts) {
+      console.error(`❌ ${job.type} job ${job.id} failed after ${job.attempts} attempts: ${message}`);
+      this.finish(job, 'failed', { error: message });
+      return;
+    }
+
+    const delay = this.retryDelayMs * 2 ** (job.attempts - 1);
+    console.warn(
+      `⚠️ ${job.type} job ${job.id} attempt ${job.attempts} failed, retrying in ${delay}ms: ${message}`,
+    );
+    job.status = 'queued';
+    job.error = message;
+    job.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+    job.updatedAt = new Date().toISOString();
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(job.id);
+      this.ready.push(job.id);
+      this.drain();
+    }, delay);
+    timer.unref?.();
+    this.retryTimers.set(job.id, timer);
+  }
+
+  private finish(job: Job, status: JobStatus, fields: Partial<Job>) {
+    Object.assign(job, fields);
+    job.status = status;
+    job.nextAttemptAt = undefined;
+    job.finishedAt = new Date().toISOString();
+    job.updatedAt = job.finishedAt;
+
+    if (this.activeByLock.get(job.lockKey) === job.id) {
+      this.activeByLock.delete(job.lockKey);
+    }
+    this.controllers.delete(job.id);
+    clearTimeout(this.retryTimers.get(job.id));
+    this.retryTimers.delete(job.id);
+
+    const waiting = this.waiters.get(job.id) || [];
+    this.waiters.delete(job.id);
+    waiting.forEach((resolve) => resolve({ ...job }));
+
+    const prune = setTimeout(() => this.jobs.delete(job.id), this.retentionMs);
+    prune.unref?.();
+  }
+}
@@ -0,0 +1,19 @@
+import { InMemoryJobQueue } from './inMemoryJobQueue.js';
+
+import type { JobQueue } from './types.js';
+
+// JOB_QUEUE_BACKEND selects the implementation; only the in-process queue ships today
+function createJobQueue(): JobQueue {
+  const backend = process.env.JOB_QUEUE_BACKEND || 'memory';
+  if (backend !== 'memory') {
+    throw new Error(`Unsupported JOB_QUEUE_BACKEND: ${backend}`);
+  }
+
+  return new InMemoryJobQueue({
+    concurrency: Number(process.env.JOB_CONCURRENCY) || undefined,
+    maxAttempts: Number(process.env.JOB_MAX_ATTEMPTS) || undefined,
+    retryDelayMs: Number(process.env.JOB_RETRY_DELAY_MS) || undefined,
+  });
+}
+
+export const jobQueue = createJobQueue();
@@ -0,0 +1,70 @@
+/**
+ * Job queue contract. Payloads and results must be JSON-serialisable so that a
+ * Redis or SQS backed queue can satisfy the same interface as the in-process one.
+ */
+
+export type JobType = 'analysis' | 'visualization';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job<TPayload = unknown, TResult = unknown> {
+  id: string;
+  type: JobType;
+  // Jobs sharing a lock key are the same unit of work; duplicates join the active job
+  lockKey: string;
+  ownerId: string;
+  documentId: string;
+  payload: TPayload;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  result?: TResult;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  nextAttemptAt?: string;
+}
+
+export interface SubmitJobRequest<TPayload = unknown> {
+  type: JobType;
+  lockKey: string;
+  ownerId: string;
+  documentId: string;
+  payload: TPayload;
+  maxAttempts?: number;
+}
+
+export interface JobContext {
+  jobId: string;
+  ownerId: string;
+  documentId: string;
+  attempt: number;
+  maxAttempts: number;
+  // Aborted when the job is cancelled; handlers should stop before side effects
+  signal: AbortSignal;
+}
+
+export type JobHandler<TPayload = any, TResult = any> = (
+  payload: TPayload,
+  context: JobContext,
+) => Promise<TResult>;
+
+export interface JobQueue {
+  registerHandler<TPayload, TResult>(type: JobType, handler: JobHandler<TPayload, TResult>): void;
+
+  /** Enqueue a job, or return the queued/running job with the same lock key */
+  submit<TPayload>(request: SubmitJobRequest<TPayload>): Promise<Job<TPayload>>;
+
+  get(jobId: string): Promise<Job | undefined>;
+
+  /** Cancel a queued or running job; finished jobs are returned unchanged */
+  cancel(jobId: string): Promise<Job | undefined>;
+
+  /** Resolve once the job has succeeded, failed or been cancelled */
+  waitFor(jobId: string): Promise<Job>;
+}
+
+export const isFinishedJob = (job: Job) =>
+  job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+
+import { canonicalName, entityKey, mergeKnowledgeGraphs } from '../graphMerger.js';
+
+import type { KnowledgeGraphSource } from '../graphMerger.js';
+import type { GraphEdge, GraphNode } from '../../../../../shared/src/types.js';
+
+const node = (id: string, label: string, type: GraphNode['type'] = 'concept'): GraphNode => ({
+  id,
+  label,
+  type,
+  size: 40,
+  color: '#000',
+  metadata: { centrality: 0.5, connections: 0 },
+});
+
+const edge = (
+  id: string,
+  source: string,
+  target: string,
+  evidence: GraphEdge['evidence'] = [],
+): GraphEdge => ({
+  id,
+  source,
+  target,
+  type: 'uses',
+  strength: 0.5,
+  evidence,
+});
+
+const sources = (): KnowledgeGraphSource[] => [
+  {
+    documentId: 'doc-1',
+    title: 'Annual report',
+    graph: {
+      nodes: [node('n1', 'AWS', 'organization'), node('n2', 'Data Centers')],
+      edges: [edge('e1', 'n1', 'n2', [{ start: 0, end: 10, text: 'AWS runs data centers' }])],
+      clusters: [],
+    },
+  },
+  {
+    documentId: 'doc-2',
+    title: 'Sustainability memo',
+    graph: {
+      nodes: [
+        node('a', 'aws', 'organization'),
+        node('b', 'the data center'),
+        node('c', 'Amazon Web Services', 'organization'),
+        node('d', 'AWS', 'product'),
+      ],
+      edges: [
+        edge('x', 'a', 'b', [{ start: 5, end: 20, text: 'AWS cools its data center' }]),
+        edge('y', 'c', 'b'),
+        edge('z', 'a', 'missing'),
+      ],
+      clusters: [],
+    },
+  },
+];
+
+describe('graphMerger', () => {
+  it('normalises names for matching', () => {
+    expect(canonicalName('The Data Centers')).toBe('data center');
+    expect(canonicalName('Policies')).toBe('policy');
+    expect(entityKey({ label: 'A.W.S', type: 'organization' })).toBe('organization:aws');
+  });
+
+  it('resolves entities by type and name and keeps per-document evidence', () => {
+    const graph = mergeKnowledgeGraphs(sources());
+
+    expect(graph.resolution).toBe('name');
+    expect(graph.nodes.map((n) => [n.label, n.type, n.documentIds])).toEqual([
+      ['AWS', 'organization', ['doc-1', 'doc-2']],
+      ['Data Centers', 'concept', ['doc-1', 'doc-2']],
+      ['Amazon Web Services', 'organization', ['doc-2']],
+      ['AWS', 'product', ['doc-2']],
+    ]);
+    expect(graph.nodes[0].aliases).toEqual(['aws']);
+
+    const merged = graph.edges.find((e) => e.source === graph.nodes[0].id)!;
+    expect(merged.documentIds).toEqual(['doc-1', 'doc-2']);
+    expect(merged.documentEvidence).toEqual([
+      { documentId: 'doc-1', evidence: [{ start: 0, end: 10, text: 'AWS runs data centers' }] },
+      { documentId: 'doc-2', evidence: [{ start: 5, end: 20, text: 'AWS cools its data center' }] },
+    ]);
+    // The dangling edge is dropped
+    expect(graph.edges).toHaveLength(2);
+    expect(graph.nodes[1].metadata.connections).toBe(2);
+    expect(graph.nodes[1].metadata.centrality).toBe(1);
+    expect(graph.documents).toEqual([
+      { documentId: 'doc-1', title: 'Annual report', nodeCount: 2, edgeCount: 1 },
+      { documentId: 'doc-2', title: 'Sustainability memo', nodeCount: 4, edgeCount: 3 },
+    ]);
+  });
+
+  it('merges entities of the same type whose embeddings are close', () => {
+    const embeddings = new Map([
+      ['organization:aws', [1, 0, 0]],
+      ['organization:amazon web service', [0.98, 0.05, 0]],
+      ['product:aws', [0.99, 0.01, 0]],
+      ['concept:data center', [0, 1, 0]],
+    ]);
+
+    const graph = mergeKnowledgeGraphs(sources(), { embeddings });
+
+    expect(graph.resolution).toBe('embedding');
+    const aws = graph.nodes.find((n) => n.label === 'AWS' && n.type === 'organization')!;
+    expect(aws.aliases).toEqual(['aws', 'Amazon Web Services']);
+    // Different types never merge
+    expect(graph.nodes.some((n) => n.type === 'product')).toBe(true);
+    // Both documents' relations now connect the same two entities
+    expect(graph.edges).toHaveLength(1);
+    expect(graph.edges[0].documentIds).toEqual(['doc-1', 'doc-2']);
+  });
+});
@@ -0,0 +1,259 @@
+import { normalizeLabel } from '../analysis/chunkMerger.js';
+
+import type {
+  GraphNode,
+  KnowledgeBaseDocument,
+  KnowledgeBaseEdge,
+  KnowledgeBaseGraph,
+  KnowledgeBaseNode,
+  KnowledgeGraphData,
+  TextSpan,
+} from '../../../../shared/src/types.js';
+
+export interface KnowledgeGraphSource {
+  documentId: string;
+  title: string;
+  graph: KnowledgeGraphData;
+}
+
+export interface MergeOptions {
+  /** Vector per entity key (see `entityKey`); enables matching beyond exact names */
+  embeddings?: Map<string, number[]>;
+  /** Cosine similarity at which two entities of the same type are merged */
+  similarityThreshold?: number;
+}
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.9;
+
+const LEADING_ARTICLE = /^(the|a|an) /;
+
+function singular(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Name used to match an entity across documents: "The Data Centers" and
+ * "data center" both become "data center"
+ */
+export function canonicalName(label: string): string {
+  return normalizeLabel(label)
+    .replace(LEADING_ARTICLE, '')
+    .split(' ')
+    .map(singular)
+    .join(' ');
+}
+
+/**
+ * Entities only match when both their type and canonical name agree
+ */
+export function entityKey(node: Pick<GraphNode, 'label' | 'type'>): string {
+  return `${node.type || 'concept'}:${canonicalName(node.label)}`;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+interface EntityGroup {
+  key: string;
+  type: GraphNode['type'];
+  mentions: Array<{ documentId: string; node: GraphNode }>;
+}
+
+/**
+ * Merge entity groups of the same type whose embeddings are close enough.
+ * Larger groups absorb smaller ones so the best-attested name wins.
+ */
+function mergeByEmbedding(
+  groups: EntityGroup[],
+  embeddings: Map<string, number[]>,
+  threshold: number,
+): EntityGroup[] {
+  const ordered = [...groups].sort((a, b) => b.mentions.length - a.mentions.length);
+  const kept: EntityGroup[] = [];
+
+  for (const group of ordered) {
+    const vector = embeddings.get(group.key);
+    const match = vector
+      ? kept.find((candidate) => {
+        const other = embeddings.get(candidate.key);
+        return candidate.type === group.type
+          && !!other
+          && cosineSimilarity(vector, other) >= threshold;
+      })
+      : undefined;
+
+    if (match) {
+      match.mentions.push(...group.mentions);
+    } else {
+      kept.push(group);
+    }
+  }
+
+  return kept;
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  let best = values[0];
+  for (const [value, count] of counts) {
+    if (count > (counts.get(best) || 0)) best = value;
+  }
+  return best;
+}
+
+const nodeIdFor = (key: string) => `kb:${key.replace(/\s+/g, '-')}`;
+
+/**
+ * Merge per-document knowledge graphs into one library-level graph.
+ *
+ * Entities are resolved on type plus canonical name, and additionally on
+ * embedding similarity when `options.embeddings` is given. Edges between the
+ * same pair of merged entities with the same relation are combined, keeping
+ * the evidence of every document they came from.
+ */
+export function mergeKnowledgeGraphs(
+  sources: KnowledgeGraphSource[],
+  options: MergeOptions = {},
+): Omit<KnowledgeBaseGraph, 'missingDocumentIds'> {
+  const groupsByKey = new Map<string, EntityGroup>();
+  for (const { documentId, graph } of sources) {
+    for (const node of graph.nodes || []) {
+      const key = entityKey(node);
+      let group = groupsByKey.get(key);
+      if (!group) {
+        group = { key, type: node.type || 'concept', mentions: [] };
+        groupsByKey.set(key, group);
+      }
+      group.mentions.push({ documentId, node });
+    }
+  }
+
+  const useEmbeddings = !!options.embeddings && options.embeddings.size > 0;
+  const groups = useEmbeddings
+    ? mergeByEmbedding(
+      Array.from(groupsByKey.values()),
+      options.embeddings!,
+      options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD,
+    )
+    : Array.from(groupsByKey.values());
+
+  // Per-document node id -> merged node id
+  const resolved = new Map<string, string>();
+  const documentOrder = new Map(sources.map((source, index) => [source.documentId, index]));
+
+  const nodes: KnowledgeBaseNode[] = groups.map((group) => {
+    const id = nodeIdFor(group.key);
+    for (const { documentId, node } of group.mentions) {
+      resolved.set(`${documentId}\u0000${node.id}`, id);
+    }
+
+    const labels = group.mentions.map(({ node }) => node.label);
+    const label = mostCommon(labels);
+    const first = group.mentions[0].node;
+    const documentIds = Array.from(new Set(group.mentions.map((m) => m.documentId)))
+      .sort((a, b) => documentOrder.get(a)! - documentOrder.get(b)!);
+
+    return {
+      id,
+      label,
+      type: group.type,
+      size: Math.max(...group.mentions.map(({ node }) => node.size || 0)),
+      color: first.color,
+      metadata: {
+        centrality: 0,
+        connections: 0,
+        description: group.mentions.find(({ node }) => node.metadata?.description)
+          ?.node.metadata.description,
+        sourceQuote: group.mentions.find(({ node }) => node.metadata?.sourceQuote)
+          ?.node.metadata.sourceQuote,
+      },
+      documentIds,
+      aliases: Array.from(new Set(labels)).filter((alias) => alias !== label),
+    };
+  });
+
+  const edgesByKey = new Map<string, KnowledgeBaseEdge>();
+  for (const { documentId, graph } of sources) {
+    for (const edge of graph.edges || []) {
+      const source = resolved.get(`${documentId}\u0000${edge.source}`);
+      const target = resolved.get(`${documentId}\u0000${edge.target}`);
+      // Drop dangling edges and edges collapsed into a self-loop by the merge
+      if (!source || !target || source === target) continue;
+
+      const key = `${source}|${target}|${edge.type}`;
+      const evidence = (edge.evidence || []) as Array<TextSpan | string>;
+      const existing = edgesByKey.get(key);
+      if (!existing) {
+        edgesByKey.set(key, {
+          id: '',
+          source,
+          target,
+          type: edge.type,
+          strength: edge.strength,
+          label: edge.label,
+          documentIds: [documentId],
+          documentEvidence: evidence.length > 0 ? [{ documentId, evidence: [...evidence] }] : [],
+        });
+        continue;
+      }
+
+      existing.strength = Math.max(existing.strength, edge.strength);
+      if (!existing.documentIds.includes(documentId)) {
+        existing.documentIds.push(documentId);
+      }
+      if (evidence.length > 0) {
+        const entry = existing.documentEvidence.find((e) => e.documentId === documentId);
+        if (entry) {
+          entry.evidence.push(...evidence);
+        } else {
+          existing.documentEvidence.push({ documentId, evidence: [...evidence] });
+        }
+      }
+    }
+  }
+
+  const edges = Array.from(edgesByKey.values()).map((edge, index) => ({
+    ...edge,
+    id: `kb-edge-${index + 1}`,
+  }));
+
+  // Connection counts and a degree-based centrality for the merged graph
+  const degree = new Map<string, number>();
+  for (const edge of edges) {
+    degree.set(edge.source, (degree.get(edge.source) || 0) + 1);
+    degree.set(edge.target, (degree.get(edge.target) || 0) + 1);
+  }
+  const maxDegree = Math.max(1, ...degree.values());
+  for (const node of nodes) {
+    node.metadata.connections = degree.get(node.id) || 0;
+    node.metadata.centrality = node.metadata.connections / maxDegree;
+  }
+
+  const documents: KnowledgeBaseDocument[] = sources.map(({ documentId, title, graph }) => ({
+    documentId,
+    title,
+    nodeCount: graph.nodes?.length || 0,
+    edgeCount: graph.edges?.length || 0,
+  }));
+
+  return {
+    nodes,
+    edges,
+    documents,
+    resolution: useEmbeddings ? 'embedding' : 'name',
+  };
+}
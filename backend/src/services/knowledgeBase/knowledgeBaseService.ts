@@ -0,0 +1,101 @@
+import * as documentRepository from '../../repositories/documentRepository.js';
+import { visualizationService } from '../../repositories/visualizationService.js';
+import { getOpenRouterClient, OpenRouterClient } from '../llm/openRouterClient.js';
+
+import { entityKey, mergeKnowledgeGraphs } from './graphMerger.js';
+
+import type { KnowledgeGraphSource } from './graphMerger.js';
+import type { KnowledgeBaseGraph } from '../../../../shared/src/types.js';
+
+/**
+ * Library-level knowledge graph: every knowledge graph a user has generated,
+ * merged into one
+ */
+export class KnowledgeBaseService {
+  private _llmClient: OpenRouterClient | null;
+
+  constructor(llmClient?: OpenRouterClient) {
+    this._llmClient = llmClient || null;
+  }
+
+  private get llmClient(): OpenRouterClient {
+    return this._llmClient || getOpenRouterClient();
+  }
+
+  /**
+   * Merge the knowledge graphs of a user's documents, optionally limited to
+   * `documentIds`. Documents the user does not own are ignored.
+   */
+  async buildGraph(userId: string, documentIds?: string[]): Promise<KnowledgeBaseGraph> {
+    const records = await documentRepository.findAllByUserId(userId);
+    const selected = documentIds
+      ? records.filter((record) => documentIds.includes(record.documentId))
+      : records;
+
+    const sources: KnowledgeGraphSource[] = [];
+    const missingDocumentIds: string[] = [];
+    for (const record of selected) {
+      const visualization = await visualizationService.findByDocumentIdAndType(
+        record.documentId,
+        'knowledge-graph',
+      );
+      if (visualization?.visualizationData?.nodes?.length) {
+        sources.push({
+          documentId: record.documentId,
+          title: record.filename,
+          graph: visualization.visualizationData,
+        });
+      } else {
+        missingDocumentIds.push(record.documentId);
+      }
+    }
+
+    const embeddings = await this.embedEntities(sources);
+    const graph = mergeKnowledgeGraphs(sources, { embeddings });
+
+    console.log(
+      `🧠 Knowledge base for ${userId}: ${graph.nodes.length} entities, ${graph.edges.length} relations from ${sources.length} document(s) (${graph.resolution} matching)`,
+    );
+
+    return { ...graph, missingDocumentIds };
+  }
+
+  /**
+   * One embedding per distinct entity, when an embedding model is configured.
+   * Failures fall back to name matching rather than failing the request.
+   */
+  private async embedEntities(
+    sources: KnowledgeGraphSource[],
+  ): Promise<Map<string, number[]> | undefined> {
+    if (sources.length < 2) {
+      return undefined;
+    }
+
+    const texts = new Map<string, string>();
+    for (const { graph } of sources) {
+      for (const node of graph.nodes) {
+        const key = entityKey(node);
+        if (!texts.has(key)) {
+          texts.set(key, `${node.label} (${node.type})`);
+        }
+      }
+    }
+
+    try {
+      const keys = Array.from(texts.keys());
+      const vectors = await this.llmClient.embed(keys.map((key) => texts.get(key)!));
+      if (!vectors) {
+        return undefined;
+      }
+      return new Map(keys.map((key, index) => [key, vectors[index]]));
+    } catch (error) {
+      console.warn(
+        '⚠️ Entity embedding failed, matching knowledge base entities by name only:',
+        error instanceof Error ? error.message : error,
+      );
+      return undefined;
+    }
+  }
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService();
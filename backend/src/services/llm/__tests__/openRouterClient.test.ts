@@ -291,7 +291,8 @@ describe('OpenRouterClient', () => {
     it('should use correct model for each task type', async () => {
       mockAxiosInstance.post.mockResolvedValue({
         data: {
-          choices: [{ message: { content: 'Response' } }],
+          // Valid for the executive summary schema as well as the free-text TLDR
+          choices: [{ message: { content: '{"headline":"H","keyIdeas":["Idea"],"callToAction":"Act"}' } }],
           usage: { total_tokens: 100 },
         },
       });
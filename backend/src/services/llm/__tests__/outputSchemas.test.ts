@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+
+import { createFakeLLMClient } from '../../../../../test/mocks/openRouterMock';
+import { trackLLMUsage } from '../llmUsage';
+import { formatSchemaErrors, outputSchemaFor, TASK_OUTPUT_SCHEMAS } from '../outputSchemas';
+import { renderPrompt } from '../promptRegistry';
+
+const userMessage = (content: string) => [{ role: 'user' as const, content }];
+
+describe('outputSchemas', () => {
+  it('fills defaults and normalizes list outputs', () => {
+    const summary = TASK_OUTPUT_SCHEMAS.executiveSummary!.parse({
+      headline: 'Growth',
+      keyIdeas: ['Revenue up'],
+      kpis: [{ label: 'Revenue', value: '2500000', unit: 'USD' }],
+      callToAction: 'Expand',
+    });
+    const recommendations = TASK_OUTPUT_SCHEMAS.vizRecommendation!.parse([
+      { type: 'mind-map', score: 0.9 },
+    ]);
+
+    expect(summary.kpis[0]).toMatchObject({ value: 2500000, confidence: 0.8 });
+    expect(summary.risks).toEqual([]);
+    expect(recommendations).toEqual({
+      recommendations: [{ type: 'mind-map', score: 0.9, rationale: '' }],
+    });
+    expect(TASK_OUTPUT_SCHEMAS.kpiExtraction!.parse({ kpis: [] })).toEqual([]);
+  });
+
+  it('reports every violation by path', () => {
+    const result = TASK_OUTPUT_SCHEMAS.signalAnalysis!.safeParse({
+      structural: 1.4,
+      process: 0.2,
+      quantitative: 'high',
+      technical: 0.1,
+      argumentative: 0.1,
+    });
+
+    expect(result.success).toBe(false);
+    expect(formatSchemaErrors(result.error!)).toEqual([
+      'structural: Number must be less than or equal to 1',
+      'quantitative: Expected number, received nan',
+      'temporal: Expected number, received nan',
+    ]);
+  });
+
+  it('picks the schema of a template rendered into the user message', () => {
+    const structure = outputSchemaFor(
+      'sectionSummary',
+      userMessage(renderPrompt('structureAnalysis', { title: 'Doc', content: 'Text' })),
+    );
+
+    expect(structure).not.toBe(TASK_OUTPUT_SCHEMAS.sectionSummary);
+    expect(outputSchemaFor('sectionSummary', userMessage('Some section'))).toBe(TASK_OUTPUT_SCHEMAS.sectionSummary);
+    expect(outputSchemaFor('tldr', userMessage('Some document'))).toBeUndefined();
+  });
+});
+
+describe('OpenRouterClient output validation', () => {
+  const invalidSignals = '{"structural": 0.8}';
+  const validSignals = JSON.stringify({
+    structural: 0.8, process: 0.3, quantitative: 0.9, technical: 0.2, argumentative: 0.4, temporal: 0.6,
+  });
+
+  it('sends invalid output back with the errors and records the repair', async () => {
+    const { client, provider } = createFakeLLMClient({ responses: { signalAnalysis: invalidSignals } });
+    const complete = provider.complete.bind(provider);
+    provider.complete = async (request) => {
+      const response = await complete(request);
+      // Valid once the model has been told what was wrong
+      return request.messages.length > 2 ? { ...response, content: validSignals } : response;
+    };
+
+    const { result, calls, validationFailures } = await trackLLMUsage(() =>
+      client.callWithFallback('signalAnalysis', 'Quarterly report'));
+
+    expect(JSON.parse(result.content)).toEqual(JSON.parse(validSignals));
+    expect(result.tokensUsed).toBe(calls[0].tokensUsed + calls[1].tokensUsed);
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1].messages[2]).toEqual({ role: 'assistant', content: invalidSignals });
+    expect(provider.requests[1].messages[3].content).toContain('- process: Expected number, received nan');
+    expect(validationFailures).toEqual([{
+      task: 'signalAnalysis',
+      model: provider.requests[0].model,
+      errors: expect.arrayContaining(['temporal: Expected number, received nan']),
+      repairAttempts: 1,
+      repaired: true,
+    }]);
+  });
+
+  it('gives up after the repair attempts and moves on to the fallback model', async () => {
+    const { client, provider } = createFakeLLMClient({ responses: { signalAnalysis: 'Mostly structural.' } });
+
+    const { result, validationFailures } = await trackLLMUsage(() =>
+      client.callWithFallback('signalAnalysis', 'Quarterly report', 1).catch((error: Error) => error));
+
+    expect(result).toBeInstanceOf(Error);
+    expect((result as Error).message).toContain('Invalid signalAnalysis output');
+    // The initial call and two repairs, for the primary and then the fallback model
+    expect(provider.requests).toHaveLength(6);
+    expect(validationFailures.map((failure) => failure.model)).toEqual([
+      provider.requests[0].model,
+      provider.requests[3].model,
+    ]);
+    expect(validationFailures[0]).toMatchObject({
+      errors: ['Response is not valid JSON'],
+      repairAttempts: 2,
+      repaired: false,
+    });
+  });
+
+  it('passes free-text tasks through untouched', async () => {
+    const { client, provider } = createFakeLLMClient({ responses: { tldr: 'Short summary.' } });
+
+    const response = await client.callWithFallback('tldr', 'Document');
+
+    expect(response.content).toBe('Short summary.');
+    expect(provider.requests).toHaveLength(1);
+  });
+});
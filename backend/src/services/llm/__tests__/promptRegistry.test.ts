@@ -0,0 +1,109 @@
+import fs from 'node:fs';
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import { createFakeLLMClient } from '../../../../../test/mocks/openRouterMock';
+import { trackLLMUsage } from '../llmUsage';
+import { comparePromptReports, evaluatePrompt } from '../promptEvaluation';
+import {
+  getPrompt,
+  loadPrompt,
+  PROMPT_NAMES,
+  promptVersionOf,
+  renderPrompt,
+  validatePrompts,
+} from '../promptRegistry';
+
+describe('promptRegistry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('loads every registered prompt with its front matter', () => {
+    const prompts = validatePrompts();
+
+    expect(prompts).toHaveLength(PROMPT_NAMES.length);
+    expect(getPrompt('executiveSummary')).toMatchObject({
+      version: '1.1.0',
+      output: 'json-object',
+      required: expect.arrayContaining(['headline', 'keyIdeas']),
+      variables: [],
+    });
+    expect(loadPrompt('tldr')).not.toContain('---');
+  });
+
+  it('renders template variables and rejects missing ones', () => {
+    const prompt = renderPrompt('structureAnalysis', { title: 'Q3 Plan', content: 'Ship it.' });
+
+    expect(prompt).toContain('Document Title: Q3 Plan\n\nContent:\nShip it.');
+    expect(() => renderPrompt('structureAnalysis', { title: 'Q3 Plan' })).toThrow('missing variables: content');
+    expect(() => loadPrompt('structureAnalysis')).toThrow('use renderPrompt');
+  });
+
+  it('identifies registered prompts by name and version, others by hash', () => {
+    expect(promptVersionOf(loadPrompt('qa'))).toBe('qa@1.0.0');
+    expect(promptVersionOf('You are a helpful assistant.')).toMatch(/^unregistered@[0-9a-f]{12}$/);
+  });
+
+  it('fails validation when a prompt file is missing', async () => {
+    const existsSync = fs.existsSync;
+    vi.spyOn(fs, 'existsSync').mockImplementation((file) =>
+      !String(file).endsWith('glossary.md') && existsSync(file));
+    // A fresh module, so nothing is served from the prompt cache
+    vi.resetModules();
+    const registry = await import('../promptRegistry');
+
+    expect(() => registry.validatePrompts()).toThrow(/Invalid prompts:\n- Prompt "glossary" not found/);
+    expect(() => registry.loadPrompt('glossary')).toThrow('not found');
+  });
+
+  it('records the prompts behind each call, user message templates included', async () => {
+    const { client } = createFakeLLMClient();
+
+    const { calls } = await trackLLMUsage(() => client.callWithFallback(
+      'sectionSummary',
+      renderPrompt('structureAnalysis', { title: 'Doc', content: 'Text' }),
+    ));
+
+    expect(calls[0].prompts).toEqual(['sectionSummary@1.0.0', 'structureAnalysis@1.0.0']);
+  });
+});
+
+describe('promptEvaluation', () => {
+  const fixtures = [
+    { name: 'report', input: 'Revenue grew 15% to $2.5M.' },
+    { name: 'process', input: 'First submit the form, then wait for approval.' },
+  ];
+
+  it('checks each fixture response against the declared output', async () => {
+    const { client } = createFakeLLMClient({
+      responses: { ganttGeneration: '{"phases": []}' },
+    });
+
+    const summary = await evaluatePrompt('executiveSummary', client, fixtures);
+    const gantt = await evaluatePrompt('ganttGeneration', client, fixtures);
+
+    expect(summary.prompt).toBe('executiveSummary@1.1.0');
+    expect(summary.results.map((result) => result.problems)).toEqual([[], []]);
+    expect(summary.results[0].inputTokens).toBeGreaterThan(0);
+    expect(gantt.results[0].repairAttempts).toBe(2);
+    expect(gantt.results[0].problems).toEqual([expect.stringContaining('tasks: Required')]);
+  });
+
+  it('compares a report with a baseline', async () => {
+    const { client } = createFakeLLMClient();
+    const current = await evaluatePrompt('executiveSummary', client, fixtures);
+    const baseline = {
+      ...current,
+      promptHash: '000000000000',
+      results: [{ ...current.results[0], inputTokens: current.results[0].inputTokens - 5, problems: ['Empty response'] }],
+    };
+
+    expect(comparePromptReports(baseline, current)).toEqual([
+      'Prompt executiveSummary@1.1.0 changed without a version bump',
+      `report: input tokens ${current.results[0].inputTokens - 5} -> ${current.results[0].inputTokens} (+5)`,
+      'report: now passes',
+      'process: new fixture',
+    ]);
+  });
+});
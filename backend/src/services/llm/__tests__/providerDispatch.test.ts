@@ -0,0 +1,69 @@
+import { describe, it, expect, afterEach } from 'vitest';
+
+import {
+  createFakeLLMClient,
+  FakeLLMProvider,
+  mockOpenRouterResponses,
+} from '../../../../../test/mocks/openRouterMock';
+import { MODEL_CONFIGS } from '../../../config/modelConfig';
+import { OpenRouterClient } from '../openRouterClient';
+
+describe('OpenRouterClient provider dispatch', () => {
+  const originalQa = { ...MODEL_CONFIGS.qa };
+
+  afterEach(() => {
+    MODEL_CONFIGS.qa = { ...originalQa };
+  });
+
+  it('runs a task offline against the fake provider', async () => {
+    const { client, provider } = createFakeLLMClient();
+
+    const response = await client.callWithFallback('executiveSummary', 'Quarterly report');
+
+    expect(client.parseJSONResponse<any>(response).headline).toBe(
+      'Strong Q4 Performance with 15% Revenue Growth',
+    );
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].task).toBe('executiveSummary');
+    expect(provider.requests[0].messages[0].role).toBe('system');
+  });
+
+  it('stitches responses the provider truncates', async () => {
+    const { client, provider } = createFakeLLMClient({ chunkSize: 64 });
+
+    const response = await client.callWithFallback('executiveSummary', 'Quarterly report');
+
+    expect(client.parseJSONResponse(response)).toMatchObject(
+      JSON.parse(mockOpenRouterResponses.executiveSummary.choices[0].message.content),
+    );
+    expect(provider.requests.length).toBeGreaterThan(1);
+  });
+
+  it('dispatches primary and fallback models to the providers configured for the task', async () => {
+    MODEL_CONFIGS.qa = {
+      ...originalQa,
+      provider: 'openai-compatible',
+      fallbackProvider: 'anthropic',
+    };
+    const local = new FakeLLMProvider({ name: 'openai-compatible' });
+    local.complete = async () => {
+      throw new Error('connection refused');
+    };
+    const anthropic = new FakeLLMProvider({
+      name: 'anthropic',
+      responses: { qa: '{"answer":"From the fallback"}' },
+    });
+    const openRouter = new FakeLLMProvider();
+    const client = new OpenRouterClient('fake-key', {
+      'openrouter': openRouter,
+      'openai-compatible': local,
+      'anthropic': anthropic,
+    });
+
+    const response = await client.callWithFallback('qa', 'What is the budget?');
+
+    expect(client.parseJSONResponse(response)).toEqual({ answer: 'From the fallback', citations: [] });
+    expect(anthropic.requests[0].model).toBe(originalQa.fallback);
+    expect(openRouter.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,145 @@
+import axios from 'axios';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { AnthropicProvider } from '../providers/anthropicProvider';
+import { OpenAICompatibleProvider } from '../providers/openAICompatibleProvider';
+import { OpenRouterProvider } from '../providers/openRouterProvider';
+
+vi.mock('axios');
+const mockedAxios = axios as any;
+
+describe('LLM providers', () => {
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    mockAxiosInstance = { post: vi.fn(), get: vi.fn() };
+    mockedAxios.create = vi.fn().mockReturnValue(mockAxiosInstance);
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    it('posts chat completions to the configured base URL', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          choices: [{ message: { content: 'Local answer' }, finish_reason: 'length' }],
+          usage: { total_tokens: 42 },
+        },
+      });
+
+      const provider = new OpenAICompatibleProvider({ baseURL: 'http://localhost:11434/v1' });
+      const response = await provider.complete({
+        model: 'llama3.1:8b',
+        messages: [{ role: 'user', content: 'Hi' }],
+        maxTokens: 256,
+        temperature: 0.1,
+      });
+
+      expect(mockedAxios.create).toHaveBeenCalledWith(
+        expect.objectContaining({ baseURL: 'http://localhost:11434/v1' }),
+      );
+      expect(mockedAxios.create.mock.calls[0][0].headers.Authorization).toBeUndefined();
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/chat/completions',
+        expect.objectContaining({ model: 'llama3.1:8b', max_tokens: 256 }),
+        expect.any(Object),
+      );
+      expect(response).toEqual({
+        content: 'Local answer',
+        finishReason: 'length',
+        tokensUsed: 42,
+        model: 'llama3.1:8b',
+      });
+      expect(await provider.getModelLimits('llama3.1:8b')).toBeUndefined();
+    });
+
+    it('returns embeddings in input order', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          data: [
+            { index: 1, embedding: [0, 1] },
+            { index: 0, embedding: [1, 0] },
+          ],
+          usage: { total_tokens: 6 },
+        },
+      });
+
+      const provider = new OpenAICompatibleProvider({ baseURL: 'http://localhost:11434/v1' });
+      const response = await provider.embed('nomic-embed-text', ['first', 'second']);
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/embeddings', {
+        model: 'nomic-embed-text',
+        input: ['first', 'second'],
+      });
+      expect(response).toEqual({ embeddings: [[1, 0], [0, 1]], tokensUsed: 6 });
+    });
+  });
+
+  describe('OpenRouterProvider', () => {
+    it('reads model limits from /models once', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: {
+          data: [{ id: 'a/model', context_length: 32000, top_provider: { max_completion_tokens: 8000 } }],
+        },
+      });
+
+      const provider = new OpenRouterProvider({
+        apiKey: 'key',
+        baseURL: 'https://openrouter.ai/api/v1',
+        appUrl: 'http://localhost:7002',
+      });
+
+      expect(await provider.getModelLimits('a/model')).toEqual({
+        contextLength: 32000,
+        maxCompletionTokens: 8000,
+      });
+      expect(await provider.getModelLimits('unknown')).toBeUndefined();
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.create.mock.calls[0][0].headers).toMatchObject({
+        'Authorization': 'Bearer key',
+        'X-Title': 'Vaisu',
+      });
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    it('moves system messages to the system field and maps max_tokens to length', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          content: [{ type: 'text', text: '{"a":' }, { type: 'text', text: ' 1' }],
+          stop_reason: 'max_tokens',
+          usage: { input_tokens: 30, output_tokens: 12 },
+        },
+      });
+
+      const provider = new AnthropicProvider({ apiKey: 'sk-ant', baseURL: 'https://api.anthropic.com/v1' });
+      const response = await provider.complete({
+        model: 'claude-model',
+        messages: [
+          { role: 'system', content: 'Return JSON.' },
+          { role: 'user', content: 'Extract' },
+        ],
+        maxTokens: 1024,
+        temperature: 0.1,
+      });
+
+      expect(mockedAxios.create.mock.calls[0][0].headers).toMatchObject({
+        'x-api-key': 'sk-ant',
+        'anthropic-version': '2023-06-01',
+      });
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/messages', {
+        model: 'claude-model',
+        max_tokens: 1024,
+        temperature: 0.1,
+        system: 'Return JSON.',
+        messages: [{ role: 'user', content: 'Extract' }],
+      });
+      expect(response).toEqual({
+        content: '{"a": 1',
+        finishReason: 'length',
+        tokensUsed: 42,
+        promptTokens: 30,
+        completionTokens: 12,
+        model: 'claude-model',
+      });
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { createFakeLLMClient } from '../../../../../test/mocks/openRouterMock';
+import { llmUsageRepository } from '../../../repositories/llmUsageRepository';
+import { usageLimitsRepository } from '../../../repositories/usageLimitsRepository';
+import { getUsageSummary, withUsageContext } from '../usageMeter';
+
+vi.mock('../../../config/modelConfig', async (importOriginal) => ({
+  ...(await importOriginal<any>()),
+  LLM_MONTHLY_BUDGET_USD: 1,
+}));
+
+vi.mock('../../../repositories/llmUsageRepository', () => ({
+  llmUsageRepository: {
+    record: vi.fn(),
+    getByPeriod: vi.fn(),
+  },
+}));
+
+vi.mock('../../../repositories/usageLimitsRepository', () => ({
+  usageLimitsRepository: {
+    getCurrentUsage: vi.fn(),
+    incrementLLMUsage: vi.fn(),
+  },
+}));
+
+// A fake client whose provider reports a token split and publishes prices
+function pricedClient(chunkSize?: number) {
+  const { client, provider } = createFakeLLMClient({ chunkSize });
+  const complete = provider.complete.bind(provider);
+  provider.complete = async (request) => ({
+    ...(await complete(request)),
+    promptTokens: 1000,
+    completionTokens: 500,
+  });
+  (provider as any).getModelPricing = async () => ({ prompt: 0.000001, completion: 0.000002 });
+  return { client, provider };
+}
+
+describe('usageMeter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(usageLimitsRepository.getCurrentUsage).mockResolvedValue({ llmCost: 0.25 } as any);
+  });
+
+  it('meters every provider request of a call against the user and document', async () => {
+    const { client, provider } = pricedClient(64);
+
+    await withUsageContext({ userId: 'user-1', documentId: 'doc-1' }, () =>
+      client.callWithFallback('executiveSummary', 'Quarterly report'));
+
+    expect(provider.requests.length).toBeGreaterThan(1);
+    expect(llmUsageRepository.record).toHaveBeenCalledTimes(provider.requests.length);
+    expect(vi.mocked(llmUsageRepository.record).mock.calls[0][0]).toMatchObject({
+      userId: 'user-1',
+      documentId: 'doc-1',
+      task: 'executiveSummary',
+      provider: 'openrouter',
+      promptTokens: 1000,
+      completionTokens: 500,
+    });
+    expect(vi.mocked(llmUsageRepository.record).mock.calls[0][0].cost).toBeCloseTo(0.002);
+    expect(usageLimitsRepository.incrementLLMUsage).toHaveBeenCalledWith('user-1', 1500, expect.closeTo(0.002));
+  });
+
+  it('does not meter calls made outside a usage context', async () => {
+    const { client } = pricedClient();
+
+    await client.callWithFallback('executiveSummary', 'Quarterly report');
+
+    expect(llmUsageRepository.record).not.toHaveBeenCalled();
+    expect(usageLimitsRepository.getCurrentUsage).not.toHaveBeenCalled();
+  });
+
+  it('refuses calls once the monthly budget is spent, before reaching the provider', async () => {
+    vi.mocked(usageLimitsRepository.getCurrentUsage).mockResolvedValue({ llmCost: 1.2 } as any);
+    const { client, provider } = pricedClient();
+
+    await expect(
+      withUsageContext({ userId: 'user-1' }, () =>
+        client.callWithFallback('executiveSummary', 'Quarterly report')),
+    ).rejects.toThrow('Monthly LLM budget exceeded: $1.20 of $1.00 used');
+    expect(provider.requests).toHaveLength(0);
+    expect(llmUsageRepository.record).not.toHaveBeenCalled();
+  });
+
+  it('totals a month of calls per document, task and model', async () => {
+    const call = (overrides: object) => ({
+      callId: 'c',
+      userId: 'user-1',
+      model: 'openai/gpt-4o',
+      provider: 'openrouter',
+      promptTokens: 100,
+      completionTokens: 50,
+      cost: 0.01,
+      timestamp: '2026-10-02T10:00:00.000Z',
+      ...overrides,
+    });
+    vi.mocked(llmUsageRepository.getByPeriod).mockResolvedValue([
+      call({ callId: 'c3', documentId: 'doc-2', task: 'qa', cost: 0.05 }),
+      call({ callId: 'c2', documentId: 'doc-1', task: 'executiveSummary' }),
+      call({ callId: 'c1', documentId: 'doc-1', model: 'text-embedding-3-small', cost: 0 }),
+    ] as any);
+
+    const summary = await getUsageSummary('user-1', '2026-10');
+
+    expect(llmUsageRepository.getByPeriod).toHaveBeenCalledWith('user-1', '2026-10');
+    expect(summary.totals).toEqual({ calls: 3, promptTokens: 300, completionTokens: 150, cost: 0.060000000000000005 });
+    expect(summary.byDocument.map(({ documentId, calls }) => [documentId, calls])).toEqual([
+      ['doc-2', 1],
+      ['doc-1', 2],
+    ]);
+    expect(summary.byTask.map(({ task }) => task)).toEqual(['qa', 'executiveSummary', 'embedding']);
+    expect(summary.byModel.map(({ model }) => model)).toEqual(['openai/gpt-4o', 'text-embedding-3-small']);
+    expect(summary.budget).toMatchObject({ limit: 1, spent: 0.25, remaining: 0.75 });
+    expect(summary.recentCalls.map(({ callId }) => callId)).toEqual(['c3', 'c2', 'c1']);
+
+    const forDocument = await getUsageSummary('user-1', '2026-10', 'doc-1');
+    expect(forDocument.totals.calls).toBe(2);
+  });
+});
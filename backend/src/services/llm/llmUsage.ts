@@ -0,0 +1,53 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import type { LLMValidationFailure, TaskType } from '../../../../shared/src/types.js';
+
+export interface LLMCallRecord {
+  task?: TaskType;
+  model: string;
+  tokensUsed: number;
+  /** Registry ids (`name@version`) of the prompts the call was made with, system prompt first */
+  prompts?: string[];
+}
+
+interface LLMUsage {
+  calls: LLMCallRecord[];
+  validationFailures: LLMValidationFailure[];
+}
+
+const tracker = new AsyncLocalStorage<LLMUsage>();
+
+/**
+ * The distinct prompt ids behind a set of calls, as stored in `llmMetadata.promptVersion`
+ */
+export function promptVersionsOf(calls: LLMCallRecord[]): string | undefined {
+  const prompts = new Set(calls.flatMap((call) => call.prompts ?? []));
+  return prompts.size > 0 ? [...prompts].join(', ') : undefined;
+}
+
+/**
+ * Record a completed LLM call against the surrounding `trackLLMUsage` scope, if any
+ */
+export function recordLLMCall(call: LLMCallRecord): void {
+  tracker.getStore()?.calls.push(call);
+}
+
+/**
+ * Record output that failed its schema, repaired or not, against the surrounding
+ * `trackLLMUsage` scope, if any
+ */
+export function recordValidationFailure(failure: LLMValidationFailure): void {
+  tracker.getStore()?.validationFailures.push(failure);
+}
+
+/**
+ * Run `fn` and collect every LLM call made while it runs, including calls
+ * from nested async work, along with any output that failed validation
+ */
+export async function trackLLMUsage<T>(
+  fn: () => Promise<T>,
+): Promise<{ result: T } & LLMUsage> {
+  const usage: LLMUsage = { calls: [], validationFailures: [] };
+  const result = await tracker.run(usage, fn);
+  return { result, ...usage };
+}
@@ -1,56 +1,62 @@
 import fs from 'node:fs';
 import path from 'node:path';
 
-import axios, { AxiosInstance } from 'axios';
-
-import { env } from '../../config/env.js';
-import { getModelForTask } from '../../config/modelConfig.js';
-
-import type { LLMCallConfig, LLMResponse, TaskType } from '../../../../shared/src/types.js';
-
+import { EMBEDDING_MODEL, getModelForTask, LLM_PROVIDER } from '../../config/modelConfig.js';
+
+import { recordLLMCall, recordValidationFailure } from './llmUsage.js';
+import { formatSchemaErrors, outputSchemaFor } from './outputSchemas.js';
+import { identifyPrompt, promptId, promptVersionOf } from './promptRegistry.js';
+import { createLLMProvider } from './providers/index.js';
+import { assertWithinBudget, isBudgetExceeded, meterLLMCall } from './usageMeter.js';
+
+import type { LLMProvider } from './providers/index.js';
+import type {
+  LLMCallConfig,
+  LLMProviderName,
+  LLMResponse,
+  TaskType,
+} from '../../../../shared/src/types.js';
+import type { z } from 'zod';
+
+// Inputs per embeddings request
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Times invalid output is sent back to the model before the call fails
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Entry point for every LLM call. Handles token budgeting, continuation of
+ * truncated responses, output validation, model fallback, and usage metering
+ * and budget caps (see usageMeter.ts), and dispatches
+ * each request to the provider named by the call config (OpenRouter unless
+ * configured otherwise).
+ */
 export class OpenRouterClient {
-  private client: AxiosInstance;
-  private appUrl: string;
-  private modelsMetadata: Map<string, any> = new Map();
-  private metadataPromise: Promise<void> | null = null;
-
-  constructor(apiKey?: string) {
-    const token = apiKey || env.OPENROUTER_API_KEY;
-    this.appUrl = env.APP_URL;
-
-    this.client = axios.create({
-      baseURL: env.OPENROUTER_BASE_URL,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'HTTP-Referer': this.appUrl,
-        'X-Title': 'Vaisu',
-        'Content-Type': 'application/json',
-      },
-    });
-  }
+  private providers = new Map<LLMProviderName, LLMProvider>();
 
-  private async ensureMetadata(): Promise<void> {
-    if (this.modelsMetadata.size > 0) return;
-    if (this.metadataPromise) return this.metadataPromise;
-
-    this.metadataPromise = (async () => {
-      try {
-        console.log('Fetching OpenRouter model metadata...');
-        const response = await this.client.get('/models');
-        const models = response.data?.data || [];
-        for (const model of models) {
-          this.modelsMetadata.set(model.id, model);
-        }
-        console.log(`✓ Loaded metadata for ${this.modelsMetadata.size} models`);
-      } catch (error: any) {
-        console.warn('Failed to fetch OpenRouter model metadata:', error.message);
-        // Don't throw, we'll fall back to hardcoded defaults
-      } finally {
-        this.metadataPromise = null;
-      }
-    })();
+  /**
+   * @param apiKey - OpenRouter key, defaults to OPENROUTER_API_KEY
+   * @param providers - Provider instances to use instead of the configured ones
+   */
+  constructor(
+    private apiKey?: string,
+    providers: Partial<Record<LLMProviderName, LLMProvider>> = {},
+  ) {
+    for (const [name, provider] of Object.entries(providers)) {
+      this.providers.set(name as LLMProviderName, provider);
+    }
+    if (!this.providers.has('openrouter')) {
+      this.providers.set('openrouter', createLLMProvider('openrouter', apiKey));
+    }
+  }
 
-    return this.metadataPromise;
+  private getProvider(name: LLMProviderName = LLM_PROVIDER): LLMProvider {
+    let provider = this.providers.get(name);
+    if (!provider) {
+      provider = createLLMProvider(name, this.apiKey);
+      this.providers.set(name, provider);
+    }
+    return provider;
   }
 
   /**
@@ -58,7 +64,7 @@ export class OpenRouterClient {
    * Standard thumb rule: 1 token ~= 4 characters for English.
    * Using 3.5 for a more conservative (higher) estimate to avoid overflow.
    */
-  private estimateTokenCount(text: string): number {
+  estimateTokenCount(text: string): number {
     return Math.ceil(text.length / 3.5);
   }
 
@@ -76,13 +82,99 @@ export class OpenRouterClient {
     return `${start}\n\n[...MIDDLE SECTION COMPRESSED FOR LENGTH...]\n\n${end}`;
   }
 
-  async call(
+  /**
+   * Run a call and, when its task has an output schema (see outputSchemas.ts),
+   * validate the output. Invalid output is sent back to the model with the
+   * validation errors up to MAX_REPAIR_ATTEMPTS times; output that is still
+   * invalid throws, so callWithFallback moves on to the fallback model. Valid
+   * output is returned as normalized JSON, schema defaults filled in.
+   *
+   * Calls for a user who has used up their monthly budget are refused before
+   * anything is sent.
+   */
+  async call(config: LLMCallConfig): Promise<LLMResponse> {
+    await assertWithinBudget();
+
+    let response = await this.complete(config);
+    const schema = config.task ? outputSchemaFor(config.task, config.messages) : undefined;
+    if (!config.task || !schema) {
+      return response;
+    }
+
+    let messages = config.messages;
+    let tokensUsed = response.tokensUsed;
+    let lastErrors: string[] = [];
+    for (let attempt = 0; ; attempt++) {
+      const result = this.validateOutput(response, schema);
+      if (result.success) {
+        if (attempt > 0) {
+          recordValidationFailure({
+            task: config.task,
+            model: config.model,
+            errors: lastErrors,
+            repairAttempts: attempt,
+            repaired: true,
+          });
+        }
+        return { content: JSON.stringify(result.data), tokensUsed, model: config.model };
+      }
+
+      lastErrors = result.errors;
+      if (attempt === MAX_REPAIR_ATTEMPTS) {
+        recordValidationFailure({
+          task: config.task,
+          model: config.model,
+          errors: lastErrors,
+          repairAttempts: attempt,
+          repaired: false,
+        });
+        throw new Error(`Invalid ${config.task} output from ${config.model}: ${lastErrors.join('; ')}`);
+      }
+
+      console.warn(
+        `Invalid ${config.task} output from ${config.model}, requesting repair `
+        + `${attempt + 1}/${MAX_REPAIR_ATTEMPTS}: ${lastErrors.join('; ')}`,
+      );
+      messages = [
+        ...messages,
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content:
+            'Your previous response did not match the required format:\n'
+            + `${lastErrors.map((error) => `- ${error}`).join('\n')}\n`
+            + 'Return the complete corrected JSON only, in the format the instructions describe.',
+        },
+      ];
+      response = await this.complete({ ...config, messages });
+      tokensUsed += response.tokensUsed;
+    }
+  }
+
+  private validateOutput(
+    response: LLMResponse,
+    schema: z.ZodTypeAny,
+  ): { success: true; data: unknown } | { success: false; errors: string[] } {
+    let parsed: unknown;
+    try {
+      parsed = this.parseJSONResponse<unknown>(response);
+    } catch {
+      return { success: false, errors: ['Response is not valid JSON'] };
+    }
+    const result = schema.safeParse(parsed);
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, errors: formatSchemaErrors(result.error) };
+  }
+
+  private async complete(
     config: LLMCallConfig,
     continuationCount = 0,
   ): Promise<LLMResponse> {
+    const provider = this.getProvider(config.provider);
+
     try {
-      await this.ensureMetadata();
-      const modelMeta = this.modelsMetadata.get(config.model);
+      const limits = await provider.getModelLimits(config.model);
 
       // Estimate input tokens
       const estimatedInputTokens = this.estimateTokenCount(
@@ -92,14 +184,14 @@ export class OpenRouterClient {
       // Smart max_tokens logic
       let currentMaxTokens = config.maxTokens;
 
-      if (modelMeta && modelMeta.context_length) {
-        const totalCapacity = modelMeta.context_length;
+      if (limits?.contextLength) {
+        const totalCapacity = limits.contextLength;
         const safetyBuffer = 1000;
         const availableForOutput
           = totalCapacity - estimatedInputTokens - safetyBuffer;
 
         if (currentMaxTokens === undefined) {
-          const providerMax = modelMeta.top_provider?.max_completion_tokens;
+          const providerMax = limits.maxCompletionTokens;
           if (typeof providerMax === 'number' && providerMax > 0) {
             currentMaxTokens = Math.min(providerMax, availableForOutput);
           } else {
@@ -114,7 +206,7 @@ export class OpenRouterClient {
 
       if (continuationCount === 0) {
         console.log(
-          `Calling OpenRouter with model: ${config.model}, `
+          `Calling ${provider.name} with model: ${config.model}, `
           + `input_est: ${estimatedInputTokens}, max_tokens: ${currentMaxTokens}, `
           + `total_est: ${estimatedInputTokens + currentMaxTokens}`,
         );
@@ -125,46 +217,18 @@ export class OpenRouterClient {
         );
       }
 
-      const requestBody = {
+      const response = await provider.complete({
         model: config.model,
         messages: config.messages,
-        max_tokens: currentMaxTokens,
+        maxTokens: currentMaxTokens,
         temperature: config.temperature,
-      };
-
-      // Debug: Log request
-      console.log(`[API_REQ] ${JSON.stringify(requestBody, (key, value) => {
-        if (typeof value === 'string' && value.length > 200) {
-          return `${value.substring(0, 100)}...[TRUNCATED]...${value.substring(value.length - 100)}`;
-        }
-        return value;
-      })}`);
-
-      const response = await this.client.post(
-        '/chat/completions',
-        requestBody,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        },
-      );
-
-      const choice = response.data.choices[0];
-      const usage = response.data.usage;
-      const finishReason = choice.finish_reason;
-      const content = choice.message.content || '';
-
-      // Debug: Log response
-      console.log(`[API_RES] ${JSON.stringify(response.data, (key, value) => {
-        if (typeof value === 'string' && value.length > 200) {
-          return `${value.substring(0, 100)}...[TRUNCATED]...${value.substring(value.length - 100)}`;
-        }
-        return value;
-      })}`);
+        task: config.task,
+      });
+      const { content, finishReason, tokensUsed } = response;
+      await meterLLMCall(provider, config.task, response);
 
       console.log(
-        `✓ Success (${config.model}), tokens: ${usage.total_tokens}, `
+        `✓ Success (${config.model}), tokens: ${tokensUsed}, `
         + `finish_reason: ${finishReason}, content_len: ${content.length}`,
       );
 
@@ -193,7 +257,7 @@ export class OpenRouterClient {
           } as const,
         ];
 
-        const nextTurn = await this.call(
+        const nextTurn = await this.complete(
           {
             ...config,
             messages: updatedMessages,
@@ -205,29 +269,51 @@ export class OpenRouterClient {
 
         if (continuationCount === 0) {
           console.log(`✓ Fully assembled response for ${config.model}, total_len: ${stitchedContent.length}`);
+          this.recordCall(config, tokensUsed + nextTurn.tokensUsed);
         }
 
         return {
           content: stitchedContent,
-          tokensUsed: usage.total_tokens + nextTurn.tokensUsed,
+          tokensUsed: tokensUsed + nextTurn.tokensUsed,
           model: config.model,
         };
       }
 
+      if (continuationCount === 0) {
+        this.recordCall(config, tokensUsed);
+      }
+
       return {
         content,
-        tokensUsed: usage.total_tokens,
+        tokensUsed,
         model: config.model,
       };
     } catch (error: any) {
       console.error(
-        'OpenRouter API error:',
+        `${provider.name} API error:`,
         error.response?.data || error.message,
       );
       throw new Error(`LLM call failed: ${error.message}`);
     }
   }
 
+  private recordCall(config: LLMCallConfig, tokensUsed: number): void {
+    const systemPrompt = config.messages.find((m) => m.role === 'system')?.content;
+    // Templates rendered into the user message (e.g. structureAnalysis) are versioned too
+    const userPrompt = config.messages.find((m) => m.role === 'user')?.content;
+    const userTemplate = userPrompt ? identifyPrompt(userPrompt) : undefined;
+    const prompts = [
+      ...(systemPrompt ? [promptVersionOf(systemPrompt)] : []),
+      ...(userTemplate ? [promptId(userTemplate)] : []),
+    ];
+    recordLLMCall({
+      task: config.task,
+      model: config.model,
+      tokensUsed,
+      prompts: prompts.length > 0 ? [...new Set(prompts)] : undefined,
+    });
+  }
+
   /**
    * Stitches two strings together, removing any overlapping prefix from the second string.
    * This is crucial if the LLM repeats some of its previous context when continuing.
@@ -280,6 +366,8 @@ export class OpenRouterClient {
       // Try primary model
       return await this.call({
         model: modelConfig.primary,
+        provider: modelConfig.provider,
+        task,
         messages: [
           { role: 'system', content: modelConfig.systemPrompt },
           { role: 'user', content: prompt },
@@ -288,6 +376,10 @@ export class OpenRouterClient {
         temperature: modelConfig.temperature,
       });
     } catch (error) {
+      // Over budget: the fallback model would be refused too
+      if (isBudgetExceeded(error)) {
+        throw error;
+      }
       if (retries > 0) {
         console.warn(`Primary model failed for ${task}, trying fallback: ${modelConfig.fallback}`);
 
@@ -295,6 +387,8 @@ export class OpenRouterClient {
           // Try fallback model
           return await this.call({
             model: modelConfig.fallback,
+            provider: modelConfig.fallbackProvider || modelConfig.provider,
+            task,
             messages: [
               { role: 'system', content: modelConfig.systemPrompt },
               { role: 'user', content: prompt },
@@ -303,7 +397,7 @@ export class OpenRouterClient {
             temperature: modelConfig.temperature,
           });
         } catch (fallbackError) {
-          if (retries > 1) {
+          if (retries > 1 && !isBudgetExceeded(fallbackError)) {
             // Retry once more
             return this.callWithFallback(task, prompt, retries - 1);
           }
@@ -314,6 +408,34 @@ export class OpenRouterClient {
     }
   }
 
+  /**
+   * Embed `inputs` with EMBEDDING_MODEL. Returns null when no embedding model
+   * is configured or the provider has no embeddings API, so callers can fall
+   * back to text matching.
+   */
+  async embed(inputs: string[]): Promise<number[][] | null> {
+    const provider = this.getProvider();
+    if (!EMBEDDING_MODEL || !provider.embed) {
+      return null;
+    }
+    if (inputs.length === 0) {
+      return [];
+    }
+    await assertWithinBudget();
+
+    const embeddings: number[][] = [];
+    let tokensUsed = 0;
+    for (let i = 0; i < inputs.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = await provider.embed(EMBEDDING_MODEL, inputs.slice(i, i + EMBEDDING_BATCH_SIZE));
+      embeddings.push(...batch.embeddings);
+      tokensUsed += batch.tokensUsed;
+      await meterLLMCall(provider, undefined, { model: EMBEDDING_MODEL, tokensUsed: batch.tokensUsed });
+    }
+
+    recordLLMCall({ model: EMBEDDING_MODEL, tokensUsed });
+    return embeddings;
+  }
+
   async batchCall(requests: LLMCallConfig[]): Promise<LLMResponse[]> {
     // Process in batches of 5 to respect rate limits
     const batchSize = 5;
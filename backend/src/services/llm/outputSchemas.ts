@@ -0,0 +1,377 @@
+import { z } from 'zod';
+
+import { identifyPrompt } from './promptRegistry.js';
+
+import type { PromptName } from './promptRegistry.js';
+import type {
+  ArgumentNode,
+  DepthGraphData,
+  Entity,
+  EntityGraphData,
+  ExecutiveSummary,
+  KPI,
+  LLMMessage,
+  Relationship,
+  SignalAnalysis,
+  TaskType,
+  TextSpan,
+  VisualizationRecommendation,
+} from '../../../../shared/src/types.js';
+import type { RawFlowchart } from '../visualization/flowchartBuilder.js';
+import type { RawGantt } from '../visualization/ganttBuilder.js';
+import type { RawPriorityMatrix } from '../visualization/priorityMatrixBuilder.js';
+import type { RawRaciMatrix } from '../visualization/raciBuilder.js';
+import type { RawActivityDiagram } from '../visualization/umlActivityBuilder.js';
+import type { RawSequenceDiagram } from '../visualization/umlSequenceBuilder.js';
+
+/**
+ * Runtime schemas for the JSON each task asks the model for. Where the output
+ * maps straight onto a shared type the schema is checked against that type, so
+ * the two cannot drift apart; raw shapes that a builder normalizes afterwards
+ * (flowcharts, gantt charts, ...) only check what the builder relies on.
+ *
+ * Output that fails its schema is sent back to the model with the errors (see
+ * OpenRouterClient.call); the parsed output replaces the response content, so
+ * defaults filled in here reach the caller.
+ */
+
+const score = z.coerce.number().min(0).max(1);
+const text = z.string().trim().min(1);
+
+const textSpanSchema = z.object({
+  start: z.coerce.number(),
+  end: z.coerce.number(),
+  text: z.string(),
+}) satisfies z.ZodType<TextSpan, z.ZodTypeDef, unknown>;
+
+const kpiSchema = z.object({
+  id: z.string().default(''),
+  label: text,
+  value: z.coerce.number(),
+  unit: z.string().default(''),
+  trend: z.enum(['up', 'down', 'stable']).optional(),
+  trendValue: z.coerce.number().optional(),
+  confidence: score.default(0.8),
+  sourceQuote: z.string().optional(),
+}) satisfies z.ZodType<KPI, z.ZodTypeDef, unknown>;
+
+const executiveSummarySchema = z.object({
+  headline: text,
+  keyIdeas: z.array(text).min(1),
+  kpis: z.array(kpiSchema).default([]),
+  risks: z.array(z.string()).default([]),
+  opportunities: z.array(z.string()).default([]),
+  callToAction: text,
+}) satisfies z.ZodType<ExecutiveSummary, z.ZodTypeDef, unknown>;
+
+const entitySchema = z.object({
+  id: text,
+  text,
+  type: z.enum(['person', 'organization', 'location', 'concept', 'product', 'metric', 'date', 'technical']),
+  mentions: z.array(textSpanSchema).default([]),
+  importance: score,
+  context: z.string().optional(),
+}) satisfies z.ZodType<Entity, z.ZodTypeDef, unknown>;
+
+const relationshipSchema = z.object({
+  id: text,
+  source: text,
+  target: text,
+  type: z.enum(['causes', 'requires', 'part-of', 'relates-to', 'implements', 'uses', 'depends-on']),
+  strength: score,
+  evidence: z.array(textSpanSchema).default([]),
+}) satisfies z.ZodType<Relationship, z.ZodTypeDef, unknown>;
+
+const signalAnalysisSchema = z.object({
+  structural: score,
+  process: score,
+  quantitative: score,
+  technical: score,
+  argumentative: score,
+  temporal: score,
+}) satisfies z.ZodType<SignalAnalysis, z.ZodTypeDef, unknown>;
+
+const recommendationSchema = z.object({
+  type: z.enum([
+    'structured-view', 'mind-map', 'argument-map', 'depth-graph', 'flowchart',
+    'knowledge-graph', 'uml-class-diagram', 'uml-sequence', 'uml-activity',
+    'executive-dashboard', 'timeline', 'gantt', 'comparison-matrix', 'priority-matrix',
+    'raci-matrix', 'terms-definitions', 'entity-graph',
+  ]),
+  score,
+  rationale: z.string().default(''),
+}) satisfies z.ZodType<VisualizationRecommendation, z.ZodTypeDef, unknown>;
+
+// Prompts that ask for a list get it bare or wrapped in an object depending on
+// the model; both are accepted and normalized to the shape the caller reads
+const kpiListSchema = z.union([
+  z.array(kpiSchema),
+  z.object({ kpis: z.array(kpiSchema) }).transform((value) => value.kpis),
+]);
+
+const recommendationsSchema = z.union([
+  z.object({ recommendations: z.array(recommendationSchema) }),
+  z.array(recommendationSchema).transform((recommendations) => ({ recommendations })),
+]);
+
+const dimensionSchema = z.object({
+  score: z.coerce.number(),
+  rationale: z.string().default(''),
+  evidence: z.array(z.string()).default([]),
+});
+
+const depthGraphSchema = z.object({
+  analysis_metadata: z.object({
+    total_logical_units: z.coerce.number(),
+    overall_text_depth_trajectory: z.string().default(''),
+  }),
+  logical_units: z.array(z.object({
+    id: z.coerce.number(),
+    topic: text,
+    topic_summary: z.string().default(''),
+    extended_summary: z.string().default(''),
+    true_depth: z.coerce.number(),
+    dimensions: z.object({
+      cognitive: dimensionSchema,
+      epistemic: dimensionSchema,
+      causal: dimensionSchema,
+      rigor: dimensionSchema,
+      coherence: dimensionSchema,
+    }),
+    clarity_signals: z.object({
+      grounding: z.array(z.string()).default([]),
+      nuance: z.array(z.string()).default([]),
+    }),
+    actionable_feedback: z.string().default(''),
+    additional_data: z.object({
+      text_preview: z.string().default(''),
+      coherence_analysis: z.string().default(''),
+    }),
+  })).min(1),
+}) satisfies z.ZodType<DepthGraphData, z.ZodTypeDef, unknown>;
+
+const entityGraphSchema = z.object({
+  nodes: z.array(z.object({
+    id: text,
+    label: text,
+    summary: z.string().default(''),
+    depth: z.coerce.number().min(0).max(10),
+    sequenceIndex: z.coerce.number(),
+    type: z.enum(['concept', 'mechanism', 'evidence']),
+    clarityScore: score,
+  })).min(1),
+  edges: z.array(z.object({
+    id: text,
+    source: text,
+    target: text,
+    type: z.enum(['leads-to', 'supports', 'contrasts', 'expands', 'relates-to']),
+    label: z.string().optional(),
+    strength: score,
+  })).default([]),
+  metadata: z.object({
+    trajectory: z.string().default(''),
+    depthScore: z.coerce.number(),
+    totalUnits: z.coerce.number(),
+  }),
+}) satisfies z.ZodType<EntityGraphData, z.ZodTypeDef, unknown>;
+
+const depthMetricsSchema = z.object({
+  cohesion: z.coerce.number(),
+  nuance: z.coerce.number(),
+  grounding: z.coerce.number(),
+  tension: z.coerce.number(),
+  confidence: z.object({
+    cohesion: z.coerce.number(),
+    nuance: z.coerce.number(),
+    grounding: z.coerce.number(),
+    tension: z.coerce.number(),
+    composite: z.coerce.number(),
+  }),
+});
+
+const argumentMapSchema = z.object({
+  nodes: z.array(z.object({
+    id: text,
+    type: z.enum(['claim', 'argument', 'evidence', 'counterargument', 'rebuttal', 'alternative']),
+    label: text,
+    summary: z.string().default(''),
+    polarity: z.enum(['support', 'attack', 'neutral']).default('neutral'),
+    confidence: score.default(0.8),
+    impact: z.enum(['low', 'medium', 'high']).default('medium'),
+    depthMetrics: depthMetricsSchema.optional(),
+    sourceQuote: z.string().optional(),
+  }).passthrough() satisfies z.ZodType<Omit<ArgumentNode, 'source' | 'parentId' | 'isCollapsed' | 'grounding'>, z.ZodTypeDef, unknown>).min(1),
+  edges: z.array(z.object({
+    source: text,
+    target: text,
+  }).passthrough()).default([]),
+}).passthrough();
+
+// Nested mind map nodes; children are checked recursively
+interface RawMindMapNode {
+  id?: string;
+  label: string;
+  children: RawMindMapNode[];
+  [key: string]: unknown;
+}
+
+const mindMapNodeSchema: z.ZodType<RawMindMapNode, z.ZodTypeDef, unknown> = z.lazy(() => z.object({
+  id: z.string().optional(),
+  label: text,
+  children: z.array(mindMapNodeSchema).default([]),
+}).passthrough());
+
+const umlClassSchema = z.object({
+  name: text,
+  type: z.enum(['class', 'interface', 'abstract', 'enum']).optional(),
+  attributes: z.array(z.object({ name: text }).passthrough()).default([]),
+  methods: z.array(z.object({ name: text }).passthrough()).default([]),
+}).passthrough();
+
+const umlExtractionSchema = z.object({
+  classes: z.array(umlClassSchema),
+  relationships: z.array(z.object({
+    source: text,
+    target: text,
+    type: text,
+  }).passthrough()).default([]),
+}).passthrough();
+
+const knowledgeGraphSchema = z.object({
+  nodes: z.array(z.object({ id: text, label: text }).passthrough()).min(1),
+  edges: z.array(z.object({ source: text, target: text }).passthrough()).default([]),
+}).passthrough();
+
+const glossarySchema = z.object({
+  terms: z.array(z.object({
+    term: text,
+    definition: text,
+    type: z.enum(['acronym', 'technical', 'jargon', 'concept']).default('concept'),
+    confidence: score.default(0.8),
+    mentions: z.coerce.number().default(1),
+    context: z.string().optional(),
+  }).passthrough()),
+  domain: z.string().optional(),
+});
+
+// The diagram builders below normalize ids, kinds and modes themselves, so
+// their schemas only insist on what a builder cannot make up: labels, names
+// and at least one element to draw
+const named = z.object({ id: z.string().optional(), name: z.string().optional() }).passthrough()
+  .refine((item) => Boolean(item.name?.trim() || item.id?.trim()), { message: 'Expected a name', path: ['name'] });
+
+const flowchartSchema = z.object({
+  nodes: z.array(z.object({ label: text }).passthrough()).min(1),
+  edges: z.array(z.object({ source: text, target: text }).passthrough()).default([]),
+}).passthrough() satisfies z.ZodType<RawFlowchart, z.ZodTypeDef, unknown>;
+
+const ganttSchema = z.object({
+  tasks: z.array(z.object({ name: text }).passthrough()).min(1),
+}).passthrough() satisfies z.ZodType<RawGantt, z.ZodTypeDef, unknown>;
+
+const raciSchema = z.object({
+  roles: z.array(named).min(1),
+  activities: z.array(named).min(1),
+  assignments: z.array(z.object({
+    activity: text,
+    role: text,
+    responsibilities: z.union([z.array(z.string()), z.string()]),
+  }).passthrough()).min(1),
+}) satisfies z.ZodType<RawRaciMatrix, z.ZodTypeDef, unknown>;
+
+const priorityMatrixSchema = z.object({
+  mode: z.string().optional(),
+  items: z.array(z.object({ label: text }).passthrough()).min(1),
+}) satisfies z.ZodType<RawPriorityMatrix, z.ZodTypeDef, unknown>;
+
+const umlSequenceSchema = z.object({
+  participants: z.array(named).min(1),
+  steps: z.array(z.object({}).passthrough()).optional(),
+  messages: z.array(z.object({}).passthrough()).optional(),
+}).refine((diagram) => (diagram.steps?.length ?? 0) + (diagram.messages?.length ?? 0) > 0, {
+  message: 'Expected at least one step',
+  path: ['steps'],
+}) satisfies z.ZodType<RawSequenceDiagram, z.ZodTypeDef, unknown>;
+
+const umlActivitySchema = z.object({
+  swimlanes: z.array(named).default([]),
+  nodes: z.array(z.object({ label: z.string().optional() }).passthrough()).min(1),
+  flows: z.array(z.object({}).passthrough()).default([]),
+}) satisfies z.ZodType<RawActivityDiagram, z.ZodTypeDef, unknown>;
+
+const sectionSummarySchema = z.object({
+  summary: text,
+  keywords: z.array(z.string()).default([]),
+});
+
+const qaSchema = z.object({
+  answer: text,
+  citations: z.array(z.object({
+    excerpt: z.coerce.number(),
+    quote: text,
+  })).default([]),
+});
+
+const comparisonSummarySchema = z.object({
+  summaries: z.array(z.object({
+    id: z.coerce.number(),
+    summary: text,
+  })),
+});
+
+export const TASK_OUTPUT_SCHEMAS: Partial<Record<TaskType, z.ZodTypeAny>> = {
+  executiveSummary: executiveSummarySchema,
+  entityExtraction: z.object({ entities: z.array(entitySchema) }),
+  relationshipDetection: z.object({ relationships: z.array(relationshipSchema) }),
+  sectionSummary: sectionSummarySchema,
+  signalAnalysis: signalAnalysisSchema,
+  vizRecommendation: recommendationsSchema,
+  kpiExtraction: kpiListSchema,
+  glossary: glossarySchema,
+  qa: qaSchema,
+  mindMapGeneration: z.object({ nodes: z.array(mindMapNodeSchema).min(1) }),
+  argumentMapGeneration: argumentMapSchema,
+  'uml-extraction': umlExtractionSchema,
+  'knowledge-graph-generation': knowledgeGraphSchema,
+  depthAnalysis: depthGraphSchema,
+  entityGraphGeneration: entityGraphSchema,
+  flowchartGeneration: flowchartSchema,
+  comparisonSummary: comparisonSummarySchema,
+  ganttGeneration: ganttSchema,
+  raciGeneration: raciSchema,
+  priorityMatrixGeneration: priorityMatrixSchema,
+  umlSequenceGeneration: umlSequenceSchema,
+  umlActivityGeneration: umlActivitySchema,
+};
+
+// Templates rendered into the user message take precedence over the task's
+// own output, e.g. structure analysis runs under the sectionSummary task
+export const TEMPLATE_OUTPUT_SCHEMAS: Partial<Record<PromptName, z.ZodTypeAny>> = {
+  structureAnalysis: z.array(z.object({
+    title: text,
+    level: z.coerce.number().int().min(1).max(5),
+    summary: z.string().default(''),
+    punching_message: z.string().default(''),
+  })).min(1),
+};
+
+/**
+ * The schema a call's output is checked against: the user message template's,
+ * if it has one, otherwise the task's. Undefined for free-text tasks.
+ */
+export function outputSchemaFor(task: TaskType, messages: LLMMessage[]): z.ZodTypeAny | undefined {
+  const userPrompt = messages.find((m) => m.role === 'user')?.content;
+  const template = userPrompt ? identifyPrompt(userPrompt) : undefined;
+  return (template && TEMPLATE_OUTPUT_SCHEMAS[template.name]) || TASK_OUTPUT_SCHEMAS[task];
+}
+
+/**
+ * Validation errors as short `path: message` lines for the repair prompt
+ */
+export function formatSchemaErrors(error: z.ZodError, limit = 10): string[] {
+  const errors = error.issues.map((issue) =>
+    `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+  return errors.length > limit
+    ? [...errors.slice(0, limit), `...and ${errors.length - limit} more`]
+    : errors;
+}
@@ -0,0 +1,142 @@
+import { createHash } from 'node:crypto';
+
+import { getModelForTask } from '../../config/modelConfig.js';
+
+import { trackLLMUsage } from './llmUsage.js';
+import { identifyPrompt, promptId } from './promptRegistry.js';
+
+import type { OpenRouterClient } from './openRouterClient.js';
+import type { PromptDefinition } from './promptRegistry.js';
+import type { TaskType } from '../../../../shared/src/types.js';
+
+export interface PromptFixture {
+  name: string;
+  input: string;
+}
+
+export interface PromptFixtureResult {
+  fixture: string;
+  inputTokens: number; // Estimated, system prompt included
+  tokensUsed: number;
+  outputLength: number;
+  // Invalid outputs sent back to the model before it produced valid output or gave up
+  repairAttempts: number;
+  // Where the output does not match the prompt's declared output or the task's schema
+  problems: string[];
+}
+
+export interface PromptEvaluationReport {
+  task: TaskType;
+  prompt: string; // name@version
+  // Content hash, so an edit that forgot to bump the version still shows up
+  promptHash: string;
+  results: PromptFixtureResult[];
+}
+
+/**
+ * Check a response against the output a prompt declares: non-empty text,
+ * or JSON of the right shape with its required top-level keys
+ */
+export function checkPromptOutput(
+  prompt: PromptDefinition,
+  content: string,
+  client: OpenRouterClient,
+): string[] {
+  if (!content.trim()) {
+    return ['Empty response'];
+  }
+  if (prompt.output === 'text') {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = client.parseJSONResponse<unknown>({ content, tokensUsed: 0, model: '' });
+  } catch {
+    return ['Response is not valid JSON'];
+  }
+
+  if (prompt.output === 'json-array') {
+    return Array.isArray(parsed) ? [] : ['Expected a JSON array'];
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return ['Expected a JSON object'];
+  }
+  return prompt.required
+    .filter((key) => !(key in (parsed as Record<string, unknown>)))
+    .map((key) => `Missing required key "${key}"`);
+}
+
+/**
+ * Run a task's prompt over every fixture through `client`, the way the
+ * analysis pipeline calls it, and check each response
+ */
+export async function evaluatePrompt(
+  task: TaskType,
+  client: OpenRouterClient,
+  fixtures: PromptFixture[],
+): Promise<PromptEvaluationReport> {
+  const { systemPrompt } = getModelForTask(task);
+  const prompt = identifyPrompt(systemPrompt);
+  if (!prompt) {
+    throw new Error(`Task "${task}" does not use a registered prompt`);
+  }
+
+  const results: PromptFixtureResult[] = [];
+  for (const fixture of fixtures) {
+    // Output that fails the task's schema after every repair attempt throws
+    const { result, calls, validationFailures } = await trackLLMUsage(() =>
+      client.callWithFallback(task, fixture.input, 0).catch((error: Error) => error));
+    results.push({
+      fixture: fixture.name,
+      inputTokens: client.estimateTokenCount(`${systemPrompt} ${fixture.input}`),
+      tokensUsed: calls.reduce((sum, call) => sum + call.tokensUsed, 0),
+      outputLength: result instanceof Error ? 0 : result.content.length,
+      repairAttempts: validationFailures.reduce((sum, failure) => sum + failure.repairAttempts, 0),
+      problems: result instanceof Error
+        ? [result.message]
+        : checkPromptOutput(prompt, result.content, client),
+    });
+  }
+
+  return {
+    task,
+    prompt: promptId(prompt),
+    promptHash: createHash('sha256').update(prompt.template).digest('hex').slice(0, 12),
+    results,
+  };
+}
+
+/**
+ * Line-per-change summary of `current` against an earlier report of the same task
+ */
+export function comparePromptReports(
+  baseline: PromptEvaluationReport,
+  current: PromptEvaluationReport,
+): string[] {
+  const changes: string[] = [];
+  if (baseline.prompt !== current.prompt) {
+    changes.push(`Prompt: ${baseline.prompt} -> ${current.prompt}`);
+  } else if (baseline.promptHash !== current.promptHash) {
+    changes.push(`Prompt ${current.prompt} changed without a version bump`);
+  }
+
+  const before = new Map(baseline.results.map((result) => [result.fixture, result]));
+  for (const result of current.results) {
+    const previous = before.get(result.fixture);
+    if (!previous) {
+      changes.push(`${result.fixture}: new fixture`);
+      continue;
+    }
+    const tokenDelta = result.inputTokens - previous.inputTokens;
+    if (tokenDelta !== 0) {
+      changes.push(`${result.fixture}: input tokens ${previous.inputTokens} -> ${result.inputTokens} (${tokenDelta > 0 ? '+' : ''}${tokenDelta})`);
+    }
+    const passedBefore = previous.problems.length === 0;
+    const passedNow = result.problems.length === 0;
+    if (passedBefore !== passedNow) {
+      changes.push(`${result.fixture}: ${passedNow ? 'now passes' : `now fails (${result.problems.join('; ')})`}`);
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,242 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const PROMPTS_DIR = path.resolve(__dirname, '../../prompts');
+
+/**
+ * Every prompt the backend sends, one `<name>.md` file each in src/prompts.
+ * Loading a name outside this list is a type error; a listed file that is
+ * missing or malformed fails `validatePrompts` at startup.
+ */
+export const PROMPT_NAMES = [
+  'argumentMapGeneration',
+  'comparisonSummary',
+  'depthAnalysis',
+  'entityExtraction',
+  'entityGraph',
+  'executiveSummary',
+  'flowchartGeneration',
+  'ganttGeneration',
+  'glossary',
+  'knowledge-graph-generation',
+  'kpiExtraction',
+  'mindMapGeneration',
+  'priorityMatrixGeneration',
+  'qa',
+  'raciGeneration',
+  'relationshipDetection',
+  'sectionSummary',
+  'signalAnalysis',
+  'structureAnalysis',
+  'tldr',
+  'uml-extraction',
+  'umlActivityGeneration',
+  'umlSequenceGeneration',
+  'vizRecommendation',
+] as const;
+
+export type PromptName = typeof PROMPT_NAMES[number];
+
+// What the model is asked to return: plain text, a JSON object or a JSON array
+export type PromptOutput = 'text' | 'json-object' | 'json-array';
+
+const PROMPT_OUTPUTS: PromptOutput[] = ['text', 'json-object', 'json-array'];
+
+export interface PromptDefinition {
+  name: PromptName;
+  version: string;
+  description?: string;
+  output: PromptOutput;
+  // Top-level keys a json-object response must contain
+  required: string[];
+  // `{{variable}}` placeholders the template is rendered with
+  variables: string[];
+  template: string;
+}
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+const cache = new Map<PromptName, PromptDefinition>();
+
+/**
+ * Parse the `key: value` front matter of a prompt file. Lists are written
+ * inline, `[a, b]`.
+ */
+function parseFrontMatter(block: string): Record<string, string | string[]> {
+  const fields: Record<string, string | string[]> = {};
+  for (const line of block.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    const match = (/^([\w-]+):\s*(.*)$/).exec(line.trim());
+    if (!match) {
+      throw new Error(`Invalid front matter line: "${line.trim()}"`);
+    }
+    const [, key, value] = match;
+    const list = (/^\[(.*)\]$/).exec(value);
+    fields[key] = list
+      ? list[1].split(',').map((item) => item.trim()).filter(Boolean)
+      : value.trim();
+  }
+  return fields;
+}
+
+function asList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function placeholdersOf(template: string): string[] {
+  return [...new Set([...template.matchAll(PLACEHOLDER)].map((match) => match[1]))];
+}
+
+/**
+ * Read and check one prompt file. Throws when the file is missing, has no
+ * version, or declares variables that differ from the placeholders it uses.
+ */
+function readPrompt(name: PromptName): PromptDefinition {
+  const promptPath = path.join(PROMPTS_DIR, `${name}.md`);
+  if (!fs.existsSync(promptPath)) {
+    throw new Error(`Prompt "${name}" not found: ${promptPath}`);
+  }
+
+  const source = fs.readFileSync(promptPath, 'utf8');
+  const frontMatter = FRONT_MATTER.exec(source);
+  if (!frontMatter) {
+    throw new Error(`Prompt "${name}" has no front matter`);
+  }
+
+  const fields = parseFrontMatter(frontMatter[1]);
+  const template = source.slice(frontMatter[0].length).trim();
+  const version = typeof fields.version === 'string' ? fields.version : '';
+  const output = (fields.output || 'text') as PromptOutput;
+  const variables = asList(fields.variables);
+
+  if (!version) {
+    throw new Error(`Prompt "${name}" has no version`);
+  }
+  if (!PROMPT_OUTPUTS.includes(output)) {
+    throw new Error(`Prompt "${name}" has an unknown output "${output}"`);
+  }
+  if (!template) {
+    throw new Error(`Prompt "${name}" is empty`);
+  }
+
+  const used = placeholdersOf(template);
+  const undeclared = used.filter((variable) => !variables.includes(variable));
+  const unused = variables.filter((variable) => !used.includes(variable));
+  if (undeclared.length > 0) {
+    throw new Error(`Prompt "${name}" uses undeclared variables: ${undeclared.join(', ')}`);
+  }
+  if (unused.length > 0) {
+    throw new Error(`Prompt "${name}" declares unused variables: ${unused.join(', ')}`);
+  }
+
+  return {
+    name,
+    version,
+    description: typeof fields.description === 'string' ? fields.description : undefined,
+    output,
+    required: asList(fields.required),
+    variables,
+    template,
+  };
+}
+
+export function getPrompt(name: PromptName): PromptDefinition {
+  let prompt = cache.get(name);
+  if (!prompt) {
+    prompt = readPrompt(name);
+    cache.set(name, prompt);
+  }
+  return prompt;
+}
+
+/**
+ * The text of a prompt that takes no variables, e.g. a task's system prompt
+ */
+export function loadPrompt(name: PromptName): string {
+  const prompt = getPrompt(name);
+  if (prompt.variables.length > 0) {
+    throw new Error(`Prompt "${name}" takes variables (${prompt.variables.join(', ')}); use renderPrompt`);
+  }
+  return prompt.template;
+}
+
+/**
+ * Fill the `{{variable}}` placeholders of a prompt. Every declared variable
+ * must be given.
+ */
+export function renderPrompt(name: PromptName, values: Record<string, string | number>): string {
+  const prompt = getPrompt(name);
+  const missing = prompt.variables.filter((variable) => values[variable] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Prompt "${name}" is missing variables: ${missing.join(', ')}`);
+  }
+  return prompt.template.replace(PLACEHOLDER, (_match, variable: string) => String(values[variable]));
+}
+
+/**
+ * Identifier recorded with LLM output, `<name>@<version>`
+ */
+export function promptId(prompt: PromptDefinition): string {
+  return `${prompt.name}@${prompt.version}`;
+}
+
+/**
+ * The registered prompt a message was built from: the whole template for
+ * prompts without variables, the text before the first placeholder otherwise
+ */
+export function identifyPrompt(text: string): PromptDefinition | undefined {
+  for (const name of PROMPT_NAMES) {
+    let prompt: PromptDefinition;
+    try {
+      prompt = getPrompt(name);
+    } catch {
+      continue;
+    }
+    const firstPlaceholder = prompt.template.search(PLACEHOLDER);
+    const head = firstPlaceholder === -1
+      ? prompt.template
+      : prompt.template.slice(0, firstPlaceholder);
+    if (head.trim() && text.startsWith(head)) {
+      return prompt;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Identifier for a system prompt: its registry id, or a short content hash
+ * for text that is not a registered prompt
+ */
+export function promptVersionOf(systemPrompt: string): string {
+  const prompt = identifyPrompt(systemPrompt);
+  return prompt
+    ? promptId(prompt)
+    : `unregistered@${createHash('sha256').update(systemPrompt).digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * Load every registered prompt, throwing one error that lists all problems.
+ * Run at startup so a missing or broken prompt stops the server instead of
+ * sending an empty system prompt.
+ */
+export function validatePrompts(): PromptDefinition[] {
+  const prompts: PromptDefinition[] = [];
+  const problems: string[] = [];
+  for (const name of PROMPT_NAMES) {
+    try {
+      prompts.push(getPrompt(name));
+    } catch (error: any) {
+      problems.push(error.message);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid prompts:\n- ${problems.join('\n- ')}`);
+  }
+  return prompts;
+}
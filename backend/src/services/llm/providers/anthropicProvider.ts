@@ -0,0 +1,72 @@
+import axios, { AxiosInstance } from 'axios';
+
+import type {
+  LLMProvider,
+  ModelLimits,
+  ProviderRequest,
+  ProviderResponse,
+} from './types.js';
+import type { LLMProviderName } from '../../../../../shared/src/types.js';
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  baseURL: string;
+}
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Anthropic Messages API. System messages move to the top-level `system` field;
+ * user and assistant turns are passed through in order.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'anthropic';
+  private client: AxiosInstance;
+
+  constructor(options: AnthropicProviderOptions) {
+    this.client = axios.create({
+      baseURL: options.baseURL,
+      headers: {
+        'x-api-key': options.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async complete(request: ProviderRequest): Promise<ProviderResponse> {
+    const system = request.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+
+    const response = await this.client.post('/messages', {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(system ? { system } : {}),
+      messages: request.messages
+        .filter((m) => m.role !== 'system')
+        .map((m) => ({ role: m.role, content: m.content })),
+    });
+
+    const content = (response.data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+    const usage = response.data.usage || {};
+
+    return {
+      content,
+      finishReason: response.data.stop_reason === 'max_tokens' ? 'length' : 'stop',
+      tokensUsed: (usage.input_tokens || 0) + (usage.output_tokens || 0),
+      promptTokens: usage.input_tokens || 0,
+      completionTokens: usage.output_tokens || 0,
+      model: request.model,
+    };
+  }
+
+  async getModelLimits(_model: string): Promise<ModelLimits | undefined> {
+    return undefined;
+  }
+}
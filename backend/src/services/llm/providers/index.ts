@@ -0,0 +1,50 @@
+import { env } from '../../../config/env.js';
+
+import { AnthropicProvider } from './anthropicProvider.js';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider.js';
+import { OpenRouterProvider } from './openRouterProvider.js';
+
+import type { LLMProvider } from './types.js';
+import type { LLMProviderName } from '../../../../../shared/src/types.js';
+
+export type {
+  EmbeddingResponse,
+  LLMProvider,
+  ModelLimits,
+  ModelPricing,
+  ProviderRequest,
+  ProviderResponse,
+} from './types.js';
+
+// Ollama's OpenAI-compatible endpoint; vLLM and llama.cpp server default to :8000/v1 and :8080/v1
+const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Build a provider from environment configuration. `apiKey` overrides the
+ * configured OpenRouter key.
+ */
+export function createLLMProvider(name: LLMProviderName, apiKey?: string): LLMProvider {
+  switch (name) {
+    case 'openrouter':
+      return new OpenRouterProvider({
+        apiKey: apiKey || env.OPENROUTER_API_KEY,
+        baseURL: env.OPENROUTER_BASE_URL,
+        appUrl: env.APP_URL,
+      });
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      });
+    case 'anthropic':
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new Error('ANTHROPIC_API_KEY is required for the anthropic provider');
+      }
+      return new AnthropicProvider({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        baseURL: process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com/v1',
+      });
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
@@ -0,0 +1,98 @@
+import axios, { AxiosInstance } from 'axios';
+
+import type {
+  EmbeddingResponse,
+  LLMProvider,
+  ModelLimits,
+  ProviderRequest,
+  ProviderResponse,
+} from './types.js';
+import type { LLMProviderName } from '../../../../../shared/src/types.js';
+
+export interface OpenAICompatibleProviderOptions {
+  baseURL: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+// Shorten long strings in debug logs to their first and last 100 characters
+const truncateForLog = (key: string, value: unknown) => {
+  if (typeof value === 'string' && value.length > 200) {
+    return `${value.substring(0, 100)}...[TRUNCATED]...${value.substring(value.length - 100)}`;
+  }
+  return value;
+};
+
+/**
+ * Any server speaking the OpenAI `/chat/completions` API: Ollama, vLLM,
+ * llama.cpp server, LM Studio. Documents never leave the configured base URL.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'openai-compatible';
+  protected client: AxiosInstance;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.client = axios.create({
+      baseURL: options.baseURL,
+      headers: {
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        ...options.headers,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async complete(request: ProviderRequest): Promise<ProviderResponse> {
+    const requestBody = {
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    };
+
+    // Debug: Log request
+    console.log(`[API_REQ] ${JSON.stringify(requestBody, truncateForLog)}`);
+
+    const response = await this.client.post(
+      '/chat/completions',
+      requestBody,
+      {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      },
+    );
+
+    // Debug: Log response
+    console.log(`[API_RES] ${JSON.stringify(response.data, truncateForLog)}`);
+
+    const choice = response.data.choices[0];
+    return {
+      content: choice.message.content || '',
+      finishReason: choice.finish_reason === 'length' ? 'length' : 'stop',
+      tokensUsed: response.data.usage?.total_tokens || 0,
+      promptTokens: response.data.usage?.prompt_tokens,
+      completionTokens: response.data.usage?.completion_tokens,
+      model: request.model,
+    };
+  }
+
+  async embed(model: string, inputs: string[]): Promise<EmbeddingResponse> {
+    const response = await this.client.post('/embeddings', { model, input: inputs });
+
+    // Entries carry their input index; don't rely on response order
+    const embeddings: number[][] = [];
+    for (const item of response.data.data) {
+      embeddings[item.index] = item.embedding;
+    }
+    return {
+      embeddings,
+      tokensUsed: response.data.usage?.total_tokens || 0,
+    };
+  }
+
+  async getModelLimits(_model: string): Promise<ModelLimits | undefined> {
+    // The OpenAI /models schema has no context length; local servers size it at load time
+    return undefined;
+  }
+}
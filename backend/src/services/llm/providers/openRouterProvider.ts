@@ -0,0 +1,78 @@
+import { OpenAICompatibleProvider } from './openAICompatibleProvider.js';
+
+import type { ModelLimits, ModelPricing } from './types.js';
+import type { LLMProviderName } from '../../../../../shared/src/types.js';
+
+export interface OpenRouterProviderOptions {
+  apiKey: string;
+  baseURL: string;
+  appUrl: string;
+}
+
+/**
+ * OpenRouter, the default provider. Same wire format as any OpenAI-compatible
+ * server, plus attribution headers and per-model limits and pricing from `/models`.
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  readonly name: LLMProviderName = 'openrouter';
+  private modelsMetadata: Map<string, any> = new Map();
+  private metadataPromise: Promise<void> | null = null;
+
+  constructor(options: OpenRouterProviderOptions) {
+    super({
+      baseURL: options.baseURL,
+      apiKey: options.apiKey,
+      headers: {
+        'HTTP-Referer': options.appUrl,
+        'X-Title': 'Vaisu',
+      },
+    });
+  }
+
+  async getModelLimits(model: string): Promise<ModelLimits | undefined> {
+    await this.ensureMetadata();
+    const modelMeta = this.modelsMetadata.get(model);
+    if (!modelMeta) return undefined;
+
+    return {
+      contextLength: modelMeta.context_length,
+      maxCompletionTokens: modelMeta.top_provider?.max_completion_tokens,
+    };
+  }
+
+  async getModelPricing(model: string): Promise<ModelPricing | undefined> {
+    await this.ensureMetadata();
+    const pricing = this.modelsMetadata.get(model)?.pricing;
+    if (!pricing) return undefined;
+
+    // Prices are decimal strings in USD per token
+    return {
+      prompt: Number(pricing.prompt) || 0,
+      completion: Number(pricing.completion) || 0,
+    };
+  }
+
+  private async ensureMetadata(): Promise<void> {
+    if (this.modelsMetadata.size > 0) return;
+    if (this.metadataPromise) return this.metadataPromise;
+
+    this.metadataPromise = (async () => {
+      try {
+        console.log('Fetching OpenRouter model metadata...');
+        const response = await this.client.get('/models');
+        const models = response.data?.data || [];
+        for (const model of models) {
+          this.modelsMetadata.set(model.id, model);
+        }
+        console.log(`✓ Loaded metadata for ${this.modelsMetadata.size} models`);
+      } catch (error: any) {
+        console.warn('Failed to fetch OpenRouter model metadata:', error.message);
+        // Don't throw, we'll fall back to hardcoded defaults
+      } finally {
+        this.metadataPromise = null;
+      }
+    })();
+
+    return this.metadataPromise;
+  }
+}
@@ -0,0 +1,60 @@
+import type {
+  LLMMessage,
+  LLMProviderName,
+  TaskType,
+} from '../../../../../shared/src/types.js';
+
+/**
+ * One request to a chat completion backend. Token budgeting, continuation of
+ * truncated output and model fallback happen in OpenRouterClient, so providers
+ * only translate a single request and response.
+ */
+export interface ProviderRequest {
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature: number;
+  task?: TaskType;
+}
+
+export interface ProviderResponse {
+  content: string;
+  // 'length' when the output hit maxTokens and should be continued
+  finishReason: 'stop' | 'length';
+  tokensUsed: number;
+  // Split of tokensUsed, when the backend reports it
+  promptTokens?: number;
+  completionTokens?: number;
+  model: string;
+}
+
+export interface EmbeddingResponse {
+  embeddings: number[][]; // One vector per input, in input order
+  tokensUsed: number;
+}
+
+export interface ModelLimits {
+  contextLength?: number;
+  maxCompletionTokens?: number;
+}
+
+// USD per token
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  complete(request: ProviderRequest): Promise<ProviderResponse>;
+
+  /** Context window of a model, when the backend publishes it */
+  getModelLimits(model: string): Promise<ModelLimits | undefined>;
+
+  /** Price of a model, when the backend publishes it; calls are metered at no cost otherwise */
+  getModelPricing?(model: string): Promise<ModelPricing | undefined>;
+
+  /** Text embeddings; absent when the backend has no embeddings API */
+  embed?(model: string, inputs: string[]): Promise<EmbeddingResponse>;
+}
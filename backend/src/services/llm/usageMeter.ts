@@ -0,0 +1,189 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { LLM_MONTHLY_BUDGET_USD } from '../../config/modelConfig.js';
+import { llmUsageRepository } from '../../repositories/llmUsageRepository.js';
+import { usageLimitsRepository } from '../../repositories/usageLimitsRepository.js';
+
+import type { LLMProvider } from './providers/index.js';
+import type {
+  LLMUsageBudget,
+  LLMUsageRecord,
+  LLMUsageSummary,
+  LLMUsageTotals,
+  TaskType,
+} from '../../../../shared/src/types.js';
+
+// Who LLM calls are billed to
+export interface UsageContext {
+  userId: string;
+  documentId?: string;
+}
+
+// Calls shown in a usage summary
+const RECENT_CALLS = 50;
+
+// Calls over budget fail with an error starting with this. Job errors only keep
+// their message, so callers recognise the refusal by it
+export const BUDGET_EXCEEDED_MESSAGE = 'Monthly LLM budget exceeded';
+
+const context = new AsyncLocalStorage<UsageContext>();
+
+export const isBudgetExceeded = (error: unknown) =>
+  (error instanceof Error ? error.message : String(error ?? '')).startsWith(BUDGET_EXCEEDED_MESSAGE);
+
+const currentPeriod = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const nextPeriodStart = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString();
+};
+
+/**
+ * Run `fn` with every LLM call it makes, including from nested async work,
+ * metered against `usage` and checked against the user's budget
+ */
+export function withUsageContext<T>(usage: UsageContext, fn: () => Promise<T>): Promise<T> {
+  return context.run(usage, fn);
+}
+
+/**
+ * A user's spend this month against LLM_MONTHLY_BUDGET_USD
+ */
+export async function getBudget(userId: string): Promise<LLMUsageBudget> {
+  const limit = LLM_MONTHLY_BUDGET_USD ?? null;
+  const spent = (await usageLimitsRepository.getCurrentUsage(userId))?.llmCost || 0;
+
+  return {
+    limit,
+    spent,
+    remaining: limit === null ? null : Math.max(0, limit - spent),
+    resetAt: nextPeriodStart(),
+  };
+}
+
+/**
+ * The user's budget when it is used up, null while they can still make calls.
+ * Uncapped deployments skip the lookup.
+ */
+export async function exceededBudget(userId: string): Promise<LLMUsageBudget | null> {
+  if (LLM_MONTHLY_BUDGET_USD === undefined) {
+    return null;
+  }
+  const budget = await getBudget(userId);
+  return budget.remaining === 0 ? budget : null;
+}
+
+/**
+ * Refuse a call when the user it is made for has used up this month's budget.
+ * Calls outside a usage context (startup indexing, the prompt evaluation CLI)
+ * are not capped.
+ */
+export async function assertWithinBudget(): Promise<void> {
+  const usage = context.getStore();
+  if (!usage) return;
+
+  const budget = await exceededBudget(usage.userId);
+  if (budget) {
+    throw new Error(
+      `${BUDGET_EXCEEDED_MESSAGE}: $${budget.spent.toFixed(2)} of $${budget.limit!.toFixed(2)} used, `
+      + `resets ${budget.resetAt}`,
+    );
+  }
+}
+
+/**
+ * Record one provider request against the surrounding usage context, priced
+ * with the provider's published rates. Failures are logged, never thrown.
+ */
+export async function meterLLMCall(
+  provider: LLMProvider,
+  task: TaskType | undefined,
+  response: { model: string; tokensUsed: number; promptTokens?: number; completionTokens?: number },
+): Promise<void> {
+  const usage = context.getStore();
+  if (!usage) return;
+
+  try {
+    // Without a split, count everything as prompt tokens
+    const promptTokens = response.promptTokens ?? response.tokensUsed;
+    const completionTokens = response.completionTokens ?? 0;
+    const pricing = await provider.getModelPricing?.(response.model);
+    const cost = pricing
+      ? promptTokens * pricing.prompt + completionTokens * pricing.completion
+      : 0;
+
+    await llmUsageRepository.record({
+      userId: usage.userId,
+      documentId: usage.documentId,
+      task,
+      model: response.model,
+      provider: provider.name,
+      promptTokens,
+      completionTokens,
+      cost,
+    });
+    await usageLimitsRepository.incrementLLMUsage(usage.userId, promptTokens + completionTokens, cost);
+  } catch (error: any) {
+    console.warn('Failed to record LLM usage:', error.message);
+  }
+}
+
+function sumUsage(records: LLMUsageRecord[]): LLMUsageTotals {
+  return records.reduce(
+    (totals, record) => ({
+      calls: totals.calls + 1,
+      promptTokens: totals.promptTokens + record.promptTokens,
+      completionTokens: totals.completionTokens + record.completionTokens,
+      cost: totals.cost + record.cost,
+    }),
+    { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 },
+  );
+}
+
+function totalsBy<K extends string>(
+  records: LLMUsageRecord[],
+  keyOf: (record: LLMUsageRecord) => K | undefined,
+): Array<LLMUsageTotals & { key: K }> {
+  const groups = new Map<K, LLMUsageRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    if (key !== undefined) {
+      groups.set(key, [...(groups.get(key) || []), record]);
+    }
+  }
+
+  // Most expensive first, then most tokens for unpriced models
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, ...sumUsage(group) }))
+    .sort((a, b) => b.cost - a.cost
+      || (b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens));
+}
+
+/**
+ * A user's metered calls in a `YYYY-MM` period (this month by default), totalled
+ * per document, task and model, optionally limited to one document
+ */
+export async function getUsageSummary(
+  userId: string,
+  period = currentPeriod(),
+  documentId?: string,
+): Promise<LLMUsageSummary> {
+  const records = (await llmUsageRepository.getByPeriod(userId, period))
+    .filter((record) => !documentId || record.documentId === documentId);
+
+  return {
+    period,
+    totals: sumUsage(records),
+    budget: await getBudget(userId),
+    byDocument: totalsBy(records, (record) => record.documentId)
+      .map(({ key, ...rest }) => ({ documentId: key, ...rest })),
+    byTask: totalsBy(records, (record) => record.task ?? 'embedding')
+      .map(({ key, ...rest }) => ({ task: key, ...rest })),
+    byModel: totalsBy(records, (record) => record.model)
+      .map(({ key, ...rest }) => ({ model: key, ...rest })),
+    recentCalls: records.slice(0, RECENT_CALLS),
+  };
+}
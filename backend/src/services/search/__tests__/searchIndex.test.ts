@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { parseQuery, SearchIndex } from '../searchIndex.js';
+
+import type { IndexedDocumentInfo, Passage } from '../searchIndex.js';
+
+const info = (documentId: string, overrides: Partial<IndexedDocumentInfo> = {}): IndexedDocumentInfo => ({
+  documentId,
+  userId: 'user-1',
+  fileType: 'text/plain',
+  uploadDate: new Date('2024-01-01'),
+  entityTypes: [],
+  ...overrides,
+});
+
+describe('parseQuery', () => {
+  it('separates quoted phrases and normalises terms', () => {
+    expect(parseQuery('Carbon "heat pumps" policies')).toEqual({
+      terms: ['carbon', 'policy', 'heat', 'pump'],
+      phrases: [['heat', 'pump']],
+    });
+  });
+});
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    index.addDocument(info('climate', { entityTypes: ['organization'] }), [
+      { field: 'title', text: 'Climate policy' },
+      {
+        field: 'section',
+        text: 'Heat pumps\nHeat pumps replace gas boilers and cut emissions in homes.',
+        sectionId: 'section-2',
+        sectionTitle: 'Heat pumps',
+      },
+      { field: 'entity', text: 'IEA: International Energy Agency', entityType: 'organization' },
+    ]);
+    index.addDocument(info('budget', { fileType: 'application/pdf', uploadDate: new Date('2024-06-01') }), [
+      { field: 'title', text: 'Budget report' },
+      { field: 'section', text: 'Spending\nThe policy of the ministry is to pump money into roads.' },
+    ]);
+    index.addDocument(info('private', { userId: 'user-2' }), [
+      { field: 'title', text: 'Heat pumps for everyone' },
+    ]);
+  });
+
+  it('ranks by BM25 with field boosts and only returns the user\'s documents', () => {
+    const hits = index.search(parseQuery('policy'), { userId: 'user-1' });
+
+    // The title match outranks a match in body text
+    expect(hits.map((hit) => hit.documentId)).toEqual(['climate', 'budget']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    expect(index.search(parseQuery('everyone'), { userId: 'user-1' })).toEqual([]);
+  });
+
+  it('requires phrases to appear in order', () => {
+    const hits = index.search(parseQuery('"heat pumps"'), { userId: 'user-1' });
+    expect(hits.map((hit) => hit.documentId)).toEqual(['climate']);
+
+    expect(index.search(parseQuery('"pumps heat gas"'), { userId: 'user-1' })).toEqual([]);
+  });
+
+  it('returns snippets with section anchors and highlight offsets', () => {
+    const [hit] = index.search(parseQuery('boilers'), { userId: 'user-1' });
+    const [snippet] = hit.snippets;
+
+    expect(snippet).toMatchObject({ field: 'section', sectionId: 'section-2', sectionTitle: 'Heat pumps' });
+    expect(snippet.highlights).toHaveLength(1);
+    const { start, end } = snippet.highlights[0];
+    expect(snippet.text.slice(start, end)).toBe('boilers');
+  });
+
+  it('windows long passages around the first match', () => {
+    const filler = 'lorem ipsum dolor sit amet '.repeat(30);
+    index.addDocument(info('long'), [{ field: 'section', text: `${filler}turbine ${filler}` }]);
+
+    const [snippet] = index.search(parseQuery('turbine'), { userId: 'user-1' })[0].snippets;
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text.length).toBeLessThan(210);
+    const { start, end } = snippet.highlights[0];
+    expect(snippet.text.slice(start, end)).toBe('turbine');
+  });
+
+  it('filters by file type, upload date and entity type', () => {
+    const query = parseQuery('policy');
+
+    expect(index.search(query, { userId: 'user-1', fileTypes: ['application/pdf'] })
+      .map((hit) => hit.documentId)).toEqual(['budget']);
+    expect(index.search(query, { userId: 'user-1', from: new Date('2024-03-01') })
+      .map((hit) => hit.documentId)).toEqual(['budget']);
+    expect(index.search(query, { userId: 'user-1', to: new Date('2024-03-01') })
+      .map((hit) => hit.documentId)).toEqual(['climate']);
+    expect(index.search(query, { userId: 'user-1', entityTypes: ['organization'] })
+      .map((hit) => hit.documentId)).toEqual(['climate']);
+  });
+
+  it('replaces a document on re-index and forgets it on removal', () => {
+    const passages: Passage[] = [{ field: 'title', text: 'Wind farms' }];
+    index.addDocument(info('climate'), passages);
+
+    expect(index.search(parseQuery('boilers'), { userId: 'user-1' })).toEqual([]);
+    expect(index.search(parseQuery('wind'), { userId: 'user-1' })).toHaveLength(1);
+
+    index.removeDocument('climate');
+    expect(index.search(parseQuery('wind'), { userId: 'user-1' })).toEqual([]);
+    expect(index.size).toBe(2);
+  });
+
+  it('fuses embedding similarity into the ranking', () => {
+    const vectors: Record<string, number[]> = {
+      climate: [1, 0],
+      budget: [0, 1],
+    };
+    for (const documentId of ['climate', 'budget']) {
+      for (const { id } of index.getPassages(documentId)) {
+        index.setVector(id, vectors[documentId]);
+      }
+    }
+
+    // No keyword matches, but the budget report is semantically close
+    const hits = index.search(parseQuery('public finances'), { userId: 'user-1' }, [0.1, 1]);
+
+    expect(hits.map((hit) => hit.documentId)).toEqual(['budget']);
+    expect(hits[0].snippets[0].highlights).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import * as analysisRepository from '../../../repositories/analysisRepository.js';
+import * as documentRepository from '../../../repositories/documentRepository.js';
+import { visualizationService } from '../../../repositories/visualizationService.js';
+import { documentParser } from '../../documentParser.js';
+import * as documentStorage from '../../storage/documentStorage.js';
+import { SearchService } from '../searchService.js';
+
+import type { Document, DocumentAnalysis } from '../../../../../shared/src/types.js';
+
+vi.mock('../../../repositories/documentRepository.js', () => ({
+  findAll: vi.fn(),
+}));
+
+vi.mock('../../../repositories/analysisRepository.js', () => ({
+  findByDocumentId: vi.fn(),
+}));
+
+vi.mock('../../../repositories/visualizationService.js', () => ({
+  visualizationService: {
+    findByDocumentIdAndType: vi.fn(),
+  },
+}));
+
+vi.mock('../../storage/documentStorage.js', () => ({
+  downloadDocument: vi.fn(),
+}));
+
+vi.mock('../../documentParser.js', () => ({
+  documentParser: {
+    parseDocument: vi.fn(),
+  },
+}));
+
+const makeDocument = (id: string, content: string): Document => ({
+  id,
+  title: `${id}.md`,
+  content,
+  metadata: { wordCount: 10, uploadDate: new Date(), fileType: 'text/markdown', language: 'en' },
+  structure: {
+    sections: [{
+      id: `${id}-s1`,
+      level: 1,
+      title: 'Overview',
+      content,
+      startIndex: 0,
+      endIndex: content.length,
+      summary: '',
+      keywords: [],
+      children: [],
+    }],
+    hierarchy: [],
+  },
+});
+
+const analysis = {
+  tldr: { text: 'Grid storage is getting cheaper' },
+  executiveSummary: { headline: 'Battery economics', keyIdeas: [] },
+  entities: [{ id: 'e1', text: 'Tesla', type: 'organization', mentions: [], importance: 1 }],
+} as unknown as DocumentAnalysis;
+
+describe('SearchService', () => {
+  let llmClient: { embed: ReturnType<typeof vi.fn> };
+  let service: SearchService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    llmClient = { embed: vi.fn().mockResolvedValue(null) };
+    service = new SearchService(llmClient as any);
+  });
+
+  it('indexes content, analysis and glossary', async () => {
+    await service.indexDocument('user-1', makeDocument('doc-1', 'Lithium prices fell sharply.'), analysis);
+    await service.indexGlossary('doc-1', [
+      { id: 't1', term: 'LFP', definition: 'Lithium iron phosphate chemistry', type: 'acronym', confidence: 1, mentions: 2 },
+    ]);
+
+    const byContent = await service.search('user-1', 'lithium');
+    expect(byContent.total).toBe(1);
+    expect(byContent.documents[0]).toMatchObject({ id: 'doc-1', summaryHeadline: 'Battery economics' });
+    expect(byContent.results![0].snippets.map((snippet) => snippet.field)).toEqual(
+      expect.arrayContaining(['section', 'glossary']),
+    );
+
+    const byEntity = await service.search('user-1', 'tesla', { entityTypes: ['organization'] });
+    expect(byEntity.results![0].snippets[0]).toMatchObject({ field: 'entity', entityType: 'organization' });
+
+    expect((await service.search('user-2', 'lithium')).total).toBe(0);
+  });
+
+  it('pages results', async () => {
+    for (const id of ['a', 'b', 'c']) {
+      await service.indexDocument('user-1', makeDocument(id, 'solar panels'));
+    }
+
+    const page = await service.search('user-1', 'solar', { limit: 2, offset: 1 });
+
+    expect(page.total).toBe(3);
+    expect(page.documents).toHaveLength(2);
+    expect(page.semantic).toBe(false);
+  });
+
+  it('uses embeddings for semantic search when available', async () => {
+    llmClient.embed.mockImplementation(async (inputs: string[]) => inputs.map(() => [1, 0]));
+    await service.indexDocument('user-1', makeDocument('doc-1', 'Lithium prices fell sharply.'));
+
+    const response = await service.search('user-1', 'battery costs', { semantic: true });
+
+    expect(response.semantic).toBe(true);
+    expect(response.documents.map((doc) => doc.id)).toEqual(['doc-1']);
+  });
+
+  it('falls back to keyword search when embedding fails', async () => {
+    llmClient.embed.mockRejectedValue(new Error('embedding model offline'));
+    await service.indexDocument('user-1', makeDocument('doc-1', 'Lithium prices fell sharply.'));
+
+    const response = await service.search('user-1', 'lithium', { semantic: true });
+
+    expect(response.semantic).toBe(false);
+    expect(response.total).toBe(1);
+  });
+
+  it('rebuilds the index from storage and skips documents that fail to load', async () => {
+    vi.mocked(documentRepository.findAll).mockResolvedValue([
+      { documentId: 'doc-1', userId: 'user-1', filename: 'one.md', s3Key: 'k1', uploadedAt: '2024-02-01T00:00:00Z' },
+      { documentId: 'doc-2', userId: 'user-1', filename: 'two.md', s3Key: 'k2', uploadedAt: '2024-02-02T00:00:00Z' },
+    ] as any);
+    vi.mocked(documentStorage.downloadDocument).mockImplementation(async (key) => {
+      if (key === 'k2') throw new Error('missing object');
+      return Buffer.from('Offshore wind capacity doubled.');
+    });
+    vi.mocked(documentParser.parseDocument).mockImplementation(async (buffer, _filename, id) =>
+      makeDocument(id!, buffer.toString()));
+    vi.mocked(analysisRepository.findByDocumentId).mockResolvedValue({ analysis } as any);
+    vi.mocked(visualizationService.findByDocumentIdAndType).mockResolvedValue({
+      visualizationData: {
+        terms: [{ id: 't1', term: 'Capacity factor', definition: 'Share of maximum output', type: 'technical' }],
+      },
+    } as any);
+
+    expect(await service.rebuildFromStorage()).toBe(1);
+
+    const response = await service.search('user-1', 'capacity');
+    expect(response.documents.map((doc) => doc.id)).toEqual(['doc-1']);
+    expect(new Date(response.documents[0].uploadDate).toISOString()).toBe('2024-02-01T00:00:00.000Z');
+    expect((await service.search('user-1', 'grid storage')).total).toBe(1);
+  });
+});
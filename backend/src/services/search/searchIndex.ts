@@ -0,0 +1,381 @@
+import type {
+  EntityType,
+  SearchField,
+  SearchSnippet,
+} from '../../../../shared/src/types.js';
+
+/**
+ * One searchable unit of a document: its title, a section, a summary,
+ * an entity or a glossary term
+ */
+export interface Passage {
+  field: SearchField;
+  text: string;
+  sectionId?: string;
+  sectionTitle?: string;
+  entityType?: EntityType;
+}
+
+export interface IndexedDocumentInfo {
+  documentId: string;
+  userId: string;
+  fileType: string;
+  uploadDate: Date;
+  entityTypes: EntityType[];
+}
+
+export interface ParsedQuery {
+  terms: string[];
+  phrases: string[][];
+}
+
+export interface SearchFilter {
+  userId: string;
+  fileTypes?: string[];
+  from?: Date;
+  to?: Date;
+  entityTypes?: EntityType[];
+}
+
+export interface SearchHit {
+  documentId: string;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedPassage extends Passage {
+  id: string;
+  documentId: string;
+  tokens: Token[];
+  termFrequencies: Map<string, number>;
+  vector?: number[];
+}
+
+interface RankedDocument {
+  documentId: string;
+  score: number;
+  passages: IndexedPassage[];
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Reciprocal rank fusion constant for combining keyword and semantic rankings
+const RRF_K = 60;
+
+// Passages less similar than this to the query are not semantic matches
+const MIN_SIMILARITY = 0.3;
+
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  glossary: 2,
+  entity: 2,
+  summary: 1.5,
+  section: 1,
+  content: 1,
+};
+
+const SNIPPET_LENGTH = 200;
+const MAX_SNIPPETS = 3;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Lowercase and drop a plural "s" so "Policies" matches "policy"
+ */
+export function normalizeTerm(word: string): string {
+  const term = word.toLowerCase();
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+}
+
+export function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(WORD), (match) => ({
+    term: normalizeTerm(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * Split a query into loose terms and "quoted phrases". Phrase words also
+ * count as terms for ranking.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const phrases: string[][] = [];
+  const loose = query.replace(/"([^"]*)"/g, (_match, phrase: string) => {
+    const words = tokenize(phrase).map((token) => token.term);
+    if (words.length > 0) phrases.push(words);
+    return ' ';
+  });
+
+  const terms = new Set(tokenize(loose).map((token) => token.term));
+  for (const phrase of phrases) {
+    phrase.forEach((term) => terms.add(term));
+  }
+  return { terms: Array.from(terms), phrases };
+}
+
+function containsPhrase(tokens: Token[], phrase: string[]): boolean {
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((term, offset) => tokens[i + offset].term === term)) return true;
+  }
+  return false;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * A window of the passage around its first match, with the matched words'
+ * offsets so clients can highlight them without parsing markup
+ */
+function buildSnippet(passage: IndexedPassage, terms: Set<string>): SearchSnippet {
+  const matches = passage.tokens.filter((token) => terms.has(token.term));
+  const first = matches[0];
+
+  let start = 0;
+  if (first && first.start > SNIPPET_LENGTH / 3) {
+    start = passage.text.lastIndexOf(' ', first.start - SNIPPET_LENGTH / 3) + 1;
+  }
+  let end = Math.min(passage.text.length, start + SNIPPET_LENGTH);
+  if (end < passage.text.length) {
+    const space = passage.text.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < passage.text.length ? '…' : '';
+  const highlights = matches
+    .filter((token) => token.start >= start && token.end <= end)
+    .map((token) => ({
+      start: token.start - start + prefix.length,
+      end: token.end - start + prefix.length,
+    }));
+
+  return {
+    field: passage.field,
+    text: `${prefix}${passage.text.slice(start, end).replace(/\s/g, ' ')}${suffix}`,
+    highlights,
+    sectionId: passage.sectionId,
+    sectionTitle: passage.sectionTitle,
+    entityType: passage.entityType,
+  };
+}
+
+/**
+ * In-memory inverted index over document passages with BM25 ranking,
+ * phrase matching and optional embedding similarity
+ */
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocumentInfo>();
+  private passages = new Map<string, IndexedPassage>();
+  private passagesByDocument = new Map<string, string[]>();
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(documentId: string): boolean {
+    return this.documents.has(documentId);
+  }
+
+  /**
+   * Add a document, replacing any passages indexed for it before
+   */
+  addDocument(info: IndexedDocumentInfo, passages: Passage[]): void {
+    this.removeDocument(info.documentId);
+    this.documents.set(info.documentId, info);
+
+    const ids: string[] = [];
+    passages.forEach((passage, index) => {
+      const tokens = tokenize(passage.text);
+      if (tokens.length === 0) return;
+
+      const id = `${info.documentId}#${index}`;
+      const termFrequencies = new Map<string, number>();
+      for (const { term } of tokens) {
+        termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Set();
+          this.postings.set(term, posting);
+        }
+        posting.add(id);
+      }
+
+      this.passages.set(id, { ...passage, id, documentId: info.documentId, tokens, termFrequencies });
+      this.totalLength += tokens.length;
+      ids.push(id);
+    });
+    this.passagesByDocument.set(info.documentId, ids);
+  }
+
+  removeDocument(documentId: string): void {
+    for (const id of this.passagesByDocument.get(documentId) || []) {
+      const passage = this.passages.get(id)!;
+      for (const term of passage.termFrequencies.keys()) {
+        const posting = this.postings.get(term)!;
+        posting.delete(id);
+        if (posting.size === 0) this.postings.delete(term);
+      }
+      this.totalLength -= passage.tokens.length;
+      this.passages.delete(id);
+    }
+    this.passagesByDocument.delete(documentId);
+    this.documents.delete(documentId);
+  }
+
+  /**
+   * Passages of a document in index order, for embedding
+   */
+  getPassages(documentId: string): Array<{ id: string; text: string }> {
+    return (this.passagesByDocument.get(documentId) || [])
+      .map((id) => this.passages.get(id)!)
+      .map(({ id, text }) => ({ id, text }));
+  }
+
+  setVector(passageId: string, vector: number[]): void {
+    const passage = this.passages.get(passageId);
+    if (passage) passage.vector = vector;
+  }
+
+  /**
+   * Rank the documents matching `filter`. With `queryVector`, the BM25
+   * ranking is fused with the embedding-similarity ranking of passages.
+   */
+  search(query: ParsedQuery, filter: SearchFilter, queryVector?: number[]): SearchHit[] {
+    const matchesFilter = (documentId: string) => {
+      const info = this.documents.get(documentId);
+      if (!info || info.userId !== filter.userId) return false;
+      if (filter.fileTypes?.length && !filter.fileTypes.includes(info.fileType)) return false;
+      if (filter.from && info.uploadDate < filter.from) return false;
+      if (filter.to && info.uploadDate > filter.to) return false;
+      if (filter.entityTypes?.length
+        && !filter.entityTypes.some((type) => info.entityTypes.includes(type))) return false;
+      return true;
+    };
+
+    const terms = new Set(query.terms);
+    const keyword = this.keywordSearch(query, matchesFilter);
+    if (!queryVector) {
+      return keyword.map((ranked) => this.toHit(ranked, terms));
+    }
+
+    // Reciprocal rank fusion; keyword passages are preferred for snippets
+    const fused = new Map<string, RankedDocument>();
+    for (const ranking of [keyword, this.semanticSearch(queryVector, matchesFilter)]) {
+      ranking.forEach(({ documentId, passages }, rank) => {
+        const entry = fused.get(documentId) || { documentId, score: 0, passages };
+        entry.score += 1 / (RRF_K + rank + 1);
+        fused.set(documentId, entry);
+      });
+    }
+
+    return Array.from(fused.values())
+      .sort((a, b) => b.score - a.score || this.newestFirst(a.documentId, b.documentId))
+      .map((ranked) => this.toHit(ranked, terms));
+  }
+
+  /**
+   * BM25 over passages, field-boosted; a document scores its best passage
+   * plus a decaying share of the next ones
+   */
+  private keywordSearch(
+    query: ParsedQuery,
+    matchesFilter: (documentId: string) => boolean,
+  ): RankedDocument[] {
+    if (query.terms.length === 0 || this.passages.size === 0) return [];
+
+    const averageLength = this.totalLength / this.passages.size;
+    const passageScores = new Map<string, number>();
+
+    for (const term of query.terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(1 + (this.passages.size - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const id of posting) {
+        const passage = this.passages.get(id)!;
+        if (!matchesFilter(passage.documentId)) continue;
+        const tf = passage.termFrequencies.get(term)!;
+        const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * passage.tokens.length / averageLength));
+        passageScores.set(id, (passageScores.get(id) || 0) + idf * norm * FIELD_BOOSTS[passage.field]);
+      }
+    }
+
+    const byDocument = new Map<string, Array<{ passage: IndexedPassage; score: number }>>();
+    for (const [id, score] of passageScores) {
+      const passage = this.passages.get(id)!;
+      if (!query.phrases.every((phrase) => containsPhrase(passage.tokens, phrase))) continue;
+      const list = byDocument.get(passage.documentId) || [];
+      list.push({ passage, score });
+      byDocument.set(passage.documentId, list);
+    }
+
+    return Array.from(byDocument.entries())
+      .map(([documentId, list]) => {
+        list.sort((a, b) => b.score - a.score);
+        return {
+          documentId,
+          score: list
+            .slice(0, MAX_SNIPPETS)
+            .reduce((sum, { score }, index) => sum + score / 2 ** index, 0),
+          passages: list.map(({ passage }) => passage),
+        };
+      })
+      .sort((a, b) => b.score - a.score || this.newestFirst(a.documentId, b.documentId));
+  }
+
+  /**
+   * Documents ranked by their passage most similar to the query
+   */
+  private semanticSearch(
+    queryVector: number[],
+    matchesFilter: (documentId: string) => boolean,
+  ): RankedDocument[] {
+    const best = new Map<string, RankedDocument>();
+    for (const passage of this.passages.values()) {
+      if (!passage.vector || !matchesFilter(passage.documentId)) continue;
+      const score = cosineSimilarity(queryVector, passage.vector);
+      if (score < MIN_SIMILARITY) continue;
+      const current = best.get(passage.documentId);
+      if (!current || score > current.score) {
+        best.set(passage.documentId, { documentId: passage.documentId, score, passages: [passage] });
+      }
+    }
+
+    return Array.from(best.values()).sort((a, b) => b.score - a.score);
+  }
+
+  private newestFirst(a: string, b: string): number {
+    return this.documents.get(b)!.uploadDate.getTime() - this.documents.get(a)!.uploadDate.getTime();
+  }
+
+  private toHit({ documentId, score, passages }: RankedDocument, terms: Set<string>): SearchHit {
+    return {
+      documentId,
+      score,
+      snippets: passages.slice(0, MAX_SNIPPETS).map((passage) => buildSnippet(passage, terms)),
+    };
+  }
+}
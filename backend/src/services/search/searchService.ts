@@ -0,0 +1,258 @@
+import * as analysisRepository from '../../repositories/analysisRepository.js';
+import * as documentRepository from '../../repositories/documentRepository.js';
+import { visualizationService } from '../../repositories/visualizationService.js';
+import { documentParser } from '../documentParser.js';
+import { getOpenRouterClient, OpenRouterClient } from '../llm/openRouterClient.js';
+import * as documentStorage from '../storage/documentStorage.js';
+
+import { parseQuery, SearchIndex } from './searchIndex.js';
+
+import type { Passage, SearchFilter } from './searchIndex.js';
+import type {
+  Document,
+  DocumentAnalysis,
+  GlossaryTerm,
+  SearchDocumentsResponse,
+  Section,
+} from '../../../../shared/src/types.js';
+
+export interface SearchOptions extends Omit<SearchFilter, 'userId'> {
+  limit?: number;
+  offset?: number;
+  /** Fuse embedding similarity into the ranking when embeddings are available */
+  semantic?: boolean;
+}
+
+// Documents without sections are indexed in chunks of this many words
+const CONTENT_CHUNK_WORDS = 150;
+
+// Passages are truncated to this many characters before embedding
+const EMBEDDING_INPUT_LENGTH = 2000;
+
+interface StoredDocument {
+  userId: string;
+  document: Document;
+  analysis?: DocumentAnalysis;
+  glossary?: GlossaryTerm[];
+}
+
+function flattenSections(sections: Section[]): Section[] {
+  return sections.flatMap((section) => [section, ...flattenSections(section.children || [])]);
+}
+
+function chunkContent(content: string): string[] {
+  const words = content.split(/\s+/).filter(Boolean);
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += CONTENT_CHUNK_WORDS) {
+    chunks.push(words.slice(i, i + CONTENT_CHUNK_WORDS).join(' '));
+  }
+  return chunks;
+}
+
+/**
+ * Everything searchable in a document, as passages. Sections carry their id
+ * so results can link to them.
+ */
+export function buildPassages({ document, analysis, glossary }: Omit<StoredDocument, 'userId'>): Passage[] {
+  const passages: Passage[] = [{ field: 'title', text: document.title }];
+
+  const sections = flattenSections(document.structure?.sections || []);
+  for (const section of sections) {
+    const anchor = { sectionId: section.id, sectionTitle: section.title };
+    passages.push({ field: 'section', text: `${section.title}\n${section.content}`, ...anchor });
+    if (section.summary) {
+      passages.push({ field: 'summary', text: section.summary, ...anchor });
+    }
+  }
+  if (sections.length === 0) {
+    passages.push(...chunkContent(document.content).map((text) => ({ field: 'content' as const, text })));
+  }
+
+  if (analysis) {
+    if (analysis.tldr?.text) {
+      passages.push({ field: 'summary', text: analysis.tldr.text });
+    }
+    const summary = analysis.executiveSummary;
+    if (summary) {
+      passages.push({
+        field: 'summary',
+        text: [summary.headline, ...(summary.keyIdeas || [])].filter(Boolean).join('\n'),
+      });
+    }
+    for (const entity of analysis.entities || []) {
+      passages.push({
+        field: 'entity',
+        text: entity.context ? `${entity.text}: ${entity.context}` : entity.text,
+        entityType: entity.type,
+      });
+    }
+  }
+
+  for (const term of glossary || []) {
+    passages.push({ field: 'glossary', text: `${term.term}: ${term.definition}` });
+  }
+
+  return passages;
+}
+
+/**
+ * Full-text (and optionally semantic) search over users' documents. The index
+ * lives in memory: documents are indexed as they are uploaded, analyzed and
+ * given a glossary, and the whole index is rebuilt from storage on startup.
+ */
+export class SearchService {
+  private index = new SearchIndex();
+  private stored = new Map<string, StoredDocument>();
+  private _llmClient: OpenRouterClient | null;
+
+  constructor(llmClient?: OpenRouterClient) {
+    this._llmClient = llmClient || null;
+  }
+
+  private get llmClient(): OpenRouterClient {
+    return this._llmClient || getOpenRouterClient();
+  }
+
+  /**
+   * Index (or re-index) a document. Keyword search sees it immediately;
+   * passage embeddings are added once computed when EMBEDDING_MODEL is set.
+   */
+  async indexDocument(
+    userId: string,
+    document: Document,
+    analysis?: DocumentAnalysis,
+    glossary?: GlossaryTerm[],
+  ): Promise<void> {
+    const previous = this.stored.get(document.id);
+    const entry: StoredDocument = {
+      userId,
+      document,
+      analysis: analysis ?? previous?.analysis,
+      glossary: glossary ?? previous?.glossary,
+    };
+    this.stored.set(document.id, entry);
+
+    this.index.addDocument(
+      {
+        documentId: document.id,
+        userId,
+        fileType: document.metadata.fileType,
+        uploadDate: new Date(document.metadata.uploadDate),
+        entityTypes: Array.from(new Set((entry.analysis?.entities || []).map((entity) => entity.type))),
+      },
+      buildPassages(entry),
+    );
+
+    await this.embedDocument(document.id);
+  }
+
+  /**
+   * Add the glossary of a generated terms-definitions visualization
+   */
+  async indexGlossary(documentId: string, glossary: GlossaryTerm[]): Promise<void> {
+    const entry = this.stored.get(documentId);
+    if (!entry) return;
+    await this.indexDocument(entry.userId, entry.document, entry.analysis, glossary);
+  }
+
+  removeDocument(documentId: string): void {
+    this.index.removeDocument(documentId);
+    this.stored.delete(documentId);
+  }
+
+  /**
+   * Index every stored document: content from object storage, plus the
+   * persisted analysis and glossary. Documents that fail to load are skipped.
+   */
+  async rebuildFromStorage(): Promise<number> {
+    const records = await documentRepository.findAll();
+    let indexed = 0;
+
+    for (const record of records) {
+      try {
+        const buffer = await documentStorage.downloadDocument(record.s3Key);
+        const document = await documentParser.parseDocument(buffer, record.filename, record.documentId);
+        document.metadata.uploadDate = new Date(record.uploadedAt);
+
+        const analysisRecord = await analysisRepository.findByDocumentId(record.documentId);
+        const glossary = await visualizationService.findByDocumentIdAndType(
+          record.documentId,
+          'terms-definitions',
+        );
+
+        await this.indexDocument(
+          record.userId,
+          document,
+          analysisRecord?.analysis,
+          glossary?.visualizationData?.terms,
+        );
+        indexed++;
+      } catch (error) {
+        console.warn(
+          `⚠️ Skipping ${record.documentId} in search index rebuild:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+
+    console.log(`🔎 Search index rebuilt: ${indexed}/${records.length} document(s)`);
+    return indexed;
+  }
+
+  async search(userId: string, query: string, options: SearchOptions = {}): Promise<SearchDocumentsResponse> {
+    const { limit = 20, offset = 0, semantic = false, ...filters } = options;
+
+    const queryVector = semantic ? await this.embedQuery(query) : undefined;
+    const hits = this.index.search(parseQuery(query), { ...filters, userId }, queryVector);
+    const page = hits.slice(offset, offset + limit);
+
+    return {
+      documents: page.map((hit) => {
+        const { document, analysis } = this.stored.get(hit.documentId)!;
+        return {
+          id: document.id,
+          title: document.title,
+          fileType: document.metadata.fileType,
+          uploadDate: document.metadata.uploadDate,
+          tldr: analysis?.tldr,
+          summaryHeadline: analysis?.executiveSummary?.headline,
+          wordCount: document.metadata.wordCount,
+        };
+      }),
+      results: page,
+      total: hits.length,
+      query,
+      semantic: !!queryVector,
+    };
+  }
+
+  private async embedDocument(documentId: string): Promise<void> {
+    const passages = this.index.getPassages(documentId);
+    try {
+      const vectors = await this.llmClient.embed(
+        passages.map(({ text }) => text.slice(0, EMBEDDING_INPUT_LENGTH)),
+      );
+      vectors?.forEach((vector, i) => this.index.setVector(passages[i].id, vector));
+    } catch (error) {
+      console.warn(
+        `⚠️ Failed to embed ${documentId} for search, keyword search only:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  private async embedQuery(query: string): Promise<number[] | undefined> {
+    try {
+      const vectors = await this.llmClient.embed([query]);
+      return vectors?.[0];
+    } catch (error) {
+      console.warn(
+        '⚠️ Failed to embed search query, keyword search only:',
+        error instanceof Error ? error.message : error,
+      );
+      return undefined;
+    }
+  }
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,36 @@
+import fs from 'fs';
+import path from 'path';
+
+import { describe, it, expect, vi, afterAll } from 'vitest';
+
+import { uploadDocument, downloadDocument, deleteDocument } from '../localFileStorage.js';
+
+const { storageDir } = vi.hoisted(() => ({
+  storageDir: `${process.env.TMPDIR || '/tmp'}/vaisu-storage-${process.pid}`,
+}));
+
+vi.mock('../../../config/storage.js', () => ({
+  LOCAL_STORAGE_DIR: storageDir,
+}));
+
+describe('localFileStorage', () => {
+  afterAll(() => {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('writes, reads and deletes documents under the storage directory', async () => {
+    const result = await uploadDocument('abc123', 'test.txt', Buffer.from('test content'));
+
+    expect(result.key).toBe('documents/abc123/test.txt');
+    expect(result.path).toBe(`file://${path.join(storageDir, 'documents/abc123/test.txt')}`);
+    expect((await downloadDocument(result.key)).toString()).toBe('test content');
+
+    await deleteDocument(result.key);
+    await expect(downloadDocument(result.key)).rejects.toThrow();
+  });
+
+  it('rejects keys that escape the storage directory', async () => {
+    await expect(uploadDocument('abc123', '../../../escape.txt', Buffer.from('x')))
+      .rejects.toThrow('Invalid storage key');
+  });
+});
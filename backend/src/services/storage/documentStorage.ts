@@ -0,0 +1,35 @@
+import { isSqliteStorage } from '../../config/storage.js';
+
+import * as localFileStorage from './localFileStorage.js';
+import * as s3Storage from './s3Storage.js';
+
+import type { DocumentStorage } from './types.js';
+import type { S3UploadResult } from '../../repositories/types.js';
+
+// Self-hosted deployments (STORAGE_BACKEND=sqlite) keep files on local disk
+const storage: DocumentStorage = isSqliteStorage() ? localFileStorage : s3Storage;
+
+/**
+ * Store document content under its hash and filename
+ */
+export async function uploadDocument(
+  hash: string,
+  filename: string,
+  content: Buffer,
+): Promise<S3UploadResult> {
+  return storage.uploadDocument(hash, filename, content);
+}
+
+/**
+ * Read document content by storage key
+ */
+export async function downloadDocument(key: string): Promise<Buffer> {
+  return storage.downloadDocument(key);
+}
+
+/**
+ * Delete document content by storage key
+ */
+export async function deleteDocument(key: string): Promise<void> {
+  await storage.deleteDocument(key);
+}
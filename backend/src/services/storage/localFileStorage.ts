@@ -0,0 +1,56 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import { LOCAL_STORAGE_DIR } from '../../config/storage.js';
+
+import { buildS3Key } from './s3Storage.js';
+
+import type { S3UploadResult } from '../../repositories/types.js';
+
+/**
+ * Resolve a storage key to a file under LOCAL_STORAGE_DIR, rejecting keys
+ * (e.g. from crafted filenames) that would escape it
+ */
+function resolveKey(key: string): string {
+  const root = path.resolve(LOCAL_STORAGE_DIR);
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+}
+
+/**
+ * Write document to the local storage directory
+ */
+export async function uploadDocument(
+  hash: string,
+  filename: string,
+  content: Buffer,
+): Promise<S3UploadResult> {
+  const key = buildS3Key(hash, filename);
+  const filePath = resolveKey(key);
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+
+  return {
+    bucket: 'local',
+    key,
+    path: `file://${filePath}`,
+  };
+}
+
+/**
+ * Read document from the local storage directory
+ */
+export async function downloadDocument(key: string): Promise<Buffer> {
+  return fs.readFile(resolveKey(key));
+}
+
+/**
+ * Delete document from the local storage directory
+ */
+export async function deleteDocument(key: string): Promise<void> {
+  await fs.rm(resolveKey(key), { force: true });
+}
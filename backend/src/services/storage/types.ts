@@ -0,0 +1,11 @@
+import type { S3UploadResult } from '../../repositories/types.js';
+
+/**
+ * Where uploaded document files live. Keys are built by `buildS3Key` and kept
+ * on the document record (`s3Key`) whichever backend stored the file.
+ */
+export interface DocumentStorage {
+  uploadDocument(hash: string, filename: string, content: Buffer): Promise<S3UploadResult>;
+  downloadDocument(key: string): Promise<Buffer>;
+  deleteDocument(key: string): Promise<void>;
+}
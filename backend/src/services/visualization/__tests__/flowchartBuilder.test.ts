@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+
+import { normalizeFlowchart, validateFlowchart } from '../flowchartBuilder.js';
+
+describe('normalizeFlowchart', () => {
+  it('drops dangling and duplicate edges and defaults unknown node types', () => {
+    const flowchart = normalizeFlowchart({
+      nodes: [
+        { id: 'a', type: 'start', label: 'Begin' },
+        { id: 'b', type: 'task' as any, label: '  Do work ' },
+        { id: 'b', type: 'end', label: 'Duplicate id' },
+      ],
+      edges: [
+        { source: 'a', target: 'b' },
+        { source: 'a', target: 'b' },
+        { source: 'b', target: 'missing' },
+      ],
+    });
+
+    expect(flowchart.nodes.map((n) => [n.id, n.type, n.label])).toEqual([
+      ['a', 'start', 'Begin'],
+      ['b', 'process', 'Do work'],
+    ]);
+    expect(flowchart.edges).toHaveLength(1);
+    expect(flowchart.layout).toBe('topToBottom');
+    expect(flowchart.swimlanes).toBeUndefined();
+  });
+
+  it('resolves swimlanes by id or label and adds undeclared ones', () => {
+    const flowchart = normalizeFlowchart({
+      swimlanes: [{ id: 'lane-ops', label: 'Operations' }],
+      nodes: [
+        { id: 'a', type: 'start', label: 'Begin', swimlane: 'lane-ops' },
+        { id: 'b', type: 'process', label: 'Check', swimlane: 'operations' },
+        { id: 'c', type: 'end', label: 'Sign off', swimlane: 'Finance' },
+      ],
+      edges: [],
+    });
+
+    expect(flowchart.nodes.map((n) => n.swimlane)).toEqual(['lane-ops', 'lane-ops', 'lane-1']);
+    expect(flowchart.swimlanes?.map((l) => l.label)).toEqual(['Operations', 'Finance']);
+    expect(flowchart.swimlanes?.[0].color).not.toBe(flowchart.swimlanes?.[1].color);
+  });
+
+  it('marks edges back to an earlier step as loop edges', () => {
+    const flowchart = normalizeFlowchart({
+      nodes: [
+        { id: 'start', type: 'start', label: 'Begin' },
+        { id: 'test', type: 'process', label: 'Run tests' },
+        { id: 'pass', type: 'decision', label: 'Passing?' },
+        { id: 'done', type: 'end', label: 'Release' },
+      ],
+      edges: [
+        { source: 'start', target: 'test' },
+        { source: 'test', target: 'pass' },
+        { source: 'pass', target: 'test', label: 'No' },
+        { source: 'pass', target: 'done', label: 'Yes' },
+      ],
+    });
+
+    expect(flowchart.edges.map((e) => [e.label, e.type])).toEqual([
+      [undefined, 'solid'],
+      [undefined, 'solid'],
+      ['No', 'dashed'],
+      ['Yes', 'solid'],
+    ]);
+  });
+
+  it('promotes a single entry point to the start node when none is typed', () => {
+    const flowchart = normalizeFlowchart({
+      nodes: [
+        { id: 'a', type: 'process', label: 'Receive order' },
+        { id: 'b', type: 'end', label: 'Ship' },
+      ],
+      edges: [{ source: 'a', target: 'b' }],
+    });
+
+    expect(flowchart.nodes[0].type).toBe('start');
+  });
+});
+
+describe('validateFlowchart', () => {
+  const base = normalizeFlowchart({
+    nodes: [
+      { id: 'start', type: 'start', label: 'Begin' },
+      { id: 'check', type: 'decision', label: 'Valid?' },
+      { id: 'end', type: 'end', label: 'Done' },
+    ],
+    edges: [
+      { source: 'start', target: 'check' },
+      { source: 'check', target: 'end', label: 'Yes' },
+      { source: 'check', target: 'start', label: 'No' },
+    ],
+  });
+
+  it('accepts a well-formed process', () => {
+    expect(validateFlowchart(base)).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('requires exactly one start node', () => {
+    const twoStarts = {
+      ...base,
+      nodes: base.nodes.map((n) => (n.id === 'end' ? { ...n, type: 'start' as const } : n)),
+    };
+
+    expect(validateFlowchart(twoStarts).errors).toEqual(['expected exactly one start node, found 2']);
+    expect(validateFlowchart({ ...base, nodes: [] }).errors).toEqual(['flowchart has no nodes']);
+  });
+
+  it('reports nodes that cannot be reached from the start', () => {
+    const orphan = {
+      ...base,
+      nodes: [...base.nodes, { id: 'x', type: 'process' as const, label: 'Orphan', description: '' }],
+    };
+
+    expect(validateFlowchart(orphan).errors).toEqual([
+      '1 node(s) not reachable from the start: "Orphan"',
+    ]);
+  });
+
+  it('warns about decisions without labelled branches', () => {
+    const unlabelled = {
+      ...base,
+      edges: base.edges.map((e) => ({ ...e, label: undefined })),
+    };
+
+    expect(validateFlowchart(unlabelled).warnings).toEqual(['decision "Valid?" has unlabelled branches']);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  findCriticalPath,
+  normalizeGantt,
+  parseDuration,
+  validateGantt,
+} from '../ganttBuilder.js';
+
+const day = (iso: string) => iso.slice(0, 10);
+
+describe('parseDuration', () => {
+  it('reads numbers and unit phrases as days', () => {
+    expect(parseDuration(5)).toBe(5);
+    expect(parseDuration('10')).toBe(10);
+    expect(parseDuration('3 weeks')).toBe(21);
+    expect(parseDuration('a month')).toBe(30);
+    expect(parseDuration('two-week sprint')).toBe(14);
+    expect(parseDuration('soon')).toBeUndefined();
+  });
+});
+
+describe('normalizeGantt', () => {
+  it('schedules tasks after their dependencies and marks derived dates as estimated', () => {
+    const gantt = normalizeGantt({
+      tasks: [
+        { id: 'kickoff', name: 'Kickoff', start: 'March 4, 2024', milestone: true },
+        { id: 'audit', name: 'Audit', duration: '2 weeks', dependencies: ['kickoff'] },
+        { id: 'build', name: 'Build', duration: 10, dependencies: ['Audit'] },
+      ],
+    });
+
+    const [kickoff, audit, build] = gantt.tasks;
+    expect(day(kickoff.start)).toBe('2024-03-04');
+    expect(kickoff.end).toBe(kickoff.start);
+    expect(kickoff.estimated).toBe(false);
+    expect([day(audit.start), day(audit.end)]).toEqual(['2024-03-04', '2024-03-18']);
+    expect(audit.estimated).toBe(true);
+    expect(build.dependencies).toEqual(['audit']);
+    expect(day(build.end)).toBe('2024-03-28');
+    expect(gantt.criticalPath).toEqual(['kickoff', 'audit', 'build']);
+    expect(day(gantt.end)).toBe('2024-03-28');
+  });
+
+  it('spans fuzzy periods and resolves dates relative to earlier tasks', () => {
+    const gantt = normalizeGantt({
+      tasks: [
+        { id: 'launch', name: 'Launch', start: 'June 3, 2024', milestone: true },
+        { id: 'review', name: 'Post-launch review', start: 'two weeks after launch', duration: '1 week' },
+        { id: 'migrate', name: 'Migrate EU customers', start: 'Q3 2024', end: 'Q3 2024' },
+      ],
+    });
+
+    const byId = new Map(gantt.tasks.map((task) => [task.id, task]));
+    expect(day(byId.get('review')!.start)).toBe('2024-06-17');
+    expect(byId.get('review')!.startText).toBe('two weeks after launch');
+    expect(day(byId.get('migrate')!.start)).toBe('2024-07-01');
+    expect(day(byId.get('migrate')!.end)).toBe('2024-09-30');
+    expect(byId.get('migrate')!.estimated).toBe(false);
+  });
+
+  it('drops unknown, duplicate and cyclic dependencies', () => {
+    const gantt = normalizeGantt({
+      tasks: [
+        { id: 'a', name: 'A', start: '2024-01-01', dependencies: ['b', 'missing', 'a'] },
+        { id: 'b', name: 'B', dependencies: ['a', 'a'] },
+        { id: 'a', name: 'Duplicate id' },
+        { name: '  ' },
+      ],
+    });
+
+    expect(gantt.tasks.map((task) => task.id)).toEqual(['a', 'b']);
+    const deps = gantt.tasks.map((task) => task.dependencies);
+    expect(deps.flat()).toHaveLength(1);
+  });
+
+  it('resolves phases by id or name, adds undeclared ones and clamps progress', () => {
+    const gantt = normalizeGantt({
+      phases: [{ id: 'discovery', name: 'Discovery' }],
+      tasks: [
+        { id: 'a', name: 'A', start: '2024-01-01', phase: 'discovery', progress: 1.4 },
+        { id: 'b', name: 'B', start: '2024-01-02', phase: 'DISCOVERY', status: 'completed' },
+        { id: 'c', name: 'C', start: '2024-01-03', phase: 'Rollout', status: 'unknown' },
+      ],
+    });
+
+    expect(gantt.tasks.map((task) => task.phaseId)).toEqual(['discovery', 'discovery', 'phase-1']);
+    expect(gantt.phases.map((phase) => phase.name)).toEqual(['Discovery', 'Rollout']);
+    expect(gantt.tasks.map((task) => task.progress)).toEqual([1, 1, 0]);
+    expect(gantt.tasks[2].status).toBeUndefined();
+  });
+
+  it('locates the quote of each task', () => {
+    const content = 'We kick off on March 4, 2024.';
+    const gantt = normalizeGantt(
+      { tasks: [{ id: 'k', name: 'Kickoff', start: 'March 4, 2024', quote: 'kick off' }] },
+      { locate: (quote) => ({ start: content.indexOf(quote), end: content.indexOf(quote) + quote.length, text: quote }) },
+    );
+
+    expect(gantt.tasks[0].source).toEqual({ start: 3, end: 11, text: 'kick off' });
+  });
+});
+
+describe('findCriticalPath', () => {
+  it('is empty when the last task has no dependencies', () => {
+    const gantt = normalizeGantt({
+      tasks: [
+        { id: 'a', name: 'A', start: '2024-01-01', end: '2024-01-10' },
+        { id: 'b', name: 'B', start: '2024-01-01', end: '2024-02-01' },
+      ],
+    });
+
+    expect(findCriticalPath(gantt.tasks)).toEqual([]);
+  });
+});
+
+describe('validateGantt', () => {
+  it('rejects an empty plan', () => {
+    expect(validateGantt(normalizeGantt({ tasks: [] })).errors).toEqual(['gantt chart has no tasks']);
+  });
+
+  it('warns about tasks written to start before a dependency finishes', () => {
+    const gantt = normalizeGantt({
+      tasks: [
+        { id: 'a', name: 'Design', start: '2024-01-01', end: '2024-01-31' },
+        { id: 'b', name: 'Build', start: '2024-01-15', end: '2024-02-28', dependencies: ['a'] },
+      ],
+    });
+
+    const { errors, warnings } = validateGantt(gantt);
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual(['"Build" starts before "Design" finishes']);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+
+import { toMermaid } from '../../export/diagramTextExport.js';
+import { normalizeFlowchart } from '../flowchartBuilder.js';
+import { parseMermaid } from '../mermaidParser.js';
+import { normalizeSequenceDiagram } from '../umlSequenceBuilder.js';
+
+import type {
+  FlowchartData,
+  MindMapData,
+  UMLDiagramData,
+  UMLSequenceData,
+} from '../../../../../shared/src/types.js';
+
+describe('parseMermaid', () => {
+  it('reads flowchart shapes, chained links, labels and subgraphs', () => {
+    const { type, data, warnings } = parseMermaid([
+      '---',
+      'title: Orders',
+      '---',
+      'graph LR;',
+      '  %% comment',
+      '  A([Start]) --> B{Valid?}',
+      '  B -- yes --> C[/Read form/] & D[\\Print\\]',
+      '  C -.->|retry| B',
+      '  subgraph lane [Back office]',
+      '    D --> E(("Done"))',
+      '  end',
+      '  classDef hot fill:#f00',
+    ].join('\n'));
+    const flowchart = data as FlowchartData;
+
+    expect(type).toBe('flowchart');
+    expect(warnings).toEqual([]);
+    expect(flowchart.layout).toBe('leftToRight');
+    expect(flowchart.nodes.map((n) => [n.id, n.type, n.label, n.swimlane])).toEqual([
+      ['A', 'start', 'Start', undefined],
+      ['B', 'decision', 'Valid?', undefined],
+      ['C', 'input', 'Read form', undefined],
+      ['D', 'output', 'Print', 'lane'],
+      ['E', 'end', 'Done', 'lane'],
+    ]);
+    expect(flowchart.swimlanes).toEqual([{ id: 'lane', label: 'Back office', color: expect.any(String) }]);
+    expect(flowchart.edges.map((e) => [e.source, e.target, e.label, e.type])).toEqual([
+      ['A', 'B', undefined, 'solid'],
+      ['B', 'C', 'yes', 'solid'],
+      ['B', 'D', 'yes', 'solid'],
+      ['C', 'B', 'retry', 'dashed'],
+      ['D', 'E', undefined, 'solid'],
+    ]);
+  });
+
+  it('reads classes, members, annotations, namespaces and relationship kinds', () => {
+    const { type, data } = parseMermaid([
+      'classDiagram',
+      '  namespace Zoo {',
+      '    class Animal {',
+      '      <<abstract>>',
+      '      +String name',
+      '      +List~String~ tags$',
+      '      +makeSound(int volume)* void',
+      '    }',
+      '  }',
+      '  class Pond',
+      '  Animal <|-- Duck',
+      '  Duck : +swim() bool',
+      '  Pond "1" o-- "*" Duck : hosts',
+      '  Duck ..> Pond',
+      '  Swimmer <|.. Duck',
+    ].join('\n'));
+    const uml = data as UMLDiagramData;
+
+    expect(type).toBe('uml-class-diagram');
+    expect(uml.classes.map((c) => [c.name, c.type, c.package])).toEqual([
+      ['Animal', 'abstract', 'Zoo'],
+      ['Pond', 'class', undefined],
+      ['Duck', 'class', undefined],
+      ['Swimmer', 'class', undefined],
+    ]);
+    expect(uml.classes[0].attributes.map((a) => [a.name, a.type, a.isStatic])).toEqual([
+      ['name', 'String', false],
+      ['tags', 'List<String>', true],
+    ]);
+    expect(uml.classes[0].methods[0]).toMatchObject({
+      name: 'makeSound',
+      returnType: 'void',
+      isAbstract: true,
+      parameters: [{ name: 'volume', type: 'int' }],
+    });
+    expect(uml.relationships.map((r) => [r.source, r.target, r.type, r.sourceMultiplicity, r.targetMultiplicity, r.label]))
+      .toEqual([
+        ['class-2', 'class-0', 'inheritance', undefined, undefined, undefined],
+        ['class-1', 'class-2', 'aggregation', '1', '*', 'hosts'],
+        ['class-2', 'class-1', 'dependency', undefined, undefined, undefined],
+        ['class-2', 'class-3', 'realization', undefined, undefined, undefined],
+      ]);
+    expect(uml.packages).toEqual([{ id: 'pkg-0', name: 'Zoo', classes: ['class-0'], color: expect.any(String) }]);
+  });
+
+  it('reads nested mind map nodes and hangs extra roots under the first', () => {
+    const { data, warnings } = parseMermaid([
+      'mindmap',
+      '  root((Plan))',
+      '    Goals',
+      '      [Ship v1]',
+      '    Risks',
+      '      ))Scope creep((',
+      'Other',
+    ].join('\n'));
+    const root = (data as MindMapData).root;
+
+    expect(root.label).toBe('Plan');
+    expect(root.children.map((c) => c.label)).toEqual(['Goals', 'Risks', 'Other']);
+    expect(root.children[0].children[0]).toMatchObject({ label: 'Ship v1', level: 2 });
+    expect(root.children[1].children[0].label).toBe('Scope creep');
+    expect(warnings).toEqual(['1 extra top-level node(s) attached under "Plan"']);
+  });
+
+  it('round-trips exported sequence diagrams', () => {
+    const original = normalizeSequenceDiagram({
+      participants: [
+        { id: 'user', name: 'Customer', kind: 'actor' },
+        { id: 'api', name: 'Order "API"' },
+      ],
+      steps: [
+        { from: 'user', to: 'api', label: 'submit; retry', kind: 'sync' },
+        {
+          fragment: 'loop',
+          guard: 'each item',
+          steps: [{ from: 'api', to: 'api', label: 'reserve', kind: 'async' }],
+        },
+        { from: 'api', to: 'user', label: 'done', kind: 'return' },
+      ],
+    });
+
+    const { type, data } = parseMermaid(toMermaid('uml-sequence', original, 'Orders'));
+    const sequence = data as UMLSequenceData;
+
+    expect(type).toBe('uml-sequence');
+    expect(sequence.participants.map((p) => [p.name, p.kind])).toEqual([
+      ['Customer', 'actor'],
+      ['Order "API"', 'participant'],
+    ]);
+    expect(sequence.messages.map((m) => [m.label, m.kind, m.fragmentId])).toEqual([
+      ['submit; retry', 'sync', undefined],
+      ['reserve', 'async', 'fragment-0'],
+      ['done', 'return', undefined],
+    ]);
+    expect(sequence.fragments).toMatchObject([{ kind: 'loop', operands: [{ guard: 'each item' }] }]);
+  });
+
+  it('round-trips exported flowcharts', () => {
+    const original = normalizeFlowchart({
+      nodes: [
+        { id: 's', type: 'start', label: 'Start' },
+        { id: 'a', type: 'process', label: 'Fill "form"', swimlane: 'User' },
+        { id: 'd', type: 'decision', label: 'Valid?' },
+        { id: 'e', type: 'end', label: 'Done' },
+      ],
+      edges: [
+        { source: 's', target: 'a' },
+        { source: 'a', target: 'd' },
+        { source: 'd', target: 'e', label: 'yes' },
+        { source: 'd', target: 'a', label: 'no' },
+      ],
+    });
+
+    const flowchart = parseMermaid(toMermaid('flowchart', original, 'Form')).data as FlowchartData;
+
+    expect(flowchart.nodes.map((n) => [n.type, n.label])).toEqual(
+      expect.arrayContaining(original.nodes.map((n) => [n.type, n.label])),
+    );
+    expect(flowchart.swimlanes?.map((lane) => lane.label)).toEqual(['User']);
+    expect(flowchart.edges.map((e) => [e.label, e.type])).toEqual([
+      [undefined, 'solid'],
+      [undefined, 'solid'],
+      ['yes', 'solid'],
+      ['no', 'dashed'],
+    ]);
+  });
+
+  it('rejects empty sources and unsupported diagram types', () => {
+    expect(() => parseMermaid('%% nothing here')).toThrow('Mermaid source is empty');
+    expect(() => parseMermaid('pie title Pets\n  "Dogs" : 3')).toThrow('Unsupported Mermaid diagram "pie"');
+    expect(() => parseMermaid('sequenceDiagram\n  participant A')).toThrow('Invalid sequence diagram');
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, it, expect } from 'vitest';
+
+import { toPlantUml } from '../../export/diagramTextExport.js';
+import { detectDiagramTextFormat, parseDiagramText } from '../diagramTextImport.js';
+import { parsePlantUml } from '../plantUmlParser.js';
+import { normalizeActivityDiagram } from '../umlActivityBuilder.js';
+
+import type {
+  FlowchartData,
+  MindMapData,
+  UMLActivityData,
+  UMLDiagramData,
+  UMLSequenceData,
+} from '../../../../../shared/src/types.js';
+
+const kindsAndLabels = (activity: UMLActivityData) => activity.nodes.map((n) => [n.kind, n.label]);
+
+describe('parsePlantUml', () => {
+  it('rebuilds activity blocks into nodes and guarded flows', () => {
+    const { type, data, warnings } = parsePlantUml([
+      '@startuml',
+      'title Invoices',
+      'start',
+      '|Clerk|',
+      ':Receive invoice;',
+      'if (Over 10k?) then (yes)',
+      '  |Manager|',
+      '  :Approve',
+      '  manually;',
+      'else (no)',
+      '  :Auto-approve;',
+      'endif',
+      'fork',
+      '  :Pay;',
+      'fork again',
+      '  :Archive;',
+      'end fork',
+      'stop',
+      '@enduml',
+    ].join('\n'));
+    const activity = data as UMLActivityData;
+
+    expect(type).toBe('uml-activity');
+    expect(warnings).toEqual([]);
+    expect(kindsAndLabels(activity)).toEqual([
+      ['initial', ''],
+      ['action', 'Receive invoice'],
+      ['decision', 'Over 10k?'],
+      ['action', 'Approve manually'],
+      ['action', 'Auto-approve'],
+      ['merge', ''],
+      ['fork', ''],
+      ['action', 'Pay'],
+      ['action', 'Archive'],
+      ['join', ''],
+      ['final', ''],
+    ]);
+    expect(activity.swimlanes.map((lane) => lane.name)).toEqual(['Clerk', 'Manager']);
+    expect(activity.flows.filter((f) => f.guard).map((f) => [f.source, f.target, f.guard])).toEqual([
+      ['node-2', 'node-3', 'yes'],
+      ['node-2', 'node-4', 'no'],
+    ]);
+  });
+
+  it('closes while and repeat loops back to their entry', () => {
+    const activity = parsePlantUml([
+      '@startuml',
+      'start',
+      'while (Lines left?) is (yes)',
+      '  :Book line;',
+      'endwhile (no)',
+      'repeat',
+      '  :Notify;',
+      'repeat while (Unread?) is (yes) not (no)',
+      'stop',
+      '@enduml',
+    ].join('\n')).data as UMLActivityData;
+
+    expect(activity.flows.map((f) => [f.source, f.target, f.guard])).toEqual([
+      ['node-0', 'node-1', undefined],
+      ['node-1', 'node-2', 'yes'],
+      ['node-2', 'node-1', undefined],
+      ['node-1', 'node-3', 'no'],
+      ['node-3', 'node-4', undefined],
+      ['node-4', 'node-5', undefined],
+      ['node-5', 'node-3', 'yes'],
+      ['node-5', 'node-6', 'no'],
+    ]);
+  });
+
+  it('round-trips exported activity diagrams through the legacy syntax', () => {
+    const original = normalizeActivityDiagram({
+      nodes: [
+        { id: 'start', kind: 'initial' },
+        { id: 'check', kind: 'action', label: 'Validate invoice' },
+        { id: 'big', kind: 'decision', label: 'Over 10k?' },
+        { id: 'approve', kind: 'action', label: 'Approve' },
+        { id: 'end', kind: 'final' },
+      ],
+      flows: [
+        { from: 'start', to: 'check' },
+        { from: 'check', to: 'big' },
+        { from: 'big', to: 'approve', guard: 'yes' },
+        { from: 'big', to: 'end', guard: 'no' },
+        { from: 'approve', to: 'end' },
+      ],
+    });
+
+    const activity = parsePlantUml(toPlantUml('uml-activity', original, 'Invoices')).data as UMLActivityData;
+
+    expect(kindsAndLabels(activity)).toEqual(kindsAndLabels(original));
+    expect(activity.flows.map((f) => f.guard)).toEqual(original.flows.map((f) => f.guard));
+  });
+
+  it('reads classes, members, packages and relationship arrows', () => {
+    const { type, data } = parsePlantUml([
+      '@startuml',
+      'package "Shapes" {',
+      '  abstract class Shape {',
+      '    +{abstract} area() : double',
+      '    #name : String',
+      '    --',
+      '  }',
+      '  interface Drawable <<contract>>',
+      '  class "Big Circle" as Circle',
+      '}',
+      'Shape <|-- Circle',
+      'Drawable <|.. Shape',
+      'Circle "1" *-up- "many" Point : center',
+      'Circle : -radius : double',
+      'Canvas o-- Shape',
+      'Canvas ..> Renderer : uses',
+      '@enduml',
+    ].join('\n'));
+    const uml = data as UMLDiagramData;
+
+    expect(type).toBe('uml-class-diagram');
+    expect(uml.classes.map((c) => [c.name, c.type, c.package, c.stereotype])).toEqual([
+      ['Shape', 'abstract', 'Shapes', undefined],
+      ['Drawable', 'interface', 'Shapes', 'contract'],
+      ['Big Circle', 'class', 'Shapes', undefined],
+      ['Point', 'class', undefined, undefined],
+      ['Canvas', 'class', undefined, undefined],
+      ['Renderer', 'class', undefined, undefined],
+    ]);
+    expect(uml.classes[0].methods[0]).toMatchObject({ name: 'area', returnType: 'double', isAbstract: true });
+    expect(uml.classes[0].attributes[0]).toMatchObject({ name: 'name', type: 'String', visibility: 'protected' });
+    expect(uml.classes[2].attributes[0]).toMatchObject({ name: 'radius', type: 'double', visibility: 'private' });
+    expect(uml.relationships.map((r) => [r.source, r.target, r.type, r.label])).toEqual([
+      ['class-2', 'class-0', 'inheritance', undefined],
+      ['class-0', 'class-1', 'realization', undefined],
+      ['class-2', 'class-3', 'composition', 'center'],
+      ['class-4', 'class-0', 'aggregation', undefined],
+      ['class-4', 'class-5', 'dependency', 'uses'],
+    ]);
+    expect(uml.relationships[2]).toMatchObject({ sourceMultiplicity: '1', targetMultiplicity: 'many' });
+  });
+
+  it('reads sequence messages, fragments and return replies', () => {
+    const { type, data } = parsePlantUml([
+      '@startuml',
+      'actor User',
+      'participant "Web App" as Web',
+      'database DB',
+      'note over Web',
+      '  not a message',
+      'end note',
+      'User -> Web : login',
+      'Web -> DB : query',
+      'return rows',
+      'alt ok',
+      '  Web --> User : welcome',
+      'else',
+      '  Web --> User : denied',
+      'end',
+      'Web ->> DB : audit',
+      '@enduml',
+    ].join('\n'));
+    const sequence = data as UMLSequenceData;
+
+    expect(type).toBe('uml-sequence');
+    expect(sequence.participants.map((p) => [p.id, p.name, p.kind])).toEqual([
+      ['User', 'User', 'actor'],
+      ['Web', 'Web App', 'participant'],
+      ['DB', 'DB', 'database'],
+    ]);
+    expect(sequence.messages.map((m) => [m.from, m.to, m.label, m.kind, m.operandIndex])).toEqual([
+      ['User', 'Web', 'login', 'sync', undefined],
+      ['Web', 'DB', 'query', 'sync', undefined],
+      ['DB', 'Web', 'rows', 'return', undefined],
+      ['Web', 'User', 'welcome', 'return', 0],
+      ['Web', 'User', 'denied', 'return', 1],
+      ['Web', 'DB', 'audit', 'async', undefined],
+    ]);
+  });
+
+  it('reads mind maps with boxless and multi-line nodes', () => {
+    const root = (parsePlantUml([
+      '@startmindmap',
+      '* Project',
+      '** Goals',
+      '***[#lightgreen] Ship v1',
+      '--_ Risks',
+      '**:Multi',
+      'line;',
+      '@endmindmap',
+    ].join('\n')).data as MindMapData).root;
+
+    expect(root.label).toBe('Project');
+    expect(root.children.map((c) => c.label)).toEqual(['Goals', 'Risks', 'Multi line']);
+    expect(root.children[0].children[0].label).toBe('Ship v1');
+  });
+
+  it('reads other element diagrams as flowcharts, keeping exported node types', () => {
+    const { type, data } = parsePlantUml([
+      '@startuml',
+      'left to right direction',
+      'rectangle "Review" {',
+      '  rectangle "Check form" as N2 <<process>>',
+      '}',
+      'usecase "Start" as N1 <<start>>',
+      'N1 --> [Web]',
+      'N1 --> N2',
+      'N2 ..> [Web] : retry',
+      '@enduml',
+    ].join('\n'));
+    const flowchart = data as FlowchartData;
+
+    expect(type).toBe('flowchart');
+    expect(flowchart.layout).toBe('leftToRight');
+    expect(flowchart.nodes.map((n) => [n.id, n.type, n.label, n.swimlane])).toEqual([
+      ['N2', 'process', 'Check form', 'Review'],
+      ['N1', 'start', 'Start', undefined],
+      ['Web', 'process', 'Web', undefined],
+    ]);
+    expect(flowchart.edges.map((e) => [e.source, e.target, e.label, e.type])).toEqual([
+      ['N1', 'Web', undefined, 'solid'],
+      ['N1', 'N2', undefined, 'solid'],
+      ['N2', 'Web', 'retry', 'dashed'],
+    ]);
+  });
+
+  it('rejects unsupported diagram kinds', () => {
+    expect(() => parsePlantUml('@startgantt\n[Build] lasts 5 days\n@endgantt'))
+      .toThrow('Unsupported PlantUML diagram "@startgantt"');
+    expect(() => parsePlantUml('@startuml\n@enduml')).toThrow('PlantUML source is empty');
+  });
+});
+
+describe('parseDiagramText', () => {
+  it('detects the format from the source', () => {
+    expect(detectDiagramTextFormat('\n@startuml\nA -> B\n@enduml')).toBe('plantuml');
+    expect(detectDiagramTextFormat('flowchart TD\n  A --> B')).toBe('mermaid');
+    expect(parseDiagramText('@startmindmap\n* Root\n@endmindmap').type).toBe('mind-map');
+  });
+});
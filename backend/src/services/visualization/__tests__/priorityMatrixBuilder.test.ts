@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  PRIORITY_LAYOUTS,
+  normalizePriorityMatrix,
+  normalizeScore,
+  quadrantFor,
+} from '../priorityMatrixBuilder.js';
+
+describe('normalizeScore', () => {
+  it('maps 1-5 scores onto 0-1 and defaults to the middle', () => {
+    expect(normalizeScore(1)).toBe(0);
+    expect(normalizeScore(5)).toBe(1);
+    expect(normalizeScore(4)).toBe(0.75);
+    expect(normalizeScore(0.3)).toBe(0.3);
+    expect(normalizeScore(9)).toBe(1);
+    expect(normalizeScore(undefined)).toBe(0.5);
+  });
+});
+
+describe('quadrantFor', () => {
+  it('places points in the impact/effort quadrants', () => {
+    const { quadrants } = PRIORITY_LAYOUTS['impact-effort'];
+    expect(quadrantFor(0.2, 0.9, quadrants)).toBe('quick-win');
+    expect(quadrantFor(0.8, 0.9, quadrants)).toBe('major-project');
+    expect(quadrantFor(0.2, 0.1, quadrants)).toBe('fill-in');
+    expect(quadrantFor(0.8, 0.1, quadrants)).toBe('thankless-task');
+  });
+
+  it('places points in the Eisenhower quadrants', () => {
+    const { quadrants } = PRIORITY_LAYOUTS['urgency-importance'];
+    expect(quadrantFor(0.9, 0.9, quadrants)).toBe('do-first');
+    expect(quadrantFor(0.1, 0.9, quadrants)).toBe('schedule');
+    expect(quadrantFor(0.9, 0.1, quadrants)).toBe('delegate');
+    expect(quadrantFor(0.1, 0.1, quadrants)).toBe('eliminate');
+  });
+});
+
+describe('normalizePriorityMatrix', () => {
+  it('scores impact/effort items and drops duplicates', () => {
+    const matrix = normalizePriorityMatrix({
+      mode: 'impact-effort',
+      items: [
+        { id: 'sso', label: 'Add SSO', impact: 5, effort: 2 },
+        { id: 'rewrite', label: 'Rewrite backend', impact: 2, effort: 5 },
+        { id: 'sso-2', label: 'add sso', impact: 1, effort: 1 },
+        { label: '' },
+      ],
+    });
+
+    expect(matrix.xAxis.label).toBe('Effort');
+    expect(matrix.items.map((item) => [item.id, item.x, item.y, item.quadrant])).toEqual([
+      ['sso', 0.25, 1, 'quick-win'],
+      ['rewrite', 1, 0.25, 'thankless-task'],
+    ]);
+  });
+
+  it('detects the Eisenhower mode from the scores when the mode is missing', () => {
+    const matrix = normalizePriorityMatrix({
+      items: [{ id: 'outage', label: 'Fix outage', urgency: 5, importance: 5 }],
+    });
+
+    expect(matrix.mode).toBe('urgency-importance');
+    expect(matrix.items[0].quadrant).toBe('do-first');
+    expect(matrix.quadrants.map((quadrant) => quadrant.id)).toContain('eliminate');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+
+import { normalizeRaciMatrix, parseResponsibilities, validateRaciMatrix } from '../raciBuilder.js';
+
+describe('parseResponsibilities', () => {
+  it('keeps only RACI letters in R, A, C, I order', () => {
+    expect(parseResponsibilities(['a', 'R', 'x'])).toEqual(['R', 'A']);
+    expect(parseResponsibilities('I/C')).toEqual(['C', 'I']);
+    expect(parseResponsibilities(undefined)).toEqual([]);
+  });
+});
+
+describe('normalizeRaciMatrix', () => {
+  it('resolves references by id or name and merges duplicate cells', () => {
+    const matrix = normalizeRaciMatrix({
+      roles: [{ id: 'pm', name: 'Project Manager' }, { id: 'fin', name: 'Finance' }],
+      activities: [{ id: 'budget', name: 'Approve budget' }],
+      assignments: [
+        { activity: 'budget', role: 'fin', responsibilities: ['A'] },
+        { activity: 'Approve budget', role: 'finance', responsibilities: ['R', 'A'] },
+        { activity: 'budget', role: 'pm', responsibilities: ['C'] },
+        { activity: 'budget', role: 'pm', responsibilities: ['X'] },
+      ],
+    });
+
+    expect(matrix.assignments).toEqual([
+      { id: 'budget:fin', activityId: 'budget', roleId: 'fin', responsibilities: ['R', 'A'] },
+      { id: 'budget:pm', activityId: 'budget', roleId: 'pm', responsibilities: ['C'] },
+    ]);
+  });
+
+  it('adds roles and activities the model forgot to declare', () => {
+    const matrix = normalizeRaciMatrix({
+      roles: [{ id: 'pm', name: 'PM' }, { id: 'pm', name: 'Duplicate' }],
+      assignments: [{ activity: 'Sign contract', role: 'Legal', responsibilities: 'A' }],
+    });
+
+    expect(matrix.roles.map((role) => [role.id, role.name])).toEqual([['pm', 'PM'], ['role-1', 'Legal']]);
+    expect(matrix.activities.map((activity) => [activity.id, activity.name])).toEqual([
+      ['activity-0', 'Sign contract'],
+    ]);
+    expect(matrix.assignments[0].id).toBe('activity-0:role-1');
+  });
+});
+
+describe('validateRaciMatrix', () => {
+  it('requires roles, activities and assignments', () => {
+    expect(validateRaciMatrix(normalizeRaciMatrix({})).errors).toHaveLength(1);
+    expect(validateRaciMatrix(normalizeRaciMatrix({
+      roles: [{ id: 'pm', name: 'PM' }],
+      activities: [{ id: 'a', name: 'Plan' }],
+    })).errors).toEqual(['RACI matrix has no assignments']);
+  });
+
+  it('warns when an activity lacks a single accountable or a responsible role', () => {
+    const matrix = normalizeRaciMatrix({
+      roles: [{ id: 'pm', name: 'PM' }, { id: 'cto', name: 'CTO' }],
+      activities: [{ id: 'plan', name: 'Plan' }, { id: 'ship', name: 'Ship' }],
+      assignments: [
+        { activity: 'plan', role: 'pm', responsibilities: ['R', 'A'] },
+        { activity: 'ship', role: 'pm', responsibilities: ['A'] },
+        { activity: 'ship', role: 'cto', responsibilities: ['A'] },
+      ],
+    });
+
+    expect(validateRaciMatrix(matrix).warnings).toEqual([
+      '"Ship" has 2 accountable role(s)',
+      '"Ship" has no responsible role',
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+
+import { normalizeActivityDiagram, validateActivityDiagram } from '../umlActivityBuilder.js';
+
+describe('normalizeActivityDiagram', () => {
+  it('maps node kinds, lanes and flows referenced by label', () => {
+    const diagram = normalizeActivityDiagram({
+      swimlanes: [{ id: 'clerk', name: 'Accounts Payable' }],
+      nodes: [
+        { id: 'start', kind: 'start' },
+        { id: 'check', kind: 'task', label: 'Validate invoice', swimlane: 'Accounts Payable' },
+        { id: 'big', kind: 'decision', label: 'Over 10k?', swimlane: 'Manager' },
+        { id: 'end', kind: 'end' },
+      ],
+      flows: [
+        { from: 'start', to: 'Validate invoice' },
+        { source: 'check', target: 'big' },
+        { from: 'big', to: 'end', guard: '[no]' },
+        { from: 'big', to: 'end', guard: 'no' },
+        { from: 'big', to: 'nowhere' },
+      ],
+    });
+
+    expect(diagram.nodes.map((n) => [n.id, n.kind, n.swimlaneId])).toEqual([
+      ['start', 'initial', undefined],
+      ['check', 'action', 'clerk'],
+      ['big', 'decision', 'lane-1'],
+      ['end', 'final', undefined],
+    ]);
+    expect(diagram.swimlanes.map((lane) => lane.name)).toEqual(['Accounts Payable', 'Manager']);
+    expect(diagram.flows.map((f) => [f.source, f.target, f.guard])).toEqual([
+      ['start', 'check', undefined],
+      ['check', 'big', undefined],
+      ['big', 'end', 'no'],
+    ]);
+  });
+
+  it('adds an initial node in front of a single entry point', () => {
+    const diagram = normalizeActivityDiagram(
+      {
+        nodes: [{ id: 'a', label: 'Receive order', quote: 'orders are received' }, { id: 'b', label: 'Ship' }],
+        flows: [{ from: 'a', to: 'b' }],
+      },
+      (quote) => ({ start: 4, end: 4 + quote.length, text: quote }),
+    );
+
+    expect(diagram.nodes[0]).toMatchObject({ id: 'initial', kind: 'initial' });
+    expect(diagram.flows[0]).toMatchObject({ source: 'initial', target: 'a' });
+    expect(diagram.nodes[1].sourceSpan).toEqual({ start: 4, end: 23, text: 'orders are received' });
+  });
+});
+
+describe('validateActivityDiagram', () => {
+  it('rejects nodes the initial node cannot reach', () => {
+    const diagram = normalizeActivityDiagram({
+      nodes: [
+        { id: 'start', kind: 'initial' },
+        { id: 'a', label: 'Draft' },
+        { id: 'b', label: 'Orphan' },
+      ],
+      flows: [{ from: 'start', to: 'a' }],
+    });
+
+    expect(validateActivityDiagram(diagram).errors).toEqual([
+      '1 node(s) not reachable from the initial node: "Orphan"',
+    ]);
+  });
+
+  it('warns about unguarded branches and one-sided forks', () => {
+    const diagram = normalizeActivityDiagram({
+      nodes: [
+        { id: 'start', kind: 'initial' },
+        { id: 'd', kind: 'decision', label: 'Valid?' },
+        { id: 'a', label: 'Accept' },
+        { id: 'r', label: 'Reject' },
+        { id: 'f', kind: 'fork' },
+      ],
+      flows: [
+        { from: 'start', to: 'd' },
+        { from: 'd', to: 'a', guard: 'yes' },
+        { from: 'd', to: 'r' },
+        { from: 'a', to: 'f' },
+        { from: 'f', to: 'r' },
+      ],
+    });
+
+    expect(validateActivityDiagram(diagram)).toEqual({
+      errors: [],
+      warnings: [
+        'activity diagram has no final node',
+        'decision "Valid?" has branches without a guard',
+        'fork "f" starts 1 parallel branch(es)',
+      ],
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  deriveActivations,
+  normalizeSequenceDiagram,
+  validateSequenceDiagram,
+} from '../umlSequenceBuilder.js';
+
+import type { SequenceMessage } from '../../../../../shared/src/types.js';
+
+const message = (order: number, from: string, to: string, kind: SequenceMessage['kind'] = 'sync'): SequenceMessage => ({
+  id: `message-${order}`,
+  from,
+  to,
+  label: '',
+  kind,
+  order,
+  sourceQuote: '',
+  sourceSpan: null,
+});
+
+describe('normalizeSequenceDiagram', () => {
+  it('resolves participants by id or name and adds undeclared ones', () => {
+    const diagram = normalizeSequenceDiagram({
+      participants: [
+        { id: 'api', name: 'Order API', kind: 'service' },
+        { id: 'api', name: 'Duplicate' },
+      ],
+      steps: [
+        { from: 'Customer', to: 'order api', label: 'submit', kind: 'request' },
+        { from: 'api', to: 'Customer', label: 'ok', kind: 'reply' },
+        { from: 'api', label: 'missing receiver' },
+      ],
+    });
+
+    expect(diagram.participants.map((p) => [p.id, p.name, p.kind])).toEqual([
+      ['api', 'Order API', 'control'],
+      ['participant-1', 'Customer', 'participant'],
+    ]);
+    expect(diagram.messages.map((m) => [m.from, m.to, m.kind])).toEqual([
+      ['participant-1', 'api', 'sync'],
+      ['api', 'participant-1', 'return'],
+    ]);
+  });
+
+  it('flattens nested fragments into operands and drops empty ones', () => {
+    const diagram = normalizeSequenceDiagram({
+      participants: [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }],
+      steps: [
+        { from: 'a', to: 'b', label: 'pay' },
+        {
+          fragment: 'alt',
+          operands: [
+            { guard: '[accepted]', steps: [
+              { fragment: 'loop', guard: 'each item', steps: [{ from: 'b', to: 'a', label: 'item', kind: 'async' }] },
+            ] },
+            { guard: 'declined', steps: [{ from: 'b', to: 'a', label: 'declined', kind: 'return' }] },
+          ],
+        },
+        { fragment: 'opt', steps: [] },
+        { fragment: 'group', steps: [{ from: 'a', to: 'b', label: 'done', kind: 'async' }] },
+      ],
+    });
+
+    expect(diagram.fragments).toEqual([
+      expect.objectContaining({ id: 'fragment-0', kind: 'alt', order: 1, operands: [{ guard: 'accepted' }, { guard: 'declined' }] }),
+      expect.objectContaining({ id: 'fragment-1', kind: 'loop', order: 1, parentId: 'fragment-0', parentOperandIndex: 0 }),
+    ]);
+    expect(diagram.messages.map((m) => [m.label, m.fragmentId, m.operandIndex])).toEqual([
+      ['pay', undefined, undefined],
+      ['item', 'fragment-1', 0],
+      ['declined', 'fragment-0', 1],
+      ['done', undefined, undefined],
+    ]);
+  });
+
+  it('accepts a flat message list and attaches source spans', () => {
+    const diagram = normalizeSequenceDiagram(
+      { messages: [{ from: 'a', to: 'b', label: 'ping', quote: 'a pings b' }] },
+      (quote) => ({ start: 0, end: quote.length, text: quote }),
+    );
+
+    expect(diagram.messages[0].sourceSpan).toEqual({ start: 0, end: 9, text: 'a pings b' });
+    expect(diagram.participants[0].sourceSpan).toBeNull();
+  });
+});
+
+describe('deriveActivations', () => {
+  it('closes a call at its return, together with the calls nested in it', () => {
+    const activations = deriveActivations([
+      message(0, 'user', 'api'),
+      message(1, 'api', 'db'),
+      message(2, 'api', 'api'),
+      message(3, 'api', 'user', 'return'),
+      message(4, 'db', 'api', 'async'),
+    ]);
+
+    expect(activations.map(({ participantId, startOrder, endOrder, depth }) => [participantId, startOrder, endOrder, depth])).toEqual([
+      ['api', 0, 3, 0],
+      ['db', 1, 4, 0],
+      ['api', 2, 3, 1],
+    ]);
+  });
+});
+
+describe('validateSequenceDiagram', () => {
+  it('reports idle participants and unmatched returns', () => {
+    const diagram = normalizeSequenceDiagram({
+      participants: [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }, { id: 'c', name: 'Cache' }],
+      steps: [{ from: 'a', to: 'b', label: 'ok', kind: 'return' }],
+    });
+
+    expect(validateSequenceDiagram(diagram)).toEqual({
+      errors: [],
+      warnings: [
+        'participant "Cache" sends or receives no message',
+        'return "ok" does not answer an earlier call',
+      ],
+    });
+  });
+
+  it('rejects a diagram without messages', () => {
+    expect(validateSequenceDiagram(normalizeSequenceDiagram({})).errors).toEqual([
+      'sequence diagram has no messages',
+    ]);
+  });
+});
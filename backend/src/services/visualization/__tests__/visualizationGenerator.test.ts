@@ -1,12 +1,20 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 
+import { recordLLMCall, recordValidationFailure } from "../../llm/llmUsage";
 import { VisualizationGenerator } from "../visualizationGenerator";
 
 import type {
   Document,
   DocumentAnalysis,
+  FlowchartData,
+  GanttData,
   MindMapData,
+  PriorityMatrixData,
+  RaciMatrixData,
+  TimelineData,
+  UMLActivityData,
   UMLDiagramData,
+  UMLSequenceData,
 } from "../../../../../shared/src/types";
 
 // Use vi.hoisted to ensure mock variables are initialized before vi.mock()
@@ -17,7 +25,7 @@ const mocks = vi.hoisted(() => ({
 
   // Service mocks
   findByDocumentIdAndType: vi.fn(),
-  create: vi.fn(),
+  save: vi.fn(),
   findByDocumentId: vi.fn(),
   update: vi.fn(),
   deleteVisualization: vi.fn(),
@@ -44,7 +52,7 @@ vi.mock("../../llm/openRouterClient", () => ({
 // Mock visualizationService to prevent DynamoDB access
 vi.mock("../../../repositories/visualizationService", () => ({
   visualizationService: {
-    create: mocks.create,
+    save: mocks.save,
     findByDocumentIdAndType: mocks.findByDocumentIdAndType,
     findByDocumentId: mocks.findByDocumentId,
     update: mocks.update,
@@ -107,8 +115,8 @@ describe("VisualizationGenerator", () => {
     // Reset Visualization Service mocks
     mocks.findByDocumentIdAndType.mockReset();
     mocks.findByDocumentIdAndType.mockResolvedValue(null);
-    mocks.create.mockReset();
-    mocks.create.mockResolvedValue(undefined);
+    mocks.save.mockReset();
+    mocks.save.mockResolvedValue(1);
     mocks.findByDocumentId.mockReset();
     mocks.update.mockReset();
     mocks.deleteVisualization.mockReset();
@@ -252,6 +260,44 @@ describe("VisualizationGenerator", () => {
       expect(result.edges).toHaveLength(1);
     });
 
+    it("should ground knowledge graph nodes and edges in the document text", async () => {
+      mocks.callWithFallback.mockResolvedValue({
+        content: JSON.stringify({
+          nodes: [
+            { id: "n1", label: "Test", type: "concept", metadata: { sourceQuote: "a test document" } },
+            { id: "n2", label: "Content", type: "concept", metadata: { sourceQuote: "Quarterly revenue doubled" } },
+          ],
+          edges: [
+            { source: "n1", target: "n2", type: "relates-to", evidence: ["with some content"] },
+          ],
+        }),
+      });
+
+      const result = await generator.generateVisualization("knowledge-graph", mockDocument, mockAnalysis);
+
+      expect(result.nodes[0].grounding).toMatchObject({ verified: true, confidence: 1 });
+      expect(result.nodes[0].metadata.sourceSpan).toEqual({ start: 8, end: 23, text: "a test document" });
+      expect(result.nodes[1].grounding).toEqual({ verified: false, confidence: 0, spans: [] });
+      expect(result.edges[0].grounding.verified).toBe(true);
+    });
+
+    it("should ground argument map nodes by their source quotes", async () => {
+      mocks.callWithFallback.mockResolvedValue({
+        content: JSON.stringify({
+          nodes: [
+            { id: "c1", type: "claim", label: "Claim", sourceQuote: "This is a test document" },
+            { id: "e1", type: "evidence", label: "Evidence" },
+          ],
+          edges: [{ source: "e1", target: "c1", type: "supports" }],
+        }),
+      });
+
+      const result = await generator.generateVisualization("argument-map", mockDocument, mockAnalysis);
+
+      expect(result.nodes[0].grounding.verified).toBe(true);
+      expect(result.nodes[1].grounding.verified).toBe(false);
+    });
+
     it("should force regeneration when force flag is true", async () => {
       // Override cache to return something
       mocks.findByDocumentIdAndType.mockResolvedValue({
@@ -265,8 +311,79 @@ describe("VisualizationGenerator", () => {
         true, // force=true
       );
 
-      // If force=true, it should NOT call findByDocumentIdAndType
-      expect(mocks.findByDocumentIdAndType).not.toHaveBeenCalled();
+      // If force=true, it should regenerate instead of returning the cached data
+      expect(mocks.callWithFallback).toHaveBeenCalled();
+      expect(mocks.save).toHaveBeenCalledWith(
+        expect.objectContaining({ visualizationType: "mind-map" }),
+        "generation",
+      );
+    });
+
+    it("should reapply user overrides that still match after forced regeneration", async () => {
+      mocks.findByDocumentIdAndType.mockResolvedValue({
+        visualizationData: { some: "cached data" },
+        overrides: [
+          { op: "replace", path: "/root/children/node-1/label", value: "Renamed" },
+          { op: "remove", path: "/root/children/node-gone" },
+        ],
+      } as any);
+
+      const result = (await generator.generateVisualization(
+        "mind-map",
+        mockDocument,
+        mockAnalysis,
+        true,
+      )) as MindMapData;
+
+      expect(result.root.children[0].label).toBe("Renamed");
+      const stored = mocks.save.mock.calls[0][0];
+      expect(stored.generatedData.root.children[0].label).toBe("Section 1");
+      expect(stored.overrides).toEqual([
+        { op: "replace", path: "/root/children/node-1/label", value: "Renamed" },
+      ]);
+    });
+
+    it("should record the model, tokens and prompt version of the LLM calls", async () => {
+      mocks.callWithFallback.mockImplementation(async () => {
+        recordLLMCall({
+          task: "mindMapGeneration",
+          model: "test-model",
+          tokensUsed: 120,
+          prompts: ["mindMapGeneration@1.2.0"],
+        });
+        return { content: JSON.stringify(defaultMindMapResponse) };
+      });
+
+      await generator.generateVisualization("mind-map", mockDocument, mockAnalysis);
+
+      expect(mocks.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          llmMetadata: expect.objectContaining({
+            model: "test-model",
+            tokensUsed: 120,
+            promptVersion: "mindMapGeneration@1.2.0",
+          }),
+        }),
+        "generation",
+      );
+    });
+
+    it("should record output that needed repairing", async () => {
+      const failure = {
+        task: "mindMapGeneration" as const,
+        model: "test-model",
+        errors: ["nodes: Array must contain at least 1 element(s)"],
+        repairAttempts: 1,
+        repaired: true,
+      };
+      mocks.callWithFallback.mockImplementation(async () => {
+        recordValidationFailure(failure);
+        return { content: JSON.stringify(defaultMindMapResponse) };
+      });
+
+      await generator.generateVisualization("mind-map", mockDocument, mockAnalysis);
+
+      expect(mocks.save.mock.calls[0][0].llmMetadata.validationFailures).toEqual([failure]);
     });
 
     it("should throw error for unsupported visualization type", async () => {
@@ -582,4 +699,277 @@ describe("VisualizationGenerator", () => {
       ).rejects.toThrow("LLM failed");
     });
   });
+
+  describe("Flowchart Generation", () => {
+    const flowchartResponse = {
+      swimlanes: [
+        { id: "lane-employee", label: "Employee" },
+        { id: "lane-manager", label: "Manager" },
+      ],
+      nodes: [
+        { id: "start", type: "start", label: "Expense incurred", swimlane: "lane-employee" },
+        { id: "submit", type: "process", label: "Submit report", swimlane: "Employee" },
+        { id: "review", type: "decision", label: "Report complete?", swimlane: "lane-manager" },
+        { id: "paid", type: "end", label: "Reimbursed", swimlane: "lane-manager" },
+      ],
+      edges: [
+        { source: "start", target: "submit" },
+        { source: "submit", target: "review" },
+        { source: "review", target: "paid", label: "Yes" },
+        { source: "review", target: "submit", label: "No" },
+      ],
+    };
+
+    it("extracts decisions, loops and swimlanes with the LLM", async () => {
+      mocks.callWithFallback.mockResolvedValue({
+        content: JSON.stringify(flowchartResponse),
+      });
+
+      const result = (await generator.generateVisualization(
+        "flowchart",
+        mockDocument,
+        mockAnalysis,
+      )) as FlowchartData;
+
+      expect(mocks.callWithFallback).toHaveBeenCalledWith(
+        "flowchartGeneration",
+        expect.stringContaining(mockDocument.content),
+      );
+      expect(result.nodes.find((n) => n.id === "submit")?.swimlane).toBe("lane-employee");
+      expect(result.swimlanes).toHaveLength(2);
+      expect(result.edges.find((e) => e.label === "No")?.type).toBe("dashed");
+      expect(result.edges.find((e) => e.label === "Yes")?.type).toBe("solid");
+      expect(mocks.save).toHaveBeenCalled();
+    });
+
+    it("rejects flowcharts with unreachable steps without storing them", async () => {
+      mocks.callWithFallback.mockResolvedValue({
+        content: JSON.stringify({
+          ...flowchartResponse,
+          nodes: [
+            ...flowchartResponse.nodes,
+            { id: "audit", type: "process", label: "Audit sample" },
+          ],
+        }),
+      });
+
+      await expect(
+        generator.generateVisualization("flowchart", mockDocument, mockAnalysis),
+      ).rejects.toThrow(/not reachable from the start: "Audit sample"/);
+      expect(mocks.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Timeline Generation", () => {
+    const content = [
+      "The launch is planned for March 1, 2024.",
+      "Training starts two weeks after launch.",
+      "The EU rollout follows in Q3 2024.",
+      "A review happens someday.",
+    ].join(" ");
+
+    beforeEach(() => {
+      mockDocument.content = content;
+      mockAnalysis.entities = ["March 1, 2024", "two weeks after launch", "Q3 2024", "someday"].map(
+        (text, i) => ({
+          id: `entity-${i}`,
+          text,
+          type: "date" as const,
+          mentions: [],
+          importance: 0.5,
+          context: i === 0 ? "Product launch" : undefined,
+        }),
+      );
+    });
+
+    it("resolves absolute, fuzzy and relative dates in order", async () => {
+      const result = (await generator.generateVisualization(
+        "timeline",
+        mockDocument,
+        mockAnalysis,
+      )) as TimelineData;
+
+      expect(result.events.map((e) => e.dateText)).toEqual([
+        "March 1, 2024",
+        "two weeks after launch",
+        "Q3 2024",
+      ]);
+      expect(result.events.map((e) => new Date(e.date).toISOString().substring(0, 10))).toEqual([
+        "2024-03-01",
+        "2024-03-15",
+        "2024-07-01",
+      ]);
+      expect(result.events[0].title).toBe("Product launch");
+      expect(result.events[1].category).toBe("relative");
+      expect(result.events[2].category).toBe("period");
+      expect(result.events[2].precision).toBe("quarter");
+      expect(result.scale).toBe("month");
+      expect(mocks.callWithFallback).not.toHaveBeenCalled();
+    });
+
+    it("records the source span of each event", async () => {
+      const result = (await generator.generateVisualization(
+        "timeline",
+        mockDocument,
+        mockAnalysis,
+      )) as TimelineData;
+
+      result.events.forEach((event) => {
+        expect(event.source).toBeDefined();
+        expect(content.substring(event.source!.start, event.source!.end)).toBe(event.dateText);
+      });
+      expect(result.events[1].description).toBe("Training starts two weeks after launch.");
+    });
+
+    it("falls back to dates found in the text when no date entities were extracted", async () => {
+      mockAnalysis.entities = [];
+
+      const result = (await generator.generateVisualization(
+        "timeline",
+        mockDocument,
+        mockAnalysis,
+      )) as TimelineData;
+
+      expect(result.events.map((e) => e.dateText)).toEqual(["March 1, 2024", "Q3 2024"]);
+    });
+  });
+
+  describe("Gantt, RACI and Priority Matrix Generation", () => {
+    it("resolves gantt dates against the document and stores the chart", async () => {
+      mockDocument.content = "We kick off on March 4, 2024. The audit takes three weeks.";
+      mocks.callWithFallback.mockResolvedValue({
+        content: JSON.stringify({
+          tasks: [
+            { id: "kickoff", name: "Kickoff", start: "March 4, 2024", milestone: true, quote: "kick off on March 4, 2024" },
+            { id: "audit", name: "Audit", duration: "3 weeks", dependencies: ["kickoff"] },
+          ],
+        }),
+      });
+
+      const result = (await generator.generateVisualization(
+        "gantt",
+        mockDocument,
+        mockAnalysis,
+      )) as GanttData;
+
+      expect(mocks.callWithFallback).toHaveBeenCalledWith(
+        "ganttGeneration",
+        expect.stringContaining(mockDocument.content),
+      );
+      expect(result.tasks[1].end.slice(0, 10)).toBe("2024-03-25");
+      expect(result.tasks[0].source).toEqual({ start: 3, end: 28, text: "kick off on March 4, 2024" });
+      expect(result.criticalPath).toEqual(["kickoff", "audit"]);
+      expect(mocks.save).toHaveBeenCalled();
+    });
+
+    it("rejects a gantt chart without tasks", async () => {
+      mocks.callWithFallback.mockResolvedValue({ content: JSON.stringify({ tasks: [] }) });
+
+      await expect(
+        generator.generateVisualization("gantt", mockDocument, mockAnalysis),
+      ).rejects.toThrow("Invalid gantt chart: gantt chart has no tasks");
+      expect(mocks.save).not.toHaveBeenCalled();
+    });
+
+    it("builds a RACI matrix", async () => {
+      mocks.callWithFallback.mockResolvedValue({
+        content: JSON.stringify({
+          roles: [{ id: "pm", name: "PM" }],
+          activities: [{ id: "plan", name: "Plan" }],
+          assignments: [{ activity: "plan", role: "pm", responsibilities: ["A", "R"] }],
+        }),
+      });
+
+      const result = (await generator.generateVisualization(
+        "raci-matrix",
+        mockDocument,
+        mockAnalysis,
+      )) as RaciMatrixData;
+
+      expect(mocks.callWithFallback.mock.calls[0][0]).toBe("raciGeneration");
+      expect(result.assignments[0].responsibilities).toEqual(["R", "A"]);
+    });
+
+    it("places priority items in quadrants", async () => {
+      mocks.callWithFallback.mockResolvedValue({
+        content: JSON.stringify({
+          mode: "impact-effort",
+          items: [{ id: "sso", label: "Add SSO", impact: 5, effort: 1 }],
+        }),
+      });
+
+      const result = (await generator.generateVisualization(
+        "priority-matrix",
+        mockDocument,
+        mockAnalysis,
+      )) as PriorityMatrixData;
+
+      expect(mocks.callWithFallback.mock.calls[0][0]).toBe("priorityMatrixGeneration");
+      expect(result.items[0].quadrant).toBe("quick-win");
+    });
+  });
+
+  describe("UML Sequence and Activity Diagram Generation", () => {
+    it("numbers messages and grounds participants in the document", async () => {
+      mockDocument.content = "The customer submits an order to the Order API.";
+      mocks.callWithFallback.mockResolvedValue({
+        content: JSON.stringify({
+          participants: [
+            { id: "user", name: "Customer", kind: "actor", quote: "The customer submits an order" },
+            { id: "api", name: "Order API", kind: "boundary" },
+          ],
+          steps: [
+            { from: "user", to: "api", label: "submit order", kind: "sync" },
+            { from: "api", to: "user", label: "order id", kind: "return" },
+          ],
+        }),
+      });
+
+      const result = (await generator.generateVisualization(
+        "uml-sequence",
+        mockDocument,
+        mockAnalysis,
+      )) as UMLSequenceData;
+
+      expect(mocks.callWithFallback.mock.calls[0][0]).toBe("umlSequenceGeneration");
+      expect(result.participants[0].sourceSpan).toEqual({ start: 0, end: 29, text: "The customer submits an order" });
+      expect(result.messages.map((m) => m.order)).toEqual([0, 1]);
+      expect(result.activations).toEqual([
+        { id: "activation-0", participantId: "api", startOrder: 0, endOrder: 1, depth: 0 },
+      ]);
+      expect(mocks.save).toHaveBeenCalled();
+    });
+
+    it("rejects a sequence diagram without messages", async () => {
+      mocks.callWithFallback.mockResolvedValue({
+        content: JSON.stringify({ participants: [{ id: "a", name: "A" }], steps: [] }),
+      });
+
+      await expect(
+        generator.generateVisualization("uml-sequence", mockDocument, mockAnalysis),
+      ).rejects.toThrow("Invalid sequence diagram: sequence diagram has no messages");
+      expect(mocks.save).not.toHaveBeenCalled();
+    });
+
+    it("builds an activity diagram", async () => {
+      mocks.callWithFallback.mockResolvedValue({
+        content: JSON.stringify({
+          nodes: [
+            { id: "check", kind: "action", label: "Validate invoice" },
+            { id: "end", kind: "final" },
+          ],
+          flows: [{ from: "check", to: "end" }],
+        }),
+      });
+
+      const result = (await generator.generateVisualization(
+        "uml-activity",
+        mockDocument,
+        mockAnalysis,
+      )) as UMLActivityData;
+
+      expect(mocks.callWithFallback.mock.calls[0][0]).toBe("umlActivityGeneration");
+      expect(result.nodes.map((n) => n.kind)).toEqual(["initial", "action", "final"]);
+    });
+  });
 });
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  applyOverlay,
+  validatePatchOperations,
+  validateVisualizationData,
+} from '../visualizationOverlay.js';
+
+const argumentMap = () => ({
+  nodes: [
+    { id: 'c1', type: 'claim', label: 'Ship it', summary: '', polarity: 'neutral', confidence: 1, impact: 'high', depthMetrics: {} },
+    { id: 'e1', type: 'evidence', label: 'Tests pass', summary: '', polarity: 'support', confidence: 1, impact: 'low', depthMetrics: {} },
+  ],
+  edges: [{ id: 'edge-1', source: 'e1', target: 'c1', type: 'supports', strength: 0.8 }],
+  metadata: {},
+});
+
+describe('visualizationOverlay', () => {
+  describe('applyOverlay', () => {
+    it('addresses array elements by id or index without touching the input', () => {
+      const data = argumentMap();
+
+      const result = applyOverlay(data, [
+        { op: 'replace', path: '/nodes/c1/label', value: 'Ship it now' },
+        { op: 'remove', path: '/edges/0' },
+        { op: 'add', path: '/edges/-', value: { id: 'edge-2', source: 'c1', target: 'e1', type: 'attacks', strength: 0.5 } },
+      ]);
+
+      expect(result.rejected).toEqual([]);
+      expect(result.data.nodes[0].label).toBe('Ship it now');
+      expect(result.data.edges.map((edge: any) => edge.id)).toEqual(['edge-2']);
+      expect(data.nodes[0].label).toBe('Ship it');
+    });
+
+    it('skips operations whose target no longer exists', () => {
+      const result = applyOverlay(argumentMap(), [
+        { op: 'replace', path: '/nodes/missing/label', value: 'x' },
+        { op: 'remove', path: '/nodes/e1' },
+      ]);
+
+      expect(result.applied).toEqual([{ op: 'remove', path: '/nodes/e1' }]);
+      expect(result.rejected[0].reason).toBe('Path not found: /nodes/missing/label');
+      expect(result.data.nodes).toHaveLength(1);
+    });
+
+    it('never writes through __proto__, constructor or prototype', () => {
+      const result = applyOverlay(argumentMap(), [
+        { op: 'add', path: '/__proto__/polluted', value: 'x' },
+        { op: 'add', path: '/constructor/prototype/polluted', value: 'x' },
+        { op: 'replace', path: '/nodes/0/__proto__', value: { polluted: 'x' } },
+        { op: 'add', path: '/toString/polluted', value: 'x' },
+      ]);
+
+      expect(result.applied).toEqual([]);
+      expect(result.rejected).toHaveLength(4);
+      expect(({} as any).polluted).toBeUndefined();
+      expect((Object.prototype as any).polluted).toBeUndefined();
+    });
+  });
+
+  describe('validatePatchOperations', () => {
+    it('rejects malformed operations', () => {
+      expect(validatePatchOperations([])).toHaveLength(1);
+      expect(validatePatchOperations([{ op: 'move', path: 'nodes' }])).toEqual([
+        'Operation 0: op must be one of add, remove, replace',
+        'Operation 0: path must be a JSON Pointer starting with "/"',
+        'Operation 0: move requires a value',
+      ]);
+      expect(validatePatchOperations([{ op: 'remove', path: '/nodes/0' }])).toEqual([]);
+    });
+
+    it('rejects paths that would reach an object prototype', () => {
+      expect(validatePatchOperations([
+        { op: 'add', path: '/__proto__/polluted', value: 'x' },
+        { op: 'add', path: '/nodes/0/constructor/prototype/polluted', value: 'x' },
+      ])).toEqual([
+        'Operation 0: path may not contain __proto__, constructor, prototype',
+        'Operation 1: path may not contain __proto__, constructor, prototype',
+      ]);
+    });
+  });
+
+  describe('validateVisualizationData', () => {
+    it('flags edges left dangling by a removed node', () => {
+      const { data } = applyOverlay(argumentMap(), [{ op: 'remove', path: '/nodes/c1' }]);
+
+      expect(validateVisualizationData('argument-map', data)).toEqual([
+        'Edge edge-1 must connect existing nodes',
+      ]);
+    });
+
+    it('checks every mind map node recursively', () => {
+      const data = {
+        root: {
+          id: 'root',
+          label: 'Root',
+          children: [{ id: 'root', label: '', children: [] }],
+        },
+      };
+
+      expect(validateVisualizationData('mind-map', data)).toEqual([
+        'Duplicate mind map node id root',
+        'Mind map node root needs a label',
+      ]);
+    });
+  });
+});
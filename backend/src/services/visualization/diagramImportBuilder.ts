@@ -0,0 +1,354 @@
+import { normalizeFlowchart, validateFlowchart } from './flowchartBuilder.js';
+import { normalizeActivityDiagram, validateActivityDiagram } from './umlActivityBuilder.js';
+import { normalizeSequenceDiagram, validateSequenceDiagram } from './umlSequenceBuilder.js';
+
+import type { RawFlowchart } from './flowchartBuilder.js';
+import type { RawActivityDiagram } from './umlActivityBuilder.js';
+import type { RawSequenceDiagram } from './umlSequenceBuilder.js';
+import type {
+  Attribute,
+  ClassEntity,
+  FlowchartData,
+  Method,
+  MindMapData,
+  MindMapNode,
+  Package,
+  UMLActivityData,
+  UMLDiagramData,
+  UMLRelationship,
+  UMLSequenceData,
+  VisualizationType,
+} from '../../../../shared/src/types.js';
+
+/**
+ * Visualization data parsed from Mermaid or PlantUML source. Problems that still leave
+ * a renderable diagram (an unlabelled decision, a second start node) come back as
+ * warnings; a diagram with nothing to draw is an error.
+ */
+export interface ImportedDiagram {
+  type: VisualizationType;
+  data: FlowchartData | UMLDiagramData | MindMapData | UMLSequenceData | UMLActivityData;
+  warnings: string[];
+}
+
+/**
+ * Class diagram as read from the source: classes keyed by their alias in the source,
+ * relationships referencing those keys, members as the raw text of each member line.
+ */
+export interface RawClassDiagram {
+  classes: Array<{
+    key: string;
+    name: string;
+    type: ClassEntity['type'];
+    stereotype?: string;
+    package?: string;
+    members: string[];
+  }>;
+  relationships: Array<{
+    source: string;
+    target: string;
+    type: UMLRelationship['type'];
+    sourceMultiplicity?: string;
+    targetMultiplicity?: string;
+    label?: string;
+  }>;
+}
+
+export interface RawMindMapNode {
+  label: string;
+  children: RawMindMapNode[];
+}
+
+// Same palettes the generator uses, so imported diagrams look like generated ones
+const PACKAGE_COLORS = ['#DBEAFE', '#FEE2E2', '#D1FAE5', '#FEF3C7', '#E0E7FF', '#FCE7F3'];
+const MIND_MAP_COLORS = ['#4F46E5', '#7C3AED', '#10B981', '#F59E0B', '#EF4444', '#EC4899', '#06B6D4'];
+
+const VISIBILITIES: Record<string, Attribute['visibility']> = {
+  '+': 'public',
+  '-': 'private',
+  '#': 'protected',
+  '~': 'package',
+};
+
+/**
+ * Strip surrounding quotes and Mermaid's markdown-string backticks, and decode the
+ * entity codes both exporters write (`#quot;`, `#59;`).
+ */
+export function cleanLabel(text?: string): string {
+  return String(text ?? '')
+    .trim()
+    .replace(/^"(.*)"$/s, '$1')
+    .replace(/^`(.*)`$/s, '$1')
+    .replace(/#quot;/g, '"')
+    .replace(/#(\d+);/g, (_match, code) => String.fromCharCode(Number(code)))
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/\\n/g, ' ')
+    .trim();
+}
+
+/**
+ * Relationship from the arrow ends: `<|`/`|>` inheritance (realization when dotted),
+ * `*` composition and `o` aggregation with the whole on the diamond side, `>` an
+ * association or dependency towards the arrowhead. The source is always the child,
+ * the whole, or the side the arrow leaves from.
+ */
+export function classRelationship(
+  left: string | undefined,
+  line: string,
+  right: string | undefined,
+): { type: UMLRelationship['type']; reversed: boolean } {
+  const dotted = line.includes('.');
+  if (left === '<|' || right === '|>') {
+    return { type: dotted ? 'realization' : 'inheritance', reversed: left === '<|' };
+  }
+  if (left === '*' || right === '*') {
+    return { type: 'composition', reversed: right === '*' };
+  }
+  if (left === 'o' || right === 'o') {
+    return { type: 'aggregation', reversed: right === 'o' };
+  }
+  return { type: dotted ? 'dependency' : 'association', reversed: left === '<' && right !== '>' };
+}
+
+export function importedFlowchart(raw: RawFlowchart): ImportedDiagram {
+  const data = normalizeFlowchart(raw);
+  if (data.nodes.length === 0) {
+    throw new Error('Flowchart has no nodes');
+  }
+  const { errors, warnings } = validateFlowchart(data);
+  return { type: 'flowchart', data, warnings: [...errors, ...warnings] };
+}
+
+export function importedSequenceDiagram(raw: RawSequenceDiagram): ImportedDiagram {
+  const data = normalizeSequenceDiagram(raw);
+  const { errors, warnings } = validateSequenceDiagram(data);
+  if (data.messages.length === 0) {
+    throw new Error(`Invalid sequence diagram: ${errors.join('; ')}`);
+  }
+  return { type: 'uml-sequence', data, warnings: [...errors, ...warnings] };
+}
+
+export function importedActivityDiagram(raw: RawActivityDiagram): ImportedDiagram {
+  const data = normalizeActivityDiagram(raw);
+  const { errors, warnings } = validateActivityDiagram(data);
+  if (!data.nodes.some((node) => node.kind === 'action')) {
+    throw new Error(`Invalid activity diagram: ${errors.join('; ')}`);
+  }
+  return { type: 'uml-activity', data, warnings: [...errors, ...warnings] };
+}
+
+// `name : Type` (UML, PlantUML) or `Type name` (Mermaid)
+function parseTyped(text: string): { name: string; type: string } {
+  const colon = text.indexOf(':');
+  if (colon >= 0) {
+    return { name: text.slice(0, colon).trim(), type: fromMermaidGenerics(text.slice(colon + 1).trim()) };
+  }
+  const parts = text.trim().split(/\s+/);
+  return parts.length > 1
+    ? { name: parts[parts.length - 1], type: fromMermaidGenerics(parts.slice(0, -1).join(' ')) }
+    : { name: parts[0] || '', type: '' };
+}
+
+// Mermaid writes List<String> as List~String~
+const fromMermaidGenerics = (type: string) => type.replace(/~([^~]*)~/g, '<$1>');
+
+/**
+ * One class member line in either syntax: `+{static} count : int`, `+int count$`,
+ * `+{abstract} area(scale : double) : double` or `+area(double scale)* double`.
+ */
+export function parseClassMember(
+  text: string,
+  id: string,
+): { attribute: Attribute } | { method: Method } {
+  let rest = text.trim();
+  let isStatic = false;
+  let isAbstract = false;
+  rest = rest.replace(/\{(static|classifier|abstract)\}\s*/g, (_match, modifier: string) => {
+    if (modifier === 'abstract') isAbstract = true;
+    else isStatic = true;
+    return '';
+  });
+
+  const visibility = VISIBILITIES[rest[0]];
+  if (visibility) {
+    rest = rest.slice(1).trim();
+  }
+
+  const open = rest.indexOf('(');
+  if (open > 0) {
+    const close = rest.lastIndexOf(')');
+    let returnType = close > open ? rest.slice(close + 1).trim() : '';
+    if (returnType.startsWith('$')) isStatic = true;
+    if (returnType.startsWith('*')) isAbstract = true;
+    returnType = returnType.replace(/^[$*]/, '').replace(/^:/, '').trim();
+
+    return {
+      method: {
+        id,
+        name: rest.slice(0, open).trim(),
+        returnType: fromMermaidGenerics(returnType),
+        visibility: visibility || 'public',
+        isStatic,
+        isAbstract,
+        parameters: rest
+          .slice(open + 1, close > open ? close : undefined)
+          .split(',')
+          .map((parameter) => parameter.trim())
+          .filter(Boolean)
+          .map(parseTyped),
+      },
+    };
+  }
+
+  if (rest.endsWith('$')) {
+    isStatic = true;
+    rest = rest.slice(0, -1).trim();
+  }
+  const { name, type } = parseTyped(rest);
+  return { attribute: { id, name, type, visibility: visibility || 'public', isStatic } };
+}
+
+/**
+ * Build UMLDiagramData from parsed classes. Classes that only appear in a relationship
+ * are added as plain classes.
+ */
+export function importedClassDiagram(raw: RawClassDiagram): ImportedDiagram {
+  const classes: ClassEntity[] = [];
+  const idByKey = new Map<string, string>();
+
+  const addClass = (cls: RawClassDiagram['classes'][number]) => {
+    const index = classes.length;
+    const attributes: Attribute[] = [];
+    const methods: Method[] = [];
+    cls.members.forEach((member, memberIndex) => {
+      const parsed = parseClassMember(member, `member-${index}-${memberIndex}`);
+      if ('method' in parsed) methods.push(parsed.method);
+      else if (parsed.attribute.name) attributes.push(parsed.attribute);
+    });
+
+    const entity: ClassEntity = {
+      id: `class-${index}`,
+      name: cls.name || cls.key,
+      type: cls.type,
+      stereotype: cls.stereotype,
+      package: cls.package,
+      attributes,
+      methods,
+      description: '',
+      sourceQuote: '',
+      sourceSpan: null,
+      documentLink: '',
+    };
+    classes.push(entity);
+    idByKey.set(cls.key, entity.id);
+    return entity.id;
+  };
+
+  raw.classes.forEach((cls) => {
+    if (!idByKey.has(cls.key)) addClass(cls);
+  });
+  const resolve = (key: string) => idByKey.get(key) || addClass({ key, name: key, type: 'class', members: [] });
+
+  const relationships: UMLRelationship[] = raw.relationships.map((rel, index) => ({
+    id: `rel-${index}`,
+    source: resolve(rel.source),
+    target: resolve(rel.target),
+    type: rel.type,
+    sourceMultiplicity: rel.sourceMultiplicity,
+    targetMultiplicity: rel.targetMultiplicity,
+    label: rel.label,
+    description: '',
+    sourceQuote: '',
+    evidence: [],
+  }));
+
+  if (classes.length === 0) {
+    throw new Error('Class diagram has no classes');
+  }
+
+  const packages: Package[] = [];
+  classes.forEach((cls) => {
+    if (!cls.package) return;
+    let pkg = packages.find((p) => p.name === cls.package);
+    if (!pkg) {
+      pkg = {
+        id: `pkg-${packages.length}`,
+        name: cls.package,
+        classes: [],
+        color: PACKAGE_COLORS[packages.length % PACKAGE_COLORS.length],
+      };
+      packages.push(pkg);
+    }
+    pkg.classes.push(cls.id);
+  });
+
+  return {
+    type: 'uml-class-diagram',
+    data: {
+      classes,
+      relationships,
+      packages,
+      metadata: {
+        totalClasses: classes.length,
+        totalRelationships: relationships.length,
+        extractionConfidence: 1,
+        documentDomain: 'general',
+        generatedAt: new Date().toISOString(),
+      },
+    },
+    warnings: [],
+  };
+}
+
+/**
+ * Build MindMapData from a parsed outline. Sources with several top-level nodes are
+ * hung under the first one, since a mind map has a single root.
+ */
+export function importedMindMap(roots: RawMindMapNode[]): ImportedDiagram {
+  if (roots.length === 0) {
+    throw new Error('Mind map has no nodes');
+  }
+
+  const warnings: string[] = [];
+  const [first, ...others] = roots;
+  if (others.length > 0) {
+    warnings.push(`${others.length} extra top-level node(s) attached under "${first.label}"`);
+  }
+
+  let count = 0;
+  const build = (node: RawMindMapNode, level: number): MindMapNode => {
+    const id = `node-${count++}`;
+    return {
+      id,
+      label: node.label || 'Untitled',
+      subtitle: '',
+      summary: '',
+      children: node.children.map((child) => build(child, level + 1)),
+      level,
+      color: MIND_MAP_COLORS[level % MIND_MAP_COLORS.length],
+      icon: '',
+      sourceRef: { start: 0, end: 0, text: '' },
+      detailedExplanation: '',
+      metadata: {
+        importance: Math.max(0.3, 0.9 - level * 0.15),
+        confidence: 1,
+      },
+    };
+  };
+
+  return {
+    type: 'mind-map',
+    data: {
+      root: build({ ...first, children: [...first.children, ...others] }, 0),
+      layout: 'radial',
+      theme: {
+        primary: '#4F46E5',
+        secondary: '#7C3AED',
+        accent: '#10B981',
+        background: '#FFFFFF',
+        text: '#1F2937',
+      },
+    },
+    warnings,
+  };
+}
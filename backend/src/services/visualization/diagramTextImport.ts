@@ -0,0 +1,28 @@
+import { parseMermaid } from './mermaidParser.js';
+import { parsePlantUml } from './plantUmlParser.js';
+
+import type { ImportedDiagram } from './diagramImportBuilder.js';
+import type { DiagramTextFormat } from '../../../../shared/src/types.js';
+
+export type { ImportedDiagram } from './diagramImportBuilder.js';
+
+export const DIAGRAM_TEXT_IMPORT_FORMATS: DiagramTextFormat[] = ['mermaid', 'plantuml'];
+
+/**
+ * PlantUML sources are wrapped in `@start...`/`@end...`; everything else is taken for
+ * Mermaid, whose parser reports a clear error for unknown diagram headers.
+ */
+export function detectDiagramTextFormat(source: string): DiagramTextFormat {
+  return (/^\s*@start\w+/m).test(source) ? 'plantuml' : 'mermaid';
+}
+
+/**
+ * Parse Mermaid or PlantUML source into visualization data. Throws with a message fit
+ * for the user when the source cannot be read as a supported diagram.
+ */
+export function parseDiagramText(
+  source: string,
+  format: DiagramTextFormat = detectDiagramTextFormat(source),
+): ImportedDiagram {
+  return format === 'plantuml' ? parsePlantUml(source) : parseMermaid(source);
+}
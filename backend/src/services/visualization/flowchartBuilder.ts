@@ -0,0 +1,191 @@
+import type {
+  FlowchartData,
+  FlowEdge,
+  FlowNode,
+  FlowNodeType,
+  Swimlane,
+} from '../../../../shared/src/types.js';
+
+/**
+ * Flowchart as returned by the `flowchartGeneration` prompt, before any field is trusted.
+ */
+export interface RawFlowchart {
+  nodes?: Array<Partial<FlowNode>>;
+  edges?: Array<Partial<FlowEdge>>;
+  swimlanes?: Array<Partial<Swimlane>>;
+  layout?: string;
+}
+
+export interface FlowchartValidationResult {
+  errors: string[];
+  warnings: string[];
+}
+
+const NODE_TYPES: FlowNodeType[] = ['process', 'decision', 'start', 'end', 'input', 'output'];
+
+const SWIMLANE_COLORS = ['#4F46E5', '#0EA5E9', '#10B981', '#F59E0B', '#EC4899', '#8B5CF6', '#64748B'];
+
+/**
+ * Turn the LLM output into well-formed FlowchartData: unique ids, known node types,
+ * swimlanes referenced by id, no dangling edges, and loop edges marked as dashed.
+ */
+export function normalizeFlowchart(raw: RawFlowchart): FlowchartData {
+  const swimlanes: Swimlane[] = [];
+  const laneByKey = new Map<string, Swimlane>();
+
+  const addLane = (id: string, label: string): Swimlane => {
+    const lane = { id, label, color: SWIMLANE_COLORS[swimlanes.length % SWIMLANE_COLORS.length] };
+    swimlanes.push(lane);
+    laneByKey.set(id.toLowerCase(), lane);
+    laneByKey.set(label.toLowerCase(), lane);
+    return lane;
+  };
+
+  (raw.swimlanes || []).forEach((lane, index) => {
+    const label = (lane.label || lane.id || '').trim();
+    if (!label || laneByKey.has(label.toLowerCase())) return;
+    addLane(lane.id || `lane-${index}`, label);
+  });
+
+  // Nodes may name a lane by id or label; lanes the model forgot to declare are added
+  const resolveLane = (ref?: string): string | undefined => {
+    const key = ref?.trim();
+    if (!key) return undefined;
+    const lane = laneByKey.get(key.toLowerCase()) || addLane(`lane-${swimlanes.length}`, key);
+    return lane.id;
+  };
+
+  const nodes: FlowNode[] = [];
+  const nodeIds = new Set<string>();
+  (raw.nodes || []).forEach((node, index) => {
+    const id = String(node.id || `node-${index}`);
+    if (nodeIds.has(id)) return;
+    nodeIds.add(id);
+
+    nodes.push({
+      id,
+      type: NODE_TYPES.includes(node.type as FlowNodeType) ? (node.type as FlowNodeType) : 'process',
+      label: (node.label || '').trim() || 'Untitled step',
+      description: node.description || '',
+      swimlane: resolveLane(node.swimlane),
+    });
+  });
+
+  const edges: FlowEdge[] = [];
+  const edgeKeys = new Set<string>();
+  (raw.edges || []).forEach((edge) => {
+    const source = String(edge.source);
+    const target = String(edge.target);
+    const label = edge.label?.trim() || undefined;
+    const key = `${source}→${target}→${label || ''}`;
+    if (!nodeIds.has(source) || !nodeIds.has(target) || edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+
+    edges.push({ id: `edge-${edges.length}`, source, target, label, type: edge.type === 'dashed' ? 'dashed' : 'solid' });
+  });
+
+  // A model that forgets to type the start node usually still leaves a single entry point
+  if (!nodes.some((n) => n.type === 'start')) {
+    const targets = new Set(edges.map((e) => e.target));
+    const entryPoints = nodes.filter((n) => !targets.has(n.id));
+    if (entryPoints.length === 1) {
+      entryPoints[0].type = 'start';
+    }
+  }
+
+  markLoopEdges(nodes, edges);
+
+  return {
+    nodes,
+    edges,
+    swimlanes: swimlanes.length > 0 ? swimlanes : undefined,
+    layout: raw.layout === 'leftToRight' ? 'leftToRight' : 'topToBottom',
+  };
+}
+
+/**
+ * Check the structural rules a renderable process needs. Errors make the flowchart
+ * unusable (it is not stored); warnings are worth logging but still render fine.
+ */
+export function validateFlowchart(data: FlowchartData): FlowchartValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (data.nodes.length === 0) {
+    return { errors: ['flowchart has no nodes'], warnings };
+  }
+
+  const starts = data.nodes.filter((n) => n.type === 'start');
+  if (starts.length !== 1) {
+    errors.push(`expected exactly one start node, found ${starts.length}`);
+  } else {
+    const reachable = reachableFrom(starts[0].id, data.edges);
+    const unreachable = data.nodes.filter((n) => !reachable.has(n.id));
+    if (unreachable.length > 0) {
+      errors.push(
+        `${unreachable.length} node(s) not reachable from the start: ${unreachable.map((n) => `"${n.label}"`).join(', ')}`,
+      );
+    }
+  }
+
+  if (!data.nodes.some((n) => n.type === 'end')) {
+    warnings.push('flowchart has no end node');
+  }
+
+  data.nodes
+    .filter((n) => n.type === 'decision')
+    .forEach((decision) => {
+      const branches = data.edges.filter((e) => e.source === decision.id);
+      if (branches.length < 2) {
+        warnings.push(`decision "${decision.label}" has ${branches.length} outgoing branch(es)`);
+      } else if (branches.some((e) => !e.label)) {
+        warnings.push(`decision "${decision.label}" has unlabelled branches`);
+      }
+    });
+
+  return { errors, warnings };
+}
+
+function reachableFrom(startId: string, edges: FlowEdge[]): Set<string> {
+  const visited = new Set<string>([startId]);
+  const queue = [startId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    edges
+      .filter((e) => e.source === current && !visited.has(e.target))
+      .forEach((e) => {
+        visited.add(e.target);
+        queue.push(e.target);
+      });
+  }
+  return visited;
+}
+
+/**
+ * Mark edges that jump back to a node still on the DFS path (the "retry" arrow of a
+ * loop) as dashed, so renderers can route and style them differently.
+ */
+function markLoopEdges(nodes: FlowNode[], edges: FlowEdge[]): void {
+  const outgoing = new Map<string, FlowEdge[]>();
+  edges.forEach((e) => outgoing.set(e.source, [...(outgoing.get(e.source) || []), e]));
+
+  const state = new Map<string, 'active' | 'done'>();
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    for (const edge of outgoing.get(id) || []) {
+      const targetState = state.get(edge.target);
+      if (targetState === 'active') {
+        edge.type = 'dashed';
+      } else if (!targetState) {
+        visit(edge.target);
+      }
+    }
+    state.set(id, 'done');
+  };
+
+  // Start from the start node so "back" means back along the process, then sweep the rest
+  const ordered = [...nodes].sort((a, b) => Number(b.type === 'start') - Number(a.type === 'start'));
+  ordered.forEach((node) => {
+    if (!state.has(node.id)) visit(node.id);
+  });
+}
@@ -0,0 +1,305 @@
+import { resolveDate } from '../../utils/dateParser.js';
+
+import type {
+  GanttData,
+  GanttPhase,
+  GanttTask,
+  GanttTaskStatus,
+  TextSpan,
+} from '../../../../shared/src/types.js';
+import type { DateContext, ResolvedDate } from '../../utils/dateParser.js';
+
+/**
+ * Project plan as returned by the `ganttGeneration` prompt, before any field is trusted.
+ * Dates are still the phrases copied from the document.
+ */
+export interface RawGantt {
+  phases?: Array<{ id?: string; name?: string }>;
+  tasks?: Array<{
+    id?: string;
+    name?: string;
+    description?: string;
+    start?: string;
+    end?: string;
+    duration?: string | number;
+    milestone?: boolean;
+    progress?: number;
+    status?: string;
+    owner?: string;
+    phase?: string;
+    dependencies?: string[];
+    quote?: string;
+  }>;
+}
+
+export interface GanttContext extends DateContext {
+  /** Locate a verbatim quote in the document */
+  locate?: (quote: string) => TextSpan | undefined;
+}
+
+export interface GanttValidationResult {
+  errors: string[];
+  warnings: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Length of a task the document gives neither an end nor a duration for
+const DEFAULT_TASK_DAYS = 7;
+
+const STATUSES: GanttTaskStatus[] = ['not-started', 'in-progress', 'completed', 'blocked'];
+
+const PHASE_COLORS = ['#4F46E5', '#0EA5E9', '#10B981', '#F59E0B', '#EC4899', '#8B5CF6', '#64748B'];
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, quarter: 91, year: 365 };
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+/**
+ * Length in days of a duration such as "3 weeks", "ten days" or "a month".
+ * A bare number is a number of days.
+ */
+export function parseDuration(value: string | number | undefined): number | undefined {
+  if (typeof value === 'number') return value >= 0 ? value : undefined;
+  if (!value) return undefined;
+
+  const match = value.toLowerCase().match(
+    /(\d+(?:\.\d+)?|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)[\s-]*(?:business |working )?(day|week|month|quarter|year)s?\b/,
+  );
+  if (!match) {
+    const days = Number(value.trim());
+    return Number.isFinite(days) && days >= 0 ? days : undefined;
+  }
+
+  const amount = NUMBER_WORDS[match[1]] ?? Number(match[1]);
+  return amount * UNIT_DAYS[match[2]];
+}
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+const maxDate = (dates: Date[]) => dates.reduce((a, b) => (b > a ? b : a));
+
+/**
+ * Turn the LLM output into a schedulable GanttData: unique ids, dependencies that
+ * reference known tasks without cycles, and concrete dates for every task.
+ *
+ * Written dates are resolved with the timeline date parser, so "Q3 2024" spans the
+ * quarter and "two weeks after kickoff" resolves against a kickoff task scheduled
+ * earlier. Tasks without a written start begin when their dependencies finish, or at
+ * the project start, and are marked `estimated`.
+ */
+export function normalizeGantt(raw: RawGantt, context: GanttContext = {}): GanttData {
+  const phases: GanttPhase[] = [];
+  const phaseByKey = new Map<string, GanttPhase>();
+
+  const addPhase = (id: string, name: string): GanttPhase => {
+    const phase = { id, name, color: PHASE_COLORS[phases.length % PHASE_COLORS.length] };
+    phases.push(phase);
+    phaseByKey.set(id.toLowerCase(), phase);
+    phaseByKey.set(name.toLowerCase(), phase);
+    return phase;
+  };
+
+  (raw.phases || []).forEach((phase, index) => {
+    const name = (phase.name || phase.id || '').trim();
+    if (!name || phaseByKey.has(name.toLowerCase())) return;
+    addPhase(String(phase.id || `phase-${index}`), name);
+  });
+
+  // Tasks may name a phase by id or name; phases the model forgot to declare are added
+  const resolvePhase = (ref?: string): string | undefined => {
+    const key = ref?.trim();
+    if (!key) return undefined;
+    return (phaseByKey.get(key.toLowerCase()) || addPhase(`phase-${phases.length}`, key)).id;
+  };
+
+  const rawTasks = (raw.tasks || []).flatMap((task, index) => {
+    const name = (task.name || '').trim();
+    return name ? [{ ...task, id: String(task.id || `task-${index}`), name }] : [];
+  });
+
+  const taskIdByKey = new Map<string, string>();
+  const uniqueTasks = rawTasks.filter((task) => {
+    if (taskIdByKey.has(task.id.toLowerCase())) return false;
+    taskIdByKey.set(task.id.toLowerCase(), task.id);
+    if (!taskIdByKey.has(task.name.toLowerCase())) taskIdByKey.set(task.name.toLowerCase(), task.id);
+    return true;
+  });
+
+  // Dependencies may name a task by id or name; unknown ones and self-references are dropped
+  const dependencies = new Map<string, string[]>();
+  uniqueTasks.forEach((task) => {
+    const ids = (task.dependencies || [])
+      .map((ref) => taskIdByKey.get(String(ref).trim().toLowerCase()))
+      .filter((id): id is string => !!id && id !== task.id);
+    dependencies.set(task.id, [...new Set(ids)]);
+  });
+  const order = scheduleOrder(uniqueTasks.map((task) => task.id), dependencies);
+
+  const anchors = [...(context.anchors || [])];
+  const resolve = (text?: string): ResolvedDate | null => (
+    text?.trim() ? resolveDate(text, { referenceDate: context.referenceDate, anchors }) : null
+  );
+
+  // Tasks without dates or dependencies start with the earliest date the plan mentions
+  const writtenDates = uniqueTasks.flatMap((task) => [resolve(task.start), resolve(task.end)])
+    .filter((resolved): resolved is ResolvedDate => !!resolved)
+    .map((resolved) => resolved.date.getTime());
+  const projectStart = writtenDates.length > 0
+    ? new Date(Math.min(...writtenDates))
+    : context.referenceDate || new Date();
+
+  const scheduled = new Map<string, GanttTask>();
+  const byId = new Map(uniqueTasks.map((task) => [task.id, task]));
+  for (const id of order) {
+    const task = byId.get(id)!;
+    const taskDependencies = dependencies.get(id)!;
+    const startDate = resolve(task.start);
+    const endDate = resolve(task.end);
+    const duration = parseDuration(task.duration);
+    const milestone = !!task.milestone;
+    const dependenciesEnd = taskDependencies.length > 0
+      ? maxDate(taskDependencies.map((dependency) => new Date(scheduled.get(dependency)!.end)))
+      : undefined;
+
+    // An end written as a period ("Q3 2024") runs to the end of that period
+    const writtenEnd = endDate ? endDate.endDate || endDate.date : undefined;
+    const start = startDate?.date
+      ?? dependenciesEnd
+      ?? (writtenEnd && duration !== undefined ? addDays(writtenEnd, -duration) : undefined)
+      ?? writtenEnd
+      ?? projectStart;
+
+    let end: Date;
+    if (milestone) end = start;
+    else if (writtenEnd) end = writtenEnd;
+    else if (duration !== undefined) end = addDays(start, duration);
+    else end = startDate?.endDate || addDays(start, DEFAULT_TASK_DAYS);
+    if (end < start) end = start;
+
+    const status = STATUSES.includes(task.status as GanttTaskStatus)
+      ? (task.status as GanttTaskStatus)
+      : undefined;
+    const progress = typeof task.progress === 'number'
+      ? Math.min(1, Math.max(0, task.progress))
+      : status === 'completed' ? 1 : 0;
+
+    scheduled.set(id, {
+      id,
+      name: task.name,
+      description: task.description || undefined,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      startText: task.start?.trim() || undefined,
+      endText: task.end?.trim() || undefined,
+      estimated: !startDate || (!endDate && duration === undefined && !milestone && !startDate.endDate),
+      milestone,
+      progress,
+      status,
+      owner: task.owner?.trim() || undefined,
+      phaseId: resolvePhase(task.phase),
+      dependencies: taskDependencies,
+      source: task.quote ? context.locate?.(task.quote) : undefined,
+    });
+
+    // Later tasks can be "two weeks after <this task>"
+    anchors.push({ label: task.name, date: start, precision: startDate?.precision || 'day' });
+  }
+
+  // Chronological, with the document's order breaking ties
+  const tasks = uniqueTasks
+    .map((task) => scheduled.get(task.id)!)
+    .sort((a, b) => a.start.localeCompare(b.start));
+
+  return {
+    tasks,
+    phases,
+    start: tasks.length > 0 ? tasks.map((task) => task.start).reduce((a, b) => (b < a ? b : a)) : projectStart.toISOString(),
+    end: tasks.length > 0 ? tasks.map((task) => task.end).reduce((a, b) => (b > a ? b : a)) : projectStart.toISOString(),
+    criticalPath: findCriticalPath(tasks),
+  };
+}
+
+/**
+ * Order task ids so that every task comes after its dependencies. A dependency that
+ * closes a cycle is removed from `dependencies`.
+ */
+function scheduleOrder(ids: string[], dependencies: Map<string, string[]>): string[] {
+  const order: string[] = [];
+  const state = new Map<string, 'active' | 'done'>();
+
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    for (const dependency of [...dependencies.get(id)!]) {
+      const dependencyState = state.get(dependency);
+      if (dependencyState === 'active') {
+        dependencies.set(id, dependencies.get(id)!.filter((other) => other !== dependency));
+      } else if (!dependencyState) {
+        visit(dependency);
+      }
+    }
+    state.set(id, 'done');
+    order.push(id);
+  };
+
+  ids.forEach((id) => {
+    if (!state.has(id)) visit(id);
+  });
+  return order;
+}
+
+/**
+ * The chain of dependencies that drives the project end: starting from the task that
+ * finishes last, repeatedly step to the dependency that finishes last. Empty when the
+ * last task does not depend on anything.
+ */
+export function findCriticalPath(tasks: GanttTask[]): string[] {
+  if (tasks.length === 0) return [];
+
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  let current = tasks.reduce((a, b) => (b.end > a.end ? b : a));
+  const path = [current.id];
+  while (current.dependencies.length > 0) {
+    current = current.dependencies
+      .map((id) => byId.get(id)!)
+      .reduce((a, b) => (b.end > a.end ? b : a));
+    path.unshift(current.id);
+  }
+
+  return path.length > 1 ? path : [];
+}
+
+/**
+ * Check that the plan is worth drawing. Errors make the chart unusable (it is not
+ * stored); warnings point at scheduling conflicts the document itself contains.
+ */
+export function validateGantt(data: GanttData): GanttValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (data.tasks.length === 0) {
+    return { errors: ['gantt chart has no tasks'], warnings };
+  }
+
+  const byId = new Map(data.tasks.map((task) => [task.id, task]));
+  data.tasks.forEach((task) => {
+    const blocking = task.dependencies
+      .map((id) => byId.get(id)!)
+      .filter((dependency) => dependency.end > task.start);
+    if (blocking.length > 0) {
+      warnings.push(
+        `"${task.name}" starts before ${blocking.map((dependency) => `"${dependency.name}"`).join(', ')} finishes`,
+      );
+    }
+  });
+
+  const estimated = data.tasks.filter((task) => task.estimated).length;
+  if (estimated === data.tasks.length) {
+    warnings.push('no task has a written date; the whole schedule is estimated');
+  }
+
+  return { errors, warnings };
+}
@@ -0,0 +1,476 @@
+import {
+  classRelationship,
+  cleanLabel,
+  importedClassDiagram,
+  importedFlowchart,
+  importedMindMap,
+  importedSequenceDiagram,
+} from './diagramImportBuilder.js';
+
+import type { ImportedDiagram, RawClassDiagram, RawMindMapNode } from './diagramImportBuilder.js';
+import type { RawFlowchart } from './flowchartBuilder.js';
+import type { RawSequenceDiagram, RawSequenceStep } from './umlSequenceBuilder.js';
+import type { ClassEntity, FlowNodeType } from '../../../../shared/src/types.js';
+
+/**
+ * Mermaid import for flowcharts (`flowchart` / `graph`), class diagrams, sequence
+ * diagrams and mind maps. Styling statements (classDef, style, click, ...) are skipped;
+ * node positions are left to the renderer's layout engine.
+ */
+export function parseMermaid(source: string): ImportedDiagram {
+  const lines = mermaidLines(source);
+  if (lines.length === 0) {
+    throw new Error('Mermaid source is empty');
+  }
+
+  const [header, ...body] = lines;
+  const keyword = header.trim().split(/\s+/)[0];
+  switch (keyword) {
+    case 'flowchart':
+    case 'graph':
+      return parseFlowchart(header.trim(), body.map((line) => line.trim()));
+    case 'classDiagram':
+    case 'classDiagram-v2':
+      return parseClassDiagram(body.map((line) => line.trim()));
+    case 'sequenceDiagram':
+      return parseSequenceDiagram(body.map((line) => line.trim()));
+    case 'mindmap':
+      return parseMindMap(body);
+    default:
+      throw new Error(
+        `Unsupported Mermaid diagram "${keyword}"; expected flowchart, classDiagram, sequenceDiagram or mindmap`,
+      );
+  }
+}
+
+/**
+ * Source lines without front matter, `%%` comments and `%%{init}%%` directives.
+ * Indentation is kept since mind maps depend on it.
+ */
+function mermaidLines(source: string): string[] {
+  let lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const first = lines.findIndex((line) => line.trim() !== '');
+  if (first >= 0 && lines[first].trim() === '---') {
+    const close = lines.findIndex((line, index) => index > first && line.trim() === '---');
+    lines = lines.slice(close + 1);
+  }
+  return lines.filter((line) => line.trim() !== '' && !line.trim().startsWith('%%'));
+}
+
+// Split on `;` statement separators that are not inside a label
+function statements(line: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && '[({'.includes(char)) depth += 1;
+    if (!quoted && '])}'.includes(char)) depth = Math.max(0, depth - 1);
+    if (char === ';' && !quoted && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+  return parts.filter(Boolean);
+}
+
+// --- Flowcharts ------------------------------------------------------------
+
+type NodeShape = 'box' | 'rounded' | 'stadium' | 'circle' | 'diamond' | 'hexagon' | 'input' | 'output';
+
+interface NodeRef {
+  id: string;
+  label?: string;
+  shape?: NodeShape;
+}
+
+// Longest openings first; some openings close in more than one way
+const NODE_SHAPES: Array<{ open: string; closes: Array<[string, NodeShape]> }> = [
+  { open: '(((', closes: [[')))', 'circle']] },
+  { open: '([', closes: [['])', 'stadium']] },
+  { open: '[[', closes: [[']]', 'box']] },
+  { open: '[(', closes: [[')]', 'box']] },
+  { open: '((', closes: [['))', 'circle']] },
+  { open: '{{', closes: [['}}', 'hexagon']] },
+  { open: '[/', closes: [['/]', 'input'], ['\\]', 'input']] },
+  { open: '[\\', closes: [['\\]', 'output'], ['/]', 'output']] },
+  { open: '>', closes: [[']', 'box']] },
+  { open: '(', closes: [[')', 'rounded']] },
+  { open: '[', closes: [[']', 'box']] },
+  { open: '{', closes: [['}', 'diamond']] },
+];
+
+const NODE_ID = /^[\p{L}\p{N}_]+/u;
+
+function parseNodeRef(text: string, start: number): { ref: NodeRef; end: number } | null {
+  const id = text.slice(start).match(NODE_ID)?.[0];
+  if (!id) return null;
+  let pos = start + id.length;
+  const ref: NodeRef = { id };
+
+  const shape = NODE_SHAPES.find(({ open }) => text.startsWith(open, pos));
+  if (shape) {
+    const labelStart = pos + shape.open.length;
+    // A quoted label may contain the closing delimiter
+    const searchFrom = text[labelStart] === '"' ? text.indexOf('"', labelStart + 1) + 1 || labelStart : labelStart;
+    const close = shape.closes
+      .map(([delimiter, nodeShape]) => ({ delimiter, nodeShape, index: text.indexOf(delimiter, searchFrom) }))
+      .filter(({ index }) => index >= 0)
+      .sort((a, b) => a.index - b.index)[0];
+    if (close) {
+      ref.label = cleanLabel(text.slice(labelStart, close.index));
+      ref.shape = close.nodeShape;
+      pos = close.index + close.delimiter.length;
+    }
+  }
+
+  const cssClass = text.slice(pos).match(/^:::[\w-]+/);
+  if (cssClass) pos += cssClass[0].length;
+  return { ref, end: pos };
+}
+
+function parseNodeGroup(text: string, start: number): { refs: NodeRef[]; end: number } | null {
+  const refs: NodeRef[] = [];
+  let pos = start;
+  for (;;) {
+    const parsed = parseNodeRef(text, pos);
+    if (!parsed) return refs.length > 0 ? { refs, end: pos } : null;
+    refs.push(parsed.ref);
+    pos = parsed.end;
+    const ampersand = text.slice(pos).match(/^\s*&\s*/);
+    if (!ampersand) return { refs, end: pos };
+    pos += ampersand[0].length;
+  }
+}
+
+// `A -- text --> B` style labels, then plain links with an optional `|text|` label
+const INLINE_LABEL_LINK = /^\s*<?(--|==|-\.)\s*([^\s\-=.>|].*?)\s*(-{2,}>|={2,}>|\.+-+>|-{3,}|={3,}|\.-+)\s*/;
+const LINK = /^\s*(<|x|o)?(-{2,}|={2,}|-\.+-|~{3,})(>|x(?!\w)|o(?!\w))?\s*(?:\|([^|]*)\|\s*)?/;
+
+function parseLink(text: string, start: number): { label?: string; dashed: boolean; hidden: boolean; end: number } | null {
+  const rest = text.slice(start);
+  const inline = rest.match(INLINE_LABEL_LINK);
+  if (inline) {
+    return { label: cleanLabel(inline[2]), dashed: inline[1] === '-.', hidden: false, end: start + inline[0].length };
+  }
+  const link = rest.match(LINK);
+  if (!link) return null;
+  return {
+    label: link[4] !== undefined ? cleanLabel(link[4]) : undefined,
+    dashed: link[2].includes('.'),
+    hidden: link[2].startsWith('~'),
+    end: start + link[0].length,
+  };
+}
+
+const BLANK_LABELS: Partial<Record<FlowNodeType, string>> = { start: 'Start', end: 'End' };
+
+const SKIPPED_FLOWCHART_STATEMENTS = /^(classDef|class|style|linkStyle|click|direction|accTitle|accDescr)\b/;
+
+function parseFlowchart(header: string, body: string[]): ImportedDiagram {
+  const direction = header.split(/\s+/)[1]?.replace(';', '').toUpperCase();
+  const nodes = new Map<string, NodeRef & { swimlane?: string }>();
+  const edges: NonNullable<RawFlowchart['edges']> = [];
+  const swimlanes: Array<{ id: string; label: string }> = [];
+  const laneStack: string[] = [];
+
+  // Nodes belong to the last subgraph that mentions them
+  const touch = (ref: NodeRef) => {
+    const lane = laneStack[laneStack.length - 1];
+    const existing = nodes.get(ref.id);
+    if (!existing) {
+      nodes.set(ref.id, { ...ref, swimlane: lane });
+      return;
+    }
+    if (lane) existing.swimlane = lane;
+    if (ref.shape) {
+      existing.label = ref.label;
+      existing.shape = ref.shape;
+    }
+  };
+
+  body.flatMap(statements).forEach((statement) => {
+    const subgraph = statement.match(/^subgraph\s+(.+)$/);
+    if (subgraph) {
+      const parsed = parseNodeRef(subgraph[1].trim().replace(/\s+(?=[[({])/, ''), 0);
+      const id = parsed?.ref.id || `lane-${swimlanes.length}`;
+      swimlanes.push({ id, label: parsed?.ref.label || cleanLabel(subgraph[1]) });
+      laneStack.push(id);
+      return;
+    }
+    if (statement === 'end') {
+      laneStack.pop();
+      return;
+    }
+    if (SKIPPED_FLOWCHART_STATEMENTS.test(statement)) return;
+
+    // A chain of node groups joined by links: A & B --> C -->|yes| D
+    let group = parseNodeGroup(statement, 0);
+    if (!group) return;
+    group.refs.forEach(touch);
+    let pos = group.end;
+    while (pos < statement.length) {
+      const link = parseLink(statement, pos);
+      if (!link) break;
+      const next = parseNodeGroup(statement, link.end + (statement.slice(link.end).match(/^\s*/)?.[0].length || 0));
+      if (!next) break;
+      next.refs.forEach(touch);
+      if (!link.hidden) {
+        group.refs.forEach((source) => next.refs.forEach((target) => edges.push({
+          source: source.id,
+          target: target.id,
+          label: link.label,
+          type: link.dashed ? 'dashed' : 'solid',
+        })));
+      }
+      group = next;
+      pos = next.end;
+    }
+  });
+
+  // Terminals are drawn as stadiums or circles; which end they are follows from the edges
+  const hasIncoming = new Set(edges.map((edge) => edge.target));
+  const hasOutgoing = new Set(edges.map((edge) => edge.source));
+  const nodeType = (node: NodeRef): FlowNodeType => {
+    switch (node.shape) {
+      case 'diamond':
+        return 'decision';
+      case 'input':
+      case 'output':
+        return node.shape;
+      case 'stadium':
+      case 'circle':
+        if (!hasIncoming.has(node.id)) return 'start';
+        if (!hasOutgoing.has(node.id)) return 'end';
+        return 'process';
+      default:
+        return 'process';
+    }
+  };
+
+  return importedFlowchart({
+    nodes: [...nodes.values()].map((node) => {
+      const type = nodeType(node);
+      return {
+        id: node.id,
+        type,
+        // Blank labels (activity pseudo-states exported as flowcharts) fall back to the role
+        label: node.label || (node.label === undefined ? node.id : BLANK_LABELS[type] || ''),
+        swimlane: node.swimlane,
+      };
+    }),
+    edges,
+    swimlanes,
+    layout: direction === 'LR' || direction === 'RL' ? 'leftToRight' : 'topToBottom',
+  });
+}
+
+// --- Class diagrams --------------------------------------------------------
+
+const CLASS_NAME = '(`[^`]+`|[\\p{L}\\p{N}_.]+)';
+const CLASS_DECLARATION = new RegExp(
+  `^class\\s+${CLASS_NAME}(?:~([^~]+)~)?(?:\\["([^"]*)"\\])?(?::::[\\w-]+)?\\s*(\\{)?\\s*(\\})?$`,
+  'u',
+);
+const CLASS_RELATIONSHIP = new RegExp(
+  `^${CLASS_NAME}\\s*(?:"([^"]*)"\\s*)?(<\\||\\*|o|<)?(--|\\.\\.)(\\|>|\\*|o|>)?\\s*(?:"([^"]*)"\\s*)?${CLASS_NAME}\\s*(?::\\s*(.*))?$`,
+  'u',
+);
+
+const ANNOTATION_TYPES: Record<string, ClassEntity['type']> = {
+  interface: 'interface',
+  abstract: 'abstract',
+  enumeration: 'enum',
+  enum: 'enum',
+};
+
+function parseClassDiagram(body: string[]): ImportedDiagram {
+  const raw: RawClassDiagram = { classes: [], relationships: [] };
+  const byKey = new Map<string, RawClassDiagram['classes'][number]>();
+  const key = (name: string) => name.replace(/^`(.*)`$/, '$1');
+  const ensure = (name: string) => {
+    const existing = byKey.get(key(name));
+    if (existing) return existing;
+    const cls: RawClassDiagram['classes'][number] = { key: key(name), name: key(name), type: 'class', members: [] };
+    raw.classes.push(cls);
+    byKey.set(cls.key, cls);
+    return cls;
+  };
+  const annotate = (cls: RawClassDiagram['classes'][number], annotation: string) => {
+    const type = ANNOTATION_TYPES[annotation.trim().toLowerCase()];
+    if (type) cls.type = type;
+    else cls.stereotype = annotation.trim();
+  };
+
+  let namespace: string | undefined;
+  let openClass: RawClassDiagram['classes'][number] | undefined;
+
+  body.forEach((line) => {
+    if (openClass) {
+      if (line === '}') {
+        openClass = undefined;
+      } else if ((/^<<.+>>$/).test(line)) {
+        annotate(openClass, line.slice(2, -2));
+      } else {
+        openClass.members.push(line);
+      }
+      return;
+    }
+
+    const ns = line.match(/^namespace\s+([\w.]+)\s*\{$/);
+    if (ns) {
+      namespace = ns[1];
+      return;
+    }
+    if (line === '}') {
+      namespace = undefined;
+      return;
+    }
+
+    const declaration = line.match(CLASS_DECLARATION);
+    if (declaration) {
+      const cls = ensure(declaration[1]);
+      cls.name = declaration[3] !== undefined ? cleanLabel(declaration[3]) : key(declaration[1]);
+      if (declaration[2]) cls.name += `<${declaration[2]}>`;
+      if (namespace) cls.package = namespace;
+      if (declaration[4] && !declaration[5]) openClass = cls;
+      return;
+    }
+
+    const annotation = line.match(/^<<(.+)>>\s*(\S+)$/);
+    if (annotation) {
+      annotate(ensure(annotation[2]), annotation[1]);
+      return;
+    }
+
+    const relationship = line.match(CLASS_RELATIONSHIP);
+    if (relationship) {
+      const [, left, leftMultiplicity, leftEnd, lineStyle, rightEnd, rightMultiplicity, right, label] = relationship;
+      const { type, reversed } = classRelationship(leftEnd, lineStyle, rightEnd);
+      ensure(left);
+      ensure(right);
+      raw.relationships.push({
+        source: key(reversed ? right : left),
+        target: key(reversed ? left : right),
+        type,
+        sourceMultiplicity: reversed ? rightMultiplicity : leftMultiplicity,
+        targetMultiplicity: reversed ? leftMultiplicity : rightMultiplicity,
+        label: label ? cleanLabel(label) : undefined,
+      });
+      return;
+    }
+
+    // `Name : +member` adds one member from outside the class body
+    const member = line.match(/^(`[^`]+`|[\p{L}\p{N}_.]+)\s*:\s*(.+)$/u);
+    if (member) {
+      ensure(member[1]).members.push(member[2]);
+    }
+  });
+
+  return importedClassDiagram(raw);
+}
+
+// --- Sequence diagrams -----------------------------------------------------
+
+// Longest arrows first so `-->>` is not read as `-->` followed by `>`
+const SEQUENCE_MESSAGE = /^(.+?)\s*(-->>|->>|--x|-x|--\)|-\)|-->|->)\s*([+-])?\s*(.+?)\s*:\s*(.*)$/;
+
+const SEQUENCE_ARROW_KINDS: Record<string, string> = {
+  '->>': 'sync',
+  '->': 'sync',
+  '-->>': 'return',
+  '-->': 'return',
+  '-)': 'async',
+  '--)': 'async',
+  '-x': 'async',
+  '--x': 'async',
+};
+
+// Blocks whose `end` must be matched but which are not fragments
+const SEQUENCE_GROUPS = /^(rect|box)\b/;
+
+function parseSequenceDiagram(body: string[]): ImportedDiagram {
+  const raw: Required<Pick<RawSequenceDiagram, 'participants' | 'steps'>> = { participants: [], steps: [] };
+  const created = new Set<string>();
+
+  // Innermost open block: a fragment collecting steps into its last operand, or a plain group
+  const stack: Array<{ steps: RawSequenceStep[]; fragment?: RawSequenceStep }> = [{ steps: raw.steps }];
+  const current = () => stack[stack.length - 1];
+
+  body.forEach((line) => {
+    const declaration = line.match(/^(create\s+)?(participant|actor)\s+(\S+)(?:\s+as\s+(.+))?$/);
+    if (declaration) {
+      const [, create, kind, id, name] = declaration;
+      if (!raw.participants.some((p) => p.id === id)) {
+        raw.participants.push({ id, name: cleanLabel(name) || id, kind });
+      }
+      if (create) created.add(id);
+      return;
+    }
+
+    const fragment = line.match(/^(alt|opt|loop|par|critical|break)\b\s*(.*)$/);
+    if (fragment) {
+      const step: RawSequenceStep = { fragment: fragment[1], operands: [{ guard: fragment[2] || undefined, steps: [] }] };
+      current().steps.push(step);
+      stack.push({ steps: step.operands![0].steps!, fragment: step });
+      return;
+    }
+
+    const operand = line.match(/^(else|and|option)\b\s*(.*)$/);
+    if (operand && current().fragment) {
+      const next = { guard: operand[2] || undefined, steps: [] as RawSequenceStep[] };
+      current().fragment!.operands!.push(next);
+      current().steps = next.steps;
+      return;
+    }
+
+    if (SEQUENCE_GROUPS.test(line)) {
+      stack.push({ steps: current().steps });
+      return;
+    }
+    if (line === 'end') {
+      if (stack.length > 1) stack.pop();
+      return;
+    }
+
+    const message = line.match(SEQUENCE_MESSAGE);
+    if (message) {
+      const [, from, arrow, , to, label] = message;
+      const kind = created.delete(to.trim()) ? 'create' : SEQUENCE_ARROW_KINDS[arrow];
+      current().steps.push({ from: from.trim(), to: to.trim(), label: cleanLabel(label), kind });
+    }
+  });
+
+  return importedSequenceDiagram(raw);
+}
+
+// --- Mind maps -------------------------------------------------------------
+
+// `id((text))`, `id[text]`, `id)text(` ... or bare text
+const MIND_MAP_NODE = /^[\p{L}\p{N}_-]*\s*(\(\(|\)\)|\{\{|\(|\)|\[)(.*?)(\)\)|\(\(|\}\}|\)|\(|\])$/u;
+
+function parseMindMap(body: string[]): ImportedDiagram {
+  const roots: RawMindMapNode[] = [];
+  const stack: Array<{ indent: number; node: RawMindMapNode }> = [];
+
+  body.forEach((line) => {
+    const text = line.trim();
+    // Icons and classes decorate the node above them
+    if (text.startsWith('::icon(') || text.startsWith(':::')) return;
+
+    const indent = line.length - line.trimStart().length;
+    const shaped = text.match(MIND_MAP_NODE);
+    const node: RawMindMapNode = { label: cleanLabel(shaped ? shaped[2] : text), children: [] };
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    if (stack.length > 0) stack[stack.length - 1].node.children.push(node);
+    else roots.push(node);
+    stack.push({ indent, node });
+  });
+
+  return importedMindMap(roots);
+}
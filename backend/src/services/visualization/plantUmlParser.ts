@@ -0,0 +1,597 @@
+import {
+  classRelationship,
+  cleanLabel,
+  importedActivityDiagram,
+  importedClassDiagram,
+  importedFlowchart,
+  importedMindMap,
+  importedSequenceDiagram,
+} from './diagramImportBuilder.js';
+
+import type { ImportedDiagram, RawClassDiagram, RawMindMapNode } from './diagramImportBuilder.js';
+import type { RawFlowchart } from './flowchartBuilder.js';
+import type { RawActivityDiagram } from './umlActivityBuilder.js';
+import type { RawSequenceDiagram, RawSequenceStep } from './umlSequenceBuilder.js';
+import type { ClassEntity, FlowNodeType } from '../../../../shared/src/types.js';
+
+/**
+ * PlantUML import for mind maps (`@startmindmap`) and, inside `@startuml`, class,
+ * sequence and activity diagrams (both the current `:action;` syntax and the legacy
+ * `(*) --> "action"` one). Any other element-and-arrow diagram (components, use cases,
+ * or the graphs our own exporter writes) is read as a flowchart.
+ */
+export function parsePlantUml(source: string): ImportedDiagram {
+  const { kind, lines } = plantUmlLines(source);
+  if (lines.length === 0) {
+    throw new Error('PlantUML source is empty');
+  }
+
+  if (kind === 'mindmap') {
+    return parseMindMap(lines);
+  }
+  if (kind !== 'uml') {
+    throw new Error(`Unsupported PlantUML diagram "@start${kind}"; expected @startuml or @startmindmap`);
+  }
+
+  if (lines.some((line) => line.includes('(*)'))) {
+    return parseLegacyActivity(lines);
+  }
+  if (lines.some((line) => (/^(start|stop)$|^:|^if\s*\(|^repeat$|^fork$/).test(line))) {
+    return parseActivity(lines);
+  }
+  if (lines.some((line) => CLASS_DECLARATION.test(line) || CLASS_ARROW_END.test(line))) {
+    return parseClassDiagram(lines);
+  }
+  if (lines.some((line) => (/^(participant|boundary|control|collections|queue)\s|^(activate|deactivate|alt|loop|opt|par)\b/).test(line)
+    || (SEQUENCE_MESSAGE.test(line) && !line.includes('--')))) {
+    return parseSequenceDiagram(lines);
+  }
+  return parseGraph(lines);
+}
+
+// Statements that only style or annotate, in every diagram type
+const SKIPPED_STATEMENTS = /^(!|(skinparam|title|caption|header|footer|hide|show|scale|autonumber|newpage)\b)/;
+
+/**
+ * Trimmed lines between `@start...` and `@end...`, without comments, notes and
+ * styling statements.
+ */
+function plantUmlLines(source: string): { kind: string; lines: string[] } {
+  const text = source.replace(/\r\n?/g, '\n').replace(/\/'[\s\S]*?'\//g, '');
+  const all = text.split('\n').map((line) => line.trim());
+  const start = all.findIndex((line) => (/^@start\w+/).test(line));
+  const kind = start >= 0 ? all[start].match(/^@start(\w+)/)![1].toLowerCase() : 'uml';
+  const end = all.findIndex((line, index) => index > start && (/^@end\w+/).test(line));
+  const body = all.slice(start + 1, end >= 0 ? end : undefined);
+
+  const lines: string[] = [];
+  let inNote = false;
+  body.forEach((line) => {
+    if (inNote) {
+      inNote = !(/^end\s*(note|legend|ref)$/).test(line);
+      return;
+    }
+    if (!line || line.startsWith('\'')) return;
+    // Multi-line notes and legends run to their `end note`; one-liners carry a colon
+    if ((/^(note|hnote|rnote|legend|ref over)\b/).test(line)) {
+      inNote = !line.includes(':') || (/^legend\b/).test(line);
+      return;
+    }
+    if (SKIPPED_STATEMENTS.test(line)) return;
+    lines.push(line);
+  });
+  return { kind, lines };
+}
+
+// `"Long name" as Alias`, `Alias as "Long name"` or a bare name
+function nameAndAlias(first: string, second?: string): { id: string; name: string } {
+  if (!second) return { id: cleanLabel(first), name: cleanLabel(first) };
+  return first.startsWith('"')
+    ? { id: cleanLabel(second), name: cleanLabel(first) }
+    : { id: cleanLabel(first), name: cleanLabel(second) };
+}
+
+// Arrows may carry a direction or colour between their dashes: -up->, -[#red]->
+const stripArrowHints = (arrow: string) => arrow.replace(/(?<=[-.])(\[[^\]]*\]|up|down|left|right|[udlr])(?=[-.])/g, '');
+
+// --- Mind maps -------------------------------------------------------------
+
+function parseMindMap(lines: string[]): ImportedDiagram {
+  const roots: RawMindMapNode[] = [];
+  const stack: RawMindMapNode[] = [];
+  let pending: { depth: number; text: string[] } | null = null;
+
+  const add = (depth: number, label: string) => {
+    const node: RawMindMapNode = { label: cleanLabel(label), children: [] };
+    stack.length = Math.min(stack.length, depth - 1);
+    if (stack.length > 0) stack[stack.length - 1].children.push(node);
+    else roots.push(node);
+    stack.push(node);
+  };
+
+  lines.forEach((line) => {
+    // Multi-line nodes run from `:text` to the closing `;`
+    if (pending) {
+      pending.text.push(line.replace(/;$/, ''));
+      if (line.endsWith(';')) {
+        add(pending.depth, pending.text.join(' '));
+        pending = null;
+      }
+      return;
+    }
+
+    const node = line.match(/^([*+-]+)(?:\[#[^\]]*\])?_?\s*(.*)$/);
+    if (!node) return;
+    const [, markers, text] = node;
+    if (text.startsWith(':') && !text.endsWith(';')) {
+      pending = { depth: markers.length, text: [text.slice(1)] };
+      return;
+    }
+    add(markers.length, text.replace(/^:(.*);$/, '$1'));
+  });
+
+  return importedMindMap(roots);
+}
+
+// --- Class diagrams --------------------------------------------------------
+
+const CLASS_KEYWORD = '(abstract\\s+class|abstract|class|interface|enum)';
+const CLASS_NAME = '("[^"]+"|[\\p{L}\\p{N}_.$]+)';
+const CLASS_DECLARATION = new RegExp(
+  `^${CLASS_KEYWORD}\\s+${CLASS_NAME}(?:\\s+as\\s+${CLASS_NAME})?\\s*(?:<([^<>]*)>)?\\s*(?:<<\\s*(.+?)\\s*>>)?[^{}]*(\\{)?\\s*(\\})?$`,
+  'u',
+);
+const CLASS_RELATIONSHIP = new RegExp(
+  `^${CLASS_NAME}\\s*(?:"([^"]*)"\\s*)?((?:<\\||[<*o+#])?[-.]+(?:(?:\\[[^\\]]*\\]|up|down|left|right|[udlr])[-.]+)?(?:\\|>|[>*o+#])?)\\s*(?:"([^"]*)"\\s*)?${CLASS_NAME}\\s*(?::\\s*(.*))?$`,
+  'u',
+);
+
+// Arrow heads only class diagrams use: <|-- ..|> *-- --o
+const CLASS_ARROW_END = /(<\||\*|\bo)\s*[-.]{2}|[-.]{2}\s*(\|>|\*|o\b)/;
+
+const CLASS_TYPES: Record<string, ClassEntity['type']> = {
+  class: 'class',
+  interface: 'interface',
+  abstract: 'abstract',
+  'abstract class': 'abstract',
+  enum: 'enum',
+};
+
+function parseClassDiagram(lines: string[]): ImportedDiagram {
+  const raw: RawClassDiagram = { classes: [], relationships: [] };
+  const byKey = new Map<string, RawClassDiagram['classes'][number]>();
+  const ensure = (ref: string, name?: string) => {
+    const key = cleanLabel(ref);
+    const existing = byKey.get(key);
+    if (existing) return existing;
+    const cls: RawClassDiagram['classes'][number] = { key, name: name || key, type: 'class', members: [] };
+    raw.classes.push(cls);
+    byKey.set(key, cls);
+    return cls;
+  };
+
+  const packages: string[] = [];
+  let openClass: RawClassDiagram['classes'][number] | undefined;
+
+  lines.forEach((line) => {
+    if (openClass) {
+      if (line === '}') openClass = undefined;
+      // Compartment separators: --, .., ==, __ optionally with a title
+      else if (!(/^([-.=_])\1/).test(line)) openClass.members.push(line);
+      return;
+    }
+
+    const pkg = line.match(/^(package|namespace|together)\s*("[^"]+"|[\w.]+)?[^{]*\{$/);
+    if (pkg) {
+      packages.push(pkg[1] === 'together' ? packages[packages.length - 1] : cleanLabel(pkg[2]));
+      return;
+    }
+    if (line === '}') {
+      packages.pop();
+      return;
+    }
+
+    const declaration = line.match(CLASS_DECLARATION);
+    if (declaration) {
+      const [, keyword, first, second, generics, stereotype, open, close] = declaration;
+      const { id, name } = nameAndAlias(first, second);
+      const cls = ensure(id, name);
+      cls.name = generics ? `${name}<${generics}>` : name;
+      cls.type = CLASS_TYPES[keyword.replace(/\s+/g, ' ')] || 'class';
+      if (stereotype) cls.stereotype = stereotype;
+      const pkgName = packages.filter(Boolean).pop();
+      if (pkgName) cls.package = pkgName;
+      if (open && !close) openClass = cls;
+      return;
+    }
+
+    const relationship = line.match(CLASS_RELATIONSHIP);
+    if (relationship) {
+      const [, left, leftMultiplicity, rawArrow, rightMultiplicity, right, label] = relationship;
+      const arrow = stripArrowHints(rawArrow);
+      const ends = arrow.match(/^(<\||[<*o+#])?([-.]+)(\|>|[>*o+#])?$/);
+      if (!ends) return;
+      const { type, reversed } = classRelationship(ends[1], ends[2], ends[3]);
+      ensure(left);
+      ensure(right);
+      raw.relationships.push({
+        source: cleanLabel(reversed ? right : left),
+        target: cleanLabel(reversed ? left : right),
+        type,
+        sourceMultiplicity: reversed ? rightMultiplicity : leftMultiplicity,
+        targetMultiplicity: reversed ? leftMultiplicity : rightMultiplicity,
+        label: label ? cleanLabel(label) : undefined,
+      });
+      return;
+    }
+
+    const member = line.match(/^("[^"]+"|[\p{L}\p{N}_.]+)\s*:\s*(.+)$/u);
+    if (member) {
+      ensure(member[1]).members.push(member[2]);
+    }
+  });
+
+  return importedClassDiagram(raw);
+}
+
+// --- Sequence diagrams -----------------------------------------------------
+
+const PARTICIPANT_DECLARATION = /^(participant|actor|boundary|control|entity|database|queue|collections)\s+("[^"]+"|\S+)(?:\s+as\s+("[^"]+"|\S+))?/;
+const SEQUENCE_MESSAGE = /^("[^"]+"|[\w.]+)\s*(x?<<?-(?:\[[^\]]*\])?-?|-(?:\[[^\]]*\])?-?>>?x?|-(?:\[[^\]]*\])?-?[\\/]{1,2}o?)\s*("[^"]+"|[\w.]+)\s*(?::\s*(.*))?$/;
+
+function parseSequenceDiagram(lines: string[]): ImportedDiagram {
+  const raw: Required<Pick<RawSequenceDiagram, 'participants' | 'steps'>> = { participants: [], steps: [] };
+  const created = new Set<string>();
+  // Open synchronous calls, so `return` knows who answers whom
+  const calls: Array<{ from: string; to: string }> = [];
+
+  const stack: Array<{ steps: RawSequenceStep[]; fragment?: RawSequenceStep }> = [{ steps: raw.steps }];
+  const current = () => stack[stack.length - 1];
+  const push = (step: RawSequenceStep) => current().steps.push(step);
+
+  lines.forEach((line) => {
+    const declaration = line.match(PARTICIPANT_DECLARATION);
+    if (declaration) {
+      const { id, name } = nameAndAlias(declaration[2], declaration[3]);
+      if (!raw.participants.some((p) => p.id === id)) {
+        raw.participants.push({ id, name, kind: declaration[1] });
+      }
+      return;
+    }
+
+    const create = line.match(/^create\s+(?:\w+\s+)?("[^"]+"|\S+)$/);
+    if (create) {
+      created.add(cleanLabel(create[1]));
+      return;
+    }
+
+    const fragment = line.match(/^(alt|opt|loop|par|critical|break|group)\b\s*(.*)$/);
+    if (fragment) {
+      const step: RawSequenceStep = { fragment: fragment[1], operands: [{ guard: fragment[2] || undefined, steps: [] }] };
+      push(step);
+      stack.push({ steps: step.operands![0].steps!, fragment: step });
+      return;
+    }
+    const operand = line.match(/^else\b\s*(.*)$/);
+    if (operand && current().fragment) {
+      const next = { guard: operand[1] || undefined, steps: [] as RawSequenceStep[] };
+      current().fragment!.operands!.push(next);
+      current().steps = next.steps;
+      return;
+    }
+    if (line === 'end') {
+      if (stack.length > 1) stack.pop();
+      return;
+    }
+
+    const reply = line.match(/^return\b\s*(.*)$/);
+    if (reply) {
+      const call = calls.pop();
+      if (call) push({ from: call.to, to: call.from, label: reply[1], kind: 'return' });
+      return;
+    }
+
+    const message = line.match(SEQUENCE_MESSAGE);
+    if (!message) return;
+    const arrow = stripArrowHints(message[2]);
+    const reversed = arrow.includes('<');
+    const from = cleanLabel(reversed ? message[3] : message[1]);
+    const to = cleanLabel(reversed ? message[1] : message[3]);
+    const dashed = arrow.includes('--');
+    const kind = created.delete(to)
+      ? 'create'
+      : dashed ? 'return' : arrow.includes('>>') || arrow.includes('<<') || (/[\\/]/).test(arrow) ? 'async' : 'sync';
+
+    if (kind === 'sync' || kind === 'create') {
+      calls.push({ from, to });
+    } else if (kind === 'return') {
+      const index = calls.map((call) => `${call.to}→${call.from}`).lastIndexOf(`${from}→${to}`);
+      if (index >= 0) calls.splice(index);
+    }
+    push({ from, to, label: cleanLabel(message[4]), kind });
+  });
+
+  return importedSequenceDiagram(raw);
+}
+
+// --- Activity diagrams -----------------------------------------------------
+
+/**
+ * The current activity syntax is structured (if/while/repeat/fork blocks), so it is
+ * rebuilt into a graph: each block remembers the nodes whose flows are still open and
+ * joins them to whatever comes next.
+ */
+function parseActivity(lines: string[]): ImportedDiagram {
+  type Open = { id: string; guard?: string };
+  type Block =
+    | { kind: 'if'; decision: string; ends: Open[]; hasElse: boolean }
+    | { kind: 'while'; decision: string; exitGuard?: string }
+    | { kind: 'repeat'; entry: string }
+    | { kind: 'fork'; fork: string; ends: Open[] };
+
+  const raw: Required<RawActivityDiagram> = { nodes: [], flows: [], swimlanes: [] };
+  const blocks: Block[] = [];
+  let open: Open[] = [];
+  let lane: string | undefined;
+  let action: string[] | null = null;
+
+  const node = (kind: string, label = '') => {
+    const id = `node-${raw.nodes.length}`;
+    raw.nodes.push({ id, kind, label: cleanLabel(label), swimlane: lane });
+    return id;
+  };
+  const connect = (id: string) => {
+    open.forEach((from) => raw.flows.push({ from: from.id, to: id, guard: from.guard }));
+    open = [{ id }];
+  };
+  const paren = (text: string) => text.match(/\(([^)]*)\)/)?.[1]?.trim() || undefined;
+  const parens = (text: string) => [...text.matchAll(/\(([^)]*)\)/g)].map((m) => m[1].trim());
+  const block = <K extends Block['kind']>(kind: K) => {
+    const top = blocks[blocks.length - 1];
+    return top?.kind === kind ? (top as Extract<Block, { kind: K }>) : undefined;
+  };
+
+  lines.forEach((line) => {
+    // Actions may span lines until their closing `;`
+    if (action) {
+      action.push(line);
+      if ((/[;|<>/\]}]$/).test(line)) {
+        connect(node('action', action.join(' ').replace(/[;|<>/\]}]$/, '')));
+        action = null;
+      }
+      return;
+    }
+
+    const swimlane = line.match(/^\|(?:#[^|]*\|)?([^|]+)\|$/);
+    if (swimlane) {
+      lane = swimlane[1].trim();
+      if (!raw.swimlanes.some((l) => l.name === lane)) raw.swimlanes.push({ name: lane });
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      if ((/[;|<>/\]}]$/).test(line)) {
+        connect(node('action', line.slice(1).replace(/[;|<>/\]}]$/, '')));
+      } else {
+        action = [line.slice(1)];
+      }
+      return;
+    }
+
+    if (line === 'start') {
+      open = [];
+      connect(node('initial'));
+    } else if (line === 'stop' || line === 'end') {
+      connect(node('final'));
+      open = [];
+    } else if (line === 'detach' || line === 'kill') {
+      open = [];
+    } else if ((/^if\s*\(/).test(line)) {
+      const [condition, guard] = parens(line);
+      const decision = node('decision', condition);
+      connect(decision);
+      blocks.push({ kind: 'if', decision, ends: [], hasElse: false });
+      open = [{ id: decision, guard: guard || 'yes' }];
+    } else if ((/^else\s*if\s*\(/).test(line) && block('if')) {
+      const [condition, guard] = parens(line);
+      const current = block('if')!;
+      current.ends.push(...open);
+      open = [{ id: current.decision, guard: guard ? `${condition}: ${guard}` : condition }];
+    } else if ((/^else\b/).test(line) && block('if')) {
+      const current = block('if')!;
+      current.ends.push(...open);
+      current.hasElse = true;
+      open = [{ id: current.decision, guard: paren(line) || 'else' }];
+    } else if ((/^end\s*if$/).test(line) && block('if')) {
+      const current = blocks.pop() as Extract<Block, { kind: 'if' }>;
+      const ends = [...current.ends, ...open, ...(current.hasElse ? [] : [{ id: current.decision, guard: 'else' }])];
+      open = ends;
+      if (ends.length > 1) connect(node('merge'));
+    } else if ((/^while\s*\(/).test(line)) {
+      const [condition, guard] = parens(line);
+      const decision = node('decision', condition);
+      connect(decision);
+      blocks.push({ kind: 'while', decision });
+      open = [{ id: decision, guard: guard || 'yes' }];
+    } else if ((/^end\s*while\b/).test(line) && block('while')) {
+      const current = blocks.pop() as Extract<Block, { kind: 'while' }>;
+      open.forEach((from) => raw.flows.push({ from: from.id, to: current.decision, guard: from.guard }));
+      open = [{ id: current.decision, guard: paren(line) || 'no' }];
+    } else if (line === 'repeat') {
+      const entry = node('merge');
+      connect(entry);
+      blocks.push({ kind: 'repeat', entry });
+    } else if ((/^repeat\s+while\b/).test(line) && block('repeat')) {
+      const current = blocks.pop() as Extract<Block, { kind: 'repeat' }>;
+      const [condition, again, exit] = [paren(line), ...parens(line.replace(/^[^)]*\)/, ''))];
+      const decision = node('decision', condition);
+      connect(decision);
+      raw.flows.push({ from: decision, to: current.entry, guard: again || 'yes' });
+      open = [{ id: decision, guard: exit || 'no' }];
+    } else if ((/^(fork|split)$/).test(line)) {
+      const fork = node('fork');
+      connect(fork);
+      blocks.push({ kind: 'fork', fork, ends: [] });
+    } else if ((/^(fork|split) again$/).test(line) && block('fork')) {
+      const current = block('fork')!;
+      current.ends.push(...open);
+      open = [{ id: current.fork }];
+    } else if ((/^end\s*(fork|split|merge)\b/).test(line) && block('fork')) {
+      const current = blocks.pop() as Extract<Block, { kind: 'fork' }>;
+      open = [...current.ends, ...open];
+      connect(node('join'));
+    }
+  });
+
+  return importedActivityDiagram(raw);
+}
+
+/**
+ * Legacy syntax: every line is an arrow between `(*)`, `===bar===`, `"action" as A`
+ * and alias references. `(*)` starts the activity on the left of an arrow and ends it
+ * on the right.
+ */
+function parseLegacyActivity(lines: string[]): ImportedDiagram {
+  const raw: Required<RawActivityDiagram> = { nodes: [], flows: [], swimlanes: [] };
+  const keys = new Map<string, string>();
+
+  const resolve = (ref: string, side: 'source' | 'target'): string => {
+    const text = ref.trim();
+    if (text === '(*)') {
+      const key = side === 'source' ? '(*) initial' : '(*) final';
+      if (!keys.has(key)) {
+        keys.set(key, `node-${raw.nodes.length}`);
+        raw.nodes.push({ id: keys.get(key)!, kind: side === 'source' ? 'initial' : 'final' });
+      }
+      return keys.get(key)!;
+    }
+    const bar = text.match(/^===\s*(.+?)\s*===$/);
+    const declared = text.match(/^"([^"]*)"(?:\s+as\s+(\w+))?$/);
+    const key = bar ? `=${bar[1]}` : declared ? declared[2] || declared[1] : text;
+    if (!keys.has(key)) {
+      keys.set(key, `node-${raw.nodes.length}`);
+      raw.nodes.push({
+        id: keys.get(key)!,
+        // Bars are settled once their flows are known
+        kind: bar ? 'bar' : 'action',
+        label: bar ? '' : cleanLabel(declared ? declared[1] : text),
+      });
+    }
+    return keys.get(key)!;
+  };
+
+  // An arrow without a left side continues from the previous target
+  let previous: string | undefined;
+  lines.forEach((line) => {
+    const arrow = line.match(/^(.*?)\s*-+(?:\[[^\]]*\]|up|down|left|right)?-*>\s*(?:\[([^\]]*)\]\s*)?(.+)$/);
+    if (!arrow) return;
+    const from = arrow[1] ? resolve(arrow[1], 'source') : previous;
+    if (!from) return;
+    previous = resolve(arrow[3], 'target');
+    raw.flows.push({ from, to: previous, guard: arrow[2] });
+  });
+
+  // Bars split or join depending on their flows; a branching action is a decision
+  raw.nodes.forEach((n) => {
+    const outgoing = raw.flows.filter((f) => f.from === n.id).length;
+    if (n.kind === 'bar') n.kind = outgoing > 1 ? 'fork' : 'join';
+    else if (n.kind === 'action' && outgoing > 1) n.kind = 'decision';
+  });
+  return importedActivityDiagram(raw);
+}
+
+// --- Other graphs, read as flowcharts --------------------------------------
+
+const ELEMENT_KEYWORDS = 'rectangle|card|usecase|hexagon|circle|node|component|agent|artifact|cloud|database|file|folder|frame|package|queue|stack|storage|actor|person|label|collections|boundary|control|entity|interface|process|action';
+const ELEMENT_DECLARATION = new RegExp(
+  `^(${ELEMENT_KEYWORDS})\\s+("[^"]+"|[\\w.]+)(?:\\s+as\\s+("[^"]+"|[\\w.]+))?\\s*(?:<<\\s*(.+?)\\s*>>)?[^{]*(\\{)?$`,
+);
+const ELEMENT_REF = '("[^"]+"|\\[[^\\]]+\\]|\\([^)]+\\)|:[^:]+:|[\\w.]+)';
+const GRAPH_ARROW = new RegExp(
+  `^${ELEMENT_REF}\\s*(<?[-.]+(?:\\[[^\\]]*\\]|up|down|left|right|[udlr])?[-.]*>?)\\s*${ELEMENT_REF}\\s*(?::\\s*(.*))?$`,
+);
+const FLOW_NODE_TYPES: FlowNodeType[] = ['process', 'decision', 'start', 'end', 'input', 'output'];
+
+function parseGraph(lines: string[]): ImportedDiagram {
+  const nodes = new Map<string, { id: string; label: string; element: string; stereotype?: string; swimlane?: string }>();
+  const edges: NonNullable<RawFlowchart['edges']> = [];
+  const swimlanes: Array<{ id: string; label: string }> = [];
+  const groups: Array<string | undefined> = [];
+  let direction: RawFlowchart['layout'] = 'topToBottom';
+
+  const lane = () => groups.filter(Boolean).pop();
+  const touch = (ref: string) => {
+    // [Component], (Use case) and :Actor: short forms are their own id
+    const short = ref.match(/^\[(.+)\]$|^\((.+)\)$|^:(.+):$/);
+    const id = cleanLabel(short ? short[1] || short[2] || short[3] : ref);
+    if (!nodes.has(id)) {
+      nodes.set(id, {
+        id,
+        label: id,
+        element: short?.[1] ? 'component' : short?.[2] ? 'usecase' : short?.[3] ? 'actor' : 'rectangle',
+        swimlane: lane(),
+      });
+    }
+    return id;
+  };
+
+  lines.forEach((line) => {
+    if (line === 'left to right direction') direction = 'leftToRight';
+
+    const declaration = line.match(ELEMENT_DECLARATION);
+    if (declaration) {
+      const [, element, first, second, stereotype, open] = declaration;
+      const { id, name } = nameAndAlias(first, second);
+      if (open) {
+        // Containers group their members, like swimlanes
+        swimlanes.push({ id, label: name });
+        groups.push(id);
+        return;
+      }
+      nodes.set(id, { id, label: name, element, stereotype, swimlane: lane() });
+      return;
+    }
+    if (line.endsWith('{')) {
+      groups.push(undefined);
+      return;
+    }
+    if (line === '}') {
+      groups.pop();
+      return;
+    }
+
+    const arrow = line.match(GRAPH_ARROW);
+    if (arrow) {
+      const [, left, rawArrow, right, label] = arrow;
+      const reversed = rawArrow.startsWith('<') && !rawArrow.endsWith('>');
+      const source = touch(reversed ? right : left);
+      const target = touch(reversed ? left : right);
+      edges.push({ source, target, label: label ? cleanLabel(label) : undefined, type: rawArrow.includes('.') ? 'dashed' : 'solid' });
+    }
+  });
+
+  const hasIncoming = new Set(edges.map((edge) => edge.target));
+  const hasOutgoing = new Set(edges.map((edge) => edge.source));
+  const nodeType = (node: { id: string; element: string; stereotype?: string }): FlowNodeType => {
+    // Our own exports keep the node type as the stereotype
+    if (FLOW_NODE_TYPES.includes(node.stereotype as FlowNodeType)) return node.stereotype as FlowNodeType;
+    if (node.element === 'hexagon') return 'decision';
+    if (node.element === 'usecase' || node.element === 'circle') {
+      if (!hasIncoming.has(node.id)) return 'start';
+      if (!hasOutgoing.has(node.id)) return 'end';
+    }
+    return 'process';
+  };
+
+  return importedFlowchart({
+    nodes: [...nodes.values()].map((node) => ({
+      id: node.id,
+      type: nodeType(node),
+      label: node.label,
+      swimlane: node.swimlane,
+    })),
+    edges,
+    swimlanes,
+    layout: direction,
+  });
+}
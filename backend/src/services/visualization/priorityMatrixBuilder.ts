@@ -0,0 +1,137 @@
+import type {
+  PriorityAxis,
+  PriorityItem,
+  PriorityMatrixData,
+  PriorityMatrixMode,
+  PriorityQuadrant,
+  PriorityQuadrantInfo,
+  TextSpan,
+} from '../../../../shared/src/types.js';
+
+/**
+ * Scored items as returned by the `priorityMatrixGeneration` prompt, before any field
+ * is trusted. Which two scores are set depends on the mode.
+ */
+export interface RawPriorityMatrix {
+  mode?: string;
+  items?: Array<{
+    id?: string;
+    label?: string;
+    description?: string;
+    impact?: number;
+    effort?: number;
+    urgency?: number;
+    importance?: number;
+    rationale?: string;
+    quote?: string;
+  }>;
+}
+
+type ScoreKey = 'impact' | 'effort' | 'urgency' | 'importance';
+
+interface PriorityLayout {
+  xKey: ScoreKey;
+  yKey: ScoreKey;
+  xAxis: PriorityAxis;
+  yAxis: PriorityAxis;
+  quadrants: PriorityQuadrantInfo[];
+}
+
+// The y axis is the one worth maximizing, so "high y, low x" is always the best corner
+export const PRIORITY_LAYOUTS: Record<PriorityMatrixMode, PriorityLayout> = {
+  'impact-effort': {
+    xKey: 'effort',
+    yKey: 'impact',
+    xAxis: { label: 'Effort', lowLabel: 'Low effort', highLabel: 'High effort' },
+    yAxis: { label: 'Impact', lowLabel: 'Low impact', highLabel: 'High impact' },
+    quadrants: [
+      { id: 'quick-win', label: 'Quick wins', description: 'High impact for little effort: do these first', highX: false, highY: true, color: '#10B981' },
+      { id: 'major-project', label: 'Major projects', description: 'High impact but costly: plan them carefully', highX: true, highY: true, color: '#4F46E5' },
+      { id: 'fill-in', label: 'Fill-ins', description: 'Low impact and cheap: do them when there is time', highX: false, highY: false, color: '#F59E0B' },
+      { id: 'thankless-task', label: 'Thankless tasks', description: 'Low impact for a lot of effort: avoid', highX: true, highY: false, color: '#EF4444' },
+    ],
+  },
+  'urgency-importance': {
+    xKey: 'urgency',
+    yKey: 'importance',
+    xAxis: { label: 'Urgency', lowLabel: 'Not urgent', highLabel: 'Urgent' },
+    yAxis: { label: 'Importance', lowLabel: 'Not important', highLabel: 'Important' },
+    quadrants: [
+      { id: 'do-first', label: 'Do first', description: 'Urgent and important', highX: true, highY: true, color: '#EF4444' },
+      { id: 'schedule', label: 'Schedule', description: 'Important but not urgent', highX: false, highY: true, color: '#4F46E5' },
+      { id: 'delegate', label: 'Delegate', description: 'Urgent but not important', highX: true, highY: false, color: '#F59E0B' },
+      { id: 'eliminate', label: 'Eliminate', description: 'Neither urgent nor important', highX: false, highY: false, color: '#64748B' },
+    ],
+  },
+};
+
+// Scores at the midpoint count as high
+const HIGH_THRESHOLD = 0.5;
+
+/**
+ * Map a 1-5 score to 0-1. Fractions below 1 are taken as already on the 0-1 scale;
+ * missing scores sit in the middle.
+ */
+export function normalizeScore(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 0.5;
+  const scaled = value >= 1 ? (value - 1) / 4 : value;
+  return Math.round(Math.min(1, Math.max(0, scaled)) * 100) / 100;
+}
+
+export function quadrantFor(x: number, y: number, quadrants: PriorityQuadrantInfo[]): PriorityQuadrant {
+  const highX = x >= HIGH_THRESHOLD;
+  const highY = y >= HIGH_THRESHOLD;
+  return quadrants.find((quadrant) => quadrant.highX === highX && quadrant.highY === highY)!.id;
+}
+
+function detectMode(raw: RawPriorityMatrix): PriorityMatrixMode {
+  if (raw.mode === 'impact-effort' || raw.mode === 'urgency-importance') return raw.mode;
+  const items = raw.items || [];
+  return items.some((item) => item.urgency !== undefined || item.importance !== undefined)
+    && !items.some((item) => item.impact !== undefined || item.effort !== undefined)
+    ? 'urgency-importance'
+    : 'impact-effort';
+}
+
+/**
+ * Turn the LLM output into PriorityMatrixData: a known mode, unique items, scores
+ * placed on the 0-1 axes of that mode and each item assigned to its quadrant.
+ */
+export function normalizePriorityMatrix(
+  raw: RawPriorityMatrix,
+  locate?: (quote: string) => TextSpan | undefined,
+): PriorityMatrixData {
+  const mode = detectMode(raw);
+  const layout = PRIORITY_LAYOUTS[mode];
+
+  const items: PriorityItem[] = [];
+  const seen = new Set<string>();
+  (raw.items || []).forEach((item, index) => {
+    const label = (item.label || '').trim();
+    const id = String(item.id || `item-${index}`);
+    if (!label || seen.has(label.toLowerCase()) || seen.has(id.toLowerCase())) return;
+    seen.add(label.toLowerCase());
+    seen.add(id.toLowerCase());
+
+    const x = normalizeScore(item[layout.xKey]);
+    const y = normalizeScore(item[layout.yKey]);
+    items.push({
+      id,
+      label,
+      description: item.description || undefined,
+      x,
+      y,
+      quadrant: quadrantFor(x, y, layout.quadrants),
+      rationale: item.rationale || undefined,
+      source: item.quote ? locate?.(item.quote) : undefined,
+    });
+  });
+
+  return {
+    mode,
+    xAxis: layout.xAxis,
+    yAxis: layout.yAxis,
+    quadrants: layout.quadrants,
+    items,
+  };
+}
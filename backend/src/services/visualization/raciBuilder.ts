@@ -0,0 +1,133 @@
+import type {
+  RaciActivity,
+  RaciAssignment,
+  RaciMatrixData,
+  RaciResponsibility,
+  RaciRole,
+  TextSpan,
+} from '../../../../shared/src/types.js';
+
+/**
+ * Responsibility matrix as returned by the `raciGeneration` prompt, before any field is trusted.
+ */
+export interface RawRaciMatrix {
+  roles?: Array<{ id?: string; name?: string; description?: string }>;
+  activities?: Array<{ id?: string; name?: string; description?: string; phase?: string; quote?: string }>;
+  assignments?: Array<{ activity?: string; role?: string; responsibilities?: string[] | string }>;
+}
+
+export interface RaciValidationResult {
+  errors: string[];
+  warnings: string[];
+}
+
+// Letters are stored in this order whatever order the model used
+const RESPONSIBILITIES: RaciResponsibility[] = ['R', 'A', 'C', 'I'];
+
+export function parseResponsibilities(value: string[] | string | undefined): RaciResponsibility[] {
+  const letters = new Set(
+    (Array.isArray(value) ? value.join('') : value || '').toUpperCase().split(''),
+  );
+  return RESPONSIBILITIES.filter((letter) => letters.has(letter));
+}
+
+/**
+ * Turn the LLM output into a well-formed RaciMatrixData: unique role and activity ids,
+ * assignments referencing both by id, only R/A/C/I letters, and one assignment per
+ * cell. Roles and activities referenced by name or left undeclared are resolved or added.
+ */
+export function normalizeRaciMatrix(
+  raw: RawRaciMatrix,
+  locate?: (quote: string) => TextSpan | undefined,
+): RaciMatrixData {
+  const roles: RaciRole[] = [];
+  const roleByKey = new Map<string, RaciRole>();
+  const addRole = (id: string, name: string, description?: string): RaciRole => {
+    const role = { id, name, description: description || undefined };
+    roles.push(role);
+    roleByKey.set(id.toLowerCase(), role);
+    roleByKey.set(name.toLowerCase(), role);
+    return role;
+  };
+
+  const activities: RaciActivity[] = [];
+  const activityByKey = new Map<string, RaciActivity>();
+  const addActivity = (id: string, name: string, details: Partial<RaciActivity> = {}): RaciActivity => {
+    const activity = { id, name, ...details };
+    activities.push(activity);
+    activityByKey.set(id.toLowerCase(), activity);
+    activityByKey.set(name.toLowerCase(), activity);
+    return activity;
+  };
+
+  (raw.roles || []).forEach((role, index) => {
+    const name = (role.name || role.id || '').trim();
+    const id = String(role.id || `role-${index}`);
+    if (!name || roleByKey.has(name.toLowerCase()) || roleByKey.has(id.toLowerCase())) return;
+    addRole(id, name, role.description);
+  });
+
+  (raw.activities || []).forEach((activity, index) => {
+    const name = (activity.name || activity.id || '').trim();
+    const id = String(activity.id || `activity-${index}`);
+    if (!name || activityByKey.has(name.toLowerCase()) || activityByKey.has(id.toLowerCase())) return;
+    addActivity(id, name, {
+      description: activity.description || undefined,
+      phase: activity.phase?.trim() || undefined,
+      source: activity.quote ? locate?.(activity.quote) : undefined,
+    });
+  });
+
+  const assignmentsById = new Map<string, RaciAssignment>();
+  (raw.assignments || []).forEach((assignment) => {
+    const roleRef = assignment.role?.trim();
+    const activityRef = assignment.activity?.trim();
+    const responsibilities = parseResponsibilities(assignment.responsibilities);
+    if (!roleRef || !activityRef || responsibilities.length === 0) return;
+
+    const role = roleByKey.get(roleRef.toLowerCase()) || addRole(`role-${roles.length}`, roleRef);
+    const activity = activityByKey.get(activityRef.toLowerCase())
+      || addActivity(`activity-${activities.length}`, activityRef);
+    const id = `${activity.id}:${role.id}`;
+    const existing = assignmentsById.get(id);
+
+    assignmentsById.set(id, {
+      id,
+      activityId: activity.id,
+      roleId: role.id,
+      responsibilities: parseResponsibilities([...(existing?.responsibilities || []), ...responsibilities]),
+    });
+  });
+
+  return { roles, activities, assignments: [...assignmentsById.values()] };
+}
+
+/**
+ * Check the RACI rules. A matrix without roles or activities is unusable; an
+ * activity without exactly one Accountable or without anyone Responsible is a gap
+ * in the document worth reporting, not a reason to drop the matrix.
+ */
+export function validateRaciMatrix(data: RaciMatrixData): RaciValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (data.roles.length === 0 || data.activities.length === 0) {
+    return { errors: ['RACI matrix needs at least one role and one activity'], warnings };
+  }
+  if (data.assignments.length === 0) {
+    errors.push('RACI matrix has no assignments');
+  }
+
+  data.activities.forEach((activity) => {
+    const assignments = data.assignments.filter((assignment) => assignment.activityId === activity.id);
+    const accountable = assignments.filter((assignment) => assignment.responsibilities.includes('A')).length;
+    if (accountable !== 1) {
+      warnings.push(`"${activity.name}" has ${accountable} accountable role(s)`);
+    }
+    if (!assignments.some((assignment) => assignment.responsibilities.includes('R'))) {
+      warnings.push(`"${activity.name}" has no responsible role`);
+    }
+  });
+
+  return { errors, warnings };
+}
@@ -0,0 +1,212 @@
+import type {
+  ActivityFlow,
+  ActivityNode,
+  ActivityNodeKind,
+  ActivitySwimlane,
+  TextSpan,
+  UMLActivityData,
+} from '../../../../shared/src/types.js';
+
+/**
+ * Activity diagram as returned by the `umlActivityGeneration` prompt, before any field is trusted.
+ */
+export interface RawActivityDiagram {
+  swimlanes?: Array<{ id?: string; name?: string }>;
+  nodes?: Array<{
+    id?: string;
+    kind?: string;
+    label?: string;
+    description?: string;
+    swimlane?: string;
+    quote?: string;
+  }>;
+  flows?: Array<{ from?: string; to?: string; source?: string; target?: string; guard?: string }>;
+}
+
+export interface ActivityValidationResult {
+  errors: string[];
+  warnings: string[];
+}
+
+const NODE_KINDS: ActivityNodeKind[] = ['initial', 'action', 'decision', 'merge', 'fork', 'join', 'final'];
+
+const NODE_KIND_ALIASES: Record<string, ActivityNodeKind> = {
+  start: 'initial',
+  end: 'final',
+  stop: 'final',
+  activity: 'action',
+  task: 'action',
+  step: 'action',
+  process: 'action',
+  branch: 'decision',
+  condition: 'decision',
+  split: 'fork',
+  parallel: 'fork',
+  sync: 'join',
+};
+
+const SWIMLANE_COLORS = ['#4F46E5', '#0EA5E9', '#10B981', '#F59E0B', '#EC4899', '#8B5CF6', '#64748B'];
+
+/**
+ * Turn the LLM output into well-formed UMLActivityData: known node kinds, nodes and
+ * swimlanes referenced by id, no dangling or duplicate flows, and an initial node in
+ * front of the single entry point when the model left it out.
+ */
+export function normalizeActivityDiagram(
+  raw: RawActivityDiagram,
+  locate?: (quote: string) => TextSpan | null,
+): UMLActivityData {
+  const swimlanes: ActivitySwimlane[] = [];
+  const laneByKey = new Map<string, ActivitySwimlane>();
+  const addLane = (id: string, name: string): ActivitySwimlane => {
+    const lane = { id, name, color: SWIMLANE_COLORS[swimlanes.length % SWIMLANE_COLORS.length] };
+    swimlanes.push(lane);
+    laneByKey.set(id.toLowerCase(), lane);
+    laneByKey.set(name.toLowerCase(), lane);
+    return lane;
+  };
+
+  (raw.swimlanes || []).forEach((lane, index) => {
+    const name = (lane.name || lane.id || '').trim();
+    const id = String(lane.id || `lane-${index}`);
+    if (!name || laneByKey.has(name.toLowerCase()) || laneByKey.has(id.toLowerCase())) return;
+    addLane(id, name);
+  });
+
+  const resolveLane = (ref?: string): string | undefined => {
+    const key = ref?.trim();
+    if (!key) return undefined;
+    return (laneByKey.get(key.toLowerCase()) || addLane(`lane-${swimlanes.length}`, key)).id;
+  };
+
+  const nodes: ActivityNode[] = [];
+  const nodeByKey = new Map<string, ActivityNode>();
+  (raw.nodes || []).forEach((node, index) => {
+    const id = String(node.id || `node-${index}`);
+    if (nodeByKey.has(id.toLowerCase())) return;
+
+    const kind = node.kind?.trim().toLowerCase() || '';
+    const quote = node.quote?.trim() || '';
+    const activityNode: ActivityNode = {
+      id,
+      kind: NODE_KINDS.includes(kind as ActivityNodeKind)
+        ? (kind as ActivityNodeKind)
+        : NODE_KIND_ALIASES[kind] || 'action',
+      label: node.label?.trim() || '',
+      description: node.description || undefined,
+      swimlaneId: resolveLane(node.swimlane),
+      sourceQuote: quote,
+      sourceSpan: quote ? locate?.(quote) || null : null,
+    };
+    if (activityNode.kind === 'action' && !activityNode.label) {
+      activityNode.label = 'Untitled action';
+    }
+
+    nodes.push(activityNode);
+    nodeByKey.set(id.toLowerCase(), activityNode);
+    // Flows sometimes name a node by its label instead of its id
+    if (activityNode.label && !nodeByKey.has(activityNode.label.toLowerCase())) {
+      nodeByKey.set(activityNode.label.toLowerCase(), activityNode);
+    }
+  });
+
+  const flows: ActivityFlow[] = [];
+  const flowKeys = new Set<string>();
+  (raw.flows || []).forEach((flow) => {
+    const source = nodeByKey.get(String(flow.from ?? flow.source ?? '').trim().toLowerCase());
+    const target = nodeByKey.get(String(flow.to ?? flow.target ?? '').trim().toLowerCase());
+    const guard = flow.guard?.trim().replace(/^\[(.*)\]$/, '$1').trim() || undefined;
+    const key = `${source?.id}→${target?.id}→${guard || ''}`;
+    if (!source || !target || flowKeys.has(key)) return;
+    flowKeys.add(key);
+
+    flows.push({ id: `flow-${flows.length}`, source: source.id, target: target.id, guard });
+  });
+
+  if (!nodes.some((n) => n.kind === 'initial')) {
+    const targets = new Set(flows.map((f) => f.target));
+    const entryPoints = nodes.filter((n) => !targets.has(n.id));
+    if (entryPoints.length === 1) {
+      const id = nodeByKey.has('initial') ? `node-${nodes.length}` : 'initial';
+      nodes.unshift({
+        id,
+        kind: 'initial',
+        label: '',
+        swimlaneId: entryPoints[0].swimlaneId,
+        sourceQuote: '',
+        sourceSpan: null,
+      });
+      flows.unshift({ id: `flow-${flows.length}`, source: id, target: entryPoints[0].id });
+    }
+  }
+
+  return { nodes, flows, swimlanes };
+}
+
+/**
+ * Check the structural rules of an activity: one initial node from which every node can
+ * be reached. Errors make the diagram unusable (it is not stored); branches, forks and
+ * joins with too few flows are logged as warnings.
+ */
+export function validateActivityDiagram(data: UMLActivityData): ActivityValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!data.nodes.some((n) => n.kind === 'action')) {
+    return { errors: ['activity diagram has no actions'], warnings };
+  }
+
+  const initials = data.nodes.filter((n) => n.kind === 'initial');
+  if (initials.length !== 1) {
+    errors.push(`expected exactly one initial node, found ${initials.length}`);
+  } else {
+    const reachable = reachableFrom(initials[0].id, data.flows);
+    const unreachable = data.nodes.filter((n) => !reachable.has(n.id));
+    if (unreachable.length > 0) {
+      errors.push(
+        `${unreachable.length} node(s) not reachable from the initial node: ${unreachable.map((n) => `"${n.label || n.id}"`).join(', ')}`,
+      );
+    }
+  }
+
+  if (!data.nodes.some((n) => n.kind === 'final')) {
+    warnings.push('activity diagram has no final node');
+  }
+
+  data.nodes.forEach((node) => {
+    const outgoing = data.flows.filter((f) => f.source === node.id);
+    const incoming = data.flows.filter((f) => f.target === node.id);
+    const name = node.label || node.id;
+
+    if (node.kind === 'decision') {
+      if (outgoing.length < 2) {
+        warnings.push(`decision "${name}" has ${outgoing.length} outgoing branch(es)`);
+      } else if (outgoing.some((f) => !f.guard)) {
+        warnings.push(`decision "${name}" has branches without a guard`);
+      }
+    }
+    if (node.kind === 'fork' && outgoing.length < 2) {
+      warnings.push(`fork "${name}" starts ${outgoing.length} parallel branch(es)`);
+    }
+    if ((node.kind === 'join' || node.kind === 'merge') && incoming.length < 2) {
+      warnings.push(`${node.kind} "${name}" has ${incoming.length} incoming flow(s)`);
+    }
+  });
+
+  return { errors, warnings };
+}
+
+function reachableFrom(startId: string, flows: ActivityFlow[]): Set<string> {
+  const visited = new Set<string>([startId]);
+  const queue = [startId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    flows
+      .filter((f) => f.source === current && !visited.has(f.target))
+      .forEach((f) => {
+        visited.add(f.target);
+        queue.push(f.target);
+      });
+  }
+  return visited;
+}
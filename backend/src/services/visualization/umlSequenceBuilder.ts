@@ -0,0 +1,306 @@
+import type {
+  SequenceActivation,
+  SequenceFragment,
+  SequenceFragmentKind,
+  SequenceFragmentOperand,
+  SequenceMessage,
+  SequenceMessageKind,
+  SequenceParticipant,
+  SequenceParticipantKind,
+  TextSpan,
+  UMLSequenceData,
+} from '../../../../shared/src/types.js';
+
+/**
+ * One step of the `umlSequenceGeneration` output: a message, or a fragment holding
+ * nested steps in one or more operands.
+ */
+export interface RawSequenceStep {
+  from?: string;
+  to?: string;
+  label?: string;
+  kind?: string;
+  quote?: string;
+  fragment?: string;
+  guard?: string;
+  operands?: Array<{ guard?: string; steps?: RawSequenceStep[] }>;
+  steps?: RawSequenceStep[];
+}
+
+/**
+ * Sequence diagram as returned by the `umlSequenceGeneration` prompt, before any field is trusted.
+ */
+export interface RawSequenceDiagram {
+  participants?: Array<{ id?: string; name?: string; kind?: string; description?: string; quote?: string }>;
+  steps?: RawSequenceStep[];
+  // Flat message list, for models that skip fragments altogether
+  messages?: RawSequenceStep[];
+}
+
+export interface SequenceValidationResult {
+  errors: string[];
+  warnings: string[];
+}
+
+const PARTICIPANT_KINDS: SequenceParticipantKind[] = [
+  'actor', 'participant', 'boundary', 'control', 'entity', 'database', 'queue',
+];
+
+const PARTICIPANT_KIND_ALIASES: Record<string, SequenceParticipantKind> = {
+  user: 'actor',
+  person: 'actor',
+  ui: 'boundary',
+  api: 'boundary',
+  service: 'control',
+  db: 'database',
+  store: 'database',
+  topic: 'queue',
+};
+
+const MESSAGE_KIND_ALIASES: Record<string, SequenceMessageKind> = {
+  sync: 'sync',
+  synchronous: 'sync',
+  call: 'sync',
+  request: 'sync',
+  async: 'async',
+  asynchronous: 'async',
+  event: 'async',
+  message: 'async',
+  return: 'return',
+  reply: 'return',
+  response: 'return',
+  create: 'create',
+  new: 'create',
+};
+
+const FRAGMENT_KIND_ALIASES: Record<string, SequenceFragmentKind> = {
+  alt: 'alt',
+  alternative: 'alt',
+  opt: 'opt',
+  option: 'opt',
+  optional: 'opt',
+  loop: 'loop',
+  par: 'par',
+  parallel: 'par',
+  break: 'break',
+  critical: 'critical',
+};
+
+// Only these fragments take several operands; the others keep a single one
+const MULTI_OPERAND_KINDS: SequenceFragmentKind[] = ['alt', 'par'];
+
+const cleanGuard = (guard?: string) => guard?.trim().replace(/^\[(.*)\]$/, '$1').trim() || undefined;
+
+/**
+ * Turn the LLM output into well-formed UMLSequenceData: participants referenced by id,
+ * messages numbered in time order, empty fragments dropped, and activation bars derived
+ * from calls and their returns. Participants the model forgot to declare are added.
+ */
+export function normalizeSequenceDiagram(
+  raw: RawSequenceDiagram,
+  locate?: (quote: string) => TextSpan | null,
+): UMLSequenceData {
+  const source = (quote?: string) => ({
+    sourceQuote: quote?.trim() || '',
+    sourceSpan: quote?.trim() ? locate?.(quote.trim()) || null : null,
+  });
+
+  const participants: SequenceParticipant[] = [];
+  const participantByKey = new Map<string, SequenceParticipant>();
+  const addParticipant = (
+    id: string,
+    name: string,
+    details: { kind?: string; description?: string; quote?: string } = {},
+  ): SequenceParticipant => {
+    const kind = details.kind?.trim().toLowerCase() || '';
+    const participant: SequenceParticipant = {
+      id,
+      name,
+      kind: PARTICIPANT_KINDS.includes(kind as SequenceParticipantKind)
+        ? (kind as SequenceParticipantKind)
+        : PARTICIPANT_KIND_ALIASES[kind] || 'participant',
+      description: details.description || undefined,
+      ...source(details.quote),
+    };
+    participants.push(participant);
+    participantByKey.set(id.toLowerCase(), participant);
+    participantByKey.set(name.toLowerCase(), participant);
+    return participant;
+  };
+
+  (raw.participants || []).forEach((participant, index) => {
+    const name = (participant.name || participant.id || '').trim();
+    const id = String(participant.id || `participant-${index}`);
+    if (!name || participantByKey.has(name.toLowerCase()) || participantByKey.has(id.toLowerCase())) return;
+    addParticipant(id, name, participant);
+  });
+
+  const resolveParticipant = (ref?: string): SequenceParticipant | undefined => {
+    const key = ref?.trim();
+    if (!key) return undefined;
+    return participantByKey.get(key.toLowerCase()) || addParticipant(`participant-${participants.length}`, key);
+  };
+
+  const messages: SequenceMessage[] = [];
+  const fragments: SequenceFragment[] = [];
+
+  const walk = (steps: RawSequenceStep[], parent?: { id: string; operandIndex: number }) => {
+    steps.forEach((step) => {
+      if (step.fragment || step.operands) {
+        const kind = FRAGMENT_KIND_ALIASES[step.fragment?.trim().toLowerCase() || ''];
+        const rawOperands = step.operands || [{ guard: step.guard, steps: step.steps }];
+
+        // Fragments we cannot draw keep their messages, without the frame
+        if (!kind) {
+          rawOperands.forEach((operand) => walk(operand.steps || [], parent));
+          return;
+        }
+
+        const operands = MULTI_OPERAND_KINDS.includes(kind)
+          ? rawOperands
+          : [{ guard: step.guard || rawOperands[0]?.guard, steps: rawOperands.flatMap((o) => o.steps || []) }];
+        const fragment: SequenceFragment = {
+          id: `fragment-${fragments.length}`,
+          kind,
+          operands: operands.map((operand): SequenceFragmentOperand => ({ guard: cleanGuard(operand.guard) })),
+          order: messages.length,
+          parentId: parent?.id,
+          parentOperandIndex: parent?.operandIndex,
+          ...source(step.quote),
+        };
+        const fragmentIndex = fragments.length;
+        fragments.push(fragment);
+
+        operands.forEach((operand, operandIndex) => walk(operand.steps || [], { id: fragment.id, operandIndex }));
+
+        // A frame around nothing is noise; nested frames are necessarily empty too
+        if (messages.length === fragment.order) {
+          fragments.splice(fragmentIndex);
+        }
+        return;
+      }
+
+      const from = resolveParticipant(step.from);
+      const to = resolveParticipant(step.to);
+      if (!from || !to) return;
+
+      messages.push({
+        id: `message-${messages.length}`,
+        from: from.id,
+        to: to.id,
+        label: step.label?.trim() || '',
+        kind: MESSAGE_KIND_ALIASES[step.kind?.trim().toLowerCase() || ''] || 'sync',
+        order: messages.length,
+        fragmentId: parent?.id,
+        operandIndex: parent?.operandIndex,
+        ...source(step.quote),
+      });
+    });
+  };
+
+  walk(raw.steps && raw.steps.length > 0 ? raw.steps : raw.messages || []);
+
+  // Ids stay dense after empty fragments were dropped
+  const fragmentIds = new Map(fragments.map((fragment, index) => [fragment.id, `fragment-${index}`]));
+  fragments.forEach((fragment) => {
+    fragment.id = fragmentIds.get(fragment.id)!;
+    if (fragment.parentId) fragment.parentId = fragmentIds.get(fragment.parentId);
+  });
+  messages.forEach((message) => {
+    if (message.fragmentId) message.fragmentId = fragmentIds.get(message.fragmentId);
+  });
+
+  return {
+    participants,
+    messages,
+    activations: deriveActivations(messages),
+    fragments,
+  };
+}
+
+/**
+ * Activation bars: a sync call (or a creation) activates the receiver until it returns
+ * to the caller. A return closes the innermost matching call and every call nested in it;
+ * calls that never return end at the receiver's last message.
+ */
+export function deriveActivations(messages: SequenceMessage[]): SequenceActivation[] {
+  const activations: Omit<SequenceActivation, 'id'>[] = [];
+  const open = new Map<string, Array<{ caller: string; startOrder: number }>>();
+
+  messages.forEach((message) => {
+    if (message.kind === 'return') {
+      const stack = open.get(message.from) || [];
+      let index = stack.length - 1;
+      while (index >= 0 && stack[index].caller !== message.to) index--;
+      if (index < 0) return;
+
+      stack.splice(index).forEach((call, offset) => {
+        activations.push({
+          participantId: message.from,
+          startOrder: call.startOrder,
+          endOrder: message.order,
+          depth: index + offset,
+        });
+      });
+      return;
+    }
+
+    if (message.kind === 'sync' || message.kind === 'create') {
+      const stack = open.get(message.to) || [];
+      stack.push({ caller: message.from, startOrder: message.order });
+      open.set(message.to, stack);
+    }
+  });
+
+  open.forEach((stack, participantId) => {
+    const lastOrder = Math.max(
+      ...messages.filter((m) => m.from === participantId || m.to === participantId).map((m) => m.order),
+    );
+    stack.forEach((call, depth) => {
+      activations.push({ participantId, startOrder: call.startOrder, endOrder: Math.max(lastOrder, call.startOrder), depth });
+    });
+  });
+
+  return activations
+    .sort((a, b) => a.startOrder - b.startOrder || a.depth - b.depth)
+    .map((activation, index) => ({ id: `activation-${index}`, ...activation }));
+}
+
+/**
+ * Check the diagram is worth drawing. Without participants or messages there is nothing
+ * to show; idle participants, unmatched returns and single-branch alternatives are
+ * extraction slips worth logging.
+ */
+export function validateSequenceDiagram(data: UMLSequenceData): SequenceValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (data.participants.length === 0 || data.messages.length === 0) {
+    return { errors: ['sequence diagram has no messages'], warnings };
+  }
+
+  data.participants.forEach((participant) => {
+    if (!data.messages.some((m) => m.from === participant.id || m.to === participant.id)) {
+      warnings.push(`participant "${participant.name}" sends or receives no message`);
+    }
+  });
+
+  data.messages
+    .filter((message) => message.kind === 'return')
+    .forEach((message) => {
+      const answered = data.messages.some((call) => (
+        call.order < message.order && call.kind !== 'return' && call.from === message.to && call.to === message.from
+      ));
+      if (!answered) {
+        warnings.push(`return "${message.label}" does not answer an earlier call`);
+      }
+    });
+
+  data.fragments
+    .filter((fragment) => fragment.kind === 'alt' && fragment.operands.length < 2)
+    .forEach((fragment) => {
+      warnings.push(`alt fragment ${fragment.id} has a single alternative`);
+    });
+
+  return { errors, warnings };
+}
@@ -16,7 +16,7 @@ vi.mock("../llm/openRouterClient.js", () => ({
 vi.mock("../../repositories/visualizationService.js", () => ({
   visualizationService: {
     findByDocumentIdAndType: vi.fn().mockResolvedValue(null),
-    create: vi.fn().mockResolvedValue(true),
+    save: vi.fn().mockResolvedValue(1),
   },
 }));
 
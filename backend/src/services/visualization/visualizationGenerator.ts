@@ -1,6 +1,28 @@
-import { loadPrompt } from '../llm/promptLoader.js';
+import { loadPrompt, renderPrompt } from '../llm/promptRegistry.js';
 import { visualizationService } from '../../repositories/visualizationService.js';
-
+import {
+  buildDateAnchors,
+  findDateExpressions,
+  resolveDate,
+  sentenceAround,
+} from '../../utils/dateParser.js';
+import { createGrounder } from '../analysis/sourceGrounding.js';
+import { promptVersionsOf, trackLLMUsage } from '../llm/llmUsage.js';
+
+import { normalizeFlowchart, validateFlowchart } from './flowchartBuilder.js';
+import { normalizeGantt, validateGantt } from './ganttBuilder.js';
+import { normalizePriorityMatrix } from './priorityMatrixBuilder.js';
+import { normalizeRaciMatrix, validateRaciMatrix } from './raciBuilder.js';
+import { normalizeActivityDiagram, validateActivityDiagram } from './umlActivityBuilder.js';
+import { normalizeSequenceDiagram, validateSequenceDiagram } from './umlSequenceBuilder.js';
+import { applyOverlay } from './visualizationOverlay.js';
+
+import type { RawFlowchart } from './flowchartBuilder.js';
+import type { RawGantt } from './ganttBuilder.js';
+import type { RawPriorityMatrix } from './priorityMatrixBuilder.js';
+import type { RawRaciMatrix } from './raciBuilder.js';
+import type { RawActivityDiagram } from './umlActivityBuilder.js';
+import type { RawSequenceDiagram } from './umlSequenceBuilder.js';
 import type {
   Document,
   DocumentAnalysis,
@@ -10,6 +32,7 @@ import type {
   KnowledgeGraphData,
   DashboardData,
   TimelineData,
+  TimelineEvent,
   TermsDefinitionsData,
   UMLDiagramData,
   ClassEntity,
@@ -24,7 +47,13 @@ import type {
   ArgumentPolarity,
   DepthGraphData,
   EntityGraphData,
+  GanttData,
+  RaciMatrixData,
+  PriorityMatrixData,
+  UMLSequenceData,
+  UMLActivityData,
 } from '../../../../shared/src/types.js';
+import type { VisualizationRecord } from '../../repositories/types.js';
 
 // Internal types for LLM extraction
 interface UMLExtractionResult {
@@ -75,7 +104,14 @@ interface UMLExtractionResult {
   }[];
 }
 
+// Unique lock key for one document and visualization type; concurrent generation
+// requests with the same key share a single job
+export const visualizationLockKey = (documentId: string, type: string) =>
+  `visualization-lock:${documentId}:${type}`;
+
 export class VisualizationGenerator {
+  private grounder?: { content: string; ground: ReturnType<typeof createGrounder> };
+
   async generateVisualization(
     type: VisualizationType,
     document: Document,
@@ -83,9 +119,6 @@ export class VisualizationGenerator {
     force: boolean = false,
   ): Promise<any> {
     try {
-      // Create a unique lock key for this document and visualization type
-      const lockKey = `visualization-lock:${document.id}:${type}`;
-
       console.log(
         `🔍 Checking cache for ${type} visualization on document ${document.id}`,
         { force, type },
@@ -139,8 +172,7 @@ export class VisualizationGenerator {
       );
 
       // Generate visualization based on type
-      let visualizationData: any;
-      const llmMetadata = {
+      const llmMetadata: VisualizationRecord['llmMetadata'] = {
         model: 'unknown',
         tokensUsed: 0,
         processingTime: 0,
@@ -149,79 +181,20 @@ export class VisualizationGenerator {
 
       const startTime = Date.now();
 
-      switch (type) {
-        case 'structured-view':
-          console.log(
-            `🎯 Generating structured-view visualization for document ${document.id}`,
-          );
-          visualizationData = await this.generateStructuredView(document);
-          console.log('✅ Structured-view generation completed');
-          break;
-
-        case 'mind-map':
-          visualizationData = await this.generateMindMap(document, analysis);
-          llmMetadata.model = 'mind-map-generation';
-          break;
-
-        case 'flowchart':
-          visualizationData = this.generateFlowchart(document, analysis);
-          break;
-
-        case 'knowledge-graph':
-          visualizationData = await this.generateKnowledgeGraph(
-            document,
-            analysis,
-          );
-          llmMetadata.model = 'knowledge-graph-generation';
-          break;
-
-        case 'executive-dashboard':
-          visualizationData = this.generateDashboard(analysis);
-          break;
-
-        case 'timeline':
-          visualizationData = this.generateTimeline(document, analysis);
-          break;
-
-        case 'terms-definitions':
-          visualizationData = await this.generateTermsDefinitions(
-            document,
-            analysis,
-          );
-          llmMetadata.model = 'glossary-generation';
-          break;
-
-        case 'uml-class-diagram':
-          visualizationData = await this.generateUMLClassDiagram(
-            document,
-            analysis,
-          );
-          llmMetadata.model = 'uml-extraction';
-          break;
-
-        case 'argument-map':
-          visualizationData = await this.generateArgumentMap(
-            document,
-            analysis,
-          );
-          llmMetadata.model = 'argument-map-generation';
-          break;
-
-        case 'depth-graph':
-          visualizationData = await this.generateDepthGraph(document, analysis);
-          llmMetadata.model = 'depth-analysis';
-          break;
-
-        case 'entity-graph':
-          visualizationData = await this.generateEntityGraph(
-            document,
-            analysis,
-          );
-          llmMetadata.model = 'entityGraphGeneration';
-          break;
+      const { result: visualizationData, calls, validationFailures } = await trackLLMUsage(() =>
+        this.generateData(type, document, analysis, llmMetadata));
 
-        default:
-          throw new Error(`Visualization type ${type} not yet implemented`);
+      // Record what the LLM calls behind this version actually used
+      if (calls.length > 0) {
+        llmMetadata.model = [...new Set(calls.map((call) => call.model))].join(', ');
+        llmMetadata.tokensUsed = calls.reduce((sum, call) => sum + call.tokensUsed, 0);
+        const promptVersion = promptVersionsOf(calls);
+        if (promptVersion) {
+          llmMetadata.promptVersion = promptVersion;
+        }
+      }
+      if (validationFailures.length > 0) {
+        llmMetadata.validationFailures = validationFailures;
       }
 
       // Calculate processing time
@@ -229,7 +202,7 @@ export class VisualizationGenerator {
 
       // Store the generated visualization in DynamoDB
       {
-        const visualizationRecord = {
+        const visualizationRecord: VisualizationRecord = {
           documentId: document.id,
           visualizationType: type,
           visualizationData,
@@ -238,13 +211,29 @@ export class VisualizationGenerator {
           updatedAt: new Date().toISOString(),
         };
 
-        await visualizationService.create(visualizationRecord);
+        // Keep user edits across forced regeneration where their targets still exist
+        const previous = force
+          ? await visualizationService.findByDocumentIdAndType(document.id, type)
+          : null;
+        if (previous?.overrides?.length) {
+          const rebased = applyOverlay(visualizationData, previous.overrides);
+          if (rebased.rejected.length > 0) {
+            console.warn(
+              `⚠️ Dropped ${rebased.rejected.length} edit(s) to ${type} that no longer apply:`,
+              rebased.rejected.map(({ operation, reason }) => `${operation.op} ${operation.path}: ${reason}`),
+            );
+          }
+          visualizationRecord.generatedData = visualizationData;
+          visualizationRecord.visualizationData = rebased.data;
+          visualizationRecord.overrides = rebased.applied;
+        }
+
+        const version = await visualizationService.save(visualizationRecord, 'generation');
         console.log(
-          `✅ Stored ${type} visualization in DynamoDB for document ${document.id}`,
+          `✅ Stored ${type} visualization v${version} for document ${document.id}`,
         );
+        return visualizationRecord.visualizationData;
       }
-
-      return visualizationData;
     } catch (error) {
       console.error(
         `❌ Failed to generate ${type} visualization for document ${document.id}:`,
@@ -256,6 +245,131 @@ export class VisualizationGenerator {
     }
   }
 
+  /**
+   * Run the generator for `type`; labels `llmMetadata.model` for types that
+   * make no tracked LLM call
+   */
+  private async generateData(
+    type: VisualizationType,
+    document: Document,
+    analysis: DocumentAnalysis,
+    llmMetadata: VisualizationRecord['llmMetadata'],
+  ): Promise<any> {
+    let visualizationData: any;
+
+    switch (type) {
+      case 'structured-view':
+        console.log(
+          `🎯 Generating structured-view visualization for document ${document.id}`,
+        );
+        visualizationData = await this.generateStructuredView(document);
+        console.log('✅ Structured-view generation completed');
+        break;
+
+      case 'mind-map':
+        visualizationData = await this.generateMindMap(document, analysis);
+        llmMetadata.model = 'mind-map-generation';
+        break;
+
+      case 'flowchart':
+        visualizationData = await this.generateFlowchart(document, analysis);
+        llmMetadata.model = 'flowchart-generation';
+        break;
+
+      case 'knowledge-graph':
+        visualizationData = await this.generateKnowledgeGraph(
+          document,
+          analysis,
+        );
+        llmMetadata.model = 'knowledge-graph-generation';
+        break;
+
+      case 'executive-dashboard':
+        visualizationData = this.generateDashboard(analysis);
+        break;
+
+      case 'timeline':
+        visualizationData = this.generateTimeline(document, analysis);
+        break;
+
+      case 'terms-definitions':
+        visualizationData = await this.generateTermsDefinitions(
+          document,
+          analysis,
+        );
+        llmMetadata.model = 'glossary-generation';
+        break;
+
+      case 'uml-class-diagram':
+        visualizationData = await this.generateUMLClassDiagram(
+          document,
+          analysis,
+        );
+        llmMetadata.model = 'uml-extraction';
+        break;
+
+      case 'uml-sequence':
+        visualizationData = await this.generateUMLSequenceDiagram(
+          document,
+          analysis,
+        );
+        llmMetadata.model = 'uml-sequence-generation';
+        break;
+
+      case 'uml-activity':
+        visualizationData = await this.generateUMLActivityDiagram(
+          document,
+          analysis,
+        );
+        llmMetadata.model = 'uml-activity-generation';
+        break;
+
+      case 'argument-map':
+        visualizationData = await this.generateArgumentMap(
+          document,
+          analysis,
+        );
+        llmMetadata.model = 'argument-map-generation';
+        break;
+
+      case 'depth-graph':
+        visualizationData = await this.generateDepthGraph(document, analysis);
+        llmMetadata.model = 'depth-analysis';
+        break;
+
+      case 'entity-graph':
+        visualizationData = await this.generateEntityGraph(
+          document,
+          analysis,
+        );
+        llmMetadata.model = 'entityGraphGeneration';
+        break;
+
+      case 'gantt':
+        visualizationData = await this.generateGantt(document, analysis);
+        llmMetadata.model = 'gantt-generation';
+        break;
+
+      case 'raci-matrix':
+        visualizationData = await this.generateRaciMatrix(document, analysis);
+        llmMetadata.model = 'raci-generation';
+        break;
+
+      case 'priority-matrix':
+        visualizationData = await this.generatePriorityMatrix(
+          document,
+          analysis,
+        );
+        llmMetadata.model = 'priority-matrix-generation';
+        break;
+
+      default:
+        throw new Error(`Visualization type ${type} not yet implemented`);
+    }
+
+    return visualizationData;
+  }
+
   private async generateStructuredView(document: Document) {
     console.log(
       `🏗️ generateStructuredView called for document: ${document.title}`,
@@ -273,7 +387,10 @@ export class VisualizationGenerator {
 
       // Prepare content for LLM
       const contentSample = document.content.substring(0, 25000);
-      const prompt = `${loadPrompt('structureAnalysis')}\n\nDocument Title: ${document.title}\n\nContent:\n${contentSample}`;
+      const prompt = renderPrompt('structureAnalysis', {
+        title: document.title,
+        content: contentSample,
+      });
 
       const response = await llmClient.callWithFallback(
         'sectionSummary',
@@ -518,39 +635,149 @@ export class VisualizationGenerator {
     });
   }
 
-  private generateFlowchart(
+  private async generateFlowchart(
     document: Document,
     analysis: DocumentAnalysis,
-  ): FlowchartData {
-    // Simple flowchart from sections
-    const nodes = document.structure.sections.map((section, index) => ({
-      id: section.id,
-      type:
-        index === 0
-          ? 'start'
-          : index === document.structure.sections.length - 1
-            ? 'end'
-            : ('process' as any),
-      label: section.title,
-      description: section.summary || '',
-      position: { x: 100, y: 100 + index * 150 },
-    }));
+  ): Promise<FlowchartData> {
+    const { getOpenRouterClient, OpenRouterClient }
+      = await import('../llm/openRouterClient.js');
+    const llmClient = getOpenRouterClient();
 
-    const edges = [];
-    for (let i = 0; i < nodes.length - 1; i++) {
-      edges.push({
-        id: `edge-${i}`,
-        source: nodes[i].id,
-        target: nodes[i + 1].id,
-        type: 'solid' as any,
-      });
+    const tldrText
+      = typeof analysis.tldr === 'string' ? analysis.tldr : analysis.tldr?.text;
+    const prompt = `Document Title: ${document.title}\n\nTLDR: ${tldrText || ''}\n\nContent:\n${OpenRouterClient.middleOutCompress(document.content, 16000)}`;
+
+    try {
+      const response = await llmClient.callWithFallback(
+        'flowchartGeneration',
+        prompt,
+      );
+      const flowchart = normalizeFlowchart(
+        llmClient.parseJSONResponse<RawFlowchart>(response),
+      );
+
+      const { errors, warnings } = validateFlowchart(flowchart);
+      warnings.forEach((warning) => console.warn(`⚠️ Flowchart: ${warning}`));
+      if (errors.length > 0) {
+        throw new Error(`Invalid flowchart: ${errors.join('; ')}`);
+      }
+
+      return flowchart;
+    } catch (error) {
+      console.error('LLM flowchart generation failed:', error);
+      throw error; // Fail fast - no fallback
     }
+  }
 
-    return {
-      nodes,
-      edges,
-      layout: 'topToBottom',
-    };
+  private async generateGantt(
+    document: Document,
+    analysis: DocumentAnalysis,
+  ): Promise<GanttData> {
+    const { getOpenRouterClient, OpenRouterClient }
+      = await import('../llm/openRouterClient.js');
+    const llmClient = getOpenRouterClient();
+
+    const tldrText
+      = typeof analysis.tldr === 'string' ? analysis.tldr : analysis.tldr?.text;
+    const prompt = `Document Title: ${document.title}\n\nTLDR: ${tldrText || ''}\n\nContent:\n${OpenRouterClient.middleOutCompress(document.content, 16000)}`;
+
+    try {
+      const response = await llmClient.callWithFallback(
+        'ganttGeneration',
+        prompt,
+      );
+
+      // Dates are copied as written; resolve them the way the timeline does
+      const expressions = findDateExpressions(document.content);
+      const gantt = normalizeGantt(
+        llmClient.parseJSONResponse<RawGantt>(response),
+        {
+          referenceDate: expressions[0]?.resolved.date
+            || new Date(document.metadata.uploadDate),
+          anchors: buildDateAnchors(document.content, expressions),
+          locate: (quote) => this.findTextSpan(document.content, quote) || undefined,
+        },
+      );
+
+      const { errors, warnings } = validateGantt(gantt);
+      warnings.forEach((warning) => console.warn(`⚠️ Gantt: ${warning}`));
+      if (errors.length > 0) {
+        throw new Error(`Invalid gantt chart: ${errors.join('; ')}`);
+      }
+
+      return gantt;
+    } catch (error) {
+      console.error('LLM gantt generation failed:', error);
+      throw error; // Fail fast - no fallback
+    }
+  }
+
+  private async generateRaciMatrix(
+    document: Document,
+    analysis: DocumentAnalysis,
+  ): Promise<RaciMatrixData> {
+    const { getOpenRouterClient, OpenRouterClient }
+      = await import('../llm/openRouterClient.js');
+    const llmClient = getOpenRouterClient();
+
+    const tldrText
+      = typeof analysis.tldr === 'string' ? analysis.tldr : analysis.tldr?.text;
+    const prompt = `Document Title: ${document.title}\n\nTLDR: ${tldrText || ''}\n\nContent:\n${OpenRouterClient.middleOutCompress(document.content, 16000)}`;
+
+    try {
+      const response = await llmClient.callWithFallback(
+        'raciGeneration',
+        prompt,
+      );
+      const matrix = normalizeRaciMatrix(
+        llmClient.parseJSONResponse<RawRaciMatrix>(response),
+        (quote) => this.findTextSpan(document.content, quote) || undefined,
+      );
+
+      const { errors, warnings } = validateRaciMatrix(matrix);
+      warnings.forEach((warning) => console.warn(`⚠️ RACI: ${warning}`));
+      if (errors.length > 0) {
+        throw new Error(`Invalid RACI matrix: ${errors.join('; ')}`);
+      }
+
+      return matrix;
+    } catch (error) {
+      console.error('LLM RACI generation failed:', error);
+      throw error; // Fail fast - no fallback
+    }
+  }
+
+  private async generatePriorityMatrix(
+    document: Document,
+    analysis: DocumentAnalysis,
+  ): Promise<PriorityMatrixData> {
+    const { getOpenRouterClient, OpenRouterClient }
+      = await import('../llm/openRouterClient.js');
+    const llmClient = getOpenRouterClient();
+
+    const tldrText
+      = typeof analysis.tldr === 'string' ? analysis.tldr : analysis.tldr?.text;
+    const prompt = `Document Title: ${document.title}\n\nTLDR: ${tldrText || ''}\n\nContent:\n${OpenRouterClient.middleOutCompress(document.content, 16000)}`;
+
+    try {
+      const response = await llmClient.callWithFallback(
+        'priorityMatrixGeneration',
+        prompt,
+      );
+      const matrix = normalizePriorityMatrix(
+        llmClient.parseJSONResponse<RawPriorityMatrix>(response),
+        (quote) => this.findTextSpan(document.content, quote) || undefined,
+      );
+
+      if (matrix.items.length === 0) {
+        throw new Error('Invalid priority matrix: no items to prioritize');
+      }
+
+      return matrix;
+    } catch (error) {
+      console.error('LLM priority matrix generation failed:', error);
+      throw error; // Fail fast - no fallback
+    }
   }
 
   private async generateKnowledgeGraph(
@@ -575,6 +802,7 @@ export class VisualizationGenerator {
 
       const response = await llmClient.call({
         model: MODEL_CONFIGS['knowledge-graph-generation'].primary,
+        task: 'knowledge-graph-generation',
         messages: [
           { role: 'system', content: systemPrompt },
           {
@@ -594,21 +822,29 @@ export class VisualizationGenerator {
       }>(response);
 
       if (parsed.nodes && parsed.nodes.length > 0) {
+        const ground = this.grounderFor(document.content);
+
         // Convert LLM nodes to knowledge graph structure
-        const nodes = parsed.nodes.map((node: any, index: number) => ({
-          id: node.id || `node-${index}`,
-          label: node.label || 'Untitled',
-          type: node.type || 'concept',
-          size: node.size || Math.max(20, node.importance * 50 + 20) || 70,
-          color: node.color || this.getEntityColor(node.type),
-          metadata: {
-            centrality: node.importance || 0.5,
-            connections: 0,
-            description: node.description || '',
-            sourceQuote: node.sourceQuote || '',
-            sourceSpan: node.sourceSpan || undefined,
-          },
-        }));
+        const nodes = parsed.nodes.map((node: any, index: number) => {
+          const sourceQuote = node.metadata?.sourceQuote || node.sourceQuote || '';
+          const grounding = ground([sourceQuote]);
+          return {
+            id: node.id || `node-${index}`,
+            label: node.label || 'Untitled',
+            type: node.type || 'concept',
+            size: node.size || Math.max(20, node.importance * 50 + 20) || 70,
+            color: node.color || this.getEntityColor(node.type),
+            metadata: {
+              centrality: node.importance || 0.5,
+              connections: 0,
+              description: node.metadata?.description || node.description || '',
+              sourceQuote,
+              // The located quote, rather than the offsets the model reported
+              sourceSpan: grounding.spans[0] || node.metadata?.sourceSpan || node.sourceSpan || undefined,
+            },
+            grounding,
+          };
+        });
 
         // Convert LLM edges to knowledge graph structure
         const edges = parsed.edges
@@ -620,6 +856,8 @@ export class VisualizationGenerator {
             strength: rel.strength || 0.5,
             label: rel.label || rel.type || 'relates-to',
             evidence: rel.evidence || [],
+            grounding: ground((rel.evidence || []).map((evidence: string | TextSpan) =>
+              (typeof evidence === 'string' ? evidence : evidence?.text))),
           }))
           .filter((edge: any) => edge.source && edge.target);
 
@@ -774,24 +1012,120 @@ export class VisualizationGenerator {
     document: Document,
     analysis: DocumentAnalysis,
   ): TimelineData {
-    // Extract dates from entities
+    const content = document.content;
+
+    // Absolute dates written in the document anchor the relative ones
+    const expressions = findDateExpressions(content);
+    const anchors = buildDateAnchors(content, expressions);
+    const documentDate = expressions[0]?.resolved.date
+      || new Date(document.metadata.uploadDate);
+
+    // Date entities from the analysis, falling back to the scanned expressions
     const dateEntities = analysis.entities.filter((e) => e.type === 'date');
+    const candidates = dateEntities.length > 0
+      ? dateEntities.map((entity) => ({
+        text: entity.text,
+        context: entity.context,
+        source: this.locateEntityMention(entity, content),
+      }))
+      : expressions.map((expression) => ({
+        text: expression.text,
+        context: undefined,
+        source: { start: expression.start, end: expression.end, text: expression.text },
+      }));
+
+    const events: TimelineEvent[] = [];
+    const seen = new Set<string>();
+
+    for (const candidate of candidates) {
+      // "Two weeks later" refers to the last date written before the mention
+      const position = candidate.source?.start ?? content.length;
+      const previous = expressions.filter((e) => e.end <= position).pop();
+
+      const resolved = resolveDate(candidate.text, {
+        referenceDate: previous?.resolved.date || documentDate,
+        anchors,
+      });
+      if (!resolved) {
+        console.log(`⏭️ Could not place date "${candidate.text}" on the timeline`);
+        continue;
+      }
 
-    const events = dateEntities.map((entity, index) => ({
-      id: `event-${index}`,
-      title: entity.text,
-      description: entity.context || '',
-      date: new Date(), // TODO: parse actual date
-      category: 'general',
-      color: '#4F46E5',
-    }));
+      const date = resolved.date.toISOString();
+      const key = `${date}|${candidate.text.toLowerCase()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const sentence = candidate.source
+        ? sentenceAround(content, candidate.source.start, candidate.source.end)
+        : '';
+      const category = resolved.relative ? 'relative' : resolved.endDate ? 'period' : 'milestone';
+
+      events.push({
+        id: '',
+        title: this.timelineEventTitle(candidate.context, sentence, candidate.text),
+        description: sentence || candidate.context || '',
+        date,
+        endDate: resolved.endDate?.toISOString(),
+        category,
+        color: this.getTimelineColor(category),
+        dateText: candidate.text,
+        precision: resolved.precision,
+        source: candidate.source,
+      });
+    }
+
+    events.sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+    events.forEach((event, index) => {
+      event.id = `event-${index}`;
+    });
 
     return {
       events,
-      scale: 'month',
+      scale: this.chooseTimelineScale(events),
     };
   }
 
+  private locateEntityMention(entity: Entity, content: string): TextSpan | undefined {
+    // Prefer a recorded mention whose offsets still point at the entity text
+    const mention = (entity.mentions || []).find(
+      (m) => typeof m.start === 'number'
+        && content.substring(m.start, m.end).toLowerCase() === entity.text.toLowerCase(),
+    );
+    if (mention) return mention;
+
+    const index = content.toLowerCase().indexOf(entity.text.toLowerCase());
+    if (index === -1) return undefined;
+
+    return {
+      start: index,
+      end: index + entity.text.length,
+      text: content.substring(index, index + entity.text.length),
+    };
+  }
+
+  private timelineEventTitle(
+    context: string | undefined,
+    sentence: string,
+    dateText: string,
+  ): string {
+    const title = context || sentence || dateText;
+    return title.length > 80 ? `${title.substring(0, 77).trim()}...` : title;
+  }
+
+  private chooseTimelineScale(events: TimelineEvent[]): TimelineData['scale'] {
+    if (events.length === 0) return 'month';
+
+    const first = Date.parse(events[0].date);
+    const last = Math.max(...events.map((e) => Date.parse(e.endDate || e.date)));
+    const days = (last - first) / (24 * 60 * 60 * 1000);
+
+    if (days <= 31) return 'day';
+    if (days <= 180) return 'week';
+    if (days <= 365 * 4) return 'month';
+    return 'year';
+  }
+
   private async generateTermsDefinitions(
     document: Document,
     analysis: DocumentAnalysis,
@@ -883,6 +1217,76 @@ export class VisualizationGenerator {
     );
   }
 
+  private async generateUMLSequenceDiagram(
+    document: Document,
+    analysis: DocumentAnalysis,
+  ): Promise<UMLSequenceData> {
+    const { getOpenRouterClient, OpenRouterClient }
+      = await import('../llm/openRouterClient.js');
+    const llmClient = getOpenRouterClient();
+
+    const tldrText
+      = typeof analysis.tldr === 'string' ? analysis.tldr : analysis.tldr?.text;
+    const prompt = `Document Title: ${document.title}\n\nTLDR: ${tldrText || ''}\n\nContent:\n${OpenRouterClient.middleOutCompress(document.content, 16000)}`;
+
+    try {
+      const response = await llmClient.callWithFallback(
+        'umlSequenceGeneration',
+        prompt,
+      );
+      const diagram = normalizeSequenceDiagram(
+        llmClient.parseJSONResponse<RawSequenceDiagram>(response),
+        (quote) => this.findTextSpan(document.content, quote),
+      );
+
+      const { errors, warnings } = validateSequenceDiagram(diagram);
+      warnings.forEach((warning) => console.warn(`⚠️ Sequence diagram: ${warning}`));
+      if (errors.length > 0) {
+        throw new Error(`Invalid sequence diagram: ${errors.join('; ')}`);
+      }
+
+      return diagram;
+    } catch (error) {
+      console.error('LLM sequence diagram generation failed:', error);
+      throw error; // Fail fast - no fallback
+    }
+  }
+
+  private async generateUMLActivityDiagram(
+    document: Document,
+    analysis: DocumentAnalysis,
+  ): Promise<UMLActivityData> {
+    const { getOpenRouterClient, OpenRouterClient }
+      = await import('../llm/openRouterClient.js');
+    const llmClient = getOpenRouterClient();
+
+    const tldrText
+      = typeof analysis.tldr === 'string' ? analysis.tldr : analysis.tldr?.text;
+    const prompt = `Document Title: ${document.title}\n\nTLDR: ${tldrText || ''}\n\nContent:\n${OpenRouterClient.middleOutCompress(document.content, 16000)}`;
+
+    try {
+      const response = await llmClient.callWithFallback(
+        'umlActivityGeneration',
+        prompt,
+      );
+      const diagram = normalizeActivityDiagram(
+        llmClient.parseJSONResponse<RawActivityDiagram>(response),
+        (quote) => this.findTextSpan(document.content, quote),
+      );
+
+      const { errors, warnings } = validateActivityDiagram(diagram);
+      warnings.forEach((warning) => console.warn(`⚠️ Activity diagram: ${warning}`));
+      if (errors.length > 0) {
+        throw new Error(`Invalid activity diagram: ${errors.join('; ')}`);
+      }
+
+      return diagram;
+    } catch (error) {
+      console.error('LLM activity diagram generation failed:', error);
+      throw error; // Fail fast - no fallback
+    }
+  }
+
   private buildUMLExtractionPrompt(
     document: Document,
     analysis: DocumentAnalysis,
@@ -992,17 +1396,20 @@ Output the result as a raw JSON object matching the defined schema. Do not use m
     };
   }
 
+  /**
+   * Grounder for `content`, kept while consecutive lookups are against the same
+   * document so that it is tokenized once
+   */
+  private grounderFor(content: string): ReturnType<typeof createGrounder> {
+    if (this.grounder?.content !== content) {
+      this.grounder = { content, ground: createGrounder(content) };
+    }
+    return this.grounder.ground;
+  }
+
   private findTextSpan(content: string, quote: string): TextSpan | null {
     if (!quote) return null;
-
-    const index = content.indexOf(quote);
-    if (index === -1) return null;
-
-    return {
-      start: index,
-      end: index + quote.length,
-      text: quote,
-    };
+    return this.grounderFor(content)([quote]).spans[0] || null;
   }
 
   private getPackageColor(index: number): string {
@@ -1171,6 +1578,8 @@ ${contentSample}
       }>(response);
 
       if (parsed.nodes && parsed.nodes.length > 0) {
+        const ground = this.grounderFor(_document.content);
+
         // Ensure all nodes have required fields
         const nodes: ArgumentNode[] = parsed.nodes.map((node, index) => ({
           id: node.id || `node-${index}`,
@@ -1182,6 +1591,8 @@ ${contentSample}
           impact: node.impact || 'medium',
           depthMetrics: node.depthMetrics,
           source: node.source,
+          sourceQuote: node.sourceQuote,
+          grounding: ground([node.sourceQuote]),
           parentId: node.parentId,
           isCollapsed: node.isCollapsed ?? false,
         }));
@@ -1219,6 +1630,15 @@ ${contentSample}
     );
   }
 
+  private getTimelineColor(category: string): string {
+    const colors: Record<string, string> = {
+      milestone: '#4F46E5',
+      period: '#0EA5E9',
+      relative: '#F59E0B',
+    };
+    return colors[category] || '#6B7280';
+  }
+
   private getEntityColor(type: string): string {
     const colors: Record<string, string> = {
       person: '#3B82F6',
@@ -0,0 +1,386 @@
+import type {
+  VisualizationPatchOperation,
+  VisualizationType,
+} from '../../../../shared/src/types.js';
+
+// Types whose renderers offer editing; other visualizations stay read-only
+export const EDITABLE_VISUALIZATION_TYPES: VisualizationType[] = [
+  'mind-map',
+  'argument-map',
+  'knowledge-graph',
+  'uml-class-diagram',
+  'raci-matrix',
+  'priority-matrix',
+];
+
+const PATCH_OPS = ['add', 'remove', 'replace'];
+
+// Pointer tokens that would reach Object.prototype through a plain object
+const FORBIDDEN_TOKENS = ['__proto__', 'constructor', 'prototype'];
+
+// Objects and arrays of parsed visualization data
+type Container = Record<string, unknown> | unknown[];
+
+export interface OverlayResult<T = unknown> {
+  data: T;
+  applied: VisualizationPatchOperation[];
+  rejected: { operation: VisualizationPatchOperation; reason: string }[];
+}
+
+const isContainer = (value: unknown): value is Container =>
+  typeof value === 'object' && value !== null;
+
+const hasOwn = (object: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+function parsePointer(path: string): string[] {
+  return path
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Check the request body is a list of well-formed patch operations
+ */
+export function validatePatchOperations(body: unknown): string[] {
+  if (!Array.isArray(body) || body.length === 0) {
+    return ['Body must be a non-empty array of patch operations'];
+  }
+
+  const errors: string[] = [];
+  body.forEach((operation: unknown, index) => {
+    if (!isContainer(operation) || Array.isArray(operation)) {
+      errors.push(`Operation ${index} must be an object`);
+      return;
+    }
+    const { op, path, value } = operation;
+    if (typeof op !== 'string' || !PATCH_OPS.includes(op)) {
+      errors.push(`Operation ${index}: op must be one of ${PATCH_OPS.join(', ')}`);
+    }
+    if (typeof path !== 'string' || !path.startsWith('/')) {
+      errors.push(`Operation ${index}: path must be a JSON Pointer starting with "/"`);
+    } else if (parsePointer(path).some((token) => FORBIDDEN_TOKENS.includes(token))) {
+      errors.push(`Operation ${index}: path may not contain ${FORBIDDEN_TOKENS.join(', ')}`);
+    }
+    if (op !== 'remove' && value === undefined) {
+      errors.push(`Operation ${index}: ${op} requires a value`);
+    }
+  });
+  return errors;
+}
+
+// Array elements are addressed by index, or by `id` so edits survive reordering
+function arrayIndex(array: unknown[], token: string): number {
+  if ((/^\d+$/).test(token)) {
+    const index = Number(token);
+    return index < array.length ? index : -1;
+  }
+  return array.findIndex(
+    (item) => isContainer(item) && !Array.isArray(item) && String(item.id) === token,
+  );
+}
+
+// Only own properties are followed, never inherited ones
+function child(parent: Container, token: string): unknown {
+  if (Array.isArray(parent)) {
+    return parent[arrayIndex(parent, token)];
+  }
+  return hasOwn(parent, token) ? parent[token] : undefined;
+}
+
+function applyOperation(data: unknown, operation: VisualizationPatchOperation): void {
+  const tokens = parsePointer(operation.path);
+  if (tokens.some((token) => FORBIDDEN_TOKENS.includes(token))) {
+    throw new Error(`Forbidden path: ${operation.path}`);
+  }
+  const last = tokens.pop()!;
+
+  if (!isContainer(data)) {
+    throw new Error(`Path not found: ${operation.path}`);
+  }
+  let parent: Container = data;
+  for (const token of tokens) {
+    const next = child(parent, token);
+    if (!isContainer(next)) {
+      throw new Error(`Path not found: ${operation.path}`);
+    }
+    parent = next;
+  }
+
+  if (Array.isArray(parent)) {
+    if (operation.op === 'add') {
+      if (last === '-') {
+        parent.push(operation.value);
+        return;
+      }
+      if (!(/^\d+$/).test(last) || Number(last) > parent.length) {
+        throw new Error(`Cannot add at ${operation.path}; use an index or "-"`);
+      }
+      parent.splice(Number(last), 0, operation.value);
+      return;
+    }
+
+    const index = arrayIndex(parent, last);
+    if (index === -1) {
+      throw new Error(`Path not found: ${operation.path}`);
+    }
+    if (operation.op === 'remove') {
+      parent.splice(index, 1);
+    } else {
+      parent[index] = operation.value;
+    }
+    return;
+  }
+
+  if (operation.op !== 'add' && !hasOwn(parent, last)) {
+    throw new Error(`Path not found: ${operation.path}`);
+  }
+  if (operation.op === 'remove') {
+    delete parent[last];
+  } else {
+    parent[last] = operation.value;
+  }
+}
+
+/**
+ * Apply operations in order to a copy of `data`. Operations whose target no
+ * longer exists are skipped and reported in `rejected`.
+ */
+export function applyOverlay<T>(
+  data: T,
+  operations: VisualizationPatchOperation[],
+): OverlayResult<T> {
+  const result: OverlayResult<T> = { data: structuredClone(data), applied: [], rejected: [] };
+
+  for (const operation of operations) {
+    try {
+      applyOperation(result.data, operation);
+      result.applied.push(operation);
+    } catch (error) {
+      result.rejected.push({
+        operation,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+const ARGUMENT_TYPES = ['claim', 'argument', 'evidence', 'counterargument', 'rebuttal', 'alternative'];
+const ARGUMENT_POLARITIES = ['support', 'attack', 'neutral'];
+const ARGUMENT_EDGE_TYPES = ['supports', 'attacks', 'rebuts', 'is-alternative-to', 'depends-on'];
+const CLASS_TYPES = ['class', 'interface', 'abstract', 'enum'];
+const UML_RELATIONSHIP_TYPES = [
+  'inheritance',
+  'realization',
+  'composition',
+  'aggregation',
+  'association',
+  'dependency',
+];
+
+const RACI_LETTERS = ['R', 'A', 'C', 'I'];
+
+// Fields of a data object; anything that is not one reads as empty
+type Fields = Record<string, unknown>;
+
+const fields = (value: unknown): Fields =>
+  (isContainer(value) && !Array.isArray(value) ? value : {});
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+const oneOf = (allowed: string[], value: unknown) =>
+  typeof value === 'string' && allowed.includes(value);
+
+const isUnitInterval = (value: unknown) =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+/**
+ * Nodes need unique ids and non-empty labels; edges must connect existing nodes
+ */
+function checkGraph(
+  nodes: unknown,
+  edges: unknown,
+  nodeLabel: string,
+  checkNode: (node: Fields, where: string) => string[],
+  checkEdge: (edge: Fields, where: string) => string[],
+): string[] {
+  if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+    return ['Visualization must have node and edge arrays'];
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  nodes.forEach((value, index) => {
+    const node = fields(value);
+    const where = `${nodeLabel} ${node.id ?? index}`;
+    if (!isText(node.id)) {
+      errors.push(`${nodeLabel} ${index} needs an id`);
+    } else if (ids.has(node.id)) {
+      errors.push(`Duplicate ${nodeLabel} id ${node.id}`);
+    } else {
+      ids.add(node.id);
+    }
+    errors.push(...checkNode(node, where));
+  });
+
+  const isNode = (id: unknown) => typeof id === 'string' && ids.has(id);
+  edges.forEach((value, index) => {
+    const edge = fields(value);
+    const where = `Edge ${edge.id ?? index}`;
+    if (!isText(edge.id)) {
+      errors.push(`Edge ${index} needs an id`);
+    }
+    if (!isNode(edge.source) || !isNode(edge.target)) {
+      errors.push(`${where} must connect existing ${nodeLabel}s`);
+    }
+    errors.push(...checkEdge(edge, where));
+  });
+
+  return errors;
+}
+
+function checkMindMapNode(value: unknown, ids: Set<string>, errors: string[]): void {
+  if (!isContainer(value) || Array.isArray(value)) {
+    errors.push('Mind map nodes must be objects');
+    return;
+  }
+  const node = value;
+  if (!isText(node.id)) {
+    errors.push('Every mind map node needs an id');
+  } else if (ids.has(node.id)) {
+    errors.push(`Duplicate mind map node id ${node.id}`);
+  } else {
+    ids.add(node.id);
+  }
+  if (!isText(node.label)) {
+    errors.push(`Mind map node ${node.id} needs a label`);
+  }
+  if (!Array.isArray(node.children)) {
+    errors.push(`Mind map node ${node.id} needs a children array`);
+    return;
+  }
+  node.children.forEach((child) => checkMindMapNode(child, ids, errors));
+}
+
+/**
+ * Check edited data still matches the shared type for the visualization
+ */
+export function validateVisualizationData(type: string, data: unknown): string[] {
+  const record = fields(data);
+
+  switch (type) {
+    case 'mind-map': {
+      const errors: string[] = [];
+      checkMindMapNode(record.root, new Set(), errors);
+      return errors;
+    }
+
+    case 'argument-map':
+      return checkGraph(
+        record.nodes,
+        record.edges,
+        'node',
+        (node, where) => [
+          ...(isText(node.label) ? [] : [`${where} needs a label`]),
+          ...(oneOf(ARGUMENT_TYPES, node.type) ? [] : [`${where} has an unknown type`]),
+          ...(oneOf(ARGUMENT_POLARITIES, node.polarity) ? [] : [`${where} has an unknown polarity`]),
+        ],
+        (edge, where) => [
+          ...(oneOf(ARGUMENT_EDGE_TYPES, edge.type) ? [] : [`${where} has an unknown type`]),
+          ...(isUnitInterval(edge.strength) ? [] : [`${where} needs a strength between 0 and 1`]),
+        ],
+      );
+
+    case 'knowledge-graph':
+      return checkGraph(
+        record.nodes,
+        record.edges,
+        'node',
+        (node, where) => [
+          ...(isText(node.label) ? [] : [`${where} needs a label`]),
+          ...(isText(node.type) ? [] : [`${where} needs a type`]),
+        ],
+        (edge, where) => (isText(edge.type) ? [] : [`${where} needs a type`]),
+      );
+
+    case 'uml-class-diagram':
+      return checkGraph(
+        record.classes,
+        record.relationships,
+        'class',
+        (entity, where) => [
+          ...(isText(entity.name) ? [] : [`${where} needs a name`]),
+          ...(oneOf(CLASS_TYPES, entity.type) ? [] : [`${where} has an unknown type`]),
+          ...(Array.isArray(entity.attributes) && Array.isArray(entity.methods)
+            ? []
+            : [`${where} needs attribute and method arrays`]),
+        ],
+        (relationship, where) =>
+          (oneOf(UML_RELATIONSHIP_TYPES, relationship.type) ? [] : [`${where} has an unknown type`]),
+      );
+
+    case 'raci-matrix': {
+      const { roles, activities, assignments } = record;
+      if (!Array.isArray(roles) || !Array.isArray(activities) || !Array.isArray(assignments)) {
+        return ['RACI matrix must have role, activity and assignment arrays'];
+      }
+      const roleIds = new Set(roles.map((role) => fields(role).id));
+      const activityIds = new Set(activities.map((activity) => fields(activity).id));
+      const errors: string[] = [];
+      const cells = new Set<string>();
+      assignments.forEach((value, index) => {
+        const assignment = fields(value);
+        const where = `Assignment ${assignment.id ?? index}`;
+        if (!roleIds.has(assignment.roleId) || !activityIds.has(assignment.activityId)) {
+          errors.push(`${where} must reference an existing role and activity`);
+        }
+        const cell = `${assignment.activityId}:${assignment.roleId}`;
+        if (cells.has(cell)) {
+          errors.push(`Duplicate assignment for ${cell}`);
+        }
+        cells.add(cell);
+        const { responsibilities } = assignment;
+        if (!Array.isArray(responsibilities)
+          || !responsibilities.every((letter) => oneOf(RACI_LETTERS, letter))) {
+          errors.push(`${where} may only hold R, A, C and I`);
+        }
+      });
+      return errors;
+    }
+
+    case 'priority-matrix': {
+      const { items, quadrants } = record;
+      if (!Array.isArray(items) || !Array.isArray(quadrants)) {
+        return ['Priority matrix must have item and quadrant arrays'];
+      }
+      const quadrantIds = quadrants.map((quadrant) => fields(quadrant).id);
+      const errors: string[] = [];
+      const ids = new Set<string>();
+      items.forEach((value, index) => {
+        const item = fields(value);
+        const where = `Item ${item.id ?? index}`;
+        if (!isText(item.id)) {
+          errors.push(`Item ${index} needs an id`);
+        } else if (ids.has(item.id)) {
+          errors.push(`Duplicate item id ${item.id}`);
+        } else {
+          ids.add(item.id);
+        }
+        if (!isText(item.label)) errors.push(`${where} needs a label`);
+        if (![item.x, item.y].every(isUnitInterval)) {
+          errors.push(`${where} needs x and y between 0 and 1`);
+        }
+        if (!quadrantIds.includes(item.quadrant)) errors.push(`${where} has an unknown quadrant`);
+      });
+      return errors;
+    }
+
+    default:
+      return [`Visualization type ${type} is not editable`];
+  }
+}
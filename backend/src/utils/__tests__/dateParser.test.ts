@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  buildDateAnchors,
+  findDateExpressions,
+  parseDate,
+  resolveDate,
+} from '../dateParser.js';
+
+const iso = (date?: Date) => date?.toISOString().substring(0, 10);
+
+describe('resolveDate', () => {
+  it('parses absolute dates at day precision', () => {
+    expect(iso(resolveDate('2024-03-01')?.date)).toBe('2024-03-01');
+    expect(iso(resolveDate('March 1, 2024')?.date)).toBe('2024-03-01');
+    expect(iso(resolveDate('1st of March 2024')?.date)).toBe('2024-03-01');
+    expect(iso(resolveDate('03/01/2024')?.date)).toBe('2024-03-01');
+    expect(iso(resolveDate('Monday, March 4th 2024')?.date)).toBe('2024-03-04');
+    expect(resolveDate('March 1, 2024')?.precision).toBe('day');
+  });
+
+  it('parses months, quarters and years as periods', () => {
+    const month = resolveDate('March 2024')!;
+    expect(iso(month.date)).toBe('2024-03-01');
+    expect(iso(month.endDate)).toBe('2024-03-31');
+    expect(month.precision).toBe('month');
+
+    const q3 = resolveDate('Q3 2024')!;
+    expect(iso(q3.date)).toBe('2024-07-01');
+    expect(iso(q3.endDate)).toBe('2024-09-30');
+    expect(q3.precision).toBe('quarter');
+
+    expect(iso(resolveDate("Q1 '25")?.date)).toBe('2025-01-01');
+    expect(iso(resolveDate('second half of 2025')?.date)).toBe('2025-07-01');
+    expect(iso(resolveDate('2023')?.endDate)).toBe('2023-12-31');
+  });
+
+  it('parses fuzzy expressions', () => {
+    expect(iso(resolveDate('mid-2023')?.date)).toBe('2023-05-01');
+    expect(iso(resolveDate('late 2024')?.date)).toBe('2024-09-01');
+    expect(iso(resolveDate('end of 2024')?.date)).toBe('2024-12-31');
+    expect(iso(resolveDate('summer 2024')?.date)).toBe('2024-06-01');
+    expect(iso(resolveDate('in early 2025')?.date)).toBe('2025-01-01');
+  });
+
+  it('resolves offsets from named events through anchors', () => {
+    const anchors = [
+      { label: 'The launch is planned for March 1, 2024.', date: new Date('2024-03-01'), precision: 'day' as const },
+    ];
+
+    const after = resolveDate('two weeks after launch', { anchors })!;
+    expect(iso(after.date)).toBe('2024-03-15');
+    expect(after.relative).toBe(true);
+
+    expect(iso(resolveDate('3 days before the launch', { anchors })?.date)).toBe('2024-02-27');
+    expect(iso(resolveDate('shortly after launch', { anchors })?.date)).toBe('2024-03-01');
+    expect(iso(resolveDate('a month after March 1, 2024')?.date)).toBe('2024-04-01');
+    expect(resolveDate('two weeks after the audit', { anchors })).toBeNull();
+  });
+
+  it('resolves expressions relative to the reference date', () => {
+    const referenceDate = new Date('2024-05-15');
+
+    expect(iso(resolveDate('two weeks later', { referenceDate })?.date)).toBe('2024-05-29');
+    expect(iso(resolveDate('in three days', { referenceDate })?.date)).toBe('2024-05-18');
+
+    const nextQuarter = resolveDate('next quarter', { referenceDate })!;
+    expect(iso(nextQuarter.date)).toBe('2024-07-01');
+    expect(iso(nextQuarter.endDate)).toBe('2024-09-30');
+
+    expect(iso(resolveDate('the following year', { referenceDate })?.date)).toBe('2025-01-01');
+    expect(resolveDate('two weeks later')).toBeNull();
+  });
+
+  it('returns null for text that is not a date', () => {
+    expect(resolveDate('the project team')).toBeNull();
+    expect(resolveDate('')).toBeNull();
+    expect(resolveDate('February 31, 2024')).toBeNull();
+  });
+});
+
+describe('parseDate', () => {
+  it('keeps falling back to the current date for unparseable input', () => {
+    expect(iso(parseDate('January 2024'))).toBe('2024-01-01');
+    const before = Date.now();
+    expect(parseDate('not a date').getTime()).toBeGreaterThanOrEqual(before);
+  });
+});
+
+describe('findDateExpressions', () => {
+  it('finds the longest date expression at each position with its offsets', () => {
+    const text = 'Kickoff on March 5, 2024. Beta in Q3 2024, GA by 2025.';
+    const expressions = findDateExpressions(text);
+
+    expect(expressions.map((e) => e.text)).toEqual(['March 5, 2024', 'Q3 2024', '2025']);
+    expressions.forEach((e) => {
+      expect(text.substring(e.start, e.end)).toBe(e.text);
+    });
+  });
+
+  it('builds sentence anchors for relative dates', () => {
+    const text = 'The launch is planned for March 1, 2024. Training starts two weeks after launch.';
+    const anchors = buildDateAnchors(text, findDateExpressions(text));
+
+    expect(anchors).toHaveLength(1);
+    expect(anchors[0].label).toBe('The launch is planned for March 1, 2024.');
+    expect(iso(resolveDate('two weeks after launch', { anchors })?.date)).toBe('2024-03-15');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+
+import { decodeEntities, htmlToText } from '../htmlToText.js';
+
+describe('htmlToText', () => {
+  it('turns headings into markdown headings at their real level', () => {
+    const text = htmlToText(
+      '<h1>Product Spec</h1><p>Intro.</p><h3 class="x">Edge <em>cases</em></h3><p>Details.</p>',
+    );
+
+    expect(text).toBe('# Product Spec\n\nIntro.\n\n### Edge cases\n\nDetails.');
+  });
+
+  it('caps heading depth at five levels', () => {
+    expect(htmlToText('<h6>Deep</h6>')).toBe('##### Deep');
+  });
+
+  it('drops scripts, styles, navigation and the head', () => {
+    const text = htmlToText(`
+      <html><head><title>Page</title><style>p { color: red }</style></head>
+      <body><nav><a href="/">Home</a></nav><script>alert(1)</script><p>Body text</p></body></html>
+    `);
+
+    expect(text).toBe('Body text');
+  });
+
+  it('keeps only the article of a saved web page', () => {
+    const text = htmlToText(
+      '<header>Site name</header><article><h2>Post</h2><p>Content</p></article><footer>Links</footer>',
+    );
+
+    expect(text).toBe('## Post\n\nContent');
+  });
+
+  it('renders list items and line breaks', () => {
+    const text = htmlToText('<ul><li>One</li><li><p>Two</p></li></ul><p>a<br>b</p>');
+
+    expect(text).toBe('- One\n- Two\n\na\nb');
+  });
+
+  it('decodes named and numeric entities', () => {
+    expect(decodeEntities('R&amp;D &lt;b&gt; &#8212; &#x2019; &unknown;')).toBe('R&D <b> — ’ &unknown;');
+  });
+
+  it('replaces numeric entities past the last code point instead of throwing', () => {
+    expect(decodeEntities('a&#x110000;b&#99999999999;c')).toBe('a\ufffdb\ufffdc');
+    expect(htmlToText('<p>Broken &#x110000; entity</p>')).toBe('Broken \ufffd entity');
+  });
+});
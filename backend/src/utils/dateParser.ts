@@ -2,6 +2,77 @@
  * Utility to parse various date formats into Date objects.
  */
 
+import type { DatePrecision, TextSpan } from '../../../shared/src/types.js';
+
+/**
+ * A date expression resolved to a point or period in time. Periods ("Q3 2024",
+ * "March 2024") start at `date` and end at `endDate`.
+ */
+export interface ResolvedDate {
+  date: Date;
+  endDate?: Date;
+  precision: DatePrecision;
+  relative: boolean;
+}
+
+/**
+ * A dated event in the document that relative expressions can refer to, e.g.
+ * "The launch is planned for March 1, 2024." for "two weeks after launch".
+ */
+export interface DateAnchor {
+  label: string;
+  date: Date;
+  precision: DatePrecision;
+}
+
+export interface DateContext {
+  /** Date that "two weeks later" or "next quarter" is relative to */
+  referenceDate?: Date;
+  anchors?: DateAnchor[];
+}
+
+export interface DateExpression extends TextSpan {
+  resolved: ResolvedDate;
+}
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?'
+  + '|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+
+const ORDINAL_SUFFIX = '(?:st|nd|rd|th)?';
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, couple: 2, few: 3,
+};
+
+const ORDINAL_WORDS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4 };
+
+const PRECISION_RANK: DatePrecision[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+// Expressions recognized when scanning free text, longest forms first so that
+// "March 5, 2024" is not picked up as "March 2024" or "2024"
+const SCAN_PATTERN = new RegExp(
+  [
+    '\\b\\d{4}-\\d{1,2}-\\d{1,2}\\b',
+    '\\b\\d{1,2}/\\d{1,2}/\\d{4}\\b',
+    `\\b${MONTH_PATTERN} \\d{1,2}${ORDINAL_SUFFIX},? \\d{4}\\b`,
+    `\\b\\d{1,2}${ORDINAL_SUFFIX} (?:of )?${MONTH_PATTERN},? \\d{4}\\b`,
+    `\\b${MONTH_PATTERN},? \\d{4}\\b`,
+    '\\bQ[1-4],? (?:FY ?)?(?:\\d{4}|\'?\\d{2})\\b',
+    '\\bH[12],? (?:FY ?)?\\d{4}\\b',
+    '\\b(?:first|second|third|fourth) (?:quarter|half) of \\d{4}\\b',
+    '\\b(?:early|mid-?|late|end of|beginning of|start of) ?\\d{4}\\b',
+    '\\b(?:spring|summer|fall|autumn|winter) (?:of )?\\d{4}\\b',
+    '\\b(?:FY ?)?(?:19|20)\\d{2}\\b',
+  ].join('|'),
+  'gi',
+);
+
 /**
  * Attempts to parse a date string into a Date object.
  * Handles common formats like "2023", "January 2024", "2023-12-01", etc.
@@ -10,33 +81,384 @@
  */
 export function parseDate(dateStr: string): Date {
   if (!dateStr) return new Date();
+  return resolveDate(dateStr)?.date || new Date();
+}
+
+/**
+ * Resolve an absolute, fuzzy or relative date expression.
+ *
+ * Absolute: "2024-03-01", "March 1, 2024", "March 2024", "2024".
+ * Fuzzy: "Q3 2024", "H1 2025", "mid-2023", "late 2024", "summer 2024".
+ * Relative: "two weeks after launch", "3 months before the audit", "a month later",
+ * "next quarter". These need `context`: anchors for named events and a reference
+ * date for everything else.
+ *
+ * @returns The resolved date, or null when the expression cannot be placed in time
+ */
+export function resolveDate(text: string, context: DateContext = {}): ResolvedDate | null {
+  const normalized = normalize(text);
+  if (!normalized) return null;
+
+  return parseAbsolute(normalized)
+    || parseRelative(normalized, context)
+    || parseLoose(normalized);
+}
+
+/**
+ * Find every absolute or fuzzy date expression in a text, in order of appearance.
+ */
+export function findDateExpressions(text: string): DateExpression[] {
+  const expressions: DateExpression[] = [];
 
-  // Try standard parsing first
-  const parsed = new Date(dateStr);
-  if (!isNaN(parsed.getTime())) {
-    return parsed;
+  for (const match of text.matchAll(SCAN_PATTERN)) {
+    const resolved = parseAbsolute(normalize(match[0]));
+    if (!resolved) continue;
+
+    expressions.push({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      text: match[0],
+      resolved,
+    });
   }
 
-  // Handle year-only (e.g., "2023")
-  const yearMatch = dateStr.match(/^(\d{4})$/);
-  if (yearMatch) {
-    return new Date(parseInt(yearMatch[1]), 0, 1);
+  return expressions;
+}
+
+/**
+ * Use each sentence that contains an absolute date as an anchor, so that "after
+ * launch" can be resolved through "The launch is planned for March 1, 2024."
+ */
+export function buildDateAnchors(text: string, expressions: DateExpression[]): DateAnchor[] {
+  return expressions.map((expression) => ({
+    label: sentenceAround(text, expression.start, expression.end),
+    date: expression.resolved.date,
+    precision: expression.resolved.precision,
+  }));
+}
+
+/**
+ * The sentence (or line) containing the given range.
+ */
+export function sentenceAround(text: string, start: number, end: number): string {
+  const before = text.substring(0, start);
+  const sentenceStart = Math.max(
+    before.lastIndexOf('. '),
+    before.lastIndexOf('! '),
+    before.lastIndexOf('? '),
+    before.lastIndexOf('\n'),
+  ) + 1;
+
+  const after = text.substring(end);
+  const ends = [after.search(/[.!?](\s|$)/), after.indexOf('\n')].filter((i) => i !== -1);
+  const sentenceEnd = ends.length > 0 ? end + Math.min(...ends) + 1 : text.length;
+
+  return text.substring(sentenceStart, sentenceEnd).trim();
+}
+
+function normalize(text: string): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[–—]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[.,;:]+$/, '')
+    .replace(/^(?:on|in|by|during|around|circa|approximately|approx\.?|about|until|from)\s+/, '')
+    .replace(/^the\s+/, '');
+}
+
+function utc(year: number, month = 0, day = 1): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function monthIndex(name: string): number {
+  const prefix = name.replace('.', '').substring(0, 3);
+  return MONTHS.findIndex((month) => month.startsWith(prefix));
+}
+
+function expandYear(year: string): number {
+  const digits = year.replace(/^'/, '');
+  return digits.length === 2 ? 2000 + parseInt(digits, 10) : parseInt(digits, 10);
+}
+
+function period(start: Date, endExclusive: Date, precision: DatePrecision): ResolvedDate {
+  return {
+    date: start,
+    endDate: new Date(endExclusive.getTime() - 24 * 60 * 60 * 1000),
+    precision,
+    relative: false,
+  };
+}
+
+function day(year: number, month: number, date: number): ResolvedDate | null {
+  const result = utc(year, month, date);
+  // Reject overflowing dates such as February 31st
+  if (result.getUTCMonth() !== month || month < 0) return null;
+  return { date: result, precision: 'day', relative: false };
+}
+
+function quarter(year: number, q: number): ResolvedDate {
+  return period(utc(year, (q - 1) * 3), utc(year, q * 3), 'quarter');
+}
+
+function parseAbsolute(text: string): ResolvedDate | null {
+  let match: RegExpMatchArray | null;
+
+  // 2024-03-01, 2024/03/01
+  if ((match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:t[\d:.]+z?)?$/))) {
+    return day(+match[1], +match[2] - 1, +match[3]);
   }
 
-  // Handle Month Year (e.g., "January 2023")
-  const monthYearMatch = dateStr.match(/^(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{4})$/i);
-  if (monthYearMatch) {
-    const month = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december']
-      .indexOf(monthYearMatch[1].toLowerCase());
-    return new Date(parseInt(monthYearMatch[2]), month, 1);
+  // 03/01/2024 (US order unless the first number cannot be a month)
+  if ((match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/))) {
+    const [first, second] = [+match[1], +match[2]];
+    return first > 12
+      ? day(+match[3], second - 1, first)
+      : day(+match[3], first - 1, second);
   }
 
-  // Handle relative descriptions (e.g., "mid-2023")
-  if (dateStr.toLowerCase().includes('mid-')) {
-    const year = dateStr.match(/\d{4}/);
-    if (year) return new Date(parseInt(year[0]), 5, 15); // June 15th
+  // March 1, 2024
+  if ((match = text.match(new RegExp(`^${MONTH_PATTERN} (\\d{1,2})${ORDINAL_SUFFIX},? (\\d{4})$`)))) {
+    return day(+match[3], monthIndex(match[1]), +match[2]);
+  }
+
+  // 1 March 2024, 1st of March 2024
+  if ((match = text.match(new RegExp(`^(\\d{1,2})${ORDINAL_SUFFIX} (?:of )?${MONTH_PATTERN},? (\\d{4})$`)))) {
+    return day(+match[3], monthIndex(match[2]), +match[1]);
+  }
+
+  // March 2024
+  if ((match = text.match(new RegExp(`^${MONTH_PATTERN},? (\\d{4})$`)))) {
+    const month = monthIndex(match[1]);
+    return period(utc(+match[2], month), utc(+match[2], month + 1), 'month');
+  }
+
+  // Q3 2024, Q3 FY2024, Q3 '24, 2024 Q3
+  if ((match = text.match(/^q([1-4]),? (?:fy ?)?('?\d{2}|\d{4})$/))) {
+    return quarter(expandYear(match[2]), +match[1]);
+  }
+  if ((match = text.match(/^(?:fy ?)?(\d{4}) q([1-4])$/))) {
+    return quarter(+match[1], +match[2]);
+  }
+  if ((match = text.match(/^(first|second|third|fourth) quarter (?:of )?(\d{4})$/))) {
+    return quarter(+match[2], ORDINAL_WORDS[match[1]]);
+  }
+
+  // H1 2025, first half of 2025
+  if ((match = text.match(/^h([12]),? (?:fy ?)?(\d{4})$/))) {
+    const start = (+match[1] - 1) * 6;
+    return period(utc(+match[2], start), utc(+match[2], start + 6), 'quarter');
+  }
+  if ((match = text.match(/^(first|second) half (?:of )?(\d{4})$/))) {
+    const start = (ORDINAL_WORDS[match[1]] - 1) * 6;
+    return period(utc(+match[2], start), utc(+match[2], start + 6), 'quarter');
+  }
+
+  // early 2024, mid-2023, late 2024, end of 2024
+  if ((match = text.match(/^(early|mid-?|late|end of|beginning of|start of) ?(\d{4})$/))) {
+    const year = +match[2];
+    switch (match[1]) {
+      case 'early':
+        return period(utc(year, 0), utc(year, 4), 'quarter');
+      case 'mid':
+      case 'mid-':
+        return period(utc(year, 4), utc(year, 8), 'quarter');
+      case 'late':
+        return period(utc(year, 8), utc(year + 1, 0), 'quarter');
+      case 'end of':
+        return { date: utc(year, 11, 31), precision: 'month', relative: false };
+      default:
+        return { date: utc(year, 0, 1), precision: 'month', relative: false };
+    }
+  }
+
+  // summer 2024 (northern hemisphere seasons)
+  if ((match = text.match(/^(spring|summer|fall|autumn|winter) (?:of )?(\d{4})$/))) {
+    const startMonth = { spring: 2, summer: 5, fall: 8, autumn: 8, winter: 11 }[match[1]]!;
+    const year = +match[2];
+    return period(utc(year, startMonth), utc(year, startMonth + 3), 'quarter');
+  }
+
+  // 2024, FY2024
+  if ((match = text.match(/^(?:fy ?)?(1[5-9]\d{2}|2\d{3})$/))) {
+    return period(utc(+match[1]), utc(+match[1] + 1), 'year');
+  }
+
+  return null;
+}
+
+/**
+ * Last resort for formats like "Monday, March 4 2024": hand the text to the Date
+ * constructor, but only when it consists of date words alone. V8 happily parses
+ * "two weeks after March 1, 2024" as March 1.
+ */
+function parseLoose(text: string): ResolvedDate | null {
+  if (!(/\b\d{4}\b/).test(text)) return null;
+
+  const leftover = text
+    .replace(new RegExp(`\\b${MONTH_PATTERN}`, 'g'), '')
+    .replace(/\b(?:mon|tues?|wed(?:nes)?|thu(?:rs)?|fri|sat(?:ur)?|sun)(?:day)?\b/g, '')
+    .replace(/\b(?:of|at|the)\b/g, '')
+    .replace(/(\d)(?:st|nd|rd|th)\b/g, '$1')
+    .replace(/[\d\s,./:-]+/g, '');
+  if (leftover) return null;
+
+  const parsed = new Date(text.replace(/(\d)(?:st|nd|rd|th)\b/g, '$1'));
+  if (isNaN(parsed.getTime())) return null;
+
+  // The Date constructor rolls "February 31" over into March; reject that
+  const numbers = (text.match(/\d+/g) || []).map(Number);
+  if (!numbers.includes(parsed.getDate())) return null;
+
+  return {
+    date: utc(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()),
+    precision: 'day',
+    relative: false,
+  };
+}
+
+function parseRelative(text: string, context: DateContext): ResolvedDate | null {
+  const count = '(\\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve'
+    + '|(?:a )?couple(?: of)?|(?:a )?few)';
+  const unit = '(day|week|month|quarter|year)s?';
+  let match: RegExpMatchArray | null;
+
+  // two weeks after launch, 3 months before the audit
+  match = text.match(new RegExp(
+    `^${count} ${unit} (after|before|from|following|prior to|ahead of) (.+)$`,
+  ));
+  const afterAnchor = match && resolveAnchor(match[4], context);
+  if (match && afterAnchor) {
+    const direction = ['before', 'prior to', 'ahead of'].includes(match[3]) ? -1 : 1;
+    return offset(afterAnchor, parseCount(match[1]) * direction, match[2] as DatePrecision);
+  }
+
+  // the day after launch, the week before the audit
+  match = text.match(/^(day|week|month|quarter|year) (after|before|following) (.+)$/);
+  const unitAnchor = match && resolveAnchor(match[3], context);
+  if (match && unitAnchor) {
+    return offset(unitAnchor, match[2] === 'before' ? -1 : 1, match[1] as DatePrecision);
+  }
+
+  // shortly after launch, before the audit
+  match = text.match(/^(?:shortly |right |just |immediately )?(after|before|following) (.+)$/);
+  const eventAnchor = match && resolveAnchor(match[2], context);
+  if (eventAnchor) {
+    return { ...eventAnchor, relative: true };
+  }
+
+  if (!context.referenceDate) return null;
+  const reference: ResolvedDate = {
+    date: context.referenceDate,
+    precision: 'day',
+    relative: true,
+  };
+
+  // two weeks later, a month earlier, in three days
+  match = text.match(new RegExp(`^${count} ${unit} (later|after that|afterwards|earlier|before that|prior)$`));
+  if (match) {
+    const direction = ['earlier', 'before that', 'prior'].includes(match[3]) ? -1 : 1;
+    return offset(reference, parseCount(match[1]) * direction, match[2] as DatePrecision);
+  }
+  match = text.match(new RegExp(`^(?:within )?${count} ${unit}$`));
+  if (match) {
+    return offset(reference, parseCount(match[1]), match[2] as DatePrecision);
+  }
+
+  // next quarter, the following year, last month, this year
+  match = text.match(/^(next|following|previous|last|prior|this|same|current) (week|month|quarter|year)$/);
+  if (match) {
+    const step = { next: 1, following: 1, previous: -1, last: -1, prior: -1 }[match[1]] ?? 0;
+    return calendarPeriod(context.referenceDate, match[2] as DatePrecision, step);
+  }
+
+  return null;
+}
+
+function parseCount(word: string): number {
+  const cleaned = word.replace(/^a /, '').replace(/ of$/, '');
+  return NUMBER_WORDS[cleaned] ?? (parseInt(cleaned, 10) || 1);
+}
+
+/**
+ * Resolve the event a relative expression refers to: either a date written out
+ * ("two weeks after March 1, 2024") or a dated sentence mentioning the event.
+ */
+function resolveAnchor(phrase: string, context: DateContext): ResolvedDate | null {
+  const absolute = parseAbsolute(normalize(phrase));
+  if (absolute) return absolute;
+
+  const words = normalize(phrase)
+    .replace(/'s\b/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 2 && !['the', 'our', 'its', 'their', 'this', 'that'].includes(word));
+  if (words.length === 0) return null;
+
+  const anchor = (context.anchors || []).find((candidate) => {
+    const label = candidate.label.toLowerCase();
+    return words.every((word) => new RegExp(`\\b${word}`).test(label));
+  });
+
+  return anchor
+    ? { date: anchor.date, precision: anchor.precision, relative: false }
+    : null;
+}
+
+function offset(base: ResolvedDate, amount: number, unit: DatePrecision): ResolvedDate {
+  const date = new Date(base.date.getTime());
+  switch (unit) {
+    case 'day':
+      date.setUTCDate(date.getUTCDate() + amount);
+      break;
+    case 'week':
+      date.setUTCDate(date.getUTCDate() + amount * 7);
+      break;
+    case 'month':
+      date.setUTCMonth(date.getUTCMonth() + amount);
+      break;
+    case 'quarter':
+      date.setUTCMonth(date.getUTCMonth() + amount * 3);
+      break;
+    case 'year':
+      date.setUTCFullYear(date.getUTCFullYear() + amount);
+      break;
+  }
+
+  // A result is never more precise than the date it was computed from
+  const precision = PRECISION_RANK[
+    Math.max(PRECISION_RANK.indexOf(unit), PRECISION_RANK.indexOf(base.precision))
+  ];
+  return { date, precision, relative: true };
+}
+
+function calendarPeriod(reference: Date, unit: DatePrecision, step: number): ResolvedDate {
+  const year = reference.getUTCFullYear();
+  const month = reference.getUTCMonth();
+  let start: Date;
+  let end: Date;
+
+  switch (unit) {
+    case 'year':
+      start = utc(year + step);
+      end = utc(year + step + 1);
+      break;
+    case 'quarter': {
+      const first = Math.floor(month / 3) * 3 + step * 3;
+      start = utc(year, first);
+      end = utc(year, first + 3);
+      break;
+    }
+    case 'month':
+      start = utc(year, month + step);
+      end = utc(year, month + step + 1);
+      break;
+    default: {
+      // Weeks start on Monday
+      const weekday = (reference.getUTCDay() + 6) % 7;
+      start = utc(year, month, reference.getUTCDate() - weekday + step * 7);
+      end = utc(year, month, reference.getUTCDate() - weekday + step * 7 + 7);
+    }
   }
 
-  // Fallback to current date
-  return new Date();
+  return { ...period(start, end, unit), relative: true };
 }
@@ -0,0 +1,86 @@
+/**
+ * Convert HTML (saved web pages, mammoth's DOCX output, EPUB chapters) to plain text.
+ *
+ * Headings become markdown-style `#` lines at their real level so that
+ * DocumentParser.detectStructure sees the document's own outline. Everything
+ * else is reduced to paragraphs and "- " list items.
+ */
+
+const MAX_HEADING_LEVEL = 5; // detectStructure recognises up to #####
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00A0',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+  pound: '£',
+};
+
+// Elements whose content is never document text
+const DROPPED_ELEMENTS = ['head', 'script', 'style', 'noscript', 'template', 'svg', 'nav'];
+
+const BLOCK_ELEMENTS = 'p|div|section|article|main|header|footer|aside|blockquote|pre|table|tr|ul|ol|dl|dt|dd|figure|figcaption|hr';
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.substring(2), 16)
+        : parseInt(entity.substring(1), 10);
+      if (Number.isNaN(code)) return match;
+      // Past the last Unicode code point fromCodePoint throws; browsers show U+FFFD
+      return code > 0x10ffff ? '\ufffd' : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const inlineText = (html: string): string =>
+  decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+export function htmlToText(html: string): string {
+  let body = html.replace(/<!--[\s\S]*?-->/g, '');
+  DROPPED_ELEMENTS.forEach((tag) => {
+    body = body.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}>`, 'gi'), '');
+  });
+
+  // Saved web pages: keep the article and skip the site chrome around it
+  const main = body.match(/<(article|main)\b[^>]*>([\s\S]*)<\/\1>/i);
+  if (main) {
+    body = main[2];
+  }
+
+  const text = body
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, content: string) => {
+      const title = inlineText(content);
+      if (!title) return '\n';
+      return `\n\n${'#'.repeat(Math.min(Number(level), MAX_HEADING_LEVEL))} ${title}\n\n`;
+    })
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(?:td|th)\b[^>]*>/gi, ' ')
+    .replace(new RegExp(`</?(?:${BLOCK_ELEMENTS})\\b[^>]*>`, 'gi'), '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00A0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/^-\n+(?=\S)/gm, '- ') // <li><p>text</p></li>
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -208,7 +208,7 @@ export default [
     },
   },
   {
-    files: ['test/mocks/openRouterMock.ts'],
+    files: ['test/mocks/openRouterMock.ts', 'test/mocks/fakeLLMClient.ts'],
     rules: {
       'import/namespace': 'off',
       'import/named': 'off',
@@ -37,6 +37,7 @@ import ResetPasswordPage from './pages/ResetPasswordPage';
 import VerifyEmailPage from './pages/VerifyEmailPage';
 import ProfilePage from './pages/ProfilePage';
 import DashboardPage from './pages/dashboard/DashboardPage';
+import KnowledgeBasePage from './pages/KnowledgeBasePage';
 import PricingPage from './pages/PricingPage';
 import { UpgradeModal } from './components/billing/UpgradeModal';
 
@@ -194,6 +195,14 @@ export default function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/knowledge-base"
+            element={
+              <ProtectedRoute>
+                <KnowledgeBasePage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/pricing"
             element={
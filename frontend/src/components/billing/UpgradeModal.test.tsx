@@ -0,0 +1,83 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { UpgradeModal } from "./UpgradeModal";
+import { vi, describe, it, expect, beforeEach } from "vitest";
+
+import { apiClient } from "../../services/apiClient";
+
+const mockSetUpgradeModalOpen = vi.fn();
+let currentOffer: any = null;
+
+vi.mock("../../stores/userStore", () => ({
+  useUserStore: () => ({
+    isUpgradeModalOpen: true,
+    setUpgradeModalOpen: mockSetUpgradeModalOpen,
+    upgradeOffer: currentOffer,
+  }),
+}));
+
+vi.mock("../../services/apiClient", () => ({
+  apiClient: {
+    createCheckoutSession: vi.fn().mockResolvedValue({ url: "" }),
+  },
+}));
+
+const teamPlan = {
+  id: "team",
+  name: "Team",
+  priceMonthlyUsd: 99,
+  limits: {
+    dailyAnalyses: 500,
+    maxDocuments: 10000,
+    maxStorageBytes: 100 * 1024 ** 3,
+    maxDocumentBytes: 500 * 1024 ** 2,
+    visualizationTypes: null,
+  },
+};
+
+describe("UpgradeModal", () => {
+  beforeEach(() => {
+    currentOffer = null;
+    vi.clearAllMocks();
+  });
+
+  it("offers Pro when opened without a plan limit", () => {
+    render(<UpgradeModal />);
+
+    expect(screen.getByText("Pro Plan")).toBeInTheDocument();
+    expect(screen.getByText("$29")).toBeInTheDocument();
+  });
+
+  it("explains the limit and offers the plan the server suggested", () => {
+    currentOffer = {
+      error: "Daily analysis limit exceeded",
+      code: "DAILY_LIMIT_EXCEEDED",
+      plan: "pro",
+      upgrade: teamPlan,
+      details: { current: 100, limit: 100, resetAt: "2026-10-20T00:00:00.000Z" },
+    };
+    render(<UpgradeModal />);
+
+    expect(screen.getByText("Upgrade to Team")).toBeInTheDocument();
+    expect(screen.getByText(/You've used 100 of 100 analyses today/)).toBeInTheDocument();
+    expect(screen.getByText("500 analyses per day")).toBeInTheDocument();
+    expect(screen.getByText("100 GB storage")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Upgrade Now"));
+    expect(apiClient.createCheckoutSession).toHaveBeenCalledWith("team");
+  });
+
+  it("sends plans without a list price to sales", () => {
+    currentOffer = {
+      error: "Document exceeds the maximum size for your plan",
+      code: "DOCUMENT_TOO_LARGE",
+      plan: "team",
+      upgrade: { ...teamPlan, id: "enterprise", name: "Enterprise", priceMonthlyUsd: null },
+      details: { current: 600 * 1024 ** 2, limit: 500 * 1024 ** 2 },
+    };
+    render(<UpgradeModal />);
+
+    expect(screen.getByText("Document exceeds the maximum size for your plan.")).toBeInTheDocument();
+    expect(screen.getByText("Contact sales")).toBeInTheDocument();
+    expect(screen.queryByText("Upgrade Now")).not.toBeInTheDocument();
+  });
+});
@@ -6,8 +6,44 @@ import { Modal, Button } from '../primitives';
 import { apiClient } from '../../services/apiClient';
 import { useUserStore } from '../../stores/userStore';
 
+import type { Plan, PlanLimitError } from '../../../../shared/src/types';
+
+const DEFAULT_FEATURES = [
+    'Unlimited documents',
+    'Advanced AI Analysis (GPT-4)',
+    'Unlimited Storage',
+    'Priority Email Support',
+];
+
+const formatBytes = (bytes: number) =>
+    bytes >= 1024 ** 3 ? `${bytes / 1024 ** 3} GB` : `${bytes / 1024 ** 2} MB`;
+
+// What the offered plan allows, line by line
+function planFeatures({ limits }: Plan): string[] {
+    return [
+        limits.dailyAnalyses === null ? 'Unlimited analyses' : `${limits.dailyAnalyses} analyses per day`,
+        limits.maxDocuments === null ? 'Unlimited documents' : `${limits.maxDocuments.toLocaleString()} documents`,
+        limits.maxStorageBytes === null ? 'Unlimited storage' : `${formatBytes(limits.maxStorageBytes)} storage`,
+        limits.maxDocumentBytes === null
+            ? 'Documents of any size'
+            : `Documents up to ${formatBytes(limits.maxDocumentBytes)}`,
+        limits.visualizationTypes === null ? 'Every visualization type' : `${limits.visualizationTypes.length} visualization types`,
+    ];
+}
+
+// Why the modal opened, from the limit the server reported
+function limitReason(offer: PlanLimitError): string {
+    const { current, limit, resetAt } = offer.details;
+    if (offer.code === 'DAILY_LIMIT_EXCEEDED') {
+        const reset = resetAt ? new Date(resetAt).toLocaleString() : 'tomorrow';
+        return `You've used ${current} of ${limit} analyses today. The count resets ${reset}.`;
+    }
+    return `${offer.error}.`;
+}
+
 export function UpgradeModal() {
-    const { isUpgradeModalOpen, setUpgradeModalOpen } = useUserStore();
+    const { isUpgradeModalOpen, setUpgradeModalOpen, upgradeOffer } = useUserStore();
+    const upgrade = upgradeOffer?.upgrade ?? null;
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -15,7 +51,7 @@ export function UpgradeModal() {
         try {
             setLoading(true);
             setError(null);
-            const { url } = await apiClient.createCheckoutSession();
+            const { url } = await apiClient.createCheckoutSession(upgrade?.id);
             if (url) {
                 window.location.href = url;
             } else {
@@ -32,7 +68,7 @@ export function UpgradeModal() {
         <Modal
             isOpen={isUpgradeModalOpen}
             onClose={() => setUpgradeModalOpen(false)}
-            title="Unlock Unlimited Potential"
+            title={upgrade ? `Upgrade to ${upgrade.name}` : 'Unlock Unlimited Potential'}
             size="lg"
         >
             <div className="flex flex-col md:flex-row gap-6">
@@ -44,17 +80,14 @@ export function UpgradeModal() {
                             Why Upgrade?
                         </h3>
                         <p className="text-gray-300 text-sm">
-                            You've hit the limits of the Free plan. Upgrade to Pro to remove all restrictions and unlock advanced features.
+                            {upgradeOffer
+                                ? limitReason(upgradeOffer)
+                                : "You've hit the limits of the Free plan. Upgrade to Pro to remove all restrictions and unlock advanced features."}
                         </p>
                     </div>
 
                     <ul className="space-y-3">
-                        {[
-                            'Unlimited documents',
-                            'Advanced AI Analysis (GPT-4)',
-                            'Unlimited Storage',
-                            'Priority Email Support',
-                        ].map((feature, i) => (
+                        {(upgrade ? planFeatures(upgrade) : DEFAULT_FEATURES).map((feature, i) => (
                             <li key={i} className="flex items-center text-gray-300 text-sm">
                                 <Check className="text-green-400 mr-2 flex-shrink-0" size={16} />
                                 {feature}
@@ -66,10 +99,16 @@ export function UpgradeModal() {
                 {/* Right Side: Action */}
                 <div className="flex-1 flex flex-col justify-center items-center bg-gray-800/50 p-6 rounded-xl border border-gray-700">
                     <div className="text-center mb-6">
-                        <h3 className="text-2xl font-bold text-white">Pro Plan</h3>
+                        <h3 className="text-2xl font-bold text-white">{upgrade?.name || 'Pro'} Plan</h3>
                         <div className="flex items-baseline justify-center mt-2">
-                            <span className="text-4xl font-bold text-blue-400">$29</span>
-                            <span className="text-gray-400 ml-2">/month</span>
+                            {upgrade && upgrade.priceMonthlyUsd === null ? (
+                                <span className="text-2xl font-bold text-blue-400">Contact sales</span>
+                            ) : (
+                                <>
+                                    <span className="text-4xl font-bold text-blue-400">${upgrade?.priceMonthlyUsd ?? 29}</span>
+                                    <span className="text-gray-400 ml-2">/month</span>
+                                </>
+                            )}
                         </div>
                     </div>
 
@@ -79,26 +118,34 @@ export function UpgradeModal() {
                         </div>
                     )}
 
-                    <Button
-                        variant="primary"
-                        size="lg"
-                        className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 border-none"
-                        onClick={handleUpgrade}
-                        disabled={loading}
-                    >
-                        {loading ? (
-                            <>
-                                <Loader2 className="animate-spin mr-2" size={18} />
-                                Processing...
-                            </>
-                        ) : (
-                            'Upgrade Now'
-                        )}
-                    </Button>
+                    {upgrade && upgrade.priceMonthlyUsd === null ? (
+                        <p className="text-sm text-gray-300 text-center">
+                            Get in touch with our team to set up {upgrade.name}.
+                        </p>
+                    ) : (
+                        <>
+                            <Button
+                                variant="primary"
+                                size="lg"
+                                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 border-none"
+                                onClick={handleUpgrade}
+                                disabled={loading}
+                            >
+                                {loading ? (
+                                    <>
+                                        <Loader2 className="animate-spin mr-2" size={18} />
+                                        Processing...
+                                    </>
+                                ) : (
+                                    'Upgrade Now'
+                                )}
+                            </Button>
 
-                    <p className="mt-4 text-xs text-gray-500 text-center">
-                        Secure processing via Stripe. Cancel anytime.
-                    </p>
+                            <p className="mt-4 text-xs text-gray-500 text-center">
+                                Secure processing via Stripe. Cancel anytime.
+                            </p>
+                        </>
+                    )}
                 </div>
             </div>
         </Modal>
@@ -0,0 +1,66 @@
+import { render, screen } from "@testing-library/react";
+import { LLMUsagePanel } from "./LLMUsagePanel";
+import { vi, describe, it, expect, beforeEach } from "vitest";
+
+const mockFetchLLMUsage = vi.fn();
+const mockLLMUsage = {
+  period: "2026-10",
+  totals: { calls: 12, promptTokens: 9000, completionTokens: 3000, cost: 1.5 },
+  budget: { limit: 5, spent: 1.5, remaining: 3.5, resetAt: "2026-11-01T00:00:00.000Z" },
+  byDocument: [
+    { documentId: "doc-1", calls: 10, promptTokens: 8000, completionTokens: 2500, cost: 1.25 },
+    { documentId: "doc-gone", calls: 2, promptTokens: 1000, completionTokens: 500, cost: 0.25 },
+  ],
+  byTask: [
+    { task: "executiveSummary", calls: 12, promptTokens: 9000, completionTokens: 3000, cost: 1.5 },
+  ],
+  byModel: [],
+  recentCalls: [],
+};
+
+let currentLLMUsage: any = mockLLMUsage;
+
+vi.mock("../../stores/userStore", () => ({
+  useUserStore: () => ({
+    llmUsage: currentLLMUsage,
+    fetchLLMUsage: mockFetchLLMUsage,
+  }),
+}));
+
+describe("LLMUsagePanel", () => {
+  beforeEach(() => {
+    currentLLMUsage = mockLLMUsage;
+    mockFetchLLMUsage.mockClear();
+  });
+
+  it("renders spend against the budget with per-document and per-task rows", () => {
+    render(<LLMUsagePanel documentTitles={{ "doc-1": "Q4 Report" }} />);
+
+    expect(mockFetchLLMUsage).toHaveBeenCalled();
+    expect(screen.getByText("$1.50 / $5.00")).toBeInTheDocument();
+    expect(screen.getByText("12 calls, 12.0k tokens")).toBeInTheDocument();
+    expect(screen.getByText("Q4 Report")).toBeInTheDocument();
+    expect(screen.getByText("Deleted document")).toBeInTheDocument();
+    expect(screen.getByText("executiveSummary")).toBeInTheDocument();
+  });
+
+  it("shows no budget when usage is uncapped", () => {
+    currentLLMUsage = {
+      ...mockLLMUsage,
+      budget: { limit: null, spent: 1.5, remaining: null, resetAt: mockLLMUsage.budget.resetAt },
+    };
+    render(<LLMUsagePanel />);
+
+    expect(screen.getByText("$1.50")).toBeInTheDocument();
+  });
+
+  it("warns once the budget is used up", () => {
+    currentLLMUsage = {
+      ...mockLLMUsage,
+      budget: { ...mockLLMUsage.budget, spent: 5, remaining: 0 },
+    };
+    render(<LLMUsagePanel />);
+
+    expect(screen.getByText(/Budget used up until/)).toBeInTheDocument();
+  });
+});
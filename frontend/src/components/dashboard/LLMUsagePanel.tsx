@@ -0,0 +1,115 @@
+import { AlertTriangle, Coins } from 'lucide-react';
+import React, { useEffect } from 'react';
+
+import { cn } from '../../lib/utils';
+import { useUserStore } from '../../stores/userStore';
+import { Card, CardHeader, CardTitle, CardContent } from '../primitives/Card';
+
+import type { LLMUsageTotals } from '../../../../shared/src/types';
+
+interface LLMUsagePanelProps {
+  // Document titles by id, for the per-document breakdown
+  documentTitles?: Record<string, string>;
+}
+
+// Rows shown per breakdown
+const TOP_ROWS = 3;
+
+const formatCost = (cost: number) =>
+  `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const Breakdown: React.FC<{
+  title: string;
+  rows: Array<LLMUsageTotals & { key: string; label: string }>;
+}> = ({ title, rows }) => {
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <p className="text-xs font-medium text-muted-foreground mb-1">{title}</p>
+      <ul className="space-y-1 text-xs">
+        {rows.slice(0, TOP_ROWS).map((row) => (
+          <li key={row.key} className="flex justify-between gap-2">
+            <span className="truncate">{row.label}</span>
+            <span className="shrink-0 text-muted-foreground">
+              {formatTokens(row.promptTokens + row.completionTokens)} tokens · {formatCost(row.cost)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export const LLMUsagePanel: React.FC<LLMUsagePanelProps> = ({ documentTitles = {} }) => {
+  const { llmUsage, fetchLLMUsage } = useUserStore();
+
+  useEffect(() => {
+    fetchLLMUsage();
+  }, [fetchLLMUsage]);
+
+  if (!llmUsage) return null;
+
+  const { totals, budget } = llmUsage;
+  const budgetPercent = budget.limit
+    ? Math.min(100, Math.max(0, (budget.spent / budget.limit) * 100))
+    : 0;
+
+  return (
+    <Card variant="elevated" className="relative overflow-hidden">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">AI Usage This Month</CardTitle>
+        <Coins className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">
+          {formatCost(budget.spent)}
+          {budget.limit !== null && ` / ${formatCost(budget.limit)}`}
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          {totals.calls} calls, {formatTokens(totals.promptTokens + totals.completionTokens)} tokens
+        </p>
+        {budget.limit !== null && (
+          <>
+            <div className="mt-4 h-2 w-full rounded-full bg-secondary">
+              <div
+                className={cn(
+                  'h-full rounded-full transition-all duration-500',
+                  budgetPercent > 90 ? 'bg-red-500' : 'bg-primary',
+                )}
+                style={{ width: `${budgetPercent}%` }}
+              />
+            </div>
+            {budgetPercent >= 100 ? (
+              <div className="mt-2 flex items-center text-xs text-red-500">
+                <AlertTriangle className="mr-1 h-3 w-3" />
+                Budget used up until {new Date(budget.resetAt).toLocaleDateString()}
+              </div>
+            ) : budgetPercent > 90 && (
+              <div className="mt-2 flex items-center text-xs text-red-500">
+                <AlertTriangle className="mr-1 h-3 w-3" />
+                Approaching monthly budget
+              </div>
+            )}
+          </>
+        )}
+
+        <Breakdown
+          title="By document"
+          rows={llmUsage.byDocument.map((row) => ({
+            ...row,
+            key: row.documentId,
+            label: documentTitles[row.documentId] || 'Deleted document',
+          }))}
+        />
+        <Breakdown
+          title="By task"
+          rows={llmUsage.byTask.map((row) => ({ ...row, key: row.task, label: row.task }))}
+        />
+      </CardContent>
+    </Card>
+  );
+};
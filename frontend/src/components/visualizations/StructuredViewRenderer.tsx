@@ -7,7 +7,8 @@ import React, {
   useCallback,
 } from 'react';
 
-import { Section } from '../../../../shared/src/types';
+import { QACitation, Section } from '../../../../shared/src/types';
+import { useDocumentStore } from '../../stores/documentStore';
 
 import {
   GraphViewerLayout,
@@ -59,6 +60,34 @@ const mapSectionToNode = (section: Section): GraphNode => ({
   y: 0,
 });
 
+// Find a section anywhere in the nested tree
+const findSection = (sections: Section[], id: string): Section | undefined => {
+  for (const section of sections) {
+    if (section.id === id) return section;
+    const child = section.children ? findSection(section.children, id) : undefined;
+    if (child) return child;
+  }
+  return undefined;
+};
+
+// Locate a cited span inside a section's content. Prefer the quoted text, since
+// section offsets can drift from the document offsets the citation refers to.
+const locateCitation = (
+  content: string,
+  sectionStart: number,
+  citation: QACitation,
+): { start: number; end: number } | null => {
+  const { span } = citation;
+  const found = span.text ? content.indexOf(span.text) : -1;
+  if (found !== -1) {
+    return { start: found, end: found + span.text.length };
+  }
+
+  const start = Math.max(0, span.start - sectionStart);
+  const end = Math.min(content.length, span.end - sectionStart);
+  return start < end ? { start, end } : null;
+};
+
 // Extracted Component
 const RenderTree = React.memo(
   ({
@@ -66,6 +95,7 @@ const RenderTree = React.memo(
     depth = 0,
     cardRefs,
     selectedNode,
+    citedSectionId,
     onSelectNode,
     onLayoutUpdate,
   }: {
@@ -73,6 +103,7 @@ const RenderTree = React.memo(
     depth?: number;
     cardRefs: React.MutableRefObject<Record<string, HTMLDivElement | null>>;
     selectedNode: GraphNode | null;
+    citedSectionId?: string;
     onSelectNode: (node: GraphNode) => void;
     onLayoutUpdate: () => void;
   }) => {
@@ -89,7 +120,8 @@ const RenderTree = React.memo(
               {/* Node Card */}
               <div
                 ref={(el) => (cardRefs.current[node.id] = el)}
-                className="relative z-10"
+                className={`relative z-10 rounded-2xl ${citedSectionId === node.id ? 'ring-2 ring-[var(--aurora-1)] ring-offset-4 ring-offset-[var(--color-surface-base)]' : ''}`}
+                data-cited={citedSectionId === node.id ? 'true' : undefined}
               >
                 <GraphEntityCard
                   node={graphNode}
@@ -117,6 +149,7 @@ const RenderTree = React.memo(
                     depth={depth + 1}
                     cardRefs={cardRefs}
                     selectedNode={selectedNode}
+                    citedSectionId={citedSectionId}
                     onSelectNode={onSelectNode}
                     onLayoutUpdate={onLayoutUpdate}
                   />
@@ -134,6 +167,7 @@ export const StructuredViewRenderer: React.FC<StructuredViewProps> = ({
   data,
 }) => {
   const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
+  const activeCitation = useDocumentStore((state) => state.activeCitation);
 
   // Coordinate Tracking State
   const [coords, setCoords] = useState<
@@ -148,6 +182,32 @@ export const StructuredViewRenderer: React.FC<StructuredViewProps> = ({
     return convertSectionsToTree(data.sections);
   }, [data]);
 
+  // Open the cited section when a chat citation is selected
+  const citedSection = useMemo(() => {
+    if (!activeCitation?.sectionId || !data?.sections) return undefined;
+    return findSection(data.sections, activeCitation.sectionId);
+  }, [activeCitation, data]);
+
+  useEffect(() => {
+    if (!citedSection) return;
+    setSelectedNode(mapSectionToNode(citedSection));
+    cardRefs.current[citedSection.id]?.scrollIntoView?.({
+      behavior: 'smooth',
+      block: 'center',
+    });
+  }, [citedSection]);
+
+  const citationRange = useMemo(() => {
+    if (!activeCitation || !citedSection || selectedNode?.id !== citedSection.id) {
+      return null;
+    }
+    return locateCitation(
+      citedSection.content || '',
+      citedSection.startIndex,
+      activeCitation,
+    );
+  }, [activeCitation, citedSection, selectedNode]);
+
   // 2. Collect all edges for the SVG layer
   const edges = useMemo(() => {
     const collectedEdges: { id: string; source: string; target: string }[] = [];
@@ -214,6 +274,7 @@ export const StructuredViewRenderer: React.FC<StructuredViewProps> = ({
             nodes={roots}
             cardRefs={cardRefs}
             selectedNode={selectedNode}
+            citedSectionId={citedSection?.id}
             onSelectNode={setSelectedNode}
             onLayoutUpdate={updateCoords}
           />
@@ -370,7 +431,20 @@ export const StructuredViewRenderer: React.FC<StructuredViewProps> = ({
                   </h3>
                   <div className="p-4 bg-[var(--color-background-secondary)] rounded-2xl border border-[var(--color-border-subtle)] max-h-[300px] overflow-y-auto custom-scrollbar">
                     <pre className="text-xs text-[var(--color-text-secondary)] whitespace-pre-wrap font-mono leading-relaxed">
-                      {selectedNode.metadata.content}
+                      {citationRange ? (
+                        <>
+                          {selectedNode.metadata.content.slice(0, citationRange.start)}
+                          <mark className="bg-[var(--aurora-1)]/25 text-[var(--color-text-primary)] rounded px-0.5">
+                            {selectedNode.metadata.content.slice(
+                              citationRange.start,
+                              citationRange.end,
+                            )}
+                          </mark>
+                          {selectedNode.metadata.content.slice(citationRange.end)}
+                        </>
+                      ) : (
+                        selectedNode.metadata.content
+                      )}
                     </pre>
                   </div>
                 </section>
@@ -8,12 +8,22 @@ import {
   DynamicBezierPath,
   GraphEntityCard,
   GraphConnectionModal,
+  GraphEditPanel,
   GraphNode,
   GraphEdge,
+  toEditPath,
 } from '../../visualizations/toolkit';
 
 import { useArgumentMapStore } from './stores/argumentMapStore';
-import { ArgumentMapProps, ArgumentNode, ArgumentEdge, transformBackendDataToArgumentMap } from './types';
+import {
+  ArgumentMapProps,
+  ArgumentNode,
+  ArgumentEdge,
+  BackendArgumentMapData,
+  transformBackendDataToArgumentMap,
+} from './types';
+
+const EDGE_TYPES = ['supports', 'attacks', 'rebuts', 'depends-on'];
 
 
 // Layout Constants
@@ -45,10 +55,12 @@ const mapEdgeToGraphEdge = (edge: ArgumentEdge): GraphEdge => ({
   rationale: edge.metadata?.description,
 });
 
-export const ArgumentMap: React.FC<ArgumentMapProps> = ({ data }) => {
+export const ArgumentMap: React.FC<ArgumentMapProps> = ({ data, onEdit }) => {
   const store = useArgumentMapStore();
   const containerRef = useRef<HTMLDivElement>(null);
   const [activeEdgeId, setActiveEdgeId] = useState<string | null>(null);
+  const [connectTargetId, setConnectTargetId] = useState('');
+  const [connectType, setConnectType] = useState(EDGE_TYPES[0]);
 
   // Initialize Data from props
   useEffect(() => {
@@ -124,6 +136,49 @@ export const ArgumentMap: React.FC<ArgumentMapProps> = ({ data }) => {
     activeEdge ? graphNodes.find(n => n.id === activeEdge.target) : undefined,
   [activeEdge, graphNodes]);
 
+  // The store holds transformed nodes; edits address the backend data
+  const selectedBackendNode = useMemo(() => {
+    const backendData = data as unknown as BackendArgumentMapData | undefined;
+    return backendData?.nodes.find(n => n.id === store.selectedNodeId) || null;
+  }, [data, store.selectedNodeId]);
+
+  const handleRenameNode = (text: string) => {
+    if (!onEdit || !selectedBackendNode) return;
+    const field = selectedBackendNode.summary ? 'summary' : 'label';
+    onEdit([{ op: 'replace', path: toEditPath('nodes', selectedBackendNode.id, field), value: text }]);
+  };
+
+  const handleDeleteNode = () => {
+    if (!onEdit || !selectedBackendNode) return;
+    const edgeRemovals = store.edges
+      .filter(edge => edge.source === selectedBackendNode.id || edge.target === selectedBackendNode.id)
+      .map(edge => ({ op: 'remove' as const, path: toEditPath('edges', edge.id) }));
+    onEdit([...edgeRemovals, { op: 'remove', path: toEditPath('nodes', selectedBackendNode.id) }]);
+    store.selectNode(null);
+  };
+
+  const handleConnect = () => {
+    if (!onEdit || !selectedBackendNode || !connectTargetId) return;
+    onEdit([{
+      op: 'add',
+      path: '/edges/-',
+      value: {
+        id: `edge-${Date.now()}`,
+        source: selectedBackendNode.id,
+        target: connectTargetId,
+        type: connectType,
+        strength: 0.5,
+      },
+    }]);
+    setConnectTargetId('');
+  };
+
+  const handleDeleteEdge = () => {
+    if (!onEdit || !activeEdgeId) return;
+    onEdit([{ op: 'remove', path: toEditPath('edges', activeEdgeId) }]);
+    setActiveEdgeId(null);
+  };
+
   const handleNodeClick = (id: string) => {
     store.selectNode(id);
     setActiveEdgeId(null);
@@ -215,6 +270,57 @@ export const ArgumentMap: React.FC<ArgumentMapProps> = ({ data }) => {
           </div>
         </GraphCanvas>
 
+        {/* Editing */}
+        {onEdit && selectedBackendNode && (
+          <GraphEditPanel
+            title="Edit argument"
+            label={selectedBackendNode.summary || selectedBackendNode.label}
+            onRename={handleRenameNode}
+            onDelete={handleDeleteNode}
+            onClose={() => store.selectNode(null)}
+          >
+            <div className="flex items-center gap-2">
+              <select
+                value={connectType}
+                onChange={(e) => setConnectType(e.target.value)}
+                aria-label="Connection type"
+                className="px-2 py-1 rounded-md text-xs border border-[var(--color-border-subtle)] bg-[var(--color-surface-base)] text-[var(--color-text-primary)]"
+              >
+                {EDGE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+              <select
+                value={connectTargetId}
+                onChange={(e) => setConnectTargetId(e.target.value)}
+                aria-label="Connect to"
+                className="flex-1 min-w-0 px-2 py-1 rounded-md text-xs border border-[var(--color-border-subtle)] bg-[var(--color-surface-base)] text-[var(--color-text-primary)]"
+              >
+                <option value="">Connect to…</option>
+                {store.nodes
+                  .filter(node => node.id !== selectedBackendNode.id)
+                  .map(node => <option key={node.id} value={node.id}>{node.text}</option>)}
+              </select>
+              <button
+                onClick={handleConnect}
+                disabled={!connectTargetId}
+                className="text-xs font-medium text-[var(--color-primary)] disabled:opacity-40"
+              >
+                Add
+              </button>
+            </div>
+          </GraphEditPanel>
+        )}
+        {onEdit && activeEdge && (
+          <GraphEditPanel
+            title="Edit connection"
+            onDelete={handleDeleteEdge}
+            onClose={() => setActiveEdgeId(null)}
+          >
+            <p className="text-sm text-[var(--color-text-primary)]">
+              {activeSourceNode?.label} → {activeTargetNode?.label}
+            </p>
+          </GraphEditPanel>
+        )}
+
         {/* Edge Detail Modal */}
         <GraphConnectionModal
           edge={activeEdge}
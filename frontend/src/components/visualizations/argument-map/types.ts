@@ -1,3 +1,5 @@
+import type { VisualizationPatchOperation } from '@shared/types';
+
 // Core Argument Map Data Types
 
 export type ArgumentNodeType = 'CLAIM' | 'EVIDENCE' | 'CONCLUSION';
@@ -107,6 +109,7 @@ export interface NodeDetailPanelProps {
 export interface ArgumentMapProps {
   data?: ArgumentMapData;
   configuration?: VisualizationConfig;
+  onEdit?: (operations: VisualizationPatchOperation[]) => void;
 }
 
 // Utility Types
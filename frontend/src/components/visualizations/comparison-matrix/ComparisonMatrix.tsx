@@ -0,0 +1,184 @@
+import { ArrowRight, GitCompare, Loader2 } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { Badge } from '../../primitives/Badge';
+import { Button } from '../../primitives/Button';
+import { GraphViewerLayout } from '../toolkit';
+
+import {
+  CATEGORY_LABELS,
+  CATEGORY_ORDER,
+  CHANGE_LABELS,
+  filterRows,
+  groupRows,
+} from './comparisonRows';
+
+import type { CategoryFilter, ChangeFilter } from './comparisonRows';
+import type {
+  ComparisonChange,
+  ComparisonMatrixData,
+} from '../../../../../shared/src/types';
+import type { BadgeVariant } from '../../primitives/Badge';
+
+export interface ComparableDocument {
+  id: string;
+  title: string;
+}
+
+interface ComparisonPickerProps {
+  /** Documents the open document can be compared against */
+  documents: ComparableDocument[];
+  selectedId?: string;
+  onCompare: (baseDocumentId: string) => void;
+  isComparing?: boolean;
+}
+
+interface ComparisonMatrixProps extends Omit<ComparisonPickerProps, 'selectedId'> {
+  data: ComparisonMatrixData;
+}
+
+const CHANGE_VARIANTS: Record<ComparisonChange, BadgeVariant> = {
+  added: 'success',
+  removed: 'error',
+  modified: 'warning',
+  unchanged: 'neutral',
+};
+
+const CHANGE_FILTERS: ChangeFilter[] = ['changed', 'added', 'removed', 'modified', 'all'];
+
+/**
+ * Select for the base document of a comparison; the open document is always
+ * the newer side
+ */
+export function ComparisonPicker({ documents, selectedId, onCompare, isComparing }: ComparisonPickerProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        aria-label="Compare against"
+        className="text-sm rounded-md border border-[var(--color-border-subtle)] bg-[var(--color-surface-base)] text-[var(--color-text-primary)] px-2 py-1.5"
+        value={selectedId || ''}
+        disabled={isComparing || documents.length === 0}
+        onChange={(e) => e.target.value && onCompare(e.target.value)}
+      >
+        <option value="" disabled>
+          {documents.length === 0 ? 'No other documents' : 'Choose a base document…'}
+        </option>
+        {documents.map((document) => (
+          <option key={document.id} value={document.id}>
+            {document.title}
+          </option>
+        ))}
+      </select>
+      {isComparing && <Loader2 className="w-4 h-4 animate-spin text-[var(--color-text-tertiary)]" />}
+    </div>
+  );
+}
+
+export function ComparisonMatrix({ data, documents, onCompare, isComparing }: ComparisonMatrixProps) {
+  const [category, setCategory] = useState<CategoryFilter>('all');
+  const [change, setChange] = useState<ChangeFilter>('changed');
+
+  const groups = useMemo(
+    () => groupRows(filterRows(data.rows, category, change)),
+    [data, category, change],
+  );
+
+  return (
+    <GraphViewerLayout
+      title="Comparison"
+      description={`${data.counts.added} added, ${data.counts.removed} removed, ${data.counts.modified} modified`}
+    >
+      <div className="absolute inset-0 flex flex-col overflow-hidden bg-[var(--color-background-primary)]">
+        <div className="p-4 border-b border-[var(--color-border-subtle)] bg-[var(--color-surface-base)] space-y-3">
+          <div className="flex flex-wrap items-center gap-3 text-sm text-[var(--color-text-secondary)]">
+            <GitCompare className="w-4 h-4 text-[var(--color-text-tertiary)]" />
+            <ComparisonPicker
+              documents={documents}
+              selectedId={data.left.documentId}
+              onCompare={onCompare}
+              isComparing={isComparing}
+            />
+            <ArrowRight className="w-4 h-4 text-[var(--color-text-tertiary)]" />
+            <span className="font-medium text-[var(--color-text-primary)]">{data.right.title}</span>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant={category === 'all' ? 'primary' : 'ghost'}
+              size="sm"
+              onClick={() => setCategory('all')}
+            >
+              Everything
+            </Button>
+            {CATEGORY_ORDER.map((value) => (
+              <Button
+                key={value}
+                variant={category === value ? 'primary' : 'ghost'}
+                size="sm"
+                onClick={() => setCategory(value)}
+              >
+                {CATEGORY_LABELS[value]}
+              </Button>
+            ))}
+            <span className="mx-2 h-5 w-px bg-[var(--color-border-subtle)]" />
+            {CHANGE_FILTERS.map((value) => (
+              <Button
+                key={value}
+                variant={change === value ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setChange(value)}
+              >
+                {value === 'changed' ? 'All changes' : value === 'all' ? 'Show unchanged' : CHANGE_LABELS[value]}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar">
+          {groups.length === 0 ? (
+            <div className="flex items-center justify-center h-64 text-[var(--color-text-secondary)]">
+              No differences match these filters.
+            </div>
+          ) : (
+            <table className="w-full text-sm border-collapse">
+              <thead className="sticky top-0 bg-[var(--color-surface-base)] text-left text-xs uppercase tracking-wide text-[var(--color-text-tertiary)]">
+                <tr>
+                  <th className="px-4 py-2 font-semibold w-28">Change</th>
+                  <th className="px-4 py-2 font-semibold">Item</th>
+                  <th className="px-4 py-2 font-semibold">{data.left.title}</th>
+                  <th className="px-4 py-2 font-semibold">{data.right.title}</th>
+                  <th className="px-4 py-2 font-semibold">Summary</th>
+                </tr>
+              </thead>
+              {groups.map((group) => (
+                <tbody key={group.category}>
+                  <tr>
+                    <th
+                      colSpan={5}
+                      className="px-4 pt-4 pb-1 text-left text-xs font-bold uppercase tracking-[0.15em] text-[var(--color-text-secondary)]"
+                    >
+                      {CATEGORY_LABELS[group.category]} ({group.rows.length})
+                    </th>
+                  </tr>
+                  {group.rows.map((row) => (
+                    <tr key={row.id} className="border-t border-[var(--color-border-subtle)] align-top">
+                      <td className="px-4 py-2">
+                        <Badge variant={CHANGE_VARIANTS[row.change]} size="sm">
+                          {CHANGE_LABELS[row.change]}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-2 font-medium text-[var(--color-text-primary)]">{row.label}</td>
+                      <td className="px-4 py-2 text-[var(--color-text-secondary)]">{row.left ?? '—'}</td>
+                      <td className="px-4 py-2 text-[var(--color-text-secondary)]">{row.right ?? '—'}</td>
+                      <td className="px-4 py-2 text-[var(--color-text-secondary)]">{row.summary}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              ))}
+            </table>
+          )}
+        </div>
+      </div>
+    </GraphViewerLayout>
+  );
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+
+import { filterRows, groupRows } from '../comparisonRows';
+
+import type { ComparisonMatrixRow } from '../../../../../../shared/src/types';
+
+const rows: ComparisonMatrixRow[] = [
+  { id: 'section-1', category: 'section', label: 'Intro', change: 'unchanged' },
+  { id: 'section-2', category: 'section', label: 'Budget', change: 'modified' },
+  { id: 'entity-1', category: 'entity', label: 'AWS', change: 'added' },
+  { id: 'relationship-1', category: 'relationship', label: 'A → B', change: 'removed' },
+  { id: 'kpi-1', category: 'kpi', label: 'Revenue', change: 'modified' },
+];
+
+const ids = (list: ComparisonMatrixRow[]) => list.map((row) => row.id);
+
+describe('filterRows', () => {
+  it('hides unchanged rows for the "changed" filter', () => {
+    expect(ids(filterRows(rows, 'all', 'changed'))).toEqual([
+      'section-2',
+      'entity-1',
+      'relationship-1',
+      'kpi-1',
+    ]);
+  });
+
+  it('filters by category and change', () => {
+    expect(ids(filterRows(rows, 'section', 'all'))).toEqual(['section-1', 'section-2']);
+    expect(ids(filterRows(rows, 'all', 'modified'))).toEqual(['section-2', 'kpi-1']);
+    expect(filterRows(rows, 'entity', 'removed')).toEqual([]);
+  });
+});
+
+describe('groupRows', () => {
+  it('groups rows in display order and skips empty categories', () => {
+    const groups = groupRows(filterRows(rows, 'all', 'modified'));
+
+    expect(groups.map((group) => group.category)).toEqual(['section', 'kpi']);
+    expect(ids(groups[1].rows)).toEqual(['kpi-1']);
+  });
+});
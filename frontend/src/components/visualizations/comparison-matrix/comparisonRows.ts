@@ -0,0 +1,49 @@
+import type {
+  ComparisonCategory,
+  ComparisonChange,
+  ComparisonMatrixRow,
+} from '../../../../../shared/src/types';
+
+export type CategoryFilter = ComparisonCategory | 'all';
+
+// 'changed' is everything except unchanged rows
+export type ChangeFilter = ComparisonChange | 'changed' | 'all';
+
+export const CATEGORY_ORDER: ComparisonCategory[] = ['section', 'kpi', 'entity', 'relationship'];
+
+export const CATEGORY_LABELS: Record<ComparisonCategory, string> = {
+  section: 'Sections',
+  kpi: 'KPIs',
+  entity: 'Entities',
+  relationship: 'Relationships',
+};
+
+export const CHANGE_LABELS: Record<ComparisonChange, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  modified: 'Modified',
+  unchanged: 'Unchanged',
+};
+
+export function filterRows(
+  rows: ComparisonMatrixRow[],
+  category: CategoryFilter,
+  change: ChangeFilter,
+): ComparisonMatrixRow[] {
+  return rows.filter((row) => {
+    if (category !== 'all' && row.category !== category) return false;
+    if (change === 'changed') return row.change !== 'unchanged';
+    return change === 'all' || row.change === change;
+  });
+}
+
+/**
+ * Rows grouped by category in display order; empty categories are left out
+ */
+export function groupRows(
+  rows: ComparisonMatrixRow[],
+): Array<{ category: ComparisonCategory; rows: ComparisonMatrixRow[] }> {
+  return CATEGORY_ORDER
+    .map((category) => ({ category, rows: rows.filter((row) => row.category === category) }))
+    .filter((group) => group.rows.length > 0);
+}
@@ -18,6 +18,10 @@ interface FlowchartProps {
 
 export function Flowchart({ data }: FlowchartProps) {
   const layout = useFlowchartLayout(data);
+  const isVertical = data.layout !== 'leftToRight';
+
+  const laneLabel = (laneId: string) =>
+    data.swimlanes?.find(lane => lane.id === laneId)?.label || laneId;
   const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
 
   // Map FlowNode to Toolkit GraphNode format
@@ -27,7 +31,7 @@ export function Flowchart({ data }: FlowchartProps) {
     label: node.label,
     description: node.description,
     importance: 'medium', // Default
-    metadata: node.swimlane ? { Swimlane: node.swimlane } : undefined,
+    metadata: node.swimlane ? { Swimlane: laneLabel(node.swimlane) } : undefined,
     x: node.x,
     y: node.y,
   });
@@ -38,6 +42,29 @@ export function Flowchart({ data }: FlowchartProps) {
       description="Visual representation of the process steps and decisions."
     >
       <GraphCanvas>
+        {/* Swimlanes (Behind Everything) */}
+        {layout.lanes.map(lane => (
+          <div
+            key={lane.id}
+            className="absolute border border-dashed rounded-lg"
+            style={{
+              left: isVertical ? lane.offset : 0,
+              top: isVertical ? 0 : lane.offset,
+              width: isVertical ? lane.size : layout.width,
+              height: isVertical ? layout.height : lane.size,
+              borderColor: lane.color,
+              backgroundColor: `${lane.color}0D`,
+            }}
+          >
+            <span
+              className="absolute top-2 left-3 text-xs font-semibold uppercase tracking-wide"
+              style={{ color: lane.color }}
+            >
+              {lane.label}
+            </span>
+          </div>
+        ))}
+
         {/* Edges Layer (Behind Nodes) */}
         <GraphEdgeLayer>
           {layout.edges.map(edge => {
@@ -54,6 +81,7 @@ export function Flowchart({ data }: FlowchartProps) {
                 x2={targetNode.x}
                 y2={targetNode.y}
                 label={edge.label}
+                isDashed={edge.type === 'dashed'}
               />
             );
           })}
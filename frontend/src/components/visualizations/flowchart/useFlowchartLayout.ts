@@ -1,22 +1,33 @@
 import dagre from 'dagre';
 import { useMemo } from 'react';
 
-import type { FlowchartData, FlowNode, FlowEdge } from '../../../../../shared/src/types';
+import type { FlowchartData, FlowNode, FlowEdge, Swimlane } from '../../../../../shared/src/types';
+
+type PositionedNode = FlowNode & { x: number; y: number };
+
+export interface LaneBand extends Swimlane {
+  offset: number; // Start along the cross axis (x for top-to-bottom, y for left-to-right)
+  size: number;
+}
 
 interface LayoutResult {
-  nodes: (FlowNode & { x: number; y: number })[];
+  nodes: PositionedNode[];
   edges: (FlowEdge & { points: { x: number; y: number }[] })[];
+  lanes: LaneBand[];
   width: number;
   height: number;
 }
 
 const NODE_WIDTH = 280;
 const NODE_HEIGHT = 100;
+const LANE_GAP = 40;
+const LANE_PADDING = 24;
+const UNASSIGNED_LANE: Swimlane = { id: '__unassigned', label: 'Other', color: '#94A3B8' };
 
 export function useFlowchartLayout(data: FlowchartData): LayoutResult {
   return useMemo(() => {
     if (!data.nodes.length) {
-      return { nodes: [], edges: [], width: 0, height: 0 };
+      return { nodes: [], edges: [], lanes: [], width: 0, height: 0 };
     }
 
     const g = new dagre.graphlib.Graph();
@@ -64,12 +75,86 @@ export function useFlowchartLayout(data: FlowchartData): LayoutResult {
     });
 
     const graphLabel = g.graph();
+    const width = graphLabel.width || 800;
+    const height = graphLabel.height || 600;
+
+    if (data.swimlanes?.length) {
+      const isVertical = data.layout !== 'leftToRight';
+      const { nodes, lanes, crossSize }
+        = arrangeInLanes(positionedNodes, data.swimlanes, isVertical);
+      return {
+        nodes,
+        edges: positionedEdges,
+        lanes,
+        width: isVertical ? crossSize : width,
+        height: isVertical ? height : crossSize,
+      };
+    }
 
     return {
       nodes: positionedNodes,
       edges: positionedEdges,
-      width: graphLabel.width || 800,
-      height: graphLabel.height || 600,
+      lanes: [],
+      width,
+      height,
     };
   }, [data]);
 }
+
+/**
+ * Re-position dagre's output so every swimlane owns a band of the cross axis.
+ * Dagre keeps the rank (the main-axis position); nodes sharing a rank inside
+ * one lane are spread side by side in their original cross-axis order.
+ */
+function arrangeInLanes(
+  nodes: PositionedNode[],
+  swimlanes: Swimlane[],
+  isVertical: boolean,
+): { nodes: PositionedNode[]; lanes: LaneBand[]; crossSize: number } {
+  const laneIds = new Set(swimlanes.map((lane) => lane.id));
+  const laneOf = (node: FlowNode) =>
+    (node.swimlane && laneIds.has(node.swimlane) ? node.swimlane : UNASSIGNED_LANE.id);
+  const allLanes = nodes.some((n) => laneOf(n) === UNASSIGNED_LANE.id)
+    ? [...swimlanes, UNASSIGNED_LANE]
+    : swimlanes;
+
+  const nodeSize = isVertical ? NODE_WIDTH : NODE_HEIGHT;
+  const rankOf = (node: PositionedNode) => Math.round(isVertical ? node.y : node.x);
+  const crossOf = (node: PositionedNode) => (isVertical ? node.x : node.y);
+
+  const positions = new Map<string, number>();
+  const lanes: LaneBand[] = [];
+  let offset = 0;
+
+  allLanes.forEach((lane) => {
+    const members = nodes.filter((n) => laneOf(n) === lane.id);
+    if (members.length === 0) return;
+
+    const byRank = new Map<number, PositionedNode[]>();
+    members.forEach((n) => byRank.set(rankOf(n), [...(byRank.get(rankOf(n)) || []), n]));
+
+    let slots = 1;
+    byRank.forEach((rankNodes) => {
+      slots = Math.max(slots, rankNodes.length);
+      [...rankNodes]
+        .sort((a, b) => crossOf(a) - crossOf(b))
+        .forEach((n, i) => {
+          const slotStart = offset + LANE_PADDING + i * (nodeSize + LANE_GAP);
+          positions.set(n.id, slotStart + nodeSize / 2);
+        });
+    });
+
+    const size = LANE_PADDING * 2 + slots * nodeSize + (slots - 1) * LANE_GAP;
+    lanes.push({ ...lane, offset, size });
+    offset += size;
+  });
+
+  return {
+    nodes: nodes.map((n) => {
+      const cross = positions.get(n.id) ?? crossOf(n);
+      return isVertical ? { ...n, x: cross } : { ...n, y: cross };
+    }),
+    lanes,
+    crossSize: offset,
+  };
+}
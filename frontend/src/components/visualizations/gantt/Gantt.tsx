@@ -0,0 +1,381 @@
+import { Route, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import {
+  ZOOM_LEVELS,
+  buildTicks,
+  dateToX,
+  zoomIn,
+  zoomOut,
+} from '../timeline/timelineScale';
+import { GraphViewerLayout } from '../toolkit';
+
+import {
+  defaultZoom,
+  dependencyPath,
+  ganttRange,
+  ganttRows,
+  taskDays,
+} from './ganttLayout';
+
+import type { GanttData, GanttPhase, GanttTask } from '../../../../../shared/src/types';
+import type { TimelineZoom } from '../timeline/timelineScale';
+import type { WheelEvent } from 'react';
+
+interface GanttProps {
+  data: GanttData;
+}
+
+const NAME_WIDTH = 240;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 18;
+const AXIS_HEIGHT = 40;
+const PADDING_X = 24;
+const DEFAULT_COLOR = '#64748B';
+const CRITICAL_COLOR = '#EF4444';
+
+const ZOOM_LABELS: Record<TimelineZoom, string> = {
+  year: 'Years',
+  month: 'Months',
+  week: 'Weeks',
+  day: 'Days',
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  timeZone: 'UTC',
+});
+
+export function Gantt({ data }: GanttProps) {
+  const [zoom, setZoom] = useState<TimelineZoom>(() => defaultZoom(data));
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+
+  const rows = useMemo(() => ganttRows(data), [data]);
+  const range = useMemo(() => ganttRange(data.tasks, zoom), [data.tasks, zoom]);
+  const ticks = useMemo(() => buildTicks(range.start, range.end, zoom), [range, zoom]);
+
+  const phaseById = useMemo(() => new Map(data.phases.map((phase) => [phase.id, phase])), [data.phases]);
+  const critical = useMemo(
+    () => new Set(showCriticalPath ? data.criticalPath : []),
+    [data.criticalPath, showCriticalPath],
+  );
+
+  // Bar geometry per task, in chart coordinates
+  const bars = useMemo(() => {
+    const geometry = new Map<string, { x: number; width: number; y: number }>();
+    rows.forEach((row, index) => {
+      if (row.kind !== 'task') return;
+      const x = PADDING_X + dateToX(Date.parse(row.task.start), range.start, zoom);
+      const end = PADDING_X + dateToX(Date.parse(row.task.end), range.start, zoom);
+      geometry.set(row.task.id, { x, width: Math.max(end - x, 4), y: AXIS_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2 });
+    });
+    return geometry;
+  }, [rows, range.start, zoom]);
+
+  const chartWidth = dateToX(range.end, range.start, zoom) + PADDING_X * 2;
+  const chartHeight = AXIS_HEIGHT + rows.length * ROW_HEIGHT + 16;
+  const selected = data.tasks.find((task) => task.id === selectedId);
+  const today = Date.now();
+
+  const handleWheel = (e: WheelEvent) => {
+    if (!e.ctrlKey && !e.metaKey) return;
+    e.preventDefault();
+    setZoom((current) => (e.deltaY < 0 ? zoomIn(current) : zoomOut(current)));
+  };
+
+  const actions = (
+    <div className="flex items-center gap-1">
+      {data.criticalPath.length > 0 && (
+        <button
+          onClick={() => setShowCriticalPath((value) => !value)}
+          className={`flex items-center gap-1 px-2 py-1 mr-2 text-xs rounded-md ${
+            showCriticalPath
+              ? 'bg-red-500/10 text-red-500'
+              : 'text-[var(--color-text-secondary)] hover:bg-[var(--color-surface-elevated)]'
+          }`}
+          aria-pressed={showCriticalPath}
+        >
+          <Route className="w-3.5 h-3.5" />
+          Critical path
+        </button>
+      )}
+      <button
+        onClick={() => setZoom(zoomOut)}
+        disabled={zoom === ZOOM_LEVELS[0]}
+        className="p-1.5 rounded-md text-[var(--color-text-secondary)] hover:bg-[var(--color-surface-elevated)] disabled:opacity-40"
+        aria-label="Zoom out"
+      >
+        <ZoomOut className="w-4 h-4" />
+      </button>
+      {ZOOM_LEVELS.map((level) => (
+        <button
+          key={level}
+          onClick={() => setZoom(level)}
+          className={`px-2 py-1 text-xs rounded-md ${
+            level === zoom
+              ? 'bg-[var(--aurora-1)] text-white'
+              : 'text-[var(--color-text-secondary)] hover:bg-[var(--color-surface-elevated)]'
+          }`}
+          aria-pressed={level === zoom}
+        >
+          {ZOOM_LABELS[level]}
+        </button>
+      ))}
+      <button
+        onClick={() => setZoom(zoomIn)}
+        disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+        className="p-1.5 rounded-md text-[var(--color-text-secondary)] hover:bg-[var(--color-surface-elevated)] disabled:opacity-40"
+        aria-label="Zoom in"
+      >
+        <ZoomIn className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  if (data.tasks.length === 0) {
+    return (
+      <GraphViewerLayout title="Gantt Chart">
+        <div className="flex items-center justify-center h-full text-sm text-[var(--color-text-secondary)]">
+          No scheduled work was found in this document.
+        </div>
+      </GraphViewerLayout>
+    );
+  }
+
+  const estimated = data.tasks.filter((task) => task.estimated).length;
+
+  return (
+    <GraphViewerLayout
+      title="Gantt Chart"
+      description={`${data.tasks.length} tasks from ${formatDate(data.start)} to ${formatDate(data.end)}${
+        estimated > 0 ? ` · ${estimated} with estimated dates` : ''
+      }`}
+      actions={actions}
+    >
+      <div className="absolute inset-0 overflow-auto" onWheel={handleWheel}>
+        <div className="relative flex" style={{ width: NAME_WIDTH + chartWidth, height: chartHeight }}>
+          {/* Task names */}
+          <div
+            className="sticky left-0 z-10 flex-none border-r border-[var(--color-border-subtle)] bg-[var(--color-surface-base)]"
+            style={{ width: NAME_WIDTH, height: chartHeight }}
+          >
+            <div style={{ height: AXIS_HEIGHT }} className="border-b border-[var(--color-border-subtle)]" />
+            {rows.map((row) => (row.kind === 'phase' ? (
+              <div
+                key={`phase-${row.phase.id}`}
+                className="flex items-center gap-2 px-3 text-xs font-bold uppercase tracking-wide text-[var(--color-text-secondary)]"
+                style={{ height: ROW_HEIGHT }}
+              >
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: row.phase.color }} />
+                <span className="truncate">{row.phase.name}</span>
+              </div>
+            ) : (
+              <button
+                key={row.task.id}
+                onClick={() => setSelectedId(row.task.id === selectedId ? null : row.task.id)}
+                className={`flex items-center w-full px-3 text-left text-sm truncate ${
+                  row.task.id === selectedId
+                    ? 'font-semibold text-[var(--color-text-primary)] bg-[var(--color-surface-elevated)]'
+                    : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
+                }`}
+                style={{ height: ROW_HEIGHT }}
+                title={row.task.name}
+              >
+                <span className="truncate">{row.task.name}</span>
+              </button>
+            )))}
+          </div>
+
+          {/* Chart */}
+          <div className="relative flex-none" style={{ width: chartWidth, height: chartHeight }}>
+            <div
+              className="absolute left-0 right-0 border-b border-[var(--color-border-subtle)]"
+              style={{ top: AXIS_HEIGHT - 1 }}
+            />
+            {ticks.map((tick) => (
+              <div
+                key={tick.time}
+                className="absolute top-0 bottom-0"
+                style={{ left: PADDING_X + dateToX(tick.time, range.start, zoom) }}
+              >
+                <div
+                  className={`h-full border-l ${
+                    tick.major ? 'border-[var(--color-border-strong)]' : 'border-[var(--color-border-subtle)]'
+                  }`}
+                />
+                <span
+                  className={`absolute top-2 left-1 whitespace-nowrap text-xs ${
+                    tick.major ? 'font-semibold text-[var(--color-text-primary)]' : 'text-[var(--color-text-tertiary)]'
+                  }`}
+                >
+                  {tick.label}
+                </span>
+              </div>
+            ))}
+
+            {today >= range.start && today <= range.end && (
+              <div
+                className="absolute bottom-0 border-l-2 border-dashed border-[var(--aurora-1)] opacity-60"
+                style={{ left: PADDING_X + dateToX(today, range.start, zoom), top: AXIS_HEIGHT }}
+                title="Today"
+              />
+            )}
+
+            {/* Dependency arrows */}
+            <svg className="absolute inset-0 pointer-events-none" width={chartWidth} height={chartHeight}>
+              <defs>
+                <marker id="gantt-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                  <path d="M0,0 L6,3 L0,6 z" fill="var(--color-text-tertiary)" />
+                </marker>
+                <marker id="gantt-arrow-critical" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                  <path d="M0,0 L6,3 L0,6 z" fill={CRITICAL_COLOR} />
+                </marker>
+              </defs>
+              {data.tasks.flatMap((task) => task.dependencies.map((dependencyId) => {
+                const from = bars.get(dependencyId);
+                const to = bars.get(task.id);
+                if (!from || !to) return null;
+                const onPath = critical.has(task.id) && critical.has(dependencyId);
+                return (
+                  <path
+                    key={`${dependencyId}-${task.id}`}
+                    d={dependencyPath(from.x + from.width, from.y, to.x, to.y)}
+                    fill="none"
+                    stroke={onPath ? CRITICAL_COLOR : 'var(--color-text-tertiary)'}
+                    strokeWidth={onPath ? 2 : 1}
+                    markerEnd={`url(#${onPath ? 'gantt-arrow-critical' : 'gantt-arrow'})`}
+                  />
+                );
+              }))}
+            </svg>
+
+            {/* Bars */}
+            {data.tasks.map((task) => {
+              const bar = bars.get(task.id);
+              if (!bar) return null;
+              const color = critical.has(task.id)
+                ? CRITICAL_COLOR
+                : (task.phaseId && phaseById.get(task.phaseId)?.color) || DEFAULT_COLOR;
+
+              return task.milestone ? (
+                <button
+                  key={task.id}
+                  onClick={() => setSelectedId(task.id === selectedId ? null : task.id)}
+                  className="absolute w-3.5 h-3.5 rotate-45 border-2 border-[var(--color-surface-base)]"
+                  style={{ left: bar.x - 7, top: bar.y - 7, backgroundColor: color }}
+                  title={`${task.name} · ${formatDate(task.start)}`}
+                  aria-label={task.name}
+                />
+              ) : (
+                <button
+                  key={task.id}
+                  onClick={() => setSelectedId(task.id === selectedId ? null : task.id)}
+                  className={`absolute overflow-hidden rounded ${
+                    task.estimated ? 'border border-dashed' : ''
+                  } ${task.id === selectedId ? 'ring-2 ring-[var(--aurora-1)]' : ''}`}
+                  style={{
+                    left: bar.x,
+                    top: bar.y - BAR_HEIGHT / 2,
+                    width: bar.width,
+                    height: BAR_HEIGHT,
+                    borderColor: color,
+                    backgroundColor: `${color}${task.estimated ? '33' : '55'}`,
+                  }}
+                  title={`${task.name} · ${formatDate(task.start)} – ${formatDate(task.end)}`}
+                  aria-label={task.name}
+                >
+                  <div className="h-full" style={{ width: `${task.progress * 100}%`, backgroundColor: color }} />
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {selected && (
+        <TaskDetails
+          task={selected}
+          phase={selected.phaseId ? phaseById.get(selected.phaseId) : undefined}
+          dependencies={data.tasks.filter((task) => selected.dependencies.includes(task.id))}
+          critical={data.criticalPath.includes(selected.id)}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+    </GraphViewerLayout>
+  );
+}
+
+interface TaskDetailsProps {
+  task: GanttTask;
+  phase?: GanttPhase;
+  dependencies: GanttTask[];
+  critical: boolean;
+  onClose: () => void;
+}
+
+function TaskDetails({ task, phase, dependencies, critical, onClose }: TaskDetailsProps) {
+  const days = taskDays(task);
+
+  return (
+    <aside className="absolute right-4 bottom-4 w-80 p-4 rounded-lg shadow-lg bg-[var(--color-surface-base)] border border-[var(--color-border-subtle)]">
+      <div className="flex items-start justify-between gap-2">
+        <h3 className="text-sm font-semibold text-[var(--color-text-primary)]">{task.name}</h3>
+        <button
+          onClick={onClose}
+          className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]"
+          aria-label="Close task details"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-[var(--color-text-secondary)]">
+        {task.milestone
+          ? `Milestone · ${formatDate(task.start)}`
+          : `${formatDate(task.start)} – ${formatDate(task.end)} · ${days} day${days === 1 ? '' : 's'}`}
+        {phase && ` · ${phase.name}`}
+      </p>
+      {(task.startText || task.endText) && (
+        <p className="mt-2 text-xs text-[var(--color-text-tertiary)]">
+          Written as &ldquo;{[task.startText, task.endText].filter(Boolean).join(' – ')}&rdquo;
+        </p>
+      )}
+      {task.estimated && (
+        <p className="mt-1 text-xs text-[var(--color-text-tertiary)]">
+          Dates estimated from durations and dependencies.
+        </p>
+      )}
+      {task.description && (
+        <p className="mt-2 text-xs text-[var(--color-text-secondary)]">{task.description}</p>
+      )}
+      <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+        {task.owner && (
+          <>
+            <dt className="text-[var(--color-text-tertiary)]">Owner</dt>
+            <dd className="text-[var(--color-text-primary)]">{task.owner}</dd>
+          </>
+        )}
+        <dt className="text-[var(--color-text-tertiary)]">Progress</dt>
+        <dd className="text-[var(--color-text-primary)]">
+          {Math.round(task.progress * 100)}%{task.status && ` · ${task.status.replace('-', ' ')}`}
+        </dd>
+        {dependencies.length > 0 && (
+          <>
+            <dt className="text-[var(--color-text-tertiary)]">After</dt>
+            <dd className="text-[var(--color-text-primary)]">{dependencies.map((d) => d.name).join(', ')}</dd>
+          </>
+        )}
+      </dl>
+      {critical && (
+        <p className="mt-2 text-xs font-medium text-red-500">On the critical path</p>
+      )}
+      {task.source && (
+        <blockquote className="mt-3 pl-3 border-l-2 border-[var(--color-border-subtle)] text-xs text-[var(--color-text-secondary)]">
+          {task.source.text}
+        </blockquote>
+      )}
+    </aside>
+  );
+}
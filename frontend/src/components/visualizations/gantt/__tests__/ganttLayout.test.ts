@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+
+import { defaultZoom, dependencyPath, ganttRows, taskDays } from '../ganttLayout';
+
+import type { GanttData, GanttTask } from '../../../../../../shared/src/types';
+
+const task = (id: string, start: string, end: string, extra: Partial<GanttTask> = {}): GanttTask => ({
+  id,
+  name: id,
+  start,
+  end,
+  estimated: false,
+  milestone: false,
+  progress: 0,
+  dependencies: [],
+  ...extra,
+});
+
+const plan = (tasks: GanttTask[], phases: GanttData['phases'] = []): GanttData => ({
+  tasks,
+  phases,
+  start: tasks[0].start,
+  end: tasks[tasks.length - 1].end,
+  criticalPath: [],
+});
+
+describe('ganttRows', () => {
+  it('lists tasks without headers when the plan has no phases', () => {
+    const rows = ganttRows(plan([task('a', '2024-01-01', '2024-01-05')]));
+
+    expect(rows).toEqual([{ kind: 'task', task: expect.objectContaining({ id: 'a' }) }]);
+  });
+
+  it('groups tasks under their phase and keeps unphased tasks last', () => {
+    const rows = ganttRows(plan(
+      [
+        task('a', '2024-01-01', '2024-01-05', { phaseId: 'build' }),
+        task('b', '2024-01-02', '2024-01-05'),
+        task('c', '2024-01-03', '2024-01-05', { phaseId: 'plan' }),
+      ],
+      [
+        { id: 'plan', name: 'Plan', color: '#000' },
+        { id: 'build', name: 'Build', color: '#fff' },
+        { id: 'empty', name: 'Empty', color: '#aaa' },
+      ],
+    ));
+
+    expect(rows.map((row) => (row.kind === 'phase' ? `phase:${row.phase.id}` : row.task.id))).toEqual([
+      'phase:plan',
+      'c',
+      'phase:build',
+      'a',
+      'b',
+    ]);
+  });
+});
+
+describe('defaultZoom', () => {
+  it('fits the zoom level to the length of the plan', () => {
+    expect(defaultZoom(plan([task('a', '2024-01-01', '2024-01-10')]))).toBe('day');
+    expect(defaultZoom(plan([task('a', '2024-01-01', '2024-03-01')]))).toBe('week');
+    expect(defaultZoom(plan([task('a', '2024-01-01', '2024-12-01')]))).toBe('month');
+    expect(defaultZoom(plan([task('a', '2024-01-01', '2027-01-01')]))).toBe('year');
+  });
+});
+
+describe('dependencyPath', () => {
+  it('draws an elbow when the successor starts after the predecessor ends', () => {
+    expect(dependencyPath(100, 20, 140, 60)).toBe('M 100 20 H 108 V 60 H 140');
+  });
+
+  it('routes around overlapping bars through the gap between rows', () => {
+    expect(dependencyPath(100, 20, 90, 60)).toBe('M 100 20 H 108 V 40 H 82 V 60 H 90');
+  });
+});
+
+describe('taskDays', () => {
+  it('counts whole days', () => {
+    expect(taskDays(task('a', '2024-01-01T00:00:00.000Z', '2024-01-15T00:00:00.000Z'))).toBe(14);
+  });
+});
@@ -0,0 +1,74 @@
+import { timelineRange } from '../timeline/timelineScale';
+
+import type {
+  GanttData,
+  GanttPhase,
+  GanttTask,
+} from '../../../../../shared/src/types';
+import type { TimelineZoom } from '../timeline/timelineScale';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type GanttRow =
+  | { kind: 'phase'; phase: GanttPhase }
+  | { kind: 'task'; task: GanttTask };
+
+/**
+ * Rows in display order: each phase header followed by its tasks, then the tasks
+ * without a phase. No headers are shown when the plan has no phases.
+ */
+export function ganttRows(data: GanttData): GanttRow[] {
+  if (data.phases.length === 0) {
+    return data.tasks.map((task) => ({ kind: 'task', task }));
+  }
+
+  const rows: GanttRow[] = [];
+  for (const phase of data.phases) {
+    const tasks = data.tasks.filter((task) => task.phaseId === phase.id);
+    if (tasks.length === 0) continue;
+    rows.push({ kind: 'phase', phase }, ...tasks.map((task) => ({ kind: 'task' as const, task })));
+  }
+  const phaseIds = new Set(data.phases.map((phase) => phase.id));
+  data.tasks
+    .filter((task) => !task.phaseId || !phaseIds.has(task.phaseId))
+    .forEach((task) => rows.push({ kind: 'task', task }));
+  return rows;
+}
+
+/**
+ * Zoom level that fits the whole plan in a few screen widths
+ */
+export function defaultZoom(data: GanttData): TimelineZoom {
+  const days = (Date.parse(data.end) - Date.parse(data.start)) / DAY_MS;
+  if (days > 730) return 'year';
+  if (days > 120) return 'month';
+  if (days > 21) return 'week';
+  return 'day';
+}
+
+export function ganttRange(tasks: GanttTask[], zoom: TimelineZoom): { start: number; end: number } {
+  return timelineRange(tasks.map((task) => ({ date: task.start, endDate: task.end })), zoom);
+}
+
+/**
+ * Elbow connector from the end of a predecessor bar to the start of its successor:
+ * out to the right, down (or up) to the successor's row, then into its start.
+ */
+export function dependencyPath(fromX: number, fromY: number, toX: number, toY: number): string {
+  const elbow = 8;
+  if (toX - fromX >= elbow * 2) {
+    const midX = fromX + elbow;
+    return `M ${fromX} ${fromY} H ${midX} V ${toY} H ${toX}`;
+  }
+
+  // The successor starts before the predecessor ends: route around through the gap between rows
+  const midY = (fromY + toY) / 2;
+  return `M ${fromX} ${fromY} H ${fromX + elbow} V ${midY} H ${toX - elbow} V ${toY} H ${toX}`;
+}
+
+/**
+ * Length of a task in whole days, as shown next to its dates
+ */
+export function taskDays(task: GanttTask): number {
+  return Math.round((Date.parse(task.end) - Date.parse(task.start)) / DAY_MS);
+}
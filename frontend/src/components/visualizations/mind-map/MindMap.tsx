@@ -1,4 +1,4 @@
-import { MindMapData } from '@shared/types';
+import { MindMapData, MindMapNode as MindMapDataNode, VisualizationPatchOperation } from '@shared/types';
 import React, {
   useEffect,
   useMemo,
@@ -13,6 +13,8 @@ import {
   GraphEdgeLayer,
   DynamicBezierPath,
   GraphEntityCard,
+  GraphEditPanel,
+  toEditPath,
 } from '../toolkit';
 
 import { useMindMapStore } from './stores/mindMapStore';
@@ -21,8 +23,23 @@ import { transformMindMapData } from './utils/dataTransformers';
 
 interface MindMapProps {
   data: MindMapData;
+  onEdit?: (operations: VisualizationPatchOperation[]) => void;
 }
 
+// Pointer segments from the root down to a node, for addressing edits
+const findNodePath = (
+  node: MindMapDataNode,
+  id: string,
+  segments: string[] = ['root'],
+): { node: MindMapDataNode; segments: string[] } | null => {
+  if (node.id === id) return { node, segments };
+  for (const child of node.children || []) {
+    const found = findNodePath(child, id, [...segments, 'children', child.id]);
+    if (found) return found;
+  }
+  return null;
+};
+
 // Helper to build tree structure from flat nodes
 interface TreeNode extends MindMapGraphNode {
   children: TreeNode[];
@@ -153,7 +170,7 @@ const MindMapNode = React.memo(
   },
 );
 
-export const MindMap: React.FC<MindMapProps> = ({ data }) => {
+export const MindMap: React.FC<MindMapProps> = ({ data, onEdit }) => {
   const store = useMindMapStore();
   const contentRef = useRef<HTMLDivElement>(null);
   const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
@@ -214,6 +231,32 @@ export const MindMap: React.FC<MindMapProps> = ({ data }) => {
     store.selectNode(null);
   };
 
+  const selected = useMemo(
+    () => (store.selectedNodeId && data?.root
+      ? findNodePath(data.root, store.selectedNodeId)
+      : null),
+    [data, store.selectedNodeId],
+  );
+
+  const handleAddChild = () => {
+    if (!onEdit || !selected) return;
+    const parent = selected.node;
+    const child: MindMapDataNode = {
+      id: `node-${Date.now()}`,
+      label: 'New topic',
+      subtitle: '',
+      summary: '',
+      children: [],
+      level: parent.level + 1,
+      color: parent.color,
+      icon: '💡',
+      sourceRef: parent.sourceRef,
+      detailedExplanation: '',
+      metadata: { importance: 0.5, confidence: 1 },
+    };
+    onEdit([{ op: 'add', path: `${toEditPath(...selected.segments)}/children/-`, value: child }]);
+  };
+
   // Filter edges for visible nodes
   // We can just iterate over the full edges list and check if both ends are in `coords`
   // This is simpler than tracking "visibleNodes" manually
@@ -279,6 +322,32 @@ export const MindMap: React.FC<MindMapProps> = ({ data }) => {
             </GraphEdgeLayer>
           </div>
         </div>
+
+        {onEdit && selected && (
+          <GraphEditPanel
+            title="Edit topic"
+            label={selected.node.label}
+            onRename={(label) => onEdit([
+              { op: 'replace', path: toEditPath(...selected.segments, 'label'), value: label },
+            ])}
+            onDelete={
+              selected.node.id === data.root.id
+                ? undefined
+                : () => {
+                  onEdit([{ op: 'remove', path: toEditPath(...selected.segments) }]);
+                  store.selectNode(null);
+                }
+            }
+            onClose={() => store.selectNode(null)}
+          >
+            <button
+              onClick={handleAddChild}
+              className="text-xs font-medium text-[var(--color-primary)] hover:underline"
+            >
+              + Add subtopic
+            </button>
+          </GraphEditPanel>
+        )}
       </div>
     </GraphViewerLayout>
   );
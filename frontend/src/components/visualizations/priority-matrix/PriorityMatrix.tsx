@@ -0,0 +1,199 @@
+import { useMemo, useRef, useState } from 'react';
+
+import { GraphViewerLayout } from '../toolkit';
+
+import {
+  itemsInQuadrant,
+  moveItem,
+  pointToScores,
+  quadrantFor,
+  quadrantGrid,
+} from './priorityLayout';
+
+import type {
+  PriorityMatrixData,
+  PriorityQuadrant,
+  VisualizationPatchOperation,
+} from '../../../../../shared/src/types';
+import type { PointerEvent } from 'react';
+
+interface PriorityMatrixProps {
+  data: PriorityMatrixData;
+  onEdit?: (operations: VisualizationPatchOperation[]) => void;
+}
+
+interface DragState {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export function PriorityMatrix({ data, onEdit }: PriorityMatrixProps) {
+  const plotRef = useRef<HTMLDivElement>(null);
+  const [quadrantFilter, setQuadrantFilter] = useState<PriorityQuadrant | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const grid = useMemo(() => quadrantGrid(data.quadrants), [data.quadrants]);
+  const quadrantById = useMemo(() => new Map(data.quadrants.map((q) => [q.id, q])), [data.quadrants]);
+  const selected = data.items.find((item) => item.id === selectedId);
+
+  const scoresAt = (e: PointerEvent) => pointToScores(e.clientX, e.clientY, plotRef.current!.getBoundingClientRect());
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (!drag || !plotRef.current) return;
+    setDrag({ id: drag.id, ...scoresAt(e) });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const item = data.items.find((i) => i.id === drag.id);
+    if (onEdit && item && (item.x !== drag.x || item.y !== drag.y)) {
+      onEdit(moveItem(data, drag.id, drag.x, drag.y));
+    }
+    setDrag(null);
+  };
+
+  return (
+    <GraphViewerLayout
+      title="Priority Matrix"
+      description={`${data.items.length} items by ${data.yAxis.label.toLowerCase()} and ${data.xAxis.label.toLowerCase()}${
+        onEdit ? ' · drag an item to re-prioritize it' : ''
+      }`}
+    >
+      <div className="absolute inset-0 flex overflow-hidden bg-[var(--color-background-primary)]">
+        <div className="flex-1 flex flex-col min-w-0 p-6">
+          <div className="flex flex-1 min-h-0 gap-2">
+            {/* Y axis */}
+            <div className="flex flex-col justify-between items-center w-6 text-xs text-[var(--color-text-tertiary)]">
+              <span className="[writing-mode:vertical-rl] rotate-180">{data.yAxis.highLabel}</span>
+              <span className="[writing-mode:vertical-rl] rotate-180 font-semibold text-[var(--color-text-secondary)]">
+                {data.yAxis.label}
+              </span>
+              <span className="[writing-mode:vertical-rl] rotate-180">{data.yAxis.lowLabel}</span>
+            </div>
+
+            <div
+              ref={plotRef}
+              className="relative flex-1 grid grid-cols-2 grid-rows-2 gap-px rounded-lg overflow-hidden border border-[var(--color-border-subtle)] bg-[var(--color-border-subtle)] select-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+            >
+              {grid.map((quadrant) => (
+                <button
+                  key={quadrant.id}
+                  onClick={() => setQuadrantFilter(quadrantFilter === quadrant.id ? null : quadrant.id)}
+                  className="relative p-3 text-left bg-[var(--color-surface-base)]"
+                  style={{
+                    backgroundImage: `linear-gradient(${quadrant.color}${quadrantFilter === quadrant.id ? '30' : '12'}, ${quadrant.color}${quadrantFilter === quadrant.id ? '30' : '12'})`,
+                  }}
+                  aria-pressed={quadrantFilter === quadrant.id}
+                >
+                  <span className="text-xs font-bold uppercase tracking-wide" style={{ color: quadrant.color }}>
+                    {quadrant.label}
+                  </span>
+                  <span className="block text-[11px] text-[var(--color-text-tertiary)]">{quadrant.description}</span>
+                </button>
+              ))}
+
+              {data.items.map((item) => {
+                const position = drag?.id === item.id ? drag : item;
+                const quadrant = quadrantById.get(
+                  drag?.id === item.id ? quadrantFor(drag.x, drag.y, data.quadrants) : item.quadrant,
+                );
+                const dimmed = quadrantFilter !== null && item.quadrant !== quadrantFilter;
+
+                return (
+                  <div
+                    key={item.id}
+                    className={`absolute flex items-center gap-1.5 -translate-x-1.5 -translate-y-1.5 ${
+                      dimmed ? 'opacity-25' : ''
+                    } ${onEdit ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'}`}
+                    style={{ left: `${position.x * 100}%`, top: `${(1 - position.y) * 100}%`, touchAction: 'none' }}
+                    onPointerDown={(e) => {
+                      setSelectedId(item.id);
+                      if (!onEdit) return;
+                      e.preventDefault();
+                      setDrag({ id: item.id, x: item.x, y: item.y });
+                    }}
+                    title={item.rationale || item.label}
+                  >
+                    <span
+                      className={`w-3 h-3 rounded-full border-2 border-[var(--color-surface-base)] ${
+                        item.id === selectedId ? 'ring-2 ring-[var(--aurora-1)]' : ''
+                      }`}
+                      style={{ backgroundColor: quadrant?.color }}
+                    />
+                    <span className="max-w-[160px] truncate text-xs font-medium text-[var(--color-text-primary)] bg-[var(--color-surface-base)]/80 px-1 rounded">
+                      {item.label}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* X axis */}
+          <div className="flex justify-between ml-8 mt-2 text-xs text-[var(--color-text-tertiary)]">
+            <span>{data.xAxis.lowLabel}</span>
+            <span className="font-semibold text-[var(--color-text-secondary)]">{data.xAxis.label}</span>
+            <span>{data.xAxis.highLabel}</span>
+          </div>
+        </div>
+
+        {/* Item list, filtered by the selected quadrant */}
+        <aside className="w-80 flex-none overflow-y-auto custom-scrollbar border-l border-[var(--color-border-subtle)] bg-[var(--color-surface-base)] p-4 space-y-4">
+          {selected && (
+            <div className="p-3 rounded-lg border border-[var(--color-border-subtle)]">
+              <h3 className="text-sm font-semibold text-[var(--color-text-primary)]">{selected.label}</h3>
+              <p className="mt-1 text-xs text-[var(--color-text-secondary)]">
+                {data.yAxis.label} {Math.round(selected.y * 100)}% · {data.xAxis.label} {Math.round(selected.x * 100)}%
+              </p>
+              {selected.description && (
+                <p className="mt-2 text-xs text-[var(--color-text-secondary)]">{selected.description}</p>
+              )}
+              {selected.rationale && (
+                <p className="mt-2 text-xs italic text-[var(--color-text-tertiary)]">{selected.rationale}</p>
+              )}
+              {selected.source && (
+                <blockquote className="mt-2 pl-3 border-l-2 border-[var(--color-border-subtle)] text-xs text-[var(--color-text-secondary)]">
+                  {selected.source.text}
+                </blockquote>
+              )}
+            </div>
+          )}
+
+          {grid
+            .filter((quadrant) => !quadrantFilter || quadrant.id === quadrantFilter)
+            .map((quadrant) => {
+              const items = itemsInQuadrant(data.items, quadrant.id);
+              return (
+                <section key={quadrant.id}>
+                  <h4 className="text-xs font-bold uppercase tracking-wide" style={{ color: quadrant.color }}>
+                    {quadrant.label} ({items.length})
+                  </h4>
+                  <ul className="mt-1 space-y-1">
+                    {items.map((item) => (
+                      <li key={item.id}>
+                        <button
+                          onClick={() => setSelectedId(item.id)}
+                          className={`w-full text-left text-sm truncate ${
+                            item.id === selectedId
+                              ? 'font-semibold text-[var(--color-text-primary)]'
+                              : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
+                          }`}
+                        >
+                          {item.label}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              );
+            })}
+        </aside>
+      </div>
+    </GraphViewerLayout>
+  );
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+
+import { itemsInQuadrant, moveItem, pointToScores, quadrantGrid } from '../priorityLayout';
+
+import type { PriorityMatrixData } from '../../../../../../shared/src/types';
+
+const data: PriorityMatrixData = {
+  mode: 'impact-effort',
+  xAxis: { label: 'Effort', lowLabel: 'Low effort', highLabel: 'High effort' },
+  yAxis: { label: 'Impact', lowLabel: 'Low impact', highLabel: 'High impact' },
+  quadrants: [
+    { id: 'quick-win', label: 'Quick wins', description: '', highX: false, highY: true, color: '#0f0' },
+    { id: 'major-project', label: 'Major projects', description: '', highX: true, highY: true, color: '#00f' },
+    { id: 'fill-in', label: 'Fill-ins', description: '', highX: false, highY: false, color: '#ff0' },
+    { id: 'thankless-task', label: 'Thankless tasks', description: '', highX: true, highY: false, color: '#f00' },
+  ],
+  items: [
+    { id: 'sso', label: 'Add SSO', x: 0.25, y: 1, quadrant: 'quick-win' },
+    { id: 'docs', label: 'Docs', x: 0.1, y: 0.75, quadrant: 'quick-win' },
+    { id: 'rewrite', label: 'Rewrite', x: 1, y: 0.25, quadrant: 'thankless-task' },
+  ],
+};
+
+describe('pointToScores', () => {
+  it('maps a pointer position to scores with y growing upwards, clamped to the plot', () => {
+    const rect = { left: 100, top: 50, width: 200, height: 100 };
+
+    expect(pointToScores(150, 75, rect)).toEqual({ x: 0.25, y: 0.75 });
+    expect(pointToScores(400, 200, rect)).toEqual({ x: 1, y: 0 });
+  });
+});
+
+describe('moveItem', () => {
+  it('replaces the position and re-files the item when it changes quadrant', () => {
+    expect(moveItem(data, 'rewrite', 0.8, 0.9)).toEqual([
+      { op: 'replace', path: '/items/rewrite/x', value: 0.8 },
+      { op: 'replace', path: '/items/rewrite/y', value: 0.9 },
+      { op: 'replace', path: '/items/rewrite/quadrant', value: 'major-project' },
+    ]);
+  });
+
+  it('keeps the quadrant when the item stays in it', () => {
+    expect(moveItem(data, 'sso', 0.1, 0.9)).toHaveLength(2);
+    expect(moveItem(data, 'missing', 0, 0)).toEqual([]);
+  });
+});
+
+describe('quadrantGrid', () => {
+  it('orders quadrants top row first, low x on the left', () => {
+    expect(quadrantGrid(data.quadrants).map((q) => q.id)).toEqual([
+      'quick-win',
+      'major-project',
+      'fill-in',
+      'thankless-task',
+    ]);
+  });
+});
+
+describe('itemsInQuadrant', () => {
+  it('sorts the most valuable items first', () => {
+    expect(itemsInQuadrant(data.items, 'quick-win').map((i) => i.id)).toEqual(['sso', 'docs']);
+  });
+});
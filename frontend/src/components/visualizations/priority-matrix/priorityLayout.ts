@@ -0,0 +1,72 @@
+import { toEditPath } from '../toolkit/utils';
+
+import type {
+  PriorityItem,
+  PriorityMatrixData,
+  PriorityQuadrant,
+  PriorityQuadrantInfo,
+  VisualizationPatchOperation,
+} from '../../../../../shared/src/types';
+
+// Same split as the backend builder: scores at the midpoint count as high
+const HIGH_THRESHOLD = 0.5;
+
+const clamp = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
+
+export function quadrantFor(x: number, y: number, quadrants: PriorityQuadrantInfo[]): PriorityQuadrant {
+  const highX = x >= HIGH_THRESHOLD;
+  const highY = y >= HIGH_THRESHOLD;
+  return quadrants.find((q) => q.highX === highX && q.highY === highY)?.id || quadrants[0].id;
+}
+
+/**
+ * Quadrants in reading order: top row (high y) first, low x on the left
+ */
+export function quadrantGrid(quadrants: PriorityQuadrantInfo[]): PriorityQuadrantInfo[] {
+  return [...quadrants].sort((a, b) => Number(b.highY) - Number(a.highY) || Number(a.highX) - Number(b.highX));
+}
+
+/**
+ * Scores for a pointer position inside the plot; y grows upwards
+ */
+export function pointToScores(
+  clientX: number,
+  clientY: number,
+  rect: { left: number; top: number; width: number; height: number },
+): { x: number; y: number } {
+  return {
+    x: clamp((clientX - rect.left) / rect.width),
+    y: clamp(1 - (clientY - rect.top) / rect.height),
+  };
+}
+
+/**
+ * Edit operations that move an item and re-file it under the quadrant it lands in
+ */
+export function moveItem(
+  data: PriorityMatrixData,
+  itemId: string,
+  x: number,
+  y: number,
+): VisualizationPatchOperation[] {
+  const item = data.items.find((i) => i.id === itemId);
+  if (!item) return [];
+
+  const quadrant = quadrantFor(x, y, data.quadrants);
+  return [
+    { op: 'replace', path: toEditPath('items', itemId, 'x'), value: clamp(x) },
+    { op: 'replace', path: toEditPath('items', itemId, 'y'), value: clamp(y) },
+    ...(quadrant !== item.quadrant
+      ? [{ op: 'replace' as const, path: toEditPath('items', itemId, 'quadrant'), value: quadrant }]
+      : []),
+  ];
+}
+
+/**
+ * Items of a quadrant, most valuable first (highest y, then lowest x)
+ */
+export function itemsInQuadrant(items: PriorityItem[], quadrant: PriorityQuadrant): PriorityItem[] {
+  return items
+    .filter((item) => item.quadrant === quadrant)
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+}
@@ -0,0 +1,192 @@
+import { AlertTriangle } from 'lucide-react';
+import { Fragment, useMemo, useState } from 'react';
+
+import { GraphViewerLayout } from '../toolkit';
+
+import {
+  RESPONSIBILITIES,
+  RESPONSIBILITY_LABELS,
+  activitiesForRole,
+  activityIssues,
+  cellId,
+  cellResponsibilities,
+  toggleResponsibility,
+} from './raciCells';
+
+import type {
+  RaciMatrixData,
+  RaciResponsibility,
+  VisualizationPatchOperation,
+} from '../../../../../shared/src/types';
+
+interface RaciMatrixProps {
+  data: RaciMatrixData;
+  onEdit?: (operations: VisualizationPatchOperation[]) => void;
+}
+
+const LETTER_STYLES: Record<RaciResponsibility, string> = {
+  R: 'bg-indigo-500 text-white',
+  A: 'bg-red-500 text-white',
+  C: 'bg-amber-400 text-black',
+  I: 'bg-slate-400 text-white',
+};
+
+export function RaciMatrix({ data, onEdit }: RaciMatrixProps) {
+  const [roleId, setRoleId] = useState<string | null>(null);
+  const [activeCell, setActiveCell] = useState<string | null>(null);
+
+  const activities = useMemo(() => activitiesForRole(data, roleId), [data, roleId]);
+  const issues = useMemo(
+    () => new Map(data.activities.map((activity) => [activity.id, activityIssues(data, activity.id)])),
+    [data],
+  );
+  const withIssues = [...issues.values()].filter((list) => list.length > 0).length;
+
+  // Group rows by phase when the document names phases
+  const phases = [...new Set(activities.map((activity) => activity.phase || ''))];
+
+  return (
+    <GraphViewerLayout
+      title="RACI Matrix"
+      description={`${data.activities.length} activities across ${data.roles.length} roles${
+        withIssues > 0 ? ` · ${withIssues} with gaps` : ''
+      }${onEdit ? ' · click a cell to edit' : ''}`}
+    >
+      <div className="absolute inset-0 flex flex-col overflow-hidden bg-[var(--color-background-primary)]">
+        <div className="flex flex-wrap items-center gap-3 p-4 border-b border-[var(--color-border-subtle)] bg-[var(--color-surface-base)] text-xs">
+          <select
+            aria-label="Filter by role"
+            className="text-sm rounded-md border border-[var(--color-border-subtle)] bg-[var(--color-surface-base)] text-[var(--color-text-primary)] px-2 py-1.5"
+            value={roleId || ''}
+            onChange={(e) => setRoleId(e.target.value || null)}
+          >
+            <option value="">All roles</option>
+            {data.roles.map((role) => (
+              <option key={role.id} value={role.id}>
+                {role.name}
+              </option>
+            ))}
+          </select>
+          {RESPONSIBILITIES.map((letter) => (
+            <span key={letter} className="flex items-center gap-1 text-[var(--color-text-secondary)]">
+              <span className={`inline-flex w-5 h-5 items-center justify-center rounded font-bold ${LETTER_STYLES[letter]}`}>
+                {letter}
+              </span>
+              {RESPONSIBILITY_LABELS[letter]}
+            </span>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar">
+          <table className="text-sm border-collapse">
+            <thead className="sticky top-0 z-10 bg-[var(--color-surface-base)]">
+              <tr>
+                <th className="sticky left-0 bg-[var(--color-surface-base)] px-4 py-2 text-left text-xs uppercase tracking-wide text-[var(--color-text-tertiary)]">
+                  Activity
+                </th>
+                {data.roles.map((role) => (
+                  <th
+                    key={role.id}
+                    className={`px-3 py-2 text-xs font-semibold min-w-[96px] ${
+                      role.id === roleId ? 'text-[var(--aurora-1)]' : 'text-[var(--color-text-secondary)]'
+                    }`}
+                    title={role.description}
+                  >
+                    {role.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {phases.map((phase) => (
+                <Fragment key={phase || 'none'}>
+                  {phase && (
+                    <tr>
+                      <th
+                        colSpan={data.roles.length + 1}
+                        className="px-4 pt-4 pb-1 text-left text-xs font-bold uppercase tracking-[0.15em] text-[var(--color-text-secondary)]"
+                      >
+                        {phase}
+                      </th>
+                    </tr>
+                  )}
+                  {activities.filter((activity) => (activity.phase || '') === phase).map((activity) => {
+                    const activityProblems = issues.get(activity.id) || [];
+                    return (
+                      <tr key={activity.id} className="border-t border-[var(--color-border-subtle)]">
+                        <td
+                          className="sticky left-0 bg-[var(--color-surface-base)] px-4 py-2 min-w-[220px] text-[var(--color-text-primary)]"
+                          title={activity.source?.text || activity.description}
+                        >
+                          <div className="flex items-center gap-2">
+                            <span>{activity.name}</span>
+                            {activityProblems.length > 0 && (
+                              <span title={activityProblems.join('; ')}>
+                                <AlertTriangle className="w-3.5 h-3.5 text-amber-500" aria-label={activityProblems.join('; ')} />
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                        {data.roles.map((role) => {
+                          const id = cellId(activity.id, role.id);
+                          const letters = cellResponsibilities(data, activity.id, role.id);
+                          const isActive = onEdit && activeCell === id;
+
+                          return (
+                            <td
+                              key={role.id}
+                              className={`px-2 py-2 text-center ${
+                                role.id === roleId ? 'bg-[var(--color-surface-elevated)]' : ''
+                              } ${onEdit ? 'cursor-pointer hover:bg-[var(--color-surface-elevated)]' : ''}`}
+                              onClick={() => onEdit && setActiveCell(isActive ? null : id)}
+                            >
+                              <div className="flex items-center justify-center gap-1 min-h-[20px]">
+                                {isActive
+                                  ? RESPONSIBILITIES.map((letter) => (
+                                    <button
+                                      key={letter}
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        onEdit?.(toggleResponsibility(data, activity.id, role.id, letter));
+                                      }}
+                                      className={`w-5 h-5 rounded text-xs font-bold ${
+                                        letters.includes(letter)
+                                          ? LETTER_STYLES[letter]
+                                          : 'border border-[var(--color-border-subtle)] text-[var(--color-text-tertiary)]'
+                                      }`}
+                                      aria-pressed={letters.includes(letter)}
+                                      title={RESPONSIBILITY_LABELS[letter]}
+                                    >
+                                      {letter}
+                                    </button>
+                                  ))
+                                  : letters.map((letter) => (
+                                    <span
+                                      key={letter}
+                                      className={`inline-flex w-5 h-5 items-center justify-center rounded text-xs font-bold ${LETTER_STYLES[letter]}`}
+                                      title={RESPONSIBILITY_LABELS[letter]}
+                                    >
+                                      {letter}
+                                    </span>
+                                  ))}
+                              </div>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+          {activities.length === 0 && (
+            <div className="flex items-center justify-center h-64 text-[var(--color-text-secondary)]">
+              This role is not involved in any activity.
+            </div>
+          )}
+        </div>
+      </div>
+    </GraphViewerLayout>
+  );
+}
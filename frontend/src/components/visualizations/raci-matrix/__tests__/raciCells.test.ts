@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+
+import { activitiesForRole, activityIssues, toggleResponsibility } from '../raciCells';
+
+import type { RaciMatrixData } from '../../../../../../shared/src/types';
+
+const data: RaciMatrixData = {
+  roles: [{ id: 'pm', name: 'PM' }, { id: 'fin', name: 'Finance' }],
+  activities: [{ id: 'budget', name: 'Approve budget' }, { id: 'plan', name: 'Plan' }],
+  assignments: [
+    { id: 'budget:fin', activityId: 'budget', roleId: 'fin', responsibilities: ['R', 'A'] },
+    { id: 'budget:pm', activityId: 'budget', roleId: 'pm', responsibilities: ['C'] },
+    { id: 'plan:pm', activityId: 'plan', roleId: 'pm', responsibilities: ['A', 'I'] },
+  ],
+};
+
+describe('toggleResponsibility', () => {
+  it('adds an assignment for an empty cell', () => {
+    expect(toggleResponsibility(data, 'plan', 'fin', 'C')).toEqual([{
+      op: 'add',
+      path: '/assignments/-',
+      value: { id: 'plan:fin', activityId: 'plan', roleId: 'fin', responsibilities: ['C'] },
+    }]);
+  });
+
+  it('replaces the letters of an existing cell in RACI order', () => {
+    expect(toggleResponsibility(data, 'plan', 'pm', 'R')).toEqual([
+      { op: 'replace', path: '/assignments/plan:pm/responsibilities', value: ['R', 'A', 'I'] },
+    ]);
+  });
+
+  it('removes a cell left without letters', () => {
+    expect(toggleResponsibility(data, 'budget', 'pm', 'C')).toEqual([
+      { op: 'remove', path: '/assignments/budget:pm' },
+    ]);
+  });
+});
+
+describe('activityIssues', () => {
+  it('flags activities without a responsible or a single accountable role', () => {
+    expect(activityIssues(data, 'budget')).toEqual([]);
+    expect(activityIssues(data, 'plan')).toEqual(['No one is responsible']);
+  });
+});
+
+describe('activitiesForRole', () => {
+  it('keeps the activities a role takes part in', () => {
+    expect(activitiesForRole(data, 'fin').map((a) => a.id)).toEqual(['budget']);
+    expect(activitiesForRole(data, null)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,79 @@
+import { toEditPath } from '../toolkit/utils';
+
+import type {
+  RaciMatrixData,
+  RaciResponsibility,
+  VisualizationPatchOperation,
+} from '../../../../../shared/src/types';
+
+export const RESPONSIBILITIES: RaciResponsibility[] = ['R', 'A', 'C', 'I'];
+
+export const RESPONSIBILITY_LABELS: Record<RaciResponsibility, string> = {
+  R: 'Responsible',
+  A: 'Accountable',
+  C: 'Consulted',
+  I: 'Informed',
+};
+
+export const cellId = (activityId: string, roleId: string) => `${activityId}:${roleId}`;
+
+export function cellResponsibilities(
+  data: RaciMatrixData,
+  activityId: string,
+  roleId: string,
+): RaciResponsibility[] {
+  return data.assignments.find((a) => a.id === cellId(activityId, roleId))?.responsibilities || [];
+}
+
+/**
+ * Problems with an activity's assignments: RACI expects exactly one Accountable and at
+ * least one Responsible role per activity
+ */
+export function activityIssues(data: RaciMatrixData, activityId: string): string[] {
+  const assignments = data.assignments.filter((a) => a.activityId === activityId);
+  const accountable = assignments.filter((a) => a.responsibilities.includes('A')).length;
+  const issues: string[] = [];
+
+  if (accountable === 0) issues.push('No one is accountable');
+  if (accountable > 1) issues.push(`${accountable} roles are accountable`);
+  if (!assignments.some((a) => a.responsibilities.includes('R'))) issues.push('No one is responsible');
+  return issues;
+}
+
+/**
+ * Edit operations that switch one letter of a cell on or off. A cell without
+ * assignment is added, and one left without letters is removed.
+ */
+export function toggleResponsibility(
+  data: RaciMatrixData,
+  activityId: string,
+  roleId: string,
+  letter: RaciResponsibility,
+): VisualizationPatchOperation[] {
+  const id = cellId(activityId, roleId);
+  const current = cellResponsibilities(data, activityId, roleId);
+  const next = RESPONSIBILITIES.filter((candidate) => (
+    candidate === letter ? !current.includes(letter) : current.includes(candidate)
+  ));
+
+  if (current.length === 0) {
+    return [{
+      op: 'add',
+      path: toEditPath('assignments', '-'),
+      value: { id, activityId, roleId, responsibilities: next },
+    }];
+  }
+  if (next.length === 0) {
+    return [{ op: 'remove', path: toEditPath('assignments', id) }];
+  }
+  return [{ op: 'replace', path: toEditPath('assignments', id, 'responsibilities'), value: next }];
+}
+
+/**
+ * Activities the role takes part in; every activity when no role is selected
+ */
+export function activitiesForRole(data: RaciMatrixData, roleId: string | null) {
+  if (!roleId) return data.activities;
+  const involved = new Set(data.assignments.filter((a) => a.roleId === roleId).map((a) => a.activityId));
+  return data.activities.filter((activity) => involved.has(activity.id));
+}
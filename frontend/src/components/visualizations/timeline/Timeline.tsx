@@ -0,0 +1,212 @@
+import { X, ZoomIn, ZoomOut } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { GraphViewerLayout } from '../toolkit';
+
+import {
+  ZOOM_LEVELS,
+  buildTicks,
+  dateToX,
+  formatEventDate,
+  layoutEvents,
+  timelineRange,
+  zoomIn,
+  zoomOut,
+} from './timelineScale';
+
+import type { TimelineZoom } from './timelineScale';
+import type { TimelineData, TimelineEvent } from '../../../../../shared/src/types';
+import type { WheelEvent } from 'react';
+
+interface TimelineProps {
+  data: TimelineData;
+}
+
+const LABEL_WIDTH = 160;
+const LANE_HEIGHT = 56;
+const AXIS_HEIGHT = 40;
+const PADDING_X = 48;
+
+const ZOOM_LABELS: Record<TimelineZoom, string> = {
+  year: 'Years',
+  month: 'Months',
+  week: 'Weeks',
+  day: 'Days',
+};
+
+export function Timeline({ data }: TimelineProps) {
+  const [zoom, setZoom] = useState<TimelineZoom>(data.scale);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const range = useMemo(() => timelineRange(data.events, zoom), [data.events, zoom]);
+  const ticks = useMemo(() => buildTicks(range.start, range.end, zoom), [range, zoom]);
+  const positioned = useMemo(
+    () => layoutEvents(data.events, range.start, zoom, LABEL_WIDTH),
+    [data.events, range.start, zoom],
+  );
+
+  const laneCount = Math.max(1, ...positioned.map((p) => p.lane + 1));
+  const width = dateToX(range.end, range.start, zoom) + PADDING_X * 2;
+  const height = AXIS_HEIGHT + laneCount * LANE_HEIGHT + 24;
+  const selected = data.events.find((e) => e.id === selectedId);
+
+  // Ctrl/Cmd + wheel steps through zoom levels; plain wheel keeps scrolling
+  const handleWheel = (e: WheelEvent) => {
+    if (!e.ctrlKey && !e.metaKey) return;
+    e.preventDefault();
+    setZoom((current) => (e.deltaY < 0 ? zoomIn(current) : zoomOut(current)));
+  };
+
+  const actions = (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={() => setZoom(zoomOut)}
+        disabled={zoom === ZOOM_LEVELS[0]}
+        className="p-1.5 rounded-md text-[var(--color-text-secondary)] hover:bg-[var(--color-surface-elevated)] disabled:opacity-40"
+        aria-label="Zoom out"
+      >
+        <ZoomOut className="w-4 h-4" />
+      </button>
+      {ZOOM_LEVELS.map((level) => (
+        <button
+          key={level}
+          onClick={() => setZoom(level)}
+          className={`px-2 py-1 text-xs rounded-md ${
+            level === zoom
+              ? 'bg-[var(--aurora-1)] text-white'
+              : 'text-[var(--color-text-secondary)] hover:bg-[var(--color-surface-elevated)]'
+          }`}
+          aria-pressed={level === zoom}
+        >
+          {ZOOM_LABELS[level]}
+        </button>
+      ))}
+      <button
+        onClick={() => setZoom(zoomIn)}
+        disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+        className="p-1.5 rounded-md text-[var(--color-text-secondary)] hover:bg-[var(--color-surface-elevated)] disabled:opacity-40"
+        aria-label="Zoom in"
+      >
+        <ZoomIn className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  if (data.events.length === 0) {
+    return (
+      <GraphViewerLayout title="Timeline">
+        <div className="flex items-center justify-center h-full text-sm text-[var(--color-text-secondary)]">
+          No dated events were found in this document.
+        </div>
+      </GraphViewerLayout>
+    );
+  }
+
+  return (
+    <GraphViewerLayout
+      title="Timeline"
+      description={`${data.events.length} dated events resolved from the document text.`}
+      actions={actions}
+    >
+      <div className="absolute inset-0 overflow-auto" onWheel={handleWheel}>
+        <div className="relative" style={{ width, height }}>
+          {/* Axis */}
+          <div
+            className="absolute left-0 right-0 border-b border-[var(--color-border-subtle)]"
+            style={{ top: AXIS_HEIGHT - 1 }}
+          />
+          {ticks.map((tick) => {
+            const x = PADDING_X + dateToX(tick.time, range.start, zoom);
+            return (
+              <div key={tick.time} className="absolute top-0 bottom-0" style={{ left: x }}>
+                <div
+                  className={`h-full border-l ${
+                    tick.major ? 'border-[var(--color-border-strong)]' : 'border-[var(--color-border-subtle)]'
+                  }`}
+                />
+                <span
+                  className={`absolute top-2 left-1 whitespace-nowrap text-xs ${
+                    tick.major ? 'font-semibold text-[var(--color-text-primary)]' : 'text-[var(--color-text-tertiary)]'
+                  }`}
+                >
+                  {tick.label}
+                </span>
+              </div>
+            );
+          })}
+
+          {/* Events */}
+          {positioned.map(({ event, x, width: barWidth, lane }) => (
+            <button
+              key={event.id}
+              onClick={() => setSelectedId(event.id === selectedId ? null : event.id)}
+              className="absolute text-left group"
+              style={{
+                left: PADDING_X + x,
+                top: AXIS_HEIGHT + 12 + lane * LANE_HEIGHT,
+                width: Math.max(barWidth, LABEL_WIDTH),
+              }}
+              title={event.dateText}
+            >
+              {barWidth > 0 ? (
+                <div
+                  className="h-2 rounded-full opacity-70 group-hover:opacity-100"
+                  style={{ width: Math.max(barWidth, 4), backgroundColor: event.color }}
+                />
+              ) : (
+                <div
+                  className="w-3 h-3 -ml-1.5 rounded-full border-2 border-[var(--color-surface-base)]"
+                  style={{ backgroundColor: event.color }}
+                />
+              )}
+              <div
+                className={`mt-1 truncate text-xs ${
+                  event.id === selectedId
+                    ? 'font-semibold text-[var(--color-text-primary)]'
+                    : 'text-[var(--color-text-secondary)] group-hover:text-[var(--color-text-primary)]'
+                }`}
+                style={{ maxWidth: LABEL_WIDTH - 8 }}
+              >
+                {event.title}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {selected && <EventDetails event={selected} onClose={() => setSelectedId(null)} />}
+    </GraphViewerLayout>
+  );
+}
+
+function EventDetails({ event, onClose }: { event: TimelineEvent; onClose: () => void }) {
+  return (
+    <aside className="absolute right-4 bottom-4 w-80 p-4 rounded-lg shadow-lg bg-[var(--color-surface-base)] border border-[var(--color-border-subtle)]">
+      <div className="flex items-start justify-between gap-2">
+        <h3 className="text-sm font-semibold text-[var(--color-text-primary)]">{event.title}</h3>
+        <button
+          onClick={onClose}
+          className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]"
+          aria-label="Close event details"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-[var(--color-text-secondary)]">
+        {formatEventDate(event)}
+        {event.endDate && event.precision === 'day' && ` – ${formatEventDate({ ...event, date: event.endDate })}`}
+        {event.category && ` · ${event.category}`}
+      </p>
+      {event.dateText && (
+        <p className="mt-2 text-xs text-[var(--color-text-tertiary)]">
+          Written as &ldquo;{event.dateText}&rdquo;
+        </p>
+      )}
+      {event.source && (
+        <blockquote className="mt-3 pl-3 border-l-2 border-[var(--color-border-subtle)] text-xs text-[var(--color-text-secondary)]">
+          {event.source.text}
+        </blockquote>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  buildTicks,
+  dateToX,
+  formatEventDate,
+  layoutEvents,
+  timelineRange,
+  zoomIn,
+  zoomOut,
+} from '../timelineScale';
+
+import type { TimelineEvent } from '@shared/types';
+
+const event = (id: string, date: string, extra: Partial<TimelineEvent> = {}): TimelineEvent => ({
+  id,
+  date,
+  title: id,
+  description: '',
+  category: 'milestone',
+  color: '#4F46E5',
+  ...extra,
+});
+
+describe('timelineScale', () => {
+  it('pads the range to whole units around the events', () => {
+    const range = timelineRange([event('a', '2024-03-15'), event('b', '2024-05-02')], 'month');
+
+    expect(new Date(range.start).toISOString().substring(0, 10)).toBe('2024-02-01');
+    expect(new Date(range.end).toISOString().substring(0, 10)).toBe('2024-07-01');
+  });
+
+  it('builds one tick per unit with year boundaries as major ticks', () => {
+    const ticks = buildTicks(Date.UTC(2023, 10, 1), Date.UTC(2024, 1, 1), 'month');
+
+    expect(ticks.map((t) => t.label)).toEqual(['Nov', 'Dec', 'Jan 2024', 'Feb']);
+    expect(ticks.filter((t) => t.major).map((t) => t.label)).toEqual(['Jan 2024']);
+  });
+
+  it('starts week ticks on Mondays', () => {
+    const ticks = buildTicks(Date.UTC(2024, 2, 6), Date.UTC(2024, 2, 20), 'week');
+
+    expect(ticks[0].label).toBe('Mar 4');
+    expect(ticks.map((t) => new Date(t.time).getUTCDay())).toEqual([1, 1, 1]);
+  });
+
+  it('stacks overlapping events into separate lanes', () => {
+    const start = Date.UTC(2024, 0, 1);
+    const laid = layoutEvents(
+      [event('a', '2024-01-10'), event('b', '2024-01-11'), event('c', '2024-06-01')],
+      start,
+      'month',
+      160,
+    );
+
+    expect(laid.map((p) => p.lane)).toEqual([0, 1, 0]);
+    expect(laid[0].x).toBeCloseTo(dateToX(Date.UTC(2024, 0, 10), start, 'month'));
+  });
+
+  it('gives periods a width spanning their end date', () => {
+    const start = Date.UTC(2024, 0, 1);
+    const [period] = layoutEvents(
+      [event('q3', '2024-07-01', { endDate: '2024-09-30' })],
+      start,
+      'month',
+      160,
+    );
+
+    expect(period.width).toBeCloseTo(92 * 6);
+  });
+
+  it('formats dates at the precision they were written with', () => {
+    expect(formatEventDate(event('a', '2024-07-01', { endDate: '2024-09-30', precision: 'quarter' }))).toBe('Q3 2024');
+    expect(formatEventDate(event('b', '2024-03-01', { precision: 'month' }))).toBe('Mar 2024');
+    expect(formatEventDate(event('c', '2024-03-05', { precision: 'day' }))).toBe('Mar 5, 2024');
+    expect(formatEventDate(event('d', '2025-01-01', { precision: 'year' }))).toBe('2025');
+  });
+
+  it('clamps zoom at the coarsest and finest levels', () => {
+    expect(zoomIn('month')).toBe('week');
+    expect(zoomIn('day')).toBe('day');
+    expect(zoomOut('month')).toBe('year');
+    expect(zoomOut('year')).toBe('year');
+  });
+});
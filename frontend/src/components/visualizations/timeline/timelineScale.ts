@@ -0,0 +1,189 @@
+import type { TimelineData, TimelineEvent } from '../../../../../shared/src/types';
+
+export type TimelineZoom = TimelineData['scale'];
+
+// Coarsest to finest
+export const ZOOM_LEVELS: TimelineZoom[] = ['year', 'month', 'week', 'day'];
+
+export const PIXELS_PER_DAY: Record<TimelineZoom, number> = {
+  year: 1.5,
+  month: 6,
+  week: 24,
+  day: 96,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TimelineTick {
+  time: number;
+  label: string;
+  major: boolean;
+}
+
+export interface PositionedEvent {
+  event: TimelineEvent;
+  x: number;
+  width: number;
+  lane: number;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const startOfUnit = (time: number, zoom: TimelineZoom): number => {
+  const date = new Date(time);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (zoom) {
+    case 'year':
+      return Date.UTC(year, 0, 1);
+    case 'month':
+      return Date.UTC(year, month, 1);
+    case 'week': {
+      const weekday = (date.getUTCDay() + 6) % 7; // Monday-based
+      return Date.UTC(year, month, date.getUTCDate() - weekday);
+    }
+    default:
+      return Date.UTC(year, month, date.getUTCDate());
+  }
+};
+
+const nextUnit = (time: number, zoom: TimelineZoom): number => {
+  const date = new Date(time);
+  switch (zoom) {
+    case 'year':
+      return Date.UTC(date.getUTCFullYear() + 1, 0, 1);
+    case 'month':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+    case 'week':
+      return time + 7 * DAY_MS;
+    default:
+      return time + DAY_MS;
+  }
+};
+
+/**
+ * Visible time range: from the start of the unit containing the first event to the
+ * end of the unit containing the last one, plus one unit of padding on each side.
+ */
+export function timelineRange(
+  events: Array<Pick<TimelineEvent, 'date' | 'endDate'>>,
+  zoom: TimelineZoom,
+): { start: number; end: number } {
+  const times = events.flatMap((e) => [Date.parse(e.date), Date.parse(e.endDate || e.date)])
+    .filter((t) => !isNaN(t));
+  if (times.length === 0) {
+    const now = startOfUnit(Date.now(), zoom);
+    return { start: now, end: nextUnit(now, zoom) };
+  }
+
+  const first = startOfUnit(Math.min(...times), zoom);
+  const last = nextUnit(startOfUnit(Math.max(...times), zoom), zoom);
+  return {
+    start: startOfUnit(first - DAY_MS, zoom),
+    end: nextUnit(last, zoom),
+  };
+}
+
+export function dateToX(time: number, rangeStart: number, zoom: TimelineZoom): number {
+  return ((time - rangeStart) / DAY_MS) * PIXELS_PER_DAY[zoom];
+}
+
+/**
+ * One tick per unit of the zoom level. Year boundaries are major ticks at every
+ * zoom level finer than years so the axis stays readable when scrolled.
+ */
+export function buildTicks(start: number, end: number, zoom: TimelineZoom): TimelineTick[] {
+  const ticks: TimelineTick[] = [];
+  for (let time = startOfUnit(start, zoom); time <= end; time = nextUnit(time, zoom)) {
+    const date = new Date(time);
+    const month = MONTH_NAMES[date.getUTCMonth()];
+    const isYearStart = date.getUTCMonth() === 0 && date.getUTCDate() === 1;
+
+    let label: string;
+    switch (zoom) {
+      case 'year':
+        label = `${date.getUTCFullYear()}`;
+        break;
+      case 'month':
+        label = isYearStart ? `${month} ${date.getUTCFullYear()}` : month;
+        break;
+      default:
+        label = `${month} ${date.getUTCDate()}`;
+    }
+
+    ticks.push({ time, label, major: zoom === 'year' || isYearStart });
+  }
+  return ticks;
+}
+
+/**
+ * Stack events into lanes so that labels never overlap: each event goes into the
+ * first lane whose previous event ends before it starts.
+ */
+export function layoutEvents(
+  events: TimelineEvent[],
+  rangeStart: number,
+  zoom: TimelineZoom,
+  labelWidth: number,
+): PositionedEvent[] {
+  const laneEnds: number[] = [];
+
+  return [...events]
+    .sort((a, b) => Date.parse(a.date) - Date.parse(b.date))
+    .map((event) => {
+      const x = dateToX(Date.parse(event.date), rangeStart, zoom);
+      const end = event.endDate ? dateToX(Date.parse(event.endDate) + DAY_MS, rangeStart, zoom) : x;
+      const width = Math.max(end - x, 0);
+
+      const occupiedUntil = x + Math.max(width, labelWidth);
+      let lane = laneEnds.findIndex((laneEnd) => laneEnd <= x);
+      if (lane === -1) {
+        lane = laneEnds.length;
+        laneEnds.push(occupiedUntil);
+      } else {
+        laneEnds[lane] = occupiedUntil;
+      }
+
+      return { event, x, width, lane };
+    });
+}
+
+/**
+ * Format an event's date at the precision it was written with ("Q3 2024" rather
+ * than "Jul 1, 2024").
+ */
+export function formatEventDate(event: TimelineEvent): string {
+  const date = new Date(event.date);
+  if (isNaN(date.getTime())) return event.dateText || '';
+
+  const year = date.getUTCFullYear();
+  const month = MONTH_NAMES[date.getUTCMonth()];
+  const dayLabel = `${month} ${date.getUTCDate()}, ${year}`;
+
+  switch (event.precision) {
+    case 'year':
+      return `${year}`;
+    case 'quarter': {
+      const end = event.endDate ? new Date(event.endDate) : date;
+      const months
+        = (end.getUTCFullYear() - year) * 12 + end.getUTCMonth() - date.getUTCMonth() + 1;
+      return months === 3 && date.getUTCMonth() % 3 === 0
+        ? `Q${date.getUTCMonth() / 3 + 1} ${year}`
+        : `${month}–${MONTH_NAMES[end.getUTCMonth()]} ${end.getUTCFullYear()}`;
+    }
+    case 'month':
+      return `${month} ${year}`;
+    case 'week':
+      return `Week of ${dayLabel}`;
+    default:
+      return dayLabel;
+  }
+}
+
+export function zoomIn(zoom: TimelineZoom): TimelineZoom {
+  return ZOOM_LEVELS[Math.min(ZOOM_LEVELS.indexOf(zoom) + 1, ZOOM_LEVELS.length - 1)];
+}
+
+export function zoomOut(zoom: TimelineZoom): TimelineZoom {
+  return ZOOM_LEVELS[Math.max(ZOOM_LEVELS.indexOf(zoom) - 1, 0)];
+}
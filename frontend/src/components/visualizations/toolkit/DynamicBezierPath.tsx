@@ -8,6 +8,7 @@ interface DynamicBezierPathProps {
   label?: string;
   isActive?: boolean;
   isDimmed?: boolean;
+  isDashed?: boolean;
 }
 
 export const DynamicBezierPath: React.FC<DynamicBezierPathProps> = ({
@@ -18,6 +19,7 @@ export const DynamicBezierPath: React.FC<DynamicBezierPathProps> = ({
   label,
   isActive = false,
   isDimmed = false,
+  isDashed = false,
 }) => {
   const strokeColor = isActive
     ? 'var(--color-interactive-primary-base)'
@@ -67,7 +69,9 @@ export const DynamicBezierPath: React.FC<DynamicBezierPathProps> = ({
       strokeDasharray: '10 10',
       animation: 'flow 1s linear infinite',
     }
-    : {};
+    : isDashed
+      ? { strokeDasharray: '6 4' }
+      : {};
 
   return (
     <g className="group" style={{ opacity, transition: 'opacity 0.3s ease' }}>
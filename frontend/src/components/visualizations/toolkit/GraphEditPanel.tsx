@@ -0,0 +1,89 @@
+import { Check, Trash2, X } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+
+interface GraphEditPanelProps {
+  title: string;
+  label?: string;
+  onRename?: (label: string) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+  children?: React.ReactNode;
+}
+
+/**
+ * Floating editor for the selected node; edits are saved as overrides on the visualization
+ */
+export const GraphEditPanel: React.FC<GraphEditPanelProps> = ({
+  title,
+  label,
+  onRename,
+  onDelete,
+  onClose,
+  children,
+}) => {
+  const [draft, setDraft] = useState(label || '');
+
+  useEffect(() => {
+    setDraft(label || '');
+  }, [label]);
+
+  const trimmed = draft.trim();
+  const canRename = trimmed.length > 0 && trimmed !== label;
+
+  return (
+    <div
+      className="absolute top-4 right-4 z-30 w-72 p-4 rounded-xl border border-[var(--color-border-subtle)] bg-[var(--color-surface-raised)] shadow-lg"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs font-medium text-[var(--color-text-secondary)] uppercase">
+          {title}
+        </span>
+        <button
+          onClick={onClose}
+          aria-label="Close editor"
+          className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {onRename && (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canRename) onRename(trimmed);
+          }}
+        >
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            aria-label="Label"
+            className="flex-1 px-2 py-1.5 rounded-md text-sm border border-[var(--color-border-subtle)] bg-[var(--color-surface-base)] text-[var(--color-text-primary)]"
+          />
+          <button
+            type="submit"
+            disabled={!canRename}
+            aria-label="Save label"
+            className="p-1.5 rounded-md text-[var(--color-primary)] hover:bg-[var(--color-surface-base)] disabled:opacity-40"
+          >
+            <Check size={16} />
+          </button>
+        </form>
+      )}
+
+      {children && <div className="mt-3 space-y-2">{children}</div>}
+
+      {onDelete && (
+        <button
+          onClick={onDelete}
+          className="mt-3 flex items-center gap-1.5 text-xs font-medium text-red-600 hover:text-red-700"
+        >
+          <Trash2 size={14} />
+          Delete
+        </button>
+      )}
+    </div>
+  );
+};
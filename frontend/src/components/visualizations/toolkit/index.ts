@@ -9,4 +9,5 @@ export * from './GraphFilterToolbar';
 export * from './SwimlaneStack';
 export * from './GraphBackground';
 export * from './GraphConnectionModal';
+export * from './GraphEditPanel';
 
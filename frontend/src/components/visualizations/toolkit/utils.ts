@@ -111,3 +111,11 @@ export const unwrapDynamo = (item: any): any => {
   }
   return result;
 };
+
+/**
+ * Builds a JSON Pointer for visualization edits; array elements are addressed by id.
+ */
+export const toEditPath = (...segments: string[]): string =>
+  segments
+    .map((segment) => `/${segment.replace(/~/g, '~0').replace(/\//g, '~1')}`)
+    .join('');
@@ -0,0 +1,256 @@
+import { X } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { GraphViewerLayout } from '../toolkit';
+
+import { LANE_HEADER_HEIGHT, downstreamOf, layoutActivity } from './activityLayout';
+
+import type { PositionedNode } from './activityLayout';
+import type { ActivityNode, ActivitySwimlane, UMLActivityData } from '../../../../../shared/src/types';
+
+interface ActivityDiagramProps {
+  data: UMLActivityData;
+}
+
+const ACCENT = 'var(--aurora-1)';
+const INK = 'var(--color-text-primary)';
+
+export function ActivityDiagram({ data }: ActivityDiagramProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const layout = useMemo(() => layoutActivity(data), [data]);
+  const highlighted = useMemo(
+    () => (selectedId ? downstreamOf(data, selectedId) : null),
+    [data, selectedId],
+  );
+  const selected = data.nodes.find((node) => node.id === selectedId);
+  const actions = data.nodes.filter((node) => node.kind === 'action').length;
+  const decisions = data.nodes.filter((node) => node.kind === 'decision').length;
+
+  return (
+    <GraphViewerLayout
+      title="Activity Diagram"
+      description={`${actions} actions · ${decisions} decisions${
+        data.swimlanes.length > 0 ? ` across ${data.swimlanes.length} swimlanes` : ''
+      } · click a step to trace what follows it`}
+    >
+      <div className="absolute inset-0 overflow-auto custom-scrollbar bg-[var(--color-background-primary)] p-6">
+        <div className="relative" style={{ width: layout.width, height: layout.height }}>
+          {/* Swimlane columns */}
+          {layout.lanes.map((lane) => (
+            <div
+              key={lane.id}
+              className="absolute top-0 bottom-0 border-l border-r border-dashed"
+              style={{ left: lane.x, width: lane.width, borderColor: `${lane.color}55`, backgroundColor: `${lane.color}0A` }}
+            >
+              <div
+                className="flex items-center justify-center text-xs font-semibold uppercase tracking-wide border-b"
+                style={{ height: LANE_HEADER_HEIGHT, color: lane.color, borderColor: `${lane.color}55` }}
+              >
+                {lane.name}
+              </div>
+            </div>
+          ))}
+
+          {/* Flows */}
+          <svg className="absolute inset-0 pointer-events-none" width={layout.width} height={layout.height}>
+            <defs>
+              <marker id="activity-arrow" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+                <path d="M0,0 L8,4 L0,8" fill="none" stroke="var(--color-text-secondary)" strokeWidth="1.2" />
+              </marker>
+              <marker id="activity-arrow-highlight" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+                <path d="M0,0 L8,4 L0,8" fill="none" stroke={ACCENT} strokeWidth="1.5" />
+              </marker>
+            </defs>
+            {layout.flows.map((flow) => {
+              const lit = highlighted?.has(flow.source) && highlighted.has(flow.target);
+              return (
+                <g key={flow.id} opacity={highlighted && !lit ? 0.25 : 1}>
+                  <path
+                    d={flow.path}
+                    fill="none"
+                    stroke={lit ? ACCENT : 'var(--color-text-secondary)'}
+                    strokeWidth={lit ? 2 : 1.2}
+                    markerEnd={`url(#${lit ? 'activity-arrow-highlight' : 'activity-arrow'})`}
+                  />
+                  {flow.guard && (
+                    <text
+                      x={flow.labelX + 6}
+                      y={flow.labelY}
+                      fontSize={11}
+                      fill="var(--color-text-secondary)"
+                      paintOrder="stroke"
+                      stroke="var(--color-background-primary)"
+                      strokeWidth={3}
+                    >
+                      [{flow.guard}]
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+
+          {/* Nodes */}
+          {layout.nodes.map((node) => (
+            <ActivityNodeShape
+              key={node.id}
+              node={node}
+              selected={node.id === selectedId}
+              dimmed={!!highlighted && !highlighted.has(node.id)}
+              onClick={() => setSelectedId(node.id === selectedId ? null : node.id)}
+            />
+          ))}
+        </div>
+      </div>
+
+      {selected && (
+        <NodeDetails
+          node={selected}
+          lane={data.swimlanes.find((lane) => lane.id === selected.swimlaneId)}
+          outgoing={data.flows
+            .filter((flow) => flow.source === selected.id)
+            .map((flow) => ({ guard: flow.guard, target: data.nodes.find((n) => n.id === flow.target) }))}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+    </GraphViewerLayout>
+  );
+}
+
+interface ActivityNodeShapeProps {
+  node: PositionedNode;
+  selected: boolean;
+  dimmed: boolean;
+  onClick: () => void;
+}
+
+function ActivityNodeShape({ node, selected, dimmed, onClick }: ActivityNodeShapeProps) {
+  const ring = selected ? 'ring-2 ring-[var(--aurora-1)] ring-offset-2 ring-offset-[var(--color-background-primary)]' : '';
+  const box = {
+    left: node.x - node.width / 2,
+    top: node.y - node.height / 2,
+    width: node.width,
+    height: node.height,
+  };
+  const common = `absolute transition-opacity ${dimmed ? 'opacity-30' : ''}`;
+  const title = node.description || node.sourceQuote || node.label;
+
+  switch (node.kind) {
+    case 'initial':
+      return (
+        <button className={`${common} rounded-full ${ring}`} style={{ ...box, backgroundColor: INK }} onClick={onClick} title="Start" aria-label="Start" />
+      );
+    case 'final':
+      return (
+        <button
+          className={`${common} rounded-full border-2 flex items-center justify-center ${ring}`}
+          style={{ ...box, borderColor: INK }}
+          onClick={onClick}
+          title={node.label || 'End'}
+          aria-label={node.label || 'End'}
+        >
+          <span className="block w-3.5 h-3.5 rounded-full" style={{ backgroundColor: INK }} />
+        </button>
+      );
+    case 'fork':
+    case 'join':
+      return (
+        <button
+          className={`${common} rounded-sm ${ring}`}
+          style={{ ...box, backgroundColor: INK }}
+          onClick={onClick}
+          title={node.label || node.kind}
+          aria-label={node.label || node.kind}
+        />
+      );
+    case 'decision':
+    case 'merge':
+      return (
+        <>
+          <button
+            className={`${common} rotate-45 scale-[0.72] border-2 bg-[var(--color-surface-base)] ${ring}`}
+            style={{ ...box, borderColor: selected ? ACCENT : 'var(--color-text-secondary)' }}
+            onClick={onClick}
+            title={title || node.kind}
+            aria-label={node.label || node.kind}
+          />
+          {node.label && (
+            <span
+              className={`${common} whitespace-nowrap text-xs font-medium text-[var(--color-text-primary)] pointer-events-none`}
+              style={{ left: box.left + node.width + 6, top: node.y - 8 }}
+            >
+              {node.label}
+            </span>
+          )}
+        </>
+      );
+    default:
+      return (
+        <button
+          className={`${common} px-3 rounded-2xl border text-xs font-medium leading-tight text-center text-[var(--color-text-primary)] bg-[var(--color-surface-base)] shadow-sm hover:border-[var(--aurora-1)] ${ring}`}
+          style={{ ...box, borderColor: selected ? ACCENT : 'var(--color-border-subtle)' }}
+          onClick={onClick}
+          title={title}
+        >
+          <span className="line-clamp-2">{node.label}</span>
+        </button>
+      );
+  }
+}
+
+const KIND_LABELS: Record<ActivityNode['kind'], string> = {
+  initial: 'Start',
+  action: 'Action',
+  decision: 'Decision',
+  merge: 'Merge',
+  fork: 'Fork (parallel start)',
+  join: 'Join (parallel end)',
+  final: 'End',
+};
+
+interface NodeDetailsProps {
+  node: ActivityNode;
+  lane?: ActivitySwimlane;
+  outgoing: Array<{ guard?: string; target?: ActivityNode }>;
+  onClose: () => void;
+}
+
+function NodeDetails({ node, lane, outgoing, onClose }: NodeDetailsProps) {
+  return (
+    <aside className="absolute right-4 bottom-4 w-80 p-4 rounded-lg shadow-lg bg-[var(--color-surface-base)] border border-[var(--color-border-subtle)]">
+      <div className="flex items-start justify-between gap-2">
+        <h3 className="text-sm font-semibold text-[var(--color-text-primary)]">{node.label || KIND_LABELS[node.kind]}</h3>
+        <button
+          onClick={onClose}
+          className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]"
+          aria-label="Close step details"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-[var(--color-text-secondary)]">
+        {KIND_LABELS[node.kind]}
+        {lane && ` · ${lane.name}`}
+      </p>
+      {node.description && (
+        <p className="mt-2 text-xs text-[var(--color-text-secondary)]">{node.description}</p>
+      )}
+      {outgoing.length > 0 && (
+        <ul className="mt-2 space-y-0.5 text-xs text-[var(--color-text-secondary)]">
+          {outgoing.map(({ guard, target }, index) => (
+            <li key={index}>
+              → {target?.label || (target && KIND_LABELS[target.kind])}
+              {guard && <span className="text-[var(--color-text-tertiary)]"> [{guard}]</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {node.sourceQuote && (
+        <blockquote className="mt-3 pl-3 border-l-2 border-[var(--color-border-subtle)] text-xs text-[var(--color-text-secondary)]">
+          {node.sourceQuote}
+        </blockquote>
+      )}
+    </aside>
+  );
+}
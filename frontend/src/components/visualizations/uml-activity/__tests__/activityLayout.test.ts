@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+
+import { LANE_HEADER_HEIGHT, downstreamOf, flowPath, layoutActivity } from '../activityLayout';
+
+import type { ActivityNode, UMLActivityData } from '../../../../../../shared/src/types';
+
+const node = (id: string, kind: ActivityNode['kind'], swimlaneId?: string): ActivityNode => ({
+  id,
+  kind,
+  label: id,
+  swimlaneId,
+  sourceQuote: '',
+  sourceSpan: null,
+});
+
+const data: UMLActivityData = {
+  nodes: [
+    node('start', 'initial', 'clerk'),
+    node('check', 'action', 'clerk'),
+    node('big', 'decision', 'clerk'),
+    node('approve', 'action', 'manager'),
+    node('pay', 'action', 'clerk'),
+    node('end', 'final'),
+  ],
+  flows: [
+    { id: 'f0', source: 'start', target: 'check' },
+    { id: 'f1', source: 'check', target: 'big' },
+    { id: 'f2', source: 'big', target: 'approve', guard: 'yes' },
+    { id: 'f3', source: 'big', target: 'pay', guard: 'no' },
+    { id: 'f4', source: 'approve', target: 'pay' },
+    { id: 'f5', source: 'pay', target: 'end' },
+    { id: 'f6', source: 'pay', target: 'check', guard: 'retry' },
+  ],
+  swimlanes: [
+    { id: 'clerk', name: 'Clerk', color: '#4F46E5' },
+    { id: 'manager', name: 'Manager', color: '#0EA5E9' },
+  ],
+};
+
+describe('layoutActivity', () => {
+  const layout = layoutActivity(data);
+  const byId = new Map(layout.nodes.map((n) => [n.id, n]));
+
+  it('ranks nodes top to bottom along the flow', () => {
+    expect(byId.get('start')!.y).toBeLessThan(byId.get('check')!.y);
+    expect(byId.get('check')!.y).toBeLessThan(byId.get('big')!.y);
+    expect(byId.get('pay')!.y).toBeGreaterThan(byId.get('approve')!.y);
+    expect(byId.get('start')!.y).toBeGreaterThan(LANE_HEADER_HEIGHT);
+  });
+
+  it('keeps every node inside its swimlane column, adding one for unassigned nodes', () => {
+    expect(layout.lanes.map((lane) => lane.name)).toEqual(['Clerk', 'Manager', 'Other']);
+    const laneOf = (id: string) => layout.lanes.find((lane) => {
+      const n = byId.get(id)!;
+      return n.x - n.width / 2 >= lane.x && n.x + n.width / 2 <= lane.x + lane.width;
+    })?.id;
+
+    expect(['start', 'check', 'big', 'pay'].map(laneOf)).toEqual(['clerk', 'clerk', 'clerk', 'clerk']);
+    expect(laneOf('approve')).toBe('manager');
+    expect(laneOf('end')).toBe('__unassigned');
+    expect(layout.width).toBe(layout.lanes.reduce((sum, lane) => sum + lane.width, 0));
+  });
+
+  it('returns an empty layout for an empty diagram', () => {
+    expect(layoutActivity({ nodes: [], flows: [], swimlanes: [] })).toEqual({
+      nodes: [], flows: [], lanes: [], width: 0, height: 0,
+    });
+  });
+});
+
+describe('flowPath', () => {
+  const box = { width: 100, height: 40 };
+
+  it('runs from the bottom of the source to the top of the target', () => {
+    expect(flowPath({ ...box, x: 50, y: 20 }, { ...box, x: 50, y: 120 }).path).toBe('M50,40 C50,70 50,70 50,100');
+  });
+
+  it('swings loops back up on the right', () => {
+    const { path, labelY } = flowPath({ ...box, x: 50, y: 120 }, { ...box, x: 50, y: 20 });
+
+    expect(path).toBe('M100,120 C156,120 156,20 100,20');
+    expect(labelY).toBe(70);
+  });
+});
+
+describe('downstreamOf', () => {
+  it('follows flows forward, through loops, without revisiting nodes', () => {
+    expect([...downstreamOf(data, 'approve')].sort()).toEqual(['approve', 'big', 'check', 'end', 'pay']);
+    expect([...downstreamOf(data, 'end')]).toEqual(['end']);
+  });
+});
@@ -0,0 +1,183 @@
+import dagre from 'dagre';
+
+import type {
+  ActivityFlow,
+  ActivityNode,
+  ActivityNodeKind,
+  ActivitySwimlane,
+  UMLActivityData,
+} from '../../../../../shared/src/types';
+
+export const NODE_SIZES: Record<ActivityNodeKind, { width: number; height: number }> = {
+  initial: { width: 20, height: 20 },
+  final: { width: 24, height: 24 },
+  action: { width: 168, height: 48 },
+  decision: { width: 40, height: 40 },
+  merge: { width: 40, height: 40 },
+  fork: { width: 120, height: 8 },
+  join: { width: 120, height: 8 },
+};
+
+export const LANE_HEADER_HEIGHT = 36;
+const LANE_PADDING = 32;
+const NODE_GAP = 40;
+const MARGIN = 32;
+const BACK_EDGE_OFFSET = 56; // How far loops swing out to the right
+
+export interface PositionedNode extends ActivityNode {
+  x: number; // Centre
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LaneColumn extends ActivitySwimlane {
+  x: number;
+  width: number;
+}
+
+export interface ActivityLayout {
+  nodes: PositionedNode[];
+  flows: Array<ActivityFlow & { path: string; labelX: number; labelY: number }>;
+  lanes: LaneColumn[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Top-to-bottom layered layout. Dagre picks the rank (row) of every node; with
+ * swimlanes each lane then owns a column, and nodes sharing a rank inside one lane
+ * are placed side by side in dagre's order.
+ */
+export function layoutActivity(data: UMLActivityData): ActivityLayout {
+  if (data.nodes.length === 0) {
+    return { nodes: [], flows: [], lanes: [], width: 0, height: 0 };
+  }
+
+  const g = new dagre.graphlib.Graph();
+  g.setGraph({ rankdir: 'TB', nodesep: NODE_GAP, ranksep: 56, marginx: MARGIN, marginy: MARGIN });
+  g.setDefaultEdgeLabel(() => ({}));
+  data.nodes.forEach((node) => g.setNode(node.id, { ...NODE_SIZES[node.kind] }));
+  data.flows.forEach((flow) => g.setEdge(flow.source, flow.target));
+  dagre.layout(g);
+
+  let nodes: PositionedNode[] = data.nodes.map((node) => ({
+    ...node,
+    ...NODE_SIZES[node.kind],
+    x: g.node(node.id).x,
+    y: g.node(node.id).y,
+  }));
+  let lanes: LaneColumn[] = [];
+  let width = g.graph().width || 0;
+  const height = (g.graph().height || 0) + (data.swimlanes.length > 0 ? LANE_HEADER_HEIGHT : 0);
+
+  if (data.swimlanes.length > 0) {
+    ({ nodes, lanes, width } = arrangeInLanes(nodes, data.swimlanes));
+  }
+
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const flows = data.flows.flatMap((flow) => {
+    const source = nodeById.get(flow.source);
+    const target = nodeById.get(flow.target);
+    if (!source || !target) return [];
+    return [{ ...flow, ...flowPath(source, target) }];
+  });
+
+  return { nodes, flows, lanes, width, height };
+}
+
+function arrangeInLanes(
+  nodes: PositionedNode[],
+  swimlanes: ActivitySwimlane[],
+): { nodes: PositionedNode[]; lanes: LaneColumn[]; width: number } {
+  const laneIds = new Set(swimlanes.map((lane) => lane.id));
+  const unassigned: ActivitySwimlane = { id: '__unassigned', name: 'Other', color: '#94A3B8' };
+  const laneOf = (node: PositionedNode) => (
+    node.swimlaneId && laneIds.has(node.swimlaneId) ? node.swimlaneId : unassigned.id
+  );
+  const allLanes = nodes.some((node) => laneOf(node) === unassigned.id) ? [...swimlanes, unassigned] : swimlanes;
+
+  const positions = new Map<string, number>();
+  const lanes: LaneColumn[] = [];
+  let offset = 0;
+
+  allLanes.forEach((lane) => {
+    const members = nodes.filter((node) => laneOf(node) === lane.id);
+    if (members.length === 0) return;
+
+    const byRank = new Map<number, PositionedNode[]>();
+    members.forEach((node) => byRank.set(Math.round(node.y), [...(byRank.get(Math.round(node.y)) || []), node]));
+
+    let laneWidth = 0;
+    byRank.forEach((rankNodes) => {
+      const rowWidth = rankNodes.reduce((sum, node) => sum + node.width, 0) + (rankNodes.length - 1) * NODE_GAP;
+      laneWidth = Math.max(laneWidth, rowWidth);
+    });
+    laneWidth += LANE_PADDING * 2;
+
+    byRank.forEach((rankNodes) => {
+      const rowWidth = rankNodes.reduce((sum, node) => sum + node.width, 0) + (rankNodes.length - 1) * NODE_GAP;
+      let cursor = offset + (laneWidth - rowWidth) / 2;
+      [...rankNodes].sort((a, b) => a.x - b.x).forEach((node) => {
+        positions.set(node.id, cursor + node.width / 2);
+        cursor += node.width + NODE_GAP;
+      });
+    });
+
+    lanes.push({ ...lane, x: offset, width: laneWidth });
+    offset += laneWidth;
+  });
+
+  return {
+    nodes: nodes.map((node) => ({ ...node, x: positions.get(node.id) ?? node.x, y: node.y + LANE_HEADER_HEIGHT })),
+    lanes,
+    width: offset,
+  };
+}
+
+/**
+ * SVG path from the bottom of the source to the top of the target. Flows going back
+ * up (loops) leave and re-enter on the right so they do not cross the forward flow.
+ */
+export function flowPath(
+  source: Pick<PositionedNode, 'x' | 'y' | 'width' | 'height'>,
+  target: Pick<PositionedNode, 'x' | 'y' | 'width' | 'height'>,
+): { path: string; labelX: number; labelY: number } {
+  if (target.y > source.y) {
+    const y1 = source.y + source.height / 2;
+    const y2 = target.y - target.height / 2;
+    const midY = (y1 + y2) / 2;
+    return {
+      path: `M${source.x},${y1} C${source.x},${midY} ${target.x},${midY} ${target.x},${y2}`,
+      labelX: (source.x + target.x) / 2,
+      labelY: midY,
+    };
+  }
+
+  const x1 = source.x + source.width / 2;
+  const x2 = target.x + target.width / 2;
+  const swing = Math.max(x1, x2) + BACK_EDGE_OFFSET;
+  return {
+    path: `M${x1},${source.y} C${swing},${source.y} ${swing},${target.y} ${x2},${target.y}`,
+    labelX: swing - BACK_EDGE_OFFSET / 4,
+    labelY: (source.y + target.y) / 2,
+  };
+}
+
+/**
+ * Nodes reachable from a node by following flows forward, the node itself included
+ */
+export function downstreamOf(data: UMLActivityData, nodeId: string): Set<string> {
+  const visited = new Set<string>([nodeId]);
+  const queue = [nodeId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    data.flows
+      .filter((flow) => flow.source === current && !visited.has(flow.target))
+      .forEach((flow) => {
+        visited.add(flow.target);
+        queue.push(flow.target);
+      });
+  }
+  return visited;
+}
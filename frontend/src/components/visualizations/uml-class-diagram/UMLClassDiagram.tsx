@@ -1,8 +1,10 @@
 import { motion } from 'framer-motion';
 import { toPng, toSvg } from 'html-to-image';
-import { useEffect, useCallback, useMemo, useRef } from 'react';
+import { useEffect, useCallback, useMemo, useRef, useState } from 'react';
 
 
+import { GraphEditPanel, toEditPath } from '../toolkit';
+
 import { DiagramCanvas } from './components/DiagramCanvas';
 import { TooltipManager } from './components/TooltipManager';
 import { ControlPanel } from './controls/ControlPanel';
@@ -11,13 +13,28 @@ import { useUMLKeyboard } from './hooks/useUMLKeyboard';
 import { useUMLLayout } from './hooks/useUMLLayout';
 import { useUMLDiagramStore } from './stores/umlDiagramStore';
 
-import type { UMLDiagramData, ClassEntity, UMLRelationship } from '@shared/types';
+import type {
+  UMLDiagramData,
+  ClassEntity,
+  UMLRelationship,
+  VisualizationPatchOperation,
+} from '@shared/types';
+
+const RELATIONSHIP_TYPES: UMLRelationship['type'][] = [
+  'association',
+  'dependency',
+  'inheritance',
+  'realization',
+  'composition',
+  'aggregation',
+];
 
 export interface UMLClassDiagramProps {
   data: UMLDiagramData;
   initialZoom?: number;
   onClassSelect?: (classEntity: ClassEntity) => void;
   onExport?: (format: string, data: Blob) => void;
+  onEdit?: (operations: VisualizationPatchOperation[]) => void;
   height?: number;
 }
 
@@ -26,9 +43,12 @@ export function UMLClassDiagram({
   initialZoom = 1.0,
   onClassSelect,
   onExport,
+  onEdit,
   height = 600,
 }: UMLClassDiagramProps) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const [relationTargetId, setRelationTargetId] = useState('');
+  const [relationType, setRelationType] = useState<UMLRelationship['type']>(RELATIONSHIP_TYPES[0]);
 
   const {
     // State
@@ -52,6 +72,7 @@ export function UMLClassDiagram({
     applyFilters,
     toggleLegend,
     resetView,
+    clearSelection,
   } = useUMLDiagramStore();
 
   // Initialize data and layout
@@ -120,6 +141,37 @@ export function UMLClassDiagram({
     }
   }, [setHoveredElement]);
 
+  // Editing works on a single selected class
+  const editedClass = useMemo(() => {
+    if (!onEdit || selectedClassIds.size !== 1) return null;
+    const [id] = Array.from(selectedClassIds);
+    return data.classes.find((cls: ClassEntity) => cls.id === id) || null;
+  }, [onEdit, selectedClassIds, data]);
+
+  const handleDeleteClass = useCallback(() => {
+    if (!onEdit || !editedClass) return;
+    const relationshipRemovals = data.relationships
+      .filter((rel: UMLRelationship) => rel.source === editedClass.id || rel.target === editedClass.id)
+      .map((rel: UMLRelationship) => ({ op: 'remove' as const, path: toEditPath('relationships', rel.id) }));
+    onEdit([...relationshipRemovals, { op: 'remove', path: toEditPath('classes', editedClass.id) }]);
+    clearSelection();
+  }, [onEdit, editedClass, data, clearSelection]);
+
+  const handleAddRelationship = useCallback(() => {
+    if (!onEdit || !editedClass || !relationTargetId) return;
+    const relationship: UMLRelationship = {
+      id: `rel-${Date.now()}`,
+      source: editedClass.id,
+      target: relationTargetId,
+      type: relationType,
+      description: 'Added manually',
+      sourceQuote: '',
+      evidence: [],
+    };
+    onEdit([{ op: 'add', path: '/relationships/-', value: relationship }]);
+    setRelationTargetId('');
+  }, [onEdit, editedClass, relationTargetId, relationType]);
+
   // Filter data based on current filters
   const filteredData = useMemo(() => {
     if (!data) return null;
@@ -208,6 +260,47 @@ export function UMLClassDiagram({
           onZoomChange={setZoom}
         />
 
+        {editedClass && onEdit && (
+          <GraphEditPanel
+            title={`Edit ${editedClass.type}`}
+            label={editedClass.name}
+            onRename={(name) => onEdit([
+              { op: 'replace', path: toEditPath('classes', editedClass.id, 'name'), value: name },
+            ])}
+            onDelete={handleDeleteClass}
+            onClose={clearSelection}
+          >
+            <div className="flex items-center gap-2">
+              <select
+                value={relationType}
+                onChange={(e) => setRelationType(e.target.value as UMLRelationship['type'])}
+                aria-label="Relationship type"
+                className="px-2 py-1 rounded-md text-xs border border-[var(--color-border-subtle)] bg-[var(--color-surface-base)] text-[var(--color-text-primary)]"
+              >
+                {RELATIONSHIP_TYPES.map((type) => <option key={type} value={type}>{type}</option>)}
+              </select>
+              <select
+                value={relationTargetId}
+                onChange={(e) => setRelationTargetId(e.target.value)}
+                aria-label="Relate to"
+                className="flex-1 min-w-0 px-2 py-1 rounded-md text-xs border border-[var(--color-border-subtle)] bg-[var(--color-surface-base)] text-[var(--color-text-primary)]"
+              >
+                <option value="">Relate to…</option>
+                {data.classes
+                  .filter((cls: ClassEntity) => cls.id !== editedClass.id)
+                  .map((cls: ClassEntity) => <option key={cls.id} value={cls.id}>{cls.name}</option>)}
+              </select>
+              <button
+                onClick={handleAddRelationship}
+                disabled={!relationTargetId}
+                className="text-xs font-medium text-[var(--color-primary)] disabled:opacity-40"
+              >
+                Add
+              </button>
+            </div>
+          </GraphEditPanel>
+        )}
+
         {/* Legend Panel */}
         {showLegend && (
           <motion.div
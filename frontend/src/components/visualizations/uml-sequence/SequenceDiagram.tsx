@@ -0,0 +1,287 @@
+import { X } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { GraphViewerLayout } from '../toolkit';
+
+import {
+  ACTIVATION_WIDTH,
+  COLUMN_WIDTH,
+  HEADER_HEIGHT,
+  ROW_HEIGHT,
+  enclosingFragments,
+  layoutSequence,
+  messagesInvolving,
+} from './sequenceLayout';
+
+import type {
+  SequenceFragment,
+  SequenceMessage,
+  SequenceParticipant,
+  UMLSequenceData,
+} from '../../../../../shared/src/types';
+
+interface SequenceDiagramProps {
+  data: UMLSequenceData;
+}
+
+const BOX_WIDTH = COLUMN_WIDTH - 36;
+const BOX_HEIGHT = 40;
+const SELF_LOOP_WIDTH = 36;
+const ACCENT = 'var(--aurora-1)';
+const LINE = 'var(--color-text-secondary)';
+
+const MESSAGE_KIND_LABELS: Record<SequenceMessage['kind'], string> = {
+  sync: 'Synchronous call',
+  async: 'Asynchronous message',
+  return: 'Return',
+  create: 'Creation',
+};
+
+export function SequenceDiagram({ data }: SequenceDiagramProps) {
+  const [participantId, setParticipantId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const layout = useMemo(() => layoutSequence(data), [data]);
+  const involved = useMemo(() => messagesInvolving(data, participantId), [data, participantId]);
+  const participantById = useMemo(() => new Map(data.participants.map((p) => [p.id, p])), [data.participants]);
+  const selected = data.messages.find((message) => message.id === selectedId);
+
+  return (
+    <GraphViewerLayout
+      title="Sequence Diagram"
+      description={`${data.messages.length} messages between ${data.participants.length} participants${
+        data.fragments.length > 0 ? ` · ${data.fragments.length} fragments` : ''
+      } · click a participant to follow it`}
+    >
+      <div className="absolute inset-0 overflow-auto custom-scrollbar bg-[var(--color-background-primary)] p-6">
+        <svg width={layout.width} height={layout.height} className="select-none">
+          <defs>
+            <marker id="sequence-arrow-filled" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+              <path d="M0,0 L8,4 L0,8 z" fill={LINE} />
+            </marker>
+            <marker id="sequence-arrow-open" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+              <path d="M0,0 L8,4 L0,8" fill="none" stroke={LINE} strokeWidth="1.2" />
+            </marker>
+          </defs>
+
+          {/* Fragments (behind everything), outermost first */}
+          {layout.fragments.map(({ fragment, x, y, width, height, separators }) => (
+            <g key={fragment.id}>
+              <rect x={x} y={y} width={width} height={height} rx={4} fill="none" stroke="var(--color-border-subtle)" />
+              <path
+                d={`M${x},${y} h${fragment.kind.length * 8 + 16} v12 l-6,6 H${x} z`}
+                fill="var(--color-surface-elevated)"
+                stroke="var(--color-border-subtle)"
+              />
+              <text x={x + 6} y={y + 13} fontSize={11} fontWeight={700} fill="var(--color-text-secondary)">
+                {fragment.kind}
+              </text>
+              {fragment.operands[0]?.guard && (
+                <text x={x + fragment.kind.length * 8 + 24} y={y + 13} fontSize={11} fill="var(--color-text-tertiary)">
+                  [{fragment.operands[0].guard}]
+                </text>
+              )}
+              {separators.map((separator) => (
+                <g key={separator.y}>
+                  <line
+                    x1={x}
+                    x2={x + width}
+                    y1={separator.y}
+                    y2={separator.y}
+                    stroke="var(--color-border-subtle)"
+                    strokeDasharray="6 4"
+                  />
+                  {separator.guard && (
+                    <text x={x + 6} y={separator.y + 13} fontSize={11} fill="var(--color-text-tertiary)">
+                      [{separator.guard}]
+                    </text>
+                  )}
+                </g>
+              ))}
+            </g>
+          ))}
+
+          {/* Lifelines and participant headers */}
+          {layout.participants.map(({ participant, x }) => {
+            const active = participant.id === participantId;
+            return (
+              <g
+                key={participant.id}
+                className="cursor-pointer"
+                onClick={() => setParticipantId(active ? null : participant.id)}
+              >
+                <line
+                  x1={x}
+                  x2={x}
+                  y1={HEADER_HEIGHT - 12}
+                  y2={layout.height}
+                  stroke={active ? ACCENT : 'var(--color-border-subtle)'}
+                  strokeDasharray="4 4"
+                />
+                <ParticipantHeader participant={participant} x={x} active={active} />
+              </g>
+            );
+          })}
+
+          {/* Activation bars */}
+          {layout.activations.map(({ activation, x, y, height }) => (
+            <rect
+              key={activation.id}
+              x={x}
+              y={y}
+              width={ACTIVATION_WIDTH}
+              height={height}
+              fill="var(--color-surface-elevated)"
+              stroke={activation.participantId === participantId ? ACCENT : LINE}
+            />
+          ))}
+
+          {/* Messages */}
+          {layout.messages.map(({ message, x1, x2, y }) => {
+            const dimmed = !involved.has(message.id);
+            const isSelected = message.id === selectedId;
+            const dashed = message.kind === 'return' || message.kind === 'create';
+            const marker = message.kind === 'sync' ? 'sequence-arrow-filled' : 'sequence-arrow-open';
+            // Arrows stop at the edge of the receiver's activation bar
+            const shift = x2 === x1 ? 0 : Math.sign(x2 - x1) * (ACTIVATION_WIDTH / 2);
+            const path = x1 === x2
+              ? `M${x1 + ACTIVATION_WIDTH / 2},${y - 8} h${SELF_LOOP_WIDTH} v${ROW_HEIGHT / 2} h${-SELF_LOOP_WIDTH}`
+              : `M${x1 + shift},${y} L${x2 - shift},${y}`;
+
+            return (
+              <g
+                key={message.id}
+                className="cursor-pointer"
+                opacity={dimmed ? 0.2 : 1}
+                onClick={() => setSelectedId(isSelected ? null : message.id)}
+              >
+                {/* Wide invisible hit area */}
+                <path d={path} stroke="transparent" strokeWidth={12} fill="none" />
+                <path
+                  d={path}
+                  fill="none"
+                  stroke={isSelected ? ACCENT : LINE}
+                  strokeWidth={isSelected ? 2 : 1.2}
+                  strokeDasharray={dashed ? '6 4' : undefined}
+                  markerEnd={`url(#${marker})`}
+                />
+                <text
+                  x={x1 === x2 ? x1 + SELF_LOOP_WIDTH + 10 : (x1 + x2) / 2}
+                  y={x1 === x2 ? y : y - 6}
+                  fontSize={12}
+                  textAnchor={x1 === x2 ? 'start' : 'middle'}
+                  fill="var(--color-text-primary)"
+                >
+                  {message.kind === 'create' ? `«create» ${message.label}` : message.label}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {selected && (
+        <MessageDetails
+          message={selected}
+          from={participantById.get(selected.from)}
+          to={participantById.get(selected.to)}
+          fragments={enclosingFragments(data.fragments, selected)}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+    </GraphViewerLayout>
+  );
+}
+
+function ParticipantHeader({ participant, x, active }: { participant: SequenceParticipant; x: number; active: boolean }) {
+  const stroke = active ? ACCENT : 'var(--color-border-subtle)';
+
+  if (participant.kind === 'actor') {
+    return (
+      <g>
+        <title>{participant.description || participant.sourceQuote || participant.name}</title>
+        <circle cx={x} cy={10} r={6} fill="none" stroke={LINE} />
+        <path d={`M${x},16 v12 M${x - 9},20 h18 M${x},28 l-7,9 M${x},28 l7,9`} fill="none" stroke={LINE} />
+        <text x={x} y={HEADER_HEIGHT - 16} fontSize={12} fontWeight={600} textAnchor="middle" fill="var(--color-text-primary)">
+          {participant.name}
+        </text>
+      </g>
+    );
+  }
+
+  return (
+    <g>
+      <title>{participant.description || participant.sourceQuote || participant.name}</title>
+      <rect
+        x={x - BOX_WIDTH / 2}
+        y={4}
+        width={BOX_WIDTH}
+        height={BOX_HEIGHT}
+        rx={participant.kind === 'database' ? 12 : 6}
+        fill="var(--color-surface-base)"
+        stroke={stroke}
+        strokeWidth={active ? 2 : 1}
+      />
+      {participant.kind !== 'participant' && (
+        <text x={x} y={18} fontSize={10} textAnchor="middle" fill="var(--color-text-tertiary)">
+          «{participant.kind}»
+        </text>
+      )}
+      <text
+        x={x}
+        y={participant.kind === 'participant' ? 28 : 34}
+        fontSize={12}
+        fontWeight={600}
+        textAnchor="middle"
+        fill="var(--color-text-primary)"
+      >
+        {participant.name}
+      </text>
+    </g>
+  );
+}
+
+interface MessageDetailsProps {
+  message: SequenceMessage;
+  from?: SequenceParticipant;
+  to?: SequenceParticipant;
+  fragments: Array<{ fragment: SequenceFragment; guard?: string }>;
+  onClose: () => void;
+}
+
+function MessageDetails({ message, from, to, fragments, onClose }: MessageDetailsProps) {
+  return (
+    <aside className="absolute right-4 bottom-4 w-80 p-4 rounded-lg shadow-lg bg-[var(--color-surface-base)] border border-[var(--color-border-subtle)]">
+      <div className="flex items-start justify-between gap-2">
+        <h3 className="text-sm font-semibold text-[var(--color-text-primary)]">
+          {message.order + 1}. {message.label || MESSAGE_KIND_LABELS[message.kind]}
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)]"
+          aria-label="Close message details"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-[var(--color-text-secondary)]">
+        {MESSAGE_KIND_LABELS[message.kind]} · {from?.name} → {to?.name}
+      </p>
+      {fragments.length > 0 && (
+        <ul className="mt-2 space-y-0.5 text-xs text-[var(--color-text-tertiary)]">
+          {fragments.map(({ fragment, guard }) => (
+            <li key={fragment.id}>
+              <span className="font-semibold">{fragment.kind}</span>
+              {guard && ` [${guard}]`}
+            </li>
+          ))}
+        </ul>
+      )}
+      {message.sourceQuote && (
+        <blockquote className="mt-3 pl-3 border-l-2 border-[var(--color-border-subtle)] text-xs text-[var(--color-text-secondary)]">
+          {message.sourceQuote}
+        </blockquote>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  COLUMN_WIDTH,
+  HEADER_HEIGHT,
+  ROW_HEIGHT,
+  enclosingFragments,
+  layoutSequence,
+  messagesInvolving,
+  sequenceRows,
+} from '../sequenceLayout';
+
+import type { SequenceMessage, UMLSequenceData } from '../../../../../../shared/src/types';
+
+const message = (
+  order: number,
+  from: string,
+  to: string,
+  extra: Partial<SequenceMessage> = {},
+): SequenceMessage => ({
+  id: `m${order}`,
+  from,
+  to,
+  label: `message ${order}`,
+  kind: 'sync',
+  order,
+  sourceQuote: '',
+  sourceSpan: null,
+  ...extra,
+});
+
+// a → b, then alt [ok] { b → c, loop { c → c } } [else] { b → a }
+const data: UMLSequenceData = {
+  participants: [
+    { id: 'a', name: 'A', kind: 'actor', sourceQuote: '', sourceSpan: null },
+    { id: 'b', name: 'B', kind: 'participant', sourceQuote: '', sourceSpan: null },
+    { id: 'c', name: 'C', kind: 'database', sourceQuote: '', sourceSpan: null },
+  ],
+  messages: [
+    message(0, 'a', 'b'),
+    message(1, 'b', 'c', { fragmentId: 'f0', operandIndex: 0 }),
+    message(2, 'c', 'c', { fragmentId: 'f1', operandIndex: 0 }),
+    message(3, 'b', 'a', { kind: 'return', fragmentId: 'f0', operandIndex: 1 }),
+  ],
+  activations: [{ id: 'act0', participantId: 'b', startOrder: 0, endOrder: 3, depth: 0 }],
+  fragments: [
+    { id: 'f0', kind: 'alt', operands: [{ guard: 'ok' }, { guard: 'else' }], order: 1, sourceQuote: '', sourceSpan: null },
+    { id: 'f1', kind: 'loop', operands: [{}], order: 2, parentId: 'f0', parentOperandIndex: 0, sourceQuote: '', sourceSpan: null },
+  ],
+};
+
+describe('sequenceRows', () => {
+  it('interleaves messages with fragment boundaries in time order', () => {
+    expect(sequenceRows(data).map((row) => (row.kind === 'message' ? row.message.id : `${row.kind}:${row.fragment.id}`))).toEqual([
+      'm0',
+      'open:f0',
+      'm1',
+      'open:f1',
+      'm2',
+      'close:f1',
+      'else:f0',
+      'm3',
+      'close:f0',
+    ]);
+  });
+});
+
+describe('layoutSequence', () => {
+  const layout = layoutSequence(data);
+
+  it('places lifelines in columns and messages on their rows', () => {
+    expect(layout.participants.map((p) => p.x)).toEqual([COLUMN_WIDTH / 2, COLUMN_WIDTH * 1.5, COLUMN_WIDTH * 2.5]);
+    expect(layout.messages[3]).toMatchObject({ x1: COLUMN_WIDTH * 1.5, x2: COLUMN_WIDTH / 2, y: HEADER_HEIGHT + 7.5 * ROW_HEIGHT });
+    expect(layout.height).toBe(HEADER_HEIGHT + 10 * ROW_HEIGHT);
+  });
+
+  it('frames fragments around the lifelines they touch, nested frames inside', () => {
+    const [alt, loop] = layout.fragments;
+
+    expect(alt.x).toBeLessThan(COLUMN_WIDTH / 2);
+    expect(alt.x + alt.width).toBeGreaterThan(COLUMN_WIDTH * 2.5);
+    expect(alt.separators).toHaveLength(1);
+    expect(alt.separators[0].guard).toBe('else');
+    expect(loop.depth).toBe(1);
+    expect(loop.x).toBeGreaterThan(COLUMN_WIDTH * 2);
+    expect(loop.height).toBe(2 * ROW_HEIGHT);
+  });
+
+  it('stretches activation bars between the rows of their messages', () => {
+    expect(layout.activations[0]).toMatchObject({ y: layout.messages[0].y, height: layout.messages[3].y - layout.messages[0].y });
+  });
+});
+
+describe('messagesInvolving', () => {
+  it('keeps the messages a participant sends or receives', () => {
+    expect([...messagesInvolving(data, 'c')]).toEqual(['m1', 'm2']);
+    expect(messagesInvolving(data, null).size).toBe(4);
+  });
+});
+
+describe('enclosingFragments', () => {
+  it('lists the frames around a message with the guard of its operand', () => {
+    expect(enclosingFragments(data.fragments, data.messages[2]).map(({ fragment, guard }) => [fragment.id, guard])).toEqual([
+      ['f0', 'ok'],
+      ['f1', undefined],
+    ]);
+  });
+});
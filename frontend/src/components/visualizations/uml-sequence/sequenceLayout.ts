@@ -0,0 +1,215 @@
+import type {
+  SequenceActivation,
+  SequenceFragment,
+  SequenceMessage,
+  SequenceParticipant,
+  UMLSequenceData,
+} from '../../../../../shared/src/types';
+
+export const COLUMN_WIDTH = 180;
+export const HEADER_HEIGHT = 64;
+export const ROW_HEIGHT = 40;
+export const ACTIVATION_WIDTH = 10;
+const ACTIVATION_OFFSET = 5; // Sideways shift per nesting level
+const FRAGMENT_PADDING = 18; // Frame inset around the outermost lifelines it covers
+const FRAGMENT_NESTING = 8;
+
+/**
+ * One horizontal band of the diagram, top to bottom: a message, or a fragment frame
+ * opening, switching to its next operand, or closing.
+ */
+export type SequenceRow =
+  | { kind: 'message'; message: SequenceMessage }
+  | { kind: 'open' | 'else'; fragment: SequenceFragment; operandIndex: number }
+  | { kind: 'close'; fragment: SequenceFragment };
+
+export interface PositionedParticipant {
+  participant: SequenceParticipant;
+  x: number; // Lifeline centre
+}
+
+export interface PositionedMessage {
+  message: SequenceMessage;
+  x1: number;
+  x2: number;
+  y: number;
+}
+
+export interface PositionedFragment {
+  fragment: SequenceFragment;
+  depth: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Dashed lines between operands, with the guard of the operand below
+  separators: Array<{ y: number; guard?: string }>;
+}
+
+export interface PositionedActivation {
+  activation: SequenceActivation;
+  x: number;
+  y: number;
+  height: number;
+}
+
+export interface SequenceLayout {
+  participants: PositionedParticipant[];
+  messages: PositionedMessage[];
+  fragments: PositionedFragment[];
+  activations: PositionedActivation[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Rows in time order. Fragments are rebuilt from the operand each message and nested
+ * fragment belongs to; a fragment opens before the message that shares its order.
+ */
+export function sequenceRows(data: UMLSequenceData): SequenceRow[] {
+  type Item = { order: number; message?: SequenceMessage; fragment?: SequenceFragment };
+  const containerKey = (fragmentId?: string, operandIndex?: number) => (
+    fragmentId ? `${fragmentId}/${operandIndex ?? 0}` : ''
+  );
+  const children = new Map<string, Item[]>();
+  const add = (key: string, item: Item) => children.set(key, [...(children.get(key) || []), item]);
+  data.fragments.forEach((fragment) => add(
+    containerKey(fragment.parentId, fragment.parentOperandIndex),
+    { order: fragment.order, fragment },
+  ));
+  data.messages.forEach((message) => add(containerKey(message.fragmentId, message.operandIndex), { order: message.order, message }));
+  children.forEach((items) => items.sort((a, b) => a.order - b.order || Number(!!a.message) - Number(!!b.message)));
+
+  const rows: SequenceRow[] = [];
+  const walk = (key: string) => {
+    (children.get(key) || []).forEach(({ message, fragment }) => {
+      if (message) {
+        rows.push({ kind: 'message', message });
+        return;
+      }
+      fragment!.operands.forEach((_operand, operandIndex) => {
+        rows.push({ kind: operandIndex === 0 ? 'open' : 'else', fragment: fragment!, operandIndex });
+        walk(containerKey(fragment!.id, operandIndex));
+      });
+      rows.push({ kind: 'close', fragment: fragment! });
+    });
+  };
+  walk('');
+  return rows;
+}
+
+/**
+ * Lifelines in participant order, one row per message or fragment boundary, frames
+ * spanning the lifelines their messages touch, and activation bars between the rows
+ * of the messages that start and end them.
+ */
+export function layoutSequence(data: UMLSequenceData): SequenceLayout {
+  const rows = sequenceRows(data);
+  const rowY = (index: number) => HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+  const participants = data.participants.map((participant, index) => ({
+    participant,
+    x: COLUMN_WIDTH / 2 + index * COLUMN_WIDTH,
+  }));
+  const xOf = new Map(participants.map((p) => [p.participant.id, p.x]));
+
+  const messages: PositionedMessage[] = [];
+  const messageY = new Map<number, number>();
+  rows.forEach((row, index) => {
+    if (row.kind !== 'message') return;
+    const y = rowY(index);
+    messageY.set(row.message.order, y);
+    messages.push({ message: row.message, x1: xOf.get(row.message.from) ?? 0, x2: xOf.get(row.message.to) ?? 0, y });
+  });
+
+  // Lifelines touched by each fragment, including through nested fragments
+  const depthOf = (fragment: SequenceFragment): number => {
+    const parent = data.fragments.find((f) => f.id === fragment.parentId);
+    return parent ? depthOf(parent) + 1 : 0;
+  };
+  const within = (fragment: SequenceFragment, message: SequenceMessage): boolean => {
+    let current = data.fragments.find((f) => f.id === message.fragmentId);
+    while (current) {
+      if (current.id === fragment.id) return true;
+      const parentId: string | undefined = current.parentId;
+      current = data.fragments.find((f) => f.id === parentId);
+    }
+    return false;
+  };
+
+  const fragments: PositionedFragment[] = data.fragments.map((fragment) => {
+    const depth = depthOf(fragment);
+    const xs = data.messages
+      .filter((message) => within(fragment, message))
+      .flatMap((message) => [xOf.get(message.from) ?? 0, xOf.get(message.to) ?? 0]);
+    const span = xs.length > 0 ? xs : [COLUMN_WIDTH / 2];
+    const inset = FRAGMENT_PADDING + depth * FRAGMENT_NESTING;
+    const left = Math.min(...span) - COLUMN_WIDTH / 2 + inset;
+    const right = Math.max(...span) + COLUMN_WIDTH / 2 - inset;
+    const top = rows.findIndex((row) => row.kind === 'open' && row.fragment.id === fragment.id);
+    const bottom = rows.findIndex((row) => row.kind === 'close' && row.fragment.id === fragment.id);
+
+    return {
+      fragment,
+      depth,
+      x: left,
+      y: rowY(top) - ROW_HEIGHT / 2 + 4,
+      width: right - left,
+      height: (bottom - top) * ROW_HEIGHT,
+      separators: rows
+        .map((row, index) => ({ row, index }))
+        .filter(({ row }) => row.kind === 'else' && row.fragment.id === fragment.id)
+        .map(({ row, index }) => ({
+          y: rowY(index) - ROW_HEIGHT / 2 + 4,
+          guard: fragment.operands[(row as { operandIndex: number }).operandIndex]?.guard,
+        })),
+    };
+  });
+
+  const activations = data.activations.map((activation) => {
+    const top = messageY.get(activation.startOrder) ?? HEADER_HEIGHT;
+    const bottom = messageY.get(activation.endOrder) ?? top;
+    return {
+      activation,
+      x: (xOf.get(activation.participantId) ?? 0) - ACTIVATION_WIDTH / 2 + activation.depth * ACTIVATION_OFFSET,
+      y: top,
+      height: Math.max(bottom - top, ROW_HEIGHT / 2),
+    };
+  });
+
+  return {
+    participants,
+    messages,
+    fragments,
+    activations,
+    width: Math.max(participants.length, 1) * COLUMN_WIDTH,
+    height: HEADER_HEIGHT + rows.length * ROW_HEIGHT + ROW_HEIGHT,
+  };
+}
+
+/**
+ * Ids of the messages a participant sends or receives; every message when none is selected
+ */
+export function messagesInvolving(data: UMLSequenceData, participantId: string | null): Set<string> {
+  return new Set(
+    data.messages
+      .filter((m) => !participantId || m.from === participantId || m.to === participantId)
+      .map((m) => m.id),
+  );
+}
+
+/**
+ * Fragments around a message, outermost first, with the guard of the operand it sits in
+ */
+export function enclosingFragments(fragments: SequenceFragment[], message: SequenceMessage) {
+  const chain: Array<{ fragment: SequenceFragment; guard?: string }> = [];
+  let fragment = fragments.find((f) => f.id === message.fragmentId);
+  let operandIndex = message.operandIndex ?? 0;
+  while (fragment) {
+    chain.unshift({ fragment, guard: fragment.operands[operandIndex]?.guard });
+    operandIndex = fragment.parentOperandIndex ?? 0;
+    const parentId = fragment.parentId;
+    fragment = fragments.find((f) => f.id === parentId);
+  }
+  return chain;
+}
@@ -2,7 +2,7 @@
  * DocumentBrowserPanel Component
  *
  * Panel for browsing existing documents from the database.
- * Features search, document list with Vaisu design system styling.
+ * Features search, document list and deletion with Vaisu design system styling.
  *
  * @example
  * ```tsx
@@ -10,13 +10,14 @@
  * ```
  */
 
-import { Search, FileX, Loader2, FileText, Clock } from 'lucide-react';
+import { Search, FileX, Loader2, FileText, Clock, Trash2 } from 'lucide-react';
 import { useEffect, useState, useCallback, memo } from 'react';
 import { List as VirtualizedList } from 'react-virtualized';
 
 import { cn } from '../../lib/utils';
 import { useDocumentStore } from '../../stores/documentStore';
 
+import type { SearchSnippet } from '../../../../shared/src/types';
 import type { DocumentListItem as DocumentListItemType } from '../../stores/documentStore';
 
 
@@ -39,6 +40,8 @@ export const DocumentBrowserPanel = ({ onDocumentLoad }: DocumentBrowserPanelPro
     isLoadingList,
     fetchDocumentList,
     searchDocuments,
+    searchResults,
+    deleteDocument,
     document: currentDocument,
   } = useDocumentStore();
 
@@ -94,6 +97,13 @@ export const DocumentBrowserPanel = ({ onDocumentLoad }: DocumentBrowserPanelPro
     return tldr.text || '';
   }, []);
 
+  const handleDocumentDelete = useCallback(async (doc: DocumentListItemType) => {
+    if (!window.confirm(`Delete "${doc.title}"? Its analysis and visualizations are removed too.`)) {
+      return;
+    }
+    await deleteDocument(doc.id);
+  }, [deleteDocument]);
+
   const handleSearchChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQueryState(e.target.value);
   }, []);
@@ -255,8 +265,10 @@ export const DocumentBrowserPanel = ({ onDocumentLoad }: DocumentBrowserPanelPro
         ) : (
           <DocumentList
             documents={documentList}
+            searchResults={searchQuery ? searchResults : undefined}
             currentDocumentId={currentDocument?.id}
             onDocumentLoad={onDocumentLoad}
+            onDocumentDelete={handleDocumentDelete}
             getFileIcon={getFileIcon}
             formatDate={formatDate}
             getTLDRText={getTLDRText}
@@ -272,14 +284,16 @@ export const DocumentBrowserPanel = ({ onDocumentLoad }: DocumentBrowserPanelPro
  */
 interface DocumentListProps {
   documents: DocumentListItemType[];
+  searchResults?: Record<string, { snippets: SearchSnippet[] }>;
   currentDocumentId?: string;
   onDocumentLoad: (id: string) => void;
+  onDocumentDelete: (doc: DocumentListItemType) => void;
   getFileIcon: (fileType: string) => string;
   formatDate: (date: Date | string) => string;
   getTLDRText: (tldr?: { text?: string } | string) => string;
 }
 
-const DocumentList = memo<DocumentListProps>(({ documents, currentDocumentId, onDocumentLoad, getFileIcon, formatDate, getTLDRText }) => {
+const DocumentList = memo<DocumentListProps>(({ documents, searchResults, currentDocumentId, onDocumentLoad, onDocumentDelete, getFileIcon, formatDate, getTLDRText }) => {
   const rowHeight = 120; // Fixed height for virtualization
   const overscanRowCount = 5; // Render extra rows for smooth scrolling
 
@@ -298,7 +312,9 @@ const DocumentList = memo<DocumentListProps>(({ documents, currentDocumentId, on
           fileIcon={fileIcon}
           formattedDate={formattedDate}
           tldrText={tldrText}
+          snippet={searchResults?.[doc.id]?.snippets[0]}
           onClick={() => onDocumentLoad(doc.id)}
+          onDelete={() => onDocumentDelete(doc)}
         />
       </div>
     );
@@ -335,180 +351,253 @@ interface DocumentListItemProps {
   fileIcon: string;
   formattedDate: string;
   tldrText: string;
+  // Best search match, shown instead of the TL;DR while searching
+  snippet?: SearchSnippet;
   onClick: () => void;
+  onDelete: () => void;
 }
 
-const DocumentListItem = memo<DocumentListItemProps>(({ document, isActive, fileIcon, formattedDate, tldrText, onClick }) => {
+/**
+ * Snippet text with the matched words marked
+ */
+const HighlightedSnippet = ({ snippet }: { snippet: SearchSnippet }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(({ start, end }) => {
+    parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark
+        key={start}
+        style={{ backgroundColor: 'rgba(99, 102, 241, 0.25)', color: 'var(--color-text-primary)' }}
+      >
+        {snippet.text.slice(start, end)}
+      </mark>,
+    );
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+
   return (
-    <button
-      onClick={onClick}
-      className={cn(
-        'w-full',
-        'text-left',
-        'p-4',
-        'transition-all',
-        'duration-[var(--duration-normal)]',
-        'group',
-        'outline-none',
+    <>
+      {snippet.sectionTitle && (
+        <span style={{ color: 'var(--color-text-tertiary)' }}>§ {snippet.sectionTitle} · </span>
       )}
-      style={{
-        backgroundColor: isActive
-          ? 'rgba(99, 102, 241, 0.15)'
-          : 'var(--color-surface-base)',
-        border: '1px solid',
-        borderColor: isActive
-          ? 'var(--aurora-1)'
-          : 'var(--color-border-subtle)',
-        borderRadius: 'var(--radius-md)',
-        boxShadow: isActive
-          ? '0 0 20px rgba(99, 102, 241, 0.25), inset 0 1px 0 rgba(255, 255, 255, 0.1)'
-          : 'none',
-        marginBottom: '12px',
-      }}
-      onMouseEnter={(e) => {
-        if (!isActive) {
-          e.currentTarget.style.borderColor = 'var(--color-border-strong)';
-          e.currentTarget.style.backgroundColor = 'var(--color-surface-elevated)';
-        }
-      }}
-      onMouseLeave={(e) => {
-        if (!isActive) {
-          e.currentTarget.style.borderColor = 'var(--color-border-subtle)';
-          e.currentTarget.style.backgroundColor = 'var(--color-surface-base)';
-        }
-      }}
-      aria-label={`Load document: ${document.title}`}
-      aria-pressed={isActive}
-    >
-      <div className={cn('flex', 'items-start', 'gap-3')}>
-        {/* File Icon */}
-        <span
-          className={cn(
-            'text-2xl',
-            'flex-shrink-0',
-            'mt-0.5',
-            'transition-transform',
-            'duration-[var(--duration-fast)]',
-            'group-hover:scale-110',
-          )}
-          role="img"
-          aria-label={`${document.fileType} file`}
-        >
-          {fileIcon}
-        </span>
-
-        {/* Content */}
-        <div className={cn('flex-1', 'min-w-0')}>
-          {/* Header: Title and Date */}
-          <div
+      {parts}
+    </>
+  );
+};
+
+const DocumentListItem = memo<DocumentListItemProps>(({ document, isActive, fileIcon, formattedDate, tldrText, snippet, onClick, onDelete }) => {
+  return (
+    <div className="relative">
+      <button
+        onClick={onClick}
+        className={cn(
+          'w-full',
+          'text-left',
+          'p-4',
+          'transition-all',
+          'duration-[var(--duration-normal)]',
+          'group',
+          'outline-none',
+        )}
+        style={{
+          backgroundColor: isActive
+            ? 'rgba(99, 102, 241, 0.15)'
+            : 'var(--color-surface-base)',
+          border: '1px solid',
+          borderColor: isActive
+            ? 'var(--aurora-1)'
+            : 'var(--color-border-subtle)',
+          borderRadius: 'var(--radius-md)',
+          boxShadow: isActive
+            ? '0 0 20px rgba(99, 102, 241, 0.25), inset 0 1px 0 rgba(255, 255, 255, 0.1)'
+            : 'none',
+          marginBottom: '12px',
+        }}
+        onMouseEnter={(e) => {
+          if (!isActive) {
+            e.currentTarget.style.borderColor = 'var(--color-border-strong)';
+            e.currentTarget.style.backgroundColor = 'var(--color-surface-elevated)';
+          }
+        }}
+        onMouseLeave={(e) => {
+          if (!isActive) {
+            e.currentTarget.style.borderColor = 'var(--color-border-subtle)';
+            e.currentTarget.style.backgroundColor = 'var(--color-surface-base)';
+          }
+        }}
+        aria-label={`Load document: ${document.title}`}
+        aria-pressed={isActive}
+      >
+        <div className={cn('flex', 'items-start', 'gap-3')}>
+          {/* File Icon */}
+          <span
             className={cn(
-              'flex',
-              'items-start',
-              'justify-between',
-              'gap-3',
-              'mb-2',
+              'text-2xl',
+              'flex-shrink-0',
+              'mt-0.5',
+              'transition-transform',
+              'duration-[var(--duration-fast)]',
+              'group-hover:scale-110',
             )}
+            role="img"
+            aria-label={`${document.fileType} file`}
           >
-            <h3
-              className="truncate"
-              style={{
-                color: isActive ? 'var(--aurora-2)' : 'var(--color-text-primary)',
-                fontSize: 'var(--font-size-base)',
-                fontWeight: isActive ? 'var(--font-weight-semibold)' : 'var(--font-weight-medium)',
-                lineHeight: 'var(--line-height-tight)',
-              }}
-            >
-              {document.title}
-            </h3>
-            <span
-              className="font-mono opacity-40 text-[10px] ml-2 shrink-0"
-              style={{ color: 'var(--color-text-tertiary)' }}
+            {fileIcon}
+          </span>
+
+          {/* Content */}
+          <div className={cn('flex-1', 'min-w-0')}>
+            {/* Header: Title and Date */}
+            <div
+              className={cn(
+                'flex',
+                'items-start',
+                'justify-between',
+                'gap-3',
+                'mb-2',
+              )}
             >
+              <h3
+                className="truncate"
+                style={{
+                  color: isActive ? 'var(--aurora-2)' : 'var(--color-text-primary)',
+                  fontSize: 'var(--font-size-base)',
+                  fontWeight: isActive ? 'var(--font-weight-semibold)' : 'var(--font-weight-medium)',
+                  lineHeight: 'var(--line-height-tight)',
+                }}
+              >
+                {document.title}
+              </h3>
+              <span
+                className="font-mono opacity-40 text-[10px] ml-2 shrink-0"
+                style={{ color: 'var(--color-text-tertiary)' }}
+              >
               ID: {document.id}
-            </span>
+              </span>
+              <div
+                className={cn(
+                  'flex',
+                  'items-center',
+                  'gap-1',
+                  'flex-shrink-0',
+                )}
+                style={{
+                  color: 'var(--color-text-tertiary)',
+                  fontSize: 'var(--font-size-xs)',
+                }}
+              >
+                <Clock size={12} />
+                <span>{formattedDate}</span>
+              </div>
+            </div>
+
+            {/* Search match, or the TL;DR preview */}
+            {snippet ? (
+              <p
+                className="line-clamp-2 mb-2"
+                style={{
+                  color: 'var(--color-text-secondary)',
+                  fontSize: 'var(--font-size-sm)',
+                  lineHeight: 'var(--line-height-normal)',
+                }}
+              >
+                <HighlightedSnippet snippet={snippet} />
+              </p>
+            ) : tldrText && (
+              <p
+                className="line-clamp-2 mb-2"
+                style={{
+                  color: 'var(--color-text-secondary)',
+                  fontSize: 'var(--font-size-sm)',
+                  lineHeight: 'var(--line-height-normal)',
+                }}
+              >
+                {tldrText}
+              </p>
+            )}
+
+            {/* Footer: Word Count and File Type */}
             <div
               className={cn(
                 'flex',
                 'items-center',
-                'gap-1',
-                'flex-shrink-0',
+                'gap-3',
               )}
               style={{
                 color: 'var(--color-text-tertiary)',
                 fontSize: 'var(--font-size-xs)',
               }}
             >
-              <Clock size={12} />
-              <span>{formattedDate}</span>
+              <div className={cn('flex', 'items-center', 'gap-1.5')}>
+                <FileText size={12} />
+                <span>{document.wordCount.toLocaleString()} words</span>
+              </div>
+              <span
+                style={{
+                  padding: '2px 8px',
+                  backgroundColor: isActive
+                    ? 'rgba(99, 102, 241, 0.2)'
+                    : 'rgba(255, 255, 255, 0.05)',
+                  borderRadius: 'var(--radius-sm)',
+                  border: '1px solid',
+                  borderColor: isActive
+                    ? 'var(--aurora-1)'
+                    : 'var(--color-border-subtle)',
+                }}
+              >
+                {document.fileType.toUpperCase()}
+              </span>
             </div>
           </div>
 
-          {/* TL;DR Preview */}
-          {tldrText && (
-            <p
-              className="line-clamp-2 mb-2"
+          {/* Active Indicator */}
+          {isActive && (
+            <div
+              className={cn(
+                'flex-shrink-0',
+                'w-1.5',
+                'h-1.5',
+                'rounded-full',
+              )}
               style={{
-                color: 'var(--color-text-secondary)',
-                fontSize: 'var(--font-size-sm)',
-                lineHeight: 'var(--line-height-normal)',
+                backgroundColor: 'var(--aurora-2)',
+                boxShadow: '0 0 8px var(--aurora-2)',
+                marginTop: '6px',
               }}
-            >
-              {tldrText}
-            </p>
+            />
           )}
-
-          {/* Footer: Word Count and File Type */}
-          <div
-            className={cn(
-              'flex',
-              'items-center',
-              'gap-3',
-            )}
-            style={{
-              color: 'var(--color-text-tertiary)',
-              fontSize: 'var(--font-size-xs)',
-            }}
-          >
-            <div className={cn('flex', 'items-center', 'gap-1.5')}>
-              <FileText size={12} />
-              <span>{document.wordCount.toLocaleString()} words</span>
-            </div>
-            <span
-              style={{
-                padding: '2px 8px',
-                backgroundColor: isActive
-                  ? 'rgba(99, 102, 241, 0.2)'
-                  : 'rgba(255, 255, 255, 0.05)',
-                borderRadius: 'var(--radius-sm)',
-                border: '1px solid',
-                borderColor: isActive
-                  ? 'var(--aurora-1)'
-                  : 'var(--color-border-subtle)',
-              }}
-            >
-              {document.fileType.toUpperCase()}
-            </span>
-          </div>
         </div>
+      </button>
 
-        {/* Active Indicator */}
-        {isActive && (
-          <div
-            className={cn(
-              'flex-shrink-0',
-              'w-1.5',
-              'h-1.5',
-              'rounded-full',
-            )}
-            style={{
-              backgroundColor: 'var(--aurora-2)',
-              boxShadow: '0 0 8px var(--aurora-2)',
-              marginTop: '6px',
-            }}
-          />
+      {/* Delete sits beside the load button; buttons cannot be nested */}
+      <button
+        onClick={onDelete}
+        className={cn(
+          'absolute',
+          'right-3',
+          'bottom-6',
+          'p-1.5',
+          'transition-colors',
+          'duration-[var(--duration-fast)]',
         )}
-      </div>
-    </button>
+        style={{
+          color: 'var(--color-text-tertiary)',
+          borderRadius: 'var(--radius-sm)',
+        }}
+        onMouseEnter={(e) => {
+          e.currentTarget.style.color = 'var(--color-semantic-error-base)';
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.color = 'var(--color-text-tertiary)';
+        }}
+        title="Delete document"
+        aria-label={`Delete document: ${document.title}`}
+      >
+        <Trash2 size={14} />
+      </button>
+    </div>
   );
 });
 
@@ -6,8 +6,18 @@ import { Card } from '../../components/primitives';
 import { cn } from '../../lib/utils';
 import { useDocumentStore } from '../../stores/documentStore';
 
+const SUPPORTED_EXTENSIONS = ['.txt', '.md', '.pdf', '.docx', '.html', '.epub'];
+
 export function FileUploader() {
-  const { uploadDocument, isLoading, progressMessage, progressPercent, addToast } = useDocumentStore();
+  const { uploadDocument, isLoading, progressMessage, progressPercent, analysis, addToast }
+    = useDocumentStore();
+
+  // Early results streamed while the rest of the analysis runs
+  const earlyTldr = analysis?.tldr
+    ? typeof analysis.tldr === 'string'
+      ? analysis.tldr
+      : analysis.tldr.text
+    : '';
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
@@ -33,7 +43,7 @@ export function FileUploader() {
         addToast({
           type: 'error',
           title: 'Invalid file type',
-          message: `The file "${rejection.file.name}" is not supported. Please upload .txt, .pdf, or .md files.`,
+          message: `The file "${rejection.file.name}" is not supported. Please upload .txt, .md, .pdf, .docx, .html, or .epub files.`,
           duration: 0,
         });
       } else {
@@ -55,6 +65,10 @@ export function FileUploader() {
       'text/plain': ['.txt'],
       'application/pdf': ['.pdf'],
       'text/markdown': ['.md'],
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+      'text/html': ['.html', '.htm'],
+      'application/xhtml+xml': ['.xhtml'],
+      'application/epub+zip': ['.epub'],
     },
     maxFiles: 1,
     maxSize: 1024 * 1024 * 1024, // 1GB
@@ -132,6 +146,36 @@ export function FileUploader() {
                     </p>
                   </>
                 )}
+                {earlyTldr && (
+                  <div
+                    className="max-w-md mx-auto mt-[var(--spacing-md)] p-[var(--spacing-md)] rounded-lg text-left"
+                    style={{
+                      backgroundColor: 'var(--color-surface-elevated)',
+                      border: '1px solid var(--color-border-subtle)',
+                    }}
+                  >
+                    <p
+                      className="text-[var(--font-size-xs)] font-[var(--font-weight-semibold)] uppercase tracking-wide"
+                      style={{ color: 'var(--color-text-tertiary)' }}
+                    >
+                      TL;DR
+                    </p>
+                    <p
+                      className="text-[var(--font-size-sm)]"
+                      style={{ color: 'var(--color-text-primary)' }}
+                    >
+                      {earlyTldr}
+                    </p>
+                    {analysis?.executiveSummary?.headline && (
+                      <p
+                        className="mt-[var(--spacing-xs)] text-[var(--font-size-sm)] font-[var(--font-weight-semibold)]"
+                        style={{ color: 'var(--color-text-secondary)' }}
+                      >
+                        {analysis.executiveSummary.headline}
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
             </>
           ) : (
@@ -161,18 +205,12 @@ export function FileUploader() {
                 </p>
               </div>
               <div className="flex gap-[var(--spacing-sm)] text-[var(--font-size-xs)] text-[var(--color-text-tertiary)]">
-                <span className="flex items-center gap-[var(--spacing-xs)]">
-                  <FileText className="w-3 h-3" />
-                  .txt
-                </span>
-                <span className="flex items-center gap-[var(--spacing-xs)]">
-                  <FileText className="w-3 h-3" />
-                  .pdf
-                </span>
-                <span className="flex items-center gap-[var(--spacing-xs)]">
-                  <FileText className="w-3 h-3" />
-                  .md
-                </span>
+                {SUPPORTED_EXTENSIONS.map(ext => (
+                  <span key={ext} className="flex items-center gap-[var(--spacing-xs)]">
+                    <FileText className="w-3 h-3" />
+                    {ext}
+                  </span>
+                ))}
               </div>
               <p
                 className="text-[var(--font-size-xs)]"
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+
+import { analyzeKnowledgeBase, toKnowledgeGraphData } from "./knowledgeBaseView";
+
+import type { KnowledgeBaseGraph, KnowledgeBaseNode } from "../../../../shared/src/types";
+
+const node = (id: string, label: string, documentIds: string[], aliases: string[] = []): KnowledgeBaseNode => ({
+  id,
+  label,
+  type: "concept",
+  size: 40,
+  color: "#000",
+  metadata: { centrality: 0.5, connections: 1 },
+  documentIds,
+  aliases,
+});
+
+const graph: KnowledgeBaseGraph = {
+  nodes: [
+    node("kb:a", "Carbon tax", ["doc-1", "doc-2"], ["carbon taxes"]),
+    node("kb:b", "Emissions", ["doc-1"]),
+    node("kb:c", "Heat pumps", ["doc-2"]),
+  ],
+  edges: [
+    {
+      id: "kb-edge-1",
+      source: "kb:a",
+      target: "kb:b",
+      type: "causes",
+      strength: 0.8,
+      documentIds: ["doc-1", "doc-2"],
+      documentEvidence: [
+        { documentId: "doc-1", evidence: ["taxes cut emissions"] },
+        { documentId: "doc-2", evidence: [{ start: 0, end: 5, text: "levy works" }] },
+      ],
+    },
+    {
+      id: "kb-edge-2",
+      source: "kb:a",
+      target: "kb:c",
+      type: "depends-on",
+      strength: 0.4,
+      documentIds: ["doc-2"],
+      documentEvidence: [],
+    },
+  ],
+  documents: [
+    { documentId: "doc-1", title: "Report", nodeCount: 2, edgeCount: 1 },
+    { documentId: "doc-2", title: "Memo", nodeCount: 2, edgeCount: 1 },
+  ],
+  missingDocumentIds: [],
+  resolution: "name",
+};
+
+describe("toKnowledgeGraphData", () => {
+  it("labels sources and evidence with document titles", () => {
+    const data = toKnowledgeGraphData(graph);
+
+    expect(data.nodes[0].metadata.sources).toEqual(["Report", "Memo"]);
+    expect(data.nodes[0].metadata.category).toBe("Also: carbon taxes");
+    expect(data.edges[0].evidence).toEqual(["Report: taxes cut emissions", "Memo: levy works"]);
+    expect(data.edges[1].relationshipType).toBe("DEPENDS_ON");
+  });
+});
+
+describe("analyzeKnowledgeBase", () => {
+  it("ranks the hub entity first and clusters every entity", () => {
+    const { clusters, topEntities } = analyzeKnowledgeBase(graph, 2);
+
+    expect(topEntities).toHaveLength(2);
+    expect(topEntities[0].id).toBe("kb:a");
+    expect(clusters.flatMap((cluster) => cluster.nodeIds).sort()).toEqual(["kb:a", "kb:b", "kb:c"]);
+  });
+
+  it("handles an empty library", () => {
+    expect(analyzeKnowledgeBase({ ...graph, nodes: [], edges: [] })).toEqual({
+      clusters: [],
+      topEntities: [],
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { centralityService } from '../../components/visualizations/knowledge-graph/services/centralityService';
+import { clusteringService } from '../../components/visualizations/knowledge-graph/services/clusteringService';
+
+import type {
+  Cluster,
+  GraphNode,
+  KnowledgeBaseGraph,
+  KnowledgeBaseNode,
+} from '../../../../shared/src/types';
+import type {
+  KnowledgeEdge,
+  KnowledgeGraphData,
+  KnowledgeNode,
+} from '../../components/visualizations/knowledge-graph/types';
+
+export interface KnowledgeBaseInsights {
+  clusters: Cluster[];
+  topEntities: KnowledgeBaseNode[];
+}
+
+/**
+ * Convert the merged library graph into the shape the KnowledgeGraph
+ * renderer expects. Entity sources are document titles and each relation's
+ * evidence is prefixed with the document it was found in.
+ */
+export function toKnowledgeGraphData(graph: KnowledgeBaseGraph): KnowledgeGraphData {
+  const titles = new Map(graph.documents.map((doc) => [doc.documentId, doc.title]));
+  const titleOf = (documentId: string) => titles.get(documentId) || documentId;
+
+  const nodes: KnowledgeNode[] = graph.nodes.map((node) => ({
+    id: node.id,
+    label: node.label,
+    type: node.type as unknown as KnowledgeNode['type'],
+    confidence: node.metadata.centrality,
+    metadata: {
+      sources: node.documentIds.map(titleOf),
+      description: node.metadata.description,
+      category: node.aliases.length > 0 ? `Also: ${node.aliases.join(', ')}` : undefined,
+    },
+  }));
+
+  const edges: KnowledgeEdge[] = graph.edges.map((edge) => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    relation: edge.label || edge.type,
+    weight: edge.strength,
+    evidence: edge.documentEvidence.flatMap(({ documentId, evidence }) =>
+      evidence.map((item) => `${titleOf(documentId)}: ${typeof item === 'string' ? item : item.text}`)),
+    relationshipType: edge.type.toUpperCase().replace(/-/g, '_') as KnowledgeEdge['relationshipType'],
+  }));
+
+  return { nodes, edges };
+}
+
+/**
+ * Communities and most central entities of the library graph, computed with
+ * the same services the per-document knowledge graph uses
+ */
+export function analyzeKnowledgeBase(graph: KnowledgeBaseGraph, limit = 10): KnowledgeBaseInsights {
+  if (graph.nodes.length === 0) {
+    return { clusters: [], topEntities: [] };
+  }
+
+  const scores = centralityService.calculateCentrality(graph.nodes, graph.edges);
+  const scored = graph.nodes.map((node) => ({
+    ...node,
+    metadata: { ...node.metadata, centrality: scores.get(node.id)?.combined ?? node.metadata.centrality },
+  }));
+
+  const clusters = clusteringService
+    .detectClusters(scored, graph.edges)
+    .sort((a, b) => b.nodeIds.length - a.nodeIds.length);
+  const topEntities = centralityService.getTopNodes(scored as GraphNode[], scores, limit) as KnowledgeBaseNode[];
+
+  return { clusters, topEntities };
+}
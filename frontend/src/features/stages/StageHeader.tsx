@@ -1,9 +1,28 @@
-import { ArrowLeft, Menu } from 'lucide-react';
-import React from 'react';
+import { ArrowLeft, Download, History, Menu, MessageSquare, ShieldCheck, Upload } from 'lucide-react';
+import React, { useState } from 'react';
 
 import { Button } from '../../components/primitives';
 import { cn } from '../../lib/utils';
 
+import type { ExportRequest } from '../../../../shared/src/types';
+
+export type ExportFormat = ExportRequest['format'];
+
+// `diagram` formats are only listed when the current visualization supports them
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string; diagram?: boolean }> = [
+  { format: 'png', label: 'PNG image' },
+  { format: 'svg', label: 'SVG vector' },
+  { format: 'pdf', label: 'PDF' },
+  { format: 'html', label: 'HTML page' },
+  { format: 'csv', label: 'CSV data' },
+  { format: 'json', label: 'JSON data' },
+  { format: 'plantuml', label: 'PlantUML source', diagram: true },
+  { format: 'mermaid', label: 'Mermaid source', diagram: true },
+  { format: 'graphml', label: 'GraphML (yEd, Gephi)', diagram: true },
+  { format: 'dot', label: 'Graphviz DOT', diagram: true },
+  { format: 'pptx', label: 'PowerPoint deck' },
+];
+
 export interface StageHeaderProps {
     title: string;
     documentId?: string;
@@ -11,6 +30,15 @@ export interface StageHeaderProps {
     vizCount?: number;
     onBack?: () => void;
     onToggleSidebar?: () => void;
+    onToggleChat?: () => void;
+    onToggleHistory?: () => void;
+    // Shown for visualizations whose items carry source grounding
+    onToggleGrounding?: () => void;
+    hideUngrounded?: boolean;
+    onExport?: (format: ExportFormat) => void;
+    onImport?: () => void;
+    isExporting?: boolean;
+    diagramFormats?: ExportFormat[];
     className?: string;
 }
 
@@ -27,8 +55,18 @@ export const StageHeader: React.FC<StageHeaderProps> = ({
   vizCount,
   onBack,
   onToggleSidebar,
+  onToggleChat,
+  onToggleHistory,
+  onToggleGrounding,
+  hideUngrounded,
+  onExport,
+  onImport,
+  isExporting,
+  diagramFormats = [],
   className,
 }) => {
+  const [exportOpen, setExportOpen] = useState(false);
+
   return (
     <header
       className={cn(
@@ -101,6 +139,88 @@ export const StageHeader: React.FC<StageHeaderProps> = ({
             <Menu className="w-4 h-4" />
           </Button>
         )}
+        {onToggleChat && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onToggleChat}
+            className="hover:bg-[var(--color-surface-secondary)]"
+            title="Ask the document (C)"
+          >
+            <MessageSquare className="w-4 h-4" />
+          </Button>
+        )}
+        {onToggleHistory && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onToggleHistory}
+            className="hover:bg-[var(--color-surface-secondary)]"
+            title="Version history (H)"
+          >
+            <History className="w-4 h-4" />
+          </Button>
+        )}
+        {onToggleGrounding && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onToggleGrounding}
+            aria-pressed={hideUngrounded}
+            className={cn(
+              'hover:bg-[var(--color-surface-secondary)]',
+              hideUngrounded && 'bg-[var(--color-surface-secondary)]',
+            )}
+            title={hideUngrounded ? 'Show items not found in the document' : 'Hide items not found in the document'}
+          >
+            <ShieldCheck className="w-4 h-4" />
+          </Button>
+        )}
+        {onImport && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onImport}
+            className="hover:bg-[var(--color-surface-secondary)]"
+            title="Import Mermaid or PlantUML diagram"
+          >
+            <Upload className="w-4 h-4" />
+          </Button>
+        )}
+        {onExport && (
+          <div className="relative">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setExportOpen(!exportOpen)}
+              disabled={isExporting}
+              className="hover:bg-[var(--color-surface-secondary)]"
+              title="Export visualization"
+            >
+              <Download className={cn('w-4 h-4', isExporting && 'animate-pulse')} />
+            </Button>
+            {exportOpen && (
+              <div
+                role="menu"
+                className="absolute right-0 top-full mt-2 w-44 py-1 rounded-lg border shadow-lg bg-[var(--color-surface-elevated)] border-[var(--color-border-subtle)]"
+              >
+                {EXPORT_OPTIONS.filter((option) => !option.diagram || diagramFormats.includes(option.format)).map(({ format, label }) => (
+                  <button
+                    key={format}
+                    role="menuitem"
+                    onClick={() => {
+                      setExportOpen(false);
+                      onExport(format);
+                    }}
+                    className="w-full px-3 py-1.5 text-left text-sm text-[var(--color-text-primary)] hover:bg-[var(--color-surface-secondary)]"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
 
       </div>
     </header>
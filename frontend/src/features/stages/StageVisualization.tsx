@@ -1,14 +1,30 @@
 import { useEffect, useState, forwardRef, useCallback } from 'react';
 
 import { GraphViewerLayout } from '../../components/visualizations/toolkit';
+import { apiClient } from '../../services/apiClient';
 import { useDocumentStore } from '../../stores/documentStore';
+import { DiagramImportDialog } from '../visualization/DiagramImportDialog';
+import { DocumentChatPanel } from '../visualization/DocumentChatPanel';
+import { GROUNDED_VISUALIZATION_TYPES } from '../visualization/grounding';
+import { VersionHistoryPanel } from '../visualization/VersionHistoryPanel';
 import { VisualizationRenderer } from '../visualization/VisualizationRenderer';
 import {
   VisualizationSidebar,
   type VisualizationType,
 } from '../visualization/VisualizationSidebar';
 
-import { StageHeader } from './StageHeader';
+import { StageHeader, type ExportFormat } from './StageHeader';
+
+// Diagram-as-code and graph interchange formats the backend offers per visualization
+const DIAGRAM_FORMATS: Partial<Record<VisualizationType, ExportFormat[]>> = {
+  'uml-sequence': ['plantuml', 'mermaid'],
+  'uml-activity': ['plantuml', 'mermaid', 'graphml', 'dot'],
+  flowchart: ['plantuml', 'mermaid', 'graphml', 'dot'],
+  'uml-class-diagram': ['plantuml', 'mermaid', 'graphml', 'dot'],
+  'knowledge-graph': ['plantuml', 'mermaid', 'graphml', 'dot'],
+  'mind-map': ['plantuml', 'mermaid', 'graphml', 'dot'],
+  'argument-map': ['plantuml', 'mermaid', 'graphml', 'dot'],
+};
 
 export interface StageVisualizationProps {
   /**
@@ -32,13 +48,28 @@ export const StageVisualization = forwardRef<
     currentVisualization,
     setCurrentVisualization,
     visualizationData,
+    hideUngrounded,
+    setHideUngrounded,
   } = useDocumentStore();
 
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  const [chatOpen, setChatOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
 
   // Keyboard shortcuts
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
+      // Ignore shortcuts while typing (e.g. in the chat panel)
+      if (
+        e.target instanceof HTMLInputElement
+        || e.target instanceof HTMLTextAreaElement
+        || e.target instanceof HTMLSelectElement
+      ) {
+        return;
+      }
+
       // Viz shortcuts: 1-9
       if (['1', '2', '3', '4', '5', '6', '7', '8', '9'].includes(e.key)) {
         const vizTypes: VisualizationType[] = [
@@ -58,20 +89,25 @@ export const StageVisualization = forwardRef<
         }
       }
 
-      // Sidebar toggle: S or s (only when not in input fields)
-      if (
-        (e.key === 's' || e.key === 'S')
-        && !(
-          e.target instanceof HTMLInputElement
-          || e.target instanceof HTMLTextAreaElement
-          || e.target instanceof HTMLSelectElement
-        )
-      ) {
+      // Sidebar toggle: S or s
+      if (e.key === 's' || e.key === 'S') {
         e.preventDefault();
         setSidebarCollapsed(!sidebarCollapsed);
       }
+
+      // Chat toggle: C or c
+      if (e.key === 'c' || e.key === 'C') {
+        e.preventDefault();
+        setChatOpen(!chatOpen);
+      }
+
+      // History toggle: H or h
+      if (e.key === 'h' || e.key === 'H') {
+        e.preventDefault();
+        setHistoryOpen(!historyOpen);
+      }
     },
-    [setCurrentVisualization, sidebarCollapsed],
+    [setCurrentVisualization, sidebarCollapsed, chatOpen, historyOpen],
   );
 
   useEffect(() => {
@@ -80,8 +116,34 @@ export const StageVisualization = forwardRef<
   }, [handleKeyDown]);
 
   const toggleSidebar = () => setSidebarCollapsed(!sidebarCollapsed);
+  const toggleChat = () => setChatOpen(!chatOpen);
+  const toggleHistory = () => setHistoryOpen(!historyOpen);
   const handleVizChange = (viz: VisualizationType) => setCurrentVisualization(viz);
 
+  // Single formats export the current view; the pptx deck bundles every generated view
+  const handleExport = async (format: ExportFormat) => {
+    if (!document) return;
+    setIsExporting(true);
+    try {
+      const { blob, filename } = await apiClient.exportVisualization(
+        document.id,
+        format === 'pptx'
+          ? { format, visualizationTypes: Array.from(visualizationData.keys()) }
+          : { format, visualizationType: currentVisualization },
+      );
+      const url = URL.createObjectURL(blob);
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export failed:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   // Summary data for sidebar
   const summary = document
     ? {
@@ -124,6 +186,18 @@ export const StageVisualization = forwardRef<
         vizCount={visualizationData.size}
         onBack={onBack}
         onToggleSidebar={toggleSidebar}
+        onToggleChat={toggleChat}
+        onToggleHistory={toggleHistory}
+        onToggleGrounding={
+          GROUNDED_VISUALIZATION_TYPES.includes(currentVisualization)
+            ? () => setHideUngrounded(!hideUngrounded)
+            : undefined
+        }
+        hideUngrounded={hideUngrounded}
+        onExport={handleExport}
+        onImport={() => setImportOpen(true)}
+        isExporting={isExporting}
+        diagramFormats={DIAGRAM_FORMATS[currentVisualization]}
         className="z-50 relative"
       />
 
@@ -143,7 +217,12 @@ export const StageVisualization = forwardRef<
             </GraphViewerLayout>
           </div>
         </main>
+
+        {historyOpen && <VersionHistoryPanel onClose={toggleHistory} />}
+        {chatOpen && <DocumentChatPanel onClose={toggleChat} />}
       </div>
+
+      <DiagramImportDialog isOpen={importOpen} onClose={() => setImportOpen(false)} />
     </div>
   );
 });
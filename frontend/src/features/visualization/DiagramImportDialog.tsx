@@ -0,0 +1,102 @@
+/**
+ * DiagramImportDialog Component
+ *
+ * Paste Mermaid or PlantUML source to replace a visualization. The server picks
+ * the visualization type from the diagram (flowchart, class, sequence, activity
+ * or mind map); the previous version stays in the version history.
+ *
+ * @example
+ * ```tsx
+ * <DiagramImportDialog isOpen={importOpen} onClose={() => setImportOpen(false)} />
+ * ```
+ */
+
+import { Upload } from 'lucide-react';
+import { useState } from 'react';
+
+import {
+  Button,
+  Modal,
+  ModalContent,
+  ModalFooter,
+  Select,
+  Textarea,
+} from '../../components/primitives';
+import { useDocumentStore } from '../../stores/documentStore';
+
+import type { DiagramTextFormat } from '../../../../shared/src/types';
+
+export interface DiagramImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS = [
+  { value: '', label: 'Detect automatically' },
+  { value: 'mermaid', label: 'Mermaid' },
+  { value: 'plantuml', label: 'PlantUML' },
+];
+
+const PLACEHOLDER = `flowchart TD
+  A([Start]) --> B{Approved?}
+  B -->|yes| C[Ship]
+  B -->|no| A`;
+
+export function DiagramImportDialog({ isOpen, onClose }: DiagramImportDialogProps) {
+  const { importVisualization } = useDocumentStore();
+
+  const [source, setSource] = useState('');
+  const [format, setFormat] = useState<DiagramTextFormat | ''>('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const submit = async () => {
+    setIsImporting(true);
+    const imported = await importVisualization({ source, ...(format && { format }) });
+    setIsImporting(false);
+    if (imported) {
+      setSource('');
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Import diagram" size="lg">
+      <ModalContent className="space-y-4">
+        <p className="text-sm text-[var(--color-text-secondary)]">
+          Paste a Mermaid or PlantUML flowchart, class, sequence, activity or mind map diagram.
+          It is laid out again and saved as a new version of that visualization.
+        </p>
+        <Select
+          label="Format"
+          options={FORMAT_OPTIONS}
+          value={format}
+          onChange={(e) => setFormat(e.target.value as DiagramTextFormat | '')}
+          fullWidth
+        />
+        <Textarea
+          label="Diagram source"
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          placeholder={PLACEHOLDER}
+          rows={12}
+          className="font-mono"
+          spellCheck={false}
+          fullWidth
+        />
+      </ModalContent>
+      <ModalFooter>
+        <Button variant="ghost" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          onClick={submit}
+          loading={isImporting}
+          disabled={!source.trim()}
+          leftIcon={<Upload className="w-4 h-4" />}
+        >
+          Import
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
@@ -0,0 +1,84 @@
+import { render, screen, fireEvent } from "@testing-library/react";
+import { vi, describe, it, expect, beforeEach } from "vitest";
+
+import { DocumentChatPanel } from "./DocumentChatPanel";
+
+import type { QAMessage } from "../../../../shared/src/types";
+
+const mockAskQuestion = vi.fn();
+const mockLoadConversation = vi.fn();
+const mockClearConversation = vi.fn();
+const mockShowCitation = vi.fn();
+
+let currentMessages: QAMessage[] = [];
+let currentIsAsking = false;
+
+vi.mock("../../stores/documentStore", () => ({
+  useDocumentStore: () => ({
+    document: { id: "doc-1" },
+    qaMessages: currentMessages,
+    isAsking: currentIsAsking,
+    activeCitation: null,
+    askQuestion: mockAskQuestion,
+    loadConversation: mockLoadConversation,
+    clearConversation: mockClearConversation,
+    showCitation: mockShowCitation,
+  }),
+}));
+
+const citation = {
+  sectionId: "section-2",
+  sectionTitle: "Budget",
+  span: { start: 40, end: 72, text: "total budget of 2.5 million USD" },
+};
+
+describe("DocumentChatPanel", () => {
+  beforeEach(() => {
+    currentMessages = [];
+    currentIsAsking = false;
+    vi.clearAllMocks();
+  });
+
+  it("loads the conversation on mount", () => {
+    render(<DocumentChatPanel />);
+    expect(mockLoadConversation).toHaveBeenCalled();
+    expect(screen.getByText(/Ask a question about this document/)).toBeInTheDocument();
+  });
+
+  it("sends the question on Enter and clears the input", () => {
+    render(<DocumentChatPanel />);
+    const input = screen.getByLabelText("Question");
+
+    fireEvent.change(input, { target: { value: "What is the budget?" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(mockAskQuestion).toHaveBeenCalledWith("What is the budget?");
+    expect(input).toHaveValue("");
+  });
+
+  it("renders answers with citations that highlight their source", () => {
+    currentMessages = [
+      { id: "1", role: "user", content: "What is the budget?", createdAt: "" },
+      {
+        id: "2",
+        role: "assistant",
+        content: "The budget is 2.5 million USD.",
+        citations: [citation],
+        createdAt: "",
+      },
+    ];
+    render(<DocumentChatPanel />);
+
+    expect(screen.getByText("The budget is 2.5 million USD.")).toBeInTheDocument();
+    fireEvent.click(screen.getByText("[1] Budget"));
+    expect(mockShowCitation).toHaveBeenCalledWith(citation);
+  });
+
+  it("shows progress and disables sending while a question is pending", () => {
+    currentIsAsking = true;
+    render(<DocumentChatPanel />);
+
+    expect(screen.getByText("Reading the document...")).toBeInTheDocument();
+    expect(screen.getByLabelText("Send question")).toBeDisabled();
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * DocumentChatPanel Component
+ *
+ * Question & answer chat about the current document. Answers carry citations;
+ * clicking one highlights the cited passage in the structured view.
+ *
+ * @example
+ * ```tsx
+ * <DocumentChatPanel onClose={() => setChatOpen(false)} />
+ * ```
+ */
+
+import { Loader2, MessageSquare, Send, Trash2, X } from 'lucide-react';
+import { useEffect, useRef, useState, type FormEvent, type KeyboardEvent } from 'react';
+
+import { Button } from '../../components/primitives';
+import { cn } from '../../lib/utils';
+import { useDocumentStore } from '../../stores/documentStore';
+
+import type { QACitation } from '../../../../shared/src/types';
+
+export interface DocumentChatPanelProps {
+  /**
+   * Callback when the close button is clicked
+   */
+  onClose?: () => void;
+  className?: string;
+}
+
+const isSameCitation = (a: QACitation | null, b: QACitation) =>
+  !!a && a.span.start === b.span.start && a.span.end === b.span.end;
+
+export function DocumentChatPanel({ onClose, className }: DocumentChatPanelProps) {
+  const {
+    document,
+    qaMessages,
+    isAsking,
+    activeCitation,
+    askQuestion,
+    loadConversation,
+    clearConversation,
+    showCitation,
+  } = useDocumentStore();
+
+  const [question, setQuestion] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Restore the server-side conversation when switching documents
+  // Note: loadConversation is a stable Zustand action and doesn't need to be in deps
+  useEffect(() => {
+    if (document) {
+      loadConversation();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [document?.id]);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [qaMessages.length, isAsking]);
+
+  const submit = (e?: FormEvent) => {
+    e?.preventDefault();
+    if (!question.trim() || isAsking) return;
+    askQuestion(question);
+    setQuestion('');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter inserts a newline
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <aside
+      className={cn(
+        'w-[360px] flex flex-col border-l border-[var(--color-border-subtle)] bg-[var(--color-surface-base)]',
+        className,
+      )}
+      aria-label="Document chat"
+    >
+      {/* Header */}
+      <div className="px-4 py-3 flex items-center justify-between border-b border-[var(--color-border-subtle)]">
+        <span className="text-[10px] flex items-center gap-2 uppercase tracking-[0.2em] font-bold text-[var(--color-text-tertiary)]">
+          <MessageSquare className="w-3.5 h-3.5" />
+          Ask the document
+        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => clearConversation()}
+            disabled={qaMessages.length === 0 || isAsking}
+            title="New conversation"
+            aria-label="New conversation"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+          {onClose && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClose}
+              title="Close chat"
+              aria-label="Close chat"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Messages */}
+      <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+        {qaMessages.length === 0 && !isAsking && (
+          <p className="text-sm text-[var(--color-text-tertiary)] text-center mt-8">
+            Ask a question about this document. Answers cite the passages they are based on.
+          </p>
+        )}
+
+        {qaMessages.map((message) => (
+          <div
+            key={message.id}
+            className={cn('flex flex-col', message.role === 'user' ? 'items-end' : 'items-start')}
+          >
+            <div
+              className={cn(
+                'max-w-[90%] rounded-2xl px-3 py-2 text-sm leading-relaxed whitespace-pre-wrap',
+                message.role === 'user'
+                  ? 'bg-[var(--color-interactive-primary-base)] text-white'
+                  : 'bg-[var(--color-surface-secondary)] text-[var(--color-text-primary)]',
+              )}
+            >
+              {message.content}
+            </div>
+
+            {message.citations && message.citations.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1.5 max-w-[90%]">
+                {message.citations.map((citation, i) => (
+                  <button
+                    key={`${citation.span.start}-${citation.span.end}`}
+                    type="button"
+                    onClick={() =>
+                      showCitation(isSameCitation(activeCitation, citation) ? null : citation)
+                    }
+                    title={citation.span.text}
+                    className={cn(
+                      'px-2 py-0.5 rounded-lg text-[11px] font-medium border transition-colors truncate max-w-full',
+                      isSameCitation(activeCitation, citation)
+                        ? 'border-[var(--aurora-1)] text-[var(--aurora-1)] bg-[var(--color-surface-elevated)]'
+                        : 'border-[var(--color-border-subtle)] text-[var(--color-text-secondary)] hover:border-[var(--aurora-1)]/50',
+                    )}
+                  >
+                    [{i + 1}] {citation.sectionTitle || 'Source'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {isAsking && (
+          <div className="flex items-center gap-2 text-sm text-[var(--color-text-tertiary)]">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Reading the document...
+          </div>
+        )}
+      </div>
+
+      {/* Input */}
+      <form onSubmit={submit} className="p-3 border-t border-[var(--color-border-subtle)] flex items-end gap-2">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Ask a question..."
+          rows={2}
+          maxLength={2000}
+          aria-label="Question"
+          className="flex-1 resize-none rounded-xl px-3 py-2 text-sm bg-[var(--color-surface-secondary)] text-[var(--color-text-primary)] border border-[var(--color-border-subtle)] focus:outline-none focus:border-[var(--aurora-1)]"
+        />
+        <Button
+          type="submit"
+          variant="primary"
+          size="sm"
+          disabled={!question.trim() || isAsking || !document}
+          aria-label="Send question"
+        >
+          <Send className="w-4 h-4" />
+        </Button>
+      </form>
+    </aside>
+  );
+}
@@ -0,0 +1,241 @@
+/**
+ * VersionHistoryPanel Component
+ *
+ * Version history of the current visualization. Selecting a version shows
+ * what changed between it and the current view and lets the user restore it.
+ *
+ * @example
+ * ```tsx
+ * <VersionHistoryPanel onClose={() => setHistoryOpen(false)} />
+ * ```
+ */
+
+import { History, Loader2, RotateCcw, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import { Button } from '../../components/primitives';
+import { cn } from '../../lib/utils';
+import { apiClient } from '../../services/apiClient';
+import { useDocumentStore } from '../../stores/documentStore';
+
+import { diffVisualization, type DiffEntry } from './versionDiff';
+
+import type {
+  VisualizationVersion,
+  VisualizationVersionSummary,
+} from '../../../../shared/src/types';
+
+export interface VersionHistoryPanelProps {
+  /**
+   * Callback when the close button is clicked
+   */
+  onClose?: () => void;
+  className?: string;
+}
+
+const SOURCE_LABELS: Record<VisualizationVersionSummary['source'], string> = {
+  generation: 'Generated',
+  edit: 'Edited',
+  rollback: 'Restored',
+  import: 'Imported',
+};
+
+const CHANGE_STYLES: Record<DiffEntry['change'], string> = {
+  added: 'text-emerald-600',
+  removed: 'text-red-600',
+  changed: 'text-amber-600',
+};
+
+const CHANGE_SIGNS: Record<DiffEntry['change'], string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+};
+
+function DiffList({ title, entries }: { title: string; entries: DiffEntry[] }) {
+  if (entries.length === 0) return null;
+  return (
+    <div>
+      <p className="text-[10px] uppercase tracking-[0.2em] font-bold text-[var(--color-text-tertiary)] mb-1">
+        {title}
+      </p>
+      <ul className="space-y-0.5">
+        {entries.map((entry) => (
+          <li key={`${entry.change}-${entry.id}`} className={cn('text-xs truncate', CHANGE_STYLES[entry.change])}>
+            {CHANGE_SIGNS[entry.change]} {entry.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function VersionHistoryPanel({ onClose, className }: VersionHistoryPanelProps) {
+  const {
+    document,
+    currentVisualization,
+    visualizationData,
+    rollbackVisualization,
+  } = useDocumentStore();
+
+  const [versions, setVersions] = useState<VisualizationVersionSummary[]>([]);
+  const [selected, setSelected] = useState<VisualizationVersion | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const currentData = visualizationData.get(currentVisualization);
+
+  // Reload whenever the visualization changes (including after edits and rollbacks)
+  useEffect(() => {
+    if (!document || !currentData) return;
+    let cancelled = false;
+    setIsLoading(true);
+    apiClient
+      .listVisualizationVersions(document.id, currentVisualization)
+      .then((response) => {
+        if (!cancelled) setVersions(response.versions);
+      })
+      .catch((error) => console.error('Failed to load version history:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [document, currentVisualization, currentData]);
+
+  useEffect(() => {
+    setSelected(null);
+  }, [currentVisualization]);
+
+  const selectVersion = async (version: number) => {
+    if (!document) return;
+    if (selected?.version === version) {
+      setSelected(null);
+      return;
+    }
+    try {
+      setSelected(await apiClient.getVisualizationVersion(document.id, currentVisualization, version));
+    } catch (error) {
+      console.error('Failed to load version:', error);
+    }
+  };
+
+  const restore = async (version: number) => {
+    setIsRestoring(true);
+    await rollbackVisualization(currentVisualization, version);
+    setIsRestoring(false);
+    setSelected(null);
+  };
+
+  // Diff from the selected version to what is on screen now
+  const diff = selected ? diffVisualization(currentVisualization, selected.data, currentData) : null;
+  const latestVersion = versions[0]?.version;
+
+  return (
+    <aside
+      className={cn(
+        'w-[320px] flex flex-col border-l border-[var(--color-border-subtle)] bg-[var(--color-surface-base)]',
+        className,
+      )}
+      aria-label="Version history"
+    >
+      {/* Header */}
+      <div className="px-4 py-3 flex items-center justify-between border-b border-[var(--color-border-subtle)]">
+        <span className="text-[10px] flex items-center gap-2 uppercase tracking-[0.2em] font-bold text-[var(--color-text-tertiary)]">
+          <History className="w-3.5 h-3.5" />
+          Version history
+        </span>
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            title="Close history"
+            aria-label="Close history"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-2">
+        {isLoading && versions.length === 0 && (
+          <div className="flex items-center gap-2 text-sm text-[var(--color-text-tertiary)]">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading history...
+          </div>
+        )}
+
+        {!isLoading && versions.length === 0 && (
+          <p className="text-sm text-[var(--color-text-tertiary)] text-center mt-8">
+            No saved versions for this visualization yet.
+          </p>
+        )}
+
+        {versions.map((summary) => {
+          const isSelected = selected?.version === summary.version;
+          return (
+            <div
+              key={summary.version}
+              className={cn(
+                'rounded-xl border px-3 py-2 transition-colors',
+                isSelected
+                  ? 'border-[var(--aurora-1)] bg-[var(--color-surface-elevated)]'
+                  : 'border-[var(--color-border-subtle)] hover:border-[var(--aurora-1)]/50',
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => selectVersion(summary.version)}
+                className="w-full text-left"
+              >
+                <div className="flex items-center justify-between text-sm text-[var(--color-text-primary)]">
+                  <span className="font-medium">
+                    v{summary.version} · {SOURCE_LABELS[summary.source]}
+                    {summary.restoredFrom !== undefined && ` v${summary.restoredFrom}`}
+                  </span>
+                  {summary.version === latestVersion && (
+                    <span className="text-[10px] uppercase text-[var(--color-text-tertiary)]">Current</span>
+                  )}
+                </div>
+                <p className="text-[11px] text-[var(--color-text-tertiary)] truncate">
+                  {new Date(summary.createdAt).toLocaleString()} · {summary.llmMetadata.model}
+                  {summary.llmMetadata.tokensUsed > 0 && ` · ${summary.llmMetadata.tokensUsed} tokens`}
+                </p>
+              </button>
+
+              {isSelected && (
+                <div className="mt-2 pt-2 border-t border-[var(--color-border-subtle)] space-y-2">
+                  {diff && diff.nodes.length + diff.edges.length === 0 && (
+                    <p className="text-xs text-[var(--color-text-tertiary)]">Same as the current view.</p>
+                  )}
+                  {diff && diff.nodes.length + diff.edges.length > 0 && (
+                    <>
+                      <p className="text-[11px] text-[var(--color-text-tertiary)]">
+                        Changes since this version
+                      </p>
+                      <DiffList title="Nodes" entries={diff.nodes} />
+                      <DiffList title="Edges" entries={diff.edges} />
+                    </>
+                  )}
+                  {summary.version !== latestVersion && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => restore(summary.version)}
+                      loading={isRestoring}
+                      leftIcon={<RotateCcw className="w-3.5 h-3.5" />}
+                    >
+                      Restore this version
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+}
@@ -2,26 +2,47 @@ import { Loader2 } from 'lucide-react';
 import { useEffect } from 'react';
 
 import { ArgumentMap } from '../../components/visualizations/argument-map/ArgumentMap';
+import {
+  ComparisonMatrix,
+  ComparisonPicker,
+} from '../../components/visualizations/comparison-matrix/ComparisonMatrix';
 import { DepthGraph } from '../../components/visualizations/depth-graph/DepthGraph';
 import { EntityGraph } from '../../components/visualizations/entity-graph/EntityGraph';
 import { ExecutiveDashboard } from '../../components/visualizations/executive-dashboard/ExecutiveDashboard';
 import { Flowchart } from '../../components/visualizations/flowchart/Flowchart';
+import { Gantt } from '../../components/visualizations/gantt/Gantt';
 import { KnowledgeGraph } from '../../components/visualizations/knowledge-graph/KnowledgeGraph';
 import { MindMap } from '../../components/visualizations/mind-map/MindMap';
+import { PriorityMatrix } from '../../components/visualizations/priority-matrix/PriorityMatrix';
+import { RaciMatrix } from '../../components/visualizations/raci-matrix/RaciMatrix';
 import { StructuredViewRenderer } from '../../components/visualizations/StructuredViewRenderer';
 import { TermsDefinitions } from '../../components/visualizations/TermsDefinitions';
+import { Timeline } from '../../components/visualizations/timeline/Timeline';
+import { ActivityDiagram } from '../../components/visualizations/uml-activity/ActivityDiagram';
 import { UMLClassDiagram } from '../../components/visualizations/uml-class-diagram/UMLClassDiagram';
+import { SequenceDiagram } from '../../components/visualizations/uml-sequence/SequenceDiagram';
 import { useDocumentStore } from '../../stores/documentStore';
 
+import { hideUngrounded as withoutUngrounded } from './grounding';
+
 export function VisualizationRenderer() {
   const {
     currentVisualization,
     visualizationData,
     document,
     loadVisualization,
+    editVisualization,
+    documentList,
+    fetchDocumentList,
+    isComparing,
+    compareWith,
+    hideUngrounded,
   } = useDocumentStore();
 
-  const data = visualizationData.get(currentVisualization);
+  const storedData = visualizationData.get(currentVisualization);
+  const data = hideUngrounded ? withoutUngrounded(currentVisualization, storedData) : storedData;
+  const isComparison = currentVisualization === 'comparison-matrix';
+  const comparableDocuments = documentList.filter((item) => item.id !== document?.id);
 
   // Auto-load visualization if not in cache
   // Note: loadVisualization is a stable Zustand action and doesn't need to be in deps
@@ -32,6 +53,14 @@ export function VisualizationRenderer() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentVisualization, document, data]);
 
+  // The comparison picker lists the user's other documents
+  useEffect(() => {
+    if (isComparison && documentList.length === 0) {
+      fetchDocumentList();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isComparison]);
+
   // Handle error state (cached error marker)
   if (data?.error) {
     return (
@@ -46,6 +75,23 @@ export function VisualizationRenderer() {
     );
   }
 
+  if (isComparison && !data) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center space-y-3">
+          <p className="text-gray-600">Compare this document against another document or an earlier version</p>
+          <div className="flex justify-center">
+            <ComparisonPicker
+              documents={comparableDocuments}
+              onCompare={compareWith}
+              isComparing={isComparing}
+            />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (!data) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -61,7 +107,7 @@ export function VisualizationRenderer() {
     case 'structured-view':
       return <StructuredViewRenderer data={data} />;
     case 'mind-map':
-      return <MindMap data={data} />;
+      return <MindMap data={data} onEdit={(operations) => editVisualization('mind-map', operations)} />;
     case 'flowchart':
       return <Flowchart data={data} />;
     case 'knowledge-graph':
@@ -69,15 +115,46 @@ export function VisualizationRenderer() {
     case 'terms-definitions':
       return <TermsDefinitions data={data} />;
     case 'uml-class-diagram':
-      return <UMLClassDiagram data={data} />;
+      return (
+        <UMLClassDiagram
+          data={data}
+          onEdit={(operations) => editVisualization('uml-class-diagram', operations)}
+        />
+      );
+    case 'uml-sequence':
+      return <SequenceDiagram data={data} />;
+    case 'uml-activity':
+      return <ActivityDiagram data={data} />;
     case 'argument-map':
-      return <ArgumentMap data={data} />;
+      return <ArgumentMap data={data} onEdit={(operations) => editVisualization('argument-map', operations)} />;
     case 'depth-graph':
       return <DepthGraph data={data} />;
     case 'entity-graph':
       return <EntityGraph data={data} />;
     case 'executive-dashboard':
       return <ExecutiveDashboard data={data} />;
+    case 'timeline':
+      return <Timeline data={data} />;
+    case 'gantt':
+      return <Gantt data={data} />;
+    case 'raci-matrix':
+      return <RaciMatrix data={data} onEdit={(operations) => editVisualization('raci-matrix', operations)} />;
+    case 'priority-matrix':
+      return (
+        <PriorityMatrix
+          data={data}
+          onEdit={(operations) => editVisualization('priority-matrix', operations)}
+        />
+      );
+    case 'comparison-matrix':
+      return (
+        <ComparisonMatrix
+          data={data}
+          documents={comparableDocuments}
+          onCompare={compareWith}
+          isComparing={isComparing}
+        />
+      );
     default:
       return (
         <div className="flex items-center justify-center h-64">
@@ -175,6 +175,48 @@ const DEFAULT_VISUALIZATIONS: VisualizationOption[] = [
     icon: '🧊',
     shortcut: 9,
   },
+  {
+    id: 'timeline',
+    name: 'Timeline',
+    description: 'Dated events and periods in order',
+    icon: '🗓️',
+  },
+  {
+    id: 'gantt',
+    name: 'Gantt Chart',
+    description: 'Tasks, dependencies and the critical path',
+    icon: '📊',
+  },
+  {
+    id: 'raci-matrix',
+    name: 'RACI Matrix',
+    description: 'Who is responsible, accountable, consulted, informed',
+    icon: '👥',
+  },
+  {
+    id: 'priority-matrix',
+    name: 'Priority Matrix',
+    description: 'Items placed by impact and effort or urgency',
+    icon: '🎯',
+  },
+  {
+    id: 'uml-sequence',
+    name: 'UML Sequence',
+    description: 'Messages between services over time',
+    icon: '🔁',
+  },
+  {
+    id: 'uml-activity',
+    name: 'UML Activity',
+    description: 'Actions, decisions and parallel flows',
+    icon: '🧭',
+  },
+  {
+    id: 'comparison-matrix',
+    name: 'Compare',
+    description: 'Changes against another document or version',
+    icon: '🔀',
+  },
 ];
 
 /**
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+
+import { hideUngrounded } from "./grounding";
+
+const verified = { verified: true, confidence: 1, spans: [] };
+const unverified = { verified: false, confidence: 0, spans: [] };
+
+describe("hideUngrounded", () => {
+  it("drops unverified graph nodes together with their edges", () => {
+    const data = {
+      nodes: [
+        { id: "a", label: "Alpha", grounding: verified },
+        { id: "b", label: "Beta", grounding: unverified },
+        { id: "c", label: "Gamma" },
+      ],
+      edges: [
+        { id: "e1", source: "a", target: "b", grounding: verified },
+        { id: "e2", source: "a", target: "c", grounding: unverified },
+        { id: "e3", source: "c", target: "a" },
+      ],
+    };
+
+    const result = hideUngrounded("knowledge-graph", data);
+
+    expect(result.nodes.map((node: any) => node.id)).toEqual(["a", "c"]);
+    expect(result.edges.map((edge: any) => edge.id)).toEqual(["e3"]);
+  });
+
+  it("drops unverified KPIs from the dashboard tiles, card and metrics chart", () => {
+    const kpis = [
+      { id: "k1", label: "Revenue", value: 2.5, grounding: verified },
+      { id: "k2", label: "Churn", value: 4, grounding: unverified },
+    ];
+    const data = {
+      executiveCard: { headline: "Q4", kpis },
+      kpiTiles: kpis,
+      charts: [
+        { title: "Key Metrics", data: [{ name: "Revenue", value: 2.5 }, { name: "Churn", value: 4 }] },
+        { title: "Document DNA", data: [{ subject: "Tension", A: 0.2 }] },
+      ],
+    };
+
+    const result = hideUngrounded("executive-dashboard", data);
+
+    expect(result.kpiTiles.map((kpi: any) => kpi.id)).toEqual(["k1"]);
+    expect(result.executiveCard.kpis.map((kpi: any) => kpi.id)).toEqual(["k1"]);
+    expect(result.charts[0].data).toEqual([{ name: "Revenue", value: 2.5 }]);
+    expect(result.charts[1]).toBe(data.charts[1]);
+  });
+
+  it("leaves other visualizations untouched", () => {
+    const data = { nodes: [{ id: "a", grounding: unverified }] };
+
+    expect(hideUngrounded("mind-map", data)).toBe(data);
+  });
+});
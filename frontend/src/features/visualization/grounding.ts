@@ -0,0 +1,56 @@
+/**
+ * Hides extracted items whose source quotes could not be found in the
+ * document. Items the backend never grounded (older visualizations) are kept.
+ */
+
+import type { VisualizationType } from '../../../../shared/src/types';
+
+export const GROUNDED_VISUALIZATION_TYPES: VisualizationType[] = [
+  'knowledge-graph',
+  'argument-map',
+  'executive-dashboard',
+];
+
+const isUngrounded = (item: any) => item?.grounding?.verified === false;
+
+function withoutUngroundedGraph(data: any) {
+  const nodes = (data.nodes || []).filter((node: any) => !isUngrounded(node));
+  const kept = new Set(nodes.map((node: any) => node.id));
+  const edges = (data.edges || []).filter((edge: any) =>
+    !isUngrounded(edge) && kept.has(edge.source) && kept.has(edge.target));
+
+  return { ...data, nodes, edges };
+}
+
+function withoutUngroundedKpis(data: any) {
+  const kpis: any[] = data.kpiTiles || [];
+  const hidden = new Set(kpis.filter(isUngrounded).map((kpi) => kpi.label));
+  if (hidden.size === 0) return data;
+
+  return {
+    ...data,
+    kpiTiles: kpis.filter((kpi) => !hidden.has(kpi.label)),
+    executiveCard: data.executiveCard && {
+      ...data.executiveCard,
+      kpis: (data.executiveCard.kpis || []).filter((kpi: any) => !hidden.has(kpi.label)),
+    },
+    charts: (data.charts || []).map((chart: any) =>
+      chart.title === 'Key Metrics'
+        ? { ...chart, data: chart.data.filter((entry: any) => !hidden.has(entry.name)) }
+        : chart),
+  };
+}
+
+export function hideUngrounded(type: VisualizationType, data: any) {
+  if (!data || data.error) return data;
+
+  switch (type) {
+    case 'knowledge-graph':
+    case 'argument-map':
+      return withoutUngroundedGraph(data);
+    case 'executive-dashboard':
+      return withoutUngroundedKpis(data);
+    default:
+      return data;
+  }
+}
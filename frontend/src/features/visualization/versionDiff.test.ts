@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+
+import { diffVisualization } from "./versionDiff";
+
+describe("diffVisualization", () => {
+  it("reports added, removed and changed knowledge graph elements", () => {
+    const before = {
+      nodes: [
+        { id: "a", label: "Alpha" },
+        { id: "b", label: "Beta" },
+      ],
+      edges: [{ id: "e1", source: "a", target: "b", type: "relates-to" }],
+    };
+    const after = {
+      nodes: [
+        { id: "a", label: "Alpha prime" },
+        { id: "c", label: "Gamma" },
+      ],
+      edges: [{ id: "e2", source: "a", target: "c", type: "relates-to" }],
+    };
+
+    const diff = diffVisualization("knowledge-graph", before, after);
+
+    expect(diff?.nodes).toEqual([
+      { id: "a", label: "Alpha prime", change: "changed" },
+      { id: "c", label: "Gamma", change: "added" },
+      { id: "b", label: "Beta", change: "removed" },
+    ]);
+    expect(diff?.edges).toEqual([
+      { id: "e2", label: "Alpha prime → Gamma", change: "added" },
+      { id: "e1", label: "Alpha → Beta", change: "removed" },
+    ]);
+  });
+
+  it("treats mind map parent links as edges", () => {
+    const before = {
+      root: {
+        id: "root",
+        label: "Plan",
+        children: [{ id: "goals", label: "Goals", children: [] }],
+      },
+    };
+    const after = {
+      root: {
+        id: "root",
+        label: "Plan",
+        children: [
+          {
+            id: "risks",
+            label: "Risks",
+            children: [{ id: "goals", label: "Goals", children: [] }],
+          },
+        ],
+      },
+    };
+
+    const diff = diffVisualization("mind-map", before, after);
+
+    // Moving a node changes its links, not the node itself
+    expect(diff?.nodes).toEqual([{ id: "risks", label: "Risks", change: "added" }]);
+    expect(diff?.edges.map((edge) => [edge.label, edge.change])).toEqual([
+      ["Plan → Risks", "added"],
+      ["Risks → Goals", "added"],
+      ["Plan → Goals", "removed"],
+    ]);
+  });
+
+  it("matches UML classes and relationships by id", () => {
+    const data = {
+      classes: [{ id: "user", name: "User" }],
+      relationships: [],
+    };
+
+    expect(diffVisualization("uml-class-diagram", data, data)).toEqual({
+      nodes: [],
+      edges: [],
+    });
+  });
+
+  it("has no structural diff for other types", () => {
+    expect(diffVisualization("timeline", {}, {})).toBeNull();
+  });
+});
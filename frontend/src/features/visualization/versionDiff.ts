@@ -0,0 +1,137 @@
+/**
+ * Structural diff between two versions of a graph-shaped visualization.
+ * Nodes and edges are matched by id; an element whose content differs is
+ * reported as changed.
+ */
+
+import type { VisualizationType } from '../../../../shared/src/types';
+
+export type DiffChange = 'added' | 'removed' | 'changed';
+
+export interface DiffEntry {
+  id: string;
+  label: string;
+  change: DiffChange;
+}
+
+export interface VisualizationDiff {
+  nodes: DiffEntry[];
+  edges: DiffEntry[];
+}
+
+interface Element {
+  id: string;
+  label: string;
+  value: unknown;
+}
+
+interface Elements {
+  nodes: Element[];
+  edges: Element[];
+}
+
+export const DIFFABLE_VISUALIZATION_TYPES: VisualizationType[] = [
+  'knowledge-graph',
+  'argument-map',
+  'mind-map',
+  'uml-class-diagram',
+];
+
+const edgeLabel = (edge: any, nodeLabels: Map<string, string>) =>
+  `${nodeLabels.get(edge.source) ?? edge.source} → ${nodeLabels.get(edge.target) ?? edge.target}`;
+
+function graphElements(data: any, nodeKey: string, edgeKey: string, labelOf: (node: any) => string): Elements {
+  const nodes: Element[] = (data?.[nodeKey] || []).map((node: any) => ({
+    id: node.id,
+    label: labelOf(node),
+    value: node,
+  }));
+  const nodeLabels = new Map(nodes.map((node) => [node.id, node.label]));
+  const edges: Element[] = (data?.[edgeKey] || []).map((edge: any) => ({
+    id: edge.id ?? `${edge.source}->${edge.target}`,
+    label: edgeLabel(edge, nodeLabels),
+    value: edge,
+  }));
+  return { nodes, edges };
+}
+
+// Mind maps are trees: each node becomes a node and each parent link an edge
+function mindMapElements(data: any): Elements {
+  const nodes: Element[] = [];
+  const edges: Element[] = [];
+
+  const visit = (node: any, parent?: any) => {
+    const { children, ...content } = node;
+    nodes.push({ id: node.id, label: node.label, value: content });
+    if (parent) {
+      edges.push({
+        id: `${parent.id}->${node.id}`,
+        label: `${parent.label} → ${node.label}`,
+        value: null,
+      });
+    }
+    (children || []).forEach((child: any) => visit(child, node));
+  };
+
+  if (data?.root) {
+    visit(data.root);
+  }
+  return { nodes, edges };
+}
+
+function elementsOf(type: VisualizationType, data: any): Elements | null {
+  switch (type) {
+    case 'knowledge-graph':
+      return graphElements(data, 'nodes', 'edges', (node) => node.label);
+    case 'argument-map':
+      return graphElements(data, 'nodes', 'edges', (node) => node.summary || node.label);
+    case 'uml-class-diagram':
+      return graphElements(data, 'classes', 'relationships', (node) => node.name);
+    case 'mind-map':
+      return mindMapElements(data);
+    default:
+      return null;
+  }
+}
+
+function diffElements(before: Element[], after: Element[]): DiffEntry[] {
+  const previous = new Map(before.map((element) => [element.id, element]));
+  const current = new Map(after.map((element) => [element.id, element]));
+  const entries: DiffEntry[] = [];
+
+  for (const element of after) {
+    const old = previous.get(element.id);
+    if (!old) {
+      entries.push({ id: element.id, label: element.label, change: 'added' });
+    } else if (JSON.stringify(old.value) !== JSON.stringify(element.value)) {
+      entries.push({ id: element.id, label: element.label, change: 'changed' });
+    }
+  }
+  for (const element of before) {
+    if (!current.has(element.id)) {
+      entries.push({ id: element.id, label: element.label, change: 'removed' });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Changes needed to go from `before` to `after`, or null when the type has
+ * no structural diff
+ */
+export function diffVisualization(
+  type: VisualizationType,
+  before: any,
+  after: any,
+): VisualizationDiff | null {
+  const previous = elementsOf(type, before);
+  const current = elementsOf(type, after);
+  if (!previous || !current) {
+    return null;
+  }
+
+  return {
+    nodes: diffElements(previous.nodes, current.nodes),
+    edges: diffElements(previous.edges, current.edges),
+  };
+}
@@ -0,0 +1,203 @@
+import { ArrowLeft, Brain, FileText, Loader2, Network } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import { Button, Card } from '../components/primitives';
+import { KnowledgeGraph } from '../components/visualizations/knowledge-graph/KnowledgeGraph';
+import { analyzeKnowledgeBase, toKnowledgeGraphData } from '../features/knowledge-base/knowledgeBaseView';
+import { cn } from '../lib/utils';
+import { apiClient } from '../services/apiClient';
+import { useDocumentStore } from '../stores/documentStore';
+
+import type { KnowledgeBaseGraph } from '../../../shared/src/types';
+
+/**
+ * Library-level knowledge graph: the knowledge graphs of every document the
+ * user has generated one for, merged into one, with a document filter.
+ */
+export const KnowledgeBasePage: React.FC = () => {
+  const navigate = useNavigate();
+  const { documentList, fetchDocumentList } = useDocumentStore();
+
+  const [graph, setGraph] = useState<KnowledgeBaseGraph | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDocumentList();
+  }, [fetchDocumentList]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    apiClient
+      .getKnowledgeBaseGraph(selectedIds)
+      .then((response) => {
+        if (!cancelled) setGraph(response);
+      })
+      .catch((err) => {
+        console.error('Failed to load knowledge base:', err);
+        if (!cancelled) setError('Failed to load the knowledge base');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedIds]);
+
+  const graphData = useMemo(() => (graph ? toKnowledgeGraphData(graph) : undefined), [graph]);
+  const insights = useMemo(() => (graph ? analyzeKnowledgeBase(graph) : null), [graph]);
+  const nodeLabels = useMemo(
+    () => new Map((graph?.nodes || []).map((node) => [node.id, node.label])),
+    [graph],
+  );
+
+  const titleOf = (documentId: string) =>
+    documentList.find((doc) => doc.id === documentId)?.title || documentId;
+
+  const toggleDocument = (documentId: string) => {
+    setSelectedIds((ids) =>
+      (ids.includes(documentId) ? ids.filter((id) => id !== documentId) : [...ids, documentId]));
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[var(--color-background-primary)] text-[var(--color-text-primary)]">
+      <header className="px-6 py-4 flex items-center justify-between border-b border-[var(--color-border-subtle)]">
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/dashboard')}
+            aria-label="Back to dashboard"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-xl font-bold flex items-center gap-2">
+              <Brain className="w-5 h-5" />
+              Knowledge Base
+            </h1>
+            <p className="text-sm text-[var(--color-text-secondary)]">
+              Entities and relations merged across your library
+            </p>
+          </div>
+        </div>
+        {graph && (
+          <span className="text-xs text-[var(--color-text-tertiary)]">
+            {graph.nodes.length} entities · {graph.edges.length} relations · {graph.documents.length} documents
+          </span>
+        )}
+      </header>
+
+      {/* Document filter: nothing selected means the whole library */}
+      <div className="px-6 py-3 flex flex-wrap gap-2 border-b border-[var(--color-border-subtle)]">
+        <button
+          type="button"
+          onClick={() => setSelectedIds([])}
+          className={cn(
+            'px-3 py-1 rounded-full text-xs border transition-colors',
+            selectedIds.length === 0
+              ? 'border-[var(--aurora-1)] bg-[var(--color-surface-elevated)]'
+              : 'border-[var(--color-border-subtle)] text-[var(--color-text-secondary)]',
+          )}
+        >
+          All documents
+        </button>
+        {documentList.map((doc) => (
+          <button
+            key={doc.id}
+            type="button"
+            onClick={() => toggleDocument(doc.id)}
+            className={cn(
+              'px-3 py-1 rounded-full text-xs border transition-colors max-w-[220px] truncate',
+              selectedIds.includes(doc.id)
+                ? 'border-[var(--aurora-1)] bg-[var(--color-surface-elevated)]'
+                : 'border-[var(--color-border-subtle)] text-[var(--color-text-secondary)]',
+            )}
+          >
+            {doc.title}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        <main className="flex-1 relative overflow-hidden p-4">
+          {isLoading && !graph && (
+            <div className="h-full flex items-center justify-center gap-2 text-[var(--color-text-tertiary)]">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Merging knowledge graphs...
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {graph && graph.nodes.length === 0 && !isLoading && (
+            <p className="text-sm text-[var(--color-text-tertiary)] text-center mt-16">
+              Generate a knowledge graph for some of your documents to build the knowledge base.
+            </p>
+          )}
+          {graphData && graphData.nodes.length > 0 && (
+            <div className="h-full rounded-xl overflow-hidden border border-[var(--color-border-subtle)] bg-[var(--color-surface-base)]/50">
+              <KnowledgeGraph data={graphData} />
+            </div>
+          )}
+        </main>
+
+        <aside className="w-[320px] overflow-y-auto custom-scrollbar border-l border-[var(--color-border-subtle)] p-4 space-y-4">
+          <Card padding="md">
+            <h2 className="text-sm font-semibold mb-2 flex items-center gap-2">
+              <Network className="w-4 h-4" />
+              Central entities
+            </h2>
+            <ul className="space-y-1">
+              {insights?.topEntities.map((node) => (
+                <li key={node.id} className="text-sm flex justify-between gap-2">
+                  <span className="truncate">{node.label}</span>
+                  <span className="text-xs text-[var(--color-text-tertiary)] whitespace-nowrap">
+                    {node.documentIds.length} doc{node.documentIds.length === 1 ? '' : 's'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </Card>
+
+          <Card padding="md">
+            <h2 className="text-sm font-semibold mb-2">Clusters</h2>
+            <ul className="space-y-2">
+              {insights?.clusters.map((cluster) => (
+                <li key={cluster.id} className="text-sm">
+                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: cluster.color }} />
+                  {cluster.label}
+                  <p className="text-xs text-[var(--color-text-tertiary)] truncate">
+                    {cluster.nodeIds.map((id) => nodeLabels.get(id)).filter(Boolean).join(', ')}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </Card>
+
+          {graph && graph.missingDocumentIds.length > 0 && (
+            <Card padding="md">
+              <h2 className="text-sm font-semibold mb-2 flex items-center gap-2">
+                <FileText className="w-4 h-4" />
+                Not included yet
+              </h2>
+              <p className="text-xs text-[var(--color-text-tertiary)] mb-2">
+                These documents have no knowledge graph yet.
+              </p>
+              <ul className="space-y-1">
+                {graph.missingDocumentIds.map((id) => (
+                  <li key={id} className="text-sm truncate">{titleOf(id)}</li>
+                ))}
+              </ul>
+            </Card>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeBasePage;
@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import ProfilePage from "./ProfilePage";
+import { apiClient } from "../services/apiClient";
+
+vi.mock("../services/apiClient", () => ({
+  apiClient: {
+    createPortalSession: vi.fn(),
+    getSessions: vi.fn().mockResolvedValue({ sessions: [] }),
+  },
+}));
+
+let currentUser: any;
+
+vi.mock("../stores/userStore", () => ({
+  useUserStore: () => ({
+    user: currentUser,
+    updateProfile: vi.fn(),
+    logout: vi.fn(),
+  }),
+}));
+
+const renderBillingTab = () => {
+  render(
+    <MemoryRouter>
+      <ProfilePage />
+    </MemoryRouter>,
+  );
+  fireEvent.click(screen.getByText("Billing"));
+};
+
+describe("ProfilePage billing", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    currentUser = {
+      userId: "test-user",
+      email: "test@example.com",
+      firstName: "Test",
+      lastName: "User",
+      plan: "free",
+    };
+  });
+
+  it("points users without a subscription to the plans", () => {
+    renderBillingTab();
+
+    expect(screen.getByText("Free plan")).toBeInTheDocument();
+    expect(screen.getByText("View Plans")).toBeInTheDocument();
+    expect(screen.queryByText("Manage Billing")).not.toBeInTheDocument();
+  });
+
+  it("shows a scheduled cancellation", () => {
+    currentUser = {
+      ...currentUser,
+      plan: "team",
+      subscriptionProvider: "stripe",
+      subscriptionStatus: "active",
+      currentPeriodEnd: "2027-01-01T12:00:00.000Z",
+      cancelAtPeriodEnd: true,
+    };
+    renderBillingTab();
+
+    expect(screen.getByText("Team plan")).toBeInTheDocument();
+    expect(screen.getByText("Active")).toBeInTheDocument();
+    expect(screen.getByText(/Your subscription ends on/)).toBeInTheDocument();
+  });
+
+  it("asks past-due users to update their payment method", () => {
+    currentUser = {
+      ...currentUser,
+      plan: "pro",
+      subscriptionProvider: "stripe",
+      subscriptionStatus: "past_due",
+      currentPeriodEnd: "2027-01-01T12:00:00.000Z",
+    };
+    renderBillingTab();
+
+    expect(screen.getByText("Payment failed")).toBeInTheDocument();
+    expect(screen.getByText(/Your last payment failed/)).toBeInTheDocument();
+  });
+
+  it("opens the Stripe customer portal", async () => {
+    const portalUrl = "https://billing.stripe.com/session/test";
+    (apiClient.createPortalSession as any).mockResolvedValue({ url: portalUrl });
+    currentUser = { ...currentUser, plan: "pro", subscriptionProvider: "stripe", subscriptionStatus: "active" };
+    renderBillingTab();
+
+    fireEvent.click(screen.getByText("Manage Billing"));
+
+    await waitFor(() => {
+      expect(apiClient.createPortalSession).toHaveBeenCalled();
+      expect(window.location.href).toBe(portalUrl);
+    });
+  });
+});
@@ -5,10 +5,54 @@ import { Button, Input, Card, Badge, Modal } from '../components/primitives';
 import { apiClient } from '../services/apiClient';
 import { useUserStore } from '../stores/userStore';
 
+import type { PlanId } from '../../../shared/src/types';
+import type { BadgeVariant } from '../components/primitives';
+
+const PLAN_NAMES: Record<PlanId, string> = {
+  free: 'Free',
+  pro: 'Pro',
+  team: 'Team',
+  enterprise: 'Enterprise',
+};
+
+const SUBSCRIPTION_BADGES: Record<string, { label: string; variant: BadgeVariant }> = {
+  active: { label: 'Active', variant: 'success' },
+  trialing: { label: 'Trial', variant: 'info' },
+  past_due: { label: 'Payment failed', variant: 'warning' },
+  unpaid: { label: 'Unpaid', variant: 'error' },
+  incomplete: { label: 'Incomplete', variant: 'warning' },
+  paused: { label: 'Paused', variant: 'neutral' },
+  canceled: { label: 'Canceled', variant: 'neutral' },
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+// When the subscription next renews, ends or leaves its trial
+function renewalText(user: {
+  subscriptionStatus?: string;
+  currentPeriodEnd?: string;
+  cancelAtPeriodEnd?: boolean;
+  trialEnd?: string;
+}): string | null {
+  const { subscriptionStatus, currentPeriodEnd, cancelAtPeriodEnd, trialEnd } = user;
+  if (subscriptionStatus === 'canceled') {
+    return 'Your subscription has ended.';
+  }
+  if (subscriptionStatus === 'trialing' && trialEnd) {
+    return `Your trial ends on ${formatDate(trialEnd)}.`;
+  }
+  if (!currentPeriodEnd) {
+    return null;
+  }
+  return cancelAtPeriodEnd
+    ? `Your subscription ends on ${formatDate(currentPeriodEnd)}.`
+    : `Renews on ${formatDate(currentPeriodEnd)}.`;
+}
+
 export default function ProfilePage() {
   const navigate = useNavigate();
   const { user, updateProfile, logout } = useUserStore();
-  const [activeTab, setActiveTab] = useState<'general' | 'security'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'billing' | 'security'>('general');
 
   // General Form State
   const [profileForm, setProfileForm] = useState({
@@ -30,6 +74,10 @@ export default function ProfilePage() {
   const [sessions, setSessions] = useState<any[]>([]);
   const [loadingSessions, setLoadingSessions] = useState(false);
 
+  // Billing State
+  const [billingError, setBillingError] = useState('');
+  const [openingPortal, setOpeningPortal] = useState(false);
+
   // Delete Account State
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deletePassword, setDeletePassword] = useState('');
@@ -94,6 +142,18 @@ export default function ProfilePage() {
     }
   };
 
+  const handleManageBilling = async () => {
+    setOpeningPortal(true);
+    setBillingError('');
+    try {
+      const { url } = await apiClient.createPortalSession();
+      window.location.href = url;
+    } catch (error: any) {
+      setBillingError(error.response?.data?.error || 'Failed to open billing portal');
+      setOpeningPortal(false);
+    }
+  };
+
   const handleDeleteAccount = async () => {
     setIsDeleting(true);
     setDeleteError('');
@@ -134,6 +194,12 @@ export default function ProfilePage() {
         >
           General
         </button>
+        <button
+          className={`pb-2 px-4 ${activeTab === 'billing' ? 'text-blue-400 border-b-2 border-blue-400' : 'text-gray-400 hover:text-white'}`}
+          onClick={() => setActiveTab('billing')}
+        >
+          Billing
+        </button>
         <button
           className={`pb-2 px-4 ${activeTab === 'security' ? 'text-blue-400 border-b-2 border-blue-400' : 'text-gray-400 hover:text-white'}`}
           onClick={() => setActiveTab('security')}
@@ -170,6 +236,41 @@ export default function ProfilePage() {
         </Card>
       )}
 
+      {activeTab === 'billing' && (
+        <Card className="p-6 bg-gray-800 border-gray-700">
+          <h2 className="text-xl font-bold text-white mb-6">Billing</h2>
+          <div className="flex items-center space-x-2 mb-2">
+            <span className="font-medium text-white">{PLAN_NAMES[user.plan || 'free']} plan</span>
+            {user.subscriptionStatus && SUBSCRIPTION_BADGES[user.subscriptionStatus] && (
+              <Badge variant={SUBSCRIPTION_BADGES[user.subscriptionStatus].variant}>
+                {SUBSCRIPTION_BADGES[user.subscriptionStatus].label}
+              </Badge>
+            )}
+          </div>
+          {renewalText(user) && <p className="text-gray-400 mb-4">{renewalText(user)}</p>}
+
+          {user.subscriptionStatus === 'past_due' && (
+            <div className="bg-yellow-900/20 p-4 rounded border border-yellow-900/50 mb-4">
+              <p className="text-yellow-400 text-sm">
+                Your last payment failed. Update your payment method to keep your plan.
+              </p>
+            </div>
+          )}
+
+          {billingError && <p className="text-red-400 text-sm mb-4">{billingError}</p>}
+
+          {user.subscriptionProvider === 'stripe' ? (
+            <Button variant="aurora" onClick={handleManageBilling} disabled={openingPortal}>
+              {openingPortal ? 'Opening...' : 'Manage Billing'}
+            </Button>
+          ) : (
+            <Button variant="aurora" onClick={() => navigate('/pricing')}>
+              View Plans
+            </Button>
+          )}
+        </Card>
+      )}
+
       {activeTab === 'security' && (
         <div className="space-y-8">
           <Card className="p-6 bg-gray-800 border-gray-700">
@@ -1,4 +1,5 @@
 import {
+  Brain,
   FileText,
   Files,
   Clock,
@@ -12,7 +13,8 @@ import { useNavigate } from 'react-router-dom';
 
 import { DocListVisualizer } from '@/components/dashboard/DocListVisualizer';
 import { IndicatorCard } from '@/components/dashboard/IndicatorCard';
-import { Card } from '@/components/primitives';
+import { LLMUsagePanel } from '@/components/dashboard/LLMUsagePanel';
+import { Button, Card } from '@/components/primitives';
 import { FileUploader } from '@/features/document/FileUploader';
 import { TextInputArea } from '@/features/document/TextInputArea';
 import { cn } from '@/lib/utils';
@@ -39,6 +41,8 @@ export const DashboardPage: React.FC = () => {
     fetchDashboardStats();
   }, [fetchDocumentList, fetchDashboardStats]);
 
+  const documentTitles = Object.fromEntries(documentList.map((doc) => [doc.id, doc.title]));
+
   const handleDocClick = async (id: string) => {
     await loadDocumentById(id);
     navigate('/stages');
@@ -111,8 +115,18 @@ export const DashboardPage: React.FC = () => {
                   <h2 className="text-2xl font-bold text-[var(--color-text-primary)]">Your Library</h2>
                   <p className="text-sm text-[var(--color-text-secondary)]">Manage and explore your analyzed documents</p>
                 </div>
-                <div className="p-2 rounded-lg bg-[var(--color-surface-elevated)] border border-[var(--color-border-subtle)]">
-                  <LayoutDashboard className="w-5 h-5 text-[var(--color-text-tertiary)]" />
+                <div className="flex items-center gap-3">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate('/knowledge-base')}
+                    leftIcon={<Brain className="w-4 h-4" />}
+                  >
+                    Knowledge Base
+                  </Button>
+                  <div className="p-2 rounded-lg bg-[var(--color-surface-elevated)] border border-[var(--color-border-subtle)]">
+                    <LayoutDashboard className="w-5 h-5 text-[var(--color-text-tertiary)]" />
+                  </div>
                 </div>
               </div>
 
@@ -171,6 +185,8 @@ export const DashboardPage: React.FC = () => {
               {/* Decorative accent */}
               <div className="absolute top-0 right-0 w-16 h-16 bg-gradient-to-bl from-[var(--color-interactive-primary-base)] to-transparent opacity-10" />
             </Card>
+
+            <LLMUsagePanel documentTitles={documentTitles} />
           </div>
         </div>
       </main>
@@ -1,9 +1,27 @@
 import axios from 'axios';
 
 import type {
+  AnalysisProgress,
+  AskQuestionResponse,
+  CompareDocumentsRequest,
   Document,
+  DocumentComparison,
   DocumentAnalysis,
+  ExportRequest,
+  ImportVisualizationRequest,
+  ImportVisualizationResponse,
+  KnowledgeBaseGraph,
+  ListVisualizationVersionsResponse,
+  LLMUsageSummary,
+  PlanId,
+  PlanLimitError,
+  PatchVisualizationResponse,
+  QAMessage,
+  RollbackVisualizationResponse,
+  SearchResult,
+  VisualizationPatchOperation,
   VisualizationType,
+  VisualizationVersion,
 } from '../../../shared/src/types';
 import { useDocumentStore } from '../stores/documentStore';
 import { useUserStore } from '../stores/userStore';
@@ -114,6 +132,14 @@ client.interceptors.response.use(
       }
     }
 
+    // Plan limits (402, or 429 for the daily analysis limit) come with an
+    // upgrade offer for the Upgrade Modal
+    const planLimit = error.response?.data as PlanLimitError | undefined;
+    if ((status === 402 || status === 429) && planLimit?.plan) {
+      useUserStore.getState().setUpgradeModalOpen(true, planLimit);
+      return Promise.reject(error);
+    }
+
     // Handle 429 Too Many Requests (Rate Limit)
     // We show a toast but DO NOT redirect to login
     if (status === 429) {
@@ -128,18 +154,9 @@ client.interceptors.response.use(
       return Promise.reject(error);
     }
 
-    // Handle 403 Forbidden
+    // Handle 403 Forbidden: Auth Error -> Clear state and redirect
+    // (This includes wrong password scenarios from /auth/me or stale tokens)
     if (status === 403) {
-      const data = error.response?.data;
-
-      // Case 1: Storage Limit (Hard Stop) -> Open Upgrade Modal
-      if (data?.code === 'STORAGE_LIMIT_EXCEEDED' || data?.error?.includes('Storage limit exceeded')) {
-        useUserStore.getState().setUpgradeModalOpen(true);
-        return Promise.reject(error);
-      }
-
-      // Case 2: Auth Error -> Clear state and redirect
-      // (This includes wrong password scenarios from /auth/me or stale tokens)
       localStorage.removeItem('accessToken');
       localStorage.removeItem('refreshToken');
       localStorage.removeItem('user');
@@ -258,9 +275,22 @@ export const apiClient = {
     return response.data;
   },
 
+  async deleteDocument(documentId: string): Promise<void> {
+    await client.delete(`/documents/${documentId}`);
+  },
+
+  async deleteDocuments(documentIds: string[]): Promise<{
+    deleted: string[];
+    notFound: string[];
+    failed: string[];
+  }> {
+    const response = await client.post('/documents/bulk-delete', { documentIds });
+    return response.data;
+  },
+
   async searchDocuments(
     query: string,
-  ): Promise<{ documents: any[]; total: number; query: string }> {
+  ): Promise<{ documents: any[]; total: number; query: string; results?: SearchResult[] }> {
     const response = await client.get('/documents/search', {
       params: { q: query },
     });
@@ -272,9 +302,14 @@ export const apiClient = {
     return response.data;
   },
 
-  async getProgress(
-    documentId: string,
-  ): Promise<{ step: string; progress: number; message: string }> {
+  async getLLMUsage(period?: string): Promise<LLMUsageSummary> {
+    const response = await client.get('/usage', {
+      params: period ? { period } : undefined,
+    });
+    return response.data;
+  },
+
+  async getProgress(documentId: string): Promise<AnalysisProgress> {
     const response = await client.get(`/documents/${documentId}/progress`);
     return response.data;
   },
@@ -289,6 +324,108 @@ export const apiClient = {
     return response.data;
   },
 
+  async patchVisualization(
+    documentId: string,
+    type: VisualizationType,
+    operations: VisualizationPatchOperation[],
+  ): Promise<PatchVisualizationResponse> {
+    const response = await client.patch(
+      `/documents/${documentId}/visualizations/${type}`,
+      operations,
+    );
+    return response.data;
+  },
+
+  async listVisualizationVersions(
+    documentId: string,
+    type: VisualizationType,
+  ): Promise<ListVisualizationVersionsResponse> {
+    const response = await client.get(
+      `/documents/${documentId}/visualizations/${type}/versions`,
+    );
+    return response.data;
+  },
+
+  async getVisualizationVersion(
+    documentId: string,
+    type: VisualizationType,
+    version: number,
+  ): Promise<VisualizationVersion> {
+    const response = await client.get(
+      `/documents/${documentId}/visualizations/${type}/versions/${version}`,
+    );
+    return response.data;
+  },
+
+  async rollbackVisualization(
+    documentId: string,
+    type: VisualizationType,
+    version: number,
+  ): Promise<RollbackVisualizationResponse> {
+    const response = await client.post(
+      `/documents/${documentId}/visualizations/${type}/versions/${version}/rollback`,
+    );
+    return response.data;
+  },
+
+  async importVisualization(
+    documentId: string,
+    request: ImportVisualizationRequest,
+  ): Promise<ImportVisualizationResponse> {
+    const response = await client.post(`/documents/${documentId}/visualizations/import`, request);
+    return response.data;
+  },
+
+  async getKnowledgeBaseGraph(documentIds?: string[]): Promise<KnowledgeBaseGraph> {
+    const response = await client.get('/knowledge-base/graph', {
+      params: documentIds && documentIds.length > 0
+        ? { documentIds: documentIds.join(',') }
+        : undefined,
+    });
+    return response.data;
+  },
+
+  async compareDocuments(request: CompareDocumentsRequest): Promise<DocumentComparison> {
+    const response = await client.post('/documents/compare', request);
+    return response.data;
+  },
+
+  async exportVisualization(
+    documentId: string,
+    request: ExportRequest,
+  ): Promise<{ blob: Blob; filename: string }> {
+    const response = await client.post(`/documents/${documentId}/export`, request, {
+      responseType: 'blob',
+    });
+    const disposition: string = response.headers['content-disposition'] || '';
+    const filename
+      = disposition.match(/filename="([^"]+)"/)?.[1]
+      || `${documentId}.${request.format}`;
+    return { blob: response.data, filename };
+  },
+
+  // Document Q&A Methods
+  async askQuestion(
+    documentId: string,
+    question: string,
+  ): Promise<AskQuestionResponse> {
+    const response = await client.post(`/documents/${documentId}/ask`, {
+      question,
+    });
+    return response.data;
+  },
+
+  async getConversation(
+    documentId: string,
+  ): Promise<{ documentId: string; history: QAMessage[] }> {
+    const response = await client.get(`/documents/${documentId}/conversation`);
+    return response.data;
+  },
+
+  async clearConversation(documentId: string): Promise<void> {
+    await client.delete(`/documents/${documentId}/conversation`);
+  },
+
   // User Management Methods
   async getMe() {
     const response = await client.get('/auth/me');
@@ -348,8 +485,13 @@ export const apiClient = {
   },
 
   // Billing Methods
-  async createCheckoutSession(): Promise<{ url: string }> {
-    const response = await client.post('/billing/checkout-session');
+  async createCheckoutSession(plan?: PlanId): Promise<{ url: string }> {
+    const response = await client.post('/billing/checkout-session', plan ? { plan } : undefined);
+    return response.data;
+  },
+
+  async createPortalSession(): Promise<{ url: string }> {
+    const response = await client.post('/billing/portal-session');
     return response.data;
   },
 };
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { parseEventStream, streamProgress } from './progressStream';
+
+const sseResponse = (body: string) => {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    start(controller) {
+      // Split mid-event to exercise buffering across chunks
+      const middle = Math.floor(body.length / 2);
+      controller.enqueue(encoder.encode(body.slice(0, middle)));
+      controller.enqueue(encoder.encode(body.slice(middle)));
+      controller.close();
+    },
+  });
+  return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+const event = (id: number, data: object) => `id: ${id}\nevent: progress\ndata: ${JSON.stringify(data)}\n\n`;
+
+describe('progressStream', () => {
+  beforeEach(() => {
+    (window.localStorage.getItem as any).mockReturnValue('token-123');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('parses complete events and keeps the unterminated remainder', () => {
+    const { events, rest } = parseEventStream(
+      'retry: 2000\n\n: keep-alive\n\nid: 3\nevent: progress\ndata: {"a":1}\n\nid: 4\ndata: par',
+    );
+
+    expect(events).toEqual([
+      { event: 'message', data: '', retry: 2000 },
+      { id: '3', event: 'progress', data: '{"a":1}' },
+    ]);
+    expect(rest).toBe('id: 4\ndata: par');
+  });
+
+  it('delivers progress, including partial results, until the analysis completes', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse(
+      'retry: 10\n\n'
+      + event(1, { step: 'initialization', progress: 5, message: 'Starting' })
+      + event(2, { step: 'early-results', progress: 40, message: 'TLDR', partialAnalysis: { tldr: { text: 'Short' } } })
+      + event(3, { step: 'complete', progress: 100, message: 'Done' }),
+    ));
+    vi.stubGlobal('fetch', fetchMock);
+    const onProgress = vi.fn();
+
+    await streamProgress('doc-1', onProgress);
+
+    expect(onProgress.mock.calls.map(([p]) => p.step)).toEqual(['initialization', 'early-results', 'complete']);
+    expect(onProgress.mock.calls[1][0].partialAnalysis.tldr.text).toBe('Short');
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer token-123');
+  });
+
+  it('resumes with Last-Event-ID when the connection drops', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(sseResponse('retry: 1\n\n' + event(7, { step: 'sections', progress: 65, message: 'Sections' })))
+      .mockResolvedValueOnce(sseResponse(event(8, { step: 'complete', progress: 100, message: 'Done' })));
+    vi.stubGlobal('fetch', fetchMock);
+    const onProgress = vi.fn();
+
+    await streamProgress('doc-1', onProgress);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1].headers['Last-Event-ID']).toBe('7');
+    expect(onProgress).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects when the stream cannot be opened so callers can poll instead', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('nope', { status: 404 })));
+
+    await expect(streamProgress('doc-1', vi.fn())).rejects.toThrow('Progress stream unavailable (404)');
+  });
+});
@@ -0,0 +1,116 @@
+import type { AnalysisProgress } from '../../../shared/src/types';
+
+const API_BASE_URL = '/api';
+
+// Reconnect attempts after the connection drops mid-analysis
+const MAX_RECONNECTS = 5;
+
+const TERMINAL_STEPS = ['complete', 'error'];
+
+export interface ServerSentEvent {
+  id?: string;
+  event: string;
+  data: string;
+  retry?: number;
+}
+
+/**
+ * Parse complete events out of an SSE buffer. Returns the parsed events and the
+ * unterminated remainder to prepend to the next chunk.
+ */
+export function parseEventStream(buffer: string): {
+  events: ServerSentEvent[];
+  rest: string;
+} {
+  const blocks = buffer.replace(/\r\n?/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events: ServerSentEvent[] = [];
+
+  for (const block of blocks) {
+    const event: ServerSentEvent = { event: 'message', data: '' };
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+      if (!line || line.startsWith(':')) continue;
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'data') data.push(value);
+      else if (field === 'id') event.id = value;
+      else if (field === 'event') event.event = value;
+      else if (field === 'retry' && (/^\d+$/).test(value)) event.retry = Number(value);
+    }
+    event.data = data.join('\n');
+    if (data.length > 0 || event.retry !== undefined) events.push(event);
+  }
+
+  return { events, rest };
+}
+
+/**
+ * Follow `GET /documents/:id/progress/stream` until the analysis completes or fails.
+ * Uses fetch rather than EventSource so the bearer token can be sent, and resumes
+ * with Last-Event-ID when the connection drops. Rejects if the stream cannot be
+ * opened so callers can fall back to polling.
+ */
+export async function streamProgress(
+  documentId: string,
+  onProgress: (progress: AnalysisProgress) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  let lastEventId: string | undefined;
+  let retryMs = 2000;
+
+  for (let attempt = 0; attempt <= MAX_RECONNECTS; attempt++) {
+    const headers: Record<string, string> = { Accept: 'text/event-stream' };
+    const token = localStorage.getItem('accessToken');
+    if (token) headers.Authorization = `Bearer ${token}`;
+    if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+
+    let response: Response;
+    try {
+      response = await fetch(`${API_BASE_URL}/documents/${documentId}/progress/stream`, {
+        headers,
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) return;
+      if (attempt === 0) throw error;
+      await new Promise((resolve) => setTimeout(resolve, retryMs));
+      continue;
+    }
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Progress stream unavailable (${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const parsed = parseEventStream(buffer + decoder.decode(value, { stream: true }));
+        buffer = parsed.rest;
+
+        for (const event of parsed.events) {
+          if (event.retry !== undefined) retryMs = event.retry;
+          if (event.id) lastEventId = event.id;
+          if (event.event !== 'progress' || !event.data) continue;
+
+          const progress = JSON.parse(event.data) as AnalysisProgress;
+          onProgress(progress);
+          if (TERMINAL_STEPS.includes(progress.step)) return;
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      // Dropped mid-stream; reconnect and resume below
+    }
+
+    if (signal?.aborted) return;
+    await new Promise((resolve) => setTimeout(resolve, retryMs));
+  }
+}
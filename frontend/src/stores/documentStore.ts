@@ -1,8 +1,20 @@
 import { create } from 'zustand';
 
 import { apiClient } from '../services/apiClient';
-
-import type { Document, DocumentAnalysis, VisualizationType, DashboardStats } from '../../../shared/src/types';
+import { streamProgress } from '../services/progressStream';
+
+import type {
+  AnalysisProgress,
+  Document,
+  DocumentAnalysis,
+  ImportVisualizationRequest,
+  VisualizationType,
+  DashboardStats,
+  QACitation,
+  QAMessage,
+  SearchResult,
+  VisualizationPatchOperation,
+} from '../../../shared/src/types';
 import type { ToastType } from '../features/feedback/Toast';
 
 export type AppStage = 'welcome' | 'input' | 'analysis' | 'visualization';
@@ -47,6 +59,8 @@ interface DocumentStore {
   documentList: DocumentListItem[];
   isLoadingList: boolean;
   searchQuery: string;
+  // Matches of the last search, by document id
+  searchResults: Record<string, SearchResult>;
 
   // Dashboard stats
   stats: DashboardStats | null;
@@ -56,7 +70,20 @@ interface DocumentStore {
   uploadText: (text: string) => Promise<void>;
   analyzeDocument: () => Promise<void>;
   loadVisualization: (type: VisualizationType) => Promise<void>;
+  editVisualization: (
+    type: VisualizationType,
+    operations: VisualizationPatchOperation[],
+  ) => Promise<void>;
+  rollbackVisualization: (type: VisualizationType, version: number) => Promise<void>;
+  // Resolves to false when the server could not read the diagram
+  importVisualization: (request: ImportVisualizationRequest) => Promise<boolean>;
+  // Compare the open document against a base document or earlier version
+  isComparing: boolean;
+  compareWith: (baseDocumentId: string) => Promise<void>;
   setCurrentVisualization: (type: VisualizationType) => void;
+  // Hide extracted items whose source quotes were not found in the document
+  hideUngrounded: boolean;
+  setHideUngrounded: (hide: boolean) => void;
   clearDocument: () => void;
   clearError: () => void;
   addToast: (toast: Omit<ToastMessage, 'id'>) => void;
@@ -67,7 +94,17 @@ interface DocumentStore {
   loadDocumentById: (id: string) => Promise<void>;
   setSearchQuery: (query: string) => void;
   searchDocuments: (query: string) => Promise<void>;
+  deleteDocument: (id: string) => Promise<void>;
   fetchDashboardStats: () => Promise<void>;
+
+  // Document Q&A
+  qaMessages: QAMessage[];
+  isAsking: boolean;
+  activeCitation: QACitation | null;
+  askQuestion: (question: string) => Promise<void>;
+  loadConversation: () => Promise<void>;
+  clearConversation: () => Promise<void>;
+  showCitation: (citation: QACitation | null) => void;
 }
 
 export const useDocumentStore = create<DocumentStore>((set, get) => ({
@@ -82,6 +119,8 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
   progressPercent: 0,
   progressMessage: '',
   toasts: [],
+  isComparing: false,
+  hideUngrounded: false,
 
   // Stage state (Vaisu UI)
   currentStage: 'welcome',
@@ -91,11 +130,17 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
   documentList: [],
   isLoadingList: false,
   searchQuery: '',
+  searchResults: {},
 
   // Dashboard stats
   stats: null,
   isLoadingStats: false,
 
+  // Document Q&A
+  qaMessages: [],
+  isAsking: false,
+  activeCitation: null,
+
   uploadDocument: async (file: File) => {
     set({ isLoading: true, error: null });
     try {
@@ -166,35 +211,53 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
     const { document } = get();
     if (!document) return;
 
-    set({ isAnalyzing: true, error: null, progressStep: 'starting', progressPercent: 0, progressMessage: 'Starting analysis...' });
-
-    // Start polling for progress and partial results
-    const pollInterval = setInterval(async () => {
-      try {
-        const progress = await apiClient.getProgress(document.id);
-        const updates: any = {
-          progressStep: progress.step,
-          progressPercent: progress.progress,
-          progressMessage: progress.message,
-        };
-
-        // If we have partial analysis results, update them immediately
-        if ('partialAnalysis' in progress && progress.partialAnalysis) {
-          updates.analysis = {
-            ...get().analysis,
-            ...(progress as any).partialAnalysis,
-          };
+    set({ isAnalyzing: true, error: null, analysis: null, progressStep: 'starting', progressPercent: 0, progressMessage: 'Starting analysis...' });
+
+    // Follow progress over SSE; partial results (TLDR, executive summary) are
+    // shown as soon as the server emits them
+    const applyProgress = (progress: AnalysisProgress) => {
+      const updates: Partial<DocumentStore> = {
+        progressStep: progress.step,
+        progressPercent: progress.progress,
+        progressMessage: progress.message,
+      };
+
+      if (progress.partialAnalysis) {
+        const analysis = {
+          ...get().analysis,
+          ...progress.partialAnalysis,
+        } as DocumentAnalysis;
+        const current = get().document;
+        updates.analysis = analysis;
+        if (current?.id === document.id) {
+          updates.document = { ...current, analysis };
         }
-
-        set(updates);
-      } catch (err) {
-        // Ignore polling errors
       }
-    }, 500); // Poll every 500ms
+
+      set(updates);
+    };
+
+    const streamController = new AbortController();
+    let pollInterval: ReturnType<typeof setInterval> | undefined;
+    streamProgress(document.id, applyProgress, streamController.signal).catch(() => {
+      // Stream not available (e.g. an intermediate proxy) - fall back to polling
+      if (streamController.signal.aborted) return;
+      pollInterval = setInterval(async () => {
+        try {
+          applyProgress(await apiClient.getProgress(document.id));
+        } catch (err) {
+          // Ignore polling errors
+        }
+      }, 500);
+    });
+    const stopProgress = () => {
+      streamController.abort();
+      clearInterval(pollInterval);
+    };
 
     try {
       const response = await apiClient.analyzeDocument(document.id);
-      clearInterval(pollInterval);
+      stopProgress();
       set({
         document: response.document,
         analysis: response.analysis,
@@ -215,7 +278,7 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
       // Load default visualization immediately (priority visualization)
       get().loadVisualization(DEFAULT_VISUALIZATION);
     } catch (error: any) {
-      clearInterval(pollInterval);
+      stopProgress();
       set({
         error: error.message || 'Failed to analyze document',
         isAnalyzing: false,
@@ -243,6 +306,12 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
       return;
     }
 
+    // Comparisons come from compareWith, they are not generated per document
+    if (type === 'comparison-matrix') {
+      set({ currentVisualization: type });
+      return;
+    }
+
     // Prevent concurrent requests for the same visualization
     if (isLoading) return;
 
@@ -320,11 +389,120 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
     }
   },
 
+  editVisualization: async (type: VisualizationType, operations: VisualizationPatchOperation[]) => {
+    const { document } = get();
+    if (!document) return;
+
+    try {
+      const response = await apiClient.patchVisualization(document.id, type, operations);
+      const newMap = new Map(get().visualizationData);
+      newMap.set(type, response.data);
+      set({ visualizationData: newMap });
+    } catch (error: any) {
+      console.error('Failed to save visualization edit:', error);
+      get().addToast({
+        type: 'error',
+        title: 'Edit not saved',
+        message: error.response?.data?.details?.[0] || error.message,
+        duration: 5000,
+      });
+    }
+  },
+
+  rollbackVisualization: async (type: VisualizationType, version: number) => {
+    const { document } = get();
+    if (!document) return;
+
+    try {
+      const response = await apiClient.rollbackVisualization(document.id, type, version);
+      const newMap = new Map(get().visualizationData);
+      newMap.set(type, response.data);
+      set({ visualizationData: newMap });
+      get().addToast({
+        type: 'success',
+        title: 'Version restored',
+        message: `Restored version ${version} as version ${response.version}`,
+        duration: 3000,
+      });
+    } catch (error: any) {
+      console.error('Failed to roll back visualization:', error);
+      get().addToast({
+        type: 'error',
+        title: 'Rollback failed',
+        message: error.response?.data?.error || error.message,
+        duration: 5000,
+      });
+    }
+  },
+
+  importVisualization: async (request: ImportVisualizationRequest) => {
+    const { document } = get();
+    if (!document) return false;
+
+    try {
+      const response = await apiClient.importVisualization(document.id, request);
+      const newMap = new Map(get().visualizationData);
+      newMap.set(response.type, response.data);
+      set({ visualizationData: newMap, currentVisualization: response.type });
+      get().addToast({
+        type: response.warnings.length > 0 ? 'warning' : 'success',
+        title: 'Diagram imported',
+        message: response.warnings.length > 0
+          ? `Saved as version ${response.version}. ${response.warnings.join('; ')}`
+          : `Saved as version ${response.version}`,
+        duration: response.warnings.length > 0 ? 8000 : 3000,
+      });
+      return true;
+    } catch (error: any) {
+      console.error('Failed to import visualization:', error);
+      get().addToast({
+        type: 'error',
+        title: 'Import failed',
+        message: error.response?.data?.error || error.message,
+        duration: 5000,
+      });
+      return false;
+    }
+  },
+
+  compareWith: async (baseDocumentId: string) => {
+    const { document } = get();
+    if (!document) return;
+
+    set({ isComparing: true });
+    try {
+      const comparison = await apiClient.compareDocuments({
+        leftDocumentId: baseDocumentId,
+        rightDocumentId: document.id,
+      });
+      const newMap = new Map(get().visualizationData);
+      newMap.set('comparison-matrix', comparison.matrix);
+      set({
+        visualizationData: newMap,
+        currentVisualization: 'comparison-matrix',
+        isComparing: false,
+      });
+    } catch (error: any) {
+      console.error('Failed to compare documents:', error);
+      set({ isComparing: false });
+      get().addToast({
+        type: 'error',
+        title: 'Comparison failed',
+        message: error.response?.data?.error || error.message,
+        duration: 5000,
+      });
+    }
+  },
+
   setCurrentVisualization: (type: VisualizationType) => {
     set({ currentVisualization: type });
     get().loadVisualization(type);
   },
 
+  setHideUngrounded: (hide: boolean) => {
+    set({ hideUngrounded: hide });
+  },
+
   clearDocument: () => {
     set({
       document: null,
@@ -337,6 +515,9 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
       progressStep: '',
       progressPercent: 0,
       progressMessage: '',
+      qaMessages: [],
+      isAsking: false,
+      activeCitation: null,
     });
   },
 
@@ -362,7 +543,7 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
     set({ isLoadingList: true });
     try {
       const response = await apiClient.listDocuments();
-      set({ documentList: response.documents, isLoadingList: false });
+      set({ documentList: response.documents, searchResults: {}, isLoadingList: false });
     } catch (error: any) {
       console.error('Failed to fetch document list:', error);
       set({ isLoadingList: false });
@@ -394,6 +575,8 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
         visualizationData: vizMap,
         isLoading: false,
         currentVisualization: DEFAULT_VISUALIZATION,
+        qaMessages: [],
+        activeCitation: null,
       });
 
       get().addToast({
@@ -427,7 +610,13 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
       }
 
       const response = await apiClient.searchDocuments(query);
-      set({ documentList: response.documents, isLoadingList: false });
+      set({
+        documentList: response.documents,
+        searchResults: Object.fromEntries(
+          (response.results || []).map((result) => [result.documentId, result]),
+        ),
+        isLoadingList: false,
+      });
     } catch (error: any) {
       console.error('Failed to search documents:', error);
       set({ isLoadingList: false });
@@ -440,6 +629,31 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
     }
   },
 
+  deleteDocument: async (id: string) => {
+    try {
+      await apiClient.deleteDocument(id);
+      set((state) => ({
+        documentList: state.documentList.filter((doc) => doc.id !== id),
+      }));
+      if (get().document?.id === id) {
+        get().clearDocument();
+      }
+      get().addToast({
+        type: 'success',
+        title: 'Document deleted',
+        duration: 3000,
+      });
+    } catch (error: any) {
+      console.error('Failed to delete document:', error);
+      get().addToast({
+        type: 'error',
+        title: 'Failed to delete document',
+        message: error.message,
+        duration: 5000,
+      });
+    }
+  },
+
   fetchDashboardStats: async () => {
     set({ isLoadingStats: true });
     try {
@@ -456,4 +670,71 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
       });
     }
   },
+
+  // Document Q&A methods
+  askQuestion: async (question: string) => {
+    const { document, qaMessages, isAsking } = get();
+    if (!document || isAsking || !question.trim()) return;
+
+    // Show the question immediately; the server returns the authoritative history
+    const pending: QAMessage = {
+      id: `pending-${Date.now()}`,
+      role: 'user',
+      content: question.trim(),
+      createdAt: new Date().toISOString(),
+    };
+    set({ qaMessages: [...qaMessages, pending], isAsking: true });
+
+    try {
+      const response = await apiClient.askQuestion(document.id, question.trim());
+      // Ignore answers for a document that was closed while waiting
+      if (get().document?.id !== document.id) return;
+      set({ qaMessages: response.history, isAsking: false });
+    } catch (error: any) {
+      set((state) => ({
+        qaMessages: state.qaMessages.filter((m) => m.id !== pending.id),
+        isAsking: false,
+      }));
+      get().addToast({
+        type: 'error',
+        title: 'Could not answer question',
+        message: error.response?.data?.error || error.message,
+        duration: 5000,
+      });
+    }
+  },
+
+  loadConversation: async () => {
+    const { document } = get();
+    if (!document) return;
+
+    try {
+      const response = await apiClient.getConversation(document.id);
+      if (get().document?.id === document.id) {
+        set({ qaMessages: response.history });
+      }
+    } catch (error: any) {
+      console.error('Failed to load conversation:', error);
+    }
+  },
+
+  clearConversation: async () => {
+    const { document } = get();
+    if (!document) return;
+
+    set({ qaMessages: [], activeCitation: null });
+    try {
+      await apiClient.clearConversation(document.id);
+    } catch (error: any) {
+      console.error('Failed to clear conversation:', error);
+    }
+  },
+
+  showCitation: (citation: QACitation | null) => {
+    set({ activeCitation: citation });
+    // Citations are highlighted in the document structure
+    if (citation && get().currentVisualization !== 'structured-view') {
+      get().setCurrentVisualization('structured-view');
+    }
+  },
 }));
@@ -3,6 +3,8 @@ import { persist } from 'zustand/middleware';
 
 import { apiClient } from '../services/apiClient';
 
+import type { LLMUsageSummary, PlanId, PlanLimitError } from '../../../shared/src/types';
+
 interface User {
   userId: string;
   email: string;
@@ -10,10 +12,13 @@ interface User {
   lastName: string;
   profilePictureUrl?: string;
   role?: string;
+  plan?: PlanId;
   subscriptionProvider?: string;
   subscriptionId?: string;
   subscriptionStatus?: string;
   currentPeriodEnd?: string;
+  cancelAtPeriodEnd?: boolean;
+  trialEnd?: string;
 }
 
 export interface UsageStats {
@@ -31,12 +36,15 @@ export interface UsageStats {
 interface UserState {
   user: User | null;
   usageStats: UsageStats | null;
+  llmUsage: LLMUsageSummary | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
   isUpgradeModalOpen: boolean;
+  // The plan limit that opened the upgrade modal, if any
+  upgradeOffer: PlanLimitError | null;
 
-  setUpgradeModalOpen: (isOpen: boolean) => void;
+  setUpgradeModalOpen: (isOpen: boolean, offer?: PlanLimitError) => void;
 
   login: (email: string, password: string) => Promise<void>;
   register: (
@@ -49,6 +57,7 @@ interface UserState {
   updateProfile: (data: Partial<User>) => Promise<void>;
   checkAuth: () => Promise<void>;
   fetchUsageStats: () => Promise<void>;
+  fetchLLMUsage: () => Promise<void>;
   clearError: () => void;
 }
 
@@ -57,12 +66,15 @@ export const useUserStore = create<UserState>()(
     (set, get) => ({
       user: null,
       usageStats: null,
+      llmUsage: null,
       isAuthenticated: false,
       isLoading: false,
       error: null,
       isUpgradeModalOpen: false,
+      upgradeOffer: null,
 
-      setUpgradeModalOpen: (isOpen) => set({ isUpgradeModalOpen: isOpen }),
+      setUpgradeModalOpen: (isOpen, offer) =>
+        set({ isUpgradeModalOpen: isOpen, upgradeOffer: isOpen ? offer || null : null }),
 
       login: async (email, password) => {
         set({ isLoading: true, error: null });
@@ -159,6 +171,14 @@ export const useUserStore = create<UserState>()(
         }
       },
 
+      fetchLLMUsage: async () => {
+        try {
+          set({ llmUsage: await apiClient.getLLMUsage() });
+        } catch (error) {
+          console.error('Failed to fetch LLM usage', error);
+        }
+      },
+
       clearError: () => set({ error: null }),
     }),
     {
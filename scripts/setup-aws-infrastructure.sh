@@ -113,6 +113,9 @@ create_dynamodb_tables() {
         "vaisu-flowchart"
         "vaisu-executive-dashboard"
         "vaisu-timeline"
+        "vaisu-gantt"
+        "vaisu-raci-matrix"
+        "vaisu-priority-matrix"
         "vaisu-terms-definitions"
         "vaisu-knowledge-graph"
     )
@@ -210,6 +213,9 @@ create_dynamodb_tables() {
     echo "export DYNAMODB_FLOWCHART_TABLE=vaisu-flowchart" >> /tmp/aws-exports.env
     echo "export DYNAMODB_EXECUTIVE_DASHBOARD_TABLE=vaisu-executive-dashboard" >> /tmp/aws-exports.env
     echo "export DYNAMODB_TIMELINE_TABLE=vaisu-timeline" >> /tmp/aws-exports.env
+    echo "export DYNAMODB_GANTT_TABLE=vaisu-gantt" >> /tmp/aws-exports.env
+    echo "export DYNAMODB_RACI_MATRIX_TABLE=vaisu-raci-matrix" >> /tmp/aws-exports.env
+    echo "export DYNAMODB_PRIORITY_MATRIX_TABLE=vaisu-priority-matrix" >> /tmp/aws-exports.env
     echo "export DYNAMODB_TERMS_DEFINITIONS_TABLE=vaisu-terms-definitions" >> /tmp/aws-exports.env
     echo "export DYNAMODB_KNOWLEDGE_GRAPH_TABLE=vaisu-knowledge-graph" >> /tmp/aws-exports.env
 }
@@ -246,6 +252,9 @@ DYNAMODB_MIND_MAP_TABLE=vaisu-mind-map
 DYNAMODB_FLOWCHART_TABLE=vaisu-flowchart
 DYNAMODB_EXECUTIVE_DASHBOARD_TABLE=vaisu-executive-dashboard
 DYNAMODB_TIMELINE_TABLE=vaisu-timeline
+DYNAMODB_GANTT_TABLE=vaisu-gantt
+DYNAMODB_RACI_MATRIX_TABLE=vaisu-raci-matrix
+DYNAMODB_PRIORITY_MATRIX_TABLE=vaisu-priority-matrix
 DYNAMODB_TERMS_DEFINITIONS_TABLE=vaisu-terms-definitions
 DYNAMODB_KNOWLEDGE_GRAPH_TABLE=vaisu-knowledge-graph
 
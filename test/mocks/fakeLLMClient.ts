@@ -0,0 +1,480 @@
+import { OpenRouterClient } from '../../backend/src/services/llm/openRouterClient';
+import { identifyPrompt } from '../../backend/src/services/llm/promptRegistry';
+
+import type {
+  LLMProvider,
+  ModelLimits,
+  ProviderRequest,
+  ProviderResponse,
+} from '../../backend/src/services/llm/providers/types';
+import type { LLMProviderName, TaskType } from '../../shared/src/types';
+
+// Canned responses and the offline provider live apart from the vitest mocks in
+// openRouterMock.ts so that scripts outside a test run (the prompt evaluator) can use them
+
+/**
+ * Mock responses for OpenRouter API calls
+ */
+export const mockOpenRouterResponses = {
+  tldr: {
+    id: 'gen-123',
+    model: 'x-ai/grok-4.1-fast',
+    choices: [{
+      message: {
+        role: 'assistant',
+        content: 'This is a test TLDR summary of the document. It captures the main points concisely in 2-3 sentences.',
+      },
+      finish_reason: 'stop',
+    }],
+    usage: {
+      prompt_tokens: 500,
+      completion_tokens: 50,
+      total_tokens: 550,
+    },
+  },
+
+  executiveSummary: {
+    id: 'gen-124',
+    model: 'x-ai/grok-4.1-fast',
+    choices: [{
+      message: {
+        role: 'assistant',
+        content: JSON.stringify({
+          headline: 'Strong Q4 Performance with 15% Revenue Growth',
+          keyIdeas: [
+            'Revenue increased by 15% to $2.5M',
+            'Customer acquisition cost decreased by 20%',
+            'Market expansion opportunities identified',
+          ],
+          kpis: [
+            { label: 'Revenue', value: 2500000, unit: 'USD', trend: 'up' },
+            { label: 'Growth', value: 15, unit: '%', trend: 'up' },
+            { label: 'CAC', value: 150, unit: 'USD', trend: 'down' },
+          ],
+          risks: [
+            'Increasing market competition',
+            'Supply chain delays',
+            'Customer churn at 3%',
+          ],
+          opportunities: [
+            'New market expansion',
+            'Product line extension',
+            'Strategic partnerships',
+          ],
+          callToAction: 'Focus on market expansion while optimizing operations',
+        }),
+      },
+      finish_reason: 'stop',
+    }],
+    usage: {
+      prompt_tokens: 800,
+      completion_tokens: 200,
+      total_tokens: 1000,
+    },
+  },
+
+  entityExtraction: {
+    id: 'gen-125',
+    model: 'openai/gpt-4.5-mini',
+    choices: [{
+      message: {
+        role: 'assistant',
+        content: JSON.stringify({
+          entities: [
+            { id: 'entity-1', text: 'Q4', type: 'date', importance: 0.8, mentions: [] },
+            { id: 'entity-2', text: 'Revenue', type: 'metric', importance: 0.9, mentions: [] },
+            { id: 'entity-3', text: '$2.5M', type: 'metric', importance: 0.9, mentions: [] },
+            { id: 'entity-4', text: 'Customer acquisition cost', type: 'metric', importance: 0.7, mentions: [] },
+          ],
+        }),
+      },
+      finish_reason: 'stop',
+    }],
+    usage: {
+      prompt_tokens: 600,
+      completion_tokens: 100,
+      total_tokens: 700,
+    },
+  },
+
+  signalAnalysis: {
+    id: 'gen-126',
+    model: 'openai/gpt-4.5-mini',
+    choices: [{
+      message: {
+        role: 'assistant',
+        content: JSON.stringify({
+          structural: 0.8,
+          process: 0.3,
+          quantitative: 0.9,
+          technical: 0.2,
+          argumentative: 0.4,
+          temporal: 0.6,
+        }),
+      },
+      finish_reason: 'stop',
+    }],
+    usage: {
+      prompt_tokens: 500,
+      completion_tokens: 50,
+      total_tokens: 550,
+    },
+  },
+
+  relationshipDetection: {
+    id: 'gen-129',
+    model: 'openai/gpt-4.5-mini',
+    choices: [{
+      message: {
+        role: 'assistant',
+        content: JSON.stringify({
+          relationships: [
+            { id: 'rel-1', source: 'entity-2', target: 'entity-3', type: 'relates-to', strength: 0.9, evidence: [] },
+            { id: 'rel-2', source: 'entity-1', target: 'entity-2', type: 'relates-to', strength: 0.7, evidence: [] },
+          ],
+        }),
+      },
+      finish_reason: 'stop',
+    }],
+    usage: {
+      prompt_tokens: 600,
+      completion_tokens: 80,
+      total_tokens: 680,
+    },
+  },
+
+  sectionSummary: {
+    id: 'gen-130',
+    model: 'x-ai/grok-4.1-fast',
+    choices: [{
+      message: {
+        role: 'assistant',
+        content: JSON.stringify({
+          summary: 'This section discusses key metrics and performance indicators.',
+          keywords: ['metrics', 'performance', 'indicators'],
+        }),
+      },
+      finish_reason: 'stop',
+    }],
+    usage: {
+      prompt_tokens: 400,
+      completion_tokens: 30,
+      total_tokens: 430,
+    },
+  },
+
+  visualizationRecommendations: {
+    id: 'gen-127',
+    model: 'x-ai/grok-4.1-fast',
+    choices: [{
+      message: {
+        role: 'assistant',
+        content: JSON.stringify({
+          recommendations: [
+            {
+              type: 'executive-dashboard',
+              score: 0.95,
+              rationale: 'High quantitative signal detected (0.9). Document contains 8 numeric metrics and KPIs.',
+            },
+            {
+              type: 'structured-view',
+              score: 0.85,
+              rationale: 'Clear hierarchical structure with 4 main sections and subsections.',
+            },
+            {
+              type: 'waterfall-chart',
+              score: 0.75,
+              rationale: 'Sequential financial data showing progression from Q1 to Q4.',
+            },
+          ],
+        }),
+      },
+      finish_reason: 'stop',
+    }],
+    usage: {
+      prompt_tokens: 1000,
+      completion_tokens: 150,
+      total_tokens: 1150,
+    },
+  },
+
+  sectionSummaries: {
+    id: 'gen-128',
+    model: 'x-ai/grok-4.1-fast',
+    choices: [{
+      message: {
+        role: 'assistant',
+        content: JSON.stringify([
+          {
+            sectionId: 'section-1',
+            summary: 'Executive summary highlighting 15% revenue growth and improved customer metrics.',
+            keywords: ['revenue', 'growth', 'CAC'],
+          },
+          {
+            sectionId: 'section-2',
+            summary: 'Key performance metrics showing strong financial performance.',
+            keywords: ['metrics', 'KPI', 'performance'],
+          },
+        ]),
+      },
+      finish_reason: 'stop',
+    }],
+    usage: {
+      prompt_tokens: 700,
+      completion_tokens: 120,
+      total_tokens: 820,
+    },
+  },
+};
+
+/**
+ * Deterministic completion for a task, in the simplified format returned by
+ * OpenRouterClient. Signal analysis and visualization recommendations react to
+ * keywords in the prompt; everything else returns a fixed response.
+ */
+export function mockCompletionForTask(task: string | undefined, prompt: string) {
+  let rawResponse;
+  switch (task) {
+    case 'tldr':
+      rawResponse = mockOpenRouterResponses.tldr;
+      break;
+    case 'executiveSummary':
+      rawResponse = mockOpenRouterResponses.executiveSummary;
+      break;
+    case 'entityExtraction':
+      rawResponse = mockOpenRouterResponses.entityExtraction;
+      break;
+    case 'signalAnalysis': {
+      // Detect document type from prompt content
+      let signals = {
+        structural: 0.8,
+        process: 0.3,
+        quantitative: 0.9,
+        technical: 0.2,
+        argumentative: 0.4,
+        temporal: 0.6,
+      };
+
+      if (prompt.toLowerCase().includes('workflow')
+        || prompt.toLowerCase().includes('process')
+        || prompt.toLowerCase().includes('step')
+        || prompt.toLowerCase().includes('procedure')) {
+        signals = {
+          structural: 0.6,
+          process: 0.85,
+          quantitative: 0.3,
+          technical: 0.4,
+          argumentative: 0.2,
+          temporal: 0.7,
+        };
+      } else if (prompt.toLowerCase().includes('api')
+        || prompt.toLowerCase().includes('endpoint')
+        || prompt.toLowerCase().includes('technical')
+        || prompt.toLowerCase().includes('specification')) {
+        signals = {
+          structural: 0.7,
+          process: 0.4,
+          quantitative: 0.3,
+          technical: 0.85,
+          argumentative: 0.2,
+          temporal: 0.3,
+        };
+      }
+
+      rawResponse = {
+        ...mockOpenRouterResponses.signalAnalysis,
+        choices: [{
+          ...mockOpenRouterResponses.signalAnalysis.choices[0],
+          message: {
+            ...mockOpenRouterResponses.signalAnalysis.choices[0].message,
+            content: JSON.stringify(signals),
+          },
+        }],
+      };
+      break;
+    }
+    case 'relationshipDetection':
+      rawResponse = mockOpenRouterResponses.relationshipDetection;
+      break;
+    case 'sectionSummary':
+      // Structure analysis runs under this task with its own template and output
+      if (identifyPrompt(prompt)?.name === 'structureAnalysis') {
+        return {
+          content: JSON.stringify([
+            { title: 'Overview', level: 1, summary: 'What the document covers.', punching_message: 'Start here' },
+          ]),
+          tokensUsed: 430,
+          model: mockOpenRouterResponses.sectionSummary.model,
+        };
+      }
+      rawResponse = mockOpenRouterResponses.sectionSummary;
+      break;
+    case 'vizRecommendation': {
+      // Return more recommendations based on content and signals
+      let recommendations = [
+        {
+          type: 'executive-dashboard',
+          score: 0.95,
+          rationale: 'High quantitative signal detected. Document contains numeric metrics and KPIs.',
+        },
+        {
+          type: 'structured-view',
+          score: 0.85,
+          rationale: 'Clear hierarchical structure with main sections and subsections.',
+        },
+        {
+          type: 'waterfall-chart',
+          score: 0.75,
+          rationale: 'Sequential data showing progression over time.',
+        },
+        {
+          type: 'mind-map',
+          score: 0.70,
+          rationale: 'Good for visualizing relationships between concepts.',
+        },
+      ];
+
+      // Check signals in the prompt
+      const signalsMatch = prompt.match(/"quantitative":\s*([\d.]+)/);
+      const quantitativeSignal = signalsMatch ? parseFloat(signalsMatch[1]) : 0;
+
+      const processMatch = prompt.match(/"process":\s*([\d.]+)/);
+      const processSignal = processMatch ? parseFloat(processMatch[1]) : 0;
+
+      // Adjust based on signals (prioritize signal values over content keywords)
+      if (processSignal > 0.6) {
+        recommendations = [
+          {
+            type: 'flowchart',
+            score: 0.95,
+            rationale: 'High process signal detected. Document describes sequential workflow.',
+          },
+          {
+            type: 'swimlane',
+            score: 0.85,
+            rationale: 'Multiple actors and process steps identified.',
+          },
+          {
+            type: 'structured-view',
+            score: 0.80,
+            rationale: 'Clear hierarchical structure.',
+          },
+          {
+            type: 'timeline',
+            score: 0.70,
+            rationale: 'Temporal progression in the process.',
+          },
+        ];
+      } else if (quantitativeSignal < 0.5) {
+        // Low quantitative signal - don't recommend dashboard
+        recommendations = [
+          {
+            type: 'structured-view',
+            score: 0.90,
+            rationale: 'Clear hierarchical structure with main sections and subsections.',
+          },
+          {
+            type: 'mind-map',
+            score: 0.85,
+            rationale: 'Good for visualizing relationships between concepts.',
+          },
+          {
+            type: 'knowledge-graph',
+            score: 0.75,
+            rationale: 'Shows connections between entities.',
+          },
+        ];
+      }
+
+      rawResponse = {
+        ...mockOpenRouterResponses.visualizationRecommendations,
+        choices: [{
+          ...mockOpenRouterResponses.visualizationRecommendations.choices[0],
+          message: {
+            ...mockOpenRouterResponses.visualizationRecommendations.choices[0].message,
+            content: JSON.stringify({ recommendations }),
+          },
+        }],
+      };
+      break;
+    }
+    default:
+      rawResponse = mockOpenRouterResponses.tldr;
+  }
+
+  return {
+    content: rawResponse.choices[0].message.content,
+    tokensUsed: rawResponse.usage.total_tokens,
+    model: rawResponse.model,
+  };
+}
+
+
+export interface FakeLLMProviderOptions {
+  name?: LLMProviderName;
+  // Fixed content per task, replacing the canned responses
+  responses?: Partial<Record<TaskType, string>>;
+  // Split every response into chunks of this size, finishing with 'length' until the last
+  chunkSize?: number;
+}
+
+/**
+ * Offline LLMProvider for tests. Plug it into a real OpenRouterClient so that
+ * token budgeting, continuation and fallback run without network access.
+ * Every request is recorded in `requests`.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly requests: ProviderRequest[] = [];
+  private readonly responses: Partial<Record<TaskType, string>>;
+  private readonly chunkSize?: number;
+
+  constructor(options: FakeLLMProviderOptions = {}) {
+    this.name = options.name || 'openrouter';
+    this.responses = options.responses || {};
+    this.chunkSize = options.chunkSize;
+  }
+
+  async complete(request: ProviderRequest): Promise<ProviderResponse> {
+    this.requests.push(request);
+
+    // The first user message is the prompt; continuation turns follow it
+    const prompt = request.messages.find((m) => m.role === 'user')?.content || '';
+    const full = (request.task && this.responses[request.task])
+      ?? mockCompletionForTask(request.task, prompt).content;
+
+    let content = full;
+    let finishReason: ProviderResponse['finishReason'] = 'stop';
+    if (this.chunkSize) {
+      const sent = request.messages
+        .filter((m) => m.role === 'assistant')
+        .reduce((total, m) => total + m.content.length, 0);
+      content = full.slice(sent, sent + this.chunkSize);
+      finishReason = sent + this.chunkSize < full.length ? 'length' : 'stop';
+    }
+
+    return {
+      content,
+      finishReason,
+      tokensUsed: Math.ceil((prompt.length + content.length) / 4),
+      model: request.model,
+    };
+  }
+
+  async getModelLimits(_model: string): Promise<ModelLimits | undefined> {
+    return { contextLength: 128000 };
+  }
+}
+
+/**
+ * A real OpenRouterClient whose every provider is the same FakeLLMProvider.
+ */
+export function createFakeLLMClient(options: FakeLLMProviderOptions = {}) {
+  const provider = new FakeLLMProvider(options);
+  const client = new OpenRouterClient('fake-key', {
+    'openrouter': provider,
+    'openai-compatible': provider,
+    'anthropic': provider,
+  });
+  return { client, provider };
+}
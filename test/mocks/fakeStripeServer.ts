@@ -0,0 +1,140 @@
+import http from 'http';
+
+import type { AddressInfo } from 'net';
+
+// A local stand-in for the parts of the Stripe API that the billing code calls.
+// Point the Stripe client at `url` through STRIPE_API_URL; the real SDK then
+// builds and parses the same requests and responses it would against Stripe.
+
+export interface FakeStripeRequest {
+  method: string;
+  path: string;
+  // Form-encoded parameters as sent, e.g. `metadata[plan]`
+  params: Record<string, string>;
+}
+
+export interface FakeSubscriptionInput {
+  id: string;
+  status?: string;
+  customer?: string;
+  metadata?: Record<string, string>;
+  priceId?: string;
+  // Unix seconds
+  currentPeriodEnd?: number;
+  cancelAtPeriodEnd?: boolean;
+  trialEnd?: number | null;
+}
+
+export interface FakeStripe {
+  url: string;
+  requests: FakeStripeRequest[];
+  addSubscription(input: FakeSubscriptionInput): any;
+  /** A webhook event payload around `object` */
+  createEvent(type: string, object: any): any;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+function stripeError(res: http.ServerResponse, status: number, message: string) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    error: { type: 'invalid_request_error', code: 'resource_missing', message },
+  }));
+}
+
+export async function startFakeStripe(): Promise<FakeStripe> {
+  const subscriptions = new Map<string, any>();
+  const requests: FakeStripeRequest[] = [];
+  let sequence = 0;
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const path = (req.url || '').split('?')[0];
+      const params = Object.fromEntries(new URLSearchParams(body));
+      requests.push({ method: req.method || 'GET', path, params });
+
+      const send = (object: any) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(object));
+      };
+
+      const subscriptionMatch = path.match(/^\/v1\/subscriptions\/([^/]+)$/);
+      if (req.method === 'GET' && subscriptionMatch) {
+        const subscription = subscriptions.get(subscriptionMatch[1]);
+        return subscription
+          ? send(subscription)
+          : stripeError(res, 404, `No such subscription: '${subscriptionMatch[1]}'`);
+      }
+
+      if (req.method === 'POST' && path === '/v1/checkout/sessions') {
+        const id = `cs_test_${++sequence}`;
+        return send({ id, object: 'checkout.session', url: `https://checkout.stripe.test/${id}` });
+      }
+
+      if (req.method === 'POST' && path === '/v1/billing_portal/sessions') {
+        const id = `bps_test_${++sequence}`;
+        return send({
+          id,
+          object: 'billing_portal.session',
+          customer: params.customer,
+          return_url: params.return_url,
+          url: `https://billing.stripe.test/${id}`,
+        });
+      }
+
+      stripeError(res, 404, `Unrecognized request URL (${req.method}: ${path})`);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+
+    addSubscription(input) {
+      const subscription = {
+        id: input.id,
+        object: 'subscription',
+        customer: input.customer || 'cus_test',
+        status: input.status || 'active',
+        cancel_at_period_end: input.cancelAtPeriodEnd || false,
+        trial_end: input.trialEnd ?? null,
+        metadata: input.metadata || {},
+        items: {
+          object: 'list',
+          data: [{
+            id: `si_${input.id}`,
+            object: 'subscription_item',
+            current_period_end: input.currentPeriodEnd || 1798761600,
+            price: { id: input.priceId || 'price_test', object: 'price' },
+          }],
+        },
+      };
+      subscriptions.set(input.id, subscription);
+      return subscription;
+    },
+
+    createEvent(type, object) {
+      return {
+        id: `evt_test_${++sequence}`,
+        object: 'event',
+        type,
+        data: { object },
+      };
+    },
+
+    reset() {
+      subscriptions.clear();
+      requests.length = 0;
+    },
+
+    close() {
+      return new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve())));
+    },
+  };
+}